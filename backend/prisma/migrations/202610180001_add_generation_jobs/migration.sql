@@ -0,0 +1,26 @@
+-- Persisted design generation jobs (async generation with bounded retries)
+CREATE TYPE "GenerationJobStatus" AS ENUM ('QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- Failure reason surfaced to customers when a design ends in FAILED
+ALTER TABLE "designs" ADD COLUMN "failureReason" TEXT;
+
+CREATE TABLE "generation_jobs" (
+    "id" TEXT NOT NULL,
+    "designId" TEXT NOT NULL,
+    "status" "GenerationJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "payload" JSONB NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "lastError" TEXT,
+    "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "generation_jobs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "generation_jobs_status_runAfter_idx" ON "generation_jobs"("status", "runAfter");
+CREATE INDEX "generation_jobs_designId_idx" ON "generation_jobs"("designId");
+
+ALTER TABLE "generation_jobs" ADD CONSTRAINT "generation_jobs_designId_fkey" FOREIGN KEY ("designId") REFERENCES "designs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- Generation batches: one request produces several variations of the same prompt/style
+CREATE TABLE "design_batches" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "style" TEXT,
+    "size" INTEGER NOT NULL,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "selectedDesignId" TEXT,
+    "selectedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "design_batches_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "design_batches_orderId_idx" ON "design_batches"("orderId");
+
+ALTER TABLE "design_batches" ADD CONSTRAINT "design_batches_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Designs created before batches keep a NULL batch
+ALTER TABLE "designs" ADD COLUMN "batchId" TEXT;
+ALTER TABLE "designs" ADD COLUMN "batchIndex" INTEGER;
+
+CREATE INDEX "designs_batchId_idx" ON "designs"("batchId");
+
+ALTER TABLE "designs" ADD CONSTRAINT "designs_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "design_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
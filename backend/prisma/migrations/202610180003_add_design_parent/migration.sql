@@ -0,0 +1,6 @@
+-- Designs produced by editing another design point back at it
+ALTER TABLE "designs" ADD COLUMN "parentDesignId" TEXT;
+
+CREATE INDEX "designs_parentDesignId_idx" ON "designs"("parentDesignId");
+
+ALTER TABLE "designs" ADD CONSTRAINT "designs_parentDesignId_fkey" FOREIGN KEY ("parentDesignId") REFERENCES "designs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- Transparent print file (background keyed out) and the customer's keep/drop background choice
+ALTER TABLE "designs" ADD COLUMN "transparentImageUrl" TEXT;
+ALTER TABLE "designs" ADD COLUMN "keepBackground" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,4 @@
+-- High-resolution print file sent to Printful, prepared for one placement's print area
+ALTER TABLE "designs" ADD COLUMN "printFileUrl" TEXT;
+ALTER TABLE "designs" ADD COLUMN "printFilePlacement" TEXT;
+ALTER TABLE "designs" ADD COLUMN "printFileGeneratedAt" TIMESTAMP(3);
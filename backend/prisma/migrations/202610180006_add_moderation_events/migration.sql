@@ -0,0 +1,33 @@
+-- Moderation audit log: every prompt/image decision with category scores, plus the admin review queue
+CREATE TYPE "ModerationSource" AS ENUM ('PROMPT', 'IMAGE');
+CREATE TYPE "ModerationOutcome" AS ENUM ('PASSED', 'FLAGGED', 'ERROR');
+CREATE TYPE "ModerationReviewStatus" AS ENUM ('PENDING_REVIEW', 'CLEARED', 'REJECTED');
+
+-- Set while a design is held for review (or after the review); NULL means nothing needed review
+ALTER TABLE "designs" ADD COLUMN "moderationStatus" "ModerationReviewStatus";
+
+CREATE TABLE "moderation_events" (
+    "id" TEXT NOT NULL,
+    "designId" TEXT,
+    "userId" TEXT,
+    "source" "ModerationSource" NOT NULL,
+    "outcome" "ModerationOutcome" NOT NULL,
+    "blocked" BOOLEAN NOT NULL DEFAULT false,
+    "failMode" TEXT NOT NULL,
+    "input" TEXT NOT NULL,
+    "model" TEXT,
+    "categories" TEXT[],
+    "categoryScores" JSONB,
+    "error" TEXT,
+    "reviewStatus" "ModerationReviewStatus",
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "moderation_events_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "moderation_events_designId_idx" ON "moderation_events"("designId");
+CREATE INDEX "moderation_events_reviewStatus_createdAt_idx" ON "moderation_events"("reviewStatus", "createdAt");
+
+ALTER TABLE "moderation_events" ADD CONSTRAINT "moderation_events_designId_fkey" FOREIGN KEY ("designId") REFERENCES "designs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
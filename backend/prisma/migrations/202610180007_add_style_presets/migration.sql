@@ -0,0 +1,29 @@
+-- Style presets managed from the admin API (previously hard-coded in the OpenAI service)
+CREATE TABLE "style_presets" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "description" TEXT,
+    "promptSuffix" TEXT NOT NULL,
+    "negativeGuidance" TEXT,
+    "previewImageUrl" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "availableFrom" TIMESTAMP(3),
+    "availableUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "style_presets_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "style_presets_key_key" ON "style_presets"("key");
+CREATE INDEX "style_presets_active_sortOrder_idx" ON "style_presets"("active", "sortOrder");
+
+-- The six styles that shipped in code, so existing designs and clients keep working
+INSERT INTO "style_presets" ("id", "key", "label", "description", "promptSuffix", "sortOrder", "updatedAt") VALUES
+    ('style_modern', 'modern', 'Modern', 'Clean, minimalist with bold colors', 'in a modern, clean, minimalist style with bold colors', 10, CURRENT_TIMESTAMP),
+    ('style_vintage', 'vintage', 'Vintage', 'Retro style with muted colors', 'in a vintage, retro style with muted colors and aged textures', 20, CURRENT_TIMESTAMP),
+    ('style_artistic', 'artistic', 'Artistic', 'Creative with expressive strokes', 'in an artistic, creative style with expressive brushstrokes', 30, CURRENT_TIMESTAMP),
+    ('style_playful', 'playful', 'Playful', 'Fun with bright colors', 'in a playful, fun style with bright colors and whimsical elements', 40, CURRENT_TIMESTAMP),
+    ('style_professional', 'professional', 'Professional', 'Sophisticated and elegant', 'in a professional, sophisticated style with elegant design', 50, CURRENT_TIMESTAMP),
+    ('style_trendy', 'trendy', 'Trendy', 'Contemporary design trends', 'in a trendy, contemporary style with current design trends', 60, CURRENT_TIMESTAMP);
@@ -0,0 +1,22 @@
+-- Refinement thread: short instructions merged into full prompts, confirmed before generating
+CREATE TYPE "DesignRefinementStatus" AS ENUM ('PROPOSED', 'CONFIRMED', 'DISCARDED');
+
+CREATE TABLE "design_refinements" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "sourceDesignId" TEXT,
+    "instruction" TEXT NOT NULL,
+    "mergedPrompt" TEXT NOT NULL,
+    "mergeModel" TEXT NOT NULL,
+    "finalPrompt" TEXT,
+    "status" "DesignRefinementStatus" NOT NULL DEFAULT 'PROPOSED',
+    "batchId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "design_refinements_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "design_refinements_orderId_createdAt_idx" ON "design_refinements"("orderId", "createdAt");
+
+ALTER TABLE "design_refinements" ADD CONSTRAINT "design_refinements_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "design_refinements" ADD CONSTRAINT "design_refinements_sourceDesignId_fkey" FOREIGN KEY ("sourceDesignId") REFERENCES "designs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- Typography layers: structured text blocks composited over the AI artwork
+ALTER TABLE "designs" ADD COLUMN "textLayers" JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE "designs" ADD COLUMN "textImageUrl" TEXT;
@@ -0,0 +1,5 @@
+-- Print placement per order item: offset and width in inches within the Printful print area
+ALTER TABLE "order_items" ADD COLUMN "placementPreset" TEXT;
+ALTER TABLE "order_items" ADD COLUMN "printLeftIn" DOUBLE PRECISION;
+ALTER TABLE "order_items" ADD COLUMN "printTopIn" DOUBLE PRECISION;
+ALTER TABLE "order_items" ADD COLUMN "printWidthIn" DOUBLE PRECISION;
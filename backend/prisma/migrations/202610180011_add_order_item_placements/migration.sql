@@ -0,0 +1,20 @@
+-- Which print location a design is for; "front" is the item's primary placement
+ALTER TABLE "designs" ADD COLUMN "placement" TEXT NOT NULL DEFAULT 'front';
+
+-- Extra print locations per order item (back, sleeve, inside label), priced when added
+CREATE TABLE "order_item_placements" (
+    "id" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "placement" TEXT NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL,
+    "designId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "order_item_placements_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "order_item_placements_orderItemId_placement_key" ON "order_item_placements"("orderItemId", "placement");
+
+ALTER TABLE "order_item_placements" ADD CONSTRAINT "order_item_placements_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "order_item_placements" ADD CONSTRAINT "order_item_placements_designId_fkey" FOREIGN KEY ("designId") REFERENCES "designs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
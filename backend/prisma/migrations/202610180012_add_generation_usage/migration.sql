@@ -0,0 +1,20 @@
+-- Generation quota ledger: one row per queued generation request (images and estimated spend),
+-- counted over rolling windows per user, guest token, IP and globally
+CREATE TABLE "generation_usage" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "guestToken" TEXT,
+    "ipAddress" TEXT,
+    "orderId" TEXT,
+    "source" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "images" INTEGER NOT NULL,
+    "estimatedCost" DECIMAL(10,4) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "generation_usage_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "generation_usage_userId_createdAt_idx" ON "generation_usage"("userId", "createdAt");
+CREATE INDEX "generation_usage_guestToken_createdAt_idx" ON "generation_usage"("guestToken", "createdAt");
+CREATE INDEX "generation_usage_ipAddress_createdAt_idx" ON "generation_usage"("ipAddress", "createdAt");
+CREATE INDEX "generation_usage_createdAt_idx" ON "generation_usage"("createdAt");
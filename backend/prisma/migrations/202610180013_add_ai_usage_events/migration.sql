@@ -0,0 +1,34 @@
+-- AI call telemetry: one row per provider call (moderation, image generation/edit, prompt
+-- rewrite) with model, size, quality, latency, outcome and estimated cost
+CREATE TYPE "AiCallKind" AS ENUM ('PROMPT_MODERATION', 'IMAGE_MODERATION', 'IMAGE_GENERATION', 'IMAGE_EDIT', 'PROMPT_REWRITE');
+CREATE TYPE "AiCallOutcome" AS ENUM ('SUCCESS', 'FLAGGED', 'ERROR');
+
+CREATE TABLE "ai_usage_events" (
+    "id" TEXT NOT NULL,
+    "kind" "AiCallKind" NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "size" TEXT,
+    "quality" TEXT,
+    "latencyMs" INTEGER NOT NULL,
+    "outcome" "AiCallOutcome" NOT NULL,
+    "error" TEXT,
+    "inputTokens" INTEGER,
+    "outputTokens" INTEGER,
+    "estimatedCost" DECIMAL(10,4) NOT NULL,
+    "designId" TEXT,
+    "orderId" TEXT,
+    "userId" TEXT,
+    "guestSession" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ai_usage_events_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "ai_usage_events_orderId_idx" ON "ai_usage_events"("orderId");
+CREATE INDEX "ai_usage_events_designId_idx" ON "ai_usage_events"("designId");
+CREATE INDEX "ai_usage_events_guestSession_idx" ON "ai_usage_events"("guestSession");
+CREATE INDEX "ai_usage_events_createdAt_idx" ON "ai_usage_events"("createdAt");
+
+ALTER TABLE "ai_usage_events" ADD CONSTRAINT "ai_usage_events_designId_fkey" FOREIGN KEY ("designId") REFERENCES "designs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "ai_usage_events" ADD CONSTRAINT "ai_usage_events_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "ai_usage_events" ADD CONSTRAINT "ai_usage_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
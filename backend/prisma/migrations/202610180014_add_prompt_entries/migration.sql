@@ -0,0 +1,25 @@
+-- Personal prompt library: every generate, edit and refinement prompt a customer submits, with
+-- favourites and tags. Guest entries move to the account when the preview order is claimed.
+CREATE TABLE "prompt_entries" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "orderId" TEXT,
+    "prompt" TEXT NOT NULL,
+    "style" TEXT,
+    "source" TEXT NOT NULL,
+    "batchId" TEXT,
+    "designId" TEXT,
+    "favorite" BOOLEAN NOT NULL DEFAULT false,
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "prompt_entries_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "prompt_entries_userId_createdAt_idx" ON "prompt_entries"("userId", "createdAt");
+CREATE INDEX "prompt_entries_orderId_idx" ON "prompt_entries"("orderId");
+
+ALTER TABLE "prompt_entries" ADD CONSTRAINT "prompt_entries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "prompt_entries" ADD CONSTRAINT "prompt_entries_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "prompt_entries" ADD CONSTRAINT "prompt_entries_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "design_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "prompt_entries" ADD CONSTRAINT "prompt_entries_designId_fkey" FOREIGN KEY ("designId") REFERENCES "designs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- Account design library: soft delete for designs, an index for listing a user's designs across
+-- orders, and user collections designs can be added to
+ALTER TABLE "designs" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+CREATE INDEX "designs_userId_createdAt_idx" ON "designs"("userId", "createdAt");
+
+CREATE TABLE "design_collections" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "design_collections_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "design_collections_userId_name_key" ON "design_collections"("userId", "name");
+
+CREATE TABLE "design_collection_items" (
+    "collectionId" TEXT NOT NULL,
+    "designId" TEXT NOT NULL,
+    "addedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "design_collection_items_pkey" PRIMARY KEY ("collectionId","designId")
+);
+
+CREATE INDEX "design_collection_items_designId_idx" ON "design_collection_items"("designId");
+
+ALTER TABLE "design_collections" ADD CONSTRAINT "design_collections_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "design_collection_items" ADD CONSTRAINT "design_collection_items_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "design_collections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "design_collection_items" ADD CONSTRAINT "design_collection_items_designId_fkey" FOREIGN KEY ("designId") REFERENCES "designs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- Durable storage tracking for generated images: whether the design's image is in our bucket,
+-- the provider URL it came from and the upload retry schedule
+CREATE TYPE "DesignStorageStatus" AS ENUM ('PENDING', 'STORED', 'EXPIRED');
+
+ALTER TABLE "designs" ADD COLUMN "storageStatus" "DesignStorageStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN "sourceImageUrl" TEXT,
+ADD COLUMN "storageAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "storageError" TEXT,
+ADD COLUMN "storageRetryAt" TIMESTAMP(3);
+
+-- Existing designs are stored unless they still point at a temporary OpenAI URL; those are queued
+-- for reconciliation, which re-uploads them or marks them for regeneration
+UPDATE "designs" SET "storageStatus" = 'STORED'
+WHERE "status" <> 'GENERATING'
+  AND LOWER("imageUrl") NOT LIKE '%oaidalle%'
+  AND LOWER("imageUrl") NOT LIKE '%openai%';
+
+UPDATE "designs" SET "sourceImageUrl" = "imageUrl", "storageRetryAt" = CURRENT_TIMESTAMP
+WHERE "storageStatus" = 'PENDING' AND "status" <> 'GENERATING';
+
+CREATE INDEX "designs_storageStatus_storageRetryAt_idx" ON "designs"("storageStatus", "storageRetryAt");
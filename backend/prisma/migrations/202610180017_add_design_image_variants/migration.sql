@@ -0,0 +1,5 @@
+-- Responsive derivatives of each design image (WebP and AVIF at several widths) and a tiny
+-- blurred placeholder shown while they load; existing designs are filled in by
+-- `npm run images:backfill`
+ALTER TABLE "designs" ADD COLUMN "imageVariants" JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN "placeholder" TEXT;
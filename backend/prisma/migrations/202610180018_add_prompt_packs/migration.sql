@@ -0,0 +1,25 @@
+-- "Surprise Me" prompt packs managed from the admin API (previously hard-coded in the OpenAI service)
+CREATE TABLE "prompt_packs" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "subjects" TEXT[],
+    "themes" TEXT[],
+    "weight" INTEGER NOT NULL DEFAULT 1,
+    "suggestedStyle" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "availableFrom" TIMESTAMP(3),
+    "availableUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "prompt_packs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "prompt_packs_key_key" ON "prompt_packs"("key");
+CREATE INDEX "prompt_packs_active_sortOrder_idx" ON "prompt_packs"("active", "sortOrder");
+
+-- The subjects and themes that shipped in code, so "Surprise Me" keeps working before admins add packs
+INSERT INTO "prompt_packs" ("id", "key", "name", "description", "subjects", "themes", "sortOrder", "updatedAt") VALUES
+    ('pack_classics', 'classics', 'Classics', 'Dragons, nebulae, mandalas and more', ARRAY['a majestic dragon', 'a cosmic nebula', 'a geometric mandala', 'a vintage motorcycle', 'a mystical forest', 'a retro arcade game', 'a cyberpunk cityscape', 'an abstract wave pattern', 'a minimalist mountain range', 'a steampunk robot', 'a tropical sunset', 'a space explorer', 'a zen garden', 'a neon graffiti design', 'a mythical phoenix'], ARRAY['with vibrant colors', 'in monochrome style', 'with geometric patterns', 'with flowing lines', 'in pixel art style', 'with watercolor effects', 'with bold outlines', 'in a symmetrical design'], 10, CURRENT_TIMESTAMP);
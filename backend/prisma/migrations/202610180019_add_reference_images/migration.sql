@@ -0,0 +1,22 @@
+-- Reference photos uploaded to guide generation (stored without EXIF after moderation) and the
+-- link from each design generated from one
+CREATE TABLE "reference_images" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "imageUrl" TEXT NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "sizeBytes" INTEGER NOT NULL,
+    "rightsConfirmedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "reference_images_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "reference_images_orderId_createdAt_idx" ON "reference_images"("orderId", "createdAt");
+
+ALTER TABLE "designs" ADD COLUMN "referenceImageId" TEXT;
+
+CREATE INDEX "designs_referenceImageId_idx" ON "designs"("referenceImageId");
+
+ALTER TABLE "reference_images" ADD CONSTRAINT "reference_images_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "designs" ADD CONSTRAINT "designs_referenceImageId_fkey" FOREIGN KEY ("referenceImageId") REFERENCES "reference_images"("id") ON DELETE SET NULL ON UPDATE CASCADE;
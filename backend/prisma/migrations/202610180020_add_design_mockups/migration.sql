@@ -0,0 +1,16 @@
+-- Rendered product mockups, one per design and shirt colour. `signature` hashes what the mockup
+-- was drawn from (print image, placement box, template) so stale rows are re-rendered on read
+CREATE TABLE "design_mockups" (
+    "id" TEXT NOT NULL,
+    "designId" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "signature" TEXT NOT NULL,
+    "imageUrl" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "design_mockups_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "design_mockups_designId_color_key" ON "design_mockups"("designId", "color");
+
+ALTER TABLE "design_mockups" ADD CONSTRAINT "design_mockups_designId_fkey" FOREIGN KEY ("designId") REFERENCES "designs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
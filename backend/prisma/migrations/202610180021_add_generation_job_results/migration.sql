@@ -0,0 +1,3 @@
+-- Generated (and, once uploaded, stored) image of a job, kept so a retry after moderation,
+-- storage or the final update failed reuses it instead of generating again
+ALTER TABLE "generation_jobs" ADD COLUMN "result" JSONB;
@@ -60,6 +60,87 @@ const PRODUCTS = [
   },
 ];
 
+const STYLE_PRESETS = [
+  {
+    key: 'modern',
+    label: 'Modern',
+    description: 'Clean, minimalist with bold colors',
+    promptSuffix: 'in a modern, clean, minimalist style with bold colors',
+    sortOrder: 10,
+  },
+  {
+    key: 'vintage',
+    label: 'Vintage',
+    description: 'Retro style with muted colors',
+    promptSuffix: 'in a vintage, retro style with muted colors and aged textures',
+    sortOrder: 20,
+  },
+  {
+    key: 'artistic',
+    label: 'Artistic',
+    description: 'Creative with expressive strokes',
+    promptSuffix: 'in an artistic, creative style with expressive brushstrokes',
+    sortOrder: 30,
+  },
+  {
+    key: 'playful',
+    label: 'Playful',
+    description: 'Fun with bright colors',
+    promptSuffix: 'in a playful, fun style with bright colors and whimsical elements',
+    sortOrder: 40,
+  },
+  {
+    key: 'professional',
+    label: 'Professional',
+    description: 'Sophisticated and elegant',
+    promptSuffix: 'in a professional, sophisticated style with elegant design',
+    sortOrder: 50,
+  },
+  {
+    key: 'trendy',
+    label: 'Trendy',
+    description: 'Contemporary design trends',
+    promptSuffix: 'in a trendy, contemporary style with current design trends',
+    sortOrder: 60,
+  },
+];
+
+const PROMPT_PACKS = [
+  {
+    key: 'classics',
+    name: 'Classics',
+    description: 'Dragons, nebulae, mandalas and more',
+    subjects: [
+      'a majestic dragon',
+      'a cosmic nebula',
+      'a geometric mandala',
+      'a vintage motorcycle',
+      'a mystical forest',
+      'a retro arcade game',
+      'a cyberpunk cityscape',
+      'an abstract wave pattern',
+      'a minimalist mountain range',
+      'a steampunk robot',
+      'a tropical sunset',
+      'a space explorer',
+      'a zen garden',
+      'a neon graffiti design',
+      'a mythical phoenix',
+    ],
+    themes: [
+      'with vibrant colors',
+      'in monochrome style',
+      'with geometric patterns',
+      'with flowing lines',
+      'in pixel art style',
+      'with watercolor effects',
+      'with bold outlines',
+      'in a symmetrical design',
+    ],
+    sortOrder: 10,
+  },
+];
+
 async function main() {
   console.log('🌱 Starting database seed...');
 
@@ -94,6 +175,28 @@ async function main() {
     console.log(`  ✓ Created/Updated setting: ${setting.key}`);
   }
 
+  // Seed Style Presets (create only, so admin edits survive a re-seed)
+  console.log('🎨 Seeding style presets...');
+  for (const preset of STYLE_PRESETS) {
+    await prisma.stylePreset.upsert({
+      where: { key: preset.key },
+      update: {},
+      create: preset,
+    });
+    console.log(`  ✓ Created/Kept style preset: ${preset.label}`);
+  }
+
+  // Seed Prompt Packs (create only, so admin edits survive a re-seed)
+  console.log('🎲 Seeding prompt packs...');
+  for (const pack of PROMPT_PACKS) {
+    await prisma.promptPack.upsert({
+      where: { key: pack.key },
+      update: {},
+      create: pack,
+    });
+    console.log(`  ✓ Created/Kept prompt pack: ${pack.name}`);
+  }
+
   console.log('✅ Database seeded successfully!');
 }
 
@@ -0,0 +1,29 @@
+import prisma from '../src/config/database.js';
+import { downloadImage } from '../src/services/asset-storage.service.js';
+import { backfillImageDerivatives } from '../src/services/image-derivative.service.js';
+
+// Usage: npm run images:backfill -- [limit]
+// Creates WebP/AVIF derivatives and blur placeholders for stored designs that predate them,
+// oldest first. Re-run until it reports nothing left; designs that fail are listed and skipped.
+async function run() {
+  const limit = Number(process.argv[2]) || 100;
+
+  const { processed, failed } = await backfillImageDerivatives(limit, downloadImage);
+
+  console.log(`Backfilled ${processed} designs`);
+  if (failed.length) {
+    console.log(`Failed (${failed.length}): ${failed.join(', ')}`);
+  }
+  if (!processed && !failed.length) {
+    console.log('Nothing to backfill.');
+  }
+}
+
+run()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
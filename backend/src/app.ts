@@ -3,6 +3,8 @@ import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import { errorHandler, notFoundHandler } from './middleware/error.middleware.js';
+import { getStorageConfig } from './config/storage.js';
+import { LOCAL_ASSET_ROUTE } from './services/storage-driver.service.js';
 
 import healthRoutes from './routes/health.routes.js';
 import authRoutes from './routes/auth.routes.js';
@@ -14,10 +16,17 @@ import orderRoutes from './routes/order.routes.js';
 import adminRoutes from './routes/admin.routes.js';
 import giftCodeRoutes from './routes/giftcode.routes.js';
 import promoCodeRoutes from './routes/promocode.routes.js';
+import promptRoutes from './routes/prompt.routes.js';
 
 export function createApp() {
   const app = express();
 
+  /**
+   * Trust the platform router's X-Forwarded-For so req.ip is the client address (per-IP
+   * generation quotas depend on it)
+   */
+  app.set('trust proxy', 1);
+
   /**
    * Security Middleware
    */
@@ -62,6 +71,23 @@ export function createApp() {
     app.use(morgan('combined'));
   }
 
+  /**
+   * Design assets written by the local storage driver (development and tests). Other drivers
+   * serve files from their own public URLs.
+   */
+  const storage = getStorageConfig();
+  if (storage.local) {
+    app.use(
+      LOCAL_ASSET_ROUTE,
+      express.static(storage.local.directory, {
+        immutable: true,
+        maxAge: '1y',
+        // The frontend loads these images from another origin
+        setHeaders: (res) => res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin'),
+      })
+    );
+  }
+
   /**
    * API Routes
    */
@@ -74,6 +100,7 @@ export function createApp() {
   app.use('/api/admin', adminRoutes);
   app.use('/api/gift-codes', giftCodeRoutes);
   app.use('/api/promo', promoCodeRoutes);
+  app.use('/api/prompts', promptRoutes);
 
   // Add more routes here as needed
   // Printful and email integrations pending
@@ -0,0 +1,36 @@
+/**
+ * @module config/ai-costs
+ * @description Published OpenAI prices used to estimate what each provider call costs. Estimates
+ * only — reconcile against the OpenAI usage dashboard for billing.
+ * @since 2026-10-18
+ */
+
+import type { ImageSize } from '../types/image-provider.js';
+
+/**
+ * @constant IMAGE_PRICES_USD
+ * @description Price per image by model, quality and requested size (portrait and landscape share
+ * a price; gpt-image-1 renders them at 1024x1536)
+ */
+export const IMAGE_PRICES_USD: Record<string, Record<string, Record<ImageSize, number>>> = {
+  'dall-e-3': {
+    standard: { '1024x1024': 0.04, '1024x1792': 0.08, '1792x1024': 0.08 },
+    hd: { '1024x1024': 0.08, '1024x1792': 0.12, '1792x1024': 0.12 },
+  },
+  'gpt-image-1': {
+    low: { '1024x1024': 0.011, '1024x1792': 0.016, '1792x1024': 0.016 },
+    medium: { '1024x1024': 0.042, '1024x1792': 0.063, '1792x1024': 0.063 },
+    high: { '1024x1024': 0.167, '1024x1792': 0.25, '1792x1024': 0.25 },
+  },
+};
+
+/**
+ * @constant CHAT_PRICES_USD_PER_MILLION_TOKENS
+ * @description Input/output token prices for chat models used for prompt rewrites
+ */
+export const CHAT_PRICES_USD_PER_MILLION_TOKENS: Record<string, { input: number; output: number }> =
+  {
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  };
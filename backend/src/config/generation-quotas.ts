@@ -0,0 +1,34 @@
+/**
+ * @module config/generation-quotas
+ * @description Default generation quotas and per-image cost estimates. Operators override the
+ * limits through the `quota_*` and `spend_*` settings.
+ * @since 2026-10-18
+ */
+
+import { IMAGE_PRICES_USD } from './ai-costs.js';
+import type { GenerationQuotaLimits } from '../types/generation-quota.js';
+import type { ImageProviderName } from '../types/image-provider.js';
+
+/**
+ * @constant GENERATION_QUOTA_DEFAULTS
+ * @description Limits used when no setting overrides them. Counted in images, so a batch of four
+ * variations uses four.
+ */
+export const GENERATION_QUOTA_DEFAULTS: GenerationQuotaLimits = {
+  guest: { images: 12, windowMinutes: 60 },
+  ip: { images: 30, windowMinutes: 60 },
+  user: { images: 40, windowMinutes: 60 },
+  globalDailyImages: 3000,
+  dailySpendCapUsd: 150,
+  breakerCooldownMinutes: 60,
+};
+
+/**
+ * @constant IMAGE_COST_ESTIMATES_USD
+ * @description Estimated provider cost per square image at the quality each provider requests
+ */
+export const IMAGE_COST_ESTIMATES_USD: Record<ImageProviderName, number> = {
+  'dall-e-3': IMAGE_PRICES_USD['dall-e-3'].standard['1024x1024'],
+  'gpt-image-1': IMAGE_PRICES_USD['gpt-image-1'].medium['1024x1024'],
+  stub: 0,
+};
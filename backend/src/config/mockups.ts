@@ -0,0 +1,51 @@
+/**
+ * @module config/mockups
+ * @description Garment templates product mockups are drawn on. The templates are the storefront's `assets/preview*.png` shirts, copied to `backend/assets/mockups` so the server can read them from both `src` and `dist`.
+ * @since 2026-10-18
+ */
+
+import { fileURLToPath } from 'url';
+import type { MockupPrintArea } from '../types/mockup.js';
+
+/**
+ * @constant MOCKUP_TEMPLATE_DIR
+ * @description Directory holding the template PNGs
+ */
+export const MOCKUP_TEMPLATE_DIR = fileURLToPath(new URL('../../assets/mockups/', import.meta.url));
+
+/**
+ * @constant MOCKUP_TEMPLATES
+ * @description Template file per shirt colour, keyed by lower-case colour name. Colours without a
+ * template are drawn on a plain square of the colour.
+ */
+export const MOCKUP_TEMPLATES: Record<string, string> = {
+  black: 'black.png',
+  white: 'white.png',
+  gray: 'gray.png',
+  grey: 'gray.png',
+  navy: 'navy.png',
+};
+
+/**
+ * @constant MOCKUP_SIZE
+ * @description Width and height of a rendered mockup in pixels (the templates are 800×800)
+ */
+export const MOCKUP_SIZE = 800;
+
+/**
+ * @constant MOCKUP_PRINT_AREAS
+ * @description Where each placement's print area sits on the templates. Matches
+ * `MOCKUP_PRINT_AREA` in the storefront's `utils/printPlacement.ts`; front and back share the
+ * 12×16 in area, and placements not listed here have no mockup.
+ */
+export const MOCKUP_PRINT_AREAS: Record<string, MockupPrintArea> = {
+  front: { left: 0.325, top: 0.2, width: 0.35, height: (0.35 * 16) / 12 },
+  back: { left: 0.325, top: 0.2, width: 0.35, height: (0.35 * 16) / 12 },
+};
+
+/**
+ * @constant MOCKUP_VERSION
+ * @description Part of every cached mockup's signature; bump it after changing the templates or
+ * the print areas so existing mockups are rendered again
+ */
+export const MOCKUP_VERSION = 1;
@@ -0,0 +1,18 @@
+/**
+ * @module config/openai
+ * @description Shared OpenAI client instance used by moderation, prompt and image provider services
+ * @since 2026-10-18
+ */
+
+import OpenAI from 'openai';
+
+/**
+ * @constant openai
+ * @description Singleton OpenAI client configured from environment
+ */
+const openai = new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY,
+  organization: process.env.OPENAI_ORGANIZATION_ID,
+});
+
+export default openai;
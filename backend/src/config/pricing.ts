@@ -4,6 +4,8 @@
  * @since 2025-11-21
  */
 
+import type { ExtraPrintPlacement } from '../types/print-placement.js';
+
 /**
  * @enum TierType
  * @description Pricing tier enumeration
@@ -40,6 +42,16 @@ export const TIERS: Record<TierType, TierConfig> = {
   },
 };
 
+/**
+ * @constant PLACEMENT_PRICES
+ * @description Default price in USD per extra print placement, added to the item's tier price
+ */
+export const PLACEMENT_PRICES: Record<ExtraPrintPlacement, number> = {
+  back: 12,
+  sleeve_left: 8,
+  label_inside: 5,
+};
+
 /**
  * @function getTierConfig
  * @description Retrieves tier configuration by type
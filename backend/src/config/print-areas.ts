@@ -0,0 +1,128 @@
+/**
+ * @module config/print-areas
+ * @description Printful print areas per placement, used to size print files
+ * @since 2026-10-18
+ */
+
+import type {
+  DesignPlacement,
+  ExtraPlacementSpec,
+  ExtraPrintPlacement,
+  PrintPlacementPreset,
+  PrintPlacementPresetSpec,
+} from '../types/print-placement.js';
+
+/**
+ * @interface PrintAreaSpec
+ * @description Physical print area and resolution for a placement
+ * @property {number} widthIn - Print area width in inches
+ * @property {number} heightIn - Print area height in inches
+ * @property {number} dpi - Required resolution
+ */
+export interface PrintAreaSpec {
+  widthIn: number;
+  heightIn: number;
+  dpi: number;
+}
+
+/**
+ * @constant PRINT_AREAS
+ * @description Print areas keyed by Printful placement. `front` is the DTG chest area on tees and
+ * hoodies and `default` is the 11oz mug wrap; the rest are the extra apparel placements.
+ */
+export const PRINT_AREAS: Record<string, PrintAreaSpec> = {
+  front: { widthIn: 12, heightIn: 16, dpi: 300 },
+  back: { widthIn: 12, heightIn: 16, dpi: 300 },
+  sleeve_left: { widthIn: 4, heightIn: 3.5, dpi: 300 },
+  label_inside: { widthIn: 3, heightIn: 3, dpi: 300 },
+  default: { widthIn: 9, heightIn: 3.5, dpi: 300 },
+};
+
+/**
+ * @constant EXTRA_PRINT_PLACEMENTS
+ * @description Placements apparel items can add, in the order they are shown. Each one is
+ * charged on top of the tier price (see `config/pricing.ts`) and needs its own approved design.
+ */
+export const EXTRA_PRINT_PLACEMENTS: Record<ExtraPrintPlacement, ExtraPlacementSpec> = {
+  back: { label: 'Back' },
+  sleeve_left: { label: 'Left sleeve' },
+  label_inside: { label: 'Inside label' },
+};
+
+/**
+ * @constant PRINT_PLACEMENT_PRESETS
+ * @description Placement editor presets per placement, in inches within the print area. Only
+ * placements listed here can be repositioned; `left-chest` sits on the wearer's left, which is the
+ * right-hand side of the print area as you look at the shirt.
+ */
+export const PRINT_PLACEMENT_PRESETS: Record<
+  string,
+  Record<PrintPlacementPreset, PrintPlacementPresetSpec>
+> = {
+  front: {
+    'full-front': { label: 'Full front', width: 12, top: 0 },
+    'centered-small': { label: 'Centered small', width: 6, top: 1.5 },
+    'left-chest': { label: 'Left chest', width: 4, top: 1, left: 7 },
+  },
+};
+
+/**
+ * @constant MIN_PRINT_WIDTH_IN
+ * @description Narrowest art box the placement editor accepts, in inches
+ */
+export const MIN_PRINT_WIDTH_IN = 2;
+
+/**
+ * @constant PRINT_FILE_MAX_BYTES
+ * @description Largest print file Printful accepts by URL
+ */
+export const PRINT_FILE_MAX_BYTES = 200 * 1024 * 1024;
+
+/**
+ * @constant PRINT_SOURCE_MIN_PX
+ * @description Sources with a shorter side than this are too small to upscale to print quality
+ */
+export const PRINT_SOURCE_MIN_PX = 512;
+
+/**
+ * @function getPrintPlacement
+ * @description Printful placement for a product category
+ *
+ * @param {string} category - Product category (e.g. T_SHIRT, HOODIE, MUG)
+ *
+ * @returns {string} Placement key in PRINT_AREAS
+ */
+export function getPrintPlacement(category: string): string {
+  return category === 'T_SHIRT' || category === 'HOODIE' ? 'front' : 'default';
+}
+
+/**
+ * @function supportsExtraPlacements
+ * @description Whether a product category can print in more places than its front
+ *
+ * @param {string} category - Product category (e.g. T_SHIRT, HOODIE, MUG)
+ *
+ * @returns {boolean} True for tees and hoodies
+ */
+export function supportsExtraPlacements(category: string): boolean {
+  return getPrintPlacement(category) === 'front';
+}
+
+/**
+ * @function getDesignPrintPlacement
+ * @description Printful placement a design prints at on an item: a `front` design goes to the
+ * category's primary placement, extra placements map to themselves
+ *
+ * @param {string | null | undefined} designPlacement - Design's placement
+ * @param {string} category - Product category
+ *
+ * @returns {string} Placement key in PRINT_AREAS
+ */
+export function getDesignPrintPlacement(
+  designPlacement: DesignPlacement | string | null | undefined,
+  category: string
+): string {
+  return !designPlacement || designPlacement === 'front'
+    ? getPrintPlacement(category)
+    : designPlacement;
+}
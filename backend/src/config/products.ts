@@ -77,3 +77,20 @@ export const PRODUCTS: ProductConfig[] = [
   //   ],
   // },
 ];
+
+/**
+ * @function findProductColor
+ * @description Looks up a shirt colour by name (case-insensitive) across the catalog
+ *
+ * @param {string} name - Colour name as stored on order items (e.g. "Black")
+ *
+ * @returns {ColorOption | undefined} Matching colour with its hex code
+ */
+export function findProductColor(name: string): ColorOption | undefined {
+  const target = name.trim().toLowerCase();
+  for (const product of PRODUCTS) {
+    const match = product.colors.find((color) => color.name.toLowerCase() === target);
+    if (match) return match;
+  }
+  return undefined;
+}
@@ -0,0 +1,76 @@
+/**
+ * @module config/storage
+ * @description Asset storage selection. `STORAGE_DRIVER` picks `supabase`, `s3` or `local`; when
+ * it is unset Supabase is used if its credentials are present and the local filesystem otherwise,
+ * so development and tests need nothing beyond Postgres.
+ * @since 2026-10-18
+ */
+
+import path from 'path';
+import type { StorageConfig, StorageDriverName } from '../types/storage.js';
+
+const STORAGE_DRIVERS: StorageDriverName[] = ['supabase', 's3', 'local'];
+
+/**
+ * @function getStorageConfig
+ * @description Reads the storage settings from the environment
+ *
+ * @returns {StorageConfig} Selected driver and its settings
+ *
+ * @throws {Error} When `STORAGE_DRIVER` is unknown or the selected driver is missing settings
+ */
+export function getStorageConfig(): StorageConfig {
+  const requested = process.env.STORAGE_DRIVER?.trim().toLowerCase();
+  if (requested && !STORAGE_DRIVERS.includes(requested as StorageDriverName)) {
+    throw new Error(`STORAGE_DRIVER must be one of: ${STORAGE_DRIVERS.join(', ')}`);
+  }
+
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const driver =
+    (requested as StorageDriverName | undefined) ||
+    (supabaseUrl && supabaseKey ? 'supabase' : 'local');
+
+  if (driver === 'supabase') {
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error('STORAGE_DRIVER=supabase needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+    }
+    return {
+      driver,
+      supabase: {
+        url: supabaseUrl,
+        serviceRoleKey: supabaseKey,
+        bucket: process.env.SUPABASE_DESIGNS_BUCKET || 'designs',
+      },
+    };
+  }
+
+  if (driver === 's3') {
+    const bucket = process.env.S3_BUCKET_NAME;
+    if (!bucket) {
+      throw new Error('STORAGE_DRIVER=s3 needs S3_BUCKET_NAME');
+    }
+    return {
+      driver,
+      s3: {
+        bucket,
+        region: process.env.AWS_REGION || 'us-east-1',
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        accessKeyId: process.env.AWS_ACCESS_KEY_ID || undefined,
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || undefined,
+        publicUrl: process.env.S3_PUBLIC_URL || undefined,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      },
+    };
+  }
+
+  return {
+    driver,
+    local: {
+      directory: path.resolve(process.env.LOCAL_ASSET_DIR || 'uploads'),
+      baseUrl: (
+        process.env.ASSET_BASE_URL || `http://localhost:${process.env.PORT || 5000}`
+      ).replace(/\/+$/, ''),
+    },
+  };
+}
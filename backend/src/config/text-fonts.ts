@@ -0,0 +1,35 @@
+/**
+ * @module config/text-fonts
+ * @description Fonts customers can use in text layers. The storefront loads the same families from Google Fonts; the server renders them through sharp/librsvg, so the font files must be installed where the backend runs (see OPERATIONS_GUIDE).
+ * @since 2026-10-18
+ */
+
+import type { TextLayerFont } from '../types/text-layer.js';
+
+/**
+ * @constant TEXT_FONTS
+ * @description Bundled fonts keyed by the value stored in a text layer's `font`
+ */
+export const TEXT_FONTS: Record<string, TextLayerFont> = {
+  'space-grotesk': {
+    label: 'Space Grotesk',
+    family: 'Space Grotesk',
+    weight: 700,
+    fallback: 'sans-serif',
+  },
+  inter: { label: 'Inter', family: 'Inter', weight: 600, fallback: 'sans-serif' },
+  anton: { label: 'Anton', family: 'Anton', weight: 400, fallback: 'sans-serif' },
+  'instrument-serif': {
+    label: 'Instrument Serif',
+    family: 'Instrument Serif',
+    weight: 400,
+    fallback: 'serif',
+  },
+  pacifico: { label: 'Pacifico', family: 'Pacifico', weight: 400, fallback: 'cursive' },
+};
+
+/**
+ * @constant DEFAULT_TEXT_FONT
+ * @description Font used when a layer is added without choosing one
+ */
+export const DEFAULT_TEXT_FONT = 'space-grotesk';
@@ -8,6 +8,29 @@ import { Request, Response } from 'express';
 import { catchAsync, AppError } from '../middleware/error.middleware.js';
 import { syncAllPrintfulOrders, fetchPrintfulProductVariants } from '../services/printful.service.js';
 import { EMAIL_TEMPLATES, buildEmailHtml } from '../services/email-templates.js';
+import { regeneratePrintFiles } from '../services/print-file.service.js';
+import { listModerationQueue, reviewDesignModeration } from '../services/moderation.service.js';
+import {
+  createStylePreset,
+  deleteStylePreset,
+  listStylePresets,
+  parseStylePresetInput,
+  updateStylePreset,
+} from '../services/style-preset.service.js';
+import {
+  createPromptPack,
+  deletePromptPack,
+  listPromptPacks,
+  parsePromptPackInput,
+  updatePromptPack,
+} from '../services/prompt-pack.service.js';
+import {
+  getGenerationQuotaStatus,
+  resetSpendBreaker,
+  updateGenerationQuotaLimits,
+} from '../services/generation-quota.service.js';
+import { getAiCostReport, getOrderAiUsage } from '../services/ai-usage.service.js';
+import { PRINT_AREAS } from '../config/print-areas.js';
 import prisma from '../config/database.js';
 import crypto from 'crypto';
 
@@ -508,3 +531,392 @@ export default {
   listEmailTemplates,
   previewEmailTemplate,
 };
+
+/**
+ * Designs processed per regeneration request (renders run one at a time)
+ */
+const PRINT_FILE_REGENERATE_MAX = 50;
+
+/**
+ * @route POST /api/admin/print-files/regenerate
+ * @description Regenerates high-resolution print files for existing designs. Pass designIds to
+ * target specific designs; otherwise picks approved designs that have no print file yet, most
+ * recently approved first.
+ * @access Admin only
+ *
+ * @param {Request} req - Express request (body: designIds?, placement?, limit? default 10, max 50)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Per-design results (print file URL and size, or error) with succeeded/failed counts
+ * @throws {400} designIds must be an array of design IDs (max 50)
+ * @throws {400} Unknown print placement
+ */
+export const regenerateDesignPrintFiles = catchAsync(async (req: Request, res: Response) => {
+  const { designIds, placement } = req.body as { designIds?: unknown; placement?: unknown };
+
+  if (
+    designIds !== undefined &&
+    (!Array.isArray(designIds) ||
+      designIds.length > PRINT_FILE_REGENERATE_MAX ||
+      !designIds.every((id) => typeof id === 'string' && id.trim()))
+  ) {
+    throw new AppError(
+      `designIds must be an array of up to ${PRINT_FILE_REGENERATE_MAX} design IDs`,
+      400
+    );
+  }
+
+  if (placement !== undefined && (typeof placement !== 'string' || !PRINT_AREAS[placement])) {
+    throw new AppError(
+      `Unknown print placement. Use one of: ${Object.keys(PRINT_AREAS).join(', ')}`,
+      400
+    );
+  }
+
+  let targetIds = (designIds as string[] | undefined)?.map((id) => id.trim()) || [];
+  if (!targetIds.length) {
+    const limit = Math.min(PRINT_FILE_REGENERATE_MAX, Math.max(1, Number(req.body.limit) || 10));
+    const missing = await prisma.design.findMany({
+      where: { approvalStatus: true, printFileUrl: null },
+      select: { id: true },
+      orderBy: { approvedAt: 'desc' },
+      take: limit,
+    });
+    targetIds = missing.map((design: { id: string }) => design.id);
+  }
+
+  const results = await regeneratePrintFiles(targetIds, placement as string | undefined);
+  const failed = results.filter((result) => result.error).length;
+
+  res.json({
+    success: true,
+    data: results,
+    meta: {
+      total: results.length,
+      succeeded: results.length - failed,
+      failed,
+    },
+    message: `Regenerated ${results.length - failed} of ${results.length} print files`,
+  });
+});
+
+/**
+ * Review statuses accepted by the moderation queue filter
+ */
+const MODERATION_QUEUE_STATUSES = ['PENDING_REVIEW', 'CLEARED', 'REJECTED', 'all'] as const;
+
+/**
+ * @route GET /api/admin/moderation
+ * @description Lists the moderation review queue: prompt and image checks that were flagged or
+ * errored and hold their design until reviewed, newest first, with the design they belong to
+ * @access Admin only
+ *
+ * @param {Request} req - Express request (query: status PENDING_REVIEW|CLEARED|REJECTED|all, default PENDING_REVIEW; page; pageSize)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Paginated moderation events with category scores and design summary
+ * @throws {400} Unknown status filter
+ */
+export const listModerationEvents = catchAsync(async (req: Request, res: Response) => {
+  const status = String(req.query.status || 'PENDING_REVIEW');
+  if (!(MODERATION_QUEUE_STATUSES as readonly string[]).includes(status)) {
+    throw new AppError(`status must be one of: ${MODERATION_QUEUE_STATUSES.join(', ')}`, 400);
+  }
+
+  const page = Math.max(1, parseInt(String(req.query.page || '1'), 10) || 1);
+  const pageSize = Math.min(
+    100,
+    Math.max(1, parseInt(String(req.query.pageSize || '20'), 10) || 20)
+  );
+
+  const { items, total } = await listModerationQueue({
+    status: status as (typeof MODERATION_QUEUE_STATUSES)[number],
+    page,
+    pageSize,
+  });
+
+  res.json({
+    success: true,
+    data: items,
+    meta: {
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize),
+    },
+  });
+});
+
+/**
+ * @route POST /api/admin/moderation/designs/:designId/review
+ * @description Clears or rejects a design held for moderation review. Clearing lets the customer
+ * approve it and lets it appear in the gallery; rejecting keeps it off both.
+ * @access Admin only
+ *
+ * @param {Request} req - Express request (params.designId; body: decision CLEARED|REJECTED, note?)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Design ID, new moderation status and number of events stamped with the decision
+ * @throws {400} decision must be CLEARED or REJECTED
+ * @throws {404} Design not found
+ * @throws {400} Design is not held for moderation review
+ * @throws {400} Cannot reject an approved design
+ */
+export const reviewModerationDesign = catchAsync(async (req: Request, res: Response) => {
+  const { designId } = req.params;
+  const { decision, note } = req.body as { decision?: unknown; note?: unknown };
+
+  if (decision !== 'CLEARED' && decision !== 'REJECTED') {
+    throw new AppError('decision must be CLEARED or REJECTED', 400);
+  }
+
+  const reviewer = req.user?.email || req.user?.id || 'admin';
+  const result = await reviewDesignModeration(
+    designId,
+    decision,
+    reviewer,
+    typeof note === 'string' ? note.trim().slice(0, 500) : undefined
+  );
+
+  res.json({
+    success: true,
+    data: result,
+    message: decision === 'CLEARED' ? 'Design cleared' : 'Design rejected',
+  });
+});
+
+/**
+ * @route GET /api/admin/styles
+ * @description Lists every style preset, including inactive and out-of-season ones
+ * @access Admin only
+ *
+ * @param {Request} _req - Express request (unused)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Array of style presets in display order
+ */
+export const listStyles = catchAsync(async (_req: Request, res: Response) => {
+  const styles = await listStylePresets();
+  res.json({ success: true, data: styles });
+});
+
+/**
+ * @route POST /api/admin/styles
+ * @description Creates a style preset customers can pick when generating designs
+ * @access Admin only
+ *
+ * @param {Request} req - Express request (body: key, label, promptSuffix, description?, negativeGuidance?, previewImageUrl?, sortOrder?, active?, availableFrom?, availableUntil?)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Created style preset
+ * @throws {400} Missing or invalid fields
+ * @throws {409} Key already used
+ */
+export const createStyle = catchAsync(async (req: Request, res: Response) => {
+  const input = parseStylePresetInput(req.body || {}, false);
+  const style = await createStylePreset(input);
+  res.status(201).json({ success: true, data: style });
+});
+
+/**
+ * @route PATCH /api/admin/styles/:id
+ * @description Updates a style preset; only the fields in the body change
+ * @access Admin only
+ *
+ * @param {Request} req - Express request (params.id; body: any create field)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Updated style preset
+ * @throws {400} Invalid fields
+ * @throws {404} Style preset not found
+ * @throws {409} Key already used
+ */
+export const updateStyle = catchAsync(async (req: Request, res: Response) => {
+  const input = parseStylePresetInput(req.body || {}, true);
+  const style = await updateStylePreset(req.params.id, input);
+  res.json({ success: true, data: style });
+});
+
+/**
+ * @route DELETE /api/admin/styles/:id
+ * @description Deletes a style preset. Deactivating (PATCH active=false) is usually better, as
+ * regenerating designs that used a deleted key loses its prompt guidance.
+ * @access Admin only
+ *
+ * @param {Request} req - Express request (params.id)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Success message
+ * @throws {404} Style preset not found
+ */
+export const deleteStyle = catchAsync(async (req: Request, res: Response) => {
+  await deleteStylePreset(req.params.id);
+  res.json({ success: true, message: 'Style preset deleted' });
+});
+
+/**
+ * @route GET /api/admin/prompt-packs
+ * @description Lists every "Surprise Me" prompt pack, including inactive and out-of-season ones
+ * @access Admin only
+ *
+ * @param {Request} _req - Express request (unused)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Array of prompt packs in display order
+ */
+export const listPacks = catchAsync(async (_req: Request, res: Response) => {
+  const packs = await listPromptPacks();
+  res.json({ success: true, data: packs });
+});
+
+/**
+ * @route POST /api/admin/prompt-packs
+ * @description Creates a prompt pack "Surprise Me" can draw from
+ * @access Admin only
+ *
+ * @param {Request} req - Express request (body: key, name, subjects, themes, description?, weight?, suggestedStyle?, sortOrder?, active?, availableFrom?, availableUntil?)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Created prompt pack
+ * @throws {400} Missing or invalid fields, or an unknown suggestedStyle
+ * @throws {409} Key already used
+ */
+export const createPack = catchAsync(async (req: Request, res: Response) => {
+  const input = await parsePromptPackInput(req.body || {}, false);
+  const pack = await createPromptPack(input);
+  res.status(201).json({ success: true, data: pack });
+});
+
+/**
+ * @route PATCH /api/admin/prompt-packs/:id
+ * @description Updates a prompt pack; only the fields in the body change
+ * @access Admin only
+ *
+ * @param {Request} req - Express request (params.id; body: any create field)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Updated prompt pack
+ * @throws {400} Invalid fields
+ * @throws {404} Prompt pack not found
+ * @throws {409} Key already used
+ */
+export const updatePack = catchAsync(async (req: Request, res: Response) => {
+  const input = await parsePromptPackInput(req.body || {}, true);
+  const pack = await updatePromptPack(req.params.id, input);
+  res.json({ success: true, data: pack });
+});
+
+/**
+ * @route DELETE /api/admin/prompt-packs/:id
+ * @description Deletes a prompt pack. Deactivating (PATCH active=false) keeps a seasonal pack for
+ * next year.
+ * @access Admin only
+ *
+ * @param {Request} req - Express request (params.id)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Success message
+ * @throws {404} Prompt pack not found
+ */
+export const deletePack = catchAsync(async (req: Request, res: Response) => {
+  await deletePromptPack(req.params.id);
+  res.json({ success: true, message: 'Prompt pack deleted' });
+});
+
+/**
+ * @route GET /api/admin/generation-quotas
+ * @description Current generation quota limits, images and estimated spend in the last 24 hours,
+ * and whether the spend breaker is open
+ * @access Admin only
+ *
+ * @param {Request} _req - Express request (unused)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Limits, last-24-hour usage and breakerOpenUntil
+ */
+export const getGenerationQuotas = catchAsync(async (_req: Request, res: Response) => {
+  const status = await getGenerationQuotaStatus();
+  res.json({ success: true, data: status });
+});
+
+/**
+ * @route PUT /api/admin/generation-quotas
+ * @description Updates generation quota limits in the Settings table; omitted fields keep their
+ * value. A limit of 0 turns that check off.
+ * @access Admin only
+ *
+ * @param {Request} req - Express request (body: guest/ip/user { images?, windowMinutes? }, globalDailyImages?, dailySpendCapUsd?, breakerCooldownMinutes?)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Effective limits after the update
+ * @throws {400} Invalid value or nothing to update
+ */
+export const updateGenerationQuotas = catchAsync(async (req: Request, res: Response) => {
+  const limits = await updateGenerationQuotaLimits(req.body || {});
+  res.json({ success: true, data: limits });
+});
+
+/**
+ * @route POST /api/admin/generation-quotas/breaker/reset
+ * @description Closes the spend circuit breaker so generation resumes before the cooldown ends
+ * @access Admin only
+ *
+ * @param {Request} req - Express request
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Success message
+ */
+export const resetGenerationSpendBreaker = catchAsync(async (req: Request, res: Response) => {
+  await resetSpendBreaker();
+  console.log(`Spend breaker reset by ${req.user?.email || req.user?.id || 'admin'}`);
+  res.json({ success: true, message: 'Spend breaker closed' });
+});
+
+/**
+ * @route GET /api/admin/ai-costs
+ * @description Estimated AI spend for the last `days` days: totals, cost per paid order, per
+ * unpaid preview and per guest preview session, cost and latency by call kind and model, and the
+ * most common call failures and moderation rejection categories
+ * @access Admin only
+ *
+ * @param {Request} req - Express request (query: days, 1-365, default 30)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} AI cost report
+ * @throws {400} days out of range
+ */
+export const getAiCosts = catchAsync(async (req: Request, res: Response) => {
+  const days = req.query.days === undefined ? 30 : Number(req.query.days);
+  if (!Number.isInteger(days) || days < 1 || days > 365) {
+    throw new AppError('days must be a whole number between 1 and 365', 400);
+  }
+
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const report = await getAiCostReport(since);
+  res.json({ success: true, data: report });
+});
+
+/**
+ * @route GET /api/admin/ai-costs/orders/:orderId
+ * @description Every AI call recorded for one order with its estimated cost
+ * @access Admin only
+ *
+ * @param {Request} req - Express request (params.orderId)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Order total (costUsd) and calls, newest first
+ * @throws {404} Order not found
+ */
+export const getOrderAiCosts = catchAsync(async (req: Request, res: Response) => {
+  const { orderId } = req.params;
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: { id: true, orderNumber: true, status: true, paidAt: true },
+  });
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+
+  const usage = await getOrderAiUsage(orderId);
+  res.json({ success: true, data: { order, ...usage } });
+});
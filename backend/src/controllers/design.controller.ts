@@ -6,36 +6,323 @@
 
 import { Request, Response } from 'express';
 import { catchAsync, AppError } from '../middleware/error.middleware.js';
-import { generateDesign, generateRandomPrompt } from '../services/openai.service.js';
-import { uploadImage } from '../services/supabase-storage.service.js';
+import {
+  IMAGE_PROVIDER_NAMES,
+  isImageProviderName,
+  resolveImageEditProvider,
+  resolveImageProvider,
+  resolveImageReferenceProvider,
+  supportsImageEdit,
+  supportsImageReference,
+} from '../services/image-provider.service.js';
+import type { ImageProvider, ImageProviderName } from '../types/image-provider.js';
+import { createGenerationJob, kickGenerationWorker } from '../services/generation-job.service.js';
+import { createDesignBatch, parseVariationCount } from '../services/design-batch.service.js';
+import { assertBranchParent, buildDesignLineage } from '../services/design-lineage.service.js';
+import { checkDesignPrintReadiness } from '../services/print-check.service.js';
+import {
+  MAX_REFINEMENT_PROMPT_LENGTH,
+  discardRefinement,
+  findRefinement,
+  listRefinementThread,
+  markRefinementConfirmed,
+  parseRefinementInstruction,
+  proposeRefinement,
+} from '../services/design-refinement.service.js';
+import { getModerationHoldMessage } from '../services/moderation.service.js';
+import {
+  listTextFonts,
+  parseTextLayers,
+  readTextLayers,
+  renderTextImage,
+} from '../services/text-layer.service.js';
+import {
+  assertStyleAvailable,
+  listAvailableStylePresets,
+} from '../services/style-preset.service.js';
+import { PRODUCTS, findProductColor } from '../config/products.js';
+import type { ColorOption } from '../config/products.js';
+import { getDesignPrintPlacement } from '../config/print-areas.js';
+import {
+  publishDesignEvent,
+  publishOrderStatus,
+  subscribeToOrderEvents,
+} from '../services/design-events.service.js';
+import type { DesignStreamEvent } from '../types/design-events.js';
+import type { DesignPlacement } from '../types/print-placement.js';
 import prisma from '../config/database.js';
 import { sendAnalyticsEvent } from '../services/analytics.service.js';
 import type { PrismaClient } from '@prisma/client';
 import { OrderStatus } from '@prisma/client';
-import { getSupabaseServiceRoleClient } from '../services/supabase-admin.service.js';
 import { v4 as uuidv4 } from 'uuid';
+import sharp from 'sharp';
 import { sendDesignApproved } from '../services/email.service.js';
+import {
+  getOrderMockupPreview,
+  listDesignMockups,
+  supportsMockups,
+} from '../services/mockup.service.js';
+import { getItemPreviewBox } from '../services/print-placement.service.js';
+import { getPrintSourceUrl } from '../services/background-removal.service.js';
 import { createPrintfulOrder } from '../services/printful.service.js';
+import {
+  getConfiguredPlacements,
+  getOrderPlacementApproval,
+  getPlacementLabel,
+  linkApprovedDesign,
+  parseDesignPlacement,
+} from '../services/extra-placement.service.js';
 import { getOrderActionErrorMessage, isOrderActionAllowed } from '../policies/order-policy.js';
+import {
+  assertGenerationQuota,
+  recordGenerationUsage,
+} from '../services/generation-quota.service.js';
+import type { GenerationCaller } from '../types/generation-quota.js';
+import { recordPromptEntry } from '../services/prompt-library.service.js';
+import { isTemporaryImageUrl } from '../services/design-storage.service.js';
+import { toResponsiveImage } from '../services/image-derivative.service.js';
+import { assertReferenceImage, createReferenceImage } from '../services/reference-image.service.js';
+import {
+  drawRandomPrompt,
+  getPromptVisitorKey,
+  listAvailablePromptPacks,
+} from '../services/prompt-pack.service.js';
+import {
+  addDesignToCollection,
+  createCollection,
+  deleteCollection,
+  listCollections,
+  listLibraryDesigns,
+  parseDesignLibraryFilters,
+  removeDesignFromCollection,
+  renameCollection,
+  softDeleteDesign,
+} from '../services/design-library.service.js';
 
 type TransactionClient = PrismaClient;
 
+/**
+ * Batch fields returned alongside designs so clients can group variations and show the pick
+ */
+const DESIGN_BATCH_SUMMARY = { select: { id: true, size: true, selectedDesignId: true } };
+
+/**
+ * @function assertImageProvider
+ * @description Validates the optional `provider` request field
+ *
+ * @param {unknown} provider - Raw request value
+ *
+ * @throws {AppError} 400 when provider is not a registered image provider
+ */
+function assertImageProvider(provider: unknown): void {
+  if (provider !== undefined && provider !== null && !isImageProviderName(provider)) {
+    throw new AppError(
+      `Unknown image provider. Use one of: ${IMAGE_PROVIDER_NAMES.join(', ')}`,
+      400
+    );
+  }
+}
+
+/**
+ * @function resolveGenerationProvider
+ * @description Pins the provider for a generate request. Generating from a reference photo needs a
+ * provider that takes image input, so the default falls back to one and explicit requests for
+ * other providers are refused.
+ *
+ * @param {ImageProviderName | undefined} provider - Provider requested by the caller
+ * @param {boolean} withReference - Whether the batch is generated from a reference photo
+ *
+ * @returns {Promise<ImageProvider>} Provider to record on the batch's jobs
+ *
+ * @throws {AppError} 400 when the requested provider cannot generate from reference images
+ *
+ * @async
+ */
+async function resolveGenerationProvider(
+  provider: ImageProviderName | undefined,
+  withReference: boolean
+): Promise<ImageProvider> {
+  if (!withReference) {
+    return resolveImageProvider(provider);
+  }
+
+  if (provider && !supportsImageReference(provider)) {
+    const referenceProviders = IMAGE_PROVIDER_NAMES.filter(supportsImageReference);
+    throw new AppError(
+      `${provider} cannot generate from reference images. Use one of: ${referenceProviders.join(', ')}`,
+      400
+    );
+  }
+  return resolveImageReferenceProvider(provider);
+}
+
+/**
+ * Order fields needed to check who may generate on it
+ */
+type GenerationOrder = {
+  id: string;
+  userId: string;
+  status: string;
+  previewGuestToken: string | null;
+  designTier: string;
+  designsGenerated: number;
+  maxDesigns: number;
+};
+
+/**
+ * Gallery design fields shaped into a responsive image
+ */
+type GalleryRow = {
+  imageUrl: string;
+  thumbnailUrl: string | null;
+  imageVariants: unknown;
+  placeholder: string | null;
+};
+
+/**
+ * @function assertOrderAccess
+ * @description Checks the caller owns the order: signed-in owners by session, guest preview
+ * holders by guestToken
+ *
+ * @param {GenerationOrder} order - Order being acted on
+ * @param {string | undefined} userId - Signed-in user, if any
+ * @param {unknown} guestToken - Guest preview token from the request, if any
+ *
+ * @returns {'authed' | 'guest'} How the caller was authorised
+ *
+ * @throws {AppError} 403 when the user does not own the order or the guest token does not match
+ * @throws {AppError} 401 when neither a session nor a guest token was provided
+ */
+function assertOrderAccess(
+  order: GenerationOrder,
+  userId: string | undefined,
+  guestToken: unknown
+): 'authed' | 'guest' {
+  if (userId) {
+    if (order.userId !== userId) {
+      throw new AppError('Unauthorized access to this design', 403);
+    }
+    return 'authed';
+  }
+
+  if (guestToken) {
+    if (!order.previewGuestToken || order.previewGuestToken !== guestToken) {
+      throw new AppError('Invalid guest token for this preview order', 403);
+    }
+    return 'guest';
+  }
+
+  throw new AppError('Authentication required', 401);
+}
+
+/**
+ * @function getGenerationCaller
+ * @description Quota identity for a generation request: the signed-in user or the guest preview
+ * token, plus the client IP
+ *
+ * @param {Request} req - Express request
+ * @param {'authed' | 'guest'} access - How the caller was authorised
+ * @param {unknown} [guestToken] - Guest preview token from the request
+ *
+ * @returns {GenerationCaller} Caller identity for assertGenerationQuota
+ */
+function getGenerationCaller(
+  req: Request,
+  access: 'authed' | 'guest',
+  guestToken?: unknown
+): GenerationCaller {
+  return {
+    userId: access === 'authed' ? req.user?.id : undefined,
+    guestToken: access === 'guest' && typeof guestToken === 'string' ? guestToken : undefined,
+    ipAddress: req.ip,
+  };
+}
+
+/**
+ * @function assertOrderAcceptsDesigns
+ * @description Checks the order policy allows generating for this caller and a design slot is left
+ *
+ * @param {GenerationOrder} order - Order being generated on
+ * @param {'authed' | 'guest'} access - Result of assertOrderAccess
+ *
+ * @throws {AppError} 400 when the order status does not allow generation or the tier limit is reached
+ */
+function assertOrderAcceptsDesigns(order: GenerationOrder, access: 'authed' | 'guest'): void {
+  const action = access === 'guest' ? 'design_generate_guest' : 'design_generate_authed';
+  if (!isOrderActionAllowed(action, order.status as OrderStatus)) {
+    throw new AppError(getOrderActionErrorMessage(action), 400);
+  }
+
+  if (order.designsGenerated >= order.maxDesigns) {
+    throw new AppError(
+      `Design limit reached for ${order.designTier} tier. Upgrade to Premium for unlimited designs.`,
+      400
+    );
+  }
+}
+
+/**
+ * Masks above this are rejected (matches the provider edit endpoint limit)
+ */
+const MAX_EDIT_MASK_BYTES = 4 * 1024 * 1024;
+
+const PNG_DATA_URL_PREFIX = 'data:image/png;base64,';
+
+/**
+ * @function assertEditMask
+ * @description Validates the `mask` field for design edits: a PNG data URL under 4MB
+ *
+ * @param {unknown} mask - Raw request value
+ *
+ * @throws {AppError} 400 when the mask is not a readable PNG data URL or is too large
+ *
+ * @async
+ */
+async function assertEditMask(mask: unknown): Promise<void> {
+  if (typeof mask !== 'string' || !mask.startsWith(PNG_DATA_URL_PREFIX)) {
+    throw new AppError('Mask must be a PNG data URL', 400);
+  }
+
+  const buffer = Buffer.from(mask.slice(PNG_DATA_URL_PREFIX.length), 'base64');
+  if (buffer.length > MAX_EDIT_MASK_BYTES) {
+    throw new AppError('Mask image is too large (max 4MB)', 400);
+  }
+
+  const metadata = await sharp(buffer)
+    .metadata()
+    .catch(() => null);
+  if (metadata?.format !== 'png') {
+    throw new AppError('Mask must be a PNG data URL', 400);
+  }
+}
+
 /**
  * @route POST /api/designs/generate
- * @description Generates AI design using DALL-E 3 for authenticated users
- * Validates tier limits and order status, uploads to Supabase storage
+ * @description Queues AI design generation for authenticated users using the selected image provider
+ * Validates tier limits and order status, reserves one design slot for a batch of 1-4 variations
+ * and returns them as GENERATING designs; the generation worker runs moderation, generation and
+ * Supabase upload for each variation asynchronously. Pass parentDesignId to branch from an earlier
+ * version on the same order; every variation records it as its parent. Pass referenceImageId to
+ * generate from a photo uploaded for the order; every variation is linked to it.
  * @access Protected (requires authentication)
  *
- * @param {Request} req - Express request (body: orderId, prompt, style)
+ * @param {Request} req - Express request (body: orderId, prompt, style, provider?, variations?, parentDesignId?, placement?, referenceImageId?)
  * @param {Response} res - Express response
  *
- * @returns {Object} Generated design with remainingDesigns count
+ * @returns {Object} 202 - Batch id/size, GENERATING designs and remainingDesigns count
  * @throws {401} Authentication required
  * @throws {400} Missing orderId or prompt
+ * @throws {400} Unknown image provider
+ * @throws {400} Style not available
+ * @throws {400} Variations outside 1-4
  * @throws {404} Order not found
  * @throws {403} Unauthorized access to order
  * @throws {400} Order must be active or pending payment
+ * @throws {400} Parent design not found on this order
+ * @throws {400} Reference image not found on this order, or provider cannot use reference images
+ * @throws {400} Order does not print on the requested placement
  * @throws {400} Design limit reached for tier
+ * @throws {429} Generation quota reached or spend breaker open (body `code`, `retryAfterSeconds`)
  */
 export const createDesign = catchAsync(async (req: Request, res: Response) => {
   if (!req.user) {
@@ -46,7 +333,7 @@ export const createDesign = catchAsync(async (req: Request, res: Response) => {
     return;
   }
 
-  const { orderId, prompt, style } = req.body;
+  const { orderId, prompt, style, provider } = req.body;
 
   if (!orderId || !prompt) {
     res.status(400).json({
@@ -56,10 +343,17 @@ export const createDesign = catchAsync(async (req: Request, res: Response) => {
     return;
   }
 
+  assertImageProvider(provider);
+  if (style) {
+    await assertStyleAvailable(String(style));
+  }
+  const variations = parseVariationCount(req.body.variations);
+  const batchId = uuidv4();
+
   // Get order and verify it belongs to user
   const order = await prisma.order.findUnique({
     where: { id: orderId },
-    include: { items: true },
+    include: { items: { include: { placements: true } } },
   });
 
   if (!order) {
@@ -74,6 +368,10 @@ export const createDesign = catchAsync(async (req: Request, res: Response) => {
     throw new AppError(getOrderActionErrorMessage('design_generate_authed'), 400);
   }
 
+  const placement = parseDesignPlacement(req.body.placement, getConfiguredPlacements(order.items));
+  const parentDesignId = await assertBranchParent(req.body.parentDesignId, order.id);
+  const referenceImage = await assertReferenceImage(req.body.referenceImageId, order.id);
+
   // Check tier limits
   if (order.designsGenerated >= order.maxDesigns) {
     sendAnalyticsEvent({
@@ -107,111 +405,109 @@ export const createDesign = catchAsync(async (req: Request, res: Response) => {
       prompt_length: prompt.length,
       style: style || 'unspecified',
       is_preview: order.status === OrderStatus.PENDING_PAYMENT,
+      batch_id: batchId,
+      batch_size: variations,
+      parent_design_id: parentDesignId,
+      placement,
+      has_reference_image: Boolean(referenceImage),
     },
   }).catch((err) => console.error('Failed to send design.generate.request analytics', err));
 
-  // Generate design with DALL-E 3
-  console.log(`Generating design for order ${order.orderNumber}...`);
-  const { imageUrl, revisedPrompt } = await generateDesign({
-    prompt,
-    style,
+  // Pin the provider at enqueue time so retries don't switch models mid-job
+  const imageProvider = await resolveGenerationProvider(provider || undefined, !!referenceImage);
+  const usage = await assertGenerationQuota({
+    ...getGenerationCaller(req, 'authed'),
+    orderId: order.id,
+    source: 'generate',
+    provider: imageProvider.name,
+    images: variations,
   });
 
-  // Create design record in database (with temporary OpenAI URL so we have an ID)
-  const design = await prisma.design.create({
-    data: {
-      userId: req.user.id,
+  // Reserve one design slot for the whole batch and queue its jobs atomically; the worker fills in
+  // the images
+  const { designs, updatedOrder } = await prisma.$transaction(async (tx: TransactionClient) => {
+    const nextOrder = await tx.order.update({
+      where: { id: orderId },
+      data: {
+        designsGenerated: { increment: 1 },
+        status: 'DESIGN_PENDING',
+      },
+    });
+    await recordGenerationUsage(tx, usage);
+
+    const createdDesigns = await createDesignBatch(tx, {
+      id: batchId,
       orderId,
+      userId: req.user!.id,
       prompt,
-      revisedPrompt,
-      aiModel: 'dall-e-3',
-      imageUrl, // Temporary OpenAI URL
-      thumbnailUrl: imageUrl,
-      status: 'GENERATING',
-      style: style || null,
-    },
-  });
+      style,
+      provider: imageProvider.name,
+      aiModel: imageProvider.model,
+      variations,
+      parentDesignId,
+      placement,
+      referenceImage,
+    });
+    await recordPromptEntry(tx, {
+      userId: req.user!.id,
+      orderId,
+      prompt,
+      style,
+      source: 'generate',
+      batchId,
+    });
 
-  // Mark completed immediately with the OpenAI URL so we can return quickly
-  const completedDesign = await prisma.design.update({
-    where: { id: design.id },
-    data: {
-      imageUrl,
-      thumbnailUrl: imageUrl,
-      status: 'COMPLETED',
-    },
+    return { designs: createdDesigns, updatedOrder: nextOrder };
   });
 
-  // Increment design counter
-  const updatedOrder = await prisma.order.update({
-    where: { id: orderId },
-    data: {
-      designsGenerated: order.designsGenerated + 1,
-      status: 'DESIGN_PENDING',
-    },
-  });
+  kickGenerationWorker();
+  console.log(`Queued batch ${batchId} (${variations}) for order ${order.orderNumber}`);
+  for (const design of designs) {
+    publishDesignEvent('design.queued', { orderId, designId: design.id, status: design.status });
+  }
+  if (order.status !== updatedOrder.status) {
+    publishOrderStatus(orderId, updatedOrder.status);
+  }
 
-  res.json({
+  res.status(202).json({
     success: true,
+    message: 'Design generation started',
     data: {
-      ...completedDesign,
+      batchId,
+      batchSize: variations,
+      designs,
       remainingDesigns:
         order.maxDesigns === 9999
           ? 'unlimited'
           : Math.max(updatedOrder.maxDesigns - updatedOrder.designsGenerated, 0),
     },
   });
-
-  sendAnalyticsEvent({
-    event: 'design.generate.success',
-    properties: {
-      order_id: order.id,
-      order_number: order.orderNumber,
-      design_id: completedDesign.id,
-      user_id: req.user.id,
-      tier: order.designTier,
-      status: updatedOrder.status,
-      designs_generated: updatedOrder.designsGenerated,
-      max_designs: updatedOrder.maxDesigns,
-      is_preview: order.status === OrderStatus.PENDING_PAYMENT,
-    },
-  }).catch((err) => console.error('Failed to send design.generate.success analytics', err));
-
-  // Kick off Supabase upload in the background to avoid request timeouts
-  uploadImage(imageUrl, design.id)
-    .then(async ({ imageUrl: supabaseUrl, thumbnailUrl: supabaseThumbnailUrl }) => {
-      await prisma.design.update({
-        where: { id: design.id },
-        data: {
-          imageUrl: supabaseUrl,
-          thumbnailUrl: supabaseThumbnailUrl,
-          updatedAt: new Date(),
-        },
-      });
-      console.log(`Design ${design.id} uploaded to Supabase Storage`);
-    })
-    .catch((error) => {
-      console.error('Supabase upload error (non-blocking):', error);
-    });
 });
 
 /**
  * @route POST /api/designs/generate/guest
- * @description Generates AI design for guest preview orders using guest token
+ * @description Queues AI design generation for guest preview orders using guest token
  * @access Public (guest token authentication)
  *
- * @param {Request} req - Express request (body: orderId, prompt, style, guestToken)
+ * @param {Request} req - Express request (body: orderId, prompt, style, guestToken, provider?, variations?, parentDesignId?, placement?, referenceImageId?)
  * @param {Response} res - Express response
  *
- * @returns {Object} Generated design for guest order
+ * @returns {Object} 202 - Batch id/size and GENERATING designs for guest order
  * @throws {400} Missing orderId, prompt, or guestToken
+ * @throws {400} Unknown image provider
+ * @throws {400} Style not available
+ * @throws {400} Variations outside 1-4
  * @throws {404} Order not found
  * @throws {403} Invalid guest token
  * @throws {400} Order must be unpaid preview
+ * @throws {400} Parent design not found on this order
+ * @throws {400} Reference image not found on this order, or provider cannot use reference images
+ * @throws {400} Order does not print on the requested placement
  * @throws {400} Design limit reached for tier
+ * @throws {429} Generation quota reached or spend breaker open
  */
 export const createDesignGuest = catchAsync(async (req: Request, res: Response) => {
-  const { orderId, prompt, style, guestToken } = req.body;
+  const { orderId, prompt, style, guestToken, provider } = req.body;
 
   if (!orderId || !prompt || !guestToken) {
     res.status(400).json({
@@ -221,9 +517,16 @@ export const createDesignGuest = catchAsync(async (req: Request, res: Response)
     return;
   }
 
+  assertImageProvider(provider);
+  if (style) {
+    await assertStyleAvailable(String(style));
+  }
+  const variations = parseVariationCount(req.body.variations);
+  const batchId = uuidv4();
+
   const order = await prisma.order.findUnique({
     where: { id: orderId },
-    include: { items: true },
+    include: { items: { include: { placements: true } } },
   });
 
   if (!order) {
@@ -238,6 +541,10 @@ export const createDesignGuest = catchAsync(async (req: Request, res: Response)
     throw new AppError(getOrderActionErrorMessage('design_generate_guest'), 400);
   }
 
+  const placement = parseDesignPlacement(req.body.placement, getConfiguredPlacements(order.items));
+  const parentDesignId = await assertBranchParent(req.body.parentDesignId, order.id);
+  const referenceImage = await assertReferenceImage(req.body.referenceImageId, order.id);
+
   if (order.designsGenerated >= order.maxDesigns) {
     throw new AppError(
       `Design limit reached for ${order.designTier} tier. Please sign in and upgrade.`,
@@ -245,13 +552,17 @@ export const createDesignGuest = catchAsync(async (req: Request, res: Response)
     );
   }
 
-  console.log(`Generating design for guest order ${order.orderNumber}...`);
-  const { imageUrl, revisedPrompt } = await generateDesign({
-    prompt,
-    style,
+  // Pin the provider at enqueue time so retries don't switch models mid-job
+  const imageProvider = await resolveGenerationProvider(provider || undefined, !!referenceImage);
+  const usage = await assertGenerationQuota({
+    ...getGenerationCaller(req, 'guest', guestToken),
+    orderId: order.id,
+    source: 'generate_guest',
+    provider: imageProvider.name,
+    images: variations,
   });
 
-  const { design } = await prisma.$transaction(async (tx: TransactionClient) => {
+  const designs = await prisma.$transaction(async (tx: TransactionClient) => {
     await tx.user.upsert({
       where: { id: order.userId },
       update: {},
@@ -263,323 +574,1645 @@ export const createDesignGuest = catchAsync(async (req: Request, res: Response)
       },
     });
 
-    const createdDesign = await tx.design.create({
-      data: {
-        userId: order.userId,
-        orderId,
-        prompt,
-        revisedPrompt,
-        aiModel: 'dall-e-3',
-        imageUrl,
-        thumbnailUrl: imageUrl,
-        status: 'GENERATING',
-        style,
-      },
-    });
-
     await tx.order.update({
       where: { id: orderId },
       data: {
-        designsGenerated: order.designsGenerated + 1,
+        designsGenerated: { increment: 1 },
         status: 'DESIGN_PENDING',
       },
     });
+    await recordGenerationUsage(tx, usage);
 
-    return { design: createdDesign };
-  });
+    const createdDesigns = await createDesignBatch(tx, {
+      id: batchId,
+      orderId,
+      userId: order.userId,
+      prompt,
+      style,
+      provider: imageProvider.name,
+      aiModel: imageProvider.model,
+      variations,
+      parentDesignId,
+      placement,
+      referenceImage,
+    });
+    // Stored under the guest user until the order is claimed
+    await recordPromptEntry(tx, {
+      userId: order.userId,
+      orderId,
+      prompt,
+      style,
+      source: 'generate',
+      batchId,
+    });
 
-  // Mark completed immediately so the client can proceed; upload to Supabase in background
-  const completedDesign = await prisma.design.update({
-    where: { id: design.id },
-    data: {
-      imageUrl,
-      thumbnailUrl: imageUrl,
-      status: 'COMPLETED',
-    },
+    return createdDesigns;
   });
 
-  res.status(201).json({
+  kickGenerationWorker();
+  console.log(`Queued batch ${batchId} (${variations}) for guest order ${order.orderNumber}`);
+  for (const design of designs) {
+    publishDesignEvent('design.queued', { orderId, designId: design.id, status: design.status });
+  }
+  if (order.status !== 'DESIGN_PENDING') {
+    publishOrderStatus(orderId, 'DESIGN_PENDING');
+  }
+
+  res.status(202).json({
     success: true,
     message: 'Design generation started',
-    data: completedDesign,
+    data: {
+      batchId,
+      batchSize: variations,
+      designs,
+    },
   });
-
-  uploadImage(imageUrl, design.id)
-    .then(async ({ imageUrl: supabaseUrl, thumbnailUrl: supabaseThumbnailUrl }) => {
-      await prisma.design.update({
-        where: { id: design.id },
-        data: {
-          imageUrl: supabaseUrl,
-          thumbnailUrl: supabaseThumbnailUrl,
-          updatedAt: new Date(),
-        },
-      });
-      console.log(`Guest design ${design.id} uploaded to Supabase Storage`);
-    })
-    .catch((error) => {
-      console.error('Supabase upload error (guest non-blocking):', error);
-    });
 });
 
 /**
- * @route GET /api/designs/:id
- * @description Retrieves single design by ID
- * @access Protected (requires authentication)
+ * @route POST /api/designs/reference-images
+ * @description Uploads a reference photo for image-guided generation on an order. The photo is
+ * checked for type, size and dimensions, stored without EXIF metadata after passing image
+ * moderation, and its id can then be sent as referenceImageId with a generate request. The caller
+ * must confirm they have the right to use the photo. Signed-in owners use their session; guest
+ * preview holders pass guestToken.
+ * @access Protected (requires authentication) or Public with matching guest preview token
  *
- * @param {Request} req - Express request (params.id required)
+ * @param {Request} req - Express request (body: orderId, image, rightsConfirmed, guestToken?)
  * @param {Response} res - Express response
  *
- * @returns {Object} Design details with order information
+ * @returns {Object} 201 - Stored reference image (id, imageUrl, width, height, createdAt)
+ * @throws {400} Missing orderId or image
+ * @throws {400} Rights not confirmed
+ * @throws {400} Not a PNG, JPEG or WebP data URL, over 6MB or under 256px
+ * @throws {400} Image flagged by moderation
+ * @throws {400} Order already has 20 reference images
+ * @throws {404} Order not found
  * @throws {401} Authentication required
- * @throws {404} Design not found
- * @throws {403} Unauthorized access to design
+ * @throws {403} Unauthorized access to order or invalid guest token
+ * @throws {400} Order must be active or pending payment
+ * @throws {400} Design limit reached for tier
  */
-export const getDesign = catchAsync(async (req: Request, res: Response) => {
-  if (!req.user) {
-    res.status(401).json({
+export const uploadReferenceImage = catchAsync(async (req: Request, res: Response) => {
+  const { orderId, image, rightsConfirmed, guestToken } = req.body;
+
+  if (!orderId || !image) {
+    res.status(400).json({
       success: false,
-      message: 'Authentication required',
+      message: 'Order ID and image are required',
     });
     return;
   }
 
-  const { id } = req.params;
+  const order = await prisma.order.findUnique({ where: { id: String(orderId) } });
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
 
-  const design = await prisma.design.findUnique({
-    where: { id },
-    include: {
-      order: true,
+  const access = assertOrderAccess(order, req.user?.id, guestToken);
+  assertOrderAcceptsDesigns(order, access);
+
+  const referenceImage = await createReferenceImage({
+    orderId: order.id,
+    image,
+    rightsConfirmed,
+    context: {
+      orderId: order.id,
+      userId: order.userId,
+      guestSession: order.previewGuestToken ?? undefined,
     },
   });
 
-  if (!design) {
-    throw new AppError('Design not found', 404);
-  }
-
-  const belongsToUser =
-    design.userId === req.user.id ||
-    (design.order && design.order.userId === req.user.id);
-
-  if (!belongsToUser) {
-    throw new AppError('Unauthorized access to this design', 403);
-  }
+  sendAnalyticsEvent({
+    event: 'design.reference_image.upload',
+    properties: {
+      order_id: order.id,
+      order_number: order.orderNumber,
+      user_id: order.userId,
+      reference_image_id: referenceImage.id,
+      width: referenceImage.width,
+      height: referenceImage.height,
+      is_guest: access === 'guest',
+    },
+  }).catch((err) => console.error('Failed to send design.reference_image.upload analytics', err));
 
-  res.json({
+  res.status(201).json({
     success: true,
-    data: design,
+    data: referenceImage,
   });
 });
 
 /**
- * @route GET /api/designs
- * @description Retrieves all designs for a specific order
- * @access Protected (requires authentication)
+ * @route POST /api/designs/:id/edit
+ * @description Queues a mask-based edit (inpainting) of a finished design. The result is a new
+ * GENERATING design linked to its parent via parentDesignId; the source design is left untouched.
+ * Applies the same order-policy checks and design-slot counters as fresh generation. Signed-in
+ * owners use their session; guest preview holders pass guestToken.
+ * @access Protected (requires authentication) or Public with matching guest preview token
  *
- * @param {Request} req - Express request (query.orderId required)
+ * @param {Request} req - Express request (params.id; body: instruction, mask, provider?, guestToken?)
  * @param {Response} res - Express response
  *
- * @returns {Object} Array of designs for the order
+ * @returns {Object} 202 - GENERATING edited design (with remainingDesigns count)
+ * @throws {400} Missing instruction or mask
+ * @throws {400} Invalid mask
+ * @throws {400} Unknown image provider, or provider cannot edit images
+ * @throws {404} Design not found
+ * @throws {400} Design has no associated order
+ * @throws {400} Only finished designs can be edited
  * @throws {401} Authentication required
- * @throws {400} Order ID is required
- * @throws {404} Order not found
- * @throws {403} Unauthorized access to order
+ * @throws {403} Unauthorized access to design or invalid guest token
+ * @throws {400} Order must be active or pending payment
+ * @throws {400} Design limit reached for tier
+ * @throws {429} Generation quota reached or spend breaker open
  */
-export const getDesignsByOrder = catchAsync(async (req: Request, res: Response) => {
-  if (!req.user) {
-    res.status(401).json({
-      success: false,
-      message: 'Authentication required',
-    });
-    return;
-  }
-
-  const { orderId } = req.query;
+export const createDesignEdit = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { instruction, mask, provider, guestToken } = req.body;
 
-  if (!orderId || typeof orderId !== 'string') {
+  if (!instruction || !mask) {
     res.status(400).json({
       success: false,
-      message: 'Order ID is required',
+      message: 'Edit instruction and mask are required',
     });
     return;
   }
 
-  // Verify order belongs to user
-  const order = await prisma.order.findUnique({
-    where: { id: orderId },
+  assertImageProvider(provider);
+  if (provider && !supportsImageEdit(provider)) {
+    const editProviders = IMAGE_PROVIDER_NAMES.filter(supportsImageEdit);
+    throw new AppError(
+      `${provider} cannot edit images. Use one of: ${editProviders.join(', ')}`,
+      400
+    );
+  }
+  await assertEditMask(mask);
+
+  const source = await prisma.design.findUnique({
+    where: { id },
+    include: { order: true },
   });
 
-  if (!order) {
-    throw new AppError('Order not found', 404);
+  if (!source) {
+    throw new AppError('Design not found', 404);
   }
 
-  if (order.userId !== req.user.id) {
-    throw new AppError('Unauthorized access to this order', 403);
+  if (!source.order) {
+    throw new AppError('Design has no associated order', 400);
   }
 
-  const designs = await prisma.design.findMany({
-    where: { orderId },
-    orderBy: { createdAt: 'desc' },
-  });
+  if (source.status !== 'COMPLETED' || !source.imageUrl) {
+    throw new AppError('Only finished designs can be edited', 400);
+  }
 
-  res.json({
-    success: true,
-    data: designs,
+  const order = source.order;
+
+  const access = assertOrderAccess(order, req.user?.id, guestToken);
+  assertOrderAcceptsDesigns(order, access);
+
+  sendAnalyticsEvent({
+    event: 'design.edit.request',
+    properties: {
+      order_id: order.id,
+      order_number: order.orderNumber,
+      user_id: order.userId,
+      parent_design_id: source.id,
+      tier: order.designTier,
+      prompt_length: instruction.length,
+      is_guest: !req.user,
+    },
+  }).catch((err) => console.error('Failed to send design.edit.request analytics', err));
+
+  // Pin the provider at enqueue time so retries don't switch models mid-job
+  const imageProvider = await resolveImageEditProvider(provider || undefined);
+  const usage = await assertGenerationQuota({
+    ...getGenerationCaller(req, access, guestToken),
+    orderId: order.id,
+    source: 'edit',
+    provider: imageProvider.name,
+    images: 1,
   });
-});
 
-/**
- * @route POST /api/designs/clone
- * @description Clones existing design into a new preview order
- * @access Protected (requires authentication)
- *
- * @param {Request} req - Express request (body: sourceDesignId, targetOrderId)
- * @param {Response} res - Express response
- *
- * @returns {Object} Cloned design details
+  const { design, updatedOrder } = await prisma.$transaction(async (tx: TransactionClient) => {
+    const nextOrder = await tx.order.update({
+      where: { id: order.id },
+      data: {
+        designsGenerated: { increment: 1 },
+        status: 'DESIGN_PENDING',
+      },
+    });
+    await recordGenerationUsage(tx, usage);
+
+    const createdDesign = await tx.design.create({
+      data: {
+        userId: order.userId,
+        orderId: order.id,
+        prompt: instruction,
+        aiModel: imageProvider.model,
+        imageUrl: '',
+        status: 'GENERATING',
+        style: source.style,
+        parentDesignId: source.id,
+        placement: source.placement,
+      },
+    });
+
+    await createGenerationJob(tx, createdDesign.id, {
+      prompt: instruction,
+      provider: imageProvider.name,
+      edit: { sourceImageUrl: source.imageUrl, mask },
+    });
+    await recordPromptEntry(tx, {
+      userId: order.userId,
+      orderId: order.id,
+      prompt: instruction,
+      style: source.style,
+      source: 'edit',
+      designId: createdDesign.id,
+    });
+
+    return { design: createdDesign, updatedOrder: nextOrder };
+  });
+
+  kickGenerationWorker();
+  console.log(`Queued edit ${design.id} of design ${source.id} for order ${order.orderNumber}`);
+  publishDesignEvent('design.queued', {
+    orderId: order.id,
+    designId: design.id,
+    status: design.status,
+  });
+  if (order.status !== updatedOrder.status) {
+    publishOrderStatus(order.id, updatedOrder.status);
+  }
+
+  res.status(202).json({
+    success: true,
+    message: 'Design edit started',
+    data: {
+      ...design,
+      remainingDesigns:
+        order.maxDesigns === 9999
+          ? 'unlimited'
+          : Math.max(updatedOrder.maxDesigns - updatedOrder.designsGenerated, 0),
+    },
+  });
+});
+
+/**
+ * @route POST /api/designs/:id/refine
+ * @description Proposes the next version of a finished design from a short instruction ("make the
+ * dragon blue"). An LLM merges the instruction into the design's full prompt, keeping the subject;
+ * the merged prompt is added to the order's refinement thread for the customer to confirm or edit.
+ * Nothing is generated and no design slot is used until POST /api/designs/refinements/:id/confirm.
+ * @access Protected (requires authentication) or Public with matching guest preview token
+ *
+ * @param {Request} req - Express request (params.id; body: instruction, guestToken?)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 201 - PROPOSED thread entry with mergedPrompt
+ * @throws {400} Missing or overlong instruction
+ * @throws {404} Design not found
+ * @throws {400} Design has no associated order
+ * @throws {400} Only finished designs can be refined
+ * @throws {400} Design rejected by moderation
+ * @throws {401} Authentication required
+ * @throws {403} Unauthorized access to design or invalid guest token
+ * @throws {400} Order must be active or pending payment
+ * @throws {400} Design limit reached for tier
+ */
+export const createDesignRefinement = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const instruction = parseRefinementInstruction(req.body.instruction);
+
+  const source = await prisma.design.findUnique({
+    where: { id },
+    include: { order: true },
+  });
+
+  if (!source) {
+    throw new AppError('Design not found', 404);
+  }
+
+  if (!source.order) {
+    throw new AppError('Design has no associated order', 400);
+  }
+
+  if (source.status !== 'COMPLETED' || !source.imageUrl) {
+    throw new AppError('Only finished designs can be refined', 400);
+  }
+
+  if (source.moderationStatus === 'REJECTED') {
+    throw new AppError('This design is not available to refine', 400);
+  }
+
+  const order = source.order;
+  const access = assertOrderAccess(order, req.user?.id, req.body.guestToken);
+  assertOrderAcceptsDesigns(order, access);
+
+  const refinement = await proposeRefinement(
+    {
+      id: source.id,
+      orderId: order.id,
+      prompt: source.prompt,
+      revisedPrompt: source.revisedPrompt,
+    },
+    instruction,
+    {
+      userId: order.userId,
+      guestSession: order.previewGuestToken ?? undefined,
+    }
+  );
+
+  sendAnalyticsEvent({
+    event: 'design.refine.propose',
+    properties: {
+      order_id: order.id,
+      order_number: order.orderNumber,
+      user_id: order.userId,
+      source_design_id: source.id,
+      refinement_id: refinement.id,
+      instruction_length: instruction.length,
+      merge_model: refinement.mergeModel,
+      is_guest: access === 'guest',
+    },
+  }).catch((err) => console.error('Failed to send design.refine.propose analytics', err));
+
+  res.status(201).json({
+    success: true,
+    message: 'Refinement proposed',
+    data: refinement,
+  });
+});
+
+/**
+ * @route GET /api/designs/refinements
+ * @description Returns the order's refinement thread, oldest first: each instruction, the merged
+ * prompt, whether it was confirmed or discarded and the batch it generated
+ * @access Protected (requires authentication) or Public with matching guest preview token
+ *
+ * @param {Request} req - Express request (query: orderId, guestToken?)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Array of thread entries
+ * @throws {400} orderId is required
+ * @throws {404} Order not found
+ * @throws {401} Authentication required
+ * @throws {403} Unauthorized access to order or invalid guest token
+ */
+export const getRefinementThread = catchAsync(async (req: Request, res: Response) => {
+  const orderId = typeof req.query.orderId === 'string' ? req.query.orderId : '';
+  if (!orderId) {
+    throw new AppError('orderId is required', 400);
+  }
+
+  const order = await prisma.order.findUnique({ where: { id: orderId } });
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+
+  assertOrderAccess(order, req.user?.id, req.query.guestToken);
+
+  const thread = await listRefinementThread(orderId);
+
+  res.json({
+    success: true,
+    data: thread,
+  });
+});
+
+/**
+ * @route POST /api/designs/refinements/:refinementId/confirm
+ * @description Generates the proposed refinement: queues a batch with the merged prompt (or the
+ * customer's edited version of it) and the source design's style and reference photo, branched
+ * from the source design. Uses one design slot like any other generation.
+ * @access Protected (requires authentication) or Public with matching guest preview token
+ *
+ * @param {Request} req - Express request (params.refinementId; body: prompt?, variations?, provider?, guestToken?)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 202 - Confirmed thread entry, batch id/size, GENERATING designs and remainingDesigns
+ * @throws {400} Unknown image provider, variations outside 1-4 or overlong prompt
+ * @throws {400} Provider cannot use the source design's reference image
+ * @throws {404} Refinement not found
+ * @throws {401} Authentication required
+ * @throws {403} Unauthorized access to order or invalid guest token
+ * @throws {400} Order must be active or pending payment
+ * @throws {400} Design limit reached for tier
+ * @throws {429} Generation quota reached or spend breaker open
+ * @throws {409} Refinement already confirmed or discarded
+ */
+export const confirmDesignRefinement = catchAsync(async (req: Request, res: Response) => {
+  const { refinementId } = req.params;
+  const { prompt, provider, guestToken } = req.body;
+
+  assertImageProvider(provider);
+  const variations = parseVariationCount(req.body.variations);
+
+  const refinement = await findRefinement(refinementId);
+  const order = refinement.order;
+  const access = assertOrderAccess(order, req.user?.id, guestToken);
+
+  if (refinement.status !== 'PROPOSED') {
+    throw new AppError('This refinement was already confirmed or discarded', 409);
+  }
+
+  assertOrderAcceptsDesigns(order, access);
+
+  const finalPrompt =
+    typeof prompt === 'string' && prompt.trim() ? prompt.trim() : refinement.mergedPrompt;
+  if (finalPrompt.length > MAX_REFINEMENT_PROMPT_LENGTH) {
+    throw new AppError(`Prompt must be under ${MAX_REFINEMENT_PROMPT_LENGTH} characters`, 400);
+  }
+
+  const batchId = uuidv4();
+
+  sendAnalyticsEvent({
+    event: 'design.refine.confirm',
+    properties: {
+      order_id: order.id,
+      order_number: order.orderNumber,
+      user_id: order.userId,
+      refinement_id: refinement.id,
+      source_design_id: refinement.sourceDesignId,
+      prompt_edited: finalPrompt !== refinement.mergedPrompt,
+      batch_id: batchId,
+      batch_size: variations,
+      is_guest: access === 'guest',
+    },
+  }).catch((err) => console.error('Failed to send design.refine.confirm analytics', err));
+
+  // Pin the provider at enqueue time so retries don't switch models mid-job
+  const referenceImage = refinement.sourceDesign?.referenceImage ?? null;
+  const imageProvider = await resolveGenerationProvider(provider || undefined, !!referenceImage);
+  const usage = await assertGenerationQuota({
+    ...getGenerationCaller(req, access, guestToken),
+    orderId: order.id,
+    source: 'refinement',
+    provider: imageProvider.name,
+    images: variations,
+  });
+
+  const { designs, updatedOrder } = await prisma.$transaction(async (tx: TransactionClient) => {
+    const nextOrder = await tx.order.update({
+      where: { id: order.id },
+      data: {
+        designsGenerated: { increment: 1 },
+        status: 'DESIGN_PENDING',
+      },
+    });
+    await recordGenerationUsage(tx, usage);
+
+    const createdDesigns = await createDesignBatch(tx, {
+      id: batchId,
+      orderId: order.id,
+      userId: order.userId,
+      prompt: finalPrompt,
+      style: refinement.sourceDesign?.style,
+      provider: imageProvider.name,
+      aiModel: imageProvider.model,
+      variations,
+      parentDesignId: refinement.sourceDesignId,
+      placement: refinement.sourceDesign?.placement,
+      referenceImage,
+    });
+
+    await markRefinementConfirmed(tx, refinement.id, finalPrompt, batchId);
+    await recordPromptEntry(tx, {
+      userId: order.userId,
+      orderId: order.id,
+      prompt: finalPrompt,
+      style: refinement.sourceDesign?.style,
+      source: 'refinement',
+      batchId,
+    });
+
+    return { designs: createdDesigns, updatedOrder: nextOrder };
+  });
+
+  kickGenerationWorker();
+  console.log(
+    `Queued refinement ${refinement.id} as batch ${batchId} for order ${order.orderNumber}`
+  );
+  for (const design of designs) {
+    publishDesignEvent('design.queued', {
+      orderId: order.id,
+      designId: design.id,
+      status: design.status,
+    });
+  }
+  if (order.status !== updatedOrder.status) {
+    publishOrderStatus(order.id, updatedOrder.status);
+  }
+
+  res.status(202).json({
+    success: true,
+    message: 'Refinement generation started',
+    data: {
+      refinement: {
+        id: refinement.id,
+        status: 'CONFIRMED',
+        finalPrompt,
+        batchId,
+      },
+      batchId,
+      batchSize: variations,
+      designs,
+      remainingDesigns:
+        order.maxDesigns === 9999
+          ? 'unlimited'
+          : Math.max(updatedOrder.maxDesigns - updatedOrder.designsGenerated, 0),
+    },
+  });
+});
+
+/**
+ * @route POST /api/designs/refinements/:refinementId/discard
+ * @description Discards a proposed refinement without generating it
+ * @access Protected (requires authentication) or Public with matching guest preview token
+ *
+ * @param {Request} req - Express request (params.refinementId; body: guestToken?)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Discarded thread entry
+ * @throws {404} Refinement not found
+ * @throws {401} Authentication required
+ * @throws {403} Unauthorized access to order or invalid guest token
+ * @throws {400} Refinement is not proposed
+ */
+export const discardDesignRefinement = catchAsync(async (req: Request, res: Response) => {
+  const refinement = await findRefinement(req.params.refinementId);
+  assertOrderAccess(refinement.order, req.user?.id, req.body.guestToken);
+
+  const discarded = await discardRefinement(refinement.id);
+
+  res.json({
+    success: true,
+    data: discarded,
+  });
+});
+
+/**
+ * @route GET /api/designs/:id
+ * @description Retrieves single design by ID
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (params.id required)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Design details with order information
+ * @throws {401} Authentication required
+ * @throws {404} Design not found
+ * @throws {403} Unauthorized access to design
+ */
+export const getDesign = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required',
+    });
+    return;
+  }
+
+  const { id } = req.params;
+
+  const design = await prisma.design.findUnique({
+    where: { id },
+    include: {
+      order: true,
+    },
+  });
+
+  if (!design) {
+    throw new AppError('Design not found', 404);
+  }
+
+  const belongsToUser =
+    design.userId === req.user.id ||
+    (design.order && design.order.userId === req.user.id);
+
+  if (!belongsToUser) {
+    throw new AppError('Unauthorized access to this design', 403);
+  }
+
+  res.json({
+    success: true,
+    data: design,
+  });
+});
+
+/**
+ * @route GET /api/designs/:id/lineage
+ * @description Retrieves a design's version history: the ancestor chain (across orders for clones)
+ * and the version tree of its order, so the studio can show which prompt led where and branch from
+ * any earlier version
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (params.id required)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} designId, orderId, ancestors (oldest first) and tree (nested children)
+ * @throws {401} Authentication required
+ * @throws {404} Design not found
+ * @throws {403} Unauthorized access to design
+ */
+export const getDesignLineage = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required',
+    });
+    return;
+  }
+
+  const { id } = req.params;
+
+  const design = await prisma.design.findUnique({
+    where: { id },
+    include: { order: true },
+  });
+
+  if (!design) {
+    throw new AppError('Design not found', 404);
+  }
+
+  const belongsToUser =
+    design.userId === req.user.id || (design.order && design.order.userId === req.user.id);
+
+  if (!belongsToUser) {
+    throw new AppError('Unauthorized access to this design', 403);
+  }
+
+  const lineage = await buildDesignLineage(design.id, req.user.id);
+
+  res.json({
+    success: true,
+    data: lineage,
+  });
+});
+
+/**
+ * @route GET /api/designs/:id/print-check
+ * @description Analyses how a design will print on the chosen shirt colour: contrast against the
+ * shirt, near-black areas on a black tee, detail too fine to print, hard rectangular edges and
+ * effective resolution. Returns scored warnings so customers can fix problems before approving.
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (params.id required; query.color and query.placement optional, defaulting to the order's first item)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} score (0-100), ready, warnings, color, placement and effectiveDpi
+ * @throws {401} Authentication required
+ * @throws {404} Design not found
+ * @throws {403} Unauthorized access to design
+ * @throws {400} Design is not finished
+ * @throws {400} Unknown shirt colour or placement
+ */
+export const getDesignPrintCheck = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required',
+    });
+    return;
+  }
+
+  const { id } = req.params;
+  const { color, placement } = req.query;
+
+  const design = await prisma.design.findUnique({
+    where: { id },
+    include: { order: { include: { items: { include: { product: true } } } } },
+  });
+
+  if (!design) {
+    throw new AppError('Design not found', 404);
+  }
+
+  const belongsToUser =
+    design.userId === req.user.id || (design.order && design.order.userId === req.user.id);
+
+  if (!belongsToUser) {
+    throw new AppError('Unauthorized access to this design', 403);
+  }
+
+  if ((design.status !== 'COMPLETED' && design.status !== 'APPROVED') || !design.imageUrl) {
+    throw new AppError('Only finished designs can be checked for printing', 400);
+  }
+
+  const firstItem = design.order?.items?.[0];
+  const colorName = typeof color === 'string' && color ? color : firstItem?.color || 'White';
+  const shirtColor = findProductColor(colorName);
+
+  if (!shirtColor) {
+    throw new AppError(`Unknown shirt colour: ${colorName}`, 400);
+  }
+
+  const targetPlacement =
+    typeof placement === 'string' && placement
+      ? placement
+      : getDesignPrintPlacement(design.placement, firstItem?.product?.category || 'T_SHIRT');
+
+  const result = await checkDesignPrintReadiness(design, shirtColor, targetPlacement);
+
+  res.json({
+    success: true,
+    data: result,
+  });
+});
+
+/**
+ * @route GET /api/designs/:id/mockups
+ * @description Product mockups of a design: what prints (text image or print source, so removed
+ * backgrounds stay transparent) composited onto the garment template of each shirt colour at the
+ * order item's placement box. Mockups are rendered on first request and cached per design and
+ * colour until the design, placement or template changes.
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (params.id required; query.color optional, limiting the response to one colour)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} designId, placement and mockups (color, hex, imageUrl) in catalog colour order
+ * @throws {401} Authentication required
+ * @throws {404} Design not found
+ * @throws {403} Unauthorized access to design
+ * @throws {400} Design is not finished
+ * @throws {400} Unknown shirt colour, or a placement without mockups
+ */
+export const getDesignMockups = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required',
+    });
+    return;
+  }
+
+  const { id } = req.params;
+  const { color } = req.query;
+
+  const design = await prisma.design.findUnique({
+    where: { id },
+    include: { order: { include: { items: { include: { product: true } } } } },
+  });
+
+  if (!design) {
+    throw new AppError('Design not found', 404);
+  }
+
+  const belongsToUser =
+    design.userId === req.user.id || (design.order && design.order.userId === req.user.id);
+
+  if (!belongsToUser) {
+    throw new AppError('Unauthorized access to this design', 403);
+  }
+
+  if ((design.status !== 'COMPLETED' && design.status !== 'APPROVED') || !design.imageUrl) {
+    throw new AppError('Only finished designs have mockups', 400);
+  }
+
+  let colors: ColorOption[];
+  const firstItem = design.order?.items?.[0];
+  if (typeof color === 'string' && color) {
+    const shirtColor = findProductColor(color);
+    if (!shirtColor) {
+      throw new AppError(`Unknown shirt colour: ${color}`, 400);
+    }
+    colors = [shirtColor];
+  } else {
+    colors = Array.isArray(firstItem?.product?.colors)
+      ? firstItem.product.colors
+      : PRODUCTS[0].colors;
+  }
+
+  const placement = getDesignPrintPlacement(
+    design.placement,
+    firstItem?.product?.category || 'T_SHIRT'
+  );
+
+  if (!supportsMockups(placement)) {
+    throw new AppError('Mockups are only available for front and back prints', 400);
+  }
+
+  const mockups = await listDesignMockups(
+    {
+      designId: design.id,
+      imageUrl: design.textImageUrl || getPrintSourceUrl(design),
+      placement,
+      box: getItemPreviewBox(firstItem, placement),
+    },
+    colors
+  );
+
+  res.json({
+    success: true,
+    data: { designId: design.id, placement, mockups },
+  });
+});
+
+/**
+ * @route GET /api/designs
+ * @description Retrieves all designs for a specific order
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (query.orderId required)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Array of designs for the order
+ * @throws {401} Authentication required
+ * @throws {400} Order ID is required
+ * @throws {404} Order not found
+ * @throws {403} Unauthorized access to order
+ */
+export const getDesignsByOrder = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required',
+    });
+    return;
+  }
+
+  const { orderId } = req.query;
+
+  if (!orderId || typeof orderId !== 'string') {
+    res.status(400).json({
+      success: false,
+      message: 'Order ID is required',
+    });
+    return;
+  }
+
+  // Verify order belongs to user
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+  });
+
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+
+  if (order.userId !== req.user.id) {
+    throw new AppError('Unauthorized access to this order', 403);
+  }
+
+  const designs = await prisma.design.findMany({
+    where: { orderId, deletedAt: null },
+    include: { batch: DESIGN_BATCH_SUMMARY },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  res.json({
+    success: true,
+    data: designs,
+  });
+});
+
+/**
+ * @route GET /api/designs/mine
+ * @description Lists every design the signed-in customer owns across orders, newest first, with
+ * cursor pagination. Deleted designs are left out.
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (query: q, status, approved, style, from, to, color, collectionId, cursor, limit)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Designs (with order summary, order colours and collectionIds) and meta.nextCursor
+ * @throws {401} Authentication required
+ * @throws {400} Unknown status, invalid date or approved value
+ */
+export const getMyDesigns = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  const filters = parseDesignLibraryFilters(req.query as Record<string, unknown>);
+  const { items, nextCursor } = await listLibraryDesigns(req.user.id, filters);
+
+  res.json({
+    success: true,
+    data: items,
+    meta: { nextCursor, limit: filters.limit },
+  });
+});
+
+/**
+ * @route DELETE /api/designs/:id
+ * @description Deletes a design from the customer's view for good (soft delete): it disappears from
+ * the library, collections and the order's design list. Approved designs can't be deleted.
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (params.id)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Success message
+ * @throws {401} Authentication required
+ * @throws {404} Design not found
+ * @throws {400} Design is approved
+ */
+export const deleteDesign = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  await softDeleteDesign(req.user.id, req.params.id);
+
+  sendAnalyticsEvent({
+    event: 'design.deleted',
+    properties: { design_id: req.params.id, user_id: req.user.id },
+  }).catch((err) => console.error('Failed to send design.deleted analytics', err));
+
+  res.json({
+    success: true,
+    message: 'Design deleted',
+  });
+});
+
+/**
+ * @route GET /api/designs/collections
+ * @description Lists the customer's design collections with design counts and a cover image
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Array of collections (id, name, designCount, coverUrl, createdAt)
+ * @throws {401} Authentication required
+ */
+export const getDesignCollections = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  res.json({
+    success: true,
+    data: await listCollections(req.user.id),
+  });
+});
+
+/**
+ * @route POST /api/designs/collections
+ * @description Creates a design collection
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (body: name)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 201 - New collection
+ * @throws {401} Authentication required
+ * @throws {400} Missing or overlong name, or collection limit reached
+ * @throws {409} Name already used
+ */
+export const createDesignCollection = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  const collection = await createCollection(req.user.id, req.body.name);
+
+  res.status(201).json({
+    success: true,
+    data: collection,
+  });
+});
+
+/**
+ * @route PATCH /api/designs/collections/:collectionId
+ * @description Renames a design collection
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (params.collectionId; body: name)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Collection id and name
+ * @throws {401} Authentication required
+ * @throws {400} Missing or overlong name
+ * @throws {404} Collection not found
+ * @throws {409} Name already used
+ */
+export const renameDesignCollection = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  const collection = await renameCollection(req.user.id, req.params.collectionId, req.body.name);
+
+  res.json({
+    success: true,
+    data: collection,
+  });
+});
+
+/**
+ * @route DELETE /api/designs/collections/:collectionId
+ * @description Deletes a design collection; its designs stay in the library
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (params.collectionId)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Success message
+ * @throws {401} Authentication required
+ * @throws {404} Collection not found
+ */
+export const deleteDesignCollection = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  await deleteCollection(req.user.id, req.params.collectionId);
+
+  res.json({
+    success: true,
+    message: 'Collection deleted',
+  });
+});
+
+/**
+ * @route PUT /api/designs/collections/:collectionId/designs/:id
+ * @description Adds a design to a collection (no-op when already in it)
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (params.collectionId, params.id)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Success message
+ * @throws {401} Authentication required
+ * @throws {404} Collection or design not found
+ */
+export const addDesignToDesignCollection = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  await addDesignToCollection(req.user.id, req.params.collectionId, req.params.id);
+
+  res.json({
+    success: true,
+    message: 'Design added to collection',
+  });
+});
+
+/**
+ * @route DELETE /api/designs/collections/:collectionId/designs/:id
+ * @description Removes a design from a collection
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (params.collectionId, params.id)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Success message
+ * @throws {401} Authentication required
+ * @throws {404} Collection not found
+ */
+export const removeDesignFromDesignCollection = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  await removeDesignFromCollection(req.user.id, req.params.collectionId, req.params.id);
+
+  res.json({
+    success: true,
+    message: 'Design removed from collection',
+  });
+});
+
+/**
+ * @route POST /api/designs/clone
+ * @description Clones a finished design into a new preview order. The copy keeps the source's
+ * artwork and prompt and records the source as its parent, so it shows up in lineage; approval and
+ * batch state are not carried over.
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (body: sourceDesignId, targetOrderId)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Cloned design details
+ * @throws {401} Authentication required
+ * @throws {400} Missing sourceDesignId or targetOrderId
+ * @throws {404} Source design not found or deleted
+ * @throws {400} Source design is not finished
+ * @throws {400} Source design is held or rejected in moderation review
+ * @throws {400} Source design image not in durable storage
+ * @throws {404} Target order not found
+ * @throws {403} Unauthorized access to target order
+ * @throws {400} Target order must be unpaid preview
+ */
+export const cloneDesign = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401).json({ success: false, message: 'Authentication required' });
+    return;
+  }
+
+  const { sourceDesignId, targetOrderId } = req.body as { sourceDesignId?: string; targetOrderId?: string };
+
+  if (!sourceDesignId || !targetOrderId) {
+    res.status(400).json({ success: false, message: 'sourceDesignId and targetOrderId are required' });
+    return;
+  }
+
+  const sourceDesign = await prisma.design.findUnique({
+    where: { id: sourceDesignId },
+    include: { order: true },
+  });
+
+  if (!sourceDesign || sourceDesign.deletedAt) {
+    throw new AppError('Source design not found', 404);
+  }
+
+  if (sourceDesign.status !== 'COMPLETED' && sourceDesign.status !== 'APPROVED') {
+    throw new AppError('Only finished designs can be cloned', 400);
+  }
+
+  if (getModerationHoldMessage(sourceDesign.moderationStatus)) {
+    throw new AppError('This design is not available to copy', 400);
+  }
+
+  if (!sourceDesign.imageUrl || sourceDesign.storageStatus !== 'STORED' || isTemporaryImageUrl(sourceDesign.imageUrl)) {
+    throw new AppError('Source design image is not available in durable storage. Please regenerate.', 400);
+  }
+
+  const targetOrder = await prisma.order.findUnique({
+    where: { id: targetOrderId },
+    include: { items: true },
+  });
+
+  if (!targetOrder) {
+    throw new AppError('Target order not found', 404);
+  }
+
+  if (targetOrder.userId !== req.user.id) {
+    throw new AppError('Unauthorized access to target order', 403);
+  }
+
+  if (!isOrderActionAllowed('design_clone_to_preview', targetOrder.status as OrderStatus)) {
+    throw new AppError(getOrderActionErrorMessage('design_clone_to_preview'), 400);
+  }
+
+  const cloned = await prisma.design.create({
+    data: {
+      id: uuidv4(),
+      userId: req.user.id,
+      orderId: targetOrderId,
+      prompt: sourceDesign.prompt,
+      revisedPrompt: sourceDesign.revisedPrompt,
+      aiModel: sourceDesign.aiModel,
+      imageUrl: sourceDesign.imageUrl,
+      thumbnailUrl: sourceDesign.thumbnailUrl || sourceDesign.imageUrl,
+      transparentImageUrl: sourceDesign.transparentImageUrl,
+      imageVariants: sourceDesign.imageVariants,
+      placeholder: sourceDesign.placeholder,
+      keepBackground: sourceDesign.keepBackground,
+      status: 'COMPLETED',
+      storageStatus: 'STORED',
+      style: sourceDesign.style,
+      approvalStatus: false,
+      parentDesignId: sourceDesign.id,
+    },
+  });
+
+  sendAnalyticsEvent({
+    event: 'design.clone.success',
+    properties: {
+      source_design_id: sourceDesignId,
+      target_order_id: targetOrderId,
+      user_id: req.user.id,
+    },
+  }).catch((err) => console.error('Failed to send design.clone.success analytics', err));
+
+  res.status(201).json({
+    success: true,
+    message: 'Design cloned successfully',
+    data: cloned,
+  });
+});
+
+/**
+ * @route GET /api/designs/gallery
+ * @description Retrieves public design gallery feed with random sampling. Designs held for
+ * moderation review or rejected in it, deleted designs and images not yet in asset storage are
+ * left out. Each design carries an `image` with WebP/AVIF `srcSet`s and a blur placeholder.
+ * @access Public
+ *
+ * @param {Request} req - Express request (query.limit optional, max 24)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Array of randomized public designs
+ */
+export const getDesignGallery = catchAsync(async (req: Request, res: Response) => {
+  const limit = Math.min(24, Math.max(1, Number(req.query.limit) || 12));
+  const fetchPool = Math.max(limit * 5, 60); // pull a larger pool to randomize client-side
+
+  const pool = await prisma.design.findMany({
+    where: {
+      status: { in: ['COMPLETED', 'APPROVED'] },
+      OR: [{ moderationStatus: null }, { moderationStatus: 'CLEARED' }],
+      imageUrl: { not: '' },
+      storageStatus: 'STORED',
+      deletedAt: null,
+    },
+    select: {
+      id: true,
+      prompt: true,
+      revisedPrompt: true,
+      imageUrl: true,
+      thumbnailUrl: true,
+      imageVariants: true,
+      placeholder: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'desc' },
+    take: fetchPool,
+  });
+
+  // Shuffle pool to avoid the same set each time; return a random slice of the requested size
+  for (let i = pool.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+
+  res.json({
+    success: true,
+    data: pool.slice(0, limit).map(({ imageVariants, placeholder, ...design }: GalleryRow) => ({
+      ...design,
+      image: toResponsiveImage({ ...design, imageVariants, placeholder }),
+    })),
+  });
+});
+
+/**
+ * @route POST /api/designs/:id/approve
+ * @description Approves a design for its placement. Once every placement the order prints on has
+ * an approved design, updates the order status, sends the approval email and auto-submits to
+ * Printful; until then the response lists the placements still missing one.
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (params.id required)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Success message, plus missingPlacements while the order is not fully approved
+ * @throws {401} Authentication required
+ * @throws {404} Design not found or deleted
+ * @throws {400} Design has no associated order
+ * @throws {403} Unauthorized access to design
+ * @throws {400} Order already has an approved design for this placement
+ * @throws {400} Payment required before approval
+ * @throws {400} Order no longer prints on the design's placement
+ * @throws {400} Design is held or rejected in moderation review
+ * @throws {409} Design image not stored yet, or expired before it could be
+ */
+export const approveDesign = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required',
+    });
+    return;
+  }
+
+  const { id } = req.params;
+
+  const design = await prisma.design.findUnique({
+    where: { id },
+    include: {
+      order: {
+        include: {
+          user: true,
+        },
+      },
+    },
+  });
+
+  if (!design || design.deletedAt) {
+    throw new AppError('Design not found', 404);
+  }
+
+  if (!design.order) {
+    throw new AppError('Design has no associated order', 400);
+  }
+
+  if (design.userId !== req.user.id) {
+    throw new AppError('Unauthorized access to this design', 403);
+  }
+
+  const moderationHold = getModerationHoldMessage(design.moderationStatus);
+  if (moderationHold) {
+    throw new AppError(moderationHold, 400);
+  }
+
+  if (design.storageStatus !== 'STORED') {
+    throw new AppError(
+      design.storageStatus === 'EXPIRED'
+        ? 'This design expired before it could be saved. Regenerate it to approve.'
+        : 'This design is still being saved. Try approving again in a minute.',
+      409
+    );
+  }
+
+  const placementLabel = getPlacementLabel(design.placement).toLowerCase();
+  const existingApproved = await prisma.design.findFirst({
+    where: {
+      orderId: design.orderId!,
+      placement: design.placement,
+      approvalStatus: true,
+      id: { not: design.id },
+    },
+  });
+
+  if (existingApproved) {
+    throw new AppError(`This order already has an approved design for the ${placementLabel}.`, 400);
+  }
+
+  if (!isOrderActionAllowed('design_approve', design.order.status as OrderStatus)) {
+    throw new AppError(getOrderActionErrorMessage('design_approve'), 400);
+  }
+
+  const { placements } = await getOrderPlacementApproval(prisma, design.orderId!);
+  if (!placements.includes(design.placement)) {
+    throw new AppError(`This order no longer prints on the ${placementLabel}.`, 400);
+  }
+
+  // Update design approval; the order is approved once every placement has a design
+  const approval = await prisma.$transaction(async (tx: TransactionClient) => {
+    await tx.design.update({
+      where: { id },
+      data: {
+        approvalStatus: true,
+        approvedAt: new Date(),
+      },
+    });
+
+    // Approving a variation also makes it the batch's pick
+    if (design.batchId) {
+      await tx.designBatch.update({
+        where: { id: design.batchId },
+        data: { selectedDesignId: design.id, selectedAt: new Date() },
+      });
+    }
+
+    await linkApprovedDesign(tx, design.orderId!, design);
+
+    const progress = await getOrderPlacementApproval(tx, design.orderId!);
+    if (!progress.missing.length) {
+      await tx.order.update({
+        where: { id: design.orderId! },
+        data: { status: 'DESIGN_APPROVED' },
+      });
+    }
+
+    return progress;
+  });
+
+  if (approval.missing.length) {
+    res.json({
+      success: true,
+      message: `Design approved for the ${placementLabel}. Approve a design for the ${approval.missing
+        .map((placement: DesignPlacement) => getPlacementLabel(placement).toLowerCase())
+        .join(', ')} to send your order for printing.`,
+      data: { missingPlacements: approval.missing },
+    });
+    return;
+  }
+
+  publishOrderStatus(design.orderId!, 'DESIGN_APPROVED');
+
+  // Send design approved email (non-blocking)
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+  getOrderMockupPreview(design.orderId!)
+    .then((placement) =>
+      sendDesignApproved({
+        customerName: design.order.user.firstName || design.order.user.email,
+        customerEmail: design.order.user.email,
+        orderNumber: design.order.orderNumber,
+        designImageUrl: design.imageUrl,
+        orderUrl: `${frontendUrl}/orders/${design.orderId}`,
+        placement,
+      })
+    )
+    .catch((error: unknown) => {
+      console.error('Failed to send design approved email:', error);
+    });
+
+  // Submit order to Printful for fulfillment (non-blocking)
+  // This runs in the background to not block the user response
+  createPrintfulOrder(design.orderId!)
+    .then((result: { success: boolean; printfulOrderId?: number; error?: string }) => {
+      if (result.success) {
+        console.log(`✓ Order ${design.orderId} submitted to Printful: ${result.printfulOrderId}`);
+      } else {
+        console.error(`❌ Failed to submit order ${design.orderId} to Printful:`, result.error);
+        // NOTE: In production, you'd want to send an alert/notification here
+        // or add the order to a retry queue
+      }
+    })
+    .catch((error: unknown) => {
+      console.error('Unexpected error submitting to Printful:', error);
+    });
+
+  res.json({
+    success: true,
+    message: 'Design approved successfully! Your order is being submitted for printing.',
+  });
+});
+
+/**
+ * @route POST /api/designs/:id/select
+ * @description Keeps one variation from a generation batch as the customer's favorite. The other
+ * variations stay on the order but are collapsed in the studio.
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (params.id required)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Updated batch summary
  * @throws {401} Authentication required
- * @throws {400} Missing sourceDesignId or targetOrderId
- * @throws {404} Source design not found
- * @throws {400} Source design image not in durable storage
- * @throws {404} Target order not found
- * @throws {403} Unauthorized access to target order
- * @throws {400} Target order must be unpaid preview
+ * @throws {404} Design not found
+ * @throws {403} Unauthorized access to design
+ * @throws {400} Design is not part of a variation batch
+ * @throws {400} Variation is not finished
+ * @throws {400} Order already has an approved design
  */
-export const cloneDesign = catchAsync(async (req: Request, res: Response) => {
+export const selectBatchDesign = catchAsync(async (req: Request, res: Response) => {
   if (!req.user) {
-    res.status(401).json({ success: false, message: 'Authentication required' });
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required',
+    });
     return;
   }
 
-  const { sourceDesignId, targetOrderId } = req.body as { sourceDesignId?: string; targetOrderId?: string };
-
-  if (!sourceDesignId || !targetOrderId) {
-    res.status(400).json({ success: false, message: 'sourceDesignId and targetOrderId are required' });
-    return;
-  }
+  const { id } = req.params;
 
-  const sourceDesign = await prisma.design.findUnique({
-    where: { id: sourceDesignId },
-    include: { order: true },
+  const design = await prisma.design.findUnique({
+    where: { id },
+    include: { batch: true },
   });
 
-  if (!sourceDesign) {
-    throw new AppError('Source design not found', 404);
+  if (!design) {
+    throw new AppError('Design not found', 404);
   }
 
-  if (!sourceDesign.imageUrl || sourceDesign.imageUrl.toLowerCase().includes('oaidalle') || sourceDesign.imageUrl.toLowerCase().includes('openai')) {
-    throw new AppError('Source design image is not available in durable storage. Please regenerate.', 400);
+  if (design.userId !== req.user.id) {
+    throw new AppError('Unauthorized access to this design', 403);
   }
 
-  const targetOrder = await prisma.order.findUnique({
-    where: { id: targetOrderId },
-    include: { items: true },
-  });
-
-  if (!targetOrder) {
-    throw new AppError('Target order not found', 404);
+  if (!design.batch) {
+    throw new AppError('Design is not part of a variation batch', 400);
   }
 
-  if (targetOrder.userId !== req.user.id) {
-    throw new AppError('Unauthorized access to target order', 403);
+  if (design.status !== 'COMPLETED') {
+    throw new AppError('Only finished variations can be kept', 400);
   }
 
-  if (!isOrderActionAllowed('design_clone_to_preview', targetOrder.status as OrderStatus)) {
-    throw new AppError(getOrderActionErrorMessage('design_clone_to_preview'), 400);
+  const existingApproved = await prisma.design.findFirst({
+    where: {
+      batchId: design.batchId,
+      approvalStatus: true,
+      id: { not: design.id },
+    },
+  });
+
+  if (existingApproved) {
+    throw new AppError('Another variation from this batch is already approved.', 400);
   }
 
-  const cloned = await prisma.design.create({
-    data: {
-      id: uuidv4(),
-      userId: req.user.id,
-      orderId: targetOrderId,
-      prompt: sourceDesign.prompt,
-      revisedPrompt: sourceDesign.revisedPrompt,
-      aiModel: sourceDesign.aiModel,
-      imageUrl: sourceDesign.imageUrl,
-      thumbnailUrl: sourceDesign.thumbnailUrl || sourceDesign.imageUrl,
-      status: 'COMPLETED',
-      style: sourceDesign.style,
-      approvalStatus: false,
-    },
+  const batch = await prisma.designBatch.update({
+    where: { id: design.batch.id },
+    data: { selectedDesignId: design.id, selectedAt: new Date() },
+    select: DESIGN_BATCH_SUMMARY.select,
   });
 
   sendAnalyticsEvent({
-    event: 'design.clone.success',
+    event: 'design.batch.selected',
     properties: {
-      source_design_id: sourceDesignId,
-      target_order_id: targetOrderId,
+      order_id: design.orderId,
+      design_id: design.id,
       user_id: req.user.id,
+      batch_id: batch.id,
+      batch_size: batch.size,
+      batch_index: design.batchIndex,
     },
-  }).catch((err) => console.error('Failed to send design.clone.success analytics', err));
+  }).catch((err) => console.error('Failed to send design.batch.selected analytics', err));
 
-  res.status(201).json({
+  res.json({
     success: true,
-    message: 'Design cloned successfully',
-    data: cloned,
+    message: 'Variation kept',
+    data: batch,
   });
 });
 
 /**
- * @route GET /api/designs/gallery
- * @description Retrieves public design gallery feed with random sampling
- * @access Public
+ * @route PATCH /api/designs/:id/background
+ * @description Chooses whether the printed file keeps the generated background or uses the
+ * transparent version with the background removed. Can only be changed before approval, since
+ * approval submits the print file to Printful.
+ * @access Protected (requires authentication)
  *
- * @param {Request} req - Express request (query.limit optional, max 24)
+ * @param {Request} req - Express request (params.id; body: keepBackground boolean)
  * @param {Response} res - Express response
  *
- * @returns {Object} Array of randomized public designs
- * @throws {500} Failed to load gallery from Supabase
+ * @returns {Object} Updated design
+ * @throws {401} Authentication required
+ * @throws {400} keepBackground must be a boolean
+ * @throws {404} Design not found
+ * @throws {403} Unauthorized access to design
+ * @throws {400} Design already approved
+ * @throws {400} No transparent version available
  */
-export const getDesignGallery = catchAsync(async (req: Request, res: Response) => {
-  const limit = Math.min(24, Math.max(1, Number(req.query.limit) || 12));
-  const fetchPool = Math.max(limit * 5, 60); // pull a larger pool to randomize client-side
+export const setDesignBackground = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required',
+    });
+    return;
+  }
+
+  const { id } = req.params;
+  const { keepBackground } = req.body;
+
+  if (typeof keepBackground !== 'boolean') {
+    throw new AppError('keepBackground must be true or false', 400);
+  }
 
-  const supabase = getSupabaseServiceRoleClient();
-  const { data, error } = await supabase
-    .from('designs')
-    .select('id,prompt,revisedPrompt,imageUrl,thumbnailUrl,createdAt')
-    .in('status', ['COMPLETED', 'APPROVED'])
-    .not('imageUrl', 'is', null)
-    .neq('imageUrl', '')
-    .order('createdAt', { ascending: false })
-    .limit(fetchPool);
+  const design = await prisma.design.findUnique({
+    where: { id },
+    include: { order: true },
+  });
 
-  if (error) {
-    throw new AppError(`Failed to load gallery: ${error.message}`, 500);
+  if (!design) {
+    throw new AppError('Design not found', 404);
   }
 
-  const pool = data || [];
+  const belongsToUser =
+    design.userId === req.user.id || (design.order && design.order.userId === req.user.id);
 
-  // Shuffle pool to avoid the same set each time; return a random slice of the requested size
-  for (let i = pool.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [pool[i], pool[j]] = [pool[j], pool[i]];
+  if (!belongsToUser) {
+    throw new AppError('Unauthorized access to this design', 403);
+  }
+
+  if (design.approvalStatus) {
+    throw new AppError('Design is already approved and submitted for printing', 400);
+  }
+
+  if (!keepBackground && !design.transparentImageUrl) {
+    throw new AppError('No transparent version is available for this design', 400);
   }
 
+  // Text is drawn over the print source, so its display image changes with the background
+  const textImageUrl = await renderTextImage(
+    { ...design, keepBackground },
+    readTextLayers(design.textLayers)
+  );
+
+  // The print file was rendered from the other source image; prepare it again at submission
+  const updated = await prisma.design.update({
+    where: { id },
+    data: {
+      keepBackground,
+      textImageUrl,
+      printFileUrl: null,
+      printFilePlacement: null,
+      printFileGeneratedAt: null,
+    },
+    include: { batch: DESIGN_BATCH_SUMMARY },
+  });
+
+  sendAnalyticsEvent({
+    event: 'design.background.set',
+    properties: {
+      order_id: design.orderId,
+      design_id: design.id,
+      user_id: req.user.id,
+      keep_background: keepBackground,
+    },
+  }).catch((err) => console.error('Failed to send design.background.set analytics', err));
+
   res.json({
     success: true,
-    data: pool.slice(0, limit),
+    message: keepBackground ? 'Background will be printed' : 'Background removed for printing',
+    data: updated,
   });
 });
 
 /**
- * @route POST /api/designs/:id/approve
- * @description Approves design and auto-submits to Printful for fulfillment
- * Sends approval email and updates order status
+ * @route PUT /api/designs/:id/text-layers
+ * @description Replaces the design's text layers (slogans, names, dates) and re-renders the
+ * display image with them. The art is untouched, so text can be edited any number of times before
+ * approval without regenerating or using a design slot. An empty array removes all text.
  * @access Protected (requires authentication)
  *
- * @param {Request} req - Express request (params.id required)
+ * @param {Request} req - Express request (params.id; body: layers array)
  * @param {Response} res - Express response
  *
- * @returns {Object} Success message
+ * @returns {Object} Updated design with `textLayers` and `textImageUrl`
  * @throws {401} Authentication required
+ * @throws {400} Invalid layers
  * @throws {404} Design not found
- * @throws {400} Design has no associated order
  * @throws {403} Unauthorized access to design
- * @throws {400} Order already has approved design
- * @throws {400} Payment required before approval
+ * @throws {400} Design not finished or already approved
  */
-export const approveDesign = catchAsync(async (req: Request, res: Response) => {
+export const setDesignTextLayers = catchAsync(async (req: Request, res: Response) => {
   if (!req.user) {
     res.status(401).json({
       success: false,
@@ -589,119 +2222,232 @@ export const approveDesign = catchAsync(async (req: Request, res: Response) => {
   }
 
   const { id } = req.params;
+  const layers = parseTextLayers(req.body.layers);
 
   const design = await prisma.design.findUnique({
     where: { id },
-    include: {
-      order: {
-        include: {
-          user: true,
-        },
-      },
-    },
+    include: { order: true },
   });
 
   if (!design) {
     throw new AppError('Design not found', 404);
   }
 
-  if (!design.order) {
-    throw new AppError('Design has no associated order', 400);
-  }
+  const belongsToUser =
+    design.userId === req.user.id || (design.order && design.order.userId === req.user.id);
 
-  if (design.userId !== req.user.id) {
+  if (!belongsToUser) {
     throw new AppError('Unauthorized access to this design', 403);
   }
 
-  const existingApproved = await prisma.design.findFirst({
-    where: {
-      orderId: design.orderId!,
-      approvalStatus: true,
-      id: { not: design.id },
+  if (design.approvalStatus) {
+    throw new AppError('Design is already approved and submitted for printing', 400);
+  }
+
+  if (design.status !== 'COMPLETED') {
+    throw new AppError('Text can be added once the design has finished generating', 400);
+  }
+
+  const textImageUrl = await renderTextImage(design, layers);
+
+  // The print file carries the text too; prepare it again at submission
+  const updated = await prisma.design.update({
+    where: { id },
+    data: {
+      textLayers: layers,
+      textImageUrl,
+      printFileUrl: null,
+      printFilePlacement: null,
+      printFileGeneratedAt: null,
     },
+    include: { batch: DESIGN_BATCH_SUMMARY },
   });
 
-  if (existingApproved) {
-    throw new AppError('This order already has an approved design.', 400);
+  sendAnalyticsEvent({
+    event: 'design.text.set',
+    properties: {
+      order_id: design.orderId,
+      design_id: design.id,
+      user_id: req.user.id,
+      layer_count: layers.length,
+      fonts: [...new Set(layers.map((layer) => layer.font))],
+      has_arc: layers.some((layer) => layer.shape === 'arc'),
+    },
+  }).catch((err) => console.error('Failed to send design.text.set analytics', err));
+
+  res.json({
+    success: true,
+    message: layers.length ? 'Text updated' : 'Text removed',
+    data: updated,
+  });
+});
+
+/**
+ * Interval for SSE keep-alive comments (below common 30-60s proxy idle timeouts)
+ */
+const STREAM_HEARTBEAT_MS = 25000;
+
+/**
+ * @route GET /api/designs/stream
+ * @description Server-Sent Events stream of design pipeline events (queued, moderation passed,
+ * image generated, uploaded, completed/failed, retry scheduled) and order status changes for one
+ * order. Sends a `snapshot` event with current designs and order status on connect so clients can
+ * resync after reconnecting.
+ * @access Protected (Clerk bearer token) or Public with matching guest preview token
+ *
+ * @param {Request} req - Express request (query: orderId, guestToken?)
+ * @param {Response} res - Express response (text/event-stream)
+ *
+ * @returns {void} Streams events until the client disconnects
+ * @throws {400} Order ID is required
+ * @throws {404} Order not found
+ * @throws {401} Authentication or guest token required
+ * @throws {403} Unauthorized access to order
+ */
+export const streamDesignEvents = catchAsync(async (req: Request, res: Response) => {
+  const { orderId, guestToken } = req.query;
+
+  if (!orderId || typeof orderId !== 'string') {
+    throw new AppError('Order ID is required', 400);
   }
 
-  if (!isOrderActionAllowed('design_approve', design.order.status as OrderStatus)) {
-    throw new AppError(getOrderActionErrorMessage('design_approve'), 400);
+  const order = await prisma.order.findUnique({ where: { id: orderId } });
+
+  if (!order) {
+    throw new AppError('Order not found', 404);
   }
 
-  // Update design approval
-  await prisma.$transaction(async (tx: TransactionClient) => {
-    await tx.design.update({
-      where: { id },
-      data: {
-        approvalStatus: true,
-        approvedAt: new Date(),
-      },
-    });
+  const isGuestHolder =
+    typeof guestToken === 'string' &&
+    !!order.previewGuestToken &&
+    order.previewGuestToken === guestToken;
+  const isOwner = !!req.user && order.userId === req.user.id;
 
-    await tx.order.update({
-      where: { id: design.orderId! },
-      data: {
-        status: 'DESIGN_APPROVED',
-        items: {
-          updateMany: {
-            where: { orderId: design.orderId! },
-            data: { designId: design.id },
-          },
-        },
-      },
-    });
+  if (!isGuestHolder && !isOwner) {
+    if (!req.user && !guestToken) {
+      throw new AppError('Authentication required', 401);
+    }
+    throw new AppError('Unauthorized access to this order', 403);
+  }
+
+  const designs = await prisma.design.findMany({
+    where: { orderId, deletedAt: null },
+    include: { batch: DESIGN_BATCH_SUMMARY },
+    orderBy: { createdAt: 'desc' },
   });
 
-  // Send design approved email (non-blocking)
-  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
-  sendDesignApproved({
-    customerName: design.order.user.firstName || design.order.user.email,
-    customerEmail: design.order.user.email,
-    orderNumber: design.order.orderNumber,
-    designImageUrl: design.imageUrl,
-    orderUrl: `${frontendUrl}/orders/${design.orderId}`,
-  }).catch((error: unknown) => {
-    console.error('Failed to send design approved email:', error);
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const send = (event: string, payload: unknown): void => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+  };
+
+  send('snapshot', {
+    orderId,
+    orderStatus: order.status,
+    designsGenerated: order.designsGenerated,
+    maxDesigns: order.maxDesigns,
+    designs,
+    at: new Date().toISOString(),
   });
 
-  // Submit order to Printful for fulfillment (non-blocking)
-  // This runs in the background to not block the user response
-  createPrintfulOrder(design.orderId!, id)
-    .then((result: { success: boolean; printfulOrderId?: number; error?: string }) => {
-      if (result.success) {
-        console.log(`✓ Order ${design.orderId} submitted to Printful: ${result.printfulOrderId}`);
-      } else {
-        console.error(`❌ Failed to submit order ${design.orderId} to Printful:`, result.error);
-        // NOTE: In production, you'd want to send an alert/notification here
-        // or add the order to a retry queue
-      }
-    })
-    .catch((error: unknown) => {
-      console.error('Unexpected error submitting to Printful:', error);
-    });
+  const unsubscribe = subscribeToOrderEvents(orderId, (event: DesignStreamEvent) => {
+    send(event.type, event);
+  });
+
+  const heartbeat = setInterval(() => {
+    res.write(': keep-alive\n\n');
+  }, STREAM_HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+/**
+ * @route GET /api/designs/styles
+ * @description Lists the style presets customers can pick right now (active and in season), in display order
+ * @access Public
+ *
+ * @param {Request} _req - Express request (unused)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Array of presets (key, label, description, previewImageUrl, sortOrder)
+ */
+export const getDesignStyles = catchAsync(async (_req: Request, res: Response) => {
+  const styles = await listAvailableStylePresets();
 
   res.json({
     success: true,
-    message: 'Design approved successfully! Your order is being submitted for printing.',
+    data: styles,
+  });
+});
+
+/**
+ * @route GET /api/designs/text-fonts
+ * @description Lists the bundled fonts customers can use in text layers
+ * @access Public
+ *
+ * @param {Request} _req - Express request (unused)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Array of fonts (key, label, family, weight)
+ */
+export const getTextFonts = catchAsync(async (_req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: listTextFonts(),
   });
 });
 
 /**
  * @route GET /api/designs/random-prompt
- * @description Generates random prompt for "Surprise Me" feature
+ * @description Draws a "Surprise Me" prompt from the requested prompt pack, or a weighted draw over
+ * the packs available now, skipping prompts this visitor was shown in the last day
+ * @access Public
+ *
+ * @param {Request} req - Express request (query.pack optional pack key; query.visitor optional
+ * client visitor ID, falls back to the IP)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Prompt text, the pack it came from and the pack's suggested style
+ * @throws {404} Pack unknown, inactive or out of season
+ * @throws {503} No prompt pack available
+ */
+export const getRandomPrompt = catchAsync(async (req: Request, res: Response) => {
+  const result = await drawRandomPrompt({
+    packKey: req.query.pack,
+    visitorKey: getPromptVisitorKey(req.query.visitor, req.ip),
+  });
+
+  res.json({
+    success: true,
+    data: result,
+  });
+});
+
+/**
+ * @route GET /api/designs/prompt-packs
+ * @description Lists the "Surprise Me" prompt packs customers can pick right now (active and in
+ * season), in display order
  * @access Public
  *
  * @param {Request} _req - Express request (unused)
  * @param {Response} res - Express response
  *
- * @returns {Object} Random prompt text
+ * @returns {Object} Array of packs (key, name, description, suggestedStyle, sortOrder)
  */
-export const getRandomPrompt = catchAsync(async (_req: Request, res: Response) => {
-  const prompt = generateRandomPrompt();
+export const getPromptPacks = catchAsync(async (_req: Request, res: Response) => {
+  const packs = await listAvailablePromptPacks();
 
   res.json({
     success: true,
-    data: { prompt },
+    data: packs,
   });
 });
@@ -13,13 +13,26 @@ import {
   getPrintfulVariantId,
   mapOrderStatusFromPrintful,
 } from '../services/printful.service.js';
-import { getTierPricingMap } from '../services/pricing.service.js';
+import { getPlacementPricingMap, getTierPricingMap } from '../services/pricing.service.js';
+import { resolveItemPlacement } from '../services/print-placement.service.js';
+import { claimGuestPromptEntries } from '../services/prompt-library.service.js';
+import {
+  getItemPlacementTotal,
+  getOrderPlacementApproval,
+  getPlacementLabel,
+  parseExtraPlacements,
+} from '../services/extra-placement.service.js';
+import type { ExtraPrintPlacement, OrderItemPlacementRecord } from '../types/print-placement.js';
+import { getPrintPlacement, supportsExtraPlacements } from '../config/print-areas.js';
 import { TierType } from '../config/pricing.js';
 import { sendAnalyticsEvent } from '../services/analytics.service.js';
+import type { PrismaClient } from '@prisma/client';
 import { OrderStatus } from '@prisma/client';
 import crypto from 'crypto';
 import { getOrderActionErrorMessage, isOrderActionAllowed } from '../policies/order-policy.js';
 
+type TransactionClient = PrismaClient;
+
 /**
  * @route GET /api/orders
  * @description Retrieves all orders for authenticated user with related data
@@ -46,9 +59,10 @@ export const getUserOrders = catchAsync(async (req: Request, res: Response) => {
       items: {
         include: {
           product: true,
+          placements: true,
         },
       },
-      designs: true,
+      designs: { where: { deletedAt: null } },
       payment: true,
       address: true,
       promoCode: true,
@@ -461,6 +475,9 @@ export const claimPreviewOrder = catchAsync(async (req: Request, res: Response)
     },
   });
 
+  // Prompts from the guest preview join the account's prompt library
+  await claimGuestPromptEntries(orderId, req.user.id);
+
   // Clean up guest user if unused
   if (previousUserId !== req.user.id) {
     const remainingOrders = await prisma.order.count({ where: { userId: previousUserId } });
@@ -618,6 +635,208 @@ export const updatePreviewItemVariant = catchAsync(async (req: Request, res: Res
   });
 });
 
+/**
+ * @route PUT /api/orders/:id/items/:itemId/placement
+ * @description Sets where the design prints on an apparel item: a preset, a custom box in inches
+ * within the print area, or neither to return to Printful's default placement
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (params.id, params.itemId, body: preset?, box?)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Updated order item with its product
+ * @throws {401} Authentication required
+ * @throws {404} Order or item not found
+ * @throws {403} Unauthorized access to order
+ * @throws {400} Placement locked after approval
+ * @throws {400} Product cannot be repositioned, unknown preset or box outside the print area
+ */
+export const updateItemPlacement = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required',
+    });
+    return;
+  }
+
+  const { id, itemId } = req.params;
+
+  const order = await prisma.order.findUnique({
+    where: { id },
+    include: { items: { include: { product: true } } },
+  });
+
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+
+  if (order.userId !== req.user.id) {
+    throw new AppError('Unauthorized access to this order', 403);
+  }
+
+  if (!isOrderActionAllowed('order_item_placement_update', order.status as OrderStatus)) {
+    throw new AppError(getOrderActionErrorMessage('order_item_placement_update'), 400);
+  }
+
+  const item = order.items.find((orderItem: { id: string }) => orderItem.id === itemId);
+  if (!item) {
+    throw new AppError('Order item not found', 404);
+  }
+
+  const placement = getPrintPlacement(item.product.category);
+  const fields = resolveItemPlacement(placement, {
+    preset: req.body?.preset,
+    box: req.body?.box,
+  });
+
+  const updatedItem = await prisma.orderItem.update({
+    where: { id: item.id },
+    data: fields,
+    include: { product: true },
+  });
+
+  sendAnalyticsEvent({
+    event: 'order.item.placement_updated',
+    properties: {
+      order_id: order.id,
+      order_number: order.orderNumber,
+      item_id: item.id,
+      placement,
+      preset: fields.placementPreset,
+      width_in: fields.printWidthIn,
+      is_default: fields.printWidthIn === null,
+    },
+  }).catch((err) => console.error('Failed to send order.item.placement_updated analytics', err));
+
+  res.json({
+    success: true,
+    data: updatedItem,
+  });
+});
+
+/**
+ * @route PUT /api/orders/:id/items/:itemId/placements
+ * @description Sets the extra print locations (back, left sleeve, inside label) of an apparel
+ * item. The list replaces the current one; new placements are priced from the placement pricing
+ * settings, kept placements keep their price and design, and the item and order totals move by
+ * the difference. Checkout charges the placements on top of the tier price.
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (params.id, params.itemId, body: placements[])
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Updated order item with its product and placements
+ * @throws {401} Authentication required
+ * @throws {404} Order or item not found
+ * @throws {403} Unauthorized access to order
+ * @throws {400} Placements locked after payment
+ * @throws {400} Product only prints on one placement, or unknown placement
+ */
+export const updateItemPlacements = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required',
+    });
+    return;
+  }
+
+  const { id, itemId } = req.params;
+
+  const order = await prisma.order.findUnique({
+    where: { id },
+    include: { items: { include: { product: true, placements: true } } },
+  });
+
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+
+  if (order.userId !== req.user.id) {
+    throw new AppError('Unauthorized access to this order', 403);
+  }
+
+  if (!isOrderActionAllowed('order_item_placements_update', order.status as OrderStatus)) {
+    throw new AppError(getOrderActionErrorMessage('order_item_placements_update'), 400);
+  }
+
+  const item = order.items.find((orderItem: { id: string }) => orderItem.id === itemId);
+  if (!item) {
+    throw new AppError('Order item not found', 404);
+  }
+
+  const placements = parseExtraPlacements(req.body?.placements);
+  if (placements.length && !supportsExtraPlacements(item.product.category)) {
+    throw new AppError('Only apparel can print in more than one place', 400);
+  }
+
+  const placementPrices = await getPlacementPricingMap();
+  const toCents = (dollars: unknown) => Math.round(Number(dollars) * 100);
+
+  const updatedItem = await prisma.$transaction(async (tx: TransactionClient) => {
+    // Lock the item and diff against its placements as they are now, so concurrent updates apply
+    // one after another instead of both pricing from the same starting point
+    const [locked] = (await tx.$queryRawUnsafe(
+      'SELECT "quantity" FROM "order_items" WHERE "id" = $1 FOR UPDATE',
+      item.id
+    )) as Array<{ quantity: number }>;
+    const current: OrderItemPlacementRecord[] = await tx.orderItemPlacement.findMany({
+      where: { orderItemId: item.id },
+    });
+    const existing = new Set(current.map((row) => row.placement));
+    const kept = current.filter((row) => placements.includes(row.placement as ExtraPrintPlacement));
+    const added = placements.filter((placement) => !existing.has(placement));
+    // Keep the preview price in step; checkout recomputes it from the tier and placement rows.
+    // Work in whole cents so the Decimal columns never pick up float drift.
+    const priceChangeCents =
+      toCents(getItemPlacementTotal(kept)) +
+      added.reduce((sum, placement) => sum + toCents(placementPrices[placement]), 0) -
+      toCents(getItemPlacementTotal(current));
+
+    await tx.orderItemPlacement.deleteMany({
+      where: { orderItemId: item.id, placement: { notIn: placements } },
+    });
+
+    if (added.length) {
+      await tx.orderItemPlacement.createMany({
+        data: added.map((placement) => ({
+          orderItemId: item.id,
+          placement,
+          price: placementPrices[placement],
+        })),
+      });
+    }
+
+    await tx.order.update({
+      where: { id: order.id },
+      data: { totalAmount: { increment: (priceChangeCents * locked.quantity) / 100 } },
+    });
+
+    return tx.orderItem.update({
+      where: { id: item.id },
+      data: { unitPrice: { increment: priceChangeCents / 100 } },
+      include: { product: true, placements: true },
+    });
+  });
+
+  sendAnalyticsEvent({
+    event: 'order.item.placements_updated',
+    properties: {
+      order_id: order.id,
+      order_number: order.orderNumber,
+      item_id: item.id,
+      placements,
+      placement_count: placements.length,
+    },
+  }).catch((err) => console.error('Failed to send order.item.placements_updated analytics', err));
+
+  res.json({
+    success: true,
+    data: updatedItem,
+  });
+});
+
 /**
  * @route GET /api/orders/:id
  * @description Retrieves single order with full details
@@ -649,9 +868,10 @@ export const getOrderById = catchAsync(async (req: Request, res: Response) => {
         include: {
           product: true,
           design: true,
+          placements: true,
         },
       },
-      designs: true,
+      designs: { where: { deletedAt: null } },
       payment: true,
       address: true,
       promoCode: true,
@@ -687,6 +907,7 @@ export const getOrderById = catchAsync(async (req: Request, res: Response) => {
  * @throws {400} Payment required before fulfillment
  * @throws {400} Missing shipping address
  * @throws {400} No approved design found
+ * @throws {400} A print location has no approved design
  * @throws {400} Printful submission failed
  */
 export const submitFulfillment = catchAsync(async (req: Request, res: Response) => {
@@ -745,9 +966,17 @@ export const submitFulfillment = catchAsync(async (req: Request, res: Response)
     return;
   }
 
-  const approvedDesign = order.designs[0];
+  const approval = await getOrderPlacementApproval(prisma, order.id);
+  if (approval.missing.length) {
+    throw new AppError(
+      `Approve a design for every print location first (missing: ${approval.missing
+        .map(getPlacementLabel)
+        .join(', ')})`,
+      400
+    );
+  }
 
-  const result = await createPrintfulOrder(order.id, approvedDesign.id);
+  const result = await createPrintfulOrder(order.id);
 
   if (!result.success) {
     // Persist the failure reason so the user can retry later
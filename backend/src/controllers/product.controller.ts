@@ -7,11 +7,11 @@
 import { Request, Response } from 'express';
 import { catchAsync } from '../middleware/error.middleware.js';
 import prisma from '../config/database.js';
-import { getTierPricingMap } from '../services/pricing.service.js';
+import { getPlacementPricingMap, getTierPricingMap } from '../services/pricing.service.js';
 
 /**
  * @route GET /api/products
- * @description Retrieves all active products with tier pricing
+ * @description Retrieves all active products with tier and extra placement pricing
  * @access Public
  *
  * @param {Request} _req - Express request (unused)
@@ -21,6 +21,7 @@ import { getTierPricingMap } from '../services/pricing.service.js';
  */
 export const getProducts = catchAsync(async (_req: Request, res: Response) => {
   const tierPricing = await getTierPricingMap();
+  const placementPricing = await getPlacementPricingMap();
   const products = await prisma.product.findMany({
     where: {
       isActive: true,
@@ -32,26 +33,27 @@ export const getProducts = catchAsync(async (_req: Request, res: Response) => {
 
   res.json({
     success: true,
-    data: products.map((p: any) => ({ ...p, tierPricing })),
+    data: products.map((p: any) => ({ ...p, tierPricing, placementPricing })),
     count: products.length,
   });
 });
 
 /**
  * @route GET /api/products/:id
- * @description Retrieves a single product by ID with tier pricing
+ * @description Retrieves a single product by ID with tier and extra placement pricing
  * @access Public
  *
  * @param {Request} req - Express request (params.id required)
  * @param {Response} res - Express response
  *
- * @returns {Object} Product details with tier pricing
+ * @returns {Object} Product details with tier and extra placement pricing
  * @throws {404} Product not found
  */
 export const getProductById = catchAsync(async (req: Request, res: Response) => {
   const { id } = req.params;
 
   const tierPricing = await getTierPricingMap();
+  const placementPricing = await getPlacementPricingMap();
   const product = await prisma.product.findUnique({
     where: { id },
   });
@@ -66,25 +68,26 @@ export const getProductById = catchAsync(async (req: Request, res: Response) =>
 
   res.json({
     success: true,
-    data: product ? { ...product, tierPricing } : null,
+    data: product ? { ...product, tierPricing, placementPricing } : null,
   });
 });
 
 /**
  * @route GET /api/products/slug/:slug
- * @description Retrieves a single product by slug with tier pricing
+ * @description Retrieves a single product by slug with tier and extra placement pricing
  * @access Public
  *
  * @param {Request} req - Express request (params.slug required)
  * @param {Response} res - Express response
  *
- * @returns {Object} Product details with tier pricing
+ * @returns {Object} Product details with tier and extra placement pricing
  * @throws {404} Product not found
  */
 export const getProductBySlug = catchAsync(async (req: Request, res: Response) => {
   const { slug } = req.params;
 
   const tierPricing = await getTierPricingMap();
+  const placementPricing = await getPlacementPricingMap();
   const product = await prisma.product.findUnique({
     where: { slug },
   });
@@ -99,6 +102,6 @@ export const getProductBySlug = catchAsync(async (req: Request, res: Response) =
 
   res.json({
     success: true,
-    data: product ? { ...product, tierPricing } : null,
+    data: product ? { ...product, tierPricing, placementPricing } : null,
   });
 });
@@ -0,0 +1,112 @@
+/**
+ * @module controllers/prompt
+ * @description Personal prompt library endpoints: history search, favourites and tags
+ * @since 2026-10-18
+ */
+
+import { Request, Response } from 'express';
+import { catchAsync, AppError } from '../middleware/error.middleware.js';
+import {
+  deletePromptEntry,
+  searchPromptEntries,
+  updatePromptEntry,
+} from '../services/prompt-library.service.js';
+
+/**
+ * @route GET /api/prompts
+ * @description Searches the signed-in customer's prompt history, newest first. Each entry carries
+ * its style, source, favourite flag, tags, outcome and the thumbnails of the designs it produced.
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (query: q, tag, favorites, page, pageSize)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Page of prompt entries with pagination metadata
+ * @throws {401} Authentication required
+ */
+export const searchPrompts = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  const page = Math.max(1, parseInt(String(req.query.page || '1'), 10) || 1);
+  const pageSize = Math.min(
+    50,
+    Math.max(1, parseInt(String(req.query.pageSize || '20'), 10) || 20)
+  );
+  const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  const tag = typeof req.query.tag === 'string' ? req.query.tag.trim().toLowerCase() : '';
+
+  const { items, total } = await searchPromptEntries(req.user.id, {
+    query: query || undefined,
+    tag: tag || undefined,
+    favoritesOnly: req.query.favorites === 'true',
+    page,
+    pageSize,
+  });
+
+  res.json({
+    success: true,
+    data: items,
+    meta: {
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize),
+    },
+  });
+});
+
+/**
+ * @route PATCH /api/prompts/:id
+ * @description Stars or un-stars a prompt and replaces its tags
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (params.id; body: favorite?, tags?)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Updated id, favorite and tags
+ * @throws {401} Authentication required
+ * @throws {400} Invalid favorite or tags, or nothing to update
+ * @throws {404} Prompt not found
+ */
+export const updatePrompt = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  const entry = await updatePromptEntry(req.user.id, req.params.id, {
+    favorite: req.body.favorite,
+    tags: req.body.tags,
+  });
+
+  res.json({
+    success: true,
+    data: entry,
+  });
+});
+
+/**
+ * @route DELETE /api/prompts/:id
+ * @description Removes a prompt from the library; designs it produced are kept
+ * @access Protected (requires authentication)
+ *
+ * @param {Request} req - Express request (params.id)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} Success message
+ * @throws {401} Authentication required
+ * @throws {404} Prompt not found
+ */
+export const deletePrompt = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  await deletePromptEntry(req.user.id, req.params.id);
+
+  res.json({
+    success: true,
+    message: 'Prompt removed',
+  });
+});
@@ -8,6 +8,7 @@
 import 'dotenv/config';
 import { connectDatabase } from './config/database.js';
 import { createApp } from './app.js';
+import { startGenerationWorker } from './services/generation-job.service.js';
 
 /**
  * @constant app
@@ -35,6 +36,9 @@ const startServer = async () => {
     // Connect to database
     await connectDatabase();
 
+    // Process queued design generations in-process
+    startGenerationWorker();
+
     // Start server
     app.listen(PORT, () => {
       console.log('==========================================');
@@ -107,3 +107,27 @@ export const requireAuth = async (
     }
   }
 };
+
+/**
+ * @middleware optionalAuth
+ * @description Runs requireAuth only when the request carries a bearer token (or SKIP_AUTH is on);
+ * otherwise continues anonymously so the handler can fall back to guest-token checks.
+ * An invalid token still fails with 401 rather than silently downgrading to guest access.
+ *
+ * @param {Request} req - Express request (req.user set when authenticated)
+ * @param {Response} res - Express response
+ * @param {NextFunction} next - Express next function
+ *
+ * @returns {Promise<void>}
+ */
+export const optionalAuth = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const skipAuth = (process.env.SKIP_AUTH || '').toLowerCase() === 'true';
+  if (!skipAuth && !req.headers.authorization) {
+    return next();
+  }
+  return requireAuth(req, res, next);
+};
@@ -61,11 +61,18 @@ export const errorHandler = (
     method: req.method,
   });
 
+  // Rate-limit style errors (e.g. generation quotas) tell the client when to come back
+  if (typeof err.retryAfterSeconds === 'number') {
+    res.setHeader('Retry-After', String(err.retryAfterSeconds));
+  }
+
   // Send error response
   res.status(err.statusCode).json({
     success: false,
     status: err.status,
     message: err.message,
+    ...(err.isOperational && typeof err.code === 'string' && { code: err.code }),
+    ...(typeof err.retryAfterSeconds === 'number' && { retryAfterSeconds: err.retryAfterSeconds }),
     ...(process.env.NODE_ENV === 'development' && {
       error: err,
       stack: err.stack,
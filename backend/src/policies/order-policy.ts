@@ -27,6 +27,16 @@ export const ORDER_POLICY_ACTIONS: OrderPolicyActionMap = {
     allowedStatuses: [OrderStatus.PENDING_PAYMENT, OrderStatus.DESIGN_PENDING],
     errorMessage: 'Size and color can only be changed before payment is completed',
   },
+  order_item_placement_update: {
+    action: 'order_item_placement_update',
+    allowedStatuses: [OrderStatus.PENDING_PAYMENT, OrderStatus.DESIGN_PENDING, OrderStatus.PAID],
+    errorMessage: 'Print placement can only be changed before the design is approved',
+  },
+  order_item_placements_update: {
+    action: 'order_item_placements_update',
+    allowedStatuses: [OrderStatus.PENDING_PAYMENT, OrderStatus.DESIGN_PENDING],
+    errorMessage: 'Print locations can only be changed before payment is completed',
+  },
   design_approve: {
     action: 'design_approve',
     allowedStatuses: [OrderStatus.PAID, OrderStatus.DESIGN_APPROVED],
@@ -91,6 +101,14 @@ export function getAllowedStatusesForAction(action: OrderPolicyAction): Readonly
   return getOrderPolicyActionDefinition(action).allowedStatuses;
 }
 
+// An order is fully approved once every placement it prints on has an approved design
+export function getPlacementsMissingApproval(
+  placements: ReadonlyArray<string>,
+  approvedPlacements: ReadonlyArray<string>
+): string[] {
+  return placements.filter((placement) => !approvedPlacements.includes(placement));
+}
+
 export function isOrderStatusTransitionAllowed(from: OrderStatus, to: OrderStatus): boolean {
   const allowedNext = ORDER_STATUS_TRANSITIONS[from] || [];
   return allowedNext.includes(to);
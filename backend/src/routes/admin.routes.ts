@@ -17,6 +17,22 @@ import {
   getPrintfulVariants,
   listEmailTemplates,
   previewEmailTemplate,
+  regenerateDesignPrintFiles,
+  listModerationEvents,
+  reviewModerationDesign,
+  listStyles,
+  createStyle,
+  updateStyle,
+  deleteStyle,
+  listPacks,
+  createPack,
+  updatePack,
+  deletePack,
+  getGenerationQuotas,
+  updateGenerationQuotas,
+  resetGenerationSpendBreaker,
+  getAiCosts,
+  getOrderAiCosts,
 } from '../controllers/admin.controller.js';
 import { requireAuth } from '../middleware/auth.middleware.js';
 import { requireAdmin } from '../middleware/admin.middleware.js';
@@ -217,4 +233,312 @@ router.get('/email-templates', requireAuth, requireAdmin, listEmailTemplates);
  */
 router.get('/email-templates/:name/preview', requireAuth, requireAdmin, previewEmailTemplate);
 
+/**
+ * @route POST /api/admin/print-files/regenerate
+ * @description Regenerate 300 DPI print files for existing designs
+ * @access Admin - requires admin role
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.body - Request body
+ * @param {string[]} [req.body.designIds] - Designs to regenerate (max 50); defaults to approved designs missing a print file
+ * @param {string} [req.body.placement] - Placement override ('front' | 'default')
+ * @param {number} [req.body.limit] - How many missing print files to process when designIds is omitted (default 10)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Per-design results with succeeded/failed counts
+ * @throws {400} Bad Request - When designIds or placement is invalid
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When user is not an admin
+ */
+router.post('/print-files/regenerate', requireAuth, requireAdmin, regenerateDesignPrintFiles);
+
+/**
+ * @route GET /api/admin/moderation
+ * @description List moderation events that hold (or held) a design for review
+ * @access Admin only
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.query - Query parameters
+ * @param {string} [req.query.status] - PENDING_REVIEW (default), CLEARED, REJECTED or all
+ * @param {number} [req.query.page] - Page number (default 1)
+ * @param {number} [req.query.pageSize] - Page size (default 20, max 100)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Paginated events (source, outcome, categories, categoryScores, error, design)
+ * @throws {400} Bad Request - When status is unknown
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When user is not an admin
+ */
+router.get('/moderation', requireAuth, requireAdmin, listModerationEvents);
+
+/**
+ * @route POST /api/admin/moderation/designs/:designId/review
+ * @description Clear or reject a design held for moderation review
+ * @access Admin only
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.designId - Design ID
+ * @param {Object} req.body - Request body
+ * @param {string} req.body.decision - CLEARED or REJECTED
+ * @param {string} [req.body.note] - Reason kept with the decision
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - designId, moderationStatus and eventsReviewed
+ * @throws {400} Bad Request - When decision is invalid, the design is not held, or rejecting an approved design
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When user is not an admin
+ * @throws {404} Not Found - When design doesn't exist
+ */
+router.post(
+  '/moderation/designs/:designId/review',
+  requireAuth,
+  requireAdmin,
+  reviewModerationDesign
+);
+
+/**
+ * @route GET /api/admin/styles
+ * @description List every style preset, including inactive and out-of-season ones
+ * @access Admin only
+ *
+ * @param {Request} req - Express request
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Array of style presets in display order
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When user is not an admin
+ */
+router.get('/styles', requireAuth, requireAdmin, listStyles);
+
+/**
+ * @route POST /api/admin/styles
+ * @description Create a style preset
+ * @access Admin only
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.body - Request body
+ * @param {string} req.body.key - Lowercase slug stored on designs (e.g. 'halloween')
+ * @param {string} req.body.label - Display name
+ * @param {string} req.body.promptSuffix - Text appended to the prompt
+ * @param {string} [req.body.description] - Short customer-facing description
+ * @param {string} [req.body.negativeGuidance] - What the image should avoid
+ * @param {string} [req.body.previewImageUrl] - Preview thumbnail URL
+ * @param {number} [req.body.sortOrder] - Display order (ascending)
+ * @param {boolean} [req.body.active] - Whether customers can pick it (default true)
+ * @param {string} [req.body.availableFrom] - ISO start of a seasonal window
+ * @param {string} [req.body.availableUntil] - ISO end of a seasonal window
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 201 - Created style preset
+ * @throws {400} Bad Request - When a field is missing or invalid
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When user is not an admin
+ * @throws {409} Conflict - When the key already exists
+ */
+router.post('/styles', requireAuth, requireAdmin, createStyle);
+
+/**
+ * @route PATCH /api/admin/styles/:id
+ * @description Update a style preset (any create field; omitted fields are unchanged)
+ * @access Admin only
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.id - Style preset ID
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Updated style preset
+ * @throws {400} Bad Request - When a field is invalid
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When user is not an admin
+ * @throws {404} Not Found - When the preset doesn't exist
+ * @throws {409} Conflict - When the new key already exists
+ */
+router.patch('/styles/:id', requireAuth, requireAdmin, updateStyle);
+
+/**
+ * @route DELETE /api/admin/styles/:id
+ * @description Delete a style preset (prefer PATCH active=false to retire a style)
+ * @access Admin only
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.id - Style preset ID
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Success message
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When user is not an admin
+ * @throws {404} Not Found - When the preset doesn't exist
+ */
+router.delete('/styles/:id', requireAuth, requireAdmin, deleteStyle);
+
+/**
+ * @route GET /api/admin/prompt-packs
+ * @description List every "Surprise Me" prompt pack, including inactive and out-of-season ones
+ * @access Admin only
+ *
+ * @param {Request} req - Express request
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Array of prompt packs in display order
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When user is not an admin
+ */
+router.get('/prompt-packs', requireAuth, requireAdmin, listPacks);
+
+/**
+ * @route POST /api/admin/prompt-packs
+ * @description Create a prompt pack
+ * @access Admin only
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.body - Request body
+ * @param {string} req.body.key - Lowercase slug clients send as `?pack=` (e.g. 'spooky-season')
+ * @param {string} req.body.name - Display name
+ * @param {string[]} req.body.subjects - Prompt openings (1-100)
+ * @param {string[]} req.body.themes - Prompt endings (1-100)
+ * @param {string} [req.body.description] - Short customer-facing description
+ * @param {number} [req.body.weight] - Relative draw weight when no pack is picked (0-100, default 1)
+ * @param {string} [req.body.suggestedStyle] - Style preset key to suggest with the pack's prompts
+ * @param {number} [req.body.sortOrder] - Display order (ascending)
+ * @param {boolean} [req.body.active] - Whether customers can pick it (default true)
+ * @param {string} [req.body.availableFrom] - ISO start of a seasonal window
+ * @param {string} [req.body.availableUntil] - ISO end of a seasonal window
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 201 - Created prompt pack
+ * @throws {400} Bad Request - When a field is missing or invalid
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When user is not an admin
+ * @throws {409} Conflict - When the key already exists
+ */
+router.post('/prompt-packs', requireAuth, requireAdmin, createPack);
+
+/**
+ * @route PATCH /api/admin/prompt-packs/:id
+ * @description Update a prompt pack (any create field; omitted fields are unchanged)
+ * @access Admin only
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.id - Prompt pack ID
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Updated prompt pack
+ * @throws {400} Bad Request - When a field is invalid
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When user is not an admin
+ * @throws {404} Not Found - When the pack doesn't exist
+ * @throws {409} Conflict - When the new key already exists
+ */
+router.patch('/prompt-packs/:id', requireAuth, requireAdmin, updatePack);
+
+/**
+ * @route DELETE /api/admin/prompt-packs/:id
+ * @description Delete a prompt pack (PATCH active=false keeps a seasonal pack for next year)
+ * @access Admin only
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.id - Prompt pack ID
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Success message
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When user is not an admin
+ * @throws {404} Not Found - When the pack doesn't exist
+ */
+router.delete('/prompt-packs/:id', requireAuth, requireAdmin, deletePack);
+
+/**
+ * @route GET /api/admin/generation-quotas
+ * @description Generation quota limits, last-24-hour images and estimated spend, and breaker state
+ * @access Admin only
+ *
+ * @param {Request} req - Express request
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - limits, last24Hours { images, estimatedSpendUsd }, breakerOpenUntil
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When user is not an admin
+ */
+router.get('/generation-quotas', requireAuth, requireAdmin, getGenerationQuotas);
+
+/**
+ * @route PUT /api/admin/generation-quotas
+ * @description Update generation quota limits (omitted fields are unchanged; 0 turns a limit off)
+ * @access Admin only
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.body - Request body
+ * @param {Object} [req.body.guest] - Per guest token: `images`, `windowMinutes`
+ * @param {Object} [req.body.ip] - Per client IP: `images`, `windowMinutes`
+ * @param {Object} [req.body.user] - Per signed-in user: `images`, `windowMinutes`
+ * @param {number} [req.body.globalDailyImages] - Images across all customers per 24 hours
+ * @param {number} [req.body.dailySpendCapUsd] - Estimated 24-hour spend that opens the breaker
+ * @param {number} [req.body.breakerCooldownMinutes] - How long the breaker stays open
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Effective limits
+ * @throws {400} Bad Request - When a value is invalid or nothing was provided
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When user is not an admin
+ */
+router.put('/generation-quotas', requireAuth, requireAdmin, updateGenerationQuotas);
+
+/**
+ * @route POST /api/admin/generation-quotas/breaker/reset
+ * @description Close the spend circuit breaker before its cooldown ends
+ * @access Admin only
+ *
+ * @param {Request} req - Express request
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Success message
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When user is not an admin
+ */
+router.post(
+  '/generation-quotas/breaker/reset',
+  requireAuth,
+  requireAdmin,
+  resetGenerationSpendBreaker
+);
+
+/**
+ * @route GET /api/admin/ai-costs
+ * @description Estimated AI spend report (per paid order, unpaid preview and guest session, by model, top failures and moderation rejections)
+ * @access Admin only
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.query - Query parameters
+ * @param {number} [req.query.days=30] - Window in days (1-365)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - AI cost report
+ * @throws {400} Bad Request - When days is out of range
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When user is not an admin
+ */
+router.get('/ai-costs', requireAuth, requireAdmin, getAiCosts);
+
+/**
+ * @route GET /api/admin/ai-costs/orders/:orderId
+ * @description Every AI call recorded for an order with model, latency, outcome and estimated cost
+ * @access Admin only
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.orderId - Order ID
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Order summary, costUsd and calls
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When user is not an admin
+ * @throws {404} Not Found - When the order doesn't exist
+ */
+router.get('/ai-costs/orders/:orderId', requireAuth, requireAdmin, getOrderAiCosts);
+
 export default router;
@@ -11,57 +11,152 @@ import {
   getDesignsByOrder,
   approveDesign,
   getRandomPrompt,
+  getPromptPacks,
+  getDesignStyles,
   getDesignGallery,
   cloneDesign,
   createDesignGuest,
+  streamDesignEvents,
+  selectBatchDesign,
+  createDesignEdit,
+  getDesignLineage,
+  getDesignPrintCheck,
+  getDesignMockups,
+  setDesignBackground,
+  setDesignTextLayers,
+  getTextFonts,
+  createDesignRefinement,
+  getRefinementThread,
+  confirmDesignRefinement,
+  discardDesignRefinement,
+  getMyDesigns,
+  deleteDesign,
+  getDesignCollections,
+  createDesignCollection,
+  renameDesignCollection,
+  deleteDesignCollection,
+  addDesignToDesignCollection,
+  removeDesignFromDesignCollection,
+  uploadReferenceImage,
 } from '../controllers/design.controller.js';
-import { requireAuth } from '../middleware/auth.middleware.js';
+import { optionalAuth, requireAuth } from '../middleware/auth.middleware.js';
 
 const router = Router();
 
 /**
  * @route GET /api/designs/random-prompt
- * @description Get a random creative prompt for AI design generation
+ * @description Get a random "Surprise Me" prompt from a prompt pack, avoiding prompts this visitor saw recently
  * @access Public
  *
  * @param {Request} req - Express request
+ * @param {string} [req.query.pack] - Prompt pack key (default: weighted draw over available packs)
+ * @param {string} [req.query.visitor] - Client visitor ID used for the no-repeat history (default: IP)
  * @param {Response} res - Express response
  *
- * @returns {Object} 200 - Random prompt object with text and category
- * @throws {500} Internal Server Error
+ * @returns {Object} 200 - Prompt, pack (key, name) and suggestedStyle
+ * @throws {404} Pack not available
+ * @throws {503} No prompt pack available
  */
 router.get('/random-prompt', getRandomPrompt);
 
+/**
+ * @route GET /api/designs/prompt-packs
+ * @description List "Surprise Me" prompt packs available now (active and inside their seasonal window)
+ * @access Public
+ *
+ * @param {Request} req - Express request
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Array of packs (key, name, description, suggestedStyle, sortOrder)
+ */
+router.get('/prompt-packs', getPromptPacks);
+
+/**
+ * @route GET /api/designs/styles
+ * @description List style presets available for generation (active and inside their seasonal window)
+ * @access Public
+ *
+ * @param {Request} req - Express request
+ * @param {Response} res - Express response
+ *
+ * @returns {Array<Object>} 200 - Presets in display order (key, label, description, previewImageUrl, sortOrder)
+ * @throws {500} Internal Server Error
+ */
+router.get('/styles', getDesignStyles);
+
+/**
+ * @route GET /api/designs/text-fonts
+ * @description List the bundled fonts available for text layers
+ * @access Public
+ *
+ * @param {Request} req - Express request
+ * @param {Response} res - Express response
+ *
+ * @returns {Array<Object>} 200 - Fonts (key, label, family, weight)
+ */
+router.get('/text-fonts', getTextFonts);
+
 /**
  * @route POST /api/designs/generate
- * @description Generate a new AI design based on user prompt
+ * @description Queue a new AI design based on user prompt (generation runs in the background worker)
  * @access Protected - requires authentication
  *
  * @param {Request} req - Express request
  * @param {Object} req.body - Request body
  * @param {string} req.body.prompt - Text prompt for AI design generation
  * @param {string} req.body.orderId - Order ID to associate design with
+ * @param {string} [req.body.style] - Style preset key from GET /api/designs/styles
+ * @param {string} [req.body.provider] - Image provider override ('dall-e-3' | 'gpt-image-1' | 'stub')
+ * @param {number} [req.body.variations=1] - Variations to generate as one batch (1-4)
+ * @param {string} [req.body.referenceImageId] - Reference photo from POST /api/designs/reference-images to generate from
  * @param {Response} res - Express response
  *
- * @returns {Object} 200 - Generated design object with image URL and metadata
- * @throws {400} Bad Request - When prompt or order ID is missing
+ * @returns {Object} 202 - Batch id/size and GENERATING designs; follow GET /api/designs/stream or poll GET /api/designs
+ * @throws {400} Bad Request - When prompt or order ID is missing, provider or style is unknown or variations is out of range
  * @throws {401} Unauthorized - When not authenticated
+ * @throws {429} Too Many Requests - Generation quota reached or spend breaker open (body `code`, `retryAfterSeconds`; Retry-After header)
  * @throws {500} Internal Server Error
  */
 router.post('/generate', requireAuth, createDesign);
 
+/**
+ * @route POST /api/designs/reference-images
+ * @description Upload a reference photo to generate from; stored without EXIF after passing image moderation
+ * @access Protected - Clerk bearer token, or public with the order's guest preview token
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.body - Request body
+ * @param {string} req.body.orderId - Order the photo is for
+ * @param {string} req.body.image - PNG, JPEG or WebP data URL (max 6MB, at least 256px on each side)
+ * @param {boolean} req.body.rightsConfirmed - Must be true: the customer owns the photo or has permission to use it
+ * @param {string} [req.body.guestToken] - Guest preview token (guest holders only)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 201 - Reference image (id, imageUrl, width, height, createdAt); send its id as referenceImageId when generating
+ * @throws {400} Bad Request - Missing fields, rights not confirmed, invalid or flagged image, per-order limit, policy or design limit
+ * @throws {401} Unauthorized - When neither a valid token nor guest token is provided
+ * @throws {403} Forbidden - When the order belongs to someone else or guest token is invalid
+ * @throws {404} Not Found - When the order doesn't exist
+ */
+router.post('/reference-images', optionalAuth, uploadReferenceImage);
+
 /**
  * @route POST /api/designs/generate/guest
- * @description Generate a new AI design for unauthenticated users
+ * @description Queue a new AI design for unauthenticated users (generation runs in the background worker)
  * @access Public
  *
  * @param {Request} req - Express request
  * @param {Object} req.body - Request body
  * @param {string} req.body.prompt - Text prompt for AI design generation
+ * @param {string} [req.body.style] - Style preset key from GET /api/designs/styles
+ * @param {string} [req.body.provider] - Image provider override ('dall-e-3' | 'gpt-image-1' | 'stub')
+ * @param {number} [req.body.variations=1] - Variations to generate as one batch (1-4)
+ * @param {string} [req.body.referenceImageId] - Reference photo from POST /api/designs/reference-images to generate from
  * @param {Response} res - Express response
  *
- * @returns {Object} 200 - Generated design object with image URL and guest token
- * @throws {400} Bad Request - When prompt is missing
+ * @returns {Object} 202 - Batch id/size and GENERATING designs
+ * @throws {400} Bad Request - When prompt is missing, provider or style is unknown or variations is out of range
+ * @throws {429} Too Many Requests - Generation quota reached or spend breaker open (body `code`, `retryAfterSeconds`; Retry-After header)
  * @throws {500} Internal Server Error
  */
 router.post('/generate/guest', createDesignGuest);
@@ -101,6 +196,88 @@ router.get('/gallery', getDesignGallery);
  */
 router.post('/clone', requireAuth, cloneDesign);
 
+/**
+ * @route GET /api/designs/stream
+ * @description Server-Sent Events stream of design pipeline events and order status changes
+ * @access Protected - Clerk bearer token, or public with the order's guest preview token
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.query - Query parameters
+ * @param {string} req.query.orderId - Order ID to follow
+ * @param {string} [req.query.guestToken] - Guest preview token (guest holders only)
+ * @param {Response} res - Express response
+ *
+ * @returns {EventStream} 200 - `snapshot` event, then design.* and order.status_changed events
+ * @throws {400} Bad Request - When order ID is missing
+ * @throws {401} Unauthorized - When neither a valid token nor guest token is provided
+ * @throws {403} Forbidden - When the order belongs to someone else
+ * @throws {404} Not Found - When order doesn't exist
+ */
+router.get('/stream', optionalAuth, streamDesignEvents);
+
+/**
+ * @route GET /api/designs/refinements
+ * @description Get an order's refinement thread (instructions, merged prompts and their outcome), oldest first
+ * @access Protected - Clerk bearer token, or public with the order's guest preview token
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.query - Query parameters
+ * @param {string} req.query.orderId - Order ID
+ * @param {string} [req.query.guestToken] - Guest preview token (guest holders only)
+ * @param {Response} res - Express response
+ *
+ * @returns {Array<Object>} 200 - Thread entries (instruction, mergedPrompt, finalPrompt, status, batchId)
+ * @throws {400} Bad Request - When order ID is missing
+ * @throws {401} Unauthorized - When neither a valid token nor guest token is provided
+ * @throws {403} Forbidden - When the order belongs to someone else or guest token is invalid
+ * @throws {404} Not Found - When order doesn't exist
+ */
+router.get('/refinements', optionalAuth, getRefinementThread);
+
+/**
+ * @route POST /api/designs/refinements/:refinementId/confirm
+ * @description Generate a proposed refinement (merged prompt, or the customer's edit of it) as the next version
+ * @access Protected - Clerk bearer token, or public with the order's guest preview token
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.refinementId - Refinement ID
+ * @param {Object} req.body - Request body
+ * @param {string} [req.body.prompt] - Edited prompt to generate instead of the merged one
+ * @param {number} [req.body.variations=1] - Variations to generate as one batch (1-4)
+ * @param {string} [req.body.provider] - Image provider override ('dall-e-3' | 'gpt-image-1' | 'stub')
+ * @param {string} [req.body.guestToken] - Guest preview token (guest holders only)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 202 - Confirmed refinement, batch id/size and GENERATING designs
+ * @throws {400} Bad Request - Invalid provider/variations/prompt, policy or limit violation
+ * @throws {401} Unauthorized - When neither a valid token nor guest token is provided
+ * @throws {403} Forbidden - When the order belongs to someone else or guest token is invalid
+ * @throws {404} Not Found - When refinement doesn't exist
+ * @throws {409} Conflict - When the refinement was already confirmed or discarded
+ * @throws {429} Too Many Requests - Generation quota reached or spend breaker open (body `code`, `retryAfterSeconds`; Retry-After header)
+ */
+router.post('/refinements/:refinementId/confirm', optionalAuth, confirmDesignRefinement);
+
+/**
+ * @route POST /api/designs/refinements/:refinementId/discard
+ * @description Discard a proposed refinement without generating it
+ * @access Protected - Clerk bearer token, or public with the order's guest preview token
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.refinementId - Refinement ID
+ * @param {string} [req.body.guestToken] - Guest preview token (guest holders only)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Discarded refinement
+ * @throws {400} Bad Request - When the refinement is not proposed
+ * @throws {401} Unauthorized - When neither a valid token nor guest token is provided
+ * @throws {403} Forbidden - When the order belongs to someone else or guest token is invalid
+ * @throws {404} Not Found - When refinement doesn't exist
+ */
+router.post('/refinements/:refinementId/discard', optionalAuth, discardDesignRefinement);
+
 /**
  * @route GET /api/designs
  * @description Get all designs associated with a specific order
@@ -118,6 +295,135 @@ router.post('/clone', requireAuth, cloneDesign);
  */
 router.get('/', requireAuth, getDesignsByOrder);
 
+/**
+ * @route GET /api/designs/mine
+ * @description List the current user's designs across all orders (account design library)
+ * @access Protected - requires authentication
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.query - Query parameters
+ * @param {string} [req.query.q] - Text to match in the prompt
+ * @param {string} [req.query.status] - GENERATING, COMPLETED, FAILED or APPROVED
+ * @param {string} [req.query.approved] - "true" or "false"
+ * @param {string} [req.query.style] - Style preset key
+ * @param {string} [req.query.from] - Created on or after (ISO date)
+ * @param {string} [req.query.to] - Created on or before (ISO date)
+ * @param {string} [req.query.color] - Product colour on the design's order
+ * @param {string} [req.query.collectionId] - Only designs in this collection
+ * @param {string} [req.query.cursor] - meta.nextCursor from the previous page
+ * @param {number} [req.query.limit=24] - Page size (max 60)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Designs newest first and meta.nextCursor (null on the last page)
+ * @throws {400} Bad Request - When a filter is invalid
+ * @throws {401} Unauthorized - When not authenticated
+ */
+router.get('/mine', requireAuth, getMyDesigns);
+
+/**
+ * @route GET /api/designs/collections
+ * @description List the current user's design collections
+ * @access Protected - requires authentication
+ *
+ * @param {Request} req - Express request
+ * @param {Response} res - Express response
+ *
+ * @returns {Array<Object>} 200 - Collections with designCount and coverUrl
+ * @throws {401} Unauthorized - When not authenticated
+ */
+router.get('/collections', requireAuth, getDesignCollections);
+
+/**
+ * @route POST /api/designs/collections
+ * @description Create a design collection
+ * @access Protected - requires authentication
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.body - Request body
+ * @param {string} req.body.name - Collection name (max 60 characters)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 201 - New collection
+ * @throws {400} Bad Request - When the name is missing or too long, or at the 50 collection limit
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {409} Conflict - When the user already has a collection with that name
+ */
+router.post('/collections', requireAuth, createDesignCollection);
+
+/**
+ * @route PATCH /api/designs/collections/:collectionId
+ * @description Rename a design collection
+ * @access Protected - requires authentication
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.collectionId - Collection ID
+ * @param {Object} req.body - Request body
+ * @param {string} req.body.name - New name
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Collection id and name
+ * @throws {400} Bad Request - When the name is missing or too long
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {404} Not Found - When the collection doesn't exist or belongs to someone else
+ * @throws {409} Conflict - When the name is already used
+ */
+router.patch('/collections/:collectionId', requireAuth, renameDesignCollection);
+
+/**
+ * @route DELETE /api/designs/collections/:collectionId
+ * @description Delete a design collection (designs are kept)
+ * @access Protected - requires authentication
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.collectionId - Collection ID
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Success message
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {404} Not Found - When the collection doesn't exist or belongs to someone else
+ */
+router.delete('/collections/:collectionId', requireAuth, deleteDesignCollection);
+
+/**
+ * @route PUT /api/designs/collections/:collectionId/designs/:id
+ * @description Add a design to a collection
+ * @access Protected - requires authentication
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.collectionId - Collection ID
+ * @param {string} req.params.id - Design ID
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Success message
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {404} Not Found - When the collection or design doesn't exist or belongs to someone else
+ */
+router.put('/collections/:collectionId/designs/:id', requireAuth, addDesignToDesignCollection);
+
+/**
+ * @route DELETE /api/designs/collections/:collectionId/designs/:id
+ * @description Remove a design from a collection
+ * @access Protected - requires authentication
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.collectionId - Collection ID
+ * @param {string} req.params.id - Design ID
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Success message
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {404} Not Found - When the collection doesn't exist or belongs to someone else
+ */
+router.delete(
+  '/collections/:collectionId/designs/:id',
+  requireAuth,
+  removeDesignFromDesignCollection
+);
+
 /**
  * @route GET /api/designs/:id
  * @description Get detailed information for a specific design
@@ -136,6 +442,81 @@ router.get('/', requireAuth, getDesignsByOrder);
  */
 router.get('/:id', requireAuth, getDesign);
 
+/**
+ * @route DELETE /api/designs/:id
+ * @description Delete a design from the user's view (soft delete)
+ * @access Protected - requires authentication
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.id - Design ID
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Success message
+ * @throws {400} Bad Request - When the design is approved
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {404} Not Found - When the design doesn't exist or belongs to someone else
+ */
+router.delete('/:id', requireAuth, deleteDesign);
+
+/**
+ * @route GET /api/designs/:id/lineage
+ * @description Get a design's version history: ancestors and the version tree of its order
+ * @access Protected - requires authentication
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.id - Design ID
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - designId, orderId, ancestors (oldest first) and nested tree of the order's designs
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When design doesn't belong to user
+ * @throws {404} Not Found - When design doesn't exist
+ */
+router.get('/:id/lineage', requireAuth, getDesignLineage);
+
+/**
+ * @route GET /api/designs/:id/print-check
+ * @description Check how a design will print on a shirt colour and return scored warnings
+ * @access Protected - requires authentication
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.id - Design ID
+ * @param {Object} req.query - Query parameters
+ * @param {string} [req.query.color] - Shirt colour name (defaults to the order's first item)
+ * @param {string} [req.query.placement] - Print placement (defaults to the product's placement)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - score, ready, warnings (code, severity, message, penalty), color, placement, effectiveDpi
+ * @throws {400} Bad Request - When the design is not finished or the colour or placement is unknown
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When design doesn't belong to user
+ * @throws {404} Not Found - When design doesn't exist
+ */
+router.get('/:id/print-check', requireAuth, getDesignPrintCheck);
+
+/**
+ * @route GET /api/designs/:id/mockups
+ * @description Product mockups of a design on each shirt colour, rendered on first request and cached
+ * @access Protected - requires authentication
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.id - Design ID
+ * @param {Object} req.query - Query parameters
+ * @param {string} [req.query.color] - Only return the mockup for this shirt colour
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - designId, placement and mockups (color, hex, imageUrl)
+ * @throws {400} Bad Request - When the design is not finished, the colour is unknown or the placement has no mockups
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When design doesn't belong to user
+ * @throws {404} Not Found - When design doesn't exist
+ */
+router.get('/:id/mockups', requireAuth, getDesignMockups);
+
 /**
  * @route POST /api/designs/:id/approve
  * @description Approve a design for production and fulfillment
@@ -155,4 +536,107 @@ router.get('/:id', requireAuth, getDesign);
  */
 router.post('/:id/approve', requireAuth, approveDesign);
 
+/**
+ * @route POST /api/designs/:id/select
+ * @description Keep one variation from a generation batch as the favorite
+ * @access Protected - requires authentication
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.id - Design ID of the variation to keep
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Batch summary with selectedDesignId
+ * @throws {400} Bad Request - When design is not in a batch, not finished, or a sibling is approved
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When design doesn't belong to user
+ * @throws {404} Not Found - When design doesn't exist
+ */
+router.post('/:id/select', requireAuth, selectBatchDesign);
+
+/**
+ * @route PATCH /api/designs/:id/background
+ * @description Keep or drop the generated background on the printed file (before approval)
+ * @access Protected - requires authentication
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.id - Design ID
+ * @param {Object} req.body - Request body
+ * @param {boolean} req.body.keepBackground - True to print the image as generated, false to print the transparent version
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Updated design
+ * @throws {400} Bad Request - When keepBackground is not a boolean, the design is approved, or no transparent version exists
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When design doesn't belong to user
+ * @throws {404} Not Found - When design doesn't exist
+ */
+router.patch('/:id/background', requireAuth, setDesignBackground);
+
+/**
+ * @route PUT /api/designs/:id/text-layers
+ * @description Replace the design's text layers and re-render its display image (before approval)
+ * @access Protected - requires authentication
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.id - Design ID
+ * @param {Object} req.body - Request body
+ * @param {Array<Object>} req.body.layers - Up to 4 blocks: text, font, color (#rrggbb), size (% of art width), shape (straight/arc), arc (degrees), position (above/below/overlay), y (% of art height, overlay only); empty removes all text
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Updated design with textLayers and textImageUrl
+ * @throws {400} Bad Request - When a layer is invalid, the design isn't finished, or it is approved
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When design doesn't belong to user
+ * @throws {404} Not Found - When design doesn't exist
+ */
+router.put('/:id/text-layers', requireAuth, setDesignTextLayers);
+
+/**
+ * @route POST /api/designs/:id/edit
+ * @description Repaint the masked area of a finished design; the result is a new design linked to its parent
+ * @access Protected - Clerk bearer token, or public with the order's guest preview token
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.id - Design ID to edit
+ * @param {Object} req.body - Request body
+ * @param {string} req.body.instruction - What to change inside the masked area
+ * @param {string} req.body.mask - PNG data URL, transparent where the image should change
+ * @param {string} [req.body.provider] - Edit-capable provider override ('gpt-image-1' | 'stub')
+ * @param {string} [req.body.guestToken] - Guest preview token (guest holders only)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 202 - GENERATING edited design; follow GET /api/designs/stream or poll GET /api/designs
+ * @throws {400} Bad Request - Missing instruction/mask, invalid mask, design not finished, policy or limit violation
+ * @throws {401} Unauthorized - When neither a valid token nor guest token is provided
+ * @throws {403} Forbidden - When the design belongs to someone else or guest token is invalid
+ * @throws {404} Not Found - When design doesn't exist
+ * @throws {429} Too Many Requests - Generation quota reached or spend breaker open (body `code`, `retryAfterSeconds`; Retry-After header)
+ */
+router.post('/:id/edit', optionalAuth, createDesignEdit);
+
+/**
+ * @route POST /api/designs/:id/refine
+ * @description Propose the next version of a finished design from a short instruction; an LLM merges it into the full prompt for the customer to confirm
+ * @access Protected - Clerk bearer token, or public with the order's guest preview token
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.id - Design ID to refine
+ * @param {Object} req.body - Request body
+ * @param {string} req.body.instruction - Change to apply, e.g. "make the dragon blue" (max 300 characters)
+ * @param {string} [req.body.guestToken] - Guest preview token (guest holders only)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 201 - PROPOSED refinement with mergedPrompt; confirm with POST /api/designs/refinements/:refinementId/confirm
+ * @throws {400} Bad Request - Missing/overlong instruction, design not finished or rejected, policy or limit violation
+ * @throws {401} Unauthorized - When neither a valid token nor guest token is provided
+ * @throws {403} Forbidden - When the design belongs to someone else or guest token is invalid
+ * @throws {404} Not Found - When design doesn't exist
+ */
+router.post('/:id/refine', optionalAuth, createDesignRefinement);
+
 export default router;
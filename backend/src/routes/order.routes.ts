@@ -14,6 +14,8 @@ import {
   createGuestPreviewOrder,
   claimPreviewOrder,
   updatePreviewItemVariant,
+  updateItemPlacement,
+  updateItemPlacements,
 } from '../controllers/order.controller.js';
 import { requireAuth } from '../middleware/auth.middleware.js';
 
@@ -110,6 +112,51 @@ router.post('/preview/claim', requireAuth, claimPreviewOrder);
  */
 router.patch('/:id/item', requireAuth, updatePreviewItemVariant);
 
+/**
+ * @route PUT /api/orders/:id/items/:itemId/placement
+ * @description Set where the design prints on an apparel item (preset or custom box), or reset it to Printful's default
+ * @access Protected - requires authentication
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.id - Order ID
+ * @param {string} req.params.itemId - Order item ID
+ * @param {Object} req.body - Request body
+ * @param {string} [req.body.preset] - full-front, centered-small or left-chest
+ * @param {Object} [req.body.box] - Custom box in inches within the print area: left, top, width
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Updated order item
+ * @throws {400} Bad Request - When the order is past approval, the product is not apparel, or the box is invalid
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When order doesn't belong to user
+ * @throws {404} Not Found - When the order or item doesn't exist
+ * @throws {500} Internal Server Error
+ */
+router.put('/:id/items/:itemId/placement', requireAuth, updateItemPlacement);
+
+/**
+ * @route PUT /api/orders/:id/items/:itemId/placements
+ * @description Set the extra print locations of an apparel item; each one is charged on top of the tier price and needs its own approved design
+ * @access Protected - requires authentication
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.id - Order ID
+ * @param {string} req.params.itemId - Order item ID
+ * @param {Object} req.body - Request body
+ * @param {string[]} req.body.placements - Any of back, sleeve_left, label_inside (empty for front only)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Updated order item with its placements
+ * @throws {400} Bad Request - When the order is paid, the product is not apparel, or a placement is unknown
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {403} Forbidden - When order doesn't belong to user
+ * @throws {404} Not Found - When the order or item doesn't exist
+ * @throws {500} Internal Server Error
+ */
+router.put('/:id/items/:itemId/placements', requireAuth, updateItemPlacements);
+
 /**
  * @route GET /api/orders/:id
  * @description Get detailed information for a specific order
@@ -139,7 +186,7 @@ router.get('/:id', requireAuth, getOrderById);
  * @param {Response} res - Express response
  *
  * @returns {Object} 200 - Printful order submission result
- * @throws {400} Bad Request - When design is not approved or order invalid
+ * @throws {400} Bad Request - When a print location has no approved design or order invalid
  * @throws {401} Unauthorized - When not authenticated
  * @throws {403} Forbidden - When order doesn't belong to user
  * @throws {404} Not Found - When order doesn't exist
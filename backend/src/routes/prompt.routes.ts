@@ -0,0 +1,68 @@
+/**
+ * @module routes/prompt
+ * @description Personal prompt library routes
+ * @since 2026-10-18
+ */
+
+import { Router } from 'express';
+import { deletePrompt, searchPrompts, updatePrompt } from '../controllers/prompt.controller.js';
+import { requireAuth } from '../middleware/auth.middleware.js';
+
+const router = Router();
+
+/**
+ * @route GET /api/prompts
+ * @description Search the current user's prompt history (including prompts from claimed guest previews)
+ * @access Protected - requires authentication
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.query - Query parameters
+ * @param {string} [req.query.q] - Text to match in the prompt
+ * @param {string} [req.query.tag] - Only prompts with this tag
+ * @param {string} [req.query.favorites] - "true" for favourites only
+ * @param {number} [req.query.page=1] - Page number
+ * @param {number} [req.query.pageSize=20] - Entries per page (max 50)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Entries (prompt, style, source, favorite, tags, outcome, thumbnails) and pagination meta
+ * @throws {401} Unauthorized - When not authenticated
+ */
+router.get('/', requireAuth, searchPrompts);
+
+/**
+ * @route PATCH /api/prompts/:id
+ * @description Favourite or tag a prompt
+ * @access Protected - requires authentication
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.id - Prompt entry ID
+ * @param {Object} req.body - Request body
+ * @param {boolean} [req.body.favorite] - Favourite flag
+ * @param {string[]} [req.body.tags] - Replacement tags (max 8, 24 characters each)
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Updated id, favorite and tags
+ * @throws {400} Bad Request - When favorite or tags are invalid
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {404} Not Found - When the prompt doesn't exist or belongs to someone else
+ */
+router.patch('/:id', requireAuth, updatePrompt);
+
+/**
+ * @route DELETE /api/prompts/:id
+ * @description Remove a prompt from the library
+ * @access Protected - requires authentication
+ *
+ * @param {Request} req - Express request
+ * @param {Object} req.params - URL parameters
+ * @param {string} req.params.id - Prompt entry ID
+ * @param {Response} res - Express response
+ *
+ * @returns {Object} 200 - Success message
+ * @throws {401} Unauthorized - When not authenticated
+ * @throws {404} Not Found - When the prompt doesn't exist or belongs to someone else
+ */
+router.delete('/:id', requireAuth, deletePrompt);
+
+export default router;
@@ -0,0 +1,270 @@
+/**
+ * @module services/ai-usage
+ * @description AI call telemetry. Every provider call (prompt and image moderation, image
+ * generation and edits, prompt rewrites) is written to `ai_usage_events` with model, size,
+ * quality, latency, outcome and estimated cost, linked to its design, order, user and guest
+ * preview session, and forwarded as an `ai.call` analytics event. The admin cost report reads
+ * the same table.
+ * @since 2026-10-18
+ */
+
+import prisma from '../config/database.js';
+import { CHAT_PRICES_USD_PER_MILLION_TOKENS, IMAGE_PRICES_USD } from '../config/ai-costs.js';
+import { sendAnalyticsEvent } from './analytics.service.js';
+import type { AiCallKind, AiCallRecord, AiCostReport, AiCostSegment } from '../types/ai-usage.js';
+import type { ImageSize } from '../types/image-provider.js';
+
+/**
+ * Longest error message kept on a usage record
+ */
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Rows returned in each "top" list of the cost report
+ */
+const TOP_LIST_SIZE = 10;
+
+/**
+ * @function estimateAiCallCost
+ * @description Estimated USD cost of one call. Images are priced per image by model, quality and
+ * size; chat rewrites by token usage; moderation is free. Failed calls are not billed. Unknown
+ * models and the stub cost 0.
+ *
+ * @param {AiCallRecord} call - Call to price
+ *
+ * @returns {number} Estimated cost in USD
+ */
+export function estimateAiCallCost(call: AiCallRecord): number {
+  if (call.outcome === 'ERROR') return 0;
+
+  if (call.kind === 'IMAGE_GENERATION' || call.kind === 'IMAGE_EDIT') {
+    const prices = IMAGE_PRICES_USD[call.model]?.[call.quality ?? ''];
+    return prices?.[call.size as ImageSize] ?? 0;
+  }
+
+  if (call.kind === 'PROMPT_REWRITE') {
+    const prices = CHAT_PRICES_USD_PER_MILLION_TOKENS[call.model];
+    if (!prices) return 0;
+    return (
+      ((call.inputTokens ?? 0) * prices.input + (call.outputTokens ?? 0) * prices.output) /
+      1_000_000
+    );
+  }
+
+  return 0;
+}
+
+/**
+ * @function recordAiCall
+ * @description Writes one provider call to the usage log and forwards it to analytics. Logging
+ * failures are reported but never fail the call being measured.
+ *
+ * @param {AiCallRecord} call - Call to record
+ *
+ * @returns {Promise<void>}
+ *
+ * @async
+ */
+export async function recordAiCall(call: AiCallRecord): Promise<void> {
+  const estimatedCost = estimateAiCallCost(call);
+  const context = call.context ?? {};
+  const error = call.error?.slice(0, MAX_ERROR_LENGTH) ?? null;
+
+  try {
+    await prisma.aiUsageEvent.create({
+      data: {
+        kind: call.kind,
+        provider: call.provider,
+        model: call.model,
+        size: call.size ?? null,
+        quality: call.quality ?? null,
+        latencyMs: Math.round(call.latencyMs),
+        outcome: call.outcome,
+        error,
+        inputTokens: call.inputTokens ?? null,
+        outputTokens: call.outputTokens ?? null,
+        estimatedCost,
+        designId: context.designId ?? null,
+        orderId: context.orderId ?? null,
+        userId: context.userId ?? null,
+        guestSession: context.guestSession ?? null,
+      },
+    });
+  } catch (err) {
+    console.error(`Failed to record ${call.kind} AI usage:`, err);
+  }
+
+  sendAnalyticsEvent({
+    event: 'ai.call',
+    properties: {
+      kind: call.kind,
+      provider: call.provider,
+      model: call.model,
+      size: call.size ?? null,
+      quality: call.quality ?? null,
+      latency_ms: Math.round(call.latencyMs),
+      outcome: call.outcome,
+      estimated_cost: estimatedCost,
+      design_id: context.designId ?? null,
+      order_id: context.orderId ?? null,
+      user_id: context.userId ?? null,
+      is_guest: Boolean(context.guestSession),
+    },
+  }).catch((err) => console.error('Failed to send ai.call analytics', err));
+}
+
+/**
+ * @function toSegment
+ * @description Builds a report segment from a count and total cost
+ *
+ * @param {number} count - Orders or sessions
+ * @param {number} costUsd - Total estimated cost
+ *
+ * @returns {AiCostSegment} Segment with average
+ */
+function toSegment(count: number, costUsd: number): AiCostSegment {
+  return { count, costUsd, averageUsd: count ? costUsd / count : 0 };
+}
+
+/**
+ * @function getAiCostReport
+ * @description AI cost since a point in time: totals, cost per paid order, per unpaid preview
+ * order and per guest preview session, cost and latency by call kind and model, and the most
+ * common call failures and moderation rejection categories
+ *
+ * @param {Date} since - Start of the window
+ *
+ * @returns {Promise<AiCostReport>} Cost report
+ *
+ * @async
+ */
+export async function getAiCostReport(since: Date): Promise<AiCostReport> {
+  const where = { createdAt: { gte: since } };
+
+  const [totals, errors, orderSegments, guestSessions, byModel, modelErrors, failures, rejections] =
+    await Promise.all([
+      prisma.aiUsageEvent.aggregate({
+        where,
+        _count: { _all: true },
+        _sum: { estimatedCost: true },
+      }),
+      prisma.aiUsageEvent.count({ where: { ...where, outcome: 'ERROR' } }),
+      prisma.$queryRawUnsafe(
+        `SELECT (o."paidAt" IS NOT NULL) AS paid,
+            COUNT(DISTINCT e."orderId")::int AS orders,
+            COALESCE(SUM(e."estimatedCost"), 0)::float AS cost
+          FROM "ai_usage_events" e
+          JOIN "orders" o ON o."id" = e."orderId"
+          WHERE e."createdAt" >= $1
+          GROUP BY 1`,
+        since
+      ) as Promise<Array<{ paid: boolean; orders: number; cost: number }>>,
+      prisma.$queryRawUnsafe(
+        `SELECT COUNT(DISTINCT "guestSession")::int AS sessions,
+            COALESCE(SUM("estimatedCost"), 0)::float AS cost
+          FROM "ai_usage_events"
+          WHERE "guestSession" IS NOT NULL AND "createdAt" >= $1`,
+        since
+      ) as Promise<Array<{ sessions: number; cost: number }>>,
+      prisma.aiUsageEvent.groupBy({
+        by: ['kind', 'model'],
+        where,
+        _count: { _all: true },
+        _sum: { estimatedCost: true },
+        _avg: { latencyMs: true },
+      }),
+      prisma.aiUsageEvent.groupBy({
+        by: ['kind', 'model'],
+        where: { ...where, outcome: 'ERROR' },
+        _count: { _all: true },
+      }),
+      prisma.aiUsageEvent.groupBy({
+        by: ['kind', 'error'],
+        where: { ...where, outcome: 'ERROR' },
+        _count: { _all: true },
+        orderBy: { _count: { id: 'desc' } },
+        take: TOP_LIST_SIZE,
+      }),
+      prisma.$queryRawUnsafe(
+        `SELECT category, COUNT(*)::int AS count
+          FROM "moderation_events", unnest("categories") AS category
+          WHERE "outcome" = 'FLAGGED' AND "createdAt" >= $1
+          GROUP BY 1
+          ORDER BY 2 DESC
+          LIMIT ${TOP_LIST_SIZE}`,
+        since
+      ) as Promise<Array<{ category: string; count: number }>>,
+    ]);
+
+  const paid = orderSegments.find((row) => row.paid);
+  const unpaid = orderSegments.find((row) => !row.paid);
+  const guests = guestSessions[0];
+  const errorCounts = new Map<string, number>(
+    modelErrors.map((row: { kind: string; model: string; _count: { _all: number } }) => [
+      `${row.kind}:${row.model}`,
+      row._count._all,
+    ])
+  );
+
+  return {
+    since: since.toISOString(),
+    totals: {
+      calls: totals._count._all,
+      costUsd: Number(totals._sum.estimatedCost ?? 0),
+      errors,
+    },
+    paidOrders: toSegment(paid?.orders ?? 0, paid?.cost ?? 0),
+    unpaidPreviews: toSegment(unpaid?.orders ?? 0, unpaid?.cost ?? 0),
+    guestSessions: toSegment(guests?.sessions ?? 0, guests?.cost ?? 0),
+    byModel: byModel
+      .map(
+        (row: {
+          kind: AiCallKind;
+          model: string;
+          _count: { _all: number };
+          _sum: { estimatedCost: unknown };
+          _avg: { latencyMs: number | null };
+        }) => ({
+          kind: row.kind,
+          model: row.model,
+          calls: row._count._all,
+          costUsd: Number(row._sum.estimatedCost ?? 0),
+          averageLatencyMs: Math.round(row._avg.latencyMs ?? 0),
+          errors: errorCounts.get(`${row.kind}:${row.model}`) ?? 0,
+        })
+      )
+      .sort((a: { costUsd: number }, b: { costUsd: number }) => b.costUsd - a.costUsd),
+    topFailures: failures.map(
+      (row: { kind: AiCallKind; error: string | null; _count: { _all: number } }) => ({
+        kind: row.kind,
+        error: row.error || 'Unknown error',
+        count: row._count._all,
+      })
+    ),
+    topModerationRejections: rejections,
+  };
+}
+
+/**
+ * @function getOrderAiUsage
+ * @description Every AI call recorded for an order, newest first, with the total estimated cost
+ *
+ * @param {string} orderId - Order ID
+ *
+ * @returns {Promise<{costUsd: number, calls: unknown[]}>} Total and call list
+ *
+ * @async
+ */
+export async function getOrderAiUsage(
+  orderId: string
+): Promise<{ costUsd: number; calls: unknown[] }> {
+  const calls = await prisma.aiUsageEvent.findMany({
+    where: { orderId },
+    orderBy: { createdAt: 'desc' },
+  });
+  const costUsd = calls.reduce(
+    (sum: number, call: { estimatedCost: unknown }) => sum + Number(call.estimatedCost),
+    0
+  );
+  return { costUsd, calls };
+}
@@ -0,0 +1,213 @@
+/**
+ * @module services/asset-storage
+ * @description Design asset upload and optimization. Handles image downloading from OpenAI, optimization with Sharp, thumbnail generation, and upload through the configured storage driver (Supabase, S3 or the local filesystem; see `services/storage-driver`).
+ * @since 2025-11-24
+ */
+
+import sharp from 'sharp';
+import http from 'http';
+import https from 'https';
+import { removeBackground } from './background-removal.service.js';
+import { createImageDerivatives } from './image-derivative.service.js';
+import { getStorageDriver } from './storage-driver.service.js';
+import type { DesignImageDerivatives } from '../types/design-image.js';
+import type { StoredDesignImage } from '../types/design-storage.js';
+
+/**
+ * @function downloadImage
+ * @description Downloads image from remote URL over HTTP(S). Used to fetch AI-generated images from OpenAI and stored assets. Base64 `data:` URLs (edit masks, and designs generated before providers handed back bytes) are decoded in place, and files written by the local storage driver are read from disk.
+ *
+ * @param {string} url - Image URL to download
+ *
+ * @returns {Promise<Buffer>} Downloaded image as buffer
+ *
+ * @throws {Error} When download fails or connection error occurs
+ *
+ * @async
+ */
+export async function downloadImage(url: string): Promise<Buffer> {
+  if (url.startsWith('data:')) {
+    return Buffer.from(url.slice(url.indexOf(',') + 1), 'base64');
+  }
+
+  const stored = await getStorageDriver().read?.(url);
+  if (stored) {
+    return stored;
+  }
+
+  const client = url.startsWith('http://') ? http : https;
+  return new Promise((resolve, reject) => {
+    client
+      .get(url, (response) => {
+        const chunks: Buffer[] = [];
+
+        response.on('data', (chunk: Buffer) => {
+          chunks.push(chunk);
+        });
+
+        response.on('end', () => {
+          resolve(Buffer.concat(chunks));
+        });
+
+        response.on('error', reject);
+      })
+      .on('error', reject);
+  });
+}
+
+/**
+ * @function uploadAsset
+ * @description Writes a buffer through the configured storage driver and returns its public URL. Existing files at the same path are overwritten.
+ *
+ * @param {string} path - Storage path (e.g., 'designId/image.png')
+ * @param {Buffer} buffer - File to upload
+ * @param {string} contentType - MIME type (e.g., 'image/png')
+ *
+ * @returns {Promise<string>} Public URL to uploaded file
+ *
+ * @throws {Error} When the storage settings are invalid or the upload fails
+ *
+ * @async
+ */
+export async function uploadAsset(
+  path: string,
+  buffer: Buffer,
+  contentType: string
+): Promise<string> {
+  return getStorageDriver().put(path, buffer, contentType);
+}
+
+/**
+ * @function uploadImage
+ * @description Downloads AI-generated design from OpenAI and uploads it with `uploadImageBuffer`
+ *
+ * @param {string} imageUrl - OpenAI image URL to download and upload
+ * @param {string} designId - Design ID for storage path organization
+ *
+ * @returns {Promise<StoredDesignImage>} Uploaded image URLs
+ *
+ * @throws {Error} When the download or an upload fails
+ *
+ * @example
+ * const urls = await uploadImage('https://openai.com/temp/image.png', 'design-123');
+ * console.log(urls.imageUrl); // 'https://storage.supabase.com/.../design-123/image-1234.png'
+ *
+ * @async
+ */
+export async function uploadImage(imageUrl: string, designId: string): Promise<StoredDesignImage> {
+  return uploadImageBuffer(await downloadImage(imageUrl), designId);
+}
+
+/**
+ * @function uploadImageBuffer
+ * @description Optimizes a generated design with Sharp, generates thumbnail, and uploads both to asset storage. Also stores a transparent print file with the solid background removed, and the responsive WebP/AVIF derivatives with a blur placeholder (see `services/image-derivative`); both steps are best-effort and never fail the upload.
+ *
+ * @param {Buffer} imageBuffer - Generated image bytes
+ * @param {string} designId - Design ID for storage path organization
+ *
+ * @returns {Promise<StoredDesignImage>} Uploaded image URLs
+ * @returns {string} imageUrl - Public URL to full-size optimized image
+ * @returns {string} thumbnailUrl - Public URL to 400x400 thumbnail
+ * @returns {string | null} transparentImageUrl - Public URL to the background-removed print file (null if no solid background was found)
+ * @returns {DesignImageVariant[]} imageVariants - Responsive derivatives (empty if they failed)
+ * @returns {string | null} placeholder - Blur placeholder data URL (null if derivatives failed)
+ *
+ * @throws {Error} When an upload fails
+ *
+ * @example
+ * const urls = await uploadImageBuffer(pngBuffer, 'design-123');
+ * console.log(urls.thumbnailUrl); // 'https://storage.supabase.com/.../design-123/thumbnail-1234.png'
+ *
+ * @async
+ */
+export async function uploadImageBuffer(
+  imageBuffer: Buffer,
+  designId: string
+): Promise<StoredDesignImage> {
+  const timestamp = Date.now();
+
+  const optimizedImage = await sharp(imageBuffer).png({ quality: 90 }).toBuffer();
+  const thumbnail = await sharp(imageBuffer)
+    .resize(400, 400, { fit: 'cover', position: 'center' })
+    .png({ quality: 80 })
+    .toBuffer();
+
+  const imagePath = `${designId}/image-${timestamp}.png`;
+  const thumbnailPath = `${designId}/thumbnail-${timestamp}.png`;
+
+  const [uploadedImageUrl, uploadedThumbnailUrl] = await Promise.all([
+    uploadAsset(imagePath, optimizedImage, 'image/png'),
+    uploadAsset(thumbnailPath, thumbnail, 'image/png'),
+  ]);
+
+  let transparentImageUrl: string | null = null;
+  try {
+    const transparent = await removeBackground(imageBuffer);
+    if (transparent) {
+      transparentImageUrl = await uploadAsset(
+        `${designId}/transparent-${timestamp}.png`,
+        transparent.buffer,
+        'image/png'
+      );
+    } else {
+      console.warn(`No solid background found for design ${designId}; printing as generated`);
+    }
+  } catch (error) {
+    console.error(`Background removal failed for design ${designId} (non-blocking):`, error);
+  }
+
+  let derivatives: DesignImageDerivatives = { imageVariants: [], placeholder: null };
+  try {
+    derivatives = await createImageDerivatives(designId, imageBuffer, timestamp);
+  } catch (error) {
+    console.error(`Image derivatives failed for design ${designId} (non-blocking):`, error);
+  }
+
+  console.log(`✅ Design ${designId} uploaded to ${getStorageDriver().name} storage`);
+
+  return {
+    imageUrl: uploadedImageUrl,
+    thumbnailUrl: uploadedThumbnailUrl,
+    transparentImageUrl,
+    ...derivatives,
+  };
+}
+
+/**
+ * @function uploadPrintFile
+ * @description Uploads a prepared high-resolution print file for a design placement
+ *
+ * @param {string} designId - Design ID for storage path organization
+ * @param {string} placement - Print placement the file was sized for
+ * @param {Buffer} buffer - PNG print file
+ *
+ * @returns {Promise<string>} Public URL to the print file
+ *
+ * @throws {Error} When the upload fails
+ *
+ * @async
+ */
+export async function uploadPrintFile(
+  designId: string,
+  placement: string,
+  buffer: Buffer
+): Promise<string> {
+  return uploadAsset(`${designId}/print-${placement}-${Date.now()}.png`, buffer, 'image/png');
+}
+
+/**
+ * @function uploadTextImage
+ * @description Uploads the display image with a design's text layers composited over the artwork.
+ *
+ * @param {string} designId - Design ID for storage path organization
+ * @param {Buffer} buffer - PNG display image
+ *
+ * @returns {Promise<string>} Public URL to the image
+ *
+ * @throws {Error} When the upload fails
+ *
+ * @async
+ */
+export async function uploadTextImage(designId: string, buffer: Buffer): Promise<string> {
+  return uploadAsset(`${designId}/text-${Date.now()}.png`, buffer, 'image/png');
+}
@@ -0,0 +1,236 @@
+/**
+ * @module services/background-removal
+ * @description Keys out the solid background AI models paint behind isolated subjects so the print file is transparent. The background colour is sampled from the image border, removed by flood fill from the edges (so same-coloured areas inside the subject survive), and a soft alpha matte with colour decontamination is applied along the cut to avoid halos on the shirt.
+ * @since 2026-10-18
+ */
+
+import sharp from 'sharp';
+import type {
+  BackgroundRemovalOptions,
+  BackgroundRemovalResult,
+  PrintSourceDesign,
+} from '../types/background-removal.js';
+
+/**
+ * RGB distance still treated as background
+ */
+const DEFAULT_TOLERANCE = Number(process.env.BACKGROUND_REMOVAL_TOLERANCE) || 40;
+
+/**
+ * Extra RGB distance over which edge pixels fade from transparent to opaque
+ */
+const DEFAULT_SOFTNESS = Number(process.env.BACKGROUND_REMOVAL_SOFTNESS) || 30;
+
+/**
+ * Share of border pixels that must match for the border to count as a solid background
+ */
+const MIN_BORDER_MATCH = 0.6;
+
+/**
+ * Above this share of removed pixels the "subject" is probably background too; keep the original
+ */
+const MAX_REMOVED_RATIO = 0.97;
+
+/**
+ * Alpha below this counts as already transparent
+ */
+const TRANSPARENT_ALPHA = 16;
+
+type Rgb = [number, number, number];
+
+/**
+ * @function getBorderPixels
+ * @description Pixel indices along the image edge
+ *
+ * @param {number} width - Image width
+ * @param {number} height - Image height
+ *
+ * @returns {number[]} Pixel indices (row-major)
+ */
+function getBorderPixels(width: number, height: number): number[] {
+  const border: number[] = [];
+  for (let x = 0; x < width; x += 1) {
+    border.push(x, (height - 1) * width + x);
+  }
+  for (let y = 1; y < height - 1; y += 1) {
+    border.push(y * width, y * width + width - 1);
+  }
+  return border;
+}
+
+/**
+ * @function getMedianColor
+ * @description Per-channel median of the given pixels; robust to a subject touching the edge
+ *
+ * @param {Buffer} data - Raw RGBA pixels
+ * @param {number[]} indices - Pixels to sample
+ *
+ * @returns {Rgb} Median colour
+ */
+function getMedianColor(data: Buffer, indices: number[]): Rgb {
+  const median = (channel: number): number => {
+    const values = indices.map((i) => data[i * 4 + channel]).sort((a, b) => a - b);
+    return values[Math.floor(values.length / 2)];
+  };
+  return [median(0), median(1), median(2)];
+}
+
+/**
+ * @function removeBackground
+ * @description Removes a solid background from a generated design. Images whose border is already transparent are returned as-is (re-encoded as PNG).
+ *
+ * @param {Buffer} input - Source image (any format sharp reads)
+ * @param {BackgroundRemovalOptions} [options] - Tolerance and matte softness (default from env)
+ *
+ * @returns {Promise<BackgroundRemovalResult | null>} Transparent PNG, or null when no solid background was found (busy scene, or nothing would be left)
+ *
+ * @example
+ * const result = await removeBackground(imageBuffer, { tolerance: 48 });
+ * if (result) await uploadBuffer(`${designId}/transparent.png`, result.buffer, 'image/png');
+ *
+ * @async
+ */
+export async function removeBackground(
+  input: Buffer,
+  options: BackgroundRemovalOptions = {}
+): Promise<BackgroundRemovalResult | null> {
+  const tolerance = Math.max(options.tolerance ?? DEFAULT_TOLERANCE, 0);
+  const softness = Math.max(options.softness ?? DEFAULT_SOFTNESS, 0);
+
+  const { data, info } = await sharp(input)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+  const pixelCount = width * height;
+  const border = getBorderPixels(width, height);
+
+  const transparentBorder = border.filter((i) => data[i * 4 + 3] < TRANSPARENT_ALPHA);
+  if (transparentBorder.length / border.length >= MIN_BORDER_MATCH) {
+    let transparentPixels = 0;
+    for (let i = 0; i < pixelCount; i += 1) {
+      if (data[i * 4 + 3] < TRANSPARENT_ALPHA) transparentPixels += 1;
+    }
+    return {
+      buffer: await sharp(input).ensureAlpha().png().toBuffer(),
+      backgroundColor: null,
+      removedRatio: transparentPixels / pixelCount,
+    };
+  }
+
+  const background = getMedianColor(data, border);
+  const distance = (i: number): number => {
+    const dr = data[i * 4] - background[0];
+    const dg = data[i * 4 + 1] - background[1];
+    const db = data[i * 4 + 2] - background[2];
+    return Math.sqrt(dr * dr + dg * dg + db * db);
+  };
+
+  const seeds = border.filter((i) => distance(i) <= tolerance);
+  if (seeds.length / border.length < MIN_BORDER_MATCH) {
+    return null;
+  }
+
+  // 0 = subject, 1 = background, 2 = matte (partially transparent edge)
+  const state = new Uint8Array(pixelCount);
+  const queue = new Int32Array(pixelCount);
+  let head = 0;
+  let tail = 0;
+
+  const visitNeighbours = (i: number, visit: (n: number) => void): void => {
+    const x = i % width;
+    if (x > 0) visit(i - 1);
+    if (x < width - 1) visit(i + 1);
+    if (i >= width) visit(i - width);
+    if (i < pixelCount - width) visit(i + width);
+  };
+
+  for (const i of seeds) {
+    if (state[i] === 0) {
+      state[i] = 1;
+      queue[tail++] = i;
+    }
+  }
+
+  while (head < tail) {
+    visitNeighbours(queue[head++], (n) => {
+      if (state[n] === 0 && distance(n) <= tolerance) {
+        state[n] = 1;
+        queue[tail++] = n;
+      }
+    });
+  }
+
+  const removed = tail;
+  if (removed / pixelCount > MAX_REMOVED_RATIO) {
+    return null;
+  }
+
+  // Grow a soft matte outward from the cut: pixels still close to the background colour become
+  // partially transparent and have the background's contribution subtracted from their colour.
+  // Only pixels past the tolerance join it, so the matte cannot cross an outline the fill stopped
+  // at and reach the subject's interior.
+  if (softness > 0) {
+    const matte = new Int32Array(pixelCount);
+    let matteHead = 0;
+    let matteTail = 0;
+    const visitMatte = (n: number): void => {
+      if (state[n] !== 0) return;
+      const d = distance(n);
+      if (d > tolerance && d < tolerance + softness) {
+        state[n] = 2;
+        matte[matteTail++] = n;
+      }
+    };
+
+    for (let q = 0; q < removed; q += 1) {
+      visitNeighbours(queue[q], visitMatte);
+    }
+    while (matteHead < matteTail) {
+      visitNeighbours(matte[matteHead++], visitMatte);
+    }
+
+    for (let m = 0; m < matteTail; m += 1) {
+      const i = matte[m];
+      const alpha = Math.min(1, Math.max(0, (distance(i) - tolerance) / softness));
+      if (alpha <= 0) {
+        data[i * 4 + 3] = 0;
+        continue;
+      }
+      for (let channel = 0; channel < 3; channel += 1) {
+        const value = (data[i * 4 + channel] - background[channel] * (1 - alpha)) / alpha;
+        data[i * 4 + channel] = Math.min(255, Math.max(0, Math.round(value)));
+      }
+      data[i * 4 + 3] = Math.round(data[i * 4 + 3] * alpha);
+    }
+  }
+
+  for (let q = 0; q < removed; q += 1) {
+    data[queue[q] * 4 + 3] = 0;
+  }
+
+  const buffer = await sharp(data, { raw: { width, height, channels: 4 } })
+    .png()
+    .toBuffer();
+
+  return {
+    buffer,
+    backgroundColor: background,
+    removedRatio: removed / pixelCount,
+  };
+}
+
+/**
+ * @function getPrintSourceUrl
+ * @description Picks the image to print: the transparent version unless the customer chose to keep the background or none could be made
+ *
+ * @param {PrintSourceDesign} design - Design image fields
+ *
+ * @returns {string} Image URL to send to fulfillment
+ */
+export function getPrintSourceUrl(design: PrintSourceDesign): string {
+  if (design.keepBackground || !design.transparentImageUrl) {
+    return design.imageUrl;
+  }
+  return design.transparentImageUrl;
+}
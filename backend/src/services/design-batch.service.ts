@@ -0,0 +1,99 @@
+/**
+ * @module services/design-batch
+ * @description Generation batches: a single generate request produces 1-4 variations of the same prompt and style, each its own Design with its own generation job. A batch reserves one slot on `Order.designsGenerated` regardless of size, and gives it back only when every variation fails.
+ * @since 2026-10-18
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/error.middleware.js';
+import { createGenerationJob } from './generation-job.service.js';
+import type { DesignBatchInput } from '../types/design-batch.js';
+
+type TransactionClient = PrismaClient;
+
+/**
+ * Variations allowed per generate request; requests without `variations` get the minimum
+ */
+export const MIN_BATCH_VARIATIONS = 1;
+export const MAX_BATCH_VARIATIONS = 4;
+
+/**
+ * @function parseVariationCount
+ * @description Validates the optional `variations` request field
+ *
+ * @param {unknown} value - Raw request value
+ *
+ * @returns {number} Variation count (defaults to 1)
+ *
+ * @throws {AppError} 400 when not an integer between 1 and 4
+ */
+export function parseVariationCount(value: unknown): number {
+  if (value === undefined || value === null) {
+    return MIN_BATCH_VARIATIONS;
+  }
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < MIN_BATCH_VARIATIONS || count > MAX_BATCH_VARIATIONS) {
+    throw new AppError(
+      `Variations must be a whole number between ${MIN_BATCH_VARIATIONS} and ${MAX_BATCH_VARIATIONS}`,
+      400
+    );
+  }
+
+  return count;
+}
+
+/**
+ * @function createDesignBatch
+ * @description Creates the batch, one GENERATING design per variation and their generation jobs. Run inside the same transaction that reserves the order's design slot.
+ *
+ * @param {TransactionClient} client - Prisma client or transaction client
+ * @param {DesignBatchInput} input - Batch parameters
+ *
+ * @returns {Promise<Array>} Created designs in variation order
+ *
+ * @async
+ */
+export async function createDesignBatch(client: TransactionClient, input: DesignBatchInput) {
+  await client.designBatch.create({
+    data: {
+      id: input.id,
+      orderId: input.orderId,
+      prompt: input.prompt,
+      style: input.style || null,
+      size: input.variations,
+    },
+  });
+
+  const designs = [];
+  for (let batchIndex = 0; batchIndex < input.variations; batchIndex += 1) {
+    const design = await client.design.create({
+      data: {
+        userId: input.userId,
+        orderId: input.orderId,
+        prompt: input.prompt,
+        aiModel: input.aiModel,
+        imageUrl: '',
+        status: 'GENERATING',
+        style: input.style || null,
+        batchId: input.id,
+        batchIndex,
+        parentDesignId: input.parentDesignId || null,
+        referenceImageId: input.referenceImage?.id ?? null,
+        placement: input.placement || 'front',
+      },
+    });
+
+    await createGenerationJob(client, design.id, {
+      prompt: input.prompt,
+      style: input.style || undefined,
+      provider: input.provider,
+      variation: batchIndex,
+      referenceImageUrl: input.referenceImage?.imageUrl,
+    });
+
+    designs.push(design);
+  }
+
+  return designs;
+}
@@ -0,0 +1,69 @@
+/**
+ * @module services/design-events
+ * @description In-process pub/sub for design pipeline and order status events, keyed by order. Feeds the `GET /api/designs/stream` SSE endpoint. Events are only delivered to subscribers connected to the same process as the generation worker, which matches the single web dyno deployment; clients re-sync from the snapshot sent on connect.
+ * @since 2026-10-18
+ */
+
+import { EventEmitter } from 'events';
+import type {
+  DesignStreamEvent,
+  DesignStreamEventType,
+  DesignStreamListener,
+} from '../types/design-events.js';
+
+const emitter = new EventEmitter();
+
+// One listener per open SSE connection; don't warn on busy orders
+emitter.setMaxListeners(0);
+
+/**
+ * @function publishDesignEvent
+ * @description Publishes an event to every stream subscribed to the order. Never throws.
+ *
+ * @param {DesignStreamEventType} type - Event type
+ * @param {Omit<DesignStreamEvent, 'type' | 'at'>} event - Event body (orderId required)
+ *
+ * @example
+ * publishDesignEvent('design.completed', { orderId, designId, status: 'COMPLETED', data: { design } });
+ */
+export function publishDesignEvent(
+  type: DesignStreamEventType,
+  event: Omit<DesignStreamEvent, 'type' | 'at'>
+): void {
+  try {
+    emitter.emit(`order:${event.orderId}`, { ...event, type, at: new Date().toISOString() });
+  } catch (error) {
+    console.error(`Failed to publish ${type} for order ${event.orderId}:`, error);
+  }
+}
+
+/**
+ * @function publishOrderStatus
+ * @description Convenience wrapper for `order.status_changed`
+ *
+ * @param {string} orderId - Order whose status changed
+ * @param {string} status - New order status
+ */
+export function publishOrderStatus(orderId: string, status: string): void {
+  publishDesignEvent('order.status_changed', { orderId, status });
+}
+
+/**
+ * @function subscribeToOrderEvents
+ * @description Registers a listener for one order's events
+ *
+ * @param {string} orderId - Order to follow
+ * @param {DesignStreamListener} listener - Callback per event
+ *
+ * @returns {() => void} Unsubscribe function
+ */
+export function subscribeToOrderEvents(
+  orderId: string,
+  listener: DesignStreamListener
+): () => void {
+  const channel = `order:${orderId}`;
+  emitter.on(channel, listener);
+  return () => {
+    emitter.off(channel, listener);
+  };
+}
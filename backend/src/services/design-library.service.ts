@@ -0,0 +1,494 @@
+/**
+ * @module services/design-library
+ * @description Account design library: every design a customer owns across orders, newest first
+ * with cursor pagination, filters and prompt search; user collections ("Holiday ideas", "Band
+ * merch") designs can be added to; and soft delete. Soft-deleted designs keep their rows (orders,
+ * batches and lineage still point at them) but are left out of the library, collections and the
+ * order's design list.
+ * @since 2026-10-18
+ */
+
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/error.middleware.js';
+import { toResponsiveImage } from './image-derivative.service.js';
+import type {
+  DesignCollectionSummary,
+  DesignLibraryFilters,
+  DesignLibraryItem,
+  DesignLibraryStatus,
+} from '../types/design-library.js';
+
+/**
+ * Page size limits for `GET /api/designs/mine`
+ */
+export const DEFAULT_LIBRARY_PAGE_SIZE = 24;
+export const MAX_LIBRARY_PAGE_SIZE = 60;
+
+/**
+ * Collection limits per customer
+ */
+export const MAX_COLLECTIONS = 50;
+export const MAX_COLLECTION_NAME_LENGTH = 60;
+
+const LIBRARY_STATUSES: DesignLibraryStatus[] = ['GENERATING', 'COMPLETED', 'FAILED', 'APPROVED'];
+
+/**
+ * Fields returned for each library design
+ */
+const LIBRARY_DESIGN_SELECT = {
+  id: true,
+  orderId: true,
+  prompt: true,
+  style: true,
+  status: true,
+  approvalStatus: true,
+  moderationStatus: true,
+  imageUrl: true,
+  thumbnailUrl: true,
+  imageVariants: true,
+  placeholder: true,
+  placement: true,
+  createdAt: true,
+  order: {
+    select: { id: true, orderNumber: true, status: true, items: { select: { color: true } } },
+  },
+  collectionItems: { select: { collectionId: true } },
+};
+
+type LibraryDesignRow = Omit<DesignLibraryItem, 'order' | 'collectionIds' | 'image'> & {
+  imageVariants: unknown;
+  placeholder: string | null;
+  order: { id: string; orderNumber: string; status: string; items: { color: string }[] } | null;
+  collectionItems: { collectionId: string }[];
+};
+
+/**
+ * @function parseLibraryDate
+ * @description Parses a `from`/`to` filter
+ *
+ * @param {unknown} value - Raw query value
+ * @param {string} name - Parameter name for the error message
+ *
+ * @returns {Date | undefined} Date, or undefined when absent
+ *
+ * @throws {AppError} 400 when not a valid date
+ */
+function parseLibraryDate(value: unknown, name: string): Date | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new AppError(`${name} must be a date`, 400);
+  }
+  return date;
+}
+
+/**
+ * @function parseDesignLibraryFilters
+ * @description Validates the `GET /api/designs/mine` query
+ *
+ * @param {Record<string, unknown>} query - Express query object
+ *
+ * @returns {DesignLibraryFilters} Filters
+ *
+ * @throws {AppError} 400 on an unknown status, bad date or bad `approved` value
+ */
+export function parseDesignLibraryFilters(query: Record<string, unknown>): DesignLibraryFilters {
+  const text = (name: string) =>
+    typeof query[name] === 'string' ? (query[name] as string).trim() || undefined : undefined;
+
+  const status = text('status')?.toUpperCase();
+  if (status && !LIBRARY_STATUSES.includes(status as DesignLibraryStatus)) {
+    throw new AppError(`status must be one of: ${LIBRARY_STATUSES.join(', ')}`, 400);
+  }
+
+  const approved = text('approved');
+  if (approved && approved !== 'true' && approved !== 'false') {
+    throw new AppError('approved must be true or false', 400);
+  }
+
+  const limit = Math.min(
+    MAX_LIBRARY_PAGE_SIZE,
+    Math.max(1, parseInt(String(query.limit), 10) || DEFAULT_LIBRARY_PAGE_SIZE)
+  );
+
+  return {
+    query: text('q'),
+    status: status as DesignLibraryStatus | undefined,
+    approved: approved === undefined ? undefined : approved === 'true',
+    style: text('style'),
+    from: parseLibraryDate(query.from, 'from'),
+    to: parseLibraryDate(query.to, 'to'),
+    color: text('color'),
+    collectionId: text('collectionId'),
+    cursor: text('cursor'),
+    limit,
+  };
+}
+
+/**
+ * @function listLibraryDesigns
+ * @description One page of the customer's designs across all orders, newest first. Soft-deleted
+ * designs are left out.
+ *
+ * @param {string} userId - Library owner
+ * @param {DesignLibraryFilters} filters - Filters, cursor and page size
+ *
+ * @returns {Promise<{items: DesignLibraryItem[], nextCursor: string | null}>} Page and the cursor
+ * for the next one (null on the last page)
+ *
+ * @async
+ */
+export async function listLibraryDesigns(
+  userId: string,
+  filters: DesignLibraryFilters
+): Promise<{ items: DesignLibraryItem[]; nextCursor: string | null }> {
+  const where: Record<string, unknown> = { userId, deletedAt: null };
+  if (filters.query) {
+    where.prompt = { contains: filters.query, mode: 'insensitive' };
+  }
+  if (filters.status) {
+    where.status = filters.status;
+  }
+  if (filters.approved !== undefined) {
+    where.approvalStatus = filters.approved;
+  }
+  if (filters.style) {
+    where.style = filters.style;
+  }
+  if (filters.from || filters.to) {
+    where.createdAt = { gte: filters.from, lte: filters.to };
+  }
+  if (filters.color) {
+    where.order = {
+      items: { some: { color: { equals: filters.color, mode: 'insensitive' } } },
+    };
+  }
+  if (filters.collectionId) {
+    where.collectionItems = {
+      some: { collectionId: filters.collectionId, collection: { userId } },
+    };
+  }
+
+  // One extra row tells us whether another page exists
+  const rows: LibraryDesignRow[] = await prisma.design.findMany({
+    where,
+    select: LIBRARY_DESIGN_SELECT,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: filters.limit + 1,
+    ...(filters.cursor ? { cursor: { id: filters.cursor }, skip: 1 } : {}),
+  });
+
+  const page = rows.slice(0, filters.limit);
+  const items = page.map(({ order, collectionItems, imageVariants, placeholder, ...design }) => ({
+    ...design,
+    image: design.imageUrl ? toResponsiveImage({ ...design, imageVariants, placeholder }) : null,
+    order: order
+      ? {
+          id: order.id,
+          orderNumber: order.orderNumber,
+          status: order.status,
+          colors: [...new Set(order.items.map((item) => item.color))],
+        }
+      : null,
+    collectionIds: collectionItems.map((item) => item.collectionId),
+  }));
+
+  return {
+    items,
+    nextCursor: rows.length > filters.limit ? page[page.length - 1].id : null,
+  };
+}
+
+/**
+ * @function findOwnedDesign
+ * @description Loads one of the customer's designs that hasn't been deleted
+ *
+ * @param {string} userId - Owner
+ * @param {string} designId - Design ID
+ *
+ * @returns {Promise<Object>} Design row
+ *
+ * @throws {AppError} 404 when missing, deleted or owned by someone else
+ *
+ * @async
+ */
+async function findOwnedDesign(userId: string, designId: string) {
+  const design = await prisma.design.findUnique({ where: { id: designId } });
+  if (!design || design.userId !== userId || design.deletedAt) {
+    throw new AppError('Design not found', 404);
+  }
+  return design;
+}
+
+/**
+ * @function softDeleteDesign
+ * @description Hides a design from the customer for good and takes it out of their collections.
+ * Approved designs stay, since they are the print record of their order.
+ *
+ * @param {string} userId - Owner
+ * @param {string} designId - Design ID
+ *
+ * @returns {Promise<void>}
+ *
+ * @throws {AppError} 404 when not found, 400 when approved
+ *
+ * @async
+ */
+export async function softDeleteDesign(userId: string, designId: string): Promise<void> {
+  const design = await findOwnedDesign(userId, designId);
+  if (design.approvalStatus || design.status === 'APPROVED') {
+    throw new AppError('Approved designs are kept with their order and cannot be deleted', 400);
+  }
+
+  await prisma.$transaction([
+    prisma.designCollectionItem.deleteMany({ where: { designId } }),
+    prisma.design.update({ where: { id: designId }, data: { deletedAt: new Date() } }),
+  ]);
+}
+
+/**
+ * @function parseCollectionName
+ * @description Validates a collection name
+ *
+ * @param {unknown} value - Raw request value
+ *
+ * @returns {string} Trimmed name
+ *
+ * @throws {AppError} 400 when missing or longer than 60 characters
+ */
+export function parseCollectionName(value: unknown): string {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name) {
+    throw new AppError('Collection name is required', 400);
+  }
+  if (name.length > MAX_COLLECTION_NAME_LENGTH) {
+    throw new AppError(`Keep collection names under ${MAX_COLLECTION_NAME_LENGTH} characters`, 400);
+  }
+  return name;
+}
+
+/**
+ * @function findOwnedCollection
+ * @description Loads one of the customer's collections
+ *
+ * @param {string} userId - Owner
+ * @param {string} collectionId - Collection ID
+ *
+ * @returns {Promise<Object>} Collection row
+ *
+ * @throws {AppError} 404 when missing or owned by someone else
+ *
+ * @async
+ */
+async function findOwnedCollection(userId: string, collectionId: string) {
+  const collection = await prisma.designCollection.findUnique({ where: { id: collectionId } });
+  if (!collection || collection.userId !== userId) {
+    throw new AppError('Collection not found', 404);
+  }
+  return collection;
+}
+
+/**
+ * @function assertCollectionNameFree
+ * @description Rejects a name the customer already uses for another collection
+ *
+ * @param {string} userId - Owner
+ * @param {string} name - Proposed name
+ * @param {string} [exceptId] - Collection being renamed
+ *
+ * @returns {Promise<void>}
+ *
+ * @throws {AppError} 409 when taken
+ *
+ * @async
+ */
+async function assertCollectionNameFree(
+  userId: string,
+  name: string,
+  exceptId?: string
+): Promise<void> {
+  const existing = await prisma.designCollection.findFirst({
+    where: { userId, name: { equals: name, mode: 'insensitive' } },
+    select: { id: true },
+  });
+  if (existing && existing.id !== exceptId) {
+    throw new AppError(`You already have a collection called “${name}”`, 409);
+  }
+}
+
+/**
+ * @function listCollections
+ * @description The customer's collections, alphabetical, with design counts and a cover
+ *
+ * @param {string} userId - Owner
+ *
+ * @returns {Promise<DesignCollectionSummary[]>} Collections
+ *
+ * @async
+ */
+export async function listCollections(userId: string): Promise<DesignCollectionSummary[]> {
+  const visible = { design: { deletedAt: null } };
+  const collections = await prisma.designCollection.findMany({
+    where: { userId },
+    orderBy: { name: 'asc' },
+    include: {
+      _count: { select: { items: { where: visible } } },
+      items: {
+        where: visible,
+        orderBy: { addedAt: 'desc' },
+        take: 1,
+        select: { design: { select: { imageUrl: true, thumbnailUrl: true } } },
+      },
+    },
+  });
+
+  return collections.map(
+    (collection: {
+      id: string;
+      name: string;
+      createdAt: Date;
+      _count: { items: number };
+      items: { design: { imageUrl: string; thumbnailUrl: string | null } }[];
+    }) => {
+      const cover = collection.items[0]?.design;
+      return {
+        id: collection.id,
+        name: collection.name,
+        designCount: collection._count.items,
+        coverUrl: cover ? cover.thumbnailUrl || cover.imageUrl || null : null,
+        createdAt: collection.createdAt,
+      };
+    }
+  );
+}
+
+/**
+ * @function createCollection
+ * @description Creates an empty collection
+ *
+ * @param {string} userId - Owner
+ * @param {unknown} rawName - Requested name
+ *
+ * @returns {Promise<DesignCollectionSummary>} New collection
+ *
+ * @throws {AppError} 400 on a bad name or too many collections, 409 when the name is taken
+ *
+ * @async
+ */
+export async function createCollection(
+  userId: string,
+  rawName: unknown
+): Promise<DesignCollectionSummary> {
+  const name = parseCollectionName(rawName);
+
+  const count = await prisma.designCollection.count({ where: { userId } });
+  if (count >= MAX_COLLECTIONS) {
+    throw new AppError(`You can have up to ${MAX_COLLECTIONS} collections`, 400);
+  }
+  await assertCollectionNameFree(userId, name);
+
+  const collection = await prisma.designCollection.create({ data: { userId, name } });
+  return {
+    id: collection.id,
+    name: collection.name,
+    designCount: 0,
+    coverUrl: null,
+    createdAt: collection.createdAt,
+  };
+}
+
+/**
+ * @function renameCollection
+ * @description Renames a collection
+ *
+ * @param {string} userId - Owner
+ * @param {string} collectionId - Collection ID
+ * @param {unknown} rawName - New name
+ *
+ * @returns {Promise<Object>} id and name
+ *
+ * @throws {AppError} 400 on a bad name, 404 when not found, 409 when the name is taken
+ *
+ * @async
+ */
+export async function renameCollection(userId: string, collectionId: string, rawName: unknown) {
+  const name = parseCollectionName(rawName);
+  await findOwnedCollection(userId, collectionId);
+  await assertCollectionNameFree(userId, name, collectionId);
+
+  return prisma.designCollection.update({
+    where: { id: collectionId },
+    data: { name },
+    select: { id: true, name: true },
+  });
+}
+
+/**
+ * @function deleteCollection
+ * @description Deletes a collection; its designs stay in the library
+ *
+ * @param {string} userId - Owner
+ * @param {string} collectionId - Collection ID
+ *
+ * @returns {Promise<void>}
+ *
+ * @throws {AppError} 404 when not found
+ *
+ * @async
+ */
+export async function deleteCollection(userId: string, collectionId: string): Promise<void> {
+  await findOwnedCollection(userId, collectionId);
+  await prisma.designCollection.delete({ where: { id: collectionId } });
+}
+
+/**
+ * @function addDesignToCollection
+ * @description Adds a design to a collection; adding it twice is a no-op
+ *
+ * @param {string} userId - Owner of both
+ * @param {string} collectionId - Collection ID
+ * @param {string} designId - Design ID
+ *
+ * @returns {Promise<void>}
+ *
+ * @throws {AppError} 404 when either is not found
+ *
+ * @async
+ */
+export async function addDesignToCollection(
+  userId: string,
+  collectionId: string,
+  designId: string
+): Promise<void> {
+  await findOwnedCollection(userId, collectionId);
+  await findOwnedDesign(userId, designId);
+
+  await prisma.designCollectionItem.upsert({
+    where: { collectionId_designId: { collectionId, designId } },
+    update: {},
+    create: { collectionId, designId },
+  });
+}
+
+/**
+ * @function removeDesignFromCollection
+ * @description Takes a design out of a collection
+ *
+ * @param {string} userId - Owner
+ * @param {string} collectionId - Collection ID
+ * @param {string} designId - Design ID
+ *
+ * @returns {Promise<void>}
+ *
+ * @throws {AppError} 404 when the collection is not found
+ *
+ * @async
+ */
+export async function removeDesignFromCollection(
+  userId: string,
+  collectionId: string,
+  designId: string
+): Promise<void> {
+  await findOwnedCollection(userId, collectionId);
+  await prisma.designCollectionItem.deleteMany({ where: { collectionId, designId } });
+}
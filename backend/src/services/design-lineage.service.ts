@@ -0,0 +1,246 @@
+/**
+ * @module services/design-lineage
+ * @description Design ancestry. Regenerations branched from an earlier version, mask edits and clones record the design they came from in `parentDesignId`; this service validates branch parents and assembles the ancestor chain and per-order version tree served by `GET /api/designs/:id/lineage`.
+ * @since 2026-10-18
+ */
+
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/error.middleware.js';
+import type {
+  DesignLineage,
+  DesignLineageNode,
+  DesignLineageRelation,
+  DesignLineageTreeNode,
+} from '../types/design-lineage.js';
+
+/**
+ * Stop walking up after this many ancestors (clone-of-a-clone chains are short in practice)
+ */
+const MAX_ANCESTOR_DEPTH = 50;
+
+const LINEAGE_SELECT = {
+  id: true,
+  userId: true,
+  orderId: true,
+  parentDesignId: true,
+  prompt: true,
+  style: true,
+  status: true,
+  imageUrl: true,
+  thumbnailUrl: true,
+  batchId: true,
+  moderationStatus: true,
+  storageStatus: true,
+  deletedAt: true,
+  createdAt: true,
+  parent: { select: { orderId: true } },
+  order: { select: { userId: true } },
+};
+
+interface LineageRow {
+  id: string;
+  userId: string;
+  orderId: string | null;
+  parentDesignId: string | null;
+  prompt: string;
+  style: string | null;
+  status: string;
+  imageUrl: string;
+  thumbnailUrl: string | null;
+  batchId: string | null;
+  moderationStatus: string | null;
+  storageStatus: string;
+  deletedAt: Date | null;
+  createdAt: Date;
+  parent: { orderId: string | null } | null;
+  order: { userId: string } | null;
+}
+
+/**
+ * @function assertBranchParent
+ * @description Validates the optional `parentDesignId` sent when regenerating from an earlier version. Branching is scoped to one order.
+ *
+ * @param {unknown} parentDesignId - Raw request value
+ * @param {string} orderId - Order the new batch is generated on
+ *
+ * @returns {Promise<string | null>} Parent design id, or null when not branching
+ *
+ * @throws {AppError} 400 when the parent is not a design on the same order
+ *
+ * @async
+ */
+export async function assertBranchParent(
+  parentDesignId: unknown,
+  orderId: string
+): Promise<string | null> {
+  if (parentDesignId === undefined || parentDesignId === null || parentDesignId === '') {
+    return null;
+  }
+
+  if (typeof parentDesignId !== 'string') {
+    throw new AppError('parentDesignId must be a design ID', 400);
+  }
+
+  const parent = await prisma.design.findUnique({
+    where: { id: parentDesignId },
+    select: { orderId: true },
+  });
+
+  if (!parent || parent.orderId !== orderId) {
+    throw new AppError('Parent design not found on this order', 400);
+  }
+
+  return parentDesignId;
+}
+
+/**
+ * @function getLineageRelation
+ * @description Derives how a design relates to its parent
+ *
+ * @param {LineageRow} row - Design row with its parent's order
+ *
+ * @returns {DesignLineageRelation} Relation label
+ */
+function getLineageRelation(row: LineageRow): DesignLineageRelation {
+  if (!row.parentDesignId) return 'original';
+  if (!row.parent || row.parent.orderId !== row.orderId) return 'clone';
+  return row.batchId ? 'regeneration' : 'edit';
+}
+
+/**
+ * @function isOwnedBy
+ * @description Whether the viewer owns a design, directly or through its order
+ *
+ * @param {LineageRow} row - Design row
+ * @param {string} viewerId - Requesting user
+ *
+ * @returns {boolean} True for the viewer's own designs
+ */
+function isOwnedBy(row: LineageRow, viewerId: string): boolean {
+  return row.userId === viewerId || row.order?.userId === viewerId;
+}
+
+/**
+ * @function isGalleryVisible
+ * @description Whether a design is one the public gallery can show (finished, cleared by
+ * moderation, stored and not deleted), matching the `GET /api/designs/gallery` filter
+ *
+ * @param {LineageRow} row - Design row
+ *
+ * @returns {boolean} True when anyone may see it
+ */
+function isGalleryVisible(row: LineageRow): boolean {
+  return (
+    (row.status === 'COMPLETED' || row.status === 'APPROVED') &&
+    (row.moderationStatus === null || row.moderationStatus === 'CLEARED') &&
+    row.storageStatus === 'STORED' &&
+    row.deletedAt === null &&
+    Boolean(row.imageUrl)
+  );
+}
+
+/**
+ * @function toLineageNode
+ * @description Maps a row to the response shape. Designs owned by someone else (public gallery
+ * sources) keep their artwork and prompt but not their order, style, batch or parent.
+ *
+ * @param {LineageRow} row - Design row
+ * @param {string} viewerId - Requesting user
+ *
+ * @returns {DesignLineageNode} Lineage node
+ */
+function toLineageNode(row: LineageRow, viewerId: string): DesignLineageNode {
+  const isOwn = isOwnedBy(row, viewerId);
+
+  return {
+    id: row.id,
+    parentDesignId: isOwn ? row.parentDesignId : null,
+    orderId: isOwn ? row.orderId : null,
+    prompt: row.prompt,
+    style: isOwn ? row.style : null,
+    status: row.status,
+    imageUrl: row.imageUrl,
+    thumbnailUrl: row.thumbnailUrl,
+    batchId: isOwn ? row.batchId : null,
+    relation: getLineageRelation(row),
+    isOwn,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * @function buildDesignLineage
+ * @description Builds the ancestor chain for a design and the version tree of its order. Designs whose parent lives on another order (clones) are roots of the order's tree; the cross-order history is in `ancestors`. The chain stops at the first design the viewer doesn't own, which is only included, trimmed, when the public gallery could show it. The caller is responsible for checking the viewer may see the design.
+ *
+ * @param {string} designId - Design to describe
+ * @param {string} viewerId - Requesting user (for ownership flags)
+ *
+ * @returns {Promise<DesignLineage>} Ancestors and version tree
+ *
+ * @throws {AppError} 404 when the design does not exist
+ *
+ * @async
+ */
+export async function buildDesignLineage(
+  designId: string,
+  viewerId: string
+): Promise<DesignLineage> {
+  const design: LineageRow | null = await prisma.design.findUnique({
+    where: { id: designId },
+    select: LINEAGE_SELECT,
+  });
+
+  if (!design) {
+    throw new AppError('Design not found', 404);
+  }
+
+  const ancestors: DesignLineageNode[] = [];
+  const seen = new Set([design.id]);
+  let parentId = design.parentDesignId;
+  while (parentId && !seen.has(parentId) && ancestors.length < MAX_ANCESTOR_DEPTH) {
+    seen.add(parentId);
+    const parent: LineageRow | null = await prisma.design.findUnique({
+      where: { id: parentId },
+      select: LINEAGE_SELECT,
+    });
+    if (!parent) break;
+    // Someone else's history is private: show the gallery design this was cloned from, if it is
+    // still public, and nothing before it
+    if (!isOwnedBy(parent, viewerId)) {
+      if (isGalleryVisible(parent)) ancestors.unshift(toLineageNode(parent, viewerId));
+      break;
+    }
+    ancestors.unshift(toLineageNode(parent, viewerId));
+    parentId = parent.parentDesignId;
+  }
+
+  const rows: LineageRow[] = design.orderId
+    ? await prisma.design.findMany({
+        where: { orderId: design.orderId },
+        select: LINEAGE_SELECT,
+        orderBy: { createdAt: 'asc' },
+      })
+    : [design];
+
+  const nodes = new Map<string, DesignLineageTreeNode>();
+  for (const row of rows) {
+    nodes.set(row.id, { ...toLineageNode(row, viewerId), children: [] });
+  }
+
+  const tree: DesignLineageTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentDesignId ? nodes.get(node.parentDesignId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      tree.push(node);
+    }
+  }
+
+  return {
+    designId: design.id,
+    orderId: design.orderId,
+    ancestors,
+    tree,
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * @module services/design-refinement
+ * @description Conversational refinement: a short instruction on a finished design is merged into a full prompt (see `mergeRefinementPrompt`), stored as a PROPOSED entry in the order's refinement thread, and only generates once the customer confirms it. Confirming queues a batch branched from the source design; the entry keeps the batch ID so the thread can show the result.
+ * @since 2026-10-18
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/error.middleware.js';
+import { mergeRefinementPrompt } from './openai.service.js';
+import type { AiCallContext } from '../types/ai-usage.js';
+
+type TransactionClient = PrismaClient;
+
+/**
+ * Longest instruction accepted; refinements are meant to be one short change
+ */
+export const MAX_REFINEMENT_INSTRUCTION_LENGTH = 300;
+
+/**
+ * Longest prompt accepted when the customer edits the merged prompt before confirming
+ */
+export const MAX_REFINEMENT_PROMPT_LENGTH = 1000;
+
+/**
+ * Fields returned for each thread entry
+ */
+const REFINEMENT_SELECT = {
+  id: true,
+  orderId: true,
+  sourceDesignId: true,
+  instruction: true,
+  mergedPrompt: true,
+  mergeModel: true,
+  finalPrompt: true,
+  status: true,
+  batchId: true,
+  createdAt: true,
+};
+
+/**
+ * @function parseRefinementInstruction
+ * @description Validates the instruction in a refine request
+ *
+ * @param {unknown} value - Raw request value
+ *
+ * @returns {string} Trimmed instruction
+ *
+ * @throws {AppError} 400 when missing or longer than 300 characters
+ */
+export function parseRefinementInstruction(value: unknown): string {
+  const instruction = typeof value === 'string' ? value.trim() : '';
+  if (!instruction) {
+    throw new AppError('Tell us what to change', 400);
+  }
+  if (instruction.length > MAX_REFINEMENT_INSTRUCTION_LENGTH) {
+    throw new AppError(
+      `Keep the change under ${MAX_REFINEMENT_INSTRUCTION_LENGTH} characters`,
+      400
+    );
+  }
+  return instruction;
+}
+
+/**
+ * @function proposeRefinement
+ * @description Merges an instruction into the source design's prompt and adds it to the order's thread as PROPOSED. Any earlier unconfirmed proposal on the order is discarded, so only the latest can be confirmed.
+ *
+ * @param {Object} source - Design being refined
+ * @param {string} source.id - Design ID
+ * @param {string} source.orderId - Order the thread belongs to
+ * @param {string} source.prompt - Prompt the design was generated from
+ * @param {string | null} [source.revisedPrompt] - Provider's revised prompt
+ * @param {string} instruction - Validated instruction
+ * @param {AiCallContext} [context] - Order, user and guest session the prompt rewrite is logged against
+ *
+ * @returns {Promise<Object>} The new thread entry
+ *
+ * @async
+ */
+export async function proposeRefinement(
+  source: { id: string; orderId: string; prompt: string; revisedPrompt?: string | null },
+  instruction: string,
+  context: AiCallContext = {}
+) {
+  const merged = await mergeRefinementPrompt(
+    {
+      prompt: source.prompt,
+      revisedPrompt: source.revisedPrompt,
+      instruction,
+    },
+    { ...context, designId: source.id, orderId: source.orderId }
+  );
+
+  return prisma.$transaction(async (tx: TransactionClient) => {
+    await tx.designRefinement.updateMany({
+      where: { orderId: source.orderId, status: 'PROPOSED' },
+      data: { status: 'DISCARDED' },
+    });
+
+    return tx.designRefinement.create({
+      data: {
+        orderId: source.orderId,
+        sourceDesignId: source.id,
+        instruction,
+        mergedPrompt: merged.prompt,
+        mergeModel: merged.model,
+      },
+      select: REFINEMENT_SELECT,
+    });
+  });
+}
+
+/**
+ * @function listRefinementThread
+ * @description The order's refinement thread, oldest first
+ *
+ * @param {string} orderId - Order ID
+ *
+ * @returns {Promise<Array>} Thread entries
+ *
+ * @async
+ */
+export async function listRefinementThread(orderId: string) {
+  return prisma.designRefinement.findMany({
+    where: { orderId },
+    orderBy: { createdAt: 'asc' },
+    select: REFINEMENT_SELECT,
+  });
+}
+
+/**
+ * @function findRefinement
+ * @description Loads a thread entry with its order and source design for access checks
+ *
+ * @param {string} id - Refinement ID
+ *
+ * @returns {Promise<Object>} Refinement with order and source design
+ *
+ * @throws {AppError} 404 when the refinement does not exist
+ *
+ * @async
+ */
+export async function findRefinement(id: string) {
+  const refinement = await prisma.designRefinement.findUnique({
+    where: { id },
+    include: {
+      order: true,
+      sourceDesign: {
+        select: {
+          id: true,
+          style: true,
+          placement: true,
+          referenceImage: { select: { id: true, imageUrl: true } },
+        },
+      },
+    },
+  });
+
+  if (!refinement) {
+    throw new AppError('Refinement not found', 404);
+  }
+
+  return refinement;
+}
+
+/**
+ * @function markRefinementConfirmed
+ * @description Records the prompt that was generated and its batch. Run in the transaction that queues the batch; fails if the entry was confirmed or discarded concurrently.
+ *
+ * @param {TransactionClient} client - Transaction client
+ * @param {string} id - Refinement ID
+ * @param {string} finalPrompt - Prompt sent to generation (merged or edited by the customer)
+ * @param {string} batchId - Batch queued for it
+ *
+ * @returns {Promise<void>}
+ *
+ * @throws {AppError} 409 when the refinement is no longer PROPOSED
+ *
+ * @async
+ */
+export async function markRefinementConfirmed(
+  client: TransactionClient,
+  id: string,
+  finalPrompt: string,
+  batchId: string
+): Promise<void> {
+  const updated = await client.designRefinement.updateMany({
+    where: { id, status: 'PROPOSED' },
+    data: { status: 'CONFIRMED', finalPrompt, batchId },
+  });
+
+  if (updated.count === 0) {
+    throw new AppError('This refinement was already confirmed or discarded', 409);
+  }
+}
+
+/**
+ * @function discardRefinement
+ * @description Marks a proposed refinement as discarded
+ *
+ * @param {string} id - Refinement ID
+ *
+ * @returns {Promise<Object>} Updated thread entry
+ *
+ * @throws {AppError} 400 when the refinement is not PROPOSED
+ *
+ * @async
+ */
+export async function discardRefinement(id: string) {
+  const updated = await prisma.designRefinement.updateMany({
+    where: { id, status: 'PROPOSED' },
+    data: { status: 'DISCARDED' },
+  });
+
+  if (updated.count === 0) {
+    throw new AppError('Only proposed refinements can be discarded', 400);
+  }
+
+  return prisma.designRefinement.findUnique({ where: { id }, select: REFINEMENT_SELECT });
+}
@@ -0,0 +1,79 @@
+/**
+ * @module services/design-storage
+ * @description Durable storage for generated images. Image providers hand back URLs that expire
+ * (OpenAI's are valid for about an hour), so every generated image is copied to asset storage. A failed upload leaves the design PENDING with the provider URL in `sourceImageUrl` and
+ * a retry time; the generation worker's storage sweep retries with backoff until the upload
+ * succeeds or the provider URL is too old, then marks the design EXPIRED so the customer is asked
+ * to regenerate it. Images a provider returns as bytes (gpt-image-1, stub) have no URL to fall
+ * back on, so the job uploads them at once and retries the attempt when that upload fails.
+ * @since 2026-10-18
+ */
+
+import { uploadImage, uploadImageBuffer } from './asset-storage.service.js';
+import type { StoredDesignImage } from '../types/design-storage.js';
+
+/**
+ * How long provider URLs stay downloadable, with a margin before OpenAI's one-hour expiry
+ */
+export const PROVIDER_URL_TTL_MS = 55 * 60 * 1000;
+
+/**
+ * Upload attempts per design (the one in the generation job + sweep retries)
+ */
+export const MAX_STORAGE_ATTEMPTS = Number(process.env.DESIGN_STORAGE_MAX_ATTEMPTS) || 6;
+
+/**
+ * Base delay for exponential upload retry backoff (30s, 1m, 2m, 4m, ...)
+ */
+const STORAGE_RETRY_BASE_DELAY_MS = 30 * 1000;
+
+/**
+ * @function isTemporaryImageUrl
+ * @description Whether a URL points at an image provider's expiring storage rather than ours
+ *
+ * @param {string | null} [url] - Image URL
+ *
+ * @returns {boolean} True for OpenAI (DALL-E) URLs
+ *
+ * @example
+ * isTemporaryImageUrl('https://oaidalleapiprodscus.blob.core.windows.net/...'); // true
+ */
+export function isTemporaryImageUrl(url?: string | null): boolean {
+  if (!url) return false;
+  const lower = url.toLowerCase();
+  return lower.includes('oaidalle') || lower.includes('openai');
+}
+
+/**
+ * @function getStorageRetryAt
+ * @description When to retry an upload after a failed attempt
+ *
+ * @param {number} attempts - Attempts made so far, including the failed one
+ *
+ * @returns {Date} Next attempt time
+ */
+export function getStorageRetryAt(attempts: number): Date {
+  return new Date(Date.now() + STORAGE_RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * @function storeDesignImage
+ * @description Copies a generated image into asset storage
+ *
+ * @param {string} designId - Design the image belongs to
+ * @param {string | Buffer} source - Provider URL (or data URL) of the image, or its bytes
+ *
+ * @returns {Promise<StoredDesignImage>} Stored image URLs
+ *
+ * @throws {Error} When the download or upload fails
+ *
+ * @async
+ */
+export async function storeDesignImage(
+  designId: string,
+  source: string | Buffer
+): Promise<StoredDesignImage> {
+  return Buffer.isBuffer(source)
+    ? uploadImageBuffer(source, designId)
+    : uploadImage(source, designId);
+}
@@ -5,6 +5,8 @@
  * @since 2025-12-11
  */
 
+import type { PlacementEmailPreview } from '../types/print-placement.js';
+
 /** Email template configuration */
 export interface EmailTemplateConfig {
   subject: string;
@@ -143,6 +145,53 @@ export function buildEmailHtml(config: EmailTemplateConfig): string {
   `.trim();
 }
 
+/** Pixels per inch when drawing a print area in an email */
+const PLACEMENT_PREVIEW_SCALE = 16;
+
+/** Width of a product mockup in an email */
+const MOCKUP_PREVIEW_WIDTH = 280;
+
+/**
+ * Placed-design preview: the rendered product mockup when there is one, otherwise the print area
+ * drawn to scale on the shirt colour with the design at its print position. The drawing uses
+ * margins rather than positioning so it renders in common email clients.
+ *
+ * @param {PlacementEmailPreview} preview - Placement details from the print-placement service
+ * @returns {string} HTML block for an email body
+ */
+export function buildPlacementPreviewHtml(preview: PlacementEmailPreview): string {
+  if (preview.mockupUrl) {
+    return `
+    <img
+      src="${preview.mockupUrl}"
+      alt="Your design on a ${preview.color.toLowerCase()} tee"
+      width="${MOCKUP_PREVIEW_WIDTH}"
+      height="${MOCKUP_PREVIEW_WIDTH}"
+      style="display: block; margin: 8px auto; width: ${MOCKUP_PREVIEW_WIDTH}px; height: ${MOCKUP_PREVIEW_WIDTH}px; border-radius: 12px;"
+    />
+    <span style="display: block; text-align: center; font-size: 14px; color: ${BRAND.muted};">${preview.label}</span>
+  `.trim();
+  }
+
+  const px = (inches: number) => Math.round(inches * PLACEMENT_PREVIEW_SCALE);
+  const { position } = preview;
+
+  return `
+    <div style="margin: 8px auto; width: ${px(preview.areaWidthIn) + 48}px; background-color: ${preview.shirtHex}; border-radius: 12px; padding: 24px; box-sizing: border-box;">
+      <div style="width: ${px(preview.areaWidthIn)}px; height: ${px(preview.areaHeightIn)}px; border: 1px dashed ${BRAND.muted}; box-sizing: border-box; overflow: hidden;">
+        <img
+          src="${preview.imageUrl}"
+          alt="Your design"
+          width="${px(position.width)}"
+          height="${px(position.height)}"
+          style="display: block; margin-left: ${px(position.left)}px; margin-top: ${px(position.top)}px; width: ${px(position.width)}px; height: ${px(position.height)}px;"
+        />
+      </div>
+    </div>
+    <span style="display: block; text-align: center; font-size: 14px; color: ${BRAND.muted};">${preview.label}</span>
+  `.trim();
+}
+
 // Pre-built email templates
 
 /**
@@ -154,14 +203,20 @@ export const EMAIL_TEMPLATES = {
    *
    * @param {string} orderNumber - Order number to display
    * @param {string} designPageUrl - URL to design generation page
+   * @param {PlacementEmailPreview | null} [placement] - Design as placed on the shirt, when known
    * @returns {EmailTemplateConfig} Email template configuration
    */
-  orderConfirmed: (orderNumber: string, designPageUrl: string): EmailTemplateConfig => ({
+  orderConfirmed: (
+    orderNumber: string,
+    designPageUrl: string,
+    placement?: PlacementEmailPreview | null
+  ): EmailTemplateConfig => ({
     subject: 'Order confirmed — your preview is ready',
     heading: 'Order Confirmed',
     body: [
       `Thanks for your order! Your preview is ready.`,
       `Order #${orderNumber}`,
+      ...(placement ? [buildPlacementPreviewHtml(placement)] : []),
       `Head to your design studio to review and approve your design.`,
     ],
     ctaText: 'View Your Design',
@@ -173,14 +228,19 @@ export const EMAIL_TEMPLATES = {
    * Design approval confirmation email
    *
    * @param {string} orderNumber - Order number to display
+   * @param {PlacementEmailPreview | null} [placement] - Design as placed on the shirt, when known
    * @returns {EmailTemplateConfig} Email template configuration
    */
-  designApproved: (orderNumber: string): EmailTemplateConfig => ({
+  designApproved: (
+    orderNumber: string,
+    placement?: PlacementEmailPreview | null
+  ): EmailTemplateConfig => ({
     subject: 'Approved — we\'re printing your tee',
     heading: 'Design Approved',
     body: [
       `Great choice! Your design has been approved and sent to print.`,
       `Order #${orderNumber}`,
+      ...(placement ? [buildPlacementPreviewHtml(placement)] : []),
       `You'll receive tracking information once your tee ships.`,
     ],
     footerNote: 'Estimated delivery: 5-8 business days after shipping.',
@@ -191,14 +251,20 @@ export const EMAIL_TEMPLATES = {
    *
    * @param {string} orderNumber - Order number to display
    * @param {string} [trackingUrl] - Optional tracking URL
+   * @param {PlacementEmailPreview | null} [placement] - Design as placed on the shirt, when known
    * @returns {EmailTemplateConfig} Email template configuration
    */
-  orderShipped: (orderNumber: string, trackingUrl?: string): EmailTemplateConfig => ({
+  orderShipped: (
+    orderNumber: string,
+    trackingUrl?: string,
+    placement?: PlacementEmailPreview | null
+  ): EmailTemplateConfig => ({
     subject: 'On the way — your tee has shipped',
     heading: 'Your Tee Has Shipped',
     body: [
       `Your custom tee is on its way!`,
       `Order #${orderNumber}`,
+      ...(placement ? [buildPlacementPreviewHtml(placement)] : []),
       trackingUrl ? `Track your package to see delivery updates.` : `You'll receive updates as your package moves.`,
     ],
     ctaText: trackingUrl ? 'Track Package' : undefined,
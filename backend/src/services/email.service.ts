@@ -6,6 +6,7 @@
 
 import { Resend } from 'resend';
 import { EMAIL_TEMPLATES, buildEmailHtml } from './email-templates.js';
+import type { PlacementEmailPreview } from '../types/print-placement.js';
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 
@@ -37,6 +38,7 @@ interface OrderConfirmationData {
   tier: string;
   itemCount: number;
   orderUrl: string;
+  placement?: PlacementEmailPreview | null;
 }
 
 interface DesignApprovedData {
@@ -45,6 +47,7 @@ interface DesignApprovedData {
   orderNumber: string;
   designImageUrl: string;
   orderUrl: string;
+  placement?: PlacementEmailPreview | null;
 }
 
 interface OrderShippedData {
@@ -54,6 +57,7 @@ interface OrderShippedData {
   trackingNumber?: string;
   trackingUrl?: string;
   orderUrl: string;
+  placement?: PlacementEmailPreview | null;
 }
 
 interface AbandonedCheckoutData {
@@ -94,6 +98,7 @@ interface GiftCodeEmailData {
  * @param {string} data.tier - Design tier purchased
  * @param {number} data.itemCount - Number of items in order
  * @param {string} data.orderUrl - URL to design generation page
+ * @param {PlacementEmailPreview | null} [data.placement] - Design as placed on the shirt, shown when known
  *
  * @returns {Promise<{success: boolean, error?: string}>} Result of email send operation
  *
@@ -114,7 +119,11 @@ export async function sendOrderConfirmation(
   data: OrderConfirmationData
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    const template = EMAIL_TEMPLATES.orderConfirmed(data.orderNumber, data.orderUrl);
+    const template = EMAIL_TEMPLATES.orderConfirmed(
+      data.orderNumber,
+      data.orderUrl,
+      data.placement
+    );
     const emailHtml = buildEmailHtml(template);
 
     await resend.emails.send({
@@ -142,6 +151,7 @@ export async function sendOrderConfirmation(
  * @param {string} data.orderNumber - Unique order number
  * @param {string} data.designImageUrl - URL to approved design image
  * @param {string} data.orderUrl - URL to order details page
+ * @param {PlacementEmailPreview | null} [data.placement] - Design as placed on the shirt, shown when known
  *
  * @returns {Promise<{success: boolean, error?: string}>} Result of email send operation
  *
@@ -160,7 +170,7 @@ export async function sendDesignApproved(
   data: DesignApprovedData
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    const template = EMAIL_TEMPLATES.designApproved(data.orderNumber);
+    const template = EMAIL_TEMPLATES.designApproved(data.orderNumber, data.placement);
     const emailHtml = buildEmailHtml(template);
 
     await resend.emails.send({
@@ -189,6 +199,7 @@ export async function sendDesignApproved(
  * @param {string} [data.trackingNumber] - Shipping tracking number (optional)
  * @param {string} [data.trackingUrl] - Tracking URL (optional)
  * @param {string} data.orderUrl - URL to order details page
+ * @param {PlacementEmailPreview | null} [data.placement] - Design as placed on the shirt, shown when known
  *
  * @returns {Promise<{success: boolean, error?: string}>} Result of email send operation
  *
@@ -208,7 +219,11 @@ export async function sendOrderShipped(
   data: OrderShippedData
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    const template = EMAIL_TEMPLATES.orderShipped(data.orderNumber, data.trackingUrl);
+    const template = EMAIL_TEMPLATES.orderShipped(
+      data.orderNumber,
+      data.trackingUrl,
+      data.placement
+    );
     const emailHtml = buildEmailHtml(template);
 
     await resend.emails.send({
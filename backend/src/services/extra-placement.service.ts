@@ -0,0 +1,197 @@
+/**
+ * @module services/extra-placement
+ * @description Extra print locations per order item. Apparel items always print on the front and can add a back, left sleeve or inside label print; each extra is a row on the item priced from `getPlacementPricingMap` when it is added and charged on top of the tier price at checkout. Designs are generated for one placement, and an order is only fully approved, and sent to Printful, once every placement any of its items prints on has an approved design.
+ * @since 2026-10-18
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/error.middleware.js';
+import { EXTRA_PRINT_PLACEMENTS } from '../config/print-areas.js';
+import { getPlacementsMissingApproval } from '../policies/order-policy.js';
+import type {
+  DesignPlacement,
+  ExtraPrintPlacement,
+  OrderItemPlacementRecord,
+  OrderPlacementApproval,
+} from '../types/print-placement.js';
+
+type TransactionClient = PrismaClient;
+
+/**
+ * Extra placements in display order
+ */
+const EXTRA_PLACEMENT_ORDER = Object.keys(EXTRA_PRINT_PLACEMENTS) as ExtraPrintPlacement[];
+
+/**
+ * @function isExtraPlacement
+ * @description Type guard for extra placement keys
+ *
+ * @param {unknown} value - Raw value
+ *
+ * @returns {boolean} True when the value is a key of EXTRA_PRINT_PLACEMENTS
+ */
+export function isExtraPlacement(value: unknown): value is ExtraPrintPlacement {
+  return typeof value === 'string' && value in EXTRA_PRINT_PLACEMENTS;
+}
+
+/**
+ * @function getPlacementLabel
+ * @description Customer-facing name of a placement, e.g. "Left sleeve"
+ *
+ * @param {string} placement - Design placement
+ *
+ * @returns {string} Label
+ */
+export function getPlacementLabel(placement: string): string {
+  return isExtraPlacement(placement) ? EXTRA_PRINT_PLACEMENTS[placement].label : 'Front';
+}
+
+/**
+ * @function parseExtraPlacements
+ * @description Validates the list of extra placements requested for an item
+ *
+ * @param {unknown} value - Raw `placements` request field
+ *
+ * @returns {ExtraPrintPlacement[]} Unique placements in display order
+ *
+ * @throws {AppError} 400 when the value is not an array of known placements
+ */
+export function parseExtraPlacements(value: unknown): ExtraPrintPlacement[] {
+  if (!Array.isArray(value)) {
+    throw new AppError('placements must be an array', 400);
+  }
+
+  const unknown = value.filter((placement) => !isExtraPlacement(placement));
+  if (unknown.length) {
+    throw new AppError(
+      `Unknown print placement. Use any of: ${EXTRA_PLACEMENT_ORDER.join(', ')}`,
+      400
+    );
+  }
+
+  return EXTRA_PLACEMENT_ORDER.filter((placement) => value.includes(placement));
+}
+
+/**
+ * @function getConfiguredPlacements
+ * @description Every placement an order prints on: the front, then each extra placement used by
+ * any of its items
+ *
+ * @param {Array<{placements?: OrderItemPlacementRecord[]}>} items - Order items with their extra placements
+ *
+ * @returns {DesignPlacement[]} Placements in display order
+ */
+export function getConfiguredPlacements(
+  items: Array<{ placements?: OrderItemPlacementRecord[] }>
+): DesignPlacement[] {
+  const used = new Set(items.flatMap((item) => (item.placements ?? []).map((p) => p.placement)));
+  return ['front', ...EXTRA_PLACEMENT_ORDER.filter((placement) => used.has(placement))];
+}
+
+/**
+ * @function parseDesignPlacement
+ * @description Validates the optional `placement` field on generation requests against the
+ * placements the order prints on
+ *
+ * @param {unknown} value - Raw request value
+ * @param {DesignPlacement[]} configured - Placements of the order
+ *
+ * @returns {DesignPlacement} Placement for the new designs (defaults to `front`)
+ *
+ * @throws {AppError} 400 when the order does not print on that placement
+ */
+export function parseDesignPlacement(
+  value: unknown,
+  configured: DesignPlacement[]
+): DesignPlacement {
+  if (value === undefined || value === null || value === '' || value === 'front') {
+    return 'front';
+  }
+
+  if (!isExtraPlacement(value) || !configured.includes(value)) {
+    throw new AppError(
+      `This order does not print there. Use one of: ${configured.join(', ')}`,
+      400
+    );
+  }
+
+  return value;
+}
+
+/**
+ * @function getItemPlacementTotal
+ * @description Total charged for an item's extra placements, per unit
+ *
+ * @param {OrderItemPlacementRecord[] | undefined} placements - Item's extra placements
+ *
+ * @returns {number} Dollars
+ */
+export function getItemPlacementTotal(placements: OrderItemPlacementRecord[] | undefined): number {
+  return (placements ?? []).reduce((sum, placement) => sum + Number(placement.price), 0);
+}
+
+/**
+ * @function getOrderPlacementApproval
+ * @description Which placements of an order have an approved design and which are still missing one
+ *
+ * @param {TransactionClient} client - Prisma client or transaction client
+ * @param {string} orderId - Order to check
+ *
+ * @returns {Promise<OrderPlacementApproval>} Placements, approved design per placement and missing placements
+ *
+ * @async
+ */
+export async function getOrderPlacementApproval(
+  client: TransactionClient,
+  orderId: string
+): Promise<OrderPlacementApproval> {
+  const [items, approvedDesigns] = await Promise.all([
+    client.orderItem.findMany({ where: { orderId }, include: { placements: true } }),
+    client.design.findMany({
+      where: { orderId, approvalStatus: true },
+      select: { id: true, placement: true },
+      orderBy: { approvedAt: 'desc' },
+    }),
+  ]);
+
+  const placements = getConfiguredPlacements(items);
+  const approved: Partial<Record<DesignPlacement, string>> = {};
+  for (const design of approvedDesigns as Array<{ id: string; placement: DesignPlacement }>) {
+    approved[design.placement] ??= design.id;
+  }
+
+  return {
+    placements,
+    approved,
+    missing: getPlacementsMissingApproval(placements, Object.keys(approved)) as DesignPlacement[],
+  };
+}
+
+/**
+ * @function linkApprovedDesign
+ * @description Points every item (front) or every item placement row (extras) at the design just
+ * approved for that placement
+ *
+ * @param {TransactionClient} tx - Transaction client
+ * @param {string} orderId - Order of the design
+ * @param {{id: string, placement?: string | null}} design - Approved design
+ *
+ * @returns {Promise<void>} Resolves when the rows are updated
+ *
+ * @async
+ */
+export async function linkApprovedDesign(
+  tx: TransactionClient,
+  orderId: string,
+  design: { id: string; placement?: string | null }
+): Promise<void> {
+  if (!design.placement || design.placement === 'front') {
+    await tx.orderItem.updateMany({ where: { orderId }, data: { designId: design.id } });
+    return;
+  }
+
+  await tx.orderItemPlacement.updateMany({
+    where: { placement: design.placement, orderItem: { orderId } },
+    data: { designId: design.id },
+  });
+}
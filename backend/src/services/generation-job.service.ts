@@ -0,0 +1,732 @@
+/**
+ * @module services/generation-job
+ * @description Persisted design generation queue and in-process worker. Controllers create a GENERATING Design plus a `generation_jobs` row and return immediately; the worker claims jobs from the table, runs moderation, generation and storage upload, and finishes the Design as COMPLETED or FAILED (with a stored reason). Transient failures (rate limits, upstream 5xx, network and database hiccups) are retried with exponential backoff up to `maxAttempts`, reusing an image that was already generated. The worker also sweeps designs whose image upload failed and retries them until they are stored or their provider URL expires.
+ * @since 2026-10-18
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/error.middleware.js';
+import { editDesign, generateDesign, moderateImage } from './openai.service.js';
+import { hasPendingModerationReview } from './moderation.service.js';
+import {
+  MAX_STORAGE_ATTEMPTS,
+  PROVIDER_URL_TTL_MS,
+  getStorageRetryAt,
+  storeDesignImage,
+} from './design-storage.service.js';
+import { sendAnalyticsEvent } from './analytics.service.js';
+import { publishDesignEvent } from './design-events.service.js';
+import { isOrderActionAllowed } from '../policies/order-policy.js';
+import type { DesignStreamEventType } from '../types/design-events.js';
+import type { DesignBatchRecord } from '../types/design-batch.js';
+import type { DesignStorageSweepResult, StoredDesignImage } from '../types/design-storage.js';
+import type {
+  GenerationJobPayload,
+  GenerationJobRecord,
+  GenerationJobResult,
+} from '../types/generation-job.js';
+
+type TransactionClient = PrismaClient;
+
+/**
+ * Polling interval for picking up queued and retry-scheduled jobs
+ */
+const POLL_INTERVAL_MS = Number(process.env.GENERATION_WORKER_POLL_MS) || 2000;
+
+/**
+ * Maximum jobs processed concurrently by this process
+ */
+const MAX_CONCURRENCY = Number(process.env.GENERATION_WORKER_CONCURRENCY) || 2;
+
+/**
+ * Attempts per job (first run + retries)
+ */
+const MAX_ATTEMPTS = Number(process.env.GENERATION_JOB_MAX_ATTEMPTS) || 3;
+
+/**
+ * Base delay for exponential retry backoff (5s, 10s, 20s, ...)
+ */
+const RETRY_BASE_DELAY_MS = 5000;
+
+/**
+ * RUNNING jobs locked longer than this are assumed orphaned (process restart) and requeued
+ */
+const STALE_LOCK_MS = 5 * 60 * 1000;
+
+/**
+ * How often to retry designs whose image upload failed, and how many per sweep
+ */
+const STORAGE_SWEEP_INTERVAL_MS = 30 * 1000;
+const STORAGE_SWEEP_BATCH_SIZE = 10;
+
+/**
+ * Failure reason shown when a design's image expired before it could be stored
+ */
+const EXPIRED_IMAGE_REASON =
+  'This image expired before it could be saved. Regenerate it to get it back.';
+
+/**
+ * Failure reason for jobs that kept stopping mid-run (e.g. crashing the worker) until out of attempts
+ */
+const STALE_JOB_REASON = 'Generation stopped before it finished. Please try again.';
+
+/**
+ * Error codes worth retrying: dropped, refused or timed-out connections and DNS hiccups from
+ * `http`/`fetch`, and Prisma's connection, pool timeout and write-conflict errors
+ */
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+  'P1001',
+  'P1002',
+  'P1008',
+  'P1017',
+  'P2024',
+  'P2034',
+]);
+
+let pollTimer: NodeJS.Timeout | null = null;
+let lastStaleSweepAt = 0;
+let lastStorageSweepAt = 0;
+let storageSweeping = false;
+let activeJobs = 0;
+let draining = false;
+
+/**
+ * @function createGenerationJob
+ * @description Persists a queued generation job for a GENERATING design. Accepts a transaction client so the Design row, order counters and job are written atomically.
+ *
+ * @param {TransactionClient} client - Prisma client or transaction client
+ * @param {string} designId - Design to populate
+ * @param {GenerationJobPayload} payload - Generation parameters
+ *
+ * @returns {Promise<GenerationJobRecord>} Created job
+ *
+ * @async
+ */
+export async function createGenerationJob(
+  client: TransactionClient,
+  designId: string,
+  payload: GenerationJobPayload
+): Promise<GenerationJobRecord> {
+  return client.generationJob.create({
+    data: {
+      designId,
+      payload,
+      maxAttempts: MAX_ATTEMPTS,
+    },
+  });
+}
+
+/**
+ * @function isRetryableError
+ * @description Operational errors below 429 (moderation, invalid prompt) are permanent; rate limits and upstream 5xx are retried. Other errors are only retried when they (or their `cause`) carry a known transient network or database code, so bugs and permanent failures fail the job straight away.
+ *
+ * @param {unknown} error - Error thrown by the pipeline
+ *
+ * @returns {boolean} True when the job should be retried
+ */
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof AppError) {
+    return error.statusCode >= 429;
+  }
+  const { code, cause } = (error ?? {}) as { code?: unknown; cause?: unknown };
+  if (typeof code === 'string' && TRANSIENT_ERROR_CODES.has(code)) {
+    return true;
+  }
+  return cause !== undefined && cause !== error && isRetryableError(cause);
+}
+
+/**
+ * @function claimNextJob
+ * @description Claims the oldest runnable job using a conditional update so concurrent workers never run the same job twice.
+ *
+ * @returns {Promise<GenerationJobRecord | null>} Claimed job (attempts already incremented) or null
+ *
+ * @async
+ */
+async function claimNextJob(): Promise<GenerationJobRecord | null> {
+  const candidate = await prisma.generationJob.findFirst({
+    where: { status: 'QUEUED', runAfter: { lte: new Date() } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (!candidate) return null;
+
+  const claimed = await prisma.generationJob.updateMany({
+    where: { id: candidate.id, status: 'QUEUED' },
+    data: {
+      status: 'RUNNING',
+      lockedAt: new Date(),
+      attempts: { increment: 1 },
+    },
+  });
+
+  if (claimed.count === 0) {
+    // Another worker won the race; try the next one
+    return claimNextJob();
+  }
+
+  return { ...candidate, status: 'RUNNING', attempts: candidate.attempts + 1 };
+}
+
+/**
+ * @function failDesign
+ * @description Marks a design FAILED and releases the design slot reserved on the order. A batch holds a single slot, so it is only released once every variation in the batch has failed.
+ *
+ * @param {TransactionClient} tx - Transaction client
+ * @param {string} designId - Design that failed
+ * @param {string} reason - Customer-facing failure reason
+ * @param {Record<string, unknown>} [data] - Extra design fields to set
+ *
+ * @returns {Promise<Object>} Failed design
+ *
+ * @async
+ */
+async function failDesign(
+  tx: TransactionClient,
+  designId: string,
+  reason: string,
+  data: Record<string, unknown> = {}
+) {
+  const failedDesign = await tx.design.update({
+    where: { id: designId },
+    data: { ...data, status: 'FAILED', failureReason: reason },
+  });
+
+  let releaseSlot = Boolean(failedDesign.orderId);
+  if (failedDesign.batchId) {
+    // The increment row-locks the batch, so concurrent failures see each other's counts
+    const batch: DesignBatchRecord = await tx.designBatch.update({
+      where: { id: failedDesign.batchId },
+      data: { failedCount: { increment: 1 } },
+    });
+    releaseSlot = releaseSlot && batch.failedCount >= batch.size;
+  }
+
+  if (releaseSlot) {
+    await tx.order.updateMany({
+      where: { id: failedDesign.orderId, designsGenerated: { gt: 0 } },
+      data: { designsGenerated: { decrement: 1 } },
+    });
+  }
+
+  return failedDesign;
+}
+
+/**
+ * @function failJob
+ * @description Marks a job and its design FAILED, releasing the design's slot (see `failDesign`).
+ *
+ * @param {GenerationJobRecord} job - Job that exhausted retries or hit a permanent error
+ * @param {string} reason - Customer-facing failure reason
+ *
+ * @returns {Promise<Object>} Failed design
+ *
+ * @async
+ */
+async function failJob(job: GenerationJobRecord, reason: string) {
+  const design = await prisma.$transaction(async (tx: TransactionClient) => {
+    await tx.generationJob.update({
+      where: { id: job.id },
+      data: { status: 'FAILED', lastError: reason, lockedAt: null, completedAt: new Date() },
+    });
+
+    return failDesign(tx, job.designId, reason);
+  });
+
+  sendAnalyticsEvent({
+    event: 'design.generate.failed',
+    properties: {
+      order_id: design.orderId,
+      design_id: design.id,
+      user_id: design.userId,
+      attempts: job.attempts,
+      reason,
+      batch_id: design.batchId,
+      batch_index: design.batchIndex,
+    },
+  }).catch((err) => console.error('Failed to send design.generate.failed analytics', err));
+
+  return design;
+}
+
+/**
+ * @function runJob
+ * @description Executes one claimed job: moderation + generation (or a mask edit of the parent design), storage upload, output image moderation, then completion. The generated image, and then the upload, are saved on the job as they finish, so a retry after a later step failed picks up from there rather than generating (and paying for) the image again. A failed upload doesn't fail the job: the design completes on the provider URL with `storageStatus` PENDING and the storage sweep retries it. Designs with a flagged image or an unresolved moderation error complete held for admin review.
+ *
+ * @param {GenerationJobRecord} job - Claimed job
+ *
+ * @async
+ */
+async function runJob(job: GenerationJobRecord): Promise<void> {
+  const target = await prisma.design.findUnique({
+    where: { id: job.designId },
+    select: {
+      orderId: true,
+      userId: true,
+      batch: { select: { size: true } },
+      order: { select: { previewGuestToken: true } },
+    },
+  });
+  const publish = (
+    type: DesignStreamEventType,
+    status?: string,
+    data?: Record<string, unknown>
+  ): void => {
+    if (target?.orderId) {
+      publishDesignEvent(type, { orderId: target.orderId, designId: job.designId, status, data });
+    }
+  };
+
+  try {
+    const hooks = {
+      onModerationPassed: () => publish('design.moderation_passed', 'GENERATING'),
+    };
+    const callContext = {
+      designId: job.designId,
+      orderId: target?.orderId ?? undefined,
+      userId: target?.userId,
+      guestSession: target?.order?.previewGuestToken ?? undefined,
+    };
+    let result: GenerationJobResult | null = job.result;
+    if (!result) {
+      const { edit, ...params } = job.payload;
+      const { imageUrl, imageBuffer, ...generated } = edit
+        ? await editDesign(
+            { ...edit, instruction: params.prompt, provider: params.provider },
+            hooks,
+            callContext
+          )
+        : await generateDesign(params, hooks, callContext);
+      publish('design.image_generated', 'GENERATING', { aiModel: generated.aiModel });
+
+      if (imageBuffer) {
+        // Returned bytes exist only in memory; store them now and keep just the stored URLs
+        let stored: StoredDesignImage;
+        try {
+          stored = await storeDesignImage(job.designId, imageBuffer);
+        } catch (uploadError) {
+          console.error(`Storage upload failed for design ${job.designId}:`, uploadError);
+          throw new AppError('Image storage is unavailable. Please try again later.', 503);
+        }
+        publish('design.uploaded', 'GENERATING');
+        result = { ...generated, imageUrl: stored.imageUrl, stored, storageError: null };
+      } else if (imageUrl) {
+        result = { ...generated, imageUrl };
+      } else {
+        throw new Error('Image provider returned no image');
+      }
+      await prisma.generationJob.update({ where: { id: job.id }, data: { result } });
+    } else {
+      console.log(`Generation job ${job.id} reusing the image from an earlier attempt`);
+    }
+    const { imageUrl, revisedPrompt, aiModel } = result;
+
+    if (result.stored === undefined) {
+      let uploaded: StoredDesignImage | null = null;
+      let uploadErrorMessage: string | null = null;
+      try {
+        uploaded = await storeDesignImage(job.designId, imageUrl);
+        publish('design.uploaded', 'GENERATING');
+      } catch (uploadError) {
+        uploadErrorMessage = uploadError instanceof Error ? uploadError.message : 'Upload failed';
+        console.error(
+          `Storage upload failed for design ${job.designId}; the storage sweep will retry:`,
+          uploadError
+        );
+      }
+      result = { ...result, stored: uploaded, storageError: uploadErrorMessage };
+      await prisma.generationJob.update({ where: { id: job.id }, data: { result } });
+    }
+    const stored = result.stored ?? null;
+    const storageError = result.storageError ?? null;
+    const storedImageUrl = stored?.imageUrl ?? imageUrl;
+
+    const imageHeld = await moderateImage(storedImageUrl, callContext);
+    const moderationStatus =
+      imageHeld || (await hasPendingModerationReview(job.designId)) ? 'PENDING_REVIEW' : null;
+
+    const design = await prisma.$transaction(async (tx: TransactionClient) => {
+      await tx.generationJob.update({
+        where: { id: job.id },
+        data: { status: 'SUCCEEDED', lastError: null, lockedAt: null, completedAt: new Date() },
+      });
+
+      return tx.design.update({
+        where: { id: job.designId },
+        data: {
+          imageUrl: storedImageUrl,
+          thumbnailUrl: stored?.thumbnailUrl ?? imageUrl,
+          transparentImageUrl: stored?.transparentImageUrl ?? null,
+          imageVariants: stored?.imageVariants ?? [],
+          placeholder: stored?.placeholder ?? null,
+          storageStatus: stored ? 'STORED' : 'PENDING',
+          sourceImageUrl: stored ? null : imageUrl,
+          storageAttempts: 1,
+          storageError,
+          storageRetryAt: stored ? null : getStorageRetryAt(1),
+          moderationStatus,
+          revisedPrompt,
+          aiModel,
+          status: 'COMPLETED',
+          failureReason: null,
+          generatedAt: new Date(),
+        },
+      });
+    });
+
+    console.log(`✓ Generation job ${job.id} completed design ${job.designId}`);
+    publish('design.completed', 'COMPLETED', { design });
+
+    sendAnalyticsEvent({
+      event: 'design.generate.success',
+      properties: {
+        order_id: design.orderId,
+        design_id: design.id,
+        user_id: design.userId,
+        ai_model: aiModel,
+        attempts: job.attempts,
+        batch_id: design.batchId,
+        batch_size: target?.batch?.size ?? 1,
+        batch_index: design.batchIndex,
+        moderation_status: moderationStatus,
+        storage_status: stored ? 'STORED' : 'PENDING',
+      },
+    }).catch((err) => console.error('Failed to send design.generate.success analytics', err));
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to generate design';
+    const retryable = isRetryableError(error);
+
+    if (retryable && job.attempts < job.maxAttempts) {
+      const delayMs = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+      console.warn(
+        `Generation job ${job.id} attempt ${job.attempts}/${job.maxAttempts} failed, retrying in ${delayMs}ms:`,
+        message
+      );
+      await prisma.generationJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'QUEUED',
+          lastError: message,
+          lockedAt: null,
+          runAfter: new Date(Date.now() + delayMs),
+        },
+      });
+      publish('design.retry_scheduled', 'GENERATING', {
+        attempt: job.attempts,
+        maxAttempts: job.maxAttempts,
+        retryInMs: delayMs,
+      });
+      return;
+    }
+
+    console.error(`❌ Generation job ${job.id} failed permanently:`, message);
+    await failJob(job, message);
+    publish('design.failed', 'FAILED', { reason: message });
+  }
+}
+
+/**
+ * @function requeueStaleJobs
+ * @description Returns RUNNING jobs whose lock expired (e.g. the dyno restarted mid-job) to the queue. Jobs already at `maxAttempts` are failed instead, so a job that keeps crashing the worker cannot run forever.
+ *
+ * @async
+ */
+async function requeueStaleJobs(): Promise<void> {
+  lastStaleSweepAt = Date.now();
+  const stale: (GenerationJobRecord & { lockedAt: Date | null })[] =
+    await prisma.generationJob.findMany({
+      where: { status: 'RUNNING', lockedAt: { lt: new Date(Date.now() - STALE_LOCK_MS) } },
+    });
+
+  let requeued = 0;
+  for (const job of stale) {
+    const exhausted = job.attempts >= job.maxAttempts;
+    // Conditional on the lock we read, so another process sweeping at the same time skips it
+    const { count } = await prisma.generationJob.updateMany({
+      where: { id: job.id, status: 'RUNNING', lockedAt: job.lockedAt },
+      data: exhausted ? { lockedAt: new Date() } : { status: 'QUEUED', lockedAt: null },
+    });
+    if (count === 0) continue;
+
+    if (!exhausted) {
+      requeued += 1;
+      continue;
+    }
+
+    console.error(
+      `❌ Generation job ${job.id} stopped mid-run on all ${job.maxAttempts} attempts; failing it`
+    );
+    const design = await failJob(job, STALE_JOB_REASON);
+    if (design.orderId) {
+      publishDesignEvent('design.failed', {
+        orderId: design.orderId,
+        designId: design.id,
+        status: 'FAILED',
+        data: { reason: STALE_JOB_REASON },
+      });
+    }
+  }
+
+  if (requeued > 0) {
+    console.warn(`Requeued ${requeued} stale generation job(s)`);
+  }
+}
+
+/**
+ * @function expireDesignImage
+ * @description Gives up on storing a design's image. Unapproved designs fail with a reason asking
+ * the customer to regenerate, releasing their slot when `releaseSlot` is set; approved ones keep
+ * their status so the order history stays intact, but fulfillment refuses them until the order
+ * gets a stored design.
+ *
+ * @param {Object} design - Design row
+ * @param {string | null} lastError - Last upload error
+ * @param {boolean} releaseSlot - Whether to give the design's slot back to the order
+ *
+ * @async
+ */
+async function expireDesignImage(
+  design: { id: string; orderId: string | null; approvalStatus: boolean; storageAttempts: number },
+  lastError: string | null,
+  releaseSlot: boolean
+): Promise<void> {
+  const storage = {
+    storageStatus: 'EXPIRED',
+    storageError: lastError || 'Provider URL expired',
+    storageRetryAt: null,
+  };
+
+  if (design.approvalStatus) {
+    await prisma.design.update({ where: { id: design.id }, data: storage });
+    console.error(
+      `❌ Approved design ${design.id} was never stored and its image has expired; order ${design.orderId} needs a new design`
+    );
+    return;
+  }
+
+  const failed = releaseSlot
+    ? await prisma.$transaction((tx: TransactionClient) =>
+        failDesign(tx, design.id, EXPIRED_IMAGE_REASON, storage)
+      )
+    : await prisma.design.update({
+        where: { id: design.id },
+        data: { ...storage, status: 'FAILED', failureReason: EXPIRED_IMAGE_REASON },
+      });
+
+  if (failed.orderId) {
+    publishDesignEvent('design.failed', {
+      orderId: failed.orderId,
+      designId: failed.id,
+      status: 'FAILED',
+      data: { reason: EXPIRED_IMAGE_REASON, storageStatus: 'EXPIRED' },
+    });
+  }
+
+  sendAnalyticsEvent({
+    event: 'design.storage.expired',
+    properties: {
+      order_id: failed.orderId,
+      design_id: failed.id,
+      user_id: failed.userId,
+      attempts: design.storageAttempts,
+      reason: storage.storageError,
+    },
+  }).catch((err) => console.error('Failed to send design.storage.expired analytics', err));
+}
+
+/**
+ * @function reconcileDesignStorage
+ * @description One storage sweep: retries the upload of designs still on a provider URL whose
+ * retry time has come. Successes switch the design to the stored URLs; failures are rescheduled
+ * with exponential backoff until `MAX_STORAGE_ATTEMPTS`, and designs whose provider URL is older
+ * than `PROVIDER_URL_TTL_MS` are expired without another try (`data:` URLs do not expire). Only
+ * designs whose order can still generate get their slot back; rows the storage migration queued
+ * (no upload attempt yet) and orders past the design stage are failed without touching the order.
+ *
+ * @returns {Promise<DesignStorageSweepResult>} Designs stored, rescheduled and expired
+ *
+ * @async
+ */
+export async function reconcileDesignStorage(): Promise<DesignStorageSweepResult> {
+  lastStorageSweepAt = Date.now();
+  const result: DesignStorageSweepResult = { stored: 0, retried: 0, expired: 0 };
+
+  const candidates = await prisma.design.findMany({
+    where: {
+      storageStatus: 'PENDING',
+      status: { not: 'GENERATING' },
+      storageRetryAt: { lte: new Date() },
+    },
+    include: { order: { select: { status: true } } },
+    orderBy: { storageRetryAt: 'asc' },
+    take: STORAGE_SWEEP_BATCH_SIZE,
+  });
+
+  for (const design of candidates) {
+    // Push the retry time out while we work so another worker skips this design
+    const claimed = await prisma.design.updateMany({
+      where: { id: design.id, storageStatus: 'PENDING', storageRetryAt: design.storageRetryAt },
+      data: { storageRetryAt: new Date(Date.now() + STALE_LOCK_MS) },
+    });
+    if (claimed.count === 0) continue;
+
+    const sourceUrl: string = design.sourceImageUrl || design.imageUrl;
+    const attempts = design.storageAttempts + 1;
+    let lastError: string | null = design.storageError;
+
+    const urlExpired =
+      !sourceUrl?.startsWith('data:') &&
+      Date.now() - design.generatedAt.getTime() >= PROVIDER_URL_TTL_MS;
+
+    if (sourceUrl && !urlExpired) {
+      try {
+        const stored = await storeDesignImage(design.id, sourceUrl);
+        const updated = await prisma.design.update({
+          where: { id: design.id },
+          data: {
+            ...stored,
+            storageStatus: 'STORED',
+            sourceImageUrl: null,
+            storageAttempts: attempts,
+            storageError: null,
+            storageRetryAt: null,
+          },
+        });
+        result.stored += 1;
+        if (updated.orderId) {
+          publishDesignEvent('design.uploaded', {
+            orderId: updated.orderId,
+            designId: updated.id,
+            status: updated.status,
+            data: { design: updated },
+          });
+        }
+        continue;
+      } catch (error: unknown) {
+        lastError = error instanceof Error ? error.message : 'Upload failed';
+      }
+
+      if (attempts < MAX_STORAGE_ATTEMPTS) {
+        await prisma.design.update({
+          where: { id: design.id },
+          data: {
+            storageAttempts: attempts,
+            storageError: lastError,
+            storageRetryAt: getStorageRetryAt(attempts),
+          },
+        });
+        result.retried += 1;
+        continue;
+      }
+    }
+
+    const releaseSlot =
+      design.storageAttempts > 0 &&
+      Boolean(design.order) &&
+      isOrderActionAllowed('design_generate_authed', design.order.status);
+    await expireDesignImage({ ...design, storageAttempts: attempts }, lastError, releaseSlot);
+    result.expired += 1;
+  }
+
+  if (result.stored || result.expired) {
+    console.log(
+      `Design storage sweep: ${result.stored} stored, ${result.retried} rescheduled, ${result.expired} expired`
+    );
+  }
+  return result;
+}
+
+/**
+ * @function drainQueue
+ * @description Claims and starts jobs until the queue is empty or concurrency is saturated.
+ *
+ * @async
+ */
+async function drainQueue(): Promise<void> {
+  if (draining) return;
+  draining = true;
+
+  try {
+    while (activeJobs < MAX_CONCURRENCY) {
+      const job = await claimNextJob();
+      if (!job) break;
+
+      activeJobs += 1;
+      runJob(job)
+        .catch((error) => console.error(`Generation job ${job.id} crashed:`, error))
+        .finally(() => {
+          activeJobs -= 1;
+          kickGenerationWorker();
+        });
+    }
+  } catch (error) {
+    console.error('Generation worker poll failed:', error);
+  } finally {
+    draining = false;
+  }
+}
+
+/**
+ * @function kickGenerationWorker
+ * @description Asks the worker to look for work now instead of waiting for the next poll. Call after committing a new job.
+ */
+export function kickGenerationWorker(): void {
+  setImmediate(() => {
+    void drainQueue();
+  });
+}
+
+/**
+ * @function startGenerationWorker
+ * @description Starts the polling worker, which also runs the design storage sweep every 30 seconds. Safe to call once per process at boot.
+ *
+ * @example
+ * await connectDatabase();
+ * startGenerationWorker();
+ */
+export function startGenerationWorker(): void {
+  if (pollTimer) return;
+
+  pollTimer = setInterval(() => {
+    const sweep =
+      Date.now() - lastStaleSweepAt >= STALE_LOCK_MS / 5 ? requeueStaleJobs() : Promise.resolve();
+    sweep
+      .catch((error) => console.error('Failed to requeue stale jobs:', error))
+      .finally(() => void drainQueue());
+
+    if (!storageSweeping && Date.now() - lastStorageSweepAt >= STORAGE_SWEEP_INTERVAL_MS) {
+      storageSweeping = true;
+      reconcileDesignStorage()
+        .catch((error) => console.error('Design storage sweep failed:', error))
+        .finally(() => {
+          storageSweeping = false;
+        });
+    }
+  }, POLL_INTERVAL_MS);
+
+  console.log(`✓ Generation worker started (concurrency ${MAX_CONCURRENCY})`);
+}
+
+/**
+ * @function stopGenerationWorker
+ * @description Stops polling. In-flight jobs finish; unfinished ones are requeued by the stale-lock sweep.
+ */
+export function stopGenerationWorker(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
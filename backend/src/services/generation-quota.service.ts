@@ -0,0 +1,542 @@
+/**
+ * @module services/generation-quota
+ * @description Generation quotas: rolling-window image limits per guest token, IP and user, a
+ * global daily limit, and an estimated-spend ceiling that trips a circuit breaker. Usage is kept
+ * in `generation_usage` (one row per queued request), limits come from the Settings table with
+ * fallback to `config/generation-quotas`, and refusals are 429s carrying a `code` and
+ * `retryAfterSeconds` the studio turns into friendly copy.
+ * @since 2026-10-18
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import prisma from '../config/database.js';
+import {
+  GENERATION_QUOTA_DEFAULTS,
+  IMAGE_COST_ESTIMATES_USD,
+} from '../config/generation-quotas.js';
+import { AppError } from '../middleware/error.middleware.js';
+import { sendAnalyticsEvent } from './analytics.service.js';
+import type {
+  GenerationQuotaCode,
+  GenerationQuotaLimits,
+  GenerationQuotaStatus,
+  GenerationUsageEntry,
+  GenerationUsageRequest,
+  RollingQuota,
+} from '../types/generation-quota.js';
+
+type TransactionClient = PrismaClient;
+
+/**
+ * Database setting keys for quota limits
+ */
+const QUOTA_SETTING_KEYS = {
+  guestImages: 'quota_guest_images',
+  guestWindowMinutes: 'quota_guest_window_minutes',
+  ipImages: 'quota_ip_images',
+  ipWindowMinutes: 'quota_ip_window_minutes',
+  userImages: 'quota_user_images',
+  userWindowMinutes: 'quota_user_window_minutes',
+  globalDailyImages: 'quota_global_daily_images',
+  dailySpendCapUsd: 'spend_cap_daily_usd',
+  breakerCooldownMinutes: 'spend_breaker_cooldown_minutes',
+} as const;
+
+type QuotaSettingField = keyof typeof QUOTA_SETTING_KEYS;
+
+/**
+ * Setting holding the time the spend breaker closes again (ISO string, empty when closed)
+ */
+const BREAKER_OPEN_UNTIL_KEY = 'spend_breaker_open_until';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Transaction-scoped advisory lock serialising ledger writes, so concurrent requests cannot all
+ * pass the count before any of them inserts. One key for every caller because the global and
+ * spend limits span them all.
+ */
+const USAGE_LOCK_KEY = 'generation_usage';
+
+/**
+ * Customer-facing copy per refusal
+ */
+const QUOTA_MESSAGES: Record<GenerationQuotaCode, string> = {
+  guest_quota:
+    'You’ve made a lot of designs in a short time. Sign in or try again in a little while.',
+  ip_quota:
+    'Too many designs are being made from your network right now. Please try again shortly.',
+  user_quota: 'You’ve reached the hourly design limit. Please try again shortly.',
+  global_quota: 'We’re making a lot of designs right now. Please try again later.',
+  spend_cap: 'Design generation is paused for a little while. Please try again later.',
+};
+
+/**
+ * @class GenerationQuotaError
+ * @extends AppError
+ * @description 429 for a refused generation request. The error handler adds `code` and
+ * `retryAfterSeconds` to the response body and sets the Retry-After header.
+ *
+ * @property {GenerationQuotaCode} code - Which limit refused the request
+ * @property {number} retryAfterSeconds - When the caller can try again
+ */
+export class GenerationQuotaError extends AppError {
+  code: GenerationQuotaCode;
+  retryAfterSeconds: number;
+
+  /**
+   * @constructor
+   * @param {GenerationQuotaCode} code - Which limit refused the request
+   * @param {number} retryAfterSeconds - When the caller can try again
+   */
+  constructor(code: GenerationQuotaCode, retryAfterSeconds: number) {
+    super(QUOTA_MESSAGES[code], 429);
+    this.code = code;
+    this.retryAfterSeconds = Math.max(1, Math.ceil(retryAfterSeconds));
+  }
+}
+
+/**
+ * @function parseNumberSetting
+ * @description Parses a numeric setting, ignoring missing, invalid and negative values
+ *
+ * @param {string | undefined} raw - Raw setting string from database
+ *
+ * @returns {number | null} Parsed number or null
+ */
+function parseNumberSetting(raw: string | undefined): number | null {
+  if (!raw) return null;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+/**
+ * @function getGenerationQuotaLimits
+ * @description Effective quota limits: database settings merged over the config defaults. Window
+ * and cooldown lengths below one minute fall back to the default.
+ *
+ * @returns {Promise<GenerationQuotaLimits>} Current limits
+ *
+ * @async
+ */
+export async function getGenerationQuotaLimits(): Promise<GenerationQuotaLimits> {
+  const settings = await prisma.settings.findMany({
+    where: { key: { in: Object.values(QUOTA_SETTING_KEYS) } },
+  });
+  const settingsMap = new Map<string, string>(
+    settings.map((s: { key: string; value: string }) => [s.key, s.value])
+  );
+  const read = (field: QuotaSettingField) =>
+    parseNumberSetting(settingsMap.get(QUOTA_SETTING_KEYS[field]));
+  const minutes = (field: QuotaSettingField, fallback: number) => {
+    const value = read(field);
+    return value !== null && value >= 1 ? value : fallback;
+  };
+  const defaults = GENERATION_QUOTA_DEFAULTS;
+
+  return {
+    guest: {
+      images: read('guestImages') ?? defaults.guest.images,
+      windowMinutes: minutes('guestWindowMinutes', defaults.guest.windowMinutes),
+    },
+    ip: {
+      images: read('ipImages') ?? defaults.ip.images,
+      windowMinutes: minutes('ipWindowMinutes', defaults.ip.windowMinutes),
+    },
+    user: {
+      images: read('userImages') ?? defaults.user.images,
+      windowMinutes: minutes('userWindowMinutes', defaults.user.windowMinutes),
+    },
+    globalDailyImages: read('globalDailyImages') ?? defaults.globalDailyImages,
+    dailySpendCapUsd: read('dailySpendCapUsd') ?? defaults.dailySpendCapUsd,
+    breakerCooldownMinutes: minutes('breakerCooldownMinutes', defaults.breakerCooldownMinutes),
+  };
+}
+
+/**
+ * @function getBreakerOpenUntil
+ * @description When the spend breaker closes, or null while it is closed
+ *
+ * @param {Date} now - Reference time
+ *
+ * @returns {Promise<Date | null>} Close time when the breaker is open
+ *
+ * @async
+ */
+async function getBreakerOpenUntil(now: Date): Promise<Date | null> {
+  const setting = await prisma.settings.findUnique({ where: { key: BREAKER_OPEN_UNTIL_KEY } });
+  const openUntil = setting?.value ? new Date(setting.value) : null;
+  return openUntil && openUntil.getTime() > now.getTime() ? openUntil : null;
+}
+
+/**
+ * @function writeSetting
+ * @description Creates or updates a Settings row
+ *
+ * @param {string} key - Setting key
+ * @param {string} value - Setting value
+ * @param {string} type - Setting type label
+ *
+ * @async
+ */
+async function writeSetting(key: string, value: string, type: string): Promise<void> {
+  await prisma.settings.upsert({
+    where: { key },
+    update: { value },
+    create: { key, value, type },
+  });
+}
+
+/**
+ * @function checkRollingQuota
+ * @description Throws when the images already used in the window plus this request exceed the
+ * quota. Retry-After is when the oldest counted request leaves the window.
+ *
+ * @param {TransactionClient} db - Prisma client or transaction
+ * @param {object} where - Prisma filter selecting the caller's usage rows
+ * @param {RollingQuota} quota - Limit and window
+ * @param {number} images - Images this request adds
+ * @param {GenerationQuotaCode} code - Code to refuse with
+ * @param {Date} now - Reference time
+ *
+ * @throws {GenerationQuotaError} 429 when over the quota
+ *
+ * @async
+ */
+async function checkRollingQuota(
+  db: TransactionClient,
+  where: Record<string, unknown>,
+  quota: RollingQuota,
+  images: number,
+  code: GenerationQuotaCode,
+  now: Date
+): Promise<void> {
+  if (quota.images <= 0) return;
+
+  const windowMs = quota.windowMinutes * 60 * 1000;
+  const scoped = { ...where, createdAt: { gte: new Date(now.getTime() - windowMs) } };
+  const usage = await db.generationUsage.aggregate({
+    where: scoped,
+    _sum: { images: true },
+  });
+
+  if ((usage._sum.images ?? 0) + images <= quota.images) return;
+
+  const oldest = await db.generationUsage.findFirst({
+    where: scoped,
+    orderBy: { createdAt: 'asc' },
+    select: { createdAt: true },
+  });
+  const retryAt = oldest ? oldest.createdAt.getTime() + windowMs : now.getTime() + windowMs;
+  throw new GenerationQuotaError(code, (retryAt - now.getTime()) / 1000);
+}
+
+/**
+ * @function enforceGenerationQuota
+ * @description Checks a generation request against the spend breaker and every quota that
+ * applies to the caller, in order: breaker, guest token, IP, user, global daily images, daily
+ * spend. Going over the spend cap opens the breaker for the cooldown, refusing every caller until
+ * it passes or an admin resets it. Refusals are logged to analytics as `design.generate.quota_hit`.
+ *
+ * @param {TransactionClient} db - Prisma client or transaction to count usage with
+ * @param {GenerationUsageRequest} request - Caller, order, source, provider and image count
+ * @param {number} estimatedCost - Estimated cost of the request in USD
+ *
+ * @throws {GenerationQuotaError} 429 when a limit refuses the request
+ *
+ * @async
+ */
+async function enforceGenerationQuota(
+  db: TransactionClient,
+  request: GenerationUsageRequest,
+  estimatedCost: number
+): Promise<void> {
+  const now = new Date();
+  const limits = await getGenerationQuotaLimits();
+
+  try {
+    const openUntil = await getBreakerOpenUntil(now);
+    if (openUntil) {
+      throw new GenerationQuotaError('spend_cap', (openUntil.getTime() - now.getTime()) / 1000);
+    }
+
+    if (request.guestToken) {
+      await checkRollingQuota(
+        db,
+        { guestToken: request.guestToken },
+        limits.guest,
+        request.images,
+        'guest_quota',
+        now
+      );
+    }
+    if (request.ipAddress) {
+      await checkRollingQuota(
+        db,
+        { ipAddress: request.ipAddress },
+        limits.ip,
+        request.images,
+        'ip_quota',
+        now
+      );
+    }
+    if (request.userId) {
+      await checkRollingQuota(
+        db,
+        { userId: request.userId },
+        limits.user,
+        request.images,
+        'user_quota',
+        now
+      );
+    }
+    await checkRollingQuota(
+      db,
+      {},
+      { images: limits.globalDailyImages, windowMinutes: 24 * 60 },
+      request.images,
+      'global_quota',
+      now
+    );
+
+    if (limits.dailySpendCapUsd > 0 && estimatedCost > 0) {
+      const spend = await db.generationUsage.aggregate({
+        where: { createdAt: { gte: new Date(now.getTime() - DAY_MS) } },
+        _sum: { estimatedCost: true },
+      });
+      const spentUsd = Number(spend._sum.estimatedCost ?? 0);
+
+      if (spentUsd + estimatedCost > limits.dailySpendCapUsd) {
+        const cooldownMs = limits.breakerCooldownMinutes * 60 * 1000;
+        await writeSetting(
+          BREAKER_OPEN_UNTIL_KEY,
+          new Date(now.getTime() + cooldownMs).toISOString(),
+          'datetime'
+        );
+        console.error(
+          `Generation spend breaker opened: $${spentUsd.toFixed(2)} estimated in 24h ` +
+            `(cap $${limits.dailySpendCapUsd}); paused for ${limits.breakerCooldownMinutes} min`
+        );
+        sendAnalyticsEvent({
+          event: 'generation.spend_breaker.opened',
+          properties: {
+            spent_usd: spentUsd,
+            cap_usd: limits.dailySpendCapUsd,
+            cooldown_minutes: limits.breakerCooldownMinutes,
+          },
+        }).catch((err) =>
+          console.error('Failed to send generation.spend_breaker.opened analytics', err)
+        );
+        throw new GenerationQuotaError('spend_cap', cooldownMs / 1000);
+      }
+    }
+  } catch (error) {
+    if (error instanceof GenerationQuotaError) {
+      sendAnalyticsEvent({
+        event: 'design.generate.quota_hit',
+        properties: {
+          code: error.code,
+          source: request.source,
+          order_id: request.orderId,
+          user_id: request.userId ?? null,
+          is_guest: Boolean(request.guestToken),
+          images: request.images,
+          retry_after_seconds: error.retryAfterSeconds,
+        },
+      }).catch((err) => console.error('Failed to send design.generate.quota_hit analytics', err));
+    }
+    throw error;
+  }
+}
+
+/**
+ * @function assertGenerationQuota
+ * @description Refuses a generation request up front when a quota or the spend breaker would
+ * stop it, before anything is queued. recordGenerationUsage checks again under the ledger lock.
+ *
+ * @param {GenerationUsageRequest} request - Caller, order, source, provider and image count
+ *
+ * @returns {Promise<GenerationUsageEntry>} Ledger entry to record with the queued designs
+ *
+ * @throws {GenerationQuotaError} 429 when a limit refuses the request
+ *
+ * @async
+ */
+export async function assertGenerationQuota(
+  request: GenerationUsageRequest
+): Promise<GenerationUsageEntry> {
+  const estimatedCost = request.images * (IMAGE_COST_ESTIMATES_USD[request.provider] ?? 0);
+  await enforceGenerationQuota(prisma, request, estimatedCost);
+  return { ...request, estimatedCost };
+}
+
+/**
+ * @function recordGenerationUsage
+ * @description Writes the ledger row for a queued request; call inside the transaction that
+ * creates its designs so refused or failed requests are not counted. Takes the ledger lock and
+ * repeats the quota checks first, so requests racing past assertGenerationQuota are refused here
+ * and their transaction rolls back.
+ *
+ * @param {TransactionClient} tx - Transaction client
+ * @param {GenerationUsageEntry} entry - Result of assertGenerationQuota
+ *
+ * @throws {GenerationQuotaError} 429 when a limit refuses the request
+ *
+ * @async
+ */
+export async function recordGenerationUsage(
+  tx: TransactionClient,
+  entry: GenerationUsageEntry
+): Promise<void> {
+  await tx.$executeRawUnsafe('SELECT pg_advisory_xact_lock(hashtext($1))', USAGE_LOCK_KEY);
+  await enforceGenerationQuota(tx, entry, entry.estimatedCost);
+
+  await tx.generationUsage.create({
+    data: {
+      userId: entry.userId ?? null,
+      guestToken: entry.guestToken ?? null,
+      ipAddress: entry.ipAddress ?? null,
+      orderId: entry.orderId,
+      source: entry.source,
+      provider: entry.provider,
+      images: entry.images,
+      estimatedCost: entry.estimatedCost,
+    },
+  });
+}
+
+/**
+ * @function getGenerationQuotaStatus
+ * @description Limits, last-24-hour usage and breaker state for the admin
+ *
+ * @returns {Promise<GenerationQuotaStatus>} Quota status
+ *
+ * @async
+ */
+export async function getGenerationQuotaStatus(): Promise<GenerationQuotaStatus> {
+  const now = new Date();
+  const [limits, usage, openUntil] = await Promise.all([
+    getGenerationQuotaLimits(),
+    prisma.generationUsage.aggregate({
+      where: { createdAt: { gte: new Date(now.getTime() - DAY_MS) } },
+      _sum: { images: true, estimatedCost: true },
+    }),
+    getBreakerOpenUntil(now),
+  ]);
+
+  return {
+    limits,
+    last24Hours: {
+      images: usage._sum.images ?? 0,
+      estimatedSpendUsd: Number(usage._sum.estimatedCost ?? 0),
+    },
+    breakerOpenUntil: openUntil ? openUntil.toISOString() : null,
+  };
+}
+
+/**
+ * @function parseQuotaNumber
+ * @description Validates one admin quota value
+ *
+ * @param {unknown} value - Raw body value
+ * @param {string} field - Field name for error messages
+ * @param {object} rules - `integer` and `min`
+ *
+ * @returns {number | undefined} Value, or undefined when not provided
+ *
+ * @throws {AppError} 400 when the value is not a number in range
+ */
+function parseQuotaNumber(
+  value: unknown,
+  field: string,
+  rules: { integer: boolean; min: number }
+): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = typeof value === 'number' ? value : Number.NaN;
+  if (
+    !Number.isFinite(parsed) ||
+    parsed < rules.min ||
+    (rules.integer && !Number.isInteger(parsed))
+  ) {
+    throw new AppError(
+      `${field} must be ${rules.integer ? 'a whole number' : 'a number'} of at least ${rules.min}`,
+      400
+    );
+  }
+  return parsed;
+}
+
+/**
+ * @function updateGenerationQuotaLimits
+ * @description Saves admin quota changes to the Settings table; fields left out keep their value.
+ * Body shape mirrors GenerationQuotaLimits (`guest`/`ip`/`user` with `images` and
+ * `windowMinutes`, `globalDailyImages`, `dailySpendCapUsd`, `breakerCooldownMinutes`).
+ *
+ * @param {Record<string, unknown>} body - Raw request body
+ *
+ * @returns {Promise<GenerationQuotaLimits>} Effective limits after the update
+ *
+ * @throws {AppError} 400 when a value is invalid or nothing was provided
+ *
+ * @async
+ */
+export async function updateGenerationQuotaLimits(
+  body: Record<string, unknown>
+): Promise<GenerationQuotaLimits> {
+  const scope = (name: 'guest' | 'ip' | 'user') => {
+    const value = body[name];
+    if (value === undefined) return {};
+    if (!value || typeof value !== 'object') {
+      throw new AppError(`${name} must be an object with images and windowMinutes`, 400);
+    }
+    return value as Record<string, unknown>;
+  };
+  const guest = scope('guest');
+  const ip = scope('ip');
+  const user = scope('user');
+  const count = { integer: true, min: 0 };
+  const minutes = { integer: true, min: 1 };
+
+  const updates: Partial<Record<QuotaSettingField, number | undefined>> = {
+    guestImages: parseQuotaNumber(guest.images, 'guest.images', count),
+    guestWindowMinutes: parseQuotaNumber(guest.windowMinutes, 'guest.windowMinutes', minutes),
+    ipImages: parseQuotaNumber(ip.images, 'ip.images', count),
+    ipWindowMinutes: parseQuotaNumber(ip.windowMinutes, 'ip.windowMinutes', minutes),
+    userImages: parseQuotaNumber(user.images, 'user.images', count),
+    userWindowMinutes: parseQuotaNumber(user.windowMinutes, 'user.windowMinutes', minutes),
+    globalDailyImages: parseQuotaNumber(body.globalDailyImages, 'globalDailyImages', count),
+    dailySpendCapUsd: parseQuotaNumber(body.dailySpendCapUsd, 'dailySpendCapUsd', {
+      integer: false,
+      min: 0,
+    }),
+    breakerCooldownMinutes: parseQuotaNumber(
+      body.breakerCooldownMinutes,
+      'breakerCooldownMinutes',
+      minutes
+    ),
+  };
+
+  const entries = (Object.entries(updates) as [QuotaSettingField, number | undefined][]).filter(
+    (entry): entry is [QuotaSettingField, number] => entry[1] !== undefined
+  );
+  if (!entries.length) {
+    throw new AppError('No quota values provided', 400);
+  }
+
+  for (const [field, value] of entries) {
+    await writeSetting(QUOTA_SETTING_KEYS[field], String(value), 'number');
+  }
+
+  return getGenerationQuotaLimits();
+}
+
+/**
+ * @function resetSpendBreaker
+ * @description Closes the spend breaker. If estimated spend is still over the cap, the next
+ * request opens it again, so raise `dailySpendCapUsd` first when the cap itself is too low.
+ *
+ * @async
+ */
+export async function resetSpendBreaker(): Promise<void> {
+  await writeSetting(BREAKER_OPEN_UNTIL_KEY, '', 'datetime');
+}
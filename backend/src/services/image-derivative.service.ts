@@ -0,0 +1,202 @@
+/**
+ * @module services/image-derivative
+ * @description Responsive derivatives of design images. Every stored design gets WebP and AVIF
+ * copies at a few widths plus a tiny blurred placeholder, so galleries and the account library
+ * load small images on phones and blur them in instead of pulling the full PNG. The API returns
+ * them as a `srcSet`-ready `ResponsiveImage`; designs stored before derivatives existed are filled
+ * in by `npm run images:backfill`.
+ * @since 2026-10-18
+ */
+
+import sharp from 'sharp';
+import prisma from '../config/database.js';
+import { getStorageDriver } from './storage-driver.service.js';
+import type {
+  DesignImageDerivatives,
+  DesignImageFormat,
+  DesignImageVariant,
+  ResponsiveImage,
+} from '../types/design-image.js';
+
+/**
+ * Derivative widths in pixels; widths above the source are skipped
+ */
+export const DERIVATIVE_WIDTHS = [320, 640, 1024];
+
+/**
+ * Formats in `<source>` order: browsers take the first they support
+ */
+const DERIVATIVE_FORMATS: Array<{ format: DesignImageFormat; contentType: string }> = [
+  { format: 'avif', contentType: 'image/avif' },
+  { format: 'webp', contentType: 'image/webp' },
+];
+
+/**
+ * Width of the blurred placeholder; around 300 bytes as a data URL
+ */
+const PLACEHOLDER_WIDTH = 16;
+
+/**
+ * @function createPlaceholder
+ * @description Renders the blur-up placeholder for an image
+ *
+ * @param {Buffer} image - Source image
+ *
+ * @returns {Promise<string>} WebP data URL
+ *
+ * @async
+ */
+export async function createPlaceholder(image: Buffer): Promise<string> {
+  const buffer = await sharp(image)
+    .resize(PLACEHOLDER_WIDTH)
+    .blur()
+    .webp({ quality: 40 })
+    .toBuffer();
+  return `data:image/webp;base64,${buffer.toString('base64')}`;
+}
+
+/**
+ * @function createImageDerivatives
+ * @description Encodes and stores every derivative of a design image, one at a time to keep
+ * memory flat
+ *
+ * @param {string} designId - Design ID for storage path organization
+ * @param {Buffer} image - Source image
+ * @param {number} [timestamp] - Suffix shared with the design's other files
+ *
+ * @returns {Promise<DesignImageDerivatives>} Stored variants, smallest first, and the placeholder
+ *
+ * @throws {Error} When the image can't be decoded or an upload fails
+ *
+ * @async
+ */
+export async function createImageDerivatives(
+  designId: string,
+  image: Buffer,
+  timestamp = Date.now()
+): Promise<DesignImageDerivatives> {
+  const { width: sourceWidth = DERIVATIVE_WIDTHS[0] } = await sharp(image).metadata();
+  const widths = DERIVATIVE_WIDTHS.filter((width) => width <= sourceWidth);
+  if (!widths.length) widths.push(sourceWidth);
+
+  const driver = getStorageDriver();
+  const imageVariants: DesignImageVariant[] = [];
+  for (const width of widths) {
+    for (const { format, contentType } of DERIVATIVE_FORMATS) {
+      const encoder = sharp(image).resize(width);
+      const buffer = await (
+        format === 'avif' ? encoder.avif({ quality: 50 }) : encoder.webp({ quality: 75 })
+      ).toBuffer();
+      const url = await driver.put(
+        `${designId}/image-${timestamp}-${width}.${format}`,
+        buffer,
+        contentType
+      );
+      imageVariants.push({ format, width, url });
+    }
+  }
+
+  return { imageVariants, placeholder: await createPlaceholder(image) };
+}
+
+/**
+ * @function readImageVariants
+ * @description Validates the `imageVariants` JSON column
+ *
+ * @param {unknown} value - Stored value
+ *
+ * @returns {DesignImageVariant[]} Variants (empty when missing or malformed)
+ */
+function readImageVariants(value: unknown): DesignImageVariant[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (variant): variant is DesignImageVariant =>
+      Boolean(variant) &&
+      typeof variant.url === 'string' &&
+      typeof variant.width === 'number' &&
+      DERIVATIVE_FORMATS.some(({ format }) => format === variant.format)
+  );
+}
+
+/**
+ * @function toResponsiveImage
+ * @description Shapes a design's image for the API. Designs without derivatives get no sources,
+ * so clients fall back to `src`.
+ *
+ * @param {Object} design - Design image fields
+ * @param {string} design.imageUrl - Full image
+ * @param {string | null} [design.thumbnailUrl] - 400×400 thumbnail
+ * @param {unknown} [design.imageVariants] - Stored derivatives
+ * @param {string | null} [design.placeholder] - Blur placeholder
+ *
+ * @returns {ResponsiveImage} `<picture>`-ready image
+ *
+ * @example
+ * toResponsiveImage(design).sources[0];
+ * // { type: 'image/avif', srcSet: '.../image-1-320.avif 320w, .../image-1-640.avif 640w' }
+ */
+export function toResponsiveImage(design: {
+  imageUrl: string;
+  thumbnailUrl?: string | null;
+  imageVariants?: unknown;
+  placeholder?: string | null;
+}): ResponsiveImage {
+  const variants = readImageVariants(design.imageVariants);
+
+  return {
+    src: design.imageUrl || design.thumbnailUrl || '',
+    placeholder: design.placeholder ?? null,
+    sources: DERIVATIVE_FORMATS.map(({ format, contentType }) => ({
+      type: contentType,
+      srcSet: variants
+        .filter((variant) => variant.format === format)
+        .sort((a, b) => a.width - b.width)
+        .map((variant) => `${variant.url} ${variant.width}w`)
+        .join(', '),
+    })).filter((source) => source.srcSet),
+  };
+}
+
+/**
+ * @function backfillImageDerivatives
+ * @description Creates derivatives for stored designs that don't have a placeholder yet, oldest
+ * first. Failures are logged and skipped so one broken image doesn't stop the run.
+ *
+ * @param {number} limit - Designs to process
+ * @param {(url: string) => Promise<Buffer>} download - Reads a stored image
+ *
+ * @returns {Promise<{processed: number, failed: string[]}>} Designs updated and IDs that failed
+ *
+ * @async
+ */
+export async function backfillImageDerivatives(
+  limit: number,
+  download: (url: string) => Promise<Buffer>
+): Promise<{ processed: number; failed: string[] }> {
+  const designs = await prisma.design.findMany({
+    where: {
+      placeholder: null,
+      storageStatus: 'STORED',
+      status: { in: ['COMPLETED', 'APPROVED'] },
+      imageUrl: { not: '' },
+    },
+    select: { id: true, imageUrl: true },
+    orderBy: { createdAt: 'asc' },
+    take: limit,
+  });
+
+  let processed = 0;
+  const failed: string[] = [];
+  for (const design of designs) {
+    try {
+      const derivatives = await createImageDerivatives(design.id, await download(design.imageUrl));
+      await prisma.design.update({ where: { id: design.id }, data: derivatives });
+      processed += 1;
+    } catch (error) {
+      console.error(`Image derivatives failed for design ${design.id}:`, error);
+      failed.push(design.id);
+    }
+  }
+
+  return { processed, failed };
+}
@@ -0,0 +1,461 @@
+/**
+ * @module services/image-provider
+ * @description Pluggable image-generation providers (DALL-E 3, gpt-image-1 and a deterministic local stub), their optional edit and reference-image capabilities, plus provider resolution from request, Settings and environment. The stub renders a placeholder PNG with Sharp so the design studio and Creation Corridor can be exercised without OpenAI credits.
+ * @since 2026-10-18
+ */
+
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { toFile } from 'openai';
+import openai from '../config/openai.js';
+import prisma from '../config/database.js';
+import type {
+  ImageEditRequest,
+  ImageGenerationOutput,
+  ImageGenerationRequest,
+  ImageProvider,
+  ImageProviderName,
+  ImageReferenceRequest,
+  ImageSize,
+} from '../types/image-provider.js';
+
+/**
+ * Settings key that selects the default provider at runtime
+ */
+export const IMAGE_PROVIDER_SETTING_KEY = 'image_provider';
+
+/**
+ * Provider used when neither the request, Settings nor `IMAGE_PROVIDER` select one
+ */
+const DEFAULT_IMAGE_PROVIDER: ImageProviderName = 'dall-e-3';
+
+/**
+ * Provider used for edits when the configured default has no edit capability
+ */
+const DEFAULT_IMAGE_EDIT_PROVIDER: ImageProviderName = 'gpt-image-1';
+
+/**
+ * Provider used for reference-guided generation when the configured default takes no image input
+ */
+const DEFAULT_IMAGE_REFERENCE_PROVIDER: ImageProviderName = 'gpt-image-1';
+
+/**
+ * gpt-image-1 supports portrait/landscape at 1024x1536 rather than DALL-E 3's 1024x1792
+ */
+const GPT_IMAGE_SIZES: Record<ImageSize, '1024x1024' | '1024x1536' | '1536x1024'> = {
+  '1024x1024': '1024x1024',
+  '1024x1792': '1024x1536',
+  '1792x1024': '1536x1024',
+};
+
+/**
+ * @constant dallE3Provider
+ * @description DALL-E 3 provider. Returns a temporary OpenAI-hosted URL (expires after 1 hour).
+ */
+const dallE3Provider: ImageProvider = {
+  name: 'dall-e-3',
+  model: 'dall-e-3',
+  quality: 'standard',
+  async generate({ prompt, size }: ImageGenerationRequest): Promise<ImageGenerationOutput> {
+    const response = await openai.images.generate({
+      model: 'dall-e-3',
+      prompt,
+      n: 1,
+      size,
+      quality: 'standard',
+      response_format: 'url',
+    });
+
+    const imageUrl = response.data?.[0]?.url;
+    if (!imageUrl) {
+      throw new Error('No image URL returned from DALL-E 3');
+    }
+
+    return {
+      imageUrl,
+      revisedPrompt: response.data?.[0]?.revised_prompt || prompt,
+      model: 'dall-e-3',
+    };
+  },
+};
+
+/**
+ * @constant gptImage1Provider
+ * @description gpt-image-1 provider. Always returns base64 image data, decoded to PNG bytes.
+ */
+const gptImage1Provider: ImageProvider = {
+  name: 'gpt-image-1',
+  model: 'gpt-image-1',
+  quality: 'medium',
+  async generate({ prompt, size }: ImageGenerationRequest): Promise<ImageGenerationOutput> {
+    const response = await openai.images.generate({
+      model: 'gpt-image-1',
+      prompt,
+      n: 1,
+      size: GPT_IMAGE_SIZES[size],
+      quality: 'medium',
+    });
+
+    const b64 = response.data?.[0]?.b64_json;
+    if (!b64) {
+      throw new Error('No image data returned from gpt-image-1');
+    }
+
+    return {
+      imageBuffer: Buffer.from(b64, 'base64'),
+      revisedPrompt: prompt,
+      model: 'gpt-image-1',
+    };
+  },
+  async edit({ prompt, size, image, mask }: ImageEditRequest): Promise<ImageGenerationOutput> {
+    const response = await openai.images.edit({
+      model: 'gpt-image-1',
+      image: await toFile(image, 'image.png', { type: 'image/png' }),
+      mask: await toFile(mask, 'mask.png', { type: 'image/png' }),
+      prompt,
+      n: 1,
+      size: GPT_IMAGE_SIZES[size],
+      quality: 'medium',
+    });
+
+    const b64 = response.data?.[0]?.b64_json;
+    if (!b64) {
+      throw new Error('No image data returned from gpt-image-1 edit');
+    }
+
+    return {
+      imageBuffer: Buffer.from(b64, 'base64'),
+      revisedPrompt: prompt,
+      model: 'gpt-image-1',
+    };
+  },
+  // Without a mask the edit endpoint treats the image as a reference for a new image
+  async generateFromReference({
+    prompt,
+    size,
+    reference,
+  }: ImageReferenceRequest): Promise<ImageGenerationOutput> {
+    const response = await openai.images.edit({
+      model: 'gpt-image-1',
+      image: await toFile(reference, 'reference.png', { type: 'image/png' }),
+      prompt,
+      n: 1,
+      size: GPT_IMAGE_SIZES[size],
+      quality: 'medium',
+    });
+
+    const b64 = response.data?.[0]?.b64_json;
+    if (!b64) {
+      throw new Error('No image data returned from gpt-image-1 reference generation');
+    }
+
+    return {
+      imageBuffer: Buffer.from(b64, 'base64'),
+      revisedPrompt: prompt,
+      model: 'gpt-image-1',
+    };
+  },
+};
+
+/**
+ * @function escapeSvgText
+ * @description Escapes user-provided text for safe inclusion in an SVG document
+ *
+ * @param {string} value - Raw text
+ *
+ * @returns {string} XML-escaped text
+ */
+function escapeSvgText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * @function renderStubImage
+ * @description Renders a deterministic placeholder graphic for a prompt. The same prompt and size always produce the same PNG, which keeps offline sessions and screenshots stable.
+ *
+ * @param {string} prompt - Enhanced prompt (seeds colors and layout)
+ * @param {ImageSize} size - Output dimensions
+ * @param {number} [variation=0] - Batch variation index; 0 keeps the single-image output
+ *
+ * @returns {Promise<Buffer>} PNG bytes
+ *
+ * @async
+ */
+export async function renderStubImage(
+  prompt: string,
+  size: ImageSize,
+  variation = 0
+): Promise<Buffer> {
+  const [width, height] = size.split('x').map(Number);
+  const seed = variation > 0 ? `${size}:${prompt}:${variation}` : `${size}:${prompt}`;
+  const digest = crypto.createHash('sha256').update(seed).digest();
+  const hue = Math.round((digest[0] / 255) * 360);
+  const accentHue = (hue + 120 + digest[1]) % 360;
+  const ringCount = 3 + (digest[2] % 4);
+  const cx = Math.round(width / 2);
+  const cy = Math.round(height / 2);
+  const maxRadius = Math.round(Math.min(width, height) * 0.4);
+
+  const rings = Array.from({ length: ringCount }, (_, index) => {
+    const radius = Math.round(maxRadius * (1 - index / ringCount));
+    const lightness = 35 + ((digest[3 + index] ?? 0) % 40);
+    const ringHue = index % 2 === 0 ? accentHue : hue;
+    return `<circle cx="${cx}" cy="${cy}" r="${radius}" fill="hsl(${ringHue}, 70%, ${lightness}%)" />`;
+  }).join('');
+
+  const label = escapeSvgText(prompt.split('.')[0].slice(0, 48));
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <rect width="100%" height="100%" fill="hsl(${hue}, 45%, 92%)" />
+  ${rings}
+  <text x="${cx}" y="${height - 64}" font-family="sans-serif" font-size="32" text-anchor="middle" fill="hsl(${hue}, 40%, 20%)">${label}</text>
+  <text x="${cx}" y="72" font-family="sans-serif" font-size="28" font-weight="bold" text-anchor="middle" fill="hsl(${hue}, 40%, 30%)">STUB PREVIEW</text>
+</svg>`;
+
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+/**
+ * @function renderStubEdit
+ * @description Deterministic stand-in for inpainting: paints the stub graphic for the instruction into the transparent area of the mask and keeps the rest of the source image.
+ *
+ * @param {ImageEditRequest} request - Source image, mask, instruction and size
+ *
+ * @returns {Promise<Buffer>} PNG bytes at the source image's dimensions
+ *
+ * @async
+ */
+export async function renderStubEdit({
+  prompt,
+  size,
+  image,
+  mask,
+}: ImageEditRequest): Promise<Buffer> {
+  const { width = 1024, height = 1024 } = await sharp(image).metadata();
+
+  // Opaque where the mask is transparent, i.e. where the edit should land
+  const editAlpha = await sharp(mask)
+    .resize(width, height, { fit: 'fill' })
+    .ensureAlpha()
+    .extractChannel(3)
+    .negate()
+    .raw()
+    .toBuffer();
+
+  // Flatten to raw RGB first; in a single pipeline removeAlpha would drop the joined channel
+  const patchRgb = await sharp(await renderStubImage(prompt, size))
+    .resize(width, height, { fit: 'fill' })
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+  const patch = await sharp(patchRgb, { raw: { width, height, channels: 3 } })
+    .joinChannel(editAlpha, { raw: { width, height, channels: 1 } })
+    .png()
+    .toBuffer();
+
+  return sharp(image)
+    .composite([{ input: patch }])
+    .png()
+    .toBuffer();
+}
+
+/**
+ * @function renderStubReference
+ * @description Deterministic stand-in for reference-guided generation: the reference photo, cropped to the output size and desaturated, tinted with the stub graphic for the prompt so it is obvious which reference was used.
+ *
+ * @param {ImageReferenceRequest} request - Reference photo, prompt, size and variation
+ *
+ * @returns {Promise<Buffer>} PNG bytes at the requested size
+ *
+ * @async
+ */
+export async function renderStubReference({
+  prompt,
+  size,
+  reference,
+  variation,
+}: ImageReferenceRequest): Promise<Buffer> {
+  const [width, height] = size.split('x').map(Number);
+  const tint = await renderStubImage(prompt, size, variation);
+
+  return sharp(reference)
+    .resize(width, height, { fit: 'cover' })
+    .modulate({ saturation: 0 })
+    .composite([{ input: tint, blend: 'multiply' }])
+    .png()
+    .toBuffer();
+}
+
+/**
+ * @constant stubProvider
+ * @description Local placeholder provider. Never calls OpenAI.
+ */
+const stubProvider: ImageProvider = {
+  name: 'stub',
+  model: 'local-stub',
+  quality: null,
+  async generate({
+    prompt,
+    size,
+    variation,
+  }: ImageGenerationRequest): Promise<ImageGenerationOutput> {
+    const buffer = await renderStubImage(prompt, size, variation);
+    return {
+      imageBuffer: buffer,
+      revisedPrompt: prompt,
+      model: 'local-stub',
+    };
+  },
+  async edit(request: ImageEditRequest): Promise<ImageGenerationOutput> {
+    const buffer = await renderStubEdit(request);
+    return {
+      imageBuffer: buffer,
+      revisedPrompt: request.prompt,
+      model: 'local-stub',
+    };
+  },
+  async generateFromReference(request: ImageReferenceRequest): Promise<ImageGenerationOutput> {
+    const buffer = await renderStubReference(request);
+    return {
+      imageBuffer: buffer,
+      revisedPrompt: request.prompt,
+      model: 'local-stub',
+    };
+  },
+};
+
+const IMAGE_PROVIDERS: Record<ImageProviderName, ImageProvider> = {
+  'dall-e-3': dallE3Provider,
+  'gpt-image-1': gptImage1Provider,
+  stub: stubProvider,
+};
+
+/**
+ * Provider names in registration order (used for validation messages)
+ */
+export const IMAGE_PROVIDER_NAMES = Object.keys(IMAGE_PROVIDERS) as ImageProviderName[];
+
+/**
+ * @function isImageProviderName
+ * @description Type guard for provider identifiers coming from requests or settings
+ *
+ * @param {unknown} value - Candidate value
+ *
+ * @returns {boolean} True when value names a registered provider
+ */
+export function isImageProviderName(value: unknown): value is ImageProviderName {
+  return typeof value === 'string' && (IMAGE_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * @function resolveImageProvider
+ * @description Picks the provider for a generation. Precedence: explicit request value, then the `image_provider` setting, then the `IMAGE_PROVIDER` environment variable, then DALL-E 3. Unknown setting/env values are ignored with a warning so a typo cannot take generation down.
+ *
+ * @param {ImageProviderName} [requested] - Provider requested by the caller
+ *
+ * @returns {Promise<ImageProvider>} Provider implementation
+ *
+ * @example
+ * const provider = await resolveImageProvider();
+ * const { imageUrl, model } = await provider.generate({ prompt, size: '1024x1024' });
+ *
+ * @async
+ */
+export async function resolveImageProvider(requested?: ImageProviderName): Promise<ImageProvider> {
+  if (requested) {
+    return IMAGE_PROVIDERS[requested];
+  }
+
+  const setting = await prisma.settings.findUnique({
+    where: { key: IMAGE_PROVIDER_SETTING_KEY },
+  });
+  const configured = setting?.value || process.env.IMAGE_PROVIDER;
+
+  if (configured) {
+    if (isImageProviderName(configured)) {
+      return IMAGE_PROVIDERS[configured];
+    }
+    console.warn(
+      `Unknown image provider "${configured}", falling back to ${DEFAULT_IMAGE_PROVIDER}`
+    );
+  }
+
+  return IMAGE_PROVIDERS[DEFAULT_IMAGE_PROVIDER];
+}
+
+/**
+ * @function supportsImageEdit
+ * @description Whether a provider can run mask-based edits
+ *
+ * @param {ImageProviderName} name - Provider identifier
+ *
+ * @returns {boolean} True when the provider implements `edit`
+ */
+export function supportsImageEdit(name: ImageProviderName): boolean {
+  return typeof IMAGE_PROVIDERS[name].edit === 'function';
+}
+
+/**
+ * @function resolveImageEditProvider
+ * @description Picks the provider for a mask-based edit using the same precedence as `resolveImageProvider`. When the resolved provider cannot edit (DALL-E 3), gpt-image-1 is used instead; callers should reject explicit requests for non-editing providers before calling this.
+ *
+ * @param {ImageProviderName} [requested] - Provider requested by the caller
+ *
+ * @returns {Promise<ImageProvider>} Provider with an `edit` implementation
+ *
+ * @async
+ */
+export async function resolveImageEditProvider(
+  requested?: ImageProviderName
+): Promise<ImageProvider> {
+  const provider = await resolveImageProvider(requested);
+  if (provider.edit) {
+    return provider;
+  }
+
+  console.warn(
+    `Image provider ${provider.name} does not support edits, using ${DEFAULT_IMAGE_EDIT_PROVIDER}`
+  );
+  return IMAGE_PROVIDERS[DEFAULT_IMAGE_EDIT_PROVIDER];
+}
+
+/**
+ * @function supportsImageReference
+ * @description Whether a provider can generate from a reference photo
+ *
+ * @param {ImageProviderName} name - Provider identifier
+ *
+ * @returns {boolean} True when the provider implements `generateFromReference`
+ */
+export function supportsImageReference(name: ImageProviderName): boolean {
+  return typeof IMAGE_PROVIDERS[name].generateFromReference === 'function';
+}
+
+/**
+ * @function resolveImageReferenceProvider
+ * @description Picks the provider for reference-guided generation using the same precedence as `resolveImageProvider`. When the resolved provider takes no image input (DALL-E 3), gpt-image-1 is used instead; callers should reject explicit requests for such providers before calling this.
+ *
+ * @param {ImageProviderName} [requested] - Provider requested by the caller
+ *
+ * @returns {Promise<ImageProvider>} Provider with a `generateFromReference` implementation
+ *
+ * @async
+ */
+export async function resolveImageReferenceProvider(
+  requested?: ImageProviderName
+): Promise<ImageProvider> {
+  const provider = await resolveImageProvider(requested);
+  if (provider.generateFromReference) {
+    return provider;
+  }
+
+  console.warn(
+    `Image provider ${provider.name} does not support reference images, using ${DEFAULT_IMAGE_REFERENCE_PROVIDER}`
+  );
+  return IMAGE_PROVIDERS[DEFAULT_IMAGE_REFERENCE_PROVIDER];
+}
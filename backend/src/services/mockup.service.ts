@@ -0,0 +1,220 @@
+/**
+ * @module services/mockup
+ * @description Product mockups: the image that prints, composited with sharp onto a garment template for each shirt colour at its placement box, keeping the art's transparency. Rendered mockups are stored through the storage driver and cached per design and colour in `design_mockups`; each row keeps a signature of what it was drawn from, so a new background choice, text, placement or template renders it again on the next read.
+ * @since 2026-10-18
+ */
+
+import path from 'path';
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/error.middleware.js';
+import {
+  MOCKUP_PRINT_AREAS,
+  MOCKUP_SIZE,
+  MOCKUP_TEMPLATES,
+  MOCKUP_TEMPLATE_DIR,
+  MOCKUP_VERSION,
+} from '../config/mockups.js';
+import { PRINT_AREAS } from '../config/print-areas.js';
+import { downloadImage, uploadAsset } from './asset-storage.service.js';
+import { fitPrintPosition, getOrderPlacementPreview } from './print-placement.service.js';
+import type { DesignMockupView, MockupInput } from '../types/mockup.js';
+import type { PlacementEmailPreview } from '../types/print-placement.js';
+
+/**
+ * @function supportsMockups
+ * @description Whether a placement has a print area on the templates
+ *
+ * @param {string} placement - Printful placement
+ *
+ * @returns {boolean} True for front and back prints
+ */
+export function supportsMockups(placement: string): boolean {
+  return placement in MOCKUP_PRINT_AREAS && placement in PRINT_AREAS;
+}
+
+/**
+ * @function getMockupSignature
+ * @description Short hash of everything a mockup is drawn from
+ *
+ * @param {MockupInput} input - Mockup input
+ *
+ * @returns {string} 16 hex characters
+ */
+function getMockupSignature(input: MockupInput): string {
+  const { imageUrl, placement, box, color } = input;
+  return createHash('sha256')
+    .update(JSON.stringify([MOCKUP_VERSION, imageUrl, placement, box, color.name, color.hex]))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * @function loadTemplate
+ * @description Garment template for a colour at mockup size, or a plain square of the colour when
+ * there is no template for it
+ *
+ * @param {{name: string, hex: string}} color - Shirt colour
+ *
+ * @returns {sharp.Sharp} Template pipeline
+ */
+function loadTemplate(color: { name: string; hex: string }): sharp.Sharp {
+  const file = MOCKUP_TEMPLATES[color.name.toLowerCase()];
+  if (!file) {
+    return sharp({
+      create: { width: MOCKUP_SIZE, height: MOCKUP_SIZE, channels: 3, background: color.hex },
+    });
+  }
+  return sharp(path.join(MOCKUP_TEMPLATE_DIR, file)).resize(MOCKUP_SIZE, MOCKUP_SIZE);
+}
+
+/**
+ * @function renderMockup
+ * @description Composites the print image onto the template. The box is fitted to the image's
+ * aspect ratio the same way the Printful layer position is, then scaled from inches to template
+ * pixels; transparent pixels show the shirt.
+ *
+ * @param {Buffer} source - Image that prints
+ * @param {MockupInput} input - Placement, box and colour
+ *
+ * @returns {Promise<Buffer>} JPEG mockup
+ *
+ * @throws {AppError} 400 when the image cannot be read
+ *
+ * @async
+ */
+export async function renderMockup(source: Buffer, input: MockupInput): Promise<Buffer> {
+  const metadata = await sharp(source)
+    .metadata()
+    .catch(() => null);
+  if (!metadata?.width || !metadata?.height) {
+    throw new AppError('Design image could not be read', 400);
+  }
+
+  const area = PRINT_AREAS[input.placement];
+  const templateArea = MOCKUP_PRINT_AREAS[input.placement];
+  const position = fitPrintPosition(input.box, metadata.height / metadata.width, area);
+  const pxPerInch = (templateArea.width * MOCKUP_SIZE) / area.widthIn;
+
+  const width = Math.max(1, Math.round(position.width * pxPerInch));
+  const height = Math.max(1, Math.round(position.height * pxPerInch));
+  const art = await sharp(source).resize(width, height, { fit: 'fill' }).png().toBuffer();
+
+  return loadTemplate(input.color)
+    .composite([
+      {
+        input: art,
+        left: Math.round(templateArea.left * MOCKUP_SIZE + position.left * pxPerInch),
+        top: Math.round(templateArea.top * MOCKUP_SIZE + position.top * pxPerInch),
+      },
+    ])
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: 85 })
+    .toBuffer();
+}
+
+/**
+ * @function getDesignMockup
+ * @description Mockup of a design on one shirt colour, rendered and stored on first use and read
+ * from `design_mockups` afterwards while its signature still matches
+ *
+ * @param {MockupInput} input - Design, print image, placement box and colour
+ *
+ * @returns {Promise<DesignMockupView>} Colour and mockup URL
+ *
+ * @throws {AppError} 400 when the placement has no mockup or the image cannot be read
+ *
+ * @async
+ */
+export async function getDesignMockup(input: MockupInput): Promise<DesignMockupView> {
+  if (!supportsMockups(input.placement)) {
+    throw new AppError('Mockups are only available for front and back prints', 400);
+  }
+
+  const { designId, color } = input;
+  const signature = getMockupSignature(input);
+  const cached = await prisma.designMockup.findUnique({
+    where: { designId_color: { designId, color: color.name } },
+  });
+  if (cached?.signature === signature) {
+    return { color: color.name, hex: color.hex, imageUrl: cached.imageUrl };
+  }
+
+  const mockup = await renderMockup(await downloadImage(input.imageUrl), input);
+  const slug = color.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  const imageUrl = await uploadAsset(
+    `${designId}/mockup-${slug}-${signature}.jpg`,
+    mockup,
+    'image/jpeg'
+  );
+
+  await prisma.designMockup.upsert({
+    where: { designId_color: { designId, color: color.name } },
+    create: { designId, color: color.name, signature, imageUrl },
+    update: { signature, imageUrl },
+  });
+
+  return { color: color.name, hex: color.hex, imageUrl };
+}
+
+/**
+ * @function listDesignMockups
+ * @description Mockups of a design on each colour, rendered one after another since each render
+ * holds the template and the art in memory
+ *
+ * @param {Omit<MockupInput, 'color'>} input - Design, print image, placement and box
+ * @param {{name: string, hex: string}[]} colors - Shirt colours
+ *
+ * @returns {Promise<DesignMockupView[]>} Mockups in colour order
+ *
+ * @throws {AppError} 400 when the placement has no mockup or the image cannot be read
+ *
+ * @async
+ */
+export async function listDesignMockups(
+  input: Omit<MockupInput, 'color'>,
+  colors: { name: string; hex: string }[]
+): Promise<DesignMockupView[]> {
+  const mockups: DesignMockupView[] = [];
+  for (const color of colors) {
+    mockups.push(await getDesignMockup({ ...input, color }));
+  }
+  return mockups;
+}
+
+/**
+ * @function getOrderMockupPreview
+ * @description Placement preview for order emails with the design's mockup on the ordered colour.
+ * Never throws; when the mockup cannot be rendered the preview is returned without it and the
+ * email draws the print area instead, and when the preview itself cannot be built the email goes
+ * out without one.
+ *
+ * @param {string} orderId - Order to describe
+ *
+ * @returns {Promise<PlacementEmailPreview | null>} Preview, or null when there is nothing to show
+ * or it could not be loaded
+ *
+ * @async
+ */
+export async function getOrderMockupPreview(
+  orderId: string
+): Promise<PlacementEmailPreview | null> {
+  let preview: PlacementEmailPreview | null = null;
+  try {
+    preview = await getOrderPlacementPreview(orderId);
+    if (!preview) return null;
+
+    const mockup = await getDesignMockup({
+      designId: preview.designId,
+      imageUrl: preview.imageUrl,
+      placement: preview.placement,
+      box: preview.box,
+      color: { name: preview.color, hex: preview.shirtHex },
+    });
+    return { ...preview, mockupUrl: mockup.imageUrl };
+  } catch (error) {
+    console.error(`Mockup preview for order ${orderId} failed:`, error);
+    return preview;
+  }
+}
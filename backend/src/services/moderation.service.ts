@@ -0,0 +1,241 @@
+/**
+ * @module services/moderation
+ * @description Moderation policy, audit log and review queue. Every prompt and image check is written to `moderation_events` with its category scores. Flagged images, and image checks that errored in fail-closed mode, hold their design (`designs.moderationStatus = PENDING_REVIEW`) so it cannot be approved or shown in the gallery until an admin clears it.
+ * @since 2026-10-18
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/error.middleware.js';
+import type {
+  ModerationEventInput,
+  ModerationFailMode,
+  ModerationQueueQuery,
+  ModerationReviewDecision,
+} from '../types/moderation.js';
+
+/**
+ * Settings row that overrides MODERATION_FAIL_MODE without a deploy
+ */
+export const MODERATION_FAIL_MODE_SETTING_KEY = 'moderation_fail_mode';
+
+/**
+ * Used when neither the setting nor the environment names a valid mode
+ */
+const DEFAULT_FAIL_MODE: ModerationFailMode = 'closed';
+
+/**
+ * @function isModerationFailMode
+ * @description Type guard for fail-mode values from settings or environment
+ *
+ * @param {unknown} value - Candidate value
+ *
+ * @returns {boolean} True for `open` or `closed`
+ */
+function isModerationFailMode(value: unknown): value is ModerationFailMode {
+  return value === 'open' || value === 'closed';
+}
+
+/**
+ * @function getModerationFailMode
+ * @description Resolves how to treat moderation API errors. Precedence: the `moderation_fail_mode` setting, then the `MODERATION_FAIL_MODE` environment variable, then `closed`. Unknown values are ignored with a warning.
+ *
+ * @returns {Promise<ModerationFailMode>} Active fail mode
+ *
+ * @async
+ */
+export async function getModerationFailMode(): Promise<ModerationFailMode> {
+  const setting = await prisma.settings
+    .findUnique({ where: { key: MODERATION_FAIL_MODE_SETTING_KEY } })
+    .catch(() => null);
+  const configured = setting?.value || process.env.MODERATION_FAIL_MODE;
+
+  if (configured) {
+    const normalized = configured.trim().toLowerCase();
+    if (isModerationFailMode(normalized)) {
+      return normalized;
+    }
+    console.warn(
+      `Unknown moderation fail mode "${configured}", falling back to ${DEFAULT_FAIL_MODE}`
+    );
+  }
+
+  return DEFAULT_FAIL_MODE;
+}
+
+/**
+ * @function recordModerationEvent
+ * @description Writes one moderation decision to the audit log. Logging failures are reported but never change the decision.
+ *
+ * @param {ModerationEventInput} event - Decision to record
+ *
+ * @returns {Promise<void>}
+ *
+ * @async
+ */
+export async function recordModerationEvent(event: ModerationEventInput): Promise<void> {
+  try {
+    await prisma.moderationEvent.create({
+      data: {
+        designId: event.context?.designId ?? null,
+        userId: event.context?.userId ?? null,
+        source: event.source,
+        outcome: event.outcome,
+        blocked: event.blocked,
+        failMode: event.failMode,
+        input: event.input,
+        model: event.model ?? null,
+        categories: event.categories ?? [],
+        categoryScores: event.categoryScores ?? undefined,
+        error: event.error ?? null,
+        reviewStatus: event.reviewStatus ?? null,
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to record ${event.source} moderation event:`, error);
+  }
+}
+
+/**
+ * @function hasPendingModerationReview
+ * @description Whether any check for a design is waiting for an admin
+ *
+ * @param {string} designId - Design to look up
+ *
+ * @returns {Promise<boolean>} True when the design must be held
+ *
+ * @async
+ */
+export async function hasPendingModerationReview(designId: string): Promise<boolean> {
+  const pending = await prisma.moderationEvent.count({
+    where: { designId, reviewStatus: 'PENDING_REVIEW' },
+  });
+  return pending > 0;
+}
+
+/**
+ * @function getModerationHoldMessage
+ * @description Customer-facing reason a design cannot be approved or shared
+ *
+ * @param {string | null | undefined} status - `designs.moderationStatus`
+ *
+ * @returns {string | null} Message while held or rejected, null when the design is clear
+ */
+export function getModerationHoldMessage(status: string | null | undefined): string | null {
+  if (status === 'PENDING_REVIEW') {
+    return 'This design is being reviewed by our team and can be approved once it is cleared.';
+  }
+  if (status === 'REJECTED') {
+    return 'This design did not pass our content review and cannot be printed.';
+  }
+  return null;
+}
+
+/**
+ * @function listModerationQueue
+ * @description Lists events that needed review, newest first, with their design
+ *
+ * @param {ModerationQueueQuery} query - Status filter and pagination
+ *
+ * @returns {Promise<{items: unknown[], total: number}>} Page of events and the total matching
+ *
+ * @async
+ */
+export async function listModerationQueue(
+  query: ModerationQueueQuery
+): Promise<{ items: unknown[]; total: number }> {
+  const where =
+    query.status === 'all' ? { reviewStatus: { not: null } } : { reviewStatus: query.status };
+
+  const [items, total] = await Promise.all([
+    prisma.moderationEvent.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (query.page - 1) * query.pageSize,
+      take: query.pageSize,
+      include: {
+        design: {
+          select: {
+            id: true,
+            orderId: true,
+            userId: true,
+            prompt: true,
+            imageUrl: true,
+            thumbnailUrl: true,
+            status: true,
+            approvalStatus: true,
+            moderationStatus: true,
+          },
+        },
+      },
+    }),
+    prisma.moderationEvent.count({ where }),
+  ]);
+
+  return { items, total };
+}
+
+/**
+ * @function reviewDesignModeration
+ * @description Records an admin decision for a held design: every event that needed review is stamped with the decision and reviewer, and the design is released (CLEARED) or kept off approval and the gallery (REJECTED)
+ *
+ * @param {string} designId - Design under review
+ * @param {ModerationReviewDecision} decision - CLEARED or REJECTED
+ * @param {string} reviewedBy - Reviewer (admin email or user ID)
+ * @param {string} [note] - Optional reason
+ *
+ * @returns {Promise<{designId: string, moderationStatus: ModerationReviewDecision, eventsReviewed: number}>} Review summary
+ *
+ * @throws {AppError} 404 when the design does not exist
+ * @throws {AppError} 400 when nothing about the design needed review, or rejecting an approved design
+ *
+ * @async
+ */
+export async function reviewDesignModeration(
+  designId: string,
+  decision: ModerationReviewDecision,
+  reviewedBy: string,
+  note?: string
+): Promise<{
+  designId: string;
+  moderationStatus: ModerationReviewDecision;
+  eventsReviewed: number;
+}> {
+  const design = await prisma.design.findUnique({
+    where: { id: designId },
+    select: { id: true, moderationStatus: true, approvalStatus: true },
+  });
+
+  if (!design) {
+    throw new AppError('Design not found', 404);
+  }
+
+  if (!design.moderationStatus) {
+    throw new AppError('Design is not held for moderation review', 400);
+  }
+
+  if (decision === 'REJECTED' && design.approvalStatus) {
+    throw new AppError('Design is already approved and submitted for printing', 400);
+  }
+
+  const reviewed = await prisma.$transaction(async (tx: PrismaClient) => {
+    const events = await tx.moderationEvent.updateMany({
+      where: { designId, reviewStatus: { not: null } },
+      data: {
+        reviewStatus: decision,
+        reviewedBy,
+        reviewedAt: new Date(),
+        reviewNote: note || null,
+      },
+    });
+
+    await tx.design.update({
+      where: { id: designId },
+      data: { moderationStatus: decision },
+    });
+
+    return events.count;
+  });
+
+  return { designId, moderationStatus: decision, eventsReviewed: reviewed };
+}
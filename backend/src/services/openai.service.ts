@@ -1,65 +1,99 @@
 /**
  * @module services/openai
- * @description OpenAI DALL-E 3 service for AI-powered t-shirt design generation. Handles prompt enhancement, content moderation, and image generation with style customization.
+ * @description OpenAI service for AI-powered t-shirt design generation. Handles prompt enhancement, content moderation, and image generation with style customization. Image generation is delegated to the provider layer in services/image-provider.
  * @since 2025-11-21
  */
 
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-  organization: process.env.OPENAI_ORGANIZATION_ID,
-});
+import { APIConnectionError } from 'openai';
+import openai from '../config/openai.js';
+import { AppError } from '../middleware/error.middleware.js';
+import {
+  resolveImageEditProvider,
+  resolveImageProvider,
+  resolveImageReferenceProvider,
+} from './image-provider.service.js';
+import { downloadImage } from './asset-storage.service.js';
+import sharp from 'sharp';
+import { getModerationFailMode, recordModerationEvent } from './moderation.service.js';
+import { getStyleGuidance } from './style-preset.service.js';
+import { recordAiCall } from './ai-usage.service.js';
+import type { Moderation } from 'openai/resources/moderations';
+import type { ImageProviderName, ImageSize } from '../types/image-provider.js';
+import type { ModerationContext } from '../types/moderation.js';
+import type { AiCallContext } from '../types/ai-usage.js';
+import type { StylePromptGuidance } from '../types/style-preset.js';
+import type { RefinementMergeInput, RefinementMergeResult } from '../types/design-refinement.js';
 
 /**
  * Design generation parameters interface
  * @interface DesignGenerationParams
  * @property {string} prompt - User's design prompt
- * @property {string} [style] - Optional style preset
+ * @property {string} [style] - Optional style preset key (see services/style-preset)
  * @property {string} [size] - Image dimensions
+ * @property {ImageProviderName} [provider] - Explicit provider; defaults to Settings/env selection
+ * @property {number} [variation] - Index within a generation batch; varies deterministic providers
+ * @property {string} [referenceImageUrl] - Stored reference photo to guide the image (see services/reference-image)
  */
 export interface DesignGenerationParams {
   prompt: string;
-  style?: 'modern' | 'vintage' | 'artistic' | 'playful' | 'professional' | 'trendy';
-  size?: '1024x1024' | '1024x1792' | '1792x1024';
+  style?: string;
+  size?: ImageSize;
+  provider?: ImageProviderName;
+  variation?: number;
+  referenceImageUrl?: string;
+}
+
+/**
+ * Mask-based edit parameters
+ * @interface DesignEditParams
+ * @property {string} instruction - What to change inside the masked area
+ * @property {string} sourceImageUrl - Image of the design being edited (remote or data URL)
+ * @property {string} mask - PNG data URL, transparent where the image should change
+ * @property {ImageProviderName} [provider] - Explicit edit-capable provider
+ */
+export interface DesignEditParams {
+  instruction: string;
+  sourceImageUrl: string;
+  mask: string;
+  provider?: ImageProviderName;
+}
+
+/**
+ * Optional progress callbacks for callers that report pipeline stages
+ * @interface DesignGenerationHooks
+ * @property {Function} [onModerationPassed] - Called once the prompt clears moderation
+ */
+export interface DesignGenerationHooks {
+  onModerationPassed?: () => void;
 }
 
 /**
  * Design generation result interface
  * @interface DesignGenerationResult
- * @property {string} imageUrl - URL to generated image
- * @property {string} revisedPrompt - DALL-E's revised/enhanced prompt
+ * @property {string} [imageUrl] - Temporary provider URL (DALL-E 3)
+ * @property {Buffer} [imageBuffer] - PNG bytes from providers that return them (gpt-image-1, stub)
+ * @property {string} revisedPrompt - Provider's revised/enhanced prompt
+ * @property {string} aiModel - Model that produced the image (stored on Design.aiModel)
  */
 export interface DesignGenerationResult {
-  imageUrl: string;
+  imageUrl?: string;
+  imageBuffer?: Buffer;
   revisedPrompt: string;
+  aiModel: string;
 }
 
-/**
- * Style-based prompt enhancements mapping
- * Maps style names to prompt suffixes that guide DALL-E generation
- */
-const STYLE_PROMPTS = {
-  modern: 'in a modern, clean, minimalist style with bold colors',
-  vintage: 'in a vintage, retro style with muted colors and aged textures',
-  artistic: 'in an artistic, creative style with expressive brushstrokes',
-  playful: 'in a playful, fun style with bright colors and whimsical elements',
-  professional: 'in a professional, sophisticated style with elegant design',
-  trendy: 'in a trendy, contemporary style with current design trends',
-};
-
 /**
  * @function enhancePrompt
- * @description Enhances user's base prompt with style-specific guidance and print-ready graphic best practices. Adds style modifiers and guardrails to reduce unwanted product mockups/background scenes.
+ * @description Enhances user's base prompt with style-specific guidance and print-ready graphic best practices. Adds the style preset's suffix and negative guidance, plus guardrails to reduce unwanted product mockups/background scenes.
  *
  * @param {string} basePrompt - User's original design prompt
- * @param {string} [style] - Optional style preset to apply
+ * @param {StylePromptGuidance | null} [style] - Prompt text of the selected style preset
  *
  * @returns {string} Enhanced prompt with style and print optimization
  *
  * @example
- * const enhanced = enhancePrompt('a dragon', 'vintage');
- * // Returns: "a dragon in a vintage, retro style with muted colors and aged textures. Output a standalone, print-ready graphic illustration (not a product photo/mockup). Centered composition, high contrast, clean edges. No background scene; isolate subject on a plain transparent or solid background."
+ * const enhanced = enhancePrompt('a dragon', await getStyleGuidance('vintage'));
+ * // Returns: "a dragon in a vintage, retro style with muted colors and aged textures. Output a standalone, print-ready graphic illustration (not a product photo/mockup). Centered composition, high contrast, clean edges. No background scene; isolate subject on a plain solid-color background."
  */
 const APPAREL_TRIGGER_REGEX =
   /\b(t\s*-?\s*shirt|tshirt|tee\s*-?\s*shirt)s?\b/gi;
@@ -79,188 +113,586 @@ function shouldAllowText(prompt: string): boolean {
   return TEXT_INTENT_REGEX.test(prompt);
 }
 
-function enhancePrompt(basePrompt: string, style?: string): string {
+function enhancePrompt(basePrompt: string, style?: StylePromptGuidance | null): string {
   let enhanced = normalizeBasePrompt(basePrompt);
 
   // Add style enhancement
-  if (style && STYLE_PROMPTS[style as keyof typeof STYLE_PROMPTS]) {
-    enhanced += ` ${STYLE_PROMPTS[style as keyof typeof STYLE_PROMPTS]}`;
+  if (style?.promptSuffix) {
+    enhanced += ` ${style.promptSuffix}`;
   }
 
   // Add product-agnostic print guidance to reduce mockups/background scenes
   enhanced +=
-    '. Output a standalone, print-ready graphic illustration (not a product photo/mockup). Centered composition, high contrast, clean edges. No background scene; isolate subject on a plain transparent or solid background.';
+    '. Output a standalone, print-ready graphic illustration (not a product photo/mockup). Centered composition, high contrast, clean edges. No background scene; isolate subject on a plain solid-color background.';
 
   if (!shouldAllowText(enhanced)) {
     enhanced += ' No text, letters, numbers, watermark, or signature.';
   }
 
+  // Checked after the text guard so "no lettering" style guidance doesn't count as text intent
+  if (style?.negativeGuidance) {
+    enhanced += ` Avoid: ${style.negativeGuidance.replace(/\.+$/, '')}.`;
+  }
+
   return enhanced;
 }
 
+/**
+ * Multimodal moderation model; also used for prompts so text and image scores are comparable
+ */
+const MODERATION_MODEL = 'omni-moderation-latest';
+
+/**
+ * @function summarizeModeration
+ * @description Extracts flagged category names and the category scores from a moderation result
+ *
+ * @param {Moderation} result - First result of a moderation call
+ *
+ * @returns {{categories: string[], categoryScores: Record<string, number>}} Flagged categories and scores
+ */
+function summarizeModeration(result: Moderation): {
+  categories: string[];
+  categoryScores: Record<string, number>;
+} {
+  const categories = Object.entries(result.categories)
+    .filter(([, flagged]) => flagged)
+    .map(([name]) => name);
+  return {
+    categories,
+    categoryScores: { ...result.category_scores } as unknown as Record<string, number>,
+  };
+}
+
 /**
  * @function moderateContent
- * @description Checks prompt content for policy violations using OpenAI's moderation API. Prevents generation of inappropriate, harmful, or policy-violating content.
+ * @description Checks prompt content for policy violations using OpenAI's moderation API and records the decision in the moderation log. When the API fails, fail-closed mode refuses the prompt with a retryable 503; fail-open mode lets it through (the generated image is still moderated).
  *
  * @param {string} prompt - User prompt to moderate
+ * @param {ModerationContext} [context] - Design, order and user the check runs for
  *
  * @returns {Promise<boolean>} True if content is safe, false if flagged
  *
+ * @throws {AppError} 503 when moderation is unavailable in fail-closed mode
+ *
  * @example
- * const isSafe = await moderateContent('a cute puppy');
+ * const isSafe = await moderateContent('a cute puppy', { designId, userId });
  * if (!isSafe) {
  *   throw new Error('Content violates policies');
  * }
  *
  * @async
  */
-export async function moderateContent(prompt: string): Promise<boolean> {
+export async function moderateContent(
+  prompt: string,
+  context: ModerationContext = {}
+): Promise<boolean> {
+  const failMode = await getModerationFailMode();
+
+  let result: Moderation;
+  const startedAt = Date.now();
   try {
     const moderation = await openai.moderations.create({
+      model: MODERATION_MODEL,
       input: prompt,
     });
-
-    const result = moderation.results[0];
-    return !result.flagged;
+    result = moderation.results[0];
   } catch (error) {
     console.error('Moderation API error:', error);
-    // If moderation fails, allow the request (don't block users due to API issues)
+    const message = error instanceof Error ? error.message : String(error);
+    await recordAiCall({
+      kind: 'PROMPT_MODERATION',
+      provider: 'openai',
+      model: MODERATION_MODEL,
+      latencyMs: Date.now() - startedAt,
+      outcome: 'ERROR',
+      error: message,
+      context,
+    });
+    await recordModerationEvent({
+      source: 'PROMPT',
+      outcome: 'ERROR',
+      blocked: failMode === 'closed',
+      failMode,
+      input: prompt,
+      model: MODERATION_MODEL,
+      error: message,
+      context,
+    });
+    if (failMode === 'closed') {
+      throw new AppError('Content moderation is temporarily unavailable. Please try again.', 503);
+    }
     return true;
   }
+
+  await recordAiCall({
+    kind: 'PROMPT_MODERATION',
+    provider: 'openai',
+    model: MODERATION_MODEL,
+    latencyMs: Date.now() - startedAt,
+    outcome: result.flagged ? 'FLAGGED' : 'SUCCESS',
+    context,
+  });
+  await recordModerationEvent({
+    source: 'PROMPT',
+    outcome: result.flagged ? 'FLAGGED' : 'PASSED',
+    blocked: result.flagged,
+    failMode,
+    input: prompt,
+    model: MODERATION_MODEL,
+    ...summarizeModeration(result),
+    context,
+  });
+
+  return !result.flagged;
+}
+
+/**
+ * @function moderateImage
+ * @description Checks a generated image with OpenAI's multimodal moderation and records the decision. Flagged images are held for admin review rather than failed, so a false positive can be released. When the API fails, fail-closed mode holds the image too; fail-open mode only logs the error. Uploads that are refused outright instead of held (reference photos) pass `reviewable: false` so they stay out of the review queue.
+ *
+ * @param {string} imageUrl - Public image URL or data URL
+ * @param {ModerationContext} [context] - Design, order and user the check runs for
+ * @param {boolean} [reviewable=true] - Whether a held image is queued for admin review
+ *
+ * @returns {Promise<boolean>} True when the image must be held (or refused)
+ *
+ * @example
+ * const held = await moderateImage(storedImageUrl, { designId, userId });
+ *
+ * @async
+ */
+export async function moderateImage(
+  imageUrl: string,
+  context: ModerationContext = {},
+  reviewable = true
+): Promise<boolean> {
+  const failMode = await getModerationFailMode();
+  // Inline images would bloat the log; keep only the media type
+  const input = imageUrl.startsWith('data:')
+    ? `${imageUrl.slice(0, imageUrl.indexOf(',') + 1)}…`
+    : imageUrl;
+
+  let result: Moderation;
+  const startedAt = Date.now();
+  try {
+    const moderation = await openai.moderations.create({
+      model: MODERATION_MODEL,
+      input: [{ type: 'image_url', image_url: { url: imageUrl } }],
+    });
+    result = moderation.results[0];
+  } catch (error) {
+    console.error('Image moderation API error:', error);
+    const held = failMode === 'closed';
+    const message = error instanceof Error ? error.message : String(error);
+    await recordAiCall({
+      kind: 'IMAGE_MODERATION',
+      provider: 'openai',
+      model: MODERATION_MODEL,
+      latencyMs: Date.now() - startedAt,
+      outcome: 'ERROR',
+      error: message,
+      context,
+    });
+    await recordModerationEvent({
+      source: 'IMAGE',
+      outcome: 'ERROR',
+      blocked: held,
+      failMode,
+      input,
+      model: MODERATION_MODEL,
+      error: message,
+      reviewStatus: held && reviewable ? 'PENDING_REVIEW' : null,
+      context,
+    });
+    return held;
+  }
+
+  await recordAiCall({
+    kind: 'IMAGE_MODERATION',
+    provider: 'openai',
+    model: MODERATION_MODEL,
+    latencyMs: Date.now() - startedAt,
+    outcome: result.flagged ? 'FLAGGED' : 'SUCCESS',
+    context,
+  });
+  await recordModerationEvent({
+    source: 'IMAGE',
+    outcome: result.flagged ? 'FLAGGED' : 'PASSED',
+    blocked: result.flagged,
+    failMode,
+    input,
+    model: MODERATION_MODEL,
+    ...summarizeModeration(result),
+    reviewStatus: result.flagged && reviewable ? 'PENDING_REVIEW' : null,
+    context,
+  });
+
+  return result.flagged;
 }
 
 /**
  * @function generateDesign
- * @description Generates a custom print-ready graphic using OpenAI's DALL-E 3 model. Includes content moderation, prompt enhancement, and error handling for common OpenAI API errors.
+ * @description Generates a custom print-ready graphic through the selected image provider (DALL-E 3, gpt-image-1 or the local stub). Includes content moderation, prompt enhancement, and error handling for common OpenAI API errors. With a reference photo the image is generated from it by a provider that takes image input.
  *
  * @param {DesignGenerationParams} params - Design generation parameters
  * @param {string} params.prompt - User's design description
- * @param {string} [params.style] - Optional style preset ('modern', 'vintage', etc.)
+ * @param {string} [params.style] - Optional style preset key ('modern', 'vintage', etc.)
  * @param {string} [params.size='1024x1024'] - Image dimensions
+ * @param {ImageProviderName} [params.provider] - Optional provider override
+ * @param {string} [params.referenceImageUrl] - Optional reference photo to generate from
+ * @param {DesignGenerationHooks} [hooks] - Optional progress callbacks
+ * @param {AiCallContext} [context] - Design, order and user the moderation and generation calls are logged against
  *
- * @returns {Promise<DesignGenerationResult>} Generated design with image URL and revised prompt
- * @returns {string} imageUrl - Temporary URL to generated image (expires after 1 hour)
- * @returns {string} revisedPrompt - DALL-E's enhanced version of the prompt
+ * @returns {Promise<DesignGenerationResult>} Generated design with image URL or bytes, revised prompt and model name
+ * @returns {string} [imageUrl] - Temporary URL to generated image (OpenAI URLs expire after 1 hour)
+ * @returns {Buffer} [imageBuffer] - PNG bytes, for providers that return the image itself
+ * @returns {string} revisedPrompt - Provider's enhanced version of the prompt
+ * @returns {string} aiModel - Model that produced the image
  *
- * @throws {Error} When prompt contains inappropriate content
- * @throws {Error} When prompt is invalid (400 error)
- * @throws {Error} When rate limit is exceeded (429 error)
- * @throws {Error} When OpenAI service has an error (500 error)
+ * @throws {AppError} 400 when prompt contains inappropriate content or is rejected as invalid
+ * @throws {AppError} 429 when rate limit is exceeded
+ * @throws {AppError} 502 when OpenAI service has an error
+ * @throws {AppError} 503 when moderation is unavailable in fail-closed mode (retried by the job worker)
+ * @throws {Error} Any other provider or network failure (treated as transient by the job worker)
  *
  * @example
  * const design = await generateDesign({
  *   prompt: 'a majestic dragon',
  *   style: 'vintage',
- *   size: '1024x1024'
+ *   size: '1024x1024',
+ *   provider: 'stub'
  * });
  *
  * @async
  */
 export async function generateDesign(
-  params: DesignGenerationParams
+  params: DesignGenerationParams,
+  hooks: DesignGenerationHooks = {},
+  context: AiCallContext = {}
 ): Promise<DesignGenerationResult> {
-  const { prompt, style, size = '1024x1024' } = params;
+  const {
+    prompt,
+    style,
+    size = '1024x1024',
+    provider: requestedProvider,
+    variation,
+    referenceImageUrl,
+  } = params;
 
   // Check content moderation first
-  const isSafe = await moderateContent(prompt);
+  const isSafe = await moderateContent(prompt, context);
   if (!isSafe) {
-    throw new Error('Prompt contains inappropriate content and cannot be processed.');
+    throw new AppError('Prompt contains inappropriate content and cannot be processed.', 400);
   }
+  hooks.onModerationPassed?.();
 
   // Enhance prompt with style
-  const enhancedPrompt = enhancePrompt(prompt, style);
+  const styleGuidance = style ? await getStyleGuidance(style) : null;
+  if (style && !styleGuidance) {
+    console.warn(`Unknown style preset "${style}", generating without style guidance`);
+  }
+  const enhancedPrompt = enhancePrompt(prompt, styleGuidance);
+  const provider = referenceImageUrl
+    ? await resolveImageReferenceProvider(requestedProvider)
+    : await resolveImageProvider(requestedProvider);
+  if (referenceImageUrl && !provider.generateFromReference) {
+    throw new AppError(
+      `Image provider ${provider.name} cannot generate from reference images`,
+      400
+    );
+  }
+  const reference = referenceImageUrl ? await downloadImage(referenceImageUrl) : null;
 
-  console.log('Generating design with DALL-E 3...');
+  console.log(`Generating design with ${provider.model}...`);
   console.log('Original prompt:', prompt);
   console.log('Enhanced prompt:', enhancedPrompt);
 
+  const startedAt = Date.now();
   try {
-    const response = await openai.images.generate({
-      model: 'dall-e-3',
-      prompt: enhancedPrompt,
-      n: 1,
-      size: size,
-      quality: 'standard',
-      response_format: 'url',
+    const result =
+      reference && provider.generateFromReference
+        ? await provider.generateFromReference({
+            prompt: enhancedPrompt,
+            size,
+            reference,
+            variation,
+          })
+        : await provider.generate({ prompt: enhancedPrompt, size, variation });
+    await recordAiCall({
+      kind: 'IMAGE_GENERATION',
+      provider: provider.name,
+      model: result.model,
+      size,
+      quality: provider.quality,
+      latencyMs: Date.now() - startedAt,
+      outcome: 'SUCCESS',
+      context,
     });
 
-    if (!response.data || response.data.length === 0) {
-      throw new Error('No image data returned from DALL-E 3');
-    }
-
-    const imageUrl = response.data[0]?.url;
-    const revisedPrompt = response.data[0]?.revised_prompt || enhancedPrompt;
-
-    if (!imageUrl) {
-      throw new Error('No image URL returned from DALL-E 3');
-    }
-
     console.log('✓ Design generated successfully');
 
     return {
-      imageUrl,
-      revisedPrompt,
+      imageUrl: result.imageUrl,
+      imageBuffer: result.imageBuffer,
+      revisedPrompt: result.revisedPrompt,
+      aiModel: result.model,
     };
   } catch (error: any) {
-    console.error('❌ DALL-E 3 generation error:', error);
-
-    // Handle specific OpenAI errors
-    if (error.status === 400) {
-      throw new Error('Invalid prompt. Please try a different description.');
-    } else if (error.status === 429) {
-      throw new Error('Rate limit exceeded. Please try again in a moment.');
-    } else if (error.status === 500) {
-      throw new Error('OpenAI service error. Please try again later.');
-    }
+    console.error(`❌ ${provider.model} generation error:`, error);
+    await recordAiCall({
+      kind: 'IMAGE_GENERATION',
+      provider: provider.name,
+      model: provider.model,
+      size,
+      quality: provider.quality,
+      latencyMs: Date.now() - startedAt,
+      outcome: 'ERROR',
+      error: error instanceof Error ? error.message : String(error),
+      context,
+    });
+    throw toGenerationError(error, 'Failed to generate design');
+  }
+}
 
-    throw new Error(error.message || 'Failed to generate design');
+/**
+ * @function toGenerationError
+ * @description Maps provider/OpenAI errors onto AppErrors the job worker can classify (4xx permanent, 429/5xx and connection failures retried)
+ *
+ * @param {unknown} error - Error thrown by the provider
+ * @param {string} fallbackMessage - Message when the error has none
+ *
+ * @returns {Error} AppError for known OpenAI statuses, the original error (or a plain Error) otherwise
+ */
+function toGenerationError(error: unknown, fallbackMessage: string): Error {
+  const status = (error as { status?: number } | null)?.status;
+  if (status === 400) {
+    return new AppError('Invalid prompt. Please try a different description.', 400);
+  } else if (status === 429) {
+    return new AppError('Rate limit exceeded. Please try again in a moment.', 429);
+  } else if (status !== undefined && status >= 500) {
+    return new AppError('OpenAI service error. Please try again later.', 502);
+  } else if (error instanceof APIConnectionError) {
+    return new AppError('OpenAI could not be reached. Please try again later.', 503);
   }
+
+  // Other errors pass through unchanged so the worker can still read network error codes
+  return error instanceof Error && error.message ? error : new Error(fallbackMessage);
 }
 
 /**
- * @function generateRandomPrompt
- * @description Generates random creative prompt for the "Surprise Me" feature. Combines random subjects and themes to create unique design prompts.
+ * @function closestImageSize
+ * @description Picks the supported output size matching an image's orientation
  *
- * @returns {string} Randomly generated design prompt
+ * @param {Buffer} image - Source image bytes
+ *
+ * @returns {Promise<ImageSize>} Square, portrait or landscape size
+ *
+ * @async
+ */
+async function closestImageSize(image: Buffer): Promise<ImageSize> {
+  const { width = 1, height = 1 } = await sharp(image).metadata();
+  if (height > width) return '1024x1792';
+  if (width > height) return '1792x1024';
+  return '1024x1024';
+}
+
+/**
+ * @function editDesign
+ * @description Repaints the masked area of an existing design with an edit instruction (inpainting). Runs the same moderation as fresh generation, then hands source image and mask to an edit-capable provider. The mask is resized to the source dimensions, as providers require them to match.
+ *
+ * @param {DesignEditParams} params - Instruction, source image, mask and optional provider
+ * @param {DesignGenerationHooks} [hooks] - Optional progress callbacks
+ * @param {AiCallContext} [context] - Design, order and user the moderation and edit calls are logged against
+ *
+ * @returns {Promise<DesignGenerationResult>} Edited image with instruction and model name
+ *
+ * @throws {AppError} 400 when the instruction is flagged or rejected as invalid
+ * @throws {AppError} 429 when rate limit is exceeded
+ * @throws {AppError} 502 when OpenAI service has an error
+ * @throws {AppError} 503 when moderation is unavailable in fail-closed mode
+ * @throws {Error} Any other provider, download or network failure
  *
  * @example
- * const prompt = generateRandomPrompt();
- * // Returns something like: "a majestic dragon with vibrant colors"
+ * const edited = await editDesign({
+ *   instruction: 'replace the sun with a crescent moon',
+ *   sourceImageUrl: design.imageUrl,
+ *   mask: 'data:image/png;base64,...',
+ * });
+ *
+ * @async
  */
-export function generateRandomPrompt(): string {
-  const subjects = [
-    'a majestic dragon',
-    'a cosmic nebula',
-    'a geometric mandala',
-    'a vintage motorcycle',
-    'a mystical forest',
-    'a retro arcade game',
-    'a cyberpunk cityscape',
-    'an abstract wave pattern',
-    'a minimalist mountain range',
-    'a steampunk robot',
-    'a tropical sunset',
-    'a space explorer',
-    'a zen garden',
-    'a neon graffiti design',
-    'a mythical phoenix',
-  ];
-
-  const themes = [
-    'with vibrant colors',
-    'in monochrome style',
-    'with geometric patterns',
-    'with flowing lines',
-    'in pixel art style',
-    'with watercolor effects',
-    'with bold outlines',
-    'in a symmetrical design',
-  ];
-
-  const randomSubject = subjects[Math.floor(Math.random() * subjects.length)];
-  const randomTheme = themes[Math.floor(Math.random() * themes.length)];
-
-  return `${randomSubject} ${randomTheme}`;
+export async function editDesign(
+  params: DesignEditParams,
+  hooks: DesignGenerationHooks = {},
+  context: AiCallContext = {}
+): Promise<DesignGenerationResult> {
+  const { instruction, sourceImageUrl, mask, provider: requestedProvider } = params;
+
+  const isSafe = await moderateContent(instruction, context);
+  if (!isSafe) {
+    throw new AppError('Edit contains inappropriate content and cannot be processed.', 400);
+  }
+  hooks.onModerationPassed?.();
+
+  const image = await downloadImage(sourceImageUrl);
+  const { width, height } = await sharp(image).metadata();
+  const maskBuffer = await sharp(await downloadImage(mask))
+    .resize(width, height, { fit: 'fill' })
+    .ensureAlpha()
+    .png()
+    .toBuffer();
+  const size = await closestImageSize(image);
+
+  const provider = await resolveImageEditProvider(requestedProvider);
+  if (!provider.edit) {
+    throw new AppError(`Image provider ${provider.name} cannot edit images`, 400);
+  }
+  console.log(`Editing design with ${provider.model}...`);
+  console.log('Edit instruction:', instruction);
+
+  const editImage = await sharp(image).ensureAlpha().png().toBuffer();
+  const startedAt = Date.now();
+  try {
+    const result = await provider.edit({
+      prompt: normalizeBasePrompt(instruction),
+      size,
+      image: editImage,
+      mask: maskBuffer,
+    });
+    await recordAiCall({
+      kind: 'IMAGE_EDIT',
+      provider: provider.name,
+      model: result.model,
+      size,
+      quality: provider.quality,
+      latencyMs: Date.now() - startedAt,
+      outcome: 'SUCCESS',
+      context,
+    });
+
+    console.log('✓ Design edited successfully');
+
+    return {
+      imageUrl: result.imageUrl,
+      imageBuffer: result.imageBuffer,
+      revisedPrompt: result.revisedPrompt,
+      aiModel: result.model,
+    };
+  } catch (error: unknown) {
+    console.error(`❌ ${provider.model} edit error:`, error);
+    await recordAiCall({
+      kind: 'IMAGE_EDIT',
+      provider: provider.name,
+      model: provider.model,
+      size,
+      quality: provider.quality,
+      latencyMs: Date.now() - startedAt,
+      outcome: 'ERROR',
+      error: error instanceof Error ? error.message : String(error),
+      context,
+    });
+    throw toGenerationError(error, 'Failed to edit design');
+  }
+}
+
+/**
+ * Chat model that merges refinement instructions into prompts
+ */
+const REFINEMENT_MODEL = process.env.REFINEMENT_MODEL || 'gpt-4o-mini';
+
+/**
+ * Longest merged prompt accepted back from the model (DALL-E 3 allows 4000 characters)
+ */
+const MAX_MERGED_PROMPT_LENGTH = 1000;
+
+const REFINEMENT_SYSTEM_PROMPT = [
+  'You edit prompts for a t-shirt graphic generator.',
+  'Given the current prompt and a short change request, return one complete replacement prompt.',
+  'Keep the subject, composition and every detail the change request does not touch; apply the change exactly.',
+  'Do not add print or background instructions, quotes, explanations or labels. Reply with the prompt only.',
+].join(' ');
+
+/**
+ * @function mergeRefinementPrompt
+ * @description Merges a short refinement instruction ("make the dragon blue") into the full prompt of the design it refines, using the provider's revised prompt as context for what was actually drawn. Falls back to appending the instruction when the chat model is unavailable, so refinement keeps working offline; the customer confirms the result either way.
+ *
+ * @param {RefinementMergeInput} input - Source prompt, revised prompt and instruction
+ * @param {AiCallContext} [callContext] - Design, order and user the rewrite is logged against
+ *
+ * @returns {Promise<RefinementMergeResult>} Merged prompt and the model that produced it
+ *
+ * @example
+ * const { prompt } = await mergeRefinementPrompt({
+ *   prompt: 'a dragon curled into a circular emblem',
+ *   instruction: 'make the dragon blue',
+ * });
+ * // "a blue dragon curled into a circular emblem"
+ *
+ * @async
+ */
+export async function mergeRefinementPrompt(
+  input: RefinementMergeInput,
+  callContext: AiCallContext = {}
+): Promise<RefinementMergeResult> {
+  const basePrompt = input.prompt.trim();
+  const instruction = input.instruction.trim();
+  const context =
+    input.revisedPrompt && input.revisedPrompt.trim() !== basePrompt
+      ? `\nWhat the current image shows: ${input.revisedPrompt.trim()}`
+      : '';
+
+  const startedAt = Date.now();
+  try {
+    const completion = await openai.chat.completions.create({
+      model: REFINEMENT_MODEL,
+      temperature: 0.2,
+      messages: [
+        { role: 'system', content: REFINEMENT_SYSTEM_PROMPT },
+        {
+          role: 'user',
+          content: `Current prompt: ${basePrompt}${context}\nChange request: ${instruction}`,
+        },
+      ],
+    });
+    await recordAiCall({
+      kind: 'PROMPT_REWRITE',
+      provider: 'openai',
+      model: REFINEMENT_MODEL,
+      latencyMs: Date.now() - startedAt,
+      outcome: 'SUCCESS',
+      inputTokens: completion.usage?.prompt_tokens,
+      outputTokens: completion.usage?.completion_tokens,
+      context: callContext,
+    });
+
+    const merged = completion.choices[0]?.message?.content
+      ?.trim()
+      .replace(/^["“]|["”]$/g, '')
+      .trim();
+    if (merged) {
+      return { prompt: merged.slice(0, MAX_MERGED_PROMPT_LENGTH), model: REFINEMENT_MODEL };
+    }
+    console.warn('Refinement merge returned no prompt, falling back to appending the change');
+  } catch (error) {
+    console.error('Refinement merge failed, falling back to appending the change:', error);
+    await recordAiCall({
+      kind: 'PROMPT_REWRITE',
+      provider: 'openai',
+      model: REFINEMENT_MODEL,
+      latencyMs: Date.now() - startedAt,
+      outcome: 'ERROR',
+      error: error instanceof Error ? error.message : String(error),
+      context: callContext,
+    });
+  }
+
+  return {
+    prompt: `${basePrompt.replace(/[.\s]+$/, '')}. Change: ${instruction}`.slice(
+      0,
+      MAX_MERGED_PROMPT_LENGTH
+    ),
+    model: 'fallback',
+  };
 }
 
 export default openai;
@@ -5,7 +5,8 @@
  */
 
 import prisma from '../config/database.js';
-import { TIERS, TierConfig, TierType } from '../config/pricing.js';
+import { PLACEMENT_PRICES, TIERS, TierConfig, TierType } from '../config/pricing.js';
+import type { ExtraPrintPlacement } from '../types/print-placement.js';
 
 /**
  * Database setting keys for tier prices
@@ -21,6 +22,15 @@ const MAX_DESIGNS_KEYS: Record<TierType, string> = {
   [TierType.LIMITLESS]: 'premium_tier_max_designs',
 };
 
+/**
+ * Database setting keys for extra print placement prices
+ */
+const PLACEMENT_PRICE_KEYS: Record<ExtraPrintPlacement, string> = {
+  back: 'placement_price_back',
+  sleeve_left: 'placement_price_sleeve_left',
+  label_inside: 'placement_price_label_inside',
+};
+
 /**
  * @function parseNumberSetting
  * @description Safely parses a numeric setting value from database string format. Returns null for invalid or missing values.
@@ -110,3 +120,35 @@ export async function getTierPricing(tier: TierType): Promise<TierConfig> {
   const map = await getTierPricingMap();
   return map[tier];
 }
+
+/**
+ * @function getPlacementPricingMap
+ * @description Retrieves the price of each extra print placement from database settings, falling back to the static defaults. Negative overrides are ignored.
+ *
+ * @returns {Promise<Record<ExtraPrintPlacement, number>>} Price in dollars per placement
+ *
+ * @example
+ * const placementPrices = await getPlacementPricingMap();
+ * const backPrice = placementPrices.back; // 12 (or DB override)
+ *
+ * @async
+ */
+export async function getPlacementPricingMap(): Promise<Record<ExtraPrintPlacement, number>> {
+  const settings = await prisma.settings.findMany({
+    where: { key: { in: Object.values(PLACEMENT_PRICE_KEYS) } },
+  });
+
+  const settingsMap = new Map<string, string | null>(
+    settings.map((s: { key: string; value: string | null }) => [s.key, s.value])
+  );
+
+  const merged: Record<ExtraPrintPlacement, number> = { ...PLACEMENT_PRICES };
+  (Object.keys(PLACEMENT_PRICE_KEYS) as ExtraPrintPlacement[]).forEach((placement) => {
+    const price = parseNumberSetting(settingsMap.get(PLACEMENT_PRICE_KEYS[placement]));
+    if (price !== null && price >= 0) {
+      merged[placement] = price;
+    }
+  });
+
+  return merged;
+}
@@ -0,0 +1,399 @@
+/**
+ * @module services/print-check
+ * @description Print-readiness analyzer. Inspects the image that will actually be printed (transparent version unless the customer kept the background) against the shirt colour and print area, and returns scored warnings for problems customers can't judge from the screen: artwork that disappears into the shirt, near-black areas on a black tee, detail too fine for DTG, a hard rectangular background, low effective resolution and text printed straight onto the shirt in a colour too close to it.
+ * @since 2026-10-18
+ */
+
+import sharp from 'sharp';
+import { AppError } from '../middleware/error.middleware.js';
+import { PRINT_AREAS } from '../config/print-areas.js';
+import { getPrintSourceUrl } from './background-removal.service.js';
+import { downloadImage } from './asset-storage.service.js';
+import { readTextLayers } from './text-layer.service.js';
+import type { PrintSourceDesign } from '../types/background-removal.js';
+import type {
+  PrintCheckCode,
+  PrintCheckOptions,
+  PrintCheckResult,
+  PrintCheckSeverity,
+  PrintCheckWarning,
+} from '../types/print-check.js';
+
+/**
+ * Longest side the image is analysed at; larger sources are downscaled first
+ */
+const ANALYSIS_MAX_PX = 1024;
+
+/**
+ * Alpha at or above this counts as printed ink
+ */
+const OPAQUE_ALPHA = 128;
+
+/**
+ * WCAG contrast ratio below which a pixel blends into the shirt
+ */
+const MIN_CONTRAST = 1.5;
+
+/**
+ * WCAG contrast ratio below which text on the bare shirt is hard to read
+ */
+const MIN_TEXT_CONTRAST = 2;
+
+/**
+ * Relative luminance below which a pixel (or shirt) counts as near-black
+ */
+const NEAR_BLACK_LUMINANCE = 0.01;
+
+/**
+ * Narrowest feature DTG printers hold reliably, in inches
+ */
+const MIN_FEATURE_IN = 1 / 32;
+
+/**
+ * Share of border pixels that must be opaque for the print to read as a rectangle
+ */
+const HARD_EDGE_BORDER_RATIO = 0.9;
+
+const SEVERITY_PENALTY: Record<PrintCheckSeverity, number> = {
+  critical: 40,
+  warning: 15,
+  info: 5,
+};
+
+/**
+ * sRGB channel value (0-255) to linear light, precomputed
+ */
+const LINEAR = Array.from({ length: 256 }, (_, value) => {
+  const c = value / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+});
+
+/**
+ * @function luminance
+ * @description WCAG relative luminance of an sRGB colour
+ *
+ * @param {number} r - Red (0-255)
+ * @param {number} g - Green (0-255)
+ * @param {number} b - Blue (0-255)
+ *
+ * @returns {number} Luminance (0-1)
+ */
+function luminance(r: number, g: number, b: number): number {
+  return 0.2126 * LINEAR[r] + 0.7152 * LINEAR[g] + 0.0722 * LINEAR[b];
+}
+
+/**
+ * @function parseHex
+ * @description Parses a `#rrggbb` colour
+ *
+ * @param {string} hex - Hex colour code
+ *
+ * @returns {[number, number, number]} RGB channels
+ *
+ * @throws {AppError} 400 when the code is malformed
+ */
+function parseHex(hex: string): [number, number, number] {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim());
+  if (!match) {
+    throw new AppError(`Invalid shirt colour code: ${hex}`, 400);
+  }
+  return [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)];
+}
+
+/**
+ * @function filterMask
+ * @description Square min (erode) or max (dilate) filter over a binary mask, run as two 1-D passes
+ *
+ * @param {Uint8Array} mask - 1 for ink, 0 for empty
+ * @param {number} width - Mask width
+ * @param {number} height - Mask height
+ * @param {number} radius - Half window size in pixels
+ * @param {'erode' | 'dilate'} mode - Filter to apply
+ *
+ * @returns {Uint8Array} Filtered mask
+ */
+function filterMask(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  radius: number,
+  mode: 'erode' | 'dilate'
+): Uint8Array {
+  const keep = mode === 'erode' ? 0 : 1;
+  const pass = (source: Uint8Array, horizontal: boolean): Uint8Array => {
+    const out = new Uint8Array(source.length);
+    for (let y = 0; y < height; y += 1) {
+      for (let x = 0; x < width; x += 1) {
+        let value = 1 - keep;
+        for (let d = -radius; d <= radius && value !== keep; d += 1) {
+          const nx = horizontal ? x + d : x;
+          const ny = horizontal ? y : y + d;
+          // Outside the image counts as empty
+          const sample =
+            nx < 0 || ny < 0 || nx >= width || ny >= height ? 0 : source[ny * width + nx];
+          if (sample === keep) value = keep;
+        }
+        out[y * width + x] = value;
+      }
+    }
+    return out;
+  };
+  return pass(pass(mask, true), false);
+}
+
+/**
+ * @function createWarning
+ * @description Builds a warning with the penalty for its severity
+ *
+ * @param {PrintCheckCode} code - Check that failed
+ * @param {PrintCheckSeverity} severity - How badly
+ * @param {string} message - Customer-facing explanation
+ *
+ * @returns {PrintCheckWarning} Scored warning
+ */
+function createWarning(
+  code: PrintCheckCode,
+  severity: PrintCheckSeverity,
+  message: string
+): PrintCheckWarning {
+  return { code, severity, message, penalty: SEVERITY_PENALTY[severity] };
+}
+
+/**
+ * @function analyzePrintReadiness
+ * @description Runs every print check on an image
+ *
+ * @param {Buffer} input - Image that will be printed (any format sharp reads)
+ * @param {PrintCheckOptions} options - Shirt colour and printed size
+ *
+ * @returns {Promise<{warnings: PrintCheckWarning[], effectiveDpi: number}>} Warnings (most severe first) and the effective resolution
+ *
+ * @throws {AppError} 400 when the image cannot be read
+ *
+ * @example
+ * const { warnings } = await analyzePrintReadiness(png, {
+ *   shirtColor: 'Black',
+ *   shirtHex: '#0b0b0b',
+ *   widthIn: 12,
+ *   heightIn: 16,
+ * });
+ *
+ * @async
+ */
+export async function analyzePrintReadiness(
+  input: Buffer,
+  options: PrintCheckOptions
+): Promise<{ warnings: PrintCheckWarning[]; effectiveDpi: number }> {
+  const metadata = await sharp(input)
+    .metadata()
+    .catch(() => null);
+
+  if (!metadata?.width || !metadata?.height) {
+    throw new AppError('Design image could not be read', 400);
+  }
+
+  const { data, info } = await sharp(input)
+    .ensureAlpha()
+    .resize(ANALYSIS_MAX_PX, ANALYSIS_MAX_PX, { fit: 'inside', withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+  const pixelCount = width * height;
+
+  // Printing fits the whole canvas into the area, so the axis that fills it sets the resolution
+  const effectiveDpi = Math.max(
+    metadata.width / options.widthIn,
+    metadata.height / options.heightIn
+  );
+  const analysisScale = width / metadata.width;
+
+  const shirt = parseHex(options.shirtHex);
+  const shirtLuminance = luminance(shirt[0], shirt[1], shirt[2]);
+  const isBlackShirt = shirtLuminance < NEAR_BLACK_LUMINANCE;
+
+  const mask = new Uint8Array(pixelCount);
+  let opaque = 0;
+  let lowContrast = 0;
+  let nearBlack = 0;
+
+  for (let i = 0; i < pixelCount; i += 1) {
+    if (data[i * 4 + 3] < OPAQUE_ALPHA) continue;
+    mask[i] = 1;
+    opaque += 1;
+
+    const pixelLuminance = luminance(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+    const lighter = Math.max(pixelLuminance, shirtLuminance);
+    const darker = Math.min(pixelLuminance, shirtLuminance);
+    if ((lighter + 0.05) / (darker + 0.05) < MIN_CONTRAST) lowContrast += 1;
+    if (pixelLuminance < NEAR_BLACK_LUMINANCE) nearBlack += 1;
+  }
+
+  const warnings: PrintCheckWarning[] = [];
+
+  if (opaque > 0) {
+    const nearBlackRatio = nearBlack / opaque;
+    const lowContrastRatio = lowContrast / opaque;
+
+    // On a black tee the near-black check explains the same pixels better than plain contrast
+    if (isBlackShirt && nearBlackRatio > 0.2) {
+      warnings.push(
+        createWarning(
+          'dark_on_black',
+          nearBlackRatio > 0.5 ? 'critical' : 'warning',
+          `About ${Math.round(nearBlackRatio * 100)}% of the design is near-black. On a ${options.shirtColor} tee those areas won't print and the shirt shows through; lighten them or pick a lighter shirt.`
+        )
+      );
+    } else if (lowContrastRatio > 0.35) {
+      warnings.push(
+        createWarning(
+          'low_contrast',
+          lowContrastRatio > 0.6 ? 'critical' : 'warning',
+          `About ${Math.round(lowContrastRatio * 100)}% of the design is too close to the ${options.shirtColor} shirt colour and will be hard to see. Try a different shirt colour or bolder colours.`
+        )
+      );
+    }
+  }
+
+  // Fine detail is only meaningful for a cut-out subject; a kept background prints every pixel
+  const hasCutout = opaque < pixelCount * 0.98;
+  const radius = Math.floor((MIN_FEATURE_IN * effectiveDpi * analysisScale) / 2);
+  if (hasCutout && opaque > 0 && radius >= 1) {
+    const opened = filterMask(
+      filterMask(mask, width, height, radius, 'erode'),
+      width,
+      height,
+      radius,
+      'dilate'
+    );
+    let lost = 0;
+    for (let i = 0; i < pixelCount; i += 1) {
+      if (mask[i] === 1 && opened[i] === 0) lost += 1;
+    }
+    const thinRatio = lost / opaque;
+    if (thinRatio > 0.08) {
+      warnings.push(
+        createWarning(
+          'fine_detail',
+          thinRatio > 0.25 ? 'critical' : 'warning',
+          `Some lines and specks are thinner than 1/32" when printed and may break up or disappear. Ask for bolder outlines or fewer small details.`
+        )
+      );
+    }
+  }
+
+  let borderTotal = 0;
+  let borderOpaque = 0;
+  for (let x = 0; x < width; x += 1) {
+    for (const y of [0, height - 1]) {
+      borderTotal += 1;
+      if (mask[y * width + x]) borderOpaque += 1;
+    }
+  }
+  for (let y = 1; y < height - 1; y += 1) {
+    for (const x of [0, width - 1]) {
+      borderTotal += 1;
+      if (mask[y * width + x]) borderOpaque += 1;
+    }
+  }
+  if (borderOpaque / borderTotal >= HARD_EDGE_BORDER_RATIO) {
+    warnings.push(
+      options.keepBackground
+        ? createWarning(
+            'hard_edges',
+            'info',
+            'The background is kept, so the design prints as a solid rectangle with hard edges.'
+          )
+        : createWarning(
+            'hard_edges',
+            'warning',
+            "The background couldn't be removed, so the design prints as a solid rectangle with hard edges. Try a prompt with a plain background."
+          )
+    );
+  }
+
+  if (effectiveDpi < 150) {
+    const severity: PrintCheckSeverity =
+      effectiveDpi < 50 ? 'critical' : effectiveDpi < 75 ? 'warning' : 'info';
+    warnings.push(
+      createWarning(
+        'low_resolution',
+        severity,
+        `The image is about ${Math.round(effectiveDpi)} DPI at full print size, so it is upscaled for printing${severity === 'info' ? ' and may look slightly soft up close' : ' and may look blurry or pixelated'}.`
+      )
+    );
+  }
+
+  warnings.sort((a, b) => b.penalty - a.penalty);
+
+  return { warnings, effectiveDpi: Math.round(effectiveDpi) };
+}
+
+/**
+ * @function checkDesignPrintReadiness
+ * @description Analyses a design's print source for a shirt colour and placement, plus the contrast of any text layers printed outside the art
+ *
+ * @param {PrintSourceDesign} design - Design image fields and text layers
+ * @param {{name: string, hex: string}} color - Shirt colour from the product catalog
+ * @param {string} placement - Key in PRINT_AREAS
+ *
+ * @returns {Promise<PrintCheckResult>} Score, readiness and warnings
+ *
+ * @throws {AppError} 400 when the placement is unknown or the image cannot be read
+ *
+ * @async
+ */
+export async function checkDesignPrintReadiness(
+  design: PrintSourceDesign & { textLayers?: unknown },
+  color: { name: string; hex: string },
+  placement: string
+): Promise<PrintCheckResult> {
+  const area = PRINT_AREAS[placement];
+  if (!area) {
+    throw new AppError(
+      `Unknown print placement. Use one of: ${Object.keys(PRINT_AREAS).join(', ')}`,
+      400
+    );
+  }
+
+  const source = await downloadImage(getPrintSourceUrl(design));
+  const { warnings, effectiveDpi } = await analyzePrintReadiness(source, {
+    shirtColor: color.name,
+    shirtHex: color.hex,
+    widthIn: area.widthIn,
+    heightIn: area.heightIn,
+    keepBackground: Boolean(design.keepBackground),
+  });
+
+  // Text in a band above or below the art sits directly on the shirt
+  const shirt = parseHex(color.hex);
+  const shirtLuminance = luminance(shirt[0], shirt[1], shirt[2]);
+  const faintText = readTextLayers(design.textLayers).filter((layer) => {
+    if (layer.position === 'overlay') return false;
+    const [r, g, b] = parseHex(layer.color);
+    const textLuminance = luminance(r, g, b);
+    const lighter = Math.max(textLuminance, shirtLuminance);
+    const darker = Math.min(textLuminance, shirtLuminance);
+    return (lighter + 0.05) / (darker + 0.05) < MIN_TEXT_CONTRAST;
+  });
+  if (faintText.length) {
+    warnings.push(
+      createWarning(
+        'text_contrast',
+        'warning',
+        `"${faintText[0].text}" is too close to the ${color.name} shirt colour to read well. Pick a lighter or darker text colour.`
+      )
+    );
+    warnings.sort((a, b) => b.penalty - a.penalty);
+  }
+
+  const penalty = warnings.reduce((sum, warning) => sum + warning.penalty, 0);
+
+  return {
+    score: Math.max(0, 100 - penalty),
+    ready: !warnings.some((warning) => warning.severity === 'critical'),
+    warnings,
+    color: color.name,
+    placement,
+    effectiveDpi,
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * @module services/print-file
+ * @description Print-file stage between the display image and fulfillment. Generated designs are ~1024px web images; Printful needs the placement's full print area at 300 DPI (3600×4800px for a tee front). This service upscales the print source (transparent version unless the customer kept the background) to fit the print area, draws the design's text layers over it at full resolution, tags the PNG with its DPI, checks Printful's size limits, stores it and records `printFileUrl` on the design.
+ * @since 2026-10-18
+ */
+
+import sharp from 'sharp';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/error.middleware.js';
+import {
+  PRINT_AREAS,
+  PRINT_FILE_MAX_BYTES,
+  PRINT_SOURCE_MIN_PX,
+  getDesignPrintPlacement,
+} from '../config/print-areas.js';
+import type { PrintAreaSpec } from '../config/print-areas.js';
+import { getPrintSourceUrl } from './background-removal.service.js';
+import { downloadImage, uploadPrintFile } from './asset-storage.service.js';
+import { composeTextLayers, readTextLayers } from './text-layer.service.js';
+import type {
+  PrintFileDesign,
+  PrintFileRegenerationResult,
+  PrintFileResult,
+} from '../types/print-file.js';
+import type { TextLayer } from '../types/text-layer.js';
+
+/**
+ * @function renderPrintFile
+ * @description Scales an image to fit the print area at its DPI (keeping aspect ratio and transparency), adds any text layers and validates the result
+ *
+ * @param {Buffer} source - Print source image
+ * @param {PrintAreaSpec} area - Target print area
+ * @param {TextLayer[]} [textLayers=[]] - Text to composite; bands above or below the art are fitted into the print area with it
+ *
+ * @returns {Promise<{buffer: Buffer, width: number, height: number}>} PNG print file and its pixel size
+ *
+ * @throws {AppError} 400 when the source is unreadable, too small to upscale, or the result exceeds Printful's file limit
+ *
+ * @async
+ */
+export async function renderPrintFile(
+  source: Buffer,
+  area: PrintAreaSpec,
+  textLayers: TextLayer[] = []
+): Promise<{ buffer: Buffer; width: number; height: number }> {
+  const metadata = await sharp(source)
+    .metadata()
+    .catch(() => null);
+
+  if (!metadata?.width || !metadata?.height) {
+    throw new AppError('Print source image could not be read', 400);
+  }
+
+  if (Math.min(metadata.width, metadata.height) < PRINT_SOURCE_MIN_PX) {
+    throw new AppError(
+      `Print source is too small to print sharply (${metadata.width}x${metadata.height}px, minimum ${PRINT_SOURCE_MIN_PX}px)`,
+      400
+    );
+  }
+
+  const maxWidth = Math.round(area.widthIn * area.dpi);
+  const maxHeight = Math.round(area.heightIn * area.dpi);
+
+  let buffer: Buffer;
+  let width: number;
+  let height: number;
+  if (textLayers.length) {
+    const composed = await composeTextLayers(source, textLayers, {
+      width: maxWidth,
+      height: maxHeight,
+    });
+    ({ width, height } = composed);
+    buffer = await sharp(composed.buffer).withMetadata({ density: area.dpi }).png().toBuffer();
+  } else {
+    const scale = Math.min(maxWidth / metadata.width, maxHeight / metadata.height);
+    width = Math.round(metadata.width * scale);
+    height = Math.round(metadata.height * scale);
+
+    buffer = await sharp(source)
+      .ensureAlpha()
+      .resize(width, height, { kernel: 'lanczos3' })
+      .withMetadata({ density: area.dpi })
+      .png()
+      .toBuffer();
+  }
+
+  if (buffer.length > PRINT_FILE_MAX_BYTES) {
+    throw new AppError(
+      `Print file is ${Math.ceil(buffer.length / 1024 / 1024)}MB, above the ${PRINT_FILE_MAX_BYTES / 1024 / 1024}MB Printful limit`,
+      400
+    );
+  }
+
+  return { buffer, width, height };
+}
+
+/**
+ * @function generatePrintFile
+ * @description Renders, uploads and records a fresh print file for a design, replacing any previous one
+ *
+ * @param {string} designId - Design to prepare
+ * @param {string} [placement] - Placement to size for (defaults to where the design prints on its order's first item, or `front`)
+ *
+ * @returns {Promise<PrintFileResult>} Stored print file details
+ *
+ * @throws {AppError} 404 when the design does not exist
+ * @throws {AppError} 400 when the design is not finished, the placement is unknown, or the file fails validation
+ *
+ * @async
+ */
+export async function generatePrintFile(
+  designId: string,
+  placement?: string
+): Promise<PrintFileResult> {
+  const design = await prisma.design.findUnique({
+    where: { id: designId },
+    include: { order: { include: { items: { include: { product: true } } } } },
+  });
+
+  if (!design) {
+    throw new AppError('Design not found', 404);
+  }
+
+  if ((design.status !== 'COMPLETED' && design.status !== 'APPROVED') || !design.imageUrl) {
+    throw new AppError('Only finished designs have print files', 400);
+  }
+
+  const targetPlacement =
+    placement ||
+    getDesignPrintPlacement(
+      design.placement,
+      design.order?.items?.[0]?.product?.category || 'T_SHIRT'
+    );
+  const area = PRINT_AREAS[targetPlacement];
+  if (!area) {
+    throw new AppError(
+      `Unknown print placement. Use one of: ${Object.keys(PRINT_AREAS).join(', ')}`,
+      400
+    );
+  }
+
+  const source = await downloadImage(getPrintSourceUrl(design));
+  const { buffer, width, height } = await renderPrintFile(
+    source,
+    area,
+    readTextLayers(design.textLayers)
+  );
+  const printFileUrl = await uploadPrintFile(design.id, targetPlacement, buffer);
+
+  await prisma.design.update({
+    where: { id: design.id },
+    data: {
+      printFileUrl,
+      printFilePlacement: targetPlacement,
+      printFileGeneratedAt: new Date(),
+    },
+  });
+
+  console.log(
+    `✓ Print file for design ${design.id} (${targetPlacement}, ${width}x${height}px @ ${area.dpi} DPI)`
+  );
+
+  return {
+    designId: design.id,
+    printFileUrl,
+    placement: targetPlacement,
+    width,
+    height,
+    dpi: area.dpi,
+    bytes: buffer.length,
+  };
+}
+
+/**
+ * @function resolvePrintFileUrl
+ * @description URL to send to Printful for a placement. Reuses the stored print file when it was prepared for the same placement, otherwise prepares one. Falls back to the text display image, or the print source image, if preparation fails so fulfillment is never blocked by this stage.
+ *
+ * @param {PrintFileDesign} design - Design being fulfilled
+ * @param {string} placement - Printful placement
+ *
+ * @returns {Promise<string>} Print file URL
+ *
+ * @async
+ */
+export async function resolvePrintFileUrl(
+  design: PrintFileDesign,
+  placement: string
+): Promise<string> {
+  if (design.printFileUrl && design.printFilePlacement === placement) {
+    return design.printFileUrl;
+  }
+
+  try {
+    const printFile = await generatePrintFile(design.id, placement);
+    return printFile.printFileUrl;
+  } catch (error) {
+    console.error(
+      `Print file preparation failed for design ${design.id}; sending the unprepared image:`,
+      error
+    );
+    return design.textImageUrl || getPrintSourceUrl(design);
+  }
+}
+
+/**
+ * @function regeneratePrintFiles
+ * @description Regenerates print files one design at a time (each render holds a full print-area bitmap in memory). Failures are reported per design.
+ *
+ * @param {string[]} designIds - Designs to regenerate
+ * @param {string} [placement] - Placement override for every design
+ *
+ * @returns {Promise<PrintFileRegenerationResult[]>} Result per design, in input order
+ *
+ * @async
+ */
+export async function regeneratePrintFiles(
+  designIds: string[],
+  placement?: string
+): Promise<PrintFileRegenerationResult[]> {
+  const results: PrintFileRegenerationResult[] = [];
+
+  for (const designId of designIds) {
+    try {
+      const printFile = await generatePrintFile(designId, placement);
+      results.push({
+        designId,
+        printFileUrl: printFile.printFileUrl,
+        placement: printFile.placement,
+        width: printFile.width,
+        height: printFile.height,
+      });
+    } catch (error: unknown) {
+      results.push({
+        designId,
+        error: error instanceof Error ? error.message : 'Failed to generate print file',
+      });
+    }
+  }
+
+  return results;
+}
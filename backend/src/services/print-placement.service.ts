@@ -0,0 +1,367 @@
+/**
+ * @module services/print-placement
+ * @description Where a design prints inside the print area. Customers pick a preset or drag and resize the art on a mockup; the box (offset and width in inches) is validated against the placement's print area and stored on the order item. On submission the height is derived from the approved design's aspect ratio and the box is sent to Printful as the layer position. Items without a box print at Printful's default placement.
+ * @since 2026-10-18
+ */
+
+import sharp from 'sharp';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/error.middleware.js';
+import {
+  MIN_PRINT_WIDTH_IN,
+  PRINT_AREAS,
+  PRINT_PLACEMENT_PRESETS,
+  getPrintPlacement,
+} from '../config/print-areas.js';
+import type { PrintAreaSpec } from '../config/print-areas.js';
+import { findProductColor } from '../config/products.js';
+import { getPrintSourceUrl } from './background-removal.service.js';
+import { downloadImage } from './asset-storage.service.js';
+import type { PrintSourceDesign } from '../types/background-removal.js';
+import type {
+  OrderItemPlacementFields,
+  PlacementEmailPreview,
+  PrintLayerPosition,
+  PrintPlacementBox,
+  PrintPlacementPreset,
+  PrintPlacementPresetSpec,
+} from '../types/print-placement.js';
+
+/**
+ * Preset used to describe, and preview, items left at Printful's default placement
+ */
+const DEFAULT_PRESET: PrintPlacementPreset = 'full-front';
+
+/**
+ * @function roundInches
+ * @description Rounds a measurement to 1/100 in, plenty for print positioning
+ *
+ * @param {number} value - Inches
+ *
+ * @returns {number} Rounded inches
+ */
+function roundInches(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * @function getPlacementPresets
+ * @description Presets for a placement, or undefined when the placement cannot be repositioned
+ *
+ * @param {string} placement - Printful placement
+ *
+ * @returns {Record<PrintPlacementPreset, PrintPlacementPresetSpec> | undefined} Presets by key
+ */
+export function getPlacementPresets(
+  placement: string
+): Record<PrintPlacementPreset, PrintPlacementPresetSpec> | undefined {
+  return PRINT_PLACEMENT_PRESETS[placement];
+}
+
+/**
+ * @function presetBox
+ * @description Art box for a preset, centring it when the preset has no `left`
+ *
+ * @param {PrintPlacementPresetSpec} spec - Preset
+ * @param {PrintAreaSpec} area - Print area
+ *
+ * @returns {PrintPlacementBox} Box in inches
+ */
+function presetBox(spec: PrintPlacementPresetSpec, area: PrintAreaSpec): PrintPlacementBox {
+  return {
+    left: spec.left ?? roundInches((area.widthIn - spec.width) / 2),
+    top: spec.top,
+    width: spec.width,
+  };
+}
+
+/**
+ * @function parsePlacementBox
+ * @description Validates a customer-drawn box against the print area
+ *
+ * @param {unknown} value - Raw `{left, top, width}` in inches
+ * @param {PrintAreaSpec} area - Print area
+ *
+ * @returns {PrintPlacementBox} Rounded box
+ *
+ * @throws {AppError} 400 when a field is missing, the box is too narrow, or it leaves the print area
+ */
+export function parsePlacementBox(value: unknown, area: PrintAreaSpec): PrintPlacementBox {
+  if (!value || typeof value !== 'object') {
+    throw new AppError('box must be an object with left, top and width in inches', 400);
+  }
+
+  const raw = value as Record<string, unknown>;
+  const [left, top, width] = (['left', 'top', 'width'] as const).map((field) => {
+    const number = Number(raw[field]);
+    if (raw[field] === null || raw[field] === undefined || !Number.isFinite(number)) {
+      throw new AppError(`box.${field} must be a number of inches`, 400);
+    }
+    return roundInches(number);
+  });
+
+  if (width < MIN_PRINT_WIDTH_IN) {
+    throw new AppError(`The design must be at least ${MIN_PRINT_WIDTH_IN} in wide`, 400);
+  }
+
+  if (left < 0 || left + width > area.widthIn) {
+    throw new AppError(`The design must fit within the ${area.widthIn} in wide print area`, 400);
+  }
+
+  if (top < 0 || top > area.heightIn - MIN_PRINT_WIDTH_IN) {
+    throw new AppError(
+      `The design must start within the top ${area.heightIn - MIN_PRINT_WIDTH_IN} in of the print area`,
+      400
+    );
+  }
+
+  return { left, top, width };
+}
+
+/**
+ * @function resolveItemPlacement
+ * @description Turns a placement request into the order item columns to store. Send `preset` for a
+ * preset, `box` for a custom position (optionally with the preset it started from), or neither to
+ * go back to Printful's default placement.
+ *
+ * @param {string} placement - Printful placement of the item's product
+ * @param {{preset?: unknown, box?: unknown}} input - Request body
+ *
+ * @returns {Required<OrderItemPlacementFields>} Columns for `prisma.orderItem.update`
+ *
+ * @throws {AppError} 400 when the product cannot be repositioned, the preset is unknown or the box is invalid
+ */
+export function resolveItemPlacement(
+  placement: string,
+  input: { preset?: unknown; box?: unknown }
+): Required<OrderItemPlacementFields> {
+  const presets = getPlacementPresets(placement);
+  const area = PRINT_AREAS[placement];
+  if (!presets || !area) {
+    throw new AppError('Print placement can only be adjusted on apparel', 400);
+  }
+
+  const hasPreset = input.preset !== undefined && input.preset !== null;
+  if (hasPreset && !(typeof input.preset === 'string' && input.preset in presets)) {
+    throw new AppError(
+      `Unknown placement preset. Use one of: ${Object.keys(presets).join(', ')}`,
+      400
+    );
+  }
+  const preset = hasPreset ? (input.preset as PrintPlacementPreset) : null;
+
+  let box: PrintPlacementBox | null = null;
+  if (input.box !== undefined && input.box !== null) {
+    box = parsePlacementBox(input.box, area);
+  } else if (preset) {
+    box = presetBox(presets[preset], area);
+  }
+
+  return {
+    placementPreset: box ? preset : null,
+    printLeftIn: box?.left ?? null,
+    printTopIn: box?.top ?? null,
+    printWidthIn: box?.width ?? null,
+  };
+}
+
+/**
+ * @function readItemPlacement
+ * @description Stored box for an order item, or null when it uses Printful's default placement
+ *
+ * @param {OrderItemPlacementFields} item - Order item
+ *
+ * @returns {PrintPlacementBox | null} Box in inches
+ */
+export function readItemPlacement(item: OrderItemPlacementFields): PrintPlacementBox | null {
+  if (item.printLeftIn == null || item.printTopIn == null || item.printWidthIn == null) {
+    return null;
+  }
+  return { left: item.printLeftIn, top: item.printTopIn, width: item.printWidthIn };
+}
+
+/**
+ * @function getItemPreviewBox
+ * @description Box an item's art is shown in: the stored box, or the full-front preset, which is
+ * where Printful's default puts it. Placements without presets (the back) use the full-front box,
+ * which fills the same 12×16 in area.
+ *
+ * @param {OrderItemPlacementFields | null | undefined} item - Order item, if the design is on one
+ * @param {string} placement - Printful placement with a print area
+ *
+ * @returns {PrintPlacementBox} Box in inches
+ */
+export function getItemPreviewBox(
+  item: OrderItemPlacementFields | null | undefined,
+  placement: string
+): PrintPlacementBox {
+  const presets = getPlacementPresets(placement);
+  const stored = presets && item ? readItemPlacement(item) : null;
+  const preset = (presets ?? PRINT_PLACEMENT_PRESETS.front)[DEFAULT_PRESET];
+  return stored ?? presetBox(preset, PRINT_AREAS[placement]);
+}
+
+/**
+ * @function fitPrintPosition
+ * @description Full layer position for a box and a design. Height follows the design's aspect
+ * ratio; art taller than the print area is scaled down around its centre, and art running off the
+ * bottom is moved up, so the position Printful receives is always inside the area.
+ *
+ * @param {PrintPlacementBox} box - Stored box
+ * @param {number} aspect - Design height divided by width
+ * @param {PrintAreaSpec} area - Print area
+ *
+ * @returns {PrintLayerPosition} Position in inches
+ */
+export function fitPrintPosition(
+  box: PrintPlacementBox,
+  aspect: number,
+  area: PrintAreaSpec
+): PrintLayerPosition {
+  let { left, top, width } = box;
+  let height = width * aspect;
+
+  if (height > area.heightIn) {
+    height = area.heightIn;
+    const fitted = height / aspect;
+    left += (width - fitted) / 2;
+    width = fitted;
+  }
+
+  top = Math.min(top, area.heightIn - height);
+
+  return {
+    left: roundInches(Math.max(0, left)),
+    top: roundInches(Math.max(0, top)),
+    width: roundInches(width),
+    height: roundInches(height),
+  };
+}
+
+/**
+ * @function getDesignAspect
+ * @description Aspect ratio (height / width) of what will print: the text display image when the
+ * design has text, otherwise the print source. The print file is scaled from the same image, so it
+ * has the same ratio.
+ *
+ * @param {PrintSourceDesign & {textImageUrl?: string | null}} design - Design image fields
+ *
+ * @returns {Promise<number>} Height divided by width
+ *
+ * @throws {AppError} 400 when the image cannot be read
+ *
+ * @async
+ */
+export async function getDesignAspect(
+  design: PrintSourceDesign & { textImageUrl?: string | null }
+): Promise<number> {
+  const image = await downloadImage(design.textImageUrl || getPrintSourceUrl(design));
+  const metadata = await sharp(image)
+    .metadata()
+    .catch(() => null);
+
+  if (!metadata?.width || !metadata?.height) {
+    throw new AppError('Design image could not be read', 400);
+  }
+
+  return metadata.height / metadata.width;
+}
+
+/**
+ * @function describePlacement
+ * @description Short label for a placement, e.g. "Left chest, 4 in wide"
+ *
+ * @param {string} placement - Printful placement
+ * @param {string | null | undefined} preset - Stored preset
+ * @param {PrintLayerPosition} position - Fitted position
+ * @param {boolean} isCustom - Whether the box was moved away from the preset
+ *
+ * @returns {string} Label
+ */
+function describePlacement(
+  placement: string,
+  preset: string | null | undefined,
+  position: PrintLayerPosition,
+  isCustom: boolean
+): string {
+  const presets = getPlacementPresets(placement);
+  const name =
+    !isCustom && preset && presets?.[preset as PrintPlacementPreset]
+      ? presets[preset as PrintPlacementPreset].label
+      : 'Custom placement';
+  return `${name}, ${position.width} in wide`;
+}
+
+/**
+ * @function getOrderPlacementPreview
+ * @description Placement details for confirmation emails: the approved front design (or the
+ * latest finished one) on the first apparel item, with its fitted position. Items without a stored box
+ * are shown as the full-front preset, which is where Printful's default puts them. Never throws;
+ * emails go out without the preview when anything is missing.
+ *
+ * @param {string} orderId - Order to describe
+ *
+ * @returns {Promise<PlacementEmailPreview | null>} Preview, or null when there is nothing to show
+ *
+ * @async
+ */
+export async function getOrderPlacementPreview(
+  orderId: string
+): Promise<PlacementEmailPreview | null> {
+  try {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        items: { include: { product: true } },
+        designs: { where: { status: { in: ['COMPLETED', 'APPROVED'] }, placement: 'front' } },
+      },
+    });
+    if (!order) return null;
+
+    const item = order.items.find(
+      (orderItem: { product: { category: string } }) =>
+        getPlacementPresets(getPrintPlacement(orderItem.product.category)) !== undefined
+    );
+    const design =
+      order.designs.find((candidate: { approvalStatus: boolean }) => candidate.approvalStatus) ??
+      [...order.designs].sort(
+        (a: { createdAt: Date }, b: { createdAt: Date }) =>
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      )[0];
+    if (!item || !design?.imageUrl) return null;
+
+    const placement = getPrintPlacement(item.product.category);
+    const area = PRINT_AREAS[placement];
+    const stored = readItemPlacement(item);
+    const presets = getPlacementPresets(placement)!;
+    const preset = stored ? item.placementPreset : DEFAULT_PRESET;
+    const box = getItemPreviewBox(item, placement);
+    const presetDefault =
+      preset && presets[preset as PrintPlacementPreset]
+        ? presetBox(presets[preset as PrintPlacementPreset], area)
+        : null;
+    const isCustom =
+      !presetDefault ||
+      presetDefault.left !== box.left ||
+      presetDefault.top !== box.top ||
+      presetDefault.width !== box.width;
+
+    const position = fitPrintPosition(box, await getDesignAspect(design), area);
+
+    return {
+      designId: design.id,
+      imageUrl: design.textImageUrl || getPrintSourceUrl(design),
+      color: item.color,
+      shirtHex: findProductColor(item.color)?.hex ?? '#FFFFFF',
+      areaWidthIn: area.widthIn,
+      areaHeightIn: area.heightIn,
+      placement,
+      box,
+      position,
+      label: describePlacement(placement, preset, position, isCustom),
+    };
+  } catch (error) {
+    console.error(`Placement preview failed for order ${orderId}:`, error);
+    return null;
+  }
+}
@@ -8,7 +8,16 @@ import axios, { AxiosInstance } from 'axios';
 import { OrderStatus } from '@prisma/client';
 import prisma from '../config/database.js';
 import { sendOrderShipped } from './email.service.js';
-import { isOrderActionAllowed } from '../policies/order-policy.js';
+import { getOrderMockupPreview } from './mockup.service.js';
+import { publishOrderStatus } from './design-events.service.js';
+import { resolvePrintFileUrl } from './print-file.service.js';
+import { isTemporaryImageUrl } from './design-storage.service.js';
+import { fitPrintPosition, getDesignAspect, readItemPlacement } from './print-placement.service.js';
+import { getConfiguredPlacements } from './extra-placement.service.js';
+import { PRINT_AREAS, getDesignPrintPlacement } from '../config/print-areas.js';
+import type { OrderItemPlacementFields } from '../types/print-placement.js';
+import type { PrintFileDesign } from '../types/print-file.js';
+import { getPlacementsMissingApproval, isOrderActionAllowed } from '../policies/order-policy.js';
 
 /**
  * Printful API client configuration (v2 API)
@@ -392,10 +401,9 @@ export function getPrintfulVariantId(
 
 /**
  * @function createPrintfulOrder
- * @description Creates and confirms a Printful order from an approved design using Printful API v2. Handles order submission, cost calculation, confirmation, and error recovery including duplicate order detection.
+ * @description Creates and confirms a Printful order from the order's approved designs using Printful API v2. Each item gets one Printful placement per print location (front plus any extra placements), each printing the design approved for that placement. Handles order submission, cost calculation, confirmation, and error recovery including duplicate order detection.
  *
  * @param {string} orderId - Internal database order ID
- * @param {string} designId - Approved design ID to print
  *
  * @returns {Promise<{success: boolean, printfulOrderId?: number, error?: string}>} Order creation result
  * @returns {boolean} success - Whether order was successfully created and confirmed
@@ -403,12 +411,13 @@ export function getPrintfulVariantId(
  * @returns {string} [error] - Error message if failed
  *
  * @throws {Error} When order not found or in invalid state
- * @throws {Error} When design not approved
+ * @throws {Error} When a placement has no approved design
+ * @throws {Error} When an approved design's image is not in durable storage
  * @throws {Error} When shipping address missing
  * @throws {Error} When variant mapping fails
  *
  * @example
- * const result = await createPrintfulOrder('order-123', 'design-456');
+ * const result = await createPrintfulOrder('order-123');
  * if (result.success) {
  *   console.log('Printful order ID:', result.printfulOrderId);
  * }
@@ -416,8 +425,7 @@ export function getPrintfulVariantId(
  * @async
  */
 export async function createPrintfulOrder(
-  orderId: string,
-  designId: string
+  orderId: string
 ): Promise<{ success: boolean; printfulOrderId?: number; error?: string }> {
   let order: any;
   try {
@@ -428,11 +436,13 @@ export async function createPrintfulOrder(
         items: {
           include: {
             product: true,
+            placements: true,
           },
         },
         address: true,
         designs: {
-          where: { id: designId },
+          where: { approvalStatus: true },
+          orderBy: { approvedAt: 'desc' },
         },
       },
     });
@@ -449,13 +459,58 @@ export async function createPrintfulOrder(
       throw new Error('Order has no shipping address');
     }
 
-    const design = order.designs[0];
-    if (!design) {
-      throw new Error('Design not found');
+    // Latest approved design per placement; every placement the order prints on needs one
+    const designsByPlacement = new Map<string, PrintFileDesign>();
+    for (const approved of order.designs) {
+      const designPlacement = approved.placement || 'front';
+      if (!designsByPlacement.has(designPlacement)) {
+        designsByPlacement.set(designPlacement, approved);
+      }
+    }
+
+    const missing = getPlacementsMissingApproval(getConfiguredPlacements(order.items), [
+      ...designsByPlacement.keys(),
+    ]);
+    if (missing.length) {
+      throw new Error(
+        `Design must be approved for every print location before submitting to Printful (missing: ${missing.join(', ')})`
+      );
+    }
+
+    // Provider URLs expire within the hour, so Printful only ever gets images from our bucket
+    for (const design of designsByPlacement.values()) {
+      if (design.storageStatus !== 'STORED' || isTemporaryImageUrl(design.imageUrl)) {
+        throw new Error(
+          `Design ${design.id} is not in durable storage (${design.storageStatus}); refusing to send a temporary image URL to Printful`
+        );
+      }
     }
 
-    if (!design.approvalStatus) {
-      throw new Error('Design must be approved before submitting to Printful');
+    // Prepare one high-resolution print file per design and Printful placement
+    const printFileUrls = new Map<string, string>();
+    for (const item of order.items) {
+      for (const designPlacement of getConfiguredPlacements([item])) {
+        const design = designsByPlacement.get(designPlacement)!;
+        const placement = getDesignPrintPlacement(designPlacement, item.product.category);
+        const key = `${design.id}:${placement}`;
+        if (!printFileUrls.has(key)) {
+          printFileUrls.set(key, await resolvePrintFileUrl(design, placement));
+        }
+      }
+    }
+
+    // Items with a customer placement need the front design's aspect ratio to size the layer
+    const frontDesign = designsByPlacement.get('front')!;
+    let designAspect: number | null = null;
+    if (order.items.some((item: OrderItemPlacementFields) => readItemPlacement(item))) {
+      try {
+        designAspect = await getDesignAspect(frontDesign);
+      } catch (error) {
+        console.error(
+          `Could not read design ${frontDesign.id} to position it; using Printful's default placement:`,
+          error
+        );
+      }
     }
 
     // Build Printful order items (v2)
@@ -468,22 +523,31 @@ export async function createPrintfulOrder(
         );
       }
 
-      const isApparel = item.product.category === 'T_SHIRT' || item.product.category === 'HOODIE';
-      const placement = isApparel ? 'front' : 'default';
-      const technique = isApparel ? 'dtg' : 'stock-mug';
-
-      const placements: PrintfulPlacement[] = [
-        {
-          placement,
-          technique,
-          layers: [
-            {
-              type: 'file',
-              url: design.imageUrl,
-            },
-          ],
-        },
-      ];
+      const placements: PrintfulPlacement[] = getConfiguredPlacements([item]).map(
+        (designPlacement) => {
+          const design = designsByPlacement.get(designPlacement)!;
+          const placement = getDesignPrintPlacement(designPlacement, item.product.category);
+
+          const layer: PrintfulLayer = {
+            type: 'file',
+            url: printFileUrls.get(`${design.id}:${placement}`) ?? design.imageUrl,
+          };
+          if (isTemporaryImageUrl(layer.url)) {
+            throw new Error(`Print file for design ${design.id} is a temporary image URL`);
+          }
+          // The customer's box positions the front print; extra placements print at Printful's default
+          const box = designPlacement === 'front' ? readItemPlacement(item) : null;
+          if (box && designAspect && PRINT_AREAS[placement]) {
+            layer.position = fitPrintPosition(box, designAspect, PRINT_AREAS[placement]);
+          }
+
+          return {
+            placement,
+            technique: placement === 'default' ? 'stock-mug' : 'dtg',
+            layers: [layer],
+          };
+        }
+      );
 
       return {
         source: 'catalog',
@@ -593,6 +657,7 @@ export async function createPrintfulOrder(
         fulfillmentStatus: printfulOrder.status,
       },
     });
+    publishOrderStatus(orderId, 'SUBMITTED');
 
     await logFulfillmentEvent({
       orderId,
@@ -622,6 +687,7 @@ export async function createPrintfulOrder(
             fulfillmentStatus: existingOrder.status,
           },
         });
+        publishOrderStatus(orderId, 'SUBMITTED');
 
         await logFulfillmentEvent({
           orderId,
@@ -1036,20 +1102,28 @@ export async function handlePrintfulWebhook(webhookData: any): Promise<void> {
       });
 
       console.log(`Order ${order.orderNumber} status updated to ${derivedStatus}`);
+      if (derivedStatus !== order.status) {
+        publishOrderStatus(order.id, derivedStatus);
+      }
 
       // Send shipped email if order just transitioned to SHIPPED status
       if (derivedStatus === 'SHIPPED' && wasNotShipped) {
         const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
-        sendOrderShipped({
-          customerName: order.user.firstName || order.user.email,
-          customerEmail: order.user.email,
-          orderNumber: order.orderNumber,
-          trackingNumber: trackingNumber || undefined,
-          trackingUrl: trackingUrl || undefined,
-          orderUrl: `${frontendUrl}/orders/${order.id}`,
-        }).catch((error) => {
-          console.error('Failed to send order shipped email:', error);
-        });
+        getOrderMockupPreview(order.id)
+          .then((placement) =>
+            sendOrderShipped({
+              customerName: order.user.firstName || order.user.email,
+              customerEmail: order.user.email,
+              orderNumber: order.orderNumber,
+              trackingNumber: trackingNumber || undefined,
+              trackingUrl: trackingUrl || undefined,
+              orderUrl: `${frontendUrl}/orders/${order.id}`,
+              placement,
+            })
+          )
+          .catch((error) => {
+            console.error('Failed to send order shipped email:', error);
+          });
       }
     }
   } catch (error: any) {
@@ -0,0 +1,323 @@
+/**
+ * @module services/prompt-library
+ * @description Personal prompt library. Every prompt a customer submits (generation, mask edit
+ * instruction, confirmed refinement) is stored against the order owner with its style and the
+ * batch or design it queued, so customers can search their history, star favourites and tag
+ * prompts instead of reopening old orders. Guest preview prompts belong to the guest user until
+ * `claimGuestPromptEntries` moves them to the account that claims the order.
+ * @since 2026-10-18
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/error.middleware.js';
+import type {
+  PromptEntryInput,
+  PromptEntryOutcome,
+  PromptEntrySearch,
+  PromptEntrySource,
+  PromptEntryView,
+} from '../types/prompt-library.js';
+
+type TransactionClient = PrismaClient;
+
+/**
+ * Tag limits; tags are short labels like "halloween" or "for-dad"
+ */
+export const MAX_PROMPT_TAGS = 8;
+export const MAX_PROMPT_TAG_LENGTH = 24;
+
+/**
+ * Design fields needed to derive an entry's outcome and thumbnails
+ */
+const DESIGN_RESULT_SELECT = {
+  status: true,
+  approvalStatus: true,
+  moderationStatus: true,
+  imageUrl: true,
+  thumbnailUrl: true,
+  deletedAt: true,
+};
+
+type DesignResult = {
+  status: string;
+  approvalStatus: boolean;
+  moderationStatus: string | null;
+  imageUrl: string;
+  thumbnailUrl: string | null;
+  deletedAt: Date | null;
+};
+
+type PromptEntryRow = {
+  id: string;
+  orderId: string | null;
+  prompt: string;
+  style: string | null;
+  source: PromptEntrySource;
+  favorite: boolean;
+  tags: string[];
+  createdAt: Date;
+  batch: { designs: DesignResult[] } | null;
+  design: DesignResult | null;
+};
+
+/**
+ * @function recordPromptEntry
+ * @description Adds a submitted prompt to the order owner's library. Run inside the transaction
+ * that queues the designs so the entry never points at a batch that was rolled back.
+ *
+ * @param {TransactionClient} client - Prisma client or transaction client
+ * @param {PromptEntryInput} input - Prompt and what it queued
+ *
+ * @returns {Promise<void>}
+ *
+ * @async
+ */
+export async function recordPromptEntry(
+  client: TransactionClient,
+  input: PromptEntryInput
+): Promise<void> {
+  await client.promptEntry.create({
+    data: {
+      userId: input.userId,
+      orderId: input.orderId,
+      prompt: input.prompt,
+      style: input.style || null,
+      source: input.source,
+      batchId: input.batchId ?? null,
+      designId: input.designId ?? null,
+    },
+  });
+}
+
+/**
+ * @function claimGuestPromptEntries
+ * @description Moves the prompts stored during a guest preview to the account claiming the order
+ *
+ * @param {string} orderId - Claimed order
+ * @param {string} userId - Account claiming it
+ *
+ * @returns {Promise<number>} Entries moved
+ *
+ * @async
+ */
+export async function claimGuestPromptEntries(orderId: string, userId: string): Promise<number> {
+  const { count } = await prisma.promptEntry.updateMany({
+    where: { orderId },
+    data: { userId },
+  });
+  return count;
+}
+
+/**
+ * @function getPromptOutcome
+ * @description Summarises what an entry's designs turned into
+ *
+ * @param {DesignResult[]} designs - Designs the prompt queued
+ *
+ * @returns {PromptEntryOutcome} Outcome
+ */
+function getPromptOutcome(designs: DesignResult[]): PromptEntryOutcome {
+  if (designs.some((design) => design.approvalStatus || design.status === 'APPROVED')) {
+    return 'approved';
+  }
+  if (designs.some((design) => design.status === 'GENERATING')) {
+    return 'generating';
+  }
+
+  const finished = designs.filter((design) => design.status === 'COMPLETED');
+  if (!finished.length) {
+    return 'failed';
+  }
+  if (finished.every((design) => design.moderationStatus === 'REJECTED')) {
+    return 'rejected';
+  }
+  return 'completed';
+}
+
+/**
+ * @function toPromptEntryView
+ * @description Shapes a library row for the owner, leaving out images rejected in moderation
+ *
+ * @param {PromptEntryRow} row - Entry with its batch designs or edited design
+ *
+ * @returns {PromptEntryView} Entry with outcome and thumbnails
+ */
+function toPromptEntryView(row: PromptEntryRow): PromptEntryView {
+  const designs = row.batch?.designs ?? (row.design ? [row.design] : []);
+  const thumbnails = designs
+    .filter(
+      (design) =>
+        design.imageUrl &&
+        !design.deletedAt &&
+        design.status !== 'GENERATING' &&
+        design.status !== 'FAILED' &&
+        design.moderationStatus !== 'REJECTED'
+    )
+    .map((design) => design.thumbnailUrl || design.imageUrl);
+
+  return {
+    id: row.id,
+    orderId: row.orderId,
+    prompt: row.prompt,
+    style: row.style,
+    source: row.source,
+    favorite: row.favorite,
+    tags: row.tags,
+    outcome: getPromptOutcome(designs),
+    thumbnails,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * @function searchPromptEntries
+ * @description The customer's prompts, newest first, filtered by text, tag and favourites
+ *
+ * @param {string} userId - Library owner
+ * @param {PromptEntrySearch} search - Filters and page
+ *
+ * @returns {Promise<{items: PromptEntryView[], total: number}>} Page of entries and total matches
+ *
+ * @async
+ */
+export async function searchPromptEntries(
+  userId: string,
+  search: PromptEntrySearch
+): Promise<{ items: PromptEntryView[]; total: number }> {
+  const where: Record<string, unknown> = { userId };
+  if (search.query) {
+    where.prompt = { contains: search.query, mode: 'insensitive' };
+  }
+  if (search.tag) {
+    where.tags = { has: search.tag };
+  }
+  if (search.favoritesOnly) {
+    where.favorite = true;
+  }
+
+  const [rows, total] = await Promise.all([
+    prisma.promptEntry.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (search.page - 1) * search.pageSize,
+      take: search.pageSize,
+      include: {
+        batch: {
+          select: { designs: { select: DESIGN_RESULT_SELECT, orderBy: { batchIndex: 'asc' } } },
+        },
+        design: { select: DESIGN_RESULT_SELECT },
+      },
+    }),
+    prisma.promptEntry.count({ where }),
+  ]);
+
+  return { items: rows.map(toPromptEntryView), total };
+}
+
+/**
+ * @function parsePromptTags
+ * @description Validates the tags in an update: trimmed, lower-cased and de-duplicated
+ *
+ * @param {unknown} value - Raw request value
+ *
+ * @returns {string[]} Tags
+ *
+ * @throws {AppError} 400 when not an array of strings, more than 8 tags or a tag over 24 characters
+ */
+export function parsePromptTags(value: unknown): string[] {
+  if (!Array.isArray(value) || value.some((tag) => typeof tag !== 'string')) {
+    throw new AppError('Tags must be a list of words', 400);
+  }
+
+  const tags = [...new Set(value.map((tag: string) => tag.trim().toLowerCase()).filter(Boolean))];
+  if (tags.length > MAX_PROMPT_TAGS) {
+    throw new AppError(`Use at most ${MAX_PROMPT_TAGS} tags`, 400);
+  }
+  if (tags.some((tag) => tag.length > MAX_PROMPT_TAG_LENGTH)) {
+    throw new AppError(`Keep tags under ${MAX_PROMPT_TAG_LENGTH} characters`, 400);
+  }
+  return tags;
+}
+
+/**
+ * @function findOwnedPromptEntry
+ * @description Loads one of the customer's entries
+ *
+ * @param {string} userId - Library owner
+ * @param {string} id - Entry ID
+ *
+ * @returns {Promise<Object>} Entry row
+ *
+ * @throws {AppError} 404 when missing or owned by someone else
+ *
+ * @async
+ */
+async function findOwnedPromptEntry(userId: string, id: string) {
+  const entry = await prisma.promptEntry.findUnique({ where: { id } });
+  if (!entry || entry.userId !== userId) {
+    throw new AppError('Prompt not found', 404);
+  }
+  return entry;
+}
+
+/**
+ * @function updatePromptEntry
+ * @description Stars or un-stars an entry and replaces its tags
+ *
+ * @param {string} userId - Library owner
+ * @param {string} id - Entry ID
+ * @param {Object} changes - Fields to change
+ * @param {unknown} [changes.favorite] - New favourite flag
+ * @param {unknown} [changes.tags] - New tag list
+ *
+ * @returns {Promise<Object>} Updated id, favorite and tags
+ *
+ * @throws {AppError} 400 on invalid values or nothing to change, 404 when not found
+ *
+ * @async
+ */
+export async function updatePromptEntry(
+  userId: string,
+  id: string,
+  changes: { favorite?: unknown; tags?: unknown }
+) {
+  const data: { favorite?: boolean; tags?: string[] } = {};
+  if (changes.favorite !== undefined) {
+    if (typeof changes.favorite !== 'boolean') {
+      throw new AppError('favorite must be true or false', 400);
+    }
+    data.favorite = changes.favorite;
+  }
+  if (changes.tags !== undefined) {
+    data.tags = parsePromptTags(changes.tags);
+  }
+  if (!Object.keys(data).length) {
+    throw new AppError('Nothing to update: send favorite or tags', 400);
+  }
+
+  await findOwnedPromptEntry(userId, id);
+  return prisma.promptEntry.update({
+    where: { id },
+    data,
+    select: { id: true, favorite: true, tags: true },
+  });
+}
+
+/**
+ * @function deletePromptEntry
+ * @description Removes an entry from the library; its designs are untouched
+ *
+ * @param {string} userId - Library owner
+ * @param {string} id - Entry ID
+ *
+ * @returns {Promise<void>}
+ *
+ * @throws {AppError} 404 when not found
+ *
+ * @async
+ */
+export async function deletePromptEntry(userId: string, id: string): Promise<void> {
+  await findOwnedPromptEntry(userId, id);
+  await prisma.promptEntry.delete({ where: { id } });
+}
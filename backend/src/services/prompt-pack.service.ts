@@ -0,0 +1,449 @@
+/**
+ * @module services/prompt-pack
+ * @description "Surprise Me" prompt packs, stored in `prompt_packs` so merchandising can add themed
+ * or seasonal packs (subjects × themes, a draw weight and a suggested style) without a deploy.
+ * Random prompts come from the requested pack, or a weighted draw over every available pack, and
+ * skip prompts the same visitor was shown recently. That history is kept in memory per process,
+ * so with several instances a visitor can occasionally see a repeat.
+ * @since 2026-10-18
+ */
+
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/error.middleware.js';
+import {
+  availableAt,
+  optionalDate,
+  optionalText,
+  prismaErrorCode,
+} from './style-preset.service.js';
+import type { PromptPackInput, PublicPromptPack, RandomPrompt } from '../types/prompt-pack.js';
+
+/**
+ * Lowercase slug sent by clients as `?pack=`
+ */
+const PACK_KEY_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+/**
+ * Client-generated visitor ID sent as `?visitor=`
+ */
+const VISITOR_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+/**
+ * Limits on pack fields
+ */
+const MAX_NAME_LENGTH = 60;
+const MAX_PACK_ENTRIES = 100;
+const MAX_ENTRY_LENGTH = 120;
+const MAX_WEIGHT = 100;
+
+/**
+ * How much "Surprise Me" history is kept per visitor, for how long, and for how many visitors
+ */
+const RECENT_PROMPTS_PER_VISITOR = 30;
+const RECENT_PROMPT_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_TRACKED_VISITORS = 10_000;
+
+type DrawablePack = {
+  key: string;
+  name: string;
+  subjects: string[];
+  themes: string[];
+  weight: number;
+  suggestedStyle: string | null;
+};
+
+// Map order doubles as least-recently-used order: visitors are re-inserted on every draw
+const recentPrompts = new Map<string, { prompts: string[]; seenAt: number }>();
+
+/**
+ * @function getPromptVisitorKey
+ * @description History key for a "Surprise Me" request: the client's visitor ID when it sent a
+ * valid one, otherwise its IP
+ *
+ * @param {unknown} visitorId - Raw `visitor` query value
+ * @param {string} [ipAddress] - Client IP
+ *
+ * @returns {string} Visitor key
+ */
+export function getPromptVisitorKey(visitorId: unknown, ipAddress?: string): string {
+  if (typeof visitorId === 'string' && VISITOR_ID_PATTERN.test(visitorId)) {
+    return `visitor:${visitorId}`;
+  }
+  return `ip:${ipAddress ?? 'unknown'}`;
+}
+
+/**
+ * @function getRecentPrompts
+ * @description Prompts shown to a visitor in the last day
+ *
+ * @param {string} visitorKey - Key from getPromptVisitorKey
+ * @param {number} now - Reference time in ms
+ *
+ * @returns {Set<string>} Recent prompts
+ */
+function getRecentPrompts(visitorKey: string, now: number): Set<string> {
+  const entry = recentPrompts.get(visitorKey);
+  if (!entry || now - entry.seenAt > RECENT_PROMPT_TTL_MS) {
+    return new Set();
+  }
+  return new Set(entry.prompts);
+}
+
+/**
+ * @function rememberPrompt
+ * @description Adds a prompt to the visitor's history, dropping the oldest prompts and, past the
+ * visitor cap, the least recently active visitor
+ *
+ * @param {string} visitorKey - Key from getPromptVisitorKey
+ * @param {string} prompt - Prompt shown
+ * @param {number} now - Reference time in ms
+ */
+function rememberPrompt(visitorKey: string, prompt: string, now: number): void {
+  const prompts = [...getRecentPrompts(visitorKey, now), prompt].slice(-RECENT_PROMPTS_PER_VISITOR);
+  recentPrompts.delete(visitorKey);
+  recentPrompts.set(visitorKey, { prompts, seenAt: now });
+
+  if (recentPrompts.size > MAX_TRACKED_VISITORS) {
+    const oldest = recentPrompts.keys().next().value;
+    if (oldest !== undefined) recentPrompts.delete(oldest);
+  }
+}
+
+/**
+ * @function pickWeighted
+ * @description Picks a pack with probability proportional to its weight
+ *
+ * @param {DrawablePack[]} packs - Candidates (non-empty)
+ *
+ * @returns {DrawablePack} Chosen pack
+ */
+function pickWeighted(packs: DrawablePack[]): DrawablePack {
+  const total = packs.reduce((sum, pack) => sum + Math.max(pack.weight, 0), 0);
+  if (total <= 0) {
+    return packs[Math.floor(Math.random() * packs.length)];
+  }
+
+  let roll = Math.random() * total;
+  for (const pack of packs) {
+    roll -= Math.max(pack.weight, 0);
+    if (roll < 0) return pack;
+  }
+  return packs[packs.length - 1];
+}
+
+/**
+ * @function packPrompts
+ * @description Every prompt a pack can produce
+ *
+ * @param {DrawablePack} pack - Pack
+ *
+ * @returns {string[]} "subject theme" prompts
+ */
+function packPrompts(pack: DrawablePack): string[] {
+  return pack.subjects.flatMap((subject) => pack.themes.map((theme) => `${subject} ${theme}`));
+}
+
+/**
+ * @function listAvailablePromptPacks
+ * @description Packs customers can pick right now, in display order
+ *
+ * @param {Date} [now=new Date()] - Reference time for seasonal windows
+ *
+ * @returns {Promise<PublicPromptPack[]>} Public pack fields
+ *
+ * @async
+ */
+export async function listAvailablePromptPacks(now = new Date()): Promise<PublicPromptPack[]> {
+  return prisma.promptPack.findMany({
+    where: availableAt(now),
+    orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    select: {
+      key: true,
+      name: true,
+      description: true,
+      suggestedStyle: true,
+      sortOrder: true,
+    },
+  });
+}
+
+/**
+ * @function drawRandomPrompt
+ * @description Draws a "Surprise Me" prompt. Without a pack key the pack is a weighted draw over
+ * the available packs. Prompts the visitor saw in the last day are skipped; a pack whose prompts
+ * have all been seen is passed over, and only when every candidate pack is used up can a prompt
+ * repeat.
+ *
+ * @param {Object} options - Draw options
+ * @param {string} options.visitorKey - Key from getPromptVisitorKey
+ * @param {unknown} [options.packKey] - Raw `pack` query value
+ *
+ * @returns {Promise<RandomPrompt>} Prompt, its pack and the pack's suggested style
+ *
+ * @throws {AppError} 404 when the requested pack is unknown, inactive or out of season
+ * @throws {AppError} 503 when no pack is available
+ *
+ * @async
+ */
+export async function drawRandomPrompt(options: {
+  visitorKey: string;
+  packKey?: unknown;
+}): Promise<RandomPrompt> {
+  const packKey =
+    typeof options.packKey === 'string' && options.packKey.trim()
+      ? options.packKey.trim().toLowerCase()
+      : undefined;
+  if (packKey !== undefined && !PACK_KEY_PATTERN.test(packKey)) {
+    throw new AppError(`Prompt pack "${packKey}" is not available`, 404);
+  }
+
+  const now = new Date();
+  const rows: DrawablePack[] = await prisma.promptPack.findMany({
+    where: { ...availableAt(now), ...(packKey ? { key: packKey } : {}) },
+    select: {
+      key: true,
+      name: true,
+      subjects: true,
+      themes: true,
+      weight: true,
+      suggestedStyle: true,
+    },
+  });
+  const packs = rows.filter((pack) => pack.subjects.length && pack.themes.length);
+
+  if (!packs.length) {
+    if (packKey) {
+      throw new AppError(`Prompt pack "${packKey}" is not available`, 404);
+    }
+    throw new AppError('No prompt packs are available right now', 503);
+  }
+
+  const recent = getRecentPrompts(options.visitorKey, now.getTime());
+  let candidates = packs;
+  let pack = pickWeighted(candidates);
+  let prompts = packPrompts(pack).filter((prompt) => !recent.has(prompt));
+  while (!prompts.length && candidates.length > 1) {
+    candidates = candidates.filter((candidate) => candidate !== pack);
+    pack = pickWeighted(candidates);
+    prompts = packPrompts(pack).filter((prompt) => !recent.has(prompt));
+  }
+  if (!prompts.length) {
+    prompts = packPrompts(pack);
+  }
+
+  const prompt = prompts[Math.floor(Math.random() * prompts.length)];
+  rememberPrompt(options.visitorKey, prompt, now.getTime());
+
+  return {
+    prompt,
+    pack: { key: pack.key, name: pack.name },
+    suggestedStyle: pack.suggestedStyle,
+  };
+}
+
+/**
+ * @function listPromptPacks
+ * @description Every pack, including inactive and out-of-season ones, for the admin
+ *
+ * @returns {Promise<unknown[]>} Full pack rows in display order
+ *
+ * @async
+ */
+export async function listPromptPacks(): Promise<unknown[]> {
+  return prisma.promptPack.findMany({
+    orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+  });
+}
+
+/**
+ * @function parseEntries
+ * @description Validates a subjects or themes list: trimmed, de-duplicated, non-empty
+ *
+ * @param {unknown} value - Raw body value
+ * @param {string} field - Field name for error messages
+ *
+ * @returns {string[]} Entries
+ *
+ * @throws {AppError} 400 when not a list of strings, empty, too long or with an entry over 120
+ * characters
+ */
+function parseEntries(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || value.some((entry) => typeof entry !== 'string')) {
+    throw new AppError(`${field} must be a list of strings`, 400);
+  }
+
+  const entries = [...new Set(value.map((entry: string) => entry.trim()).filter(Boolean))];
+  if (!entries.length || entries.length > MAX_PACK_ENTRIES) {
+    throw new AppError(`${field} needs 1-${MAX_PACK_ENTRIES} entries`, 400);
+  }
+  if (entries.some((entry) => entry.length > MAX_ENTRY_LENGTH)) {
+    throw new AppError(`${field} entries must be at most ${MAX_ENTRY_LENGTH} characters`, 400);
+  }
+  return entries;
+}
+
+/**
+ * @function parsePromptPackInput
+ * @description Validates an admin create/update body. On create, key, name, subjects and themes
+ * are required; on update every field is optional. A suggested style must be an existing style
+ * preset key.
+ *
+ * @param {Record<string, unknown>} body - Request body
+ * @param {boolean} partial - True for updates
+ *
+ * @returns {Promise<PromptPackInput>} Fields to write
+ *
+ * @throws {AppError} 400 when a field is missing or invalid
+ *
+ * @async
+ */
+export async function parsePromptPackInput(
+  body: Record<string, unknown>,
+  partial: boolean
+): Promise<PromptPackInput> {
+  const input: PromptPackInput = {};
+
+  if (body.key !== undefined || !partial) {
+    const key = typeof body.key === 'string' ? body.key.trim().toLowerCase() : '';
+    if (!PACK_KEY_PATTERN.test(key)) {
+      throw new AppError(
+        'key must be 1-40 lowercase letters, digits or dashes, starting with a letter or digit',
+        400
+      );
+    }
+    input.key = key;
+  }
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      throw new AppError(`name is required (max ${MAX_NAME_LENGTH} characters)`, 400);
+    }
+    input.name = name;
+  }
+
+  if (body.subjects !== undefined || !partial) {
+    input.subjects = parseEntries(body.subjects, 'subjects');
+  }
+  if (body.themes !== undefined || !partial) {
+    input.themes = parseEntries(body.themes, 'themes');
+  }
+
+  input.description = optionalText(body.description, 'description');
+
+  if (body.weight !== undefined) {
+    const weight = Number(body.weight);
+    if (!Number.isInteger(weight) || weight < 0 || weight > MAX_WEIGHT) {
+      throw new AppError(`weight must be an integer from 0 to ${MAX_WEIGHT}`, 400);
+    }
+    input.weight = weight;
+  }
+
+  input.suggestedStyle = optionalText(body.suggestedStyle, 'suggestedStyle');
+  if (input.suggestedStyle) {
+    const style = await prisma.stylePreset.findUnique({
+      where: { key: input.suggestedStyle },
+      select: { id: true },
+    });
+    if (!style) {
+      throw new AppError(`suggestedStyle "${input.suggestedStyle}" is not a style preset`, 400);
+    }
+  }
+
+  if (body.sortOrder !== undefined) {
+    const sortOrder = Number(body.sortOrder);
+    if (!Number.isInteger(sortOrder)) {
+      throw new AppError('sortOrder must be an integer', 400);
+    }
+    input.sortOrder = sortOrder;
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== 'boolean') {
+      throw new AppError('active must be a boolean', 400);
+    }
+    input.active = body.active;
+  }
+
+  input.availableFrom = optionalDate(body.availableFrom, 'availableFrom');
+  input.availableUntil = optionalDate(body.availableUntil, 'availableUntil');
+  if (input.availableFrom && input.availableUntil && input.availableFrom >= input.availableUntil) {
+    throw new AppError('availableFrom must be before availableUntil', 400);
+  }
+
+  return input;
+}
+
+/**
+ * @function createPromptPack
+ * @description Adds a pack
+ *
+ * @param {PromptPackInput} input - Validated fields (key, name, subjects and themes set)
+ *
+ * @returns {Promise<unknown>} Created pack
+ *
+ * @throws {AppError} 409 when the key is already used
+ *
+ * @async
+ */
+export async function createPromptPack(input: PromptPackInput): Promise<unknown> {
+  try {
+    return await prisma.promptPack.create({ data: input });
+  } catch (error) {
+    if (prismaErrorCode(error) === 'P2002') {
+      throw new AppError(`A prompt pack with key "${input.key}" already exists`, 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * @function updatePromptPack
+ * @description Updates a pack
+ *
+ * @param {string} id - Pack ID
+ * @param {PromptPackInput} input - Validated fields to change
+ *
+ * @returns {Promise<unknown>} Updated pack
+ *
+ * @throws {AppError} 404 when the pack does not exist
+ * @throws {AppError} 409 when the new key is already used
+ *
+ * @async
+ */
+export async function updatePromptPack(id: string, input: PromptPackInput): Promise<unknown> {
+  try {
+    return await prisma.promptPack.update({ where: { id }, data: input });
+  } catch (error) {
+    if (prismaErrorCode(error) === 'P2025') {
+      throw new AppError('Prompt pack not found', 404);
+    }
+    if (prismaErrorCode(error) === 'P2002') {
+      throw new AppError(`A prompt pack with key "${input.key}" already exists`, 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * @function deletePromptPack
+ * @description Deletes a pack. Nothing references packs, but deactivating keeps it for next season.
+ *
+ * @param {string} id - Pack ID
+ *
+ * @returns {Promise<void>}
+ *
+ * @throws {AppError} 404 when the pack does not exist
+ *
+ * @async
+ */
+export async function deletePromptPack(id: string): Promise<void> {
+  try {
+    await prisma.promptPack.delete({ where: { id } });
+  } catch (error) {
+    if (prismaErrorCode(error) === 'P2025') {
+      throw new AppError('Prompt pack not found', 404);
+    }
+    throw error;
+  }
+}
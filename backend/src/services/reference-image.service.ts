@@ -0,0 +1,217 @@
+/**
+ * @module services/reference-image
+ * @description Reference photos for image-guided generation. Uploads arrive as data URLs, are checked for type, size and dimensions, re-encoded as PNG so EXIF (GPS position, camera, timestamps) and other metadata are dropped, moderated and stored through the storage driver. Flagged photos are refused rather than held for review. Each photo belongs to an order; designs generated from it keep `referenceImageId` so later edits can reuse it.
+ * @since 2026-10-18
+ */
+
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/error.middleware.js';
+import { uploadAsset } from './asset-storage.service.js';
+import { moderateImage } from './openai.service.js';
+import type { ReferenceImageUpload, ReferenceImageView } from '../types/reference-image.js';
+
+/**
+ * Uploads above this are rejected; keeps the base64 body under the 10MB JSON limit
+ */
+export const MAX_REFERENCE_IMAGE_BYTES = 6 * 1024 * 1024;
+
+/**
+ * Shortest side a photo needs for the model to pick up its subject
+ */
+export const MIN_REFERENCE_IMAGE_SIDE = 256;
+
+/**
+ * Stored photos are scaled down to fit this box; providers work at 1024-1536px
+ */
+const MAX_REFERENCE_IMAGE_SIDE = 1536;
+
+/**
+ * Reference photos an order may hold
+ */
+export const MAX_REFERENCE_IMAGES_PER_ORDER = 20;
+
+const REFERENCE_DATA_URL = /^data:image\/(png|jpeg|jpg|webp);base64,/;
+
+const REFERENCE_IMAGE_FORMATS = ['png', 'jpeg', 'webp'];
+
+/**
+ * @function decodeReferenceImage
+ * @description Validates the `image` field: a PNG, JPEG or WebP data URL under 6MB whose shortest side is at least 256px
+ *
+ * @param {unknown} image - Raw request value
+ *
+ * @returns {Promise<Buffer>} Decoded image bytes
+ *
+ * @throws {AppError} 400 when the image is not a readable PNG, JPEG or WebP, is too large or too small
+ *
+ * @async
+ */
+async function decodeReferenceImage(image: unknown): Promise<Buffer> {
+  const prefix = typeof image === 'string' ? REFERENCE_DATA_URL.exec(image) : null;
+  if (!prefix) {
+    throw new AppError('Reference image must be a PNG, JPEG or WebP data URL', 400);
+  }
+
+  const buffer = Buffer.from((image as string).slice(prefix[0].length), 'base64');
+  if (buffer.length > MAX_REFERENCE_IMAGE_BYTES) {
+    throw new AppError('Reference image is too large (max 6MB)', 400);
+  }
+
+  const metadata = await sharp(buffer)
+    .metadata()
+    .catch(() => null);
+  if (!metadata?.format || !REFERENCE_IMAGE_FORMATS.includes(metadata.format)) {
+    throw new AppError('Reference image must be a PNG, JPEG or WebP data URL', 400);
+  }
+  if (Math.min(metadata.width ?? 0, metadata.height ?? 0) < MIN_REFERENCE_IMAGE_SIDE) {
+    throw new AppError(
+      `Reference image is too small (at least ${MIN_REFERENCE_IMAGE_SIDE}px on each side)`,
+      400
+    );
+  }
+
+  return buffer;
+}
+
+/**
+ * @function sanitizeReferenceImage
+ * @description Applies the EXIF orientation, scales the photo down to 1536px and re-encodes it as PNG. Sharp writes no input metadata unless asked to, so EXIF, XMP and ICC data are dropped.
+ *
+ * @param {Buffer} buffer - Validated upload
+ *
+ * @returns {Promise<{buffer: Buffer, width: number, height: number}>} Clean PNG and its dimensions
+ *
+ * @async
+ */
+async function sanitizeReferenceImage(
+  buffer: Buffer
+): Promise<{ buffer: Buffer; width: number; height: number }> {
+  const { data, info } = await sharp(buffer)
+    .rotate()
+    .resize(MAX_REFERENCE_IMAGE_SIDE, MAX_REFERENCE_IMAGE_SIDE, {
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+
+  return { buffer: data, width: info.width, height: info.height };
+}
+
+/**
+ * @function toReferenceImageView
+ * @description Shapes a stored reference photo for the client
+ *
+ * @param {ReferenceImageView} row - Reference image row
+ *
+ * @returns {ReferenceImageView} Public fields
+ */
+function toReferenceImageView(row: ReferenceImageView): ReferenceImageView {
+  return {
+    id: row.id,
+    imageUrl: row.imageUrl,
+    width: row.width,
+    height: row.height,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * @function createReferenceImage
+ * @description Validates, strips, moderates and stores a reference photo for an order. Callers check the order belongs to the requester first.
+ *
+ * @param {ReferenceImageUpload} upload - Order, data URL, rights confirmation and moderation context
+ *
+ * @returns {Promise<ReferenceImageView>} Stored reference photo
+ *
+ * @throws {AppError} 400 when rights are not confirmed, the image is invalid or flagged, or the order holds 20 photos already
+ *
+ * @async
+ */
+export async function createReferenceImage(
+  upload: ReferenceImageUpload
+): Promise<ReferenceImageView> {
+  if (upload.rightsConfirmed !== true) {
+    throw new AppError('Confirm you have the right to use this image before uploading it', 400);
+  }
+
+  const existing = await prisma.referenceImage.count({ where: { orderId: upload.orderId } });
+  if (existing >= MAX_REFERENCE_IMAGES_PER_ORDER) {
+    throw new AppError(
+      `This order already has ${MAX_REFERENCE_IMAGES_PER_ORDER} reference images`,
+      400
+    );
+  }
+
+  const { buffer, width, height } = await sanitizeReferenceImage(
+    await decodeReferenceImage(upload.image)
+  );
+
+  const held = await moderateImage(
+    `data:image/png;base64,${buffer.toString('base64')}`,
+    upload.context,
+    false
+  );
+  if (held) {
+    throw new AppError(
+      "This image can't be used as a reference. Please choose a different photo.",
+      400
+    );
+  }
+
+  const id = uuidv4();
+  const imageUrl = await uploadAsset(`references/${upload.orderId}/${id}.png`, buffer, 'image/png');
+
+  const row = await prisma.referenceImage.create({
+    data: {
+      id,
+      orderId: upload.orderId,
+      imageUrl,
+      width,
+      height,
+      sizeBytes: buffer.length,
+      rightsConfirmedAt: new Date(),
+    },
+  });
+
+  return toReferenceImageView(row);
+}
+
+/**
+ * @function assertReferenceImage
+ * @description Validates the optional `referenceImageId` sent with a generate request. References are scoped to one order.
+ *
+ * @param {unknown} referenceImageId - Raw request value
+ * @param {string} orderId - Order the batch is generated on
+ *
+ * @returns {Promise<{id: string, imageUrl: string} | null>} Reference photo, or null when generating from text only
+ *
+ * @throws {AppError} 400 when the reference is not an image uploaded for the same order
+ *
+ * @async
+ */
+export async function assertReferenceImage(
+  referenceImageId: unknown,
+  orderId: string
+): Promise<{ id: string; imageUrl: string } | null> {
+  if (referenceImageId === undefined || referenceImageId === null || referenceImageId === '') {
+    return null;
+  }
+
+  if (typeof referenceImageId !== 'string') {
+    throw new AppError('referenceImageId must be a reference image ID', 400);
+  }
+
+  const reference = await prisma.referenceImage.findUnique({
+    where: { id: referenceImageId },
+    select: { id: true, orderId: true, imageUrl: true },
+  });
+
+  if (!reference || reference.orderId !== orderId) {
+    throw new AppError('Reference image not found on this order', 400);
+  }
+
+  return { id: reference.id, imageUrl: reference.imageUrl };
+}
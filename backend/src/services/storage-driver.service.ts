@@ -0,0 +1,154 @@
+/**
+ * @module services/storage-driver
+ * @description Storage backends for design assets. Each driver writes an object under a key and
+ * returns a public URL for it: Supabase Storage, any S3-compatible bucket, or the local
+ * filesystem served by the API under `/assets`. `getStorageDriver` returns the one selected in
+ * `config/storage`.
+ * @since 2026-10-18
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createClient } from '@supabase/supabase-js';
+import { getStorageConfig } from '../config/storage.js';
+import type { StorageConfig, StorageDriver } from '../types/storage.js';
+
+/**
+ * URL prefix the local driver's files are served under
+ */
+export const LOCAL_ASSET_ROUTE = '/assets';
+
+let driver: StorageDriver | null = null;
+
+/**
+ * @function createSupabaseDriver
+ * @description Driver for a public Supabase Storage bucket
+ *
+ * @param {NonNullable<StorageConfig['supabase']>} config - Project URL, service role key and bucket
+ *
+ * @returns {StorageDriver} Supabase driver
+ */
+function createSupabaseDriver(config: NonNullable<StorageConfig['supabase']>): StorageDriver {
+  const client = createClient(config.url, config.serviceRoleKey);
+
+  return {
+    name: 'supabase',
+    async put(key, buffer, contentType) {
+      const { error } = await client.storage.from(config.bucket).upload(key, buffer, {
+        contentType,
+        upsert: true,
+      });
+      if (error) {
+        throw new Error(`Supabase upload failed: ${error.message}`);
+      }
+
+      const { data } = client.storage.from(config.bucket).getPublicUrl(key);
+      if (!data?.publicUrl) {
+        throw new Error('Unable to generate public URL for uploaded asset.');
+      }
+      return data.publicUrl;
+    },
+  };
+}
+
+/**
+ * @function createS3Driver
+ * @description Driver for an S3 or S3-compatible bucket (MinIO, Cloudflare R2...). Objects must be
+ * publicly readable through the bucket policy or `S3_PUBLIC_URL` (a CDN in front of it).
+ *
+ * @param {NonNullable<StorageConfig['s3']>} config - Bucket, region, endpoint and credentials
+ *
+ * @returns {StorageDriver} S3 driver
+ */
+function createS3Driver(config: NonNullable<StorageConfig['s3']>): StorageDriver {
+  const publicBase = (
+    config.publicUrl ||
+    (config.endpoint
+      ? `${config.endpoint}/${config.bucket}`
+      : `https://${config.bucket}.s3.${config.region}.amazonaws.com`)
+  ).replace(/\/+$/, '');
+
+  // The SDK is only loaded when S3 is the selected backend
+  const clientPromise = import('aws-sdk/clients/s3.js').then(
+    ({ default: S3 }) =>
+      new S3({
+        region: config.region,
+        endpoint: config.endpoint,
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey,
+        s3ForcePathStyle: config.forcePathStyle,
+      })
+  );
+
+  return {
+    name: 's3',
+    async put(key, buffer, contentType) {
+      const client = await clientPromise;
+      await client
+        .putObject({ Bucket: config.bucket, Key: key, Body: buffer, ContentType: contentType })
+        .promise();
+      return `${publicBase}/${key}`;
+    },
+  };
+}
+
+/**
+ * @function createLocalDriver
+ * @description Driver that writes to a directory the API serves under `/assets`. Meant for
+ * development and tests; files live only on this machine.
+ *
+ * @param {NonNullable<StorageConfig['local']>} config - Directory and public base URL
+ *
+ * @returns {StorageDriver} Local filesystem driver
+ */
+function createLocalDriver(config: NonNullable<StorageConfig['local']>): StorageDriver {
+  const urlPrefix = `${config.baseUrl}${LOCAL_ASSET_ROUTE}/`;
+
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(config.directory, key);
+    if (!filePath.startsWith(config.directory + path.sep)) {
+      throw new Error(`Invalid asset key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+    async put(key, buffer) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, buffer);
+      return `${urlPrefix}${key}`;
+    },
+    async read(url) {
+      if (!url.startsWith(urlPrefix)) return null;
+      return fs.readFile(resolveKey(decodeURIComponent(url.slice(urlPrefix.length))));
+    },
+  };
+}
+
+/**
+ * @function getStorageDriver
+ * @description The configured storage driver, created on first use
+ *
+ * @returns {StorageDriver} Storage driver
+ *
+ * @throws {Error} When the storage settings are invalid
+ *
+ * @example
+ * const url = await getStorageDriver().put(`${designId}/image.png`, buffer, 'image/png');
+ */
+export function getStorageDriver(): StorageDriver {
+  if (driver) return driver;
+
+  const config = getStorageConfig();
+  if (config.driver === 'supabase') {
+    driver = createSupabaseDriver(config.supabase!);
+  } else if (config.driver === 's3') {
+    driver = createS3Driver(config.s3!);
+  } else {
+    driver = createLocalDriver(config.local!);
+    console.warn(`Storing design assets on the local filesystem in ${config.local!.directory}`);
+  }
+  return driver;
+}
@@ -15,7 +15,17 @@ import { getPrintfulVariantId, createPrintfulOrder } from './printful.service.js
 import { AppError } from '../middleware/error.middleware.js';
 import { sendPromptGuide } from './email.service.js';
 import { sendAnalyticsEvent } from './analytics.service.js';
+import { publishOrderStatus } from './design-events.service.js';
 import { sendOrderConfirmation, sendGiftCodeEmail } from './email.service.js';
+import { getOrderMockupPreview } from './mockup.service.js';
+import { getModerationHoldMessage } from './moderation.service.js';
+import {
+  getConfiguredPlacements,
+  getItemPlacementTotal,
+  getPlacementLabel,
+  linkApprovedDesign,
+} from './extra-placement.service.js';
+import type { OrderItemPlacementRecord } from '../types/print-placement.js';
 import { getOrderActionErrorMessage, isOrderActionAllowed } from '../policies/order-policy.js';
 import { HAPPY_HOLIDAYS_CODE, isHappyHolidaysActive, normalizePromoCode } from '../config/holidayPromo.js';
 
@@ -127,7 +137,12 @@ export async function createCheckoutSession(
   if (orderId) {
     existingOrder = await prisma.order.findUnique({
       where: { id: orderId },
-      include: { items: true, promoCode: true, user: true, address: true },
+      include: {
+        items: { include: { placements: true } },
+        promoCode: true,
+        user: true,
+        address: true,
+      },
     });
 
     if (!existingOrder) {
@@ -147,7 +162,9 @@ export async function createCheckoutSession(
     }
   }
 
-  let normalizedItems: Array<CheckoutItem & { orderItemId?: string }> = [];
+  let normalizedItems: Array<
+    CheckoutItem & { orderItemId?: string; placements?: OrderItemPlacementRecord[] }
+  > = [];
 
   if (existingOrder) {
     normalizedItems = existingOrder.items.map((item: any) => ({
@@ -157,6 +174,7 @@ export async function createCheckoutSession(
       quantity: item.quantity,
       tier: TierType.LIMITLESS,
       orderItemId: item.id,
+      placements: item.placements,
     }));
   } else {
     if (!items || !Array.isArray(items) || items.length === 0) {
@@ -212,7 +230,9 @@ export async function createCheckoutSession(
       throw new AppError('Tier configuration missing', 500);
     }
 
-    const unitPrice = tierConfig.price;
+    // Extra print placements are charged per unit on top of the tier price
+    const placementTotal = getItemPlacementTotal(item.placements);
+    const unitPrice = tierConfig.price + placementTotal;
 
     const variantId = getPrintfulVariantId(product.printfulId, matchedColor.name, matchedSize);
     if (!variantId) {
@@ -225,6 +245,7 @@ export async function createCheckoutSession(
     return {
       product,
       unitPrice,
+      placementTotal,
       tierConfig,
       variantId,
       payload: {
@@ -283,11 +304,11 @@ export async function createCheckoutSession(
       if (promoCode.productTier && promoCode.productTier !== item.payload.tier) {
         throw new AppError(`This gift code is only valid for a ${promoCode.productTier} tee.`, 400);
       }
-      // Make the product free; shipping still applies.
+      // Make the product free; extra print placements and shipping still apply.
       adjustedItems = [
         {
           ...item,
-          unitPrice: 0,
+          unitPrice: item.placementTotal,
         },
       ];
     } else if (promoCode.type === 'PERCENT_OFF') {
@@ -385,15 +406,20 @@ export async function createCheckoutSession(
       }
 
       const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
-      sendOrderConfirmation({
-        customerName: paidOrder.user.firstName || paidOrder.user.email,
-        customerEmail: paidOrder.user.email,
-        orderNumber: paidOrder.orderNumber,
-        orderTotal: paidOrder.totalAmount.toString(),
-        tier: paidOrder.designTier,
-        itemCount: paidOrder.items.length,
-        orderUrl: `${frontendUrl}/design?orderId=${paidOrder.id}`,
-      }).catch((error) => console.error('Failed to send order confirmation email:', error));
+      getOrderMockupPreview(paidOrder.id)
+        .then((placement) =>
+          sendOrderConfirmation({
+            customerName: paidOrder.user.firstName || paidOrder.user.email,
+            customerEmail: paidOrder.user.email,
+            orderNumber: paidOrder.orderNumber,
+            orderTotal: paidOrder.totalAmount.toString(),
+            tier: paidOrder.designTier,
+            itemCount: paidOrder.items.length,
+            orderUrl: `${frontendUrl}/design?orderId=${paidOrder.id}`,
+            placement,
+          })
+        )
+        .catch((error) => console.error('Failed to send order confirmation email:', error));
 
       sendPromptGuide({
         customerName: paidOrder.user.firstName || paidOrder.user.email,
@@ -450,15 +476,20 @@ export async function createCheckoutSession(
     }
 
     const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
-    sendOrderConfirmation({
-      customerName: order.user.firstName || order.user.email,
-      customerEmail: order.user.email,
-      orderNumber: order.orderNumber,
-      orderTotal: order.totalAmount.toString(),
-      tier: order.designTier,
-      itemCount: order.items.length,
-      orderUrl: `${frontendUrl}/design?orderId=${order.id}`,
-    }).catch((error) => console.error('Failed to send order confirmation email:', error));
+    getOrderMockupPreview(order.id)
+      .then((placement) =>
+        sendOrderConfirmation({
+          customerName: order.user.firstName || order.user.email,
+          customerEmail: order.user.email,
+          orderNumber: order.orderNumber,
+          orderTotal: order.totalAmount.toString(),
+          tier: order.designTier,
+          itemCount: order.items.length,
+          orderUrl: `${frontendUrl}/design?orderId=${order.id}`,
+          placement,
+        })
+      )
+      .catch((error) => console.error('Failed to send order confirmation email:', error));
 
     sendPromptGuide({
       customerName: order.user.firstName || order.user.email,
@@ -522,17 +553,24 @@ export async function createCheckoutSession(
 
   // Create Stripe line items
   const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = adjustedItems.map(
-    ({ payload, product, unitPrice }) => ({
-      price_data: {
-        currency: 'usd',
-        product_data: {
-          name: `${product.name} - ${payload.tier}`,
-          description: `Size: ${payload.size}, Color: ${payload.color}`,
+    ({ payload, product, unitPrice }) => {
+      const extraPlacements = (payload.placements ?? []).map((row) => row.placement);
+      const prints = extraPlacements.length
+        ? `, Prints: ${['front', ...extraPlacements].map(getPlacementLabel).join(' + ')}`
+        : '';
+
+      return {
+        price_data: {
+          currency: 'usd',
+          product_data: {
+            name: `${product.name} - ${payload.tier}`,
+            description: `Size: ${payload.size}, Color: ${payload.color}${prints}`,
+          },
+          unit_amount: Math.round(unitPrice * 100), // Convert to cents
         },
-        unit_amount: Math.round(unitPrice * 100), // Convert to cents
-      },
-      quantity: payload.quantity,
-    })
+        quantity: payload.quantity,
+      };
+    }
   );
 
   // Add shipping as a separate line item to keep parity between Stripe and DB totals
@@ -815,6 +853,7 @@ export async function handleSuccessfulPayment(sessionId: string): Promise<void>
   });
 
   console.log(`Order ${orderId} marked as PAID`);
+  publishOrderStatus(orderId, 'PAID');
 
   await autoApproveLatestDesign(updatedOrder.id);
 
@@ -823,17 +862,22 @@ export async function handleSuccessfulPayment(sessionId: string): Promise<void>
   }
 
   const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
-  sendOrderConfirmation({
-    customerName: updatedOrder.user.firstName || updatedOrder.user.email,
-    customerEmail: updatedOrder.user.email,
-    orderNumber: updatedOrder.orderNumber,
-    orderTotal: updatedOrder.totalAmount.toString(),
-    tier: updatedOrder.designTier,
-    itemCount: updatedOrder.items.length,
-    orderUrl: `${frontendUrl}/design?orderId=${updatedOrder.id}`,
-  }).catch((error) => {
-    console.error('Failed to send order confirmation email:', error);
-  });
+  getOrderMockupPreview(updatedOrder.id)
+    .then((placement) =>
+      sendOrderConfirmation({
+        customerName: updatedOrder.user.firstName || updatedOrder.user.email,
+        customerEmail: updatedOrder.user.email,
+        orderNumber: updatedOrder.orderNumber,
+        orderTotal: updatedOrder.totalAmount.toString(),
+        tier: updatedOrder.designTier,
+        itemCount: updatedOrder.items.length,
+        orderUrl: `${frontendUrl}/design?orderId=${updatedOrder.id}`,
+        placement,
+      })
+    )
+    .catch((error) => {
+      console.error('Failed to send order confirmation email:', error);
+    });
 
   sendPromptGuide({
     customerName: updatedOrder.user.firstName || updatedOrder.user.email,
@@ -859,11 +903,11 @@ export async function handleSuccessfulPayment(sessionId: string): Promise<void>
 
 /**
  * @function autoApproveLatestDesign
- * @description Automatically approves the latest completed design after payment and submits order to Printful. Prevents duplicate submissions and ensures only one design is approved at a time.
+ * @description After payment, approves for each placement the order prints on the variation the customer picked in the latest batch (or the latest completed design when none was picked), and submits the order to Printful once every placement has one. Deleted designs, designs held or rejected by moderation and designs not yet in durable storage are never picked. Orders with a placement still missing a design stay PAID so the customer (or an admin, after review) can finish and approve it. Prevents duplicate submissions and ensures only one design is approved per placement.
  *
- * @param {string} orderId - Order ID to auto-approve design for
+ * @param {string} orderId - Order ID to auto-approve designs for
  *
- * @returns {Promise<void>} Resolves when design approved and order submitted (or skipped)
+ * @returns {Promise<void>} Resolves when designs approved and order submitted (or skipped)
  *
  * @async
  */
@@ -871,8 +915,8 @@ async function autoApproveLatestDesign(orderId: string): Promise<void> {
   const order = await prisma.order.findUnique({
     where: { id: orderId },
     include: {
-      designs: true,
-      items: true,
+      designs: { include: { batch: { select: { selectedDesignId: true } } } },
+      items: { include: { placements: true } },
     },
   });
 
@@ -889,46 +933,70 @@ async function autoApproveLatestDesign(orderId: string): Promise<void> {
     return;
   }
 
-  const latestCompleted = order.designs
-    .filter((d: any) => d.status === 'COMPLETED')
-    .sort((a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+  // Designs held or rejected by moderation wait for the review queue instead of printing, and
+  // Printful only accepts images already copied to durable storage
+  const completed = order.designs
+    .filter(
+      (d: any) =>
+        d.status === 'COMPLETED' &&
+        d.storageStatus === 'STORED' &&
+        d.deletedAt === null &&
+        !getModerationHoldMessage(d.moderationStatus)
+    )
+    .sort((a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  const placements = getConfiguredPlacements(order.items);
+  // Variations in a batch are created together, so the customer's pick from the latest batch
+  // wins; the newest design is only used when nothing in that batch was picked
+  const latestByPlacement = placements
+    .map((placement) => {
+      const candidates = completed.filter(
+        (d: { placement?: string | null }) => (d.placement || 'front') === placement
+      );
+      const selectedId = candidates[0]?.batch?.selectedDesignId;
+      return candidates.find((d: { id: string }) => d.id === selectedId) ?? candidates[0];
+    })
+    .filter(Boolean);
 
-  if (!latestCompleted) {
+  if (!latestByPlacement.length) {
     return;
   }
 
+  const isComplete = latestByPlacement.length === placements.length;
+
   await prisma.$transaction(async (tx: any) => {
     await tx.design.updateMany({
       where: { orderId },
       data: { approvalStatus: false, approvedAt: null },
     });
 
-    await tx.design.update({
-      where: { id: latestCompleted.id },
-      data: {
-        approvalStatus: true,
-        approvedAt: new Date(),
-      },
-    });
-
-    await tx.order.update({
-      where: { id: orderId },
-      data: {
-        status: 'DESIGN_APPROVED',
-        items: {
-          updateMany: {
-            where: { orderId },
-            data: {
-              designId: latestCompleted.id,
-            },
-          },
+    for (const design of latestByPlacement) {
+      await tx.design.update({
+        where: { id: design.id },
+        data: {
+          approvalStatus: true,
+          approvedAt: new Date(),
         },
-      },
-    });
+      });
+      await linkApprovedDesign(tx, orderId, design);
+    }
+
+    if (isComplete) {
+      await tx.order.update({
+        where: { id: orderId },
+        data: { status: 'DESIGN_APPROVED' },
+      });
+    }
   });
 
+  if (!isComplete) {
+    return;
+  }
+
+  publishOrderStatus(orderId, 'DESIGN_APPROVED');
+
   try {
-    await createPrintfulOrder(orderId, latestCompleted.id);
+    await createPrintfulOrder(orderId);
   } catch (err) {
     console.error(`Failed to submit order ${orderId} to Printful after auto-approve:`, err);
   }
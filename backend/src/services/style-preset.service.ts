@@ -0,0 +1,329 @@
+/**
+ * @module services/style-preset
+ * @description Style presets for design generation, stored in `style_presets` so merchandising can add, reorder, retire or schedule styles (seasonal windows) without a deploy. Designs keep the preset `key` in `designs.style`.
+ * @since 2026-10-18
+ */
+
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/error.middleware.js';
+import type {
+  PublicStylePreset,
+  StylePresetInput,
+  StylePromptGuidance,
+} from '../types/style-preset.js';
+
+/**
+ * Lowercase slug stored in `designs.style` and sent by clients
+ */
+const STYLE_KEY_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+/**
+ * Limits on free-text preset fields
+ */
+const MAX_LABEL_LENGTH = 60;
+const MAX_TEXT_LENGTH = 500;
+
+/**
+ * @function availableAt
+ * @description Prisma filter for presets customers can pick at a given time: active and inside
+ * their seasonal window (either bound may be open). Prompt packs use the same window.
+ *
+ * @param {Date} now - Reference time
+ *
+ * @returns {object} Prisma `where` clause
+ */
+export function availableAt(now: Date) {
+  return {
+    active: true,
+    AND: [
+      { OR: [{ availableFrom: null }, { availableFrom: { lte: now } }] },
+      { OR: [{ availableUntil: null }, { availableUntil: { gt: now } }] },
+    ],
+  };
+}
+
+/**
+ * @function listAvailableStylePresets
+ * @description Presets customers can pick right now, in display order
+ *
+ * @param {Date} [now=new Date()] - Reference time for seasonal windows
+ *
+ * @returns {Promise<PublicStylePreset[]>} Public preset fields
+ *
+ * @async
+ */
+export async function listAvailableStylePresets(now = new Date()): Promise<PublicStylePreset[]> {
+  return prisma.stylePreset.findMany({
+    where: availableAt(now),
+    orderBy: [{ sortOrder: 'asc' }, { label: 'asc' }],
+    select: {
+      key: true,
+      label: true,
+      description: true,
+      previewImageUrl: true,
+      sortOrder: true,
+    },
+  });
+}
+
+/**
+ * @function assertStyleAvailable
+ * @description Rejects generation requests for styles that don't exist, are inactive or are
+ * outside their seasonal window
+ *
+ * @param {string} key - Requested style key
+ *
+ * @returns {Promise<void>}
+ *
+ * @throws {AppError} 400 when the style cannot be picked right now
+ *
+ * @async
+ */
+export async function assertStyleAvailable(key: string): Promise<void> {
+  const preset = await prisma.stylePreset.findFirst({
+    where: { key, ...availableAt(new Date()) },
+    select: { id: true },
+  });
+
+  if (!preset) {
+    throw new AppError(`Style "${key}" is not available`, 400);
+  }
+}
+
+/**
+ * @function getStyleGuidance
+ * @description Prompt text for a style key. Ignores the active flag and seasonal window so
+ * queued jobs and regenerations keep the style they were requested with.
+ *
+ * @param {string} key - Style key stored on the design
+ *
+ * @returns {Promise<StylePromptGuidance | null>} Prompt suffix and negative guidance, null when unknown
+ *
+ * @async
+ */
+export async function getStyleGuidance(key: string): Promise<StylePromptGuidance | null> {
+  return prisma.stylePreset.findUnique({
+    where: { key },
+    select: { promptSuffix: true, negativeGuidance: true },
+  });
+}
+
+/**
+ * @function listStylePresets
+ * @description Every preset, including inactive and out-of-season ones, for the admin
+ *
+ * @returns {Promise<unknown[]>} Full preset rows in display order
+ *
+ * @async
+ */
+export async function listStylePresets(): Promise<unknown[]> {
+  return prisma.stylePreset.findMany({
+    orderBy: [{ sortOrder: 'asc' }, { label: 'asc' }],
+  });
+}
+
+/**
+ * @function optionalText
+ * @description Normalises an optional text field: blank becomes null, undefined stays unset
+ *
+ * @param {unknown} value - Raw body value
+ * @param {string} field - Field name for error messages
+ *
+ * @returns {string | null | undefined} Trimmed text, null or undefined
+ *
+ * @throws {AppError} 400 when the value is not a string or too long
+ */
+export function optionalText(value: unknown, field: string): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  if (typeof value !== 'string') {
+    throw new AppError(`${field} must be a string`, 400);
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > MAX_TEXT_LENGTH) {
+    throw new AppError(`${field} must be at most ${MAX_TEXT_LENGTH} characters`, 400);
+  }
+  return trimmed || null;
+}
+
+/**
+ * @function optionalDate
+ * @description Parses an optional ISO date; blank or null clears it
+ *
+ * @param {unknown} value - Raw body value
+ * @param {string} field - Field name for error messages
+ *
+ * @returns {Date | null | undefined} Parsed date, null or undefined
+ *
+ * @throws {AppError} 400 when the value is not a valid date
+ */
+export function optionalDate(value: unknown, field: string): Date | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new AppError(`${field} must be an ISO date`, 400);
+  }
+  return date;
+}
+
+/**
+ * @function parseStylePresetInput
+ * @description Validates an admin create/update body. On create, key, label and promptSuffix are
+ * required; on update every field is optional.
+ *
+ * @param {Record<string, unknown>} body - Request body
+ * @param {boolean} partial - True for updates
+ *
+ * @returns {StylePresetInput} Fields to write
+ *
+ * @throws {AppError} 400 when a field is missing or invalid
+ */
+export function parseStylePresetInput(
+  body: Record<string, unknown>,
+  partial: boolean
+): StylePresetInput {
+  const input: StylePresetInput = {};
+
+  if (body.key !== undefined || !partial) {
+    const key = typeof body.key === 'string' ? body.key.trim().toLowerCase() : '';
+    if (!STYLE_KEY_PATTERN.test(key)) {
+      throw new AppError(
+        'key must be 1-40 lowercase letters, digits or dashes, starting with a letter or digit',
+        400
+      );
+    }
+    input.key = key;
+  }
+
+  if (body.label !== undefined || !partial) {
+    const label = typeof body.label === 'string' ? body.label.trim() : '';
+    if (!label || label.length > MAX_LABEL_LENGTH) {
+      throw new AppError(`label is required (max ${MAX_LABEL_LENGTH} characters)`, 400);
+    }
+    input.label = label;
+  }
+
+  if (body.promptSuffix !== undefined || !partial) {
+    const promptSuffix = optionalText(body.promptSuffix, 'promptSuffix');
+    if (!promptSuffix) {
+      throw new AppError('promptSuffix is required', 400);
+    }
+    input.promptSuffix = promptSuffix;
+  }
+
+  input.description = optionalText(body.description, 'description');
+  input.negativeGuidance = optionalText(body.negativeGuidance, 'negativeGuidance');
+  input.previewImageUrl = optionalText(body.previewImageUrl, 'previewImageUrl');
+
+  if (body.sortOrder !== undefined) {
+    const sortOrder = Number(body.sortOrder);
+    if (!Number.isInteger(sortOrder)) {
+      throw new AppError('sortOrder must be an integer', 400);
+    }
+    input.sortOrder = sortOrder;
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== 'boolean') {
+      throw new AppError('active must be a boolean', 400);
+    }
+    input.active = body.active;
+  }
+
+  input.availableFrom = optionalDate(body.availableFrom, 'availableFrom');
+  input.availableUntil = optionalDate(body.availableUntil, 'availableUntil');
+  if (input.availableFrom && input.availableUntil && input.availableFrom >= input.availableUntil) {
+    throw new AppError('availableFrom must be before availableUntil', 400);
+  }
+
+  return input;
+}
+
+/**
+ * @function prismaErrorCode
+ * @description Reads the Prisma error code (P2002 unique violation, P2025 record not found)
+ *
+ * @param {unknown} error - Error thrown by Prisma
+ *
+ * @returns {string | undefined} Error code when present
+ */
+export function prismaErrorCode(error: unknown): string | undefined {
+  return (error as { code?: string } | null)?.code;
+}
+
+/**
+ * @function createStylePreset
+ * @description Adds a preset
+ *
+ * @param {StylePresetInput} input - Validated fields (key, label and promptSuffix set)
+ *
+ * @returns {Promise<unknown>} Created preset
+ *
+ * @throws {AppError} 409 when the key is already used
+ *
+ * @async
+ */
+export async function createStylePreset(input: StylePresetInput): Promise<unknown> {
+  try {
+    return await prisma.stylePreset.create({ data: input });
+  } catch (error) {
+    if (prismaErrorCode(error) === 'P2002') {
+      throw new AppError(`A style with key "${input.key}" already exists`, 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * @function updateStylePreset
+ * @description Updates a preset. Renaming the key does not touch existing designs, which keep the
+ * old key and fall back to no style guidance on regeneration.
+ *
+ * @param {string} id - Preset ID
+ * @param {StylePresetInput} input - Validated fields to change
+ *
+ * @returns {Promise<unknown>} Updated preset
+ *
+ * @throws {AppError} 404 when the preset does not exist
+ * @throws {AppError} 409 when the new key is already used
+ *
+ * @async
+ */
+export async function updateStylePreset(id: string, input: StylePresetInput): Promise<unknown> {
+  try {
+    return await prisma.stylePreset.update({ where: { id }, data: input });
+  } catch (error) {
+    if (prismaErrorCode(error) === 'P2025') {
+      throw new AppError('Style preset not found', 404);
+    }
+    if (prismaErrorCode(error) === 'P2002') {
+      throw new AppError(`A style with key "${input.key}" already exists`, 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * @function deleteStylePreset
+ * @description Deletes a preset. Prefer deactivating: designs that used the key lose its prompt
+ * guidance on regeneration.
+ *
+ * @param {string} id - Preset ID
+ *
+ * @returns {Promise<void>}
+ *
+ * @throws {AppError} 404 when the preset does not exist
+ *
+ * @async
+ */
+export async function deleteStylePreset(id: string): Promise<void> {
+  try {
+    await prisma.stylePreset.delete({ where: { id } });
+  } catch (error) {
+    if (prismaErrorCode(error) === 'P2025') {
+      throw new AppError('Style preset not found', 404);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,424 @@
+/**
+ * @module services/text-layer
+ * @description Typography layers over AI artwork. Image models mangle lettering, so prompts ask for no text and slogans are added here instead: customers describe text blocks (font, colour, size, straight or arced, above/below/over the art), the blocks are stored as structured data in `designs.textLayers`, and this service renders them as SVG and composites them with sharp into the display image (`designs.textImageUrl`) and the print file. Editing the text re-renders from the untouched art.
+ * @since 2026-10-18
+ */
+
+import sharp from 'sharp';
+import { AppError } from '../middleware/error.middleware.js';
+import { DEFAULT_TEXT_FONT, TEXT_FONTS } from '../config/text-fonts.js';
+import { getPrintSourceUrl } from './background-removal.service.js';
+import { downloadImage, uploadTextImage } from './asset-storage.service.js';
+import type { PrintSourceDesign } from '../types/background-removal.js';
+import type {
+  TextCompositeResult,
+  TextLayer,
+  TextLayerPosition,
+  TextLayerShape,
+} from '../types/text-layer.js';
+
+/**
+ * Most text blocks on one design
+ */
+export const MAX_TEXT_LAYERS = 4;
+
+/**
+ * Longest text in one block
+ */
+const MAX_TEXT_LENGTH = 60;
+
+/**
+ * Font size limits, as a percentage of the art width
+ */
+const MIN_TEXT_SIZE = 3;
+const MAX_TEXT_SIZE = 30;
+
+/**
+ * Arc sweep limit in degrees; beyond a half circle the text wraps under itself
+ */
+const MAX_ARC_DEGREES = 180;
+
+/**
+ * Line box height as a multiple of the font size
+ */
+const LINE_HEIGHT = 1.3;
+
+/**
+ * Space between the art and a text band, as a share of the art width
+ */
+const BAND_GAP = 0.02;
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+const SHAPES: TextLayerShape[] = ['straight', 'arc'];
+const POSITIONS: TextLayerPosition[] = ['above', 'below', 'overlay'];
+
+/**
+ * @function numberInRange
+ * @description Reads a numeric layer field, using a default when it is missing
+ *
+ * @param {unknown} value - Raw value
+ * @param {number} fallback - Value when missing
+ * @param {number} min - Smallest allowed value
+ * @param {number} max - Largest allowed value
+ * @param {string} field - Field label for error messages
+ *
+ * @returns {number} Validated number
+ *
+ * @throws {AppError} 400 when the value is not a number in range
+ */
+function numberInRange(
+  value: unknown,
+  fallback: number,
+  min: number,
+  max: number,
+  field: string
+): number {
+  if (value === undefined || value === null) return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw new AppError(`${field} must be between ${min} and ${max}`, 400);
+  }
+  return number;
+}
+
+/**
+ * @function parseTextLayers
+ * @description Validates the text layers in a request body. Omitted optional fields get defaults (centered straight text below the art in the default font, black, 8% of the art width).
+ *
+ * @param {unknown} value - Raw `layers` value
+ *
+ * @returns {TextLayer[]} Validated layers; empty removes all text
+ *
+ * @throws {AppError} 400 when the value is not an array, has too many layers, or a field is invalid
+ */
+export function parseTextLayers(value: unknown): TextLayer[] {
+  if (!Array.isArray(value)) {
+    throw new AppError('layers must be an array', 400);
+  }
+  if (value.length > MAX_TEXT_LAYERS) {
+    throw new AppError(`A design can have at most ${MAX_TEXT_LAYERS} text layers`, 400);
+  }
+
+  return value.map((raw: unknown, index) => {
+    const label = `Text layer ${index + 1}`;
+    if (!raw || typeof raw !== 'object') {
+      throw new AppError(`${label} must be an object`, 400);
+    }
+    const layer = raw as Record<string, unknown>;
+
+    const text = typeof layer.text === 'string' ? layer.text.replace(/\s+/g, ' ').trim() : '';
+    if (!text || text.length > MAX_TEXT_LENGTH) {
+      throw new AppError(`${label}: text is required (max ${MAX_TEXT_LENGTH} characters)`, 400);
+    }
+
+    const font = layer.font === undefined ? DEFAULT_TEXT_FONT : String(layer.font);
+    if (!TEXT_FONTS[font]) {
+      throw new AppError(
+        `${label}: font must be one of ${Object.keys(TEXT_FONTS).join(', ')}`,
+        400
+      );
+    }
+
+    const color = layer.color === undefined ? '#000000' : String(layer.color);
+    if (!HEX_COLOR_PATTERN.test(color)) {
+      throw new AppError(`${label}: color must be a #rrggbb hex colour`, 400);
+    }
+
+    const shape = (layer.shape ?? 'straight') as TextLayerShape;
+    if (!SHAPES.includes(shape)) {
+      throw new AppError(`${label}: shape must be straight or arc`, 400);
+    }
+
+    const position = (layer.position ?? 'below') as TextLayerPosition;
+    if (!POSITIONS.includes(position)) {
+      throw new AppError(`${label}: position must be above, below or overlay`, 400);
+    }
+
+    return {
+      text,
+      font,
+      color: color.toLowerCase(),
+      size: numberInRange(layer.size, 8, MIN_TEXT_SIZE, MAX_TEXT_SIZE, `${label}: size`),
+      shape,
+      arc: numberInRange(layer.arc, 60, -MAX_ARC_DEGREES, MAX_ARC_DEGREES, `${label}: arc`),
+      position,
+      y: numberInRange(layer.y, 50, 0, 100, `${label}: y`),
+    };
+  });
+}
+
+/**
+ * @function readTextLayers
+ * @description Text layers stored on a design (validated when they were saved)
+ *
+ * @param {unknown} value - `designs.textLayers`
+ *
+ * @returns {TextLayer[]} Layers, empty when none
+ */
+export function readTextLayers(value: unknown): TextLayer[] {
+  return Array.isArray(value) ? (value as TextLayer[]) : [];
+}
+
+/**
+ * @function listTextFonts
+ * @description Fonts customers can pick, for the storefront
+ *
+ * @returns {Array<{key: string, label: string, family: string, weight: number}>} Font options
+ */
+export function listTextFonts(): { key: string; label: string; family: string; weight: number }[] {
+  return Object.entries(TEXT_FONTS).map(([key, font]) => ({
+    key,
+    label: font.label,
+    family: font.family,
+    weight: font.weight,
+  }));
+}
+
+/**
+ * @function glyphAdvance
+ * @description Approximate advance width of a character in ems. librsvg can't lay text along a path, so arced text is placed glyph by glyph and needs widths; exact metrics aren't available without the font loaded, and this is close enough to keep spacing even.
+ *
+ * @param {string} char - Character
+ *
+ * @returns {number} Width in ems
+ */
+function glyphAdvance(char: string): number {
+  if (char === ' ') return 0.3;
+  if ("il.,:;'!|1".includes(char)) return 0.3;
+  if ('MWmw@'.includes(char)) return 0.85;
+  if (char >= 'A' && char <= 'Z') return 0.66;
+  return 0.55;
+}
+
+/**
+ * @function escapeXml
+ * @description Escapes text for an SVG text node or attribute
+ *
+ * @param {string} value - Raw text
+ *
+ * @returns {string} Escaped text
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Block of text placed on the canvas (art-pixel units)
+ */
+interface PlacedTextLayer {
+  layer: TextLayer;
+  fontPx: number;
+  /** Top of the block's box */
+  top: number;
+  height: number;
+  /** Extra height taken by the arc's curve */
+  sagitta: number;
+  radius: number;
+}
+
+/**
+ * @function measureLayer
+ * @description Font size, box height and arc geometry of a layer for an art width
+ *
+ * @param {TextLayer} layer - Text layer
+ * @param {number} artWidth - Art width in pixels
+ *
+ * @returns {Omit<PlacedTextLayer, 'top'>} Measured block
+ */
+function measureLayer(layer: TextLayer, artWidth: number): Omit<PlacedTextLayer, 'top'> {
+  const fontPx = (layer.size / 100) * artWidth;
+  const sweep = (Math.abs(layer.arc) * Math.PI) / 180;
+
+  if (layer.shape === 'straight' || sweep === 0) {
+    return { layer, fontPx, height: fontPx * LINE_HEIGHT, sagitta: 0, radius: 0 };
+  }
+
+  const textWidth = [...layer.text].reduce((sum, char) => sum + glyphAdvance(char), 0) * fontPx;
+  const radius = textWidth / sweep;
+  const sagitta = radius * (1 - Math.cos(sweep / 2));
+  return { layer, fontPx, height: fontPx * LINE_HEIGHT + sagitta, sagitta, radius };
+}
+
+/**
+ * @function layoutTextLayers
+ * @description Stacks `above` blocks in a band over the art and `below` blocks in a band under it (in layer order) and centres `overlay` blocks on their `y`
+ *
+ * @param {TextLayer[]} layers - Text layers
+ * @param {number} artWidth - Art width in pixels
+ * @param {number} artHeight - Art height in pixels
+ *
+ * @returns {{placed: PlacedTextLayer[], artTop: number, height: number}} Blocks, the art's offset and the canvas height
+ */
+function layoutTextLayers(
+  layers: TextLayer[],
+  artWidth: number,
+  artHeight: number
+): { placed: PlacedTextLayer[]; artTop: number; height: number } {
+  const gap = BAND_GAP * artWidth;
+  const measured = layers.map((layer) => measureLayer(layer, artWidth));
+
+  const above = measured.filter((block) => block.layer.position === 'above');
+  const artTop = above.length ? above.reduce((sum, block) => sum + block.height, 0) + gap : 0;
+
+  const placed: PlacedTextLayer[] = [];
+  let cursor = 0;
+  for (const block of above) {
+    placed.push({ ...block, top: cursor });
+    cursor += block.height;
+  }
+
+  cursor = artTop + artHeight + gap;
+  let height = artTop + artHeight;
+  for (const block of measured.filter((item) => item.layer.position === 'below')) {
+    placed.push({ ...block, top: cursor });
+    cursor += block.height;
+    height = cursor;
+  }
+
+  for (const block of measured.filter((item) => item.layer.position === 'overlay')) {
+    const centre = artTop + (block.layer.y / 100) * artHeight;
+    placed.push({ ...block, top: centre - block.height / 2 });
+  }
+
+  return { placed, artTop, height };
+}
+
+/**
+ * @function renderBlockSvg
+ * @description SVG for one block. Straight text is one centred `<text>`; arced text is one rotated `<text>` per glyph around a circle whose centre sits below the block (arch) or above it (smile).
+ *
+ * @param {PlacedTextLayer} block - Placed block
+ * @param {number} centreX - Horizontal centre of the canvas
+ *
+ * @returns {string} SVG elements
+ */
+function renderBlockSvg(block: PlacedTextLayer, centreX: number): string {
+  const { layer, fontPx } = block;
+  const font = TEXT_FONTS[layer.font] ?? TEXT_FONTS[DEFAULT_TEXT_FONT];
+  const attributes = [
+    `font-family="${escapeXml(`'${font.family}', ${font.fallback}`)}"`,
+    `font-weight="${font.weight}"`,
+    `font-size="${fontPx.toFixed(2)}"`,
+    `fill="${layer.color}"`,
+    'text-anchor="middle"',
+  ].join(' ');
+
+  // Baseline offset from the top of a line box that vertically centres capitals
+  const baseline = fontPx * (LINE_HEIGHT / 2 + 0.35);
+
+  if (!block.radius) {
+    const y = block.top + baseline;
+    return `<text x="${centreX.toFixed(2)}" y="${y.toFixed(2)}" ${attributes}>${escapeXml(layer.text)}</text>`;
+  }
+
+  const arch = layer.arc > 0;
+  const centreY = arch
+    ? block.top + baseline + block.radius
+    : block.top + block.sagitta + baseline - block.radius;
+  const chars = [...layer.text];
+  const total = chars.reduce((sum, char) => sum + glyphAdvance(char), 0) * fontPx;
+
+  let offset = -total / 2;
+  return chars
+    .map((char) => {
+      const advance = glyphAdvance(char) * fontPx;
+      const angle = (offset + advance / 2) / block.radius;
+      offset += advance;
+      if (char === ' ') return '';
+
+      const x = centreX + block.radius * Math.sin(angle);
+      const y = arch
+        ? centreY - block.radius * Math.cos(angle)
+        : centreY + block.radius * Math.cos(angle);
+      const degrees = ((arch ? angle : -angle) * 180) / Math.PI;
+      return `<text x="0" y="0" transform="translate(${x.toFixed(2)} ${y.toFixed(2)}) rotate(${degrees.toFixed(2)})" ${attributes}>${escapeXml(char)}</text>`;
+    })
+    .join('');
+}
+
+/**
+ * @function composeTextLayers
+ * @description Composites text layers over an image. Bands above or below the art extend the canvas (transparent); overlay text is drawn on the art. The text is vector-rendered at the output size, so it stays sharp when the art is upscaled for print.
+ *
+ * @param {Buffer} art - Artwork (any format sharp reads)
+ * @param {TextLayer[]} layers - Text layers
+ * @param {{width: number, height: number}} [bounds] - Box to fit the result in; the art's own size when omitted
+ *
+ * @returns {Promise<TextCompositeResult>} PNG with alpha and its size
+ *
+ * @throws {AppError} 400 when the artwork cannot be read
+ *
+ * @async
+ */
+export async function composeTextLayers(
+  art: Buffer,
+  layers: TextLayer[],
+  bounds?: { width: number; height: number }
+): Promise<TextCompositeResult> {
+  const metadata = await sharp(art)
+    .metadata()
+    .catch(() => null);
+
+  if (!metadata?.width || !metadata?.height) {
+    throw new AppError('Artwork image could not be read', 400);
+  }
+
+  const layout = layoutTextLayers(layers, metadata.width, metadata.height);
+  const scale = bounds ? Math.min(bounds.width / metadata.width, bounds.height / layout.height) : 1;
+  const width = Math.round(metadata.width * scale);
+  const height = Math.round(layout.height * scale);
+
+  const artLayer = await sharp(art)
+    .ensureAlpha()
+    .resize(width, Math.round(metadata.height * scale), { kernel: 'lanczos3' })
+    .png()
+    .toBuffer();
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${metadata.width} ${layout.height.toFixed(2)}">`,
+    ...layout.placed.map((block) => renderBlockSvg(block, metadata.width / 2)),
+    '</svg>',
+  ].join('');
+
+  const buffer = await sharp({
+    create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } },
+  })
+    .composite([
+      { input: artLayer, top: Math.round(layout.artTop * scale), left: 0 },
+      { input: Buffer.from(svg), top: 0, left: 0 },
+    ])
+    .png()
+    .toBuffer();
+
+  return { buffer, width, height };
+}
+
+/**
+ * @function renderTextImage
+ * @description Renders and stores the display image for a design's text layers, composited over the image that will be printed (transparent unless the background is kept)
+ *
+ * @param {Object} design - Design being edited
+ * @param {string} design.id - Design ID
+ * @param {TextLayer[]} layers - Validated layers
+ *
+ * @returns {Promise<string | null>} Display image URL, or null when there are no layers
+ *
+ * @async
+ */
+export async function renderTextImage(
+  design: PrintSourceDesign & { id: string },
+  layers: TextLayer[]
+): Promise<string | null> {
+  if (!layers.length) {
+    return null;
+  }
+
+  const art = await downloadImage(getPrintSourceUrl(design));
+  const { buffer } = await composeTextLayers(art, layers);
+  return uploadTextImage(design.id, buffer);
+}
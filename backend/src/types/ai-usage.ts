@@ -0,0 +1,80 @@
+/**
+ * @module types/ai-usage
+ * @description Contracts for AI call telemetry (`ai_usage_events`) and the admin cost report
+ * @since 2026-10-18
+ */
+
+export type AiCallKind =
+  | 'PROMPT_MODERATION'
+  | 'IMAGE_MODERATION'
+  | 'IMAGE_GENERATION'
+  | 'IMAGE_EDIT'
+  | 'PROMPT_REWRITE';
+
+/**
+ * FLAGGED is a moderation call that flagged its input; the call itself succeeded
+ */
+export type AiCallOutcome = 'SUCCESS' | 'FLAGGED' | 'ERROR';
+
+/**
+ * Design, order, user and guest preview session a provider call is made for. Every field is
+ * optional; whatever is known is stored on the usage record.
+ */
+export interface AiCallContext {
+  designId?: string;
+  orderId?: string;
+  userId?: string;
+  /** Guest preview token of the order while it is unclaimed */
+  guestSession?: string;
+}
+
+/**
+ * One provider call to write to `ai_usage_events`
+ */
+export interface AiCallRecord {
+  kind: AiCallKind;
+  /** `openai`, or the image provider name for image calls (`stub` costs nothing) */
+  provider: string;
+  model: string;
+  size?: string;
+  quality?: string | null;
+  latencyMs: number;
+  outcome: AiCallOutcome;
+  error?: string;
+  /** Token usage reported by chat models */
+  inputTokens?: number;
+  outputTokens?: number;
+  context?: AiCallContext;
+}
+
+/**
+ * Calls and estimated cost for one report segment (paid orders, unpaid previews, guest sessions)
+ */
+export interface AiCostSegment {
+  /** Orders or guest sessions with at least one call */
+  count: number;
+  costUsd: number;
+  /** costUsd / count, 0 when empty */
+  averageUsd: number;
+}
+
+/**
+ * Admin AI cost report for a time window
+ */
+export interface AiCostReport {
+  since: string;
+  totals: { calls: number; costUsd: number; errors: number };
+  paidOrders: AiCostSegment;
+  unpaidPreviews: AiCostSegment;
+  guestSessions: AiCostSegment;
+  byModel: Array<{
+    kind: AiCallKind;
+    model: string;
+    calls: number;
+    costUsd: number;
+    averageLatencyMs: number;
+    errors: number;
+  }>;
+  topFailures: Array<{ kind: AiCallKind; error: string; count: number }>;
+  topModerationRejections: Array<{ category: string; count: number }>;
+}
@@ -0,0 +1,33 @@
+/**
+ * @module types/background-removal
+ * @description Contracts for keying out the solid background of generated designs
+ * @since 2026-10-18
+ */
+
+/**
+ * Tuning for one removal. Distances are Euclidean in RGB space (0-441).
+ */
+export interface BackgroundRemovalOptions {
+  /** Pixels this close to the detected background colour are removed outright */
+  tolerance?: number;
+  /** Pixels up to `tolerance + softness` away fade from transparent to opaque (alpha matte) */
+  softness?: number;
+}
+
+export interface BackgroundRemovalResult {
+  /** PNG with an alpha channel */
+  buffer: Buffer;
+  /** Detected background colour, or null when the source was already transparent */
+  backgroundColor: [number, number, number] | null;
+  /** Share of pixels made fully transparent (0-1) */
+  removedRatio: number;
+}
+
+/**
+ * Design fields that decide which image goes to print
+ */
+export interface PrintSourceDesign {
+  imageUrl: string;
+  transparentImageUrl?: string | null;
+  keepBackground?: boolean | null;
+}
@@ -0,0 +1,40 @@
+/**
+ * @module types/design-batch
+ * @description Contracts for multi-variation generation batches
+ * @since 2026-10-18
+ */
+
+import type { DesignGenerationParams } from '../services/openai.service.js';
+import type { DesignPlacement } from './print-placement.js';
+
+/**
+ * Everything needed to queue one batch. `id` is generated by the caller so the
+ * `design.generate.request` analytics event can carry it before the batch row exists.
+ */
+export interface DesignBatchInput {
+  id: string;
+  orderId: string;
+  userId: string;
+  prompt: string;
+  style?: DesignGenerationParams['style'] | null;
+  provider: NonNullable<DesignGenerationParams['provider']>;
+  aiModel: string;
+  variations: number;
+  /** Earlier version this batch was branched from, recorded on every variation */
+  parentDesignId?: string | null;
+  /** Print location the variations are for (defaults to `front`) */
+  placement?: DesignPlacement;
+  /** Reference photo every variation is generated from, linked on each design */
+  referenceImage?: { id: string; imageUrl: string } | null;
+}
+
+export interface DesignBatchRecord {
+  id: string;
+  orderId: string;
+  prompt: string;
+  style: string | null;
+  size: number;
+  failedCount: number;
+  selectedDesignId: string | null;
+  selectedAt: Date | null;
+}
@@ -0,0 +1,32 @@
+/**
+ * @module types/design-events
+ * @description Event contracts pushed over the design progress SSE stream
+ * @since 2026-10-18
+ */
+
+/**
+ * Pipeline and order events, in the order a customer typically sees them.
+ */
+export type DesignStreamEventType =
+  | 'design.queued'
+  | 'design.moderation_passed'
+  | 'design.image_generated'
+  | 'design.uploaded'
+  | 'design.completed'
+  | 'design.failed'
+  | 'design.retry_scheduled'
+  | 'order.status_changed';
+
+export interface DesignStreamEvent {
+  type: DesignStreamEventType;
+  orderId: string;
+  designId?: string;
+  /** Design or order status after the event */
+  status?: string;
+  /** Event-specific details (design row on completion, failure reason, retry delay...) */
+  data?: Record<string, unknown>;
+  /** ISO timestamp */
+  at: string;
+}
+
+export type DesignStreamListener = (event: DesignStreamEvent) => void;
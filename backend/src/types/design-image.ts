@@ -0,0 +1,35 @@
+/**
+ * @module types/design-image
+ * @description Contracts for responsive design image derivatives
+ * @since 2026-10-18
+ */
+
+export type DesignImageFormat = 'avif' | 'webp';
+
+/**
+ * One stored derivative, kept in `designs.imageVariants`
+ */
+export interface DesignImageVariant {
+  format: DesignImageFormat;
+  width: number;
+  url: string;
+}
+
+/**
+ * Derivatives plus the blur placeholder made for a design image
+ */
+export interface DesignImageDerivatives {
+  imageVariants: DesignImageVariant[];
+  /** Tiny blurred WebP as a data URL */
+  placeholder: string | null;
+}
+
+/**
+ * Image as returned by the API, ready for a `<picture>` element: one `<source>` per format with
+ * its `srcSet`, the original as the fallback `src`, and the blur placeholder
+ */
+export interface ResponsiveImage {
+  src: string;
+  placeholder: string | null;
+  sources: Array<{ type: string; srcSet: string }>;
+}
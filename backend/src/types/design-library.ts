@@ -0,0 +1,65 @@
+/**
+ * @module types/design-library
+ * @description Contracts for the account design library (`GET /api/designs/mine`) and design
+ * collections
+ * @since 2026-10-18
+ */
+
+import type { ResponsiveImage } from './design-image.js';
+
+export type DesignLibraryStatus = 'GENERATING' | 'COMPLETED' | 'FAILED' | 'APPROVED';
+
+/**
+ * Parsed `GET /api/designs/mine` query. Every filter is optional and they combine with AND.
+ */
+export interface DesignLibraryFilters {
+  /** Case-insensitive text match on the prompt */
+  query?: string;
+  status?: DesignLibraryStatus;
+  /** Approved for print (true) or not (false) */
+  approved?: boolean;
+  style?: string;
+  /** Created on or after */
+  from?: Date;
+  /** Created on or before */
+  to?: Date;
+  /** Product colour of the order the design belongs to, e.g. `Black` */
+  color?: string;
+  collectionId?: string;
+  /** Design ID of the last item on the previous page */
+  cursor?: string;
+  limit: number;
+}
+
+/**
+ * Design as listed in the library
+ */
+export interface DesignLibraryItem {
+  id: string;
+  orderId: string | null;
+  prompt: string;
+  style: string | null;
+  status: DesignLibraryStatus;
+  approvalStatus: boolean;
+  moderationStatus: string | null;
+  imageUrl: string;
+  thumbnailUrl: string | null;
+  /** WebP/AVIF sources and blur placeholder; null until the design has an image */
+  image: ResponsiveImage | null;
+  placement: string;
+  createdAt: Date;
+  order: { id: string; orderNumber: string; status: string; colors: string[] } | null;
+  /** Collections the design is in */
+  collectionIds: string[];
+}
+
+/**
+ * Collection with its size and newest design as a cover
+ */
+export interface DesignCollectionSummary {
+  id: string;
+  name: string;
+  designCount: number;
+  coverUrl: string | null;
+  createdAt: Date;
+}
@@ -0,0 +1,47 @@
+/**
+ * @module types/design-lineage
+ * @description Contracts for design ancestry (parentDesignId) and the per-order version tree
+ * @since 2026-10-18
+ */
+
+/**
+ * How a design relates to its parent. Derived from the rows rather than stored:
+ * - original: no parent
+ * - regeneration: generated from a new prompt branched off the parent (same order, has a batch)
+ * - edit: mask edit of the parent (same order, no batch)
+ * - clone: copied from a design on another order (e.g. reorder or gallery)
+ */
+export type DesignLineageRelation = 'original' | 'regeneration' | 'edit' | 'clone';
+
+export interface DesignLineageNode {
+  id: string;
+  parentDesignId: string | null;
+  /** Null for designs the viewer doesn't own */
+  orderId: string | null;
+  prompt: string;
+  style: string | null;
+  status: string;
+  imageUrl: string;
+  thumbnailUrl: string | null;
+  batchId: string | null;
+  relation: DesignLineageRelation;
+  /** False for designs owned by someone else, e.g. a gallery design this one was cloned from */
+  isOwn: boolean;
+  createdAt: Date;
+}
+
+export interface DesignLineageTreeNode extends DesignLineageNode {
+  children: DesignLineageTreeNode[];
+}
+
+/**
+ * Response body for `GET /api/designs/:id/lineage`
+ */
+export interface DesignLineage {
+  designId: string;
+  orderId: string | null;
+  /** Chain from the oldest known ancestor down to the design's parent; may cross orders, but stops at the first design owned by someone else */
+  ancestors: DesignLineageNode[];
+  /** Every design on the design's order, nested under its parent; oldest first */
+  tree: DesignLineageTreeNode[];
+}
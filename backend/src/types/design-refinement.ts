@@ -0,0 +1,26 @@
+/**
+ * @module types/design-refinement
+ * @description Contracts for conversational design refinement ("make the dragon blue")
+ * @since 2026-10-18
+ */
+
+export type DesignRefinementStatus = 'PROPOSED' | 'CONFIRMED' | 'DISCARDED';
+
+/**
+ * Inputs for merging a refinement instruction into the prompt of the design it starts from
+ */
+export interface RefinementMergeInput {
+  /** Prompt the source design was generated from */
+  prompt: string;
+  /** What the provider actually drew, when it rewrote the prompt */
+  revisedPrompt?: string | null;
+  /** Short change request, e.g. "make the dragon blue" */
+  instruction: string;
+}
+
+export interface RefinementMergeResult {
+  /** Full prompt with the change applied, shown to the customer for confirmation */
+  prompt: string;
+  /** Model that merged it, or `fallback` when the LLM was unavailable */
+  model: string;
+}
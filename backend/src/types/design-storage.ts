@@ -0,0 +1,35 @@
+/**
+ * @module types/design-storage
+ * @description Contracts for durable storage of generated design images
+ * @since 2026-10-18
+ */
+
+import type { DesignImageDerivatives } from './design-image.js';
+
+/**
+ * Where a design's image lives: PENDING still on the provider's temporary URL, STORED in asset
+ * storage, EXPIRED when the provider URL lapsed before it could be uploaded
+ */
+export type DesignStorageStatus = 'PENDING' | 'STORED' | 'EXPIRED';
+
+/**
+ * Asset storage URLs for an uploaded design image
+ */
+export interface StoredDesignImage extends DesignImageDerivatives {
+  imageUrl: string;
+  thumbnailUrl: string;
+  /** Background-removed print file; null when no solid background was found */
+  transparentImageUrl: string | null;
+}
+
+/**
+ * Outcome of one storage reconciliation sweep
+ */
+export interface DesignStorageSweepResult {
+  /** Uploaded on this pass */
+  stored: number;
+  /** Failed again and rescheduled */
+  retried: number;
+  /** Gave up; the provider URL expired or attempts ran out */
+  expired: number;
+}
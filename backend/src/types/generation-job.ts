@@ -0,0 +1,48 @@
+/**
+ * @module types/generation-job
+ * @description Payload and status contracts for persisted design generation jobs
+ * @since 2026-10-18
+ */
+
+import type {
+  DesignEditParams,
+  DesignGenerationParams,
+  DesignGenerationResult,
+} from '../services/openai.service.js';
+import type { StoredDesignImage } from './design-storage.js';
+
+export type GenerationJobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+
+/**
+ * Stored in `generation_jobs.payload`; everything the worker needs to re-run a generation. Edit
+ * jobs carry `edit` and use `prompt` as the edit instruction.
+ */
+export type GenerationJobPayload = DesignGenerationParams & {
+  edit?: Pick<DesignEditParams, 'sourceImageUrl' | 'mask'>;
+};
+
+/**
+ * Stored in `generation_jobs.result` as soon as the provider returns, and again once the image is
+ * uploaded, so a retry after a later step failed reuses the image instead of paying for a new one.
+ * Images the provider returned as bytes are uploaded before the first save, so only URLs are kept.
+ */
+export interface GenerationJobResult
+  extends Omit<DesignGenerationResult, 'imageUrl' | 'imageBuffer'> {
+  /** Provider URL, or the stored image URL when the provider returned bytes */
+  imageUrl: string;
+  /** Uploaded image; null when the upload failed and the storage sweep will retry it */
+  stored?: StoredDesignImage | null;
+  storageError?: string | null;
+}
+
+export interface GenerationJobRecord {
+  id: string;
+  designId: string;
+  status: GenerationJobStatus;
+  payload: GenerationJobPayload;
+  result: GenerationJobResult | null;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  runAfter: Date;
+}
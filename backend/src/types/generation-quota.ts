@@ -0,0 +1,89 @@
+/**
+ * @module types/generation-quota
+ * @description Contracts for generation quotas and the estimated-spend circuit breaker
+ * @since 2026-10-18
+ */
+
+import type { ImageProviderName } from './image-provider.js';
+
+/**
+ * Which limit refused a request; sent to clients as the 429 `code`
+ */
+export type GenerationQuotaCode =
+  | 'guest_quota'
+  | 'ip_quota'
+  | 'user_quota'
+  | 'global_quota'
+  | 'spend_cap';
+
+/**
+ * Endpoint that queued the images
+ */
+export type GenerationUsageSource = 'generate' | 'generate_guest' | 'edit' | 'refinement';
+
+/**
+ * Images allowed in a rolling window. A limit of 0 turns the check off.
+ */
+export interface RollingQuota {
+  images: number;
+  windowMinutes: number;
+}
+
+/**
+ * Effective quota settings (database overrides merged over config defaults)
+ */
+export interface GenerationQuotaLimits {
+  /** Per preview guest token */
+  guest: RollingQuota;
+  /** Per client IP, signed in or not */
+  ip: RollingQuota;
+  /** Per signed-in user */
+  user: RollingQuota;
+  /** Images across all customers in the last 24 hours; 0 turns the check off */
+  globalDailyImages: number;
+  /** Estimated USD spend in the last 24 hours that opens the circuit breaker; 0 turns it off */
+  dailySpendCapUsd: number;
+  /** How long the breaker stays open once tripped */
+  breakerCooldownMinutes: number;
+}
+
+/**
+ * Who is asking for images. Guest token and user are only set for the matching access mode.
+ */
+export interface GenerationCaller {
+  userId?: string;
+  guestToken?: string;
+  ipAddress?: string;
+}
+
+/**
+ * A generation request about to be queued
+ */
+export interface GenerationUsageRequest extends GenerationCaller {
+  orderId: string;
+  source: GenerationUsageSource;
+  provider: ImageProviderName;
+  /** Images the request will produce (batch size) */
+  images: number;
+}
+
+/**
+ * Ledger row written alongside the queued designs
+ */
+export interface GenerationUsageEntry extends GenerationUsageRequest {
+  /** Estimated provider cost in USD */
+  estimatedCost: number;
+}
+
+/**
+ * Admin view of current limits and usage
+ */
+export interface GenerationQuotaStatus {
+  limits: GenerationQuotaLimits;
+  last24Hours: {
+    images: number;
+    estimatedSpendUsd: number;
+  };
+  /** When the spend breaker closes again; null while closed */
+  breakerOpenUntil: string | null;
+}
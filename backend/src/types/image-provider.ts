@@ -0,0 +1,73 @@
+/**
+ * @module types/image-provider
+ * @description Shared contracts for the pluggable image-generation provider layer
+ * @since 2026-10-18
+ */
+
+/**
+ * Provider identifiers accepted by the API (request body `provider`), the `image_provider`
+ * setting, and the `IMAGE_PROVIDER` environment variable.
+ */
+export type ImageProviderName = 'dall-e-3' | 'gpt-image-1' | 'stub';
+
+/**
+ * Output sizes exposed to callers. Providers map these onto the nearest size they support.
+ */
+export type ImageSize = '1024x1024' | '1024x1792' | '1792x1024';
+
+/**
+ * Input handed to a provider once moderation and prompt enhancement have run. `variation` is the
+ * design's index within its generation batch; remote models vary naturally and ignore it.
+ */
+export interface ImageGenerationRequest {
+  prompt: string;
+  size: ImageSize;
+  variation?: number;
+}
+
+/**
+ * Input for mask-based edits (inpainting). `mask` is a PNG the same size as `image` whose fully
+ * transparent pixels mark the area to repaint.
+ */
+export interface ImageEditRequest {
+  prompt: string;
+  size: ImageSize;
+  image: Buffer;
+  mask: Buffer;
+}
+
+/**
+ * Input for image-guided generation. `reference` is a customer photo (PNG, metadata stripped)
+ * the output should follow in subject and composition while the prompt steers the rest.
+ */
+export interface ImageReferenceRequest {
+  prompt: string;
+  size: ImageSize;
+  reference: Buffer;
+  variation?: number;
+}
+
+/**
+ * Provider output: a remote `imageUrl` (DALL-E 3), or the PNG bytes in `imageBuffer` for providers
+ * that return them (gpt-image-1, stub), which the generation job uploads straight away.
+ */
+export interface ImageGenerationOutput {
+  imageUrl?: string;
+  imageBuffer?: Buffer;
+  revisedPrompt: string;
+  model: string;
+}
+
+export interface ImageProvider {
+  /** Identifier used for selection */
+  name: ImageProviderName;
+  /** Model name recorded on `Design.aiModel` */
+  model: string;
+  /** Quality tier requested from the model, recorded with AI usage for cost estimates */
+  quality: string | null;
+  generate(request: ImageGenerationRequest): Promise<ImageGenerationOutput>;
+  /** Mask-based edit; omitted by providers whose model has no edit endpoint (DALL-E 3) */
+  edit?(request: ImageEditRequest): Promise<ImageGenerationOutput>;
+  /** Generation guided by a reference photo; omitted by providers without image input */
+  generateFromReference?(request: ImageReferenceRequest): Promise<ImageGenerationOutput>;
+}
@@ -0,0 +1,41 @@
+/**
+ * @module types/mockup
+ * @description Contracts for product mockups rendered from a design and a shirt colour
+ * @since 2026-10-18
+ */
+
+import type { PrintPlacementBox } from './print-placement.js';
+
+/**
+ * Where the print area sits on a mockup template, as fractions of the template width (templates
+ * are square)
+ */
+export interface MockupPrintArea {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * What a mockup is drawn from
+ */
+export interface MockupInput {
+  designId: string;
+  /** Image that prints: the text display image or the print source */
+  imageUrl: string;
+  /** Printful placement, e.g. `front` */
+  placement: string;
+  /** Art box in inches within the print area, before fitting to the design's aspect ratio */
+  box: PrintPlacementBox;
+  color: { name: string; hex: string };
+}
+
+/**
+ * Rendered mockup as returned to the client
+ */
+export interface DesignMockupView {
+  color: string;
+  hex: string;
+  imageUrl: string;
+}
@@ -0,0 +1,61 @@
+/**
+ * @module types/moderation
+ * @description Contracts for prompt/image moderation, its audit log and the admin review queue
+ * @since 2026-10-18
+ */
+
+import type { AiCallContext } from './ai-usage.js';
+
+/**
+ * What happens when the moderation API cannot be reached: `closed` blocks prompts and holds
+ * images for review, `open` lets content through (the error is still logged)
+ */
+export type ModerationFailMode = 'open' | 'closed';
+
+export type ModerationSource = 'PROMPT' | 'IMAGE';
+
+export type ModerationOutcome = 'PASSED' | 'FLAGGED' | 'ERROR';
+
+export type ModerationReviewStatus = 'PENDING_REVIEW' | 'CLEARED' | 'REJECTED';
+
+/**
+ * Decision an admin can record for a held design
+ */
+export type ModerationReviewDecision = Exclude<ModerationReviewStatus, 'PENDING_REVIEW'>;
+
+/**
+ * Design and user a moderation check runs for (stored on the event); the order and guest session
+ * are only kept on the AI usage record
+ */
+export type ModerationContext = AiCallContext;
+
+/**
+ * One decision to write to `moderation_events`
+ */
+export interface ModerationEventInput {
+  source: ModerationSource;
+  outcome: ModerationOutcome;
+  /** Whether the decision stopped the request */
+  blocked: boolean;
+  failMode: ModerationFailMode;
+  /** Prompt text or image URL (inline images are summarised) */
+  input: string;
+  model?: string;
+  /** Names of the flagged categories */
+  categories?: string[];
+  categoryScores?: Record<string, number>;
+  error?: string;
+  /** PENDING_REVIEW puts the event (and its design) in the admin queue */
+  reviewStatus?: ModerationReviewStatus | null;
+  context?: ModerationContext;
+}
+
+/**
+ * Options for listing the admin review queue
+ */
+export interface ModerationQueueQuery {
+  /** Review status to list, or `all` for every event that needed review */
+  status: ModerationReviewStatus | 'all';
+  page: number;
+  pageSize: number;
+}
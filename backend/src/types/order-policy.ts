@@ -5,6 +5,8 @@ export type OrderPolicyAction =
   | 'design_generate_guest'
   | 'design_clone_to_preview'
   | 'order_preview_variant_update'
+  | 'order_item_placement_update'
+  | 'order_item_placements_update'
   | 'design_approve'
   | 'order_submit_fulfillment'
   | 'order_claim_preview'
@@ -0,0 +1,50 @@
+/**
+ * @module types/print-check
+ * @description Contracts for the print-readiness analyzer shown before approval
+ * @since 2026-10-18
+ */
+
+export type PrintCheckSeverity = 'info' | 'warning' | 'critical';
+
+export type PrintCheckCode =
+  | 'low_contrast'
+  | 'dark_on_black'
+  | 'fine_detail'
+  | 'hard_edges'
+  | 'low_resolution'
+  | 'text_contrast';
+
+export interface PrintCheckWarning {
+  code: PrintCheckCode;
+  severity: PrintCheckSeverity;
+  /** Customer-facing explanation with a suggested fix */
+  message: string;
+  /** Points taken off the score */
+  penalty: number;
+}
+
+/**
+ * Shirt colour and print area a design is checked against
+ */
+export interface PrintCheckOptions {
+  shirtColor: string;
+  shirtHex: string;
+  /** Printed area width in inches */
+  widthIn: number;
+  /** Printed area height in inches */
+  heightIn: number;
+  /** True when the customer chose to print the generated background */
+  keepBackground?: boolean;
+}
+
+export interface PrintCheckResult {
+  /** 100 minus warning penalties, floored at 0 */
+  score: number;
+  /** False when any warning is critical */
+  ready: boolean;
+  warnings: PrintCheckWarning[];
+  color: string;
+  placement: string;
+  /** Source pixels per printed inch once scaled to the print area */
+  effectiveDpi: number;
+}
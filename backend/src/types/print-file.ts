@@ -0,0 +1,44 @@
+/**
+ * @module types/print-file
+ * @description Contracts for high-resolution print file preparation
+ * @since 2026-10-18
+ */
+
+import type { DesignStorageStatus } from './design-storage.js';
+
+export interface PrintFileResult {
+  designId: string;
+  printFileUrl: string;
+  placement: string;
+  width: number;
+  height: number;
+  dpi: number;
+  bytes: number;
+}
+
+/**
+ * One row of an admin regeneration run; `error` is set instead of the file details on failure
+ */
+export interface PrintFileRegenerationResult {
+  designId: string;
+  printFileUrl?: string;
+  placement?: string;
+  width?: number;
+  height?: number;
+  error?: string;
+}
+
+/**
+ * Design fields needed to pick or prepare a print file
+ */
+export interface PrintFileDesign {
+  id: string;
+  imageUrl: string;
+  transparentImageUrl?: string | null;
+  keepBackground?: boolean | null;
+  textImageUrl?: string | null;
+  printFileUrl?: string | null;
+  printFilePlacement?: string | null;
+  /** Fulfillment refuses designs whose image never made it to durable storage */
+  storageStatus?: DesignStorageStatus;
+}
@@ -0,0 +1,112 @@
+/**
+ * @module types/print-placement
+ * @description Contracts for where, and how large, a design prints inside a placement's print area
+ * @since 2026-10-18
+ */
+
+/**
+ * Named starting points offered in the placement editor
+ */
+export type PrintPlacementPreset = 'full-front' | 'centered-small' | 'left-chest';
+
+/**
+ * Print locations an apparel item can add on top of its front print, as Printful placement keys
+ */
+export type ExtraPrintPlacement = 'back' | 'sleeve_left' | 'label_inside';
+
+/**
+ * Print location a design is made for. `front` is the item's primary placement: the chest on
+ * apparel, the wrap on mugs.
+ */
+export type DesignPlacement = 'front' | ExtraPrintPlacement;
+
+/**
+ * How an extra placement is shown to customers
+ */
+export interface ExtraPlacementSpec {
+  label: string;
+}
+
+/**
+ * Extra placement stored on an order item, with the price charged for it
+ */
+export interface OrderItemPlacementRecord {
+  placement: string;
+  price: unknown;
+  designId?: string | null;
+}
+
+/**
+ * Approval progress of an order across its placements
+ */
+export interface OrderPlacementApproval {
+  /** Placements the order prints on, front first */
+  placements: DesignPlacement[];
+  /** Approved design id per placement */
+  approved: Partial<Record<DesignPlacement, string>>;
+  /** Placements still waiting for an approved design */
+  missing: DesignPlacement[];
+}
+
+/**
+ * Art box chosen by the customer, in inches from the top-left of the print area. Height follows
+ * from the approved design's aspect ratio, so it is not stored.
+ */
+export interface PrintPlacementBox {
+  left: number;
+  top: number;
+  width: number;
+}
+
+/**
+ * Preset definition. `left` is omitted for presets centred horizontally.
+ */
+export interface PrintPlacementPresetSpec {
+  label: string;
+  width: number;
+  top: number;
+  left?: number;
+}
+
+/**
+ * Layer position sent to Printful, in inches within the print area
+ */
+export interface PrintLayerPosition {
+  width: number;
+  height: number;
+  top: number;
+  left: number;
+}
+
+/**
+ * Placement columns stored on an order item; all null means Printful's default placement
+ */
+export interface OrderItemPlacementFields {
+  placementPreset?: string | null;
+  printLeftIn?: number | null;
+  printTopIn?: number | null;
+  printWidthIn?: number | null;
+}
+
+/**
+ * What confirmation emails need to draw the placed design on the shirt
+ */
+export interface PlacementEmailPreview {
+  designId: string;
+  imageUrl: string;
+  /** Shirt colour name, e.g. "Black" */
+  color: string;
+  /** Shirt colour, `#rrggbb` */
+  shirtHex: string;
+  /** Print area size in inches */
+  areaWidthIn: number;
+  areaHeightIn: number;
+  /** Printful placement and the box the art was placed in, before fitting */
+  placement: string;
+  box: PrintPlacementBox;
+  position: PrintLayerPosition;
+  /** Short human description, e.g. "Left chest, 4 in wide" */
+  label: string;
+  /** Rendered product mockup; emails fall back to drawing the print area without it */
+  mockupUrl?: string | null;
+}
@@ -0,0 +1,66 @@
+/**
+ * @module types/prompt-library
+ * @description Contracts for the personal prompt library (`prompt_entries`)
+ * @since 2026-10-18
+ */
+
+/**
+ * Request that submitted the prompt: a fresh generation (signed in or guest preview), a mask edit
+ * instruction, or the confirmed prompt of a refinement
+ */
+export type PromptEntrySource = 'generate' | 'edit' | 'refinement';
+
+/**
+ * What the prompt produced, derived from its designs:
+ * - `generating`: at least one design is still being made
+ * - `approved`: one of its designs was approved for print
+ * - `completed`: at least one design finished
+ * - `rejected`: every finished design was rejected in moderation review
+ * - `failed`: nothing finished
+ */
+export type PromptEntryOutcome = 'generating' | 'approved' | 'completed' | 'rejected' | 'failed';
+
+/**
+ * Prompt to store, written in the same transaction that queues its designs
+ */
+export interface PromptEntryInput {
+  /** Order owner; the guest user for preview orders until the order is claimed */
+  userId: string;
+  orderId: string;
+  prompt: string;
+  style?: string | null;
+  source: PromptEntrySource;
+  /** Batch a generate or refinement prompt queued */
+  batchId?: string;
+  /** Design an edit instruction queued */
+  designId?: string;
+}
+
+/**
+ * Filters for `GET /api/prompts`
+ */
+export interface PromptEntrySearch {
+  /** Case-insensitive text match on the prompt */
+  query?: string;
+  tag?: string;
+  favoritesOnly?: boolean;
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * Library entry returned to the owner
+ */
+export interface PromptEntryView {
+  id: string;
+  orderId: string | null;
+  prompt: string;
+  style: string | null;
+  source: PromptEntrySource;
+  favorite: boolean;
+  tags: string[];
+  outcome: PromptEntryOutcome;
+  /** Thumbnails of the finished designs, in variation order */
+  thumbnails: string[];
+  createdAt: Date;
+}
@@ -0,0 +1,49 @@
+/**
+ * @module types/prompt-pack
+ * @description Contracts for database-managed "Surprise Me" prompt packs
+ * @since 2026-10-18
+ */
+
+/**
+ * Pack fields exposed to storefront clients for the pack selector (subjects and themes stay
+ * server-side)
+ */
+export interface PublicPromptPack {
+  key: string;
+  name: string;
+  description: string | null;
+  /** Style preset key the pack's prompts work best with */
+  suggestedStyle: string | null;
+  sortOrder: number;
+}
+
+/**
+ * A drawn "Surprise Me" prompt and the pack it came from
+ */
+export interface RandomPrompt {
+  prompt: string;
+  pack: { key: string; name: string };
+  suggestedStyle: string | null;
+}
+
+/**
+ * Validated admin create/update payload; on update only the provided fields are set
+ */
+export interface PromptPackInput {
+  key?: string;
+  name?: string;
+  description?: string | null;
+  /** Prompt openings, e.g. "a majestic dragon" */
+  subjects?: string[];
+  /** Prompt endings, e.g. "with vibrant colors" */
+  themes?: string[];
+  /** Relative chance of the pack being drawn when no pack is picked */
+  weight?: number;
+  suggestedStyle?: string | null;
+  sortOrder?: number;
+  active?: boolean;
+  /** Start of a seasonal window; null means no start */
+  availableFrom?: Date | null;
+  /** End of a seasonal window (exclusive); null means no end */
+  availableUntil?: Date | null;
+}
@@ -0,0 +1,31 @@
+/**
+ * @module types/reference-image
+ * @description Contracts for reference photo uploads used in image-guided generation
+ * @since 2026-10-18
+ */
+
+import type { AiCallContext } from './ai-usage.js';
+
+/**
+ * Validated `POST /api/designs/reference-images` request
+ */
+export interface ReferenceImageUpload {
+  orderId: string;
+  /** `data:image/(png|jpeg|webp);base64,...` */
+  image: unknown;
+  /** Customer confirmed they own the photo or have permission to use it */
+  rightsConfirmed: unknown;
+  /** Order, user and guest session the moderation check is logged against */
+  context: AiCallContext;
+}
+
+/**
+ * Stored reference photo as returned to the client
+ */
+export interface ReferenceImageView {
+  id: string;
+  imageUrl: string;
+  width: number;
+  height: number;
+  createdAt: Date;
+}
@@ -0,0 +1,49 @@
+/**
+ * @module types/storage
+ * @description Contracts for the pluggable asset storage backend
+ * @since 2026-10-18
+ */
+
+export type StorageDriverName = 'supabase' | 's3' | 'local';
+
+/**
+ * Resolved storage settings; only the block for the selected driver is filled in
+ */
+export interface StorageConfig {
+  driver: StorageDriverName;
+  supabase?: { url: string; serviceRoleKey: string; bucket: string };
+  s3?: {
+    bucket: string;
+    region: string;
+    /** Endpoint of an S3-compatible service (MinIO, R2...); AWS when unset */
+    endpoint?: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    /** Base URL objects are served from, e.g. a CDN; derived from the bucket when unset */
+    publicUrl?: string;
+    forcePathStyle: boolean;
+  };
+  local?: {
+    /** Directory files are written to */
+    directory: string;
+    /** Base URL the API is reachable at; files are served under `<baseUrl>/assets` */
+    baseUrl: string;
+  };
+}
+
+/**
+ * Where design images, thumbnails, print files and mockups are written. Keys are paths like
+ * `<designId>/image-<timestamp>.png`; every driver returns a public URL for them.
+ */
+export interface StorageDriver {
+  name: StorageDriverName;
+  /**
+   * Writes (or overwrites) an object and returns its public URL
+   */
+  put(key: string, buffer: Buffer, contentType: string): Promise<string>;
+  /**
+   * Reads an object back by its public URL without going over HTTP; null when the URL isn't one
+   * of this driver's
+   */
+  read?(url: string): Promise<Buffer | null>;
+}
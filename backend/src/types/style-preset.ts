@@ -0,0 +1,44 @@
+/**
+ * @module types/style-preset
+ * @description Contracts for database-managed generation style presets
+ * @since 2026-10-18
+ */
+
+/**
+ * Preset fields exposed to storefront clients (prompt text stays server-side)
+ */
+export interface PublicStylePreset {
+  key: string;
+  label: string;
+  description: string | null;
+  previewImageUrl: string | null;
+  sortOrder: number;
+}
+
+/**
+ * Prompt text a preset adds to a generation request
+ */
+export interface StylePromptGuidance {
+  /** Appended to the prompt, e.g. "in a vintage, retro style…" */
+  promptSuffix: string;
+  /** Things the image should avoid, appended as an "Avoid:" clause */
+  negativeGuidance: string | null;
+}
+
+/**
+ * Validated admin create/update payload; on update only the provided fields are set
+ */
+export interface StylePresetInput {
+  key?: string;
+  label?: string;
+  description?: string | null;
+  promptSuffix?: string;
+  negativeGuidance?: string | null;
+  previewImageUrl?: string | null;
+  sortOrder?: number;
+  active?: boolean;
+  /** Start of a seasonal window; null means no start */
+  availableFrom?: Date | null;
+  /** End of a seasonal window (exclusive); null means no end */
+  availableUntil?: Date | null;
+}
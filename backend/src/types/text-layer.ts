@@ -0,0 +1,57 @@
+/**
+ * @module types/text-layer
+ * @description Contracts for typography layers composited over generated artwork
+ * @since 2026-10-18
+ */
+
+/**
+ * Straight baseline, or text bent along a circular arc
+ */
+export type TextLayerShape = 'straight' | 'arc';
+
+/**
+ * Where a block sits relative to the art: in a band above or below it, or over it
+ */
+export type TextLayerPosition = 'above' | 'below' | 'overlay';
+
+/**
+ * One block of text, stored in `designs.textLayers` so it can be edited without regenerating the art
+ */
+export interface TextLayer {
+  /** Text to render (single line) */
+  text: string;
+  /** Key in TEXT_FONTS */
+  font: string;
+  /** Fill colour, `#rrggbb` */
+  color: string;
+  /** Font size as a percentage of the art width */
+  size: number;
+  shape: TextLayerShape;
+  /** Arc sweep in degrees; positive bends the ends down (arch), negative bends them up (smile). Ignored for straight text. */
+  arc: number;
+  position: TextLayerPosition;
+  /** Vertical centre for overlay text as a percentage of the art height; ignored above and below */
+  y: number;
+}
+
+/**
+ * Font bundled for text layers. The family must be installed on the server for sharp to render it.
+ */
+export interface TextLayerFont {
+  label: string;
+  /** Font family name, as installed */
+  family: string;
+  weight: number;
+  /** Generic family used when the font is missing */
+  fallback: 'sans-serif' | 'serif' | 'cursive';
+}
+
+/**
+ * Result of compositing text layers over an image
+ */
+export interface TextCompositeResult {
+  /** PNG with an alpha channel */
+  buffer: Buffer;
+  width: number;
+  height: number;
+}
@@ -7,6 +7,7 @@
 import { AnimatePresence, motion, useReducedMotion } from 'framer-motion';
 import { Button } from '@components/ui/Button';
 import { MOTION_DURATION, MOTION_EASING } from '@utils/motion';
+import { useStylePresets } from '@hooks/useStylePresets';
 import { useCreationCorridor } from './useCreationCorridor';
 
 /**
@@ -19,12 +20,15 @@ import { useCreationCorridor } from './useCreationCorridor';
 export default function CreationCorridorOverlay(): JSX.Element | null {
   const { state, stages, overlayVisible, goToAuth, exit } = useCreationCorridor();
   const shouldReduceMotion = useReducedMotion();
+  const stylePresets = useStylePresets();
 
   if (!overlayVisible) return null;
 
   const stage = stages[state.stageIndex];
   if (!stage) return null;
 
+  const stylePreset = stylePresets.find((preset) => preset.key === state.style);
+
   const progressPct = Math.max(0, Math.min(100, Math.round(((state.stageIndex + 1) / stages.length) * 100)));
 
   const corridorFadeDurationS = shouldReduceMotion ? 0.2 : 0.85;
@@ -60,6 +64,18 @@ export default function CreationCorridorOverlay(): JSX.Element | null {
               <p className="font-sans text-sm leading-relaxed text-muted dark:text-muted-dark">
                 {stage.subtitle}
               </p>
+              {stylePreset && (
+                <p className="inline-flex items-center gap-2 font-sans text-xs text-muted dark:text-muted-dark">
+                  {stylePreset.previewImageUrl && (
+                    <img
+                      src={stylePreset.previewImageUrl}
+                      alt=""
+                      className="h-5 w-5 rounded-full object-cover"
+                    />
+                  )}
+                  Style: {stylePreset.label}
+                </p>
+              )}
             </div>
 
             {state.phase === 'AUTH_PAUSED' && stage.isAuthPause && (
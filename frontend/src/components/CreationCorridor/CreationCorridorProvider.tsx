@@ -8,9 +8,12 @@ import { createContext, useCallback, useEffect, useMemo, useRef, useState } from
 import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '@clerk/clerk-react';
 import { apiGet, apiPost } from '@utils/api';
+import { getGenerationErrorMessage, isGenerationQuotaError } from '@utils/generationQuota';
 import { trackEvent } from '@utils/analytics';
 import { QUICKSTART_PROMPT_KEY } from '@utils/quickstart';
+import { useDesignStream } from '@hooks/useDesignStream';
 import type { Design } from '../../types/design';
+import type { DesignStreamEventType, DesignStreamSnapshot } from '../../types/designStream';
 import type {
   CreationCorridorStage,
   CreationCorridorStartArgs,
@@ -46,26 +49,28 @@ const DEFAULT_STATE: CreationCorridorState = {
   errorMessage: null,
 };
 
+// Stages advance on real pipeline events from the design stream; minDurationMs is only a floor so
+// fast providers don't flash through the copy.
 const STAGES: CreationCorridorStage[] = [
   {
     key: 'corridor.prepare',
     title: 'Setting up your draft…',
     subtitle: 'We’re getting the canvas ready.',
-    minDurationMs: 4900,
+    minDurationMs: 1200,
     isAuthPause: false,
   },
   {
     key: 'corridor.interpret',
     title: 'Interpreting your direction…',
-    subtitle: 'Finding the strongest visual read.',
-    minDurationMs: 7200,
+    subtitle: 'Checking your prompt and queueing the artwork.',
+    minDurationMs: 1500,
     isAuthPause: false,
   },
   {
     key: 'corridor.explore',
     title: 'Exploring visual directions…',
-    subtitle: 'Balancing mood, shape, and contrast.',
-    minDurationMs: 5400,
+    subtitle: 'Generating the artwork for your draft.',
+    minDurationMs: 1500,
     isAuthPause: false,
   },
   {
@@ -79,11 +84,35 @@ const STAGES: CreationCorridorStage[] = [
     key: 'corridor.finish',
     title: 'Finalizing your studio…',
     subtitle: 'Opening your draft in the design workspace.',
-    minDurationMs: 1200,
+    minDurationMs: 800,
     isAuthPause: false,
   },
 ];
 
+/**
+ * How far along the generation pipeline each stream event is. Retries drop back to queued.
+ */
+const PIPELINE_RANK: Partial<Record<DesignStreamEventType, number>> = {
+  'design.queued': 0,
+  'design.retry_scheduled': 0,
+  'design.moderation_passed': 1,
+  'design.image_generated': 2,
+  'design.uploaded': 3,
+  'design.completed': 4,
+  'design.failed': 4,
+};
+
+const PIPELINE_MODERATED = 1;
+const PIPELINE_IMAGE_READY = 2;
+const PIPELINE_SETTLED = 4;
+
+// Upper bound on waiting for one pipeline step; if the stream is down the design page's polling
+// fallback picks the draft up instead.
+const PIPELINE_WAIT_MAX_MS = 60 * 1000;
+
+// How long to wait for the stream to open before falling back to stage floors alone
+const STREAM_CONNECT_GRACE_MS = 5000;
+
 const isAuthPath = (pathname: string): boolean => {
   return pathname.startsWith('/auth') || pathname.startsWith('/sign-in') || pathname.startsWith('/sign-up');
 };
@@ -93,9 +122,8 @@ const sleep = async (ms: number): Promise<void> => {
 };
 
 const getErrorMessage = (error: unknown): string => {
-  if (error instanceof Error) return error.message;
   if (typeof error === 'string') return error;
-  return 'Something interrupted the draft creation flow.';
+  return getGenerationErrorMessage(error, 'Something interrupted the draft creation flow.');
 };
 
 const safeParse = (raw: string): PersistedCreationCorridor | null => {
@@ -172,6 +200,9 @@ export default function CreationCorridorProvider({ children }: CreationCorridorP
   const lastOverflowRef = useRef<string>('');
   const resumeInFlightRef = useRef(false);
   const startInFlightRef = useRef(false);
+  const pipelineRankRef = useRef(-1);
+  const pipelineWaitersRef = useRef<Array<() => void>>([]);
+  const streamConnectedRef = useRef(false);
 
   const overlayVisible = state.active && !isAuthPath(location.pathname);
 
@@ -236,6 +267,60 @@ export default function CreationCorridorProvider({ children }: CreationCorridorP
     [setStageIndex]
   );
 
+  const recordPipelineRank = useCallback((rank: number) => {
+    pipelineRankRef.current = rank;
+    const waiters = pipelineWaitersRef.current;
+    pipelineWaitersRef.current = [];
+    waiters.forEach((wake) => wake());
+  }, []);
+
+  const waitForPipeline = useCallback(async (minRank: number, runId: number) => {
+    const startedAt = Date.now();
+    const deadline = startedAt + PIPELINE_WAIT_MAX_MS;
+    while (runIdRef.current === runId && pipelineRankRef.current < minRank && Date.now() < deadline) {
+      const streamDown = !streamConnectedRef.current;
+      if (streamDown && Date.now() - startedAt >= STREAM_CONNECT_GRACE_MS) return;
+      const wakeAt = streamDown ? startedAt + STREAM_CONNECT_GRACE_MS : deadline;
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, wakeAt - Date.now());
+        pipelineWaitersRef.current.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+  }, []);
+
+  const handleStreamSnapshot = useCallback(
+    (snapshot: DesignStreamSnapshot) => {
+      const design = snapshot.designs[0];
+      if (design?.status === 'COMPLETED') {
+        recordPipelineRank(PIPELINE_RANK['design.completed'] ?? PIPELINE_SETTLED);
+      } else if (design?.status === 'FAILED') {
+        recordPipelineRank(PIPELINE_RANK['design.failed'] ?? PIPELINE_SETTLED);
+      }
+    },
+    [recordPipelineRank]
+  );
+
+  const { connected: streamConnected } = useDesignStream({
+    orderId: state.orderId,
+    enabled: state.active && (state.phase === 'RUNNING' || state.phase === 'RESUMING'),
+    getToken: getAuthToken,
+    // Claiming clears the preview guest token, so switch to the Clerk session once claimed
+    guestToken: state.wasGuest && !state.claimRequested ? state.guestToken : null,
+    onSnapshot: handleStreamSnapshot,
+    onEvent: (event) => {
+      const rank = PIPELINE_RANK[event.type];
+      if (rank !== undefined) recordPipelineRank(rank);
+    },
+  });
+
+  useEffect(() => {
+    streamConnectedRef.current = streamConnected;
+    if (streamConnected) recordPipelineRank(pipelineRankRef.current);
+  }, [recordPipelineRank, streamConnected]);
+
   const completeToDesign = useCallback(
     async (orderId: string, promptLength: number, runId: number) => {
       if (runIdRef.current !== runId) return;
@@ -285,8 +370,6 @@ export default function CreationCorridorProvider({ children }: CreationCorridorP
 
         updateState({ orderId });
 
-        await advanceStageAfterMin(2, STAGES[1].minDurationMs, runId);
-
         await apiPost(
           '/api/designs/generate',
           {
@@ -299,7 +382,11 @@ export default function CreationCorridorProvider({ children }: CreationCorridorP
 
         updateState({ designRequested: true });
 
+        await waitForPipeline(PIPELINE_MODERATED, runId);
+        await advanceStageAfterMin(2, STAGES[1].minDurationMs, runId);
+        await waitForPipeline(PIPELINE_IMAGE_READY, runId);
         await advanceStageAfterMin(4, STAGES[2].minDurationMs, runId);
+        await waitForPipeline(PIPELINE_SETTLED, runId);
         await waitForCurrentStageMin(STAGES[4].minDurationMs, runId);
 
         await completeToDesign(orderId, args.prompt.length, runId);
@@ -308,7 +395,15 @@ export default function CreationCorridorProvider({ children }: CreationCorridorP
         markError(getErrorMessage(error));
       }
     },
-    [advanceStageAfterMin, completeToDesign, getToken, markError, updateState, waitForCurrentStageMin]
+    [
+      advanceStageAfterMin,
+      completeToDesign,
+      getToken,
+      markError,
+      updateState,
+      waitForCurrentStageMin,
+      waitForPipeline,
+    ]
   );
 
   const runGuestFlow = useCallback(
@@ -333,8 +428,7 @@ export default function CreationCorridorProvider({ children }: CreationCorridorP
 
         updateState({ orderId, guestToken, wasGuest: true });
 
-        await advanceStageAfterMin(2, STAGES[1].minDurationMs, runId);
-
+        let designRequested = false;
         try {
           await apiPost('/api/designs/generate/guest', {
             orderId,
@@ -342,11 +436,25 @@ export default function CreationCorridorProvider({ children }: CreationCorridorP
             prompt: args.prompt,
             style: args.style,
           });
+          designRequested = true;
           updateState({ designRequested: true });
         } catch (err: unknown) {
+          // Quota refusals won't clear by signing in right away, so say so instead of pausing
+          if (isGenerationQuotaError(err)) {
+            markError(getErrorMessage(err));
+            return;
+          }
           console.warn('Guest design generation failed pre-auth', err);
         }
 
+        // Let guests watch the artwork get made before asking them to sign in
+        if (designRequested) {
+          await waitForPipeline(PIPELINE_MODERATED, runId);
+        }
+        await advanceStageAfterMin(2, STAGES[1].minDurationMs, runId);
+        if (designRequested) {
+          await waitForPipeline(PIPELINE_IMAGE_READY, runId);
+        }
         await waitForCurrentStageMin(STAGES[2].minDurationMs, runId);
         setStageIndex(3);
         updateState({ phase: 'AUTH_PAUSED' });
@@ -355,7 +463,7 @@ export default function CreationCorridorProvider({ children }: CreationCorridorP
         markError(getErrorMessage(error));
       }
     },
-    [advanceStageAfterMin, markError, setStageIndex, updateState, waitForCurrentStageMin]
+    [advanceStageAfterMin, markError, setStageIndex, updateState, waitForCurrentStageMin, waitForPipeline]
   );
 
   const resumeAfterAuth = useCallback(
@@ -409,6 +517,7 @@ export default function CreationCorridorProvider({ children }: CreationCorridorP
 
         setStageIndex(4);
         updateState({ phase: 'RUNNING' });
+        await waitForPipeline(PIPELINE_SETTLED, runId);
         await waitForCurrentStageMin(STAGES[4].minDurationMs, runId);
 
         await completeToDesign(state.orderId, state.prompt.length, runId);
@@ -430,6 +539,7 @@ export default function CreationCorridorProvider({ children }: CreationCorridorP
       state.style,
       updateState,
       waitForCurrentStageMin,
+      waitForPipeline,
     ]
   );
 
@@ -451,6 +561,7 @@ export default function CreationCorridorProvider({ children }: CreationCorridorP
       runIdRef.current += 1;
       const runId = runIdRef.current;
       stageEnteredAtMsRef.current = Date.now();
+      pipelineRankRef.current = -1;
 
       if (startInFlightRef.current) return;
       startInFlightRef.current = true;
@@ -601,6 +712,10 @@ export default function CreationCorridorProvider({ children }: CreationCorridorP
               });
               updateState({ designRequested: true });
             } catch (err) {
+              if (isGenerationQuotaError(err)) {
+                markError(getErrorMessage(err));
+                return;
+              }
               console.warn('Guest design generation failed during recovery', err);
             }
           }
@@ -665,6 +780,7 @@ export default function CreationCorridorProvider({ children }: CreationCorridorP
 
         if (resolvedOrderId) {
           setStageIndex(4);
+          await waitForPipeline(PIPELINE_SETTLED, runId);
           await waitForCurrentStageMin(STAGES[4].minDurationMs, runId);
           await completeToDesign(resolvedOrderId, state.prompt.length, runId);
         }
@@ -697,6 +813,7 @@ export default function CreationCorridorProvider({ children }: CreationCorridorP
     state.wasGuest,
     updateState,
     waitForCurrentStageMin,
+    waitForPipeline,
   ]);
 
   const contextValue = useMemo<CreationCorridorContextValue>(
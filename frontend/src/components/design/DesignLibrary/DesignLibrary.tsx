@@ -0,0 +1,507 @@
+/**
+ * @module components/design/DesignLibrary
+ * @description Account design library: every design across orders with search, filters,
+ * collections and delete
+ * @since 2026-10-18
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@components/ui/Button';
+import { ResponsiveImage } from '@components/ui/ResponsiveImage';
+import { apiDelete, apiGet, apiPost, apiPut } from '@utils/api';
+import { trackEvent } from '@utils/analytics';
+import type { DesignCollection, DesignLibraryItem } from '../../../types/design';
+import type { DesignLibraryFilterState, DesignLibraryProps } from './DesignLibrary.types';
+
+/**
+ * Designs loaded per page
+ */
+const PAGE_SIZE = 24;
+
+/**
+ * Wait after the last keystroke before searching
+ */
+const SEARCH_DEBOUNCE_MS = 300;
+
+const STATUS_OPTIONS: Array<{ value: DesignLibraryFilterState['status']; label: string }> = [
+  { value: '', label: 'Any status' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'COMPLETED', label: 'Ready' },
+  { value: 'GENERATING', label: 'Generating' },
+  { value: 'FAILED', label: 'Failed' },
+];
+
+const EMPTY_FILTERS: DesignLibraryFilterState = { query: '', status: '', color: '' };
+
+/**
+ * @function buildLibraryQuery
+ * @description Query string for `GET /api/designs/mine`
+ *
+ * @param {DesignLibraryFilterState} filters - Current filters
+ * @param {string | null} collectionId - Collection being viewed
+ * @param {string | null} cursor - Cursor of the page to load
+ *
+ * @returns {string} Query string without the leading `?`
+ */
+function buildLibraryQuery(
+  filters: DesignLibraryFilterState,
+  collectionId: string | null,
+  cursor: string | null
+): string {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  if (filters.query.trim()) params.set('q', filters.query.trim());
+  if (filters.status === 'approved') params.set('approved', 'true');
+  else if (filters.status) params.set('status', filters.status);
+  if (filters.color) params.set('color', filters.color);
+  if (collectionId) params.set('collectionId', collectionId);
+  if (cursor) params.set('cursor', cursor);
+  return params.toString();
+}
+
+/**
+ * @component
+ * @description Lists the signed-in customer's designs from `GET /api/designs/mine`, newest first,
+ * independent of which order they were made on. Customers can search prompts, filter by status and
+ * shirt colour, browse and manage collections, add or remove designs from them, and delete designs
+ * they never want to see again (approved designs are kept with their order).
+ *
+ * @param {DesignLibraryProps} props - Component props
+ * @param {() => Promise<string | null>} props.getToken - Session token getter
+ *
+ * @returns {JSX.Element} Filters, collections and the design grid
+ *
+ * @example
+ * <DesignLibrary getToken={getToken} />
+ */
+export default function DesignLibrary({ getToken }: DesignLibraryProps): JSX.Element {
+  const [designs, setDesigns] = useState<DesignLibraryItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [collections, setCollections] = useState<DesignCollection[]>([]);
+  const [filters, setFilters] = useState<DesignLibraryFilterState>(EMPTY_FILTERS);
+  const [collectionId, setCollectionId] = useState<string | null>(null);
+  const [newCollectionName, setNewCollectionName] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [knownColors, setKnownColors] = useState<string[]>([]);
+
+  // Clerk hands out a new getter on some renders; loading shouldn't re-run because of it
+  const getTokenRef = useRef(getToken);
+  getTokenRef.current = getToken;
+
+  const loadCollections = useCallback(async () => {
+    try {
+      const token = await getTokenRef.current();
+      const response = await apiGet('/api/designs/collections', token);
+      setCollections(response.data || []);
+    } catch (err: unknown) {
+      console.warn('Design collections failed to load', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadCollections();
+  }, [loadCollections]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const token = await getTokenRef.current();
+        const response = await apiGet(
+          `/api/designs/mine?${buildLibraryQuery(filters, collectionId, null)}`,
+          token
+        );
+        if (cancelled) return;
+        const items: DesignLibraryItem[] = response.data || [];
+        setDesigns(items);
+        setNextCursor(response.meta?.nextCursor ?? null);
+        setError(null);
+        setKnownColors((current) => [
+          ...new Set([...current, ...items.flatMap((item) => item.order?.colors ?? [])]),
+        ]);
+        trackEvent('account.designs.loaded', {
+          design_count: items.length,
+          has_filters: Boolean(filters.query || filters.status || filters.color),
+          in_collection: Boolean(collectionId),
+        });
+      } catch (err: unknown) {
+        if (cancelled) return;
+        console.error('Error fetching designs:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load your designs');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [filters, collectionId]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const token = await getTokenRef.current();
+      const response = await apiGet(
+        `/api/designs/mine?${buildLibraryQuery(filters, collectionId, nextCursor)}`,
+        token
+      );
+      setDesigns((current) => [...current, ...(response.data || [])]);
+      setNextCursor(response.meta?.nextCursor ?? null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load more designs');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleCreateCollection = async () => {
+    const name = newCollectionName.trim();
+    if (!name) return;
+    try {
+      const token = await getTokenRef.current();
+      await apiPost('/api/designs/collections', { name }, token);
+      setNewCollectionName('');
+      trackEvent('account.collection.create', { name_length: name.length });
+      await loadCollections();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Could not create that collection');
+    }
+  };
+
+  const handleDeleteCollection = async (collection: DesignCollection) => {
+    try {
+      const token = await getTokenRef.current();
+      await apiDelete(`/api/designs/collections/${collection.id}`, token);
+      if (collectionId === collection.id) setCollectionId(null);
+      setDesigns((current) =>
+        current.map((design) => ({
+          ...design,
+          collectionIds: design.collectionIds.filter((id) => id !== collection.id),
+        }))
+      );
+      await loadCollections();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Could not delete that collection');
+    }
+  };
+
+  const handleCollectionChange = async (
+    design: DesignLibraryItem,
+    targetId: string,
+    add: boolean
+  ) => {
+    try {
+      const token = await getTokenRef.current();
+      const endpoint = `/api/designs/collections/${targetId}/designs/${design.id}`;
+      if (add) {
+        await apiPut(endpoint, {}, token);
+      } else {
+        await apiDelete(endpoint, token);
+      }
+      trackEvent(add ? 'account.collection.add_design' : 'account.collection.remove_design', {
+        design_id: design.id,
+        collection_id: targetId,
+      });
+      setDesigns((current) =>
+        current
+          .map((item) =>
+            item.id === design.id
+              ? {
+                  ...item,
+                  collectionIds: add
+                    ? [...new Set([...item.collectionIds, targetId])]
+                    : item.collectionIds.filter((id) => id !== targetId),
+                }
+              : item
+          )
+          // Removing a design from the collection being viewed takes it off the grid
+          .filter((item) => add || !collectionId || item.collectionIds.includes(collectionId))
+      );
+      await loadCollections();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Could not update that collection');
+    }
+  };
+
+  const handleDelete = async (design: DesignLibraryItem) => {
+    try {
+      const token = await getTokenRef.current();
+      await apiDelete(`/api/designs/${design.id}`, token);
+      trackEvent('account.design.delete', { design_id: design.id, order_id: design.orderId });
+      setDesigns((current) => current.filter((item) => item.id !== design.id));
+      setConfirmDeleteId(null);
+      if (design.collectionIds.length) await loadCollections();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Could not delete that design');
+    }
+  };
+
+  const collectionsById = useMemo(
+    () => new Map(collections.map((collection) => [collection.id, collection])),
+    [collections]
+  );
+  const activeCollection = collectionId ? collectionsById.get(collectionId) : undefined;
+  const hasFilters = Boolean(filters.query || filters.status || filters.color || collectionId);
+
+  const renderDesignCard = (design: DesignLibraryItem) => {
+    const otherCollections = collections.filter(
+      (collection) => !design.collectionIds.includes(collection.id)
+    );
+    return (
+      <div
+        key={design.id}
+        className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm dark:border-gray-700 dark:bg-gray-900"
+      >
+        <div className="flex h-40 items-center justify-center bg-gray-100 dark:bg-gray-800">
+          {design.imageUrl && design.moderationStatus !== 'REJECTED' ? (
+            <ResponsiveImage
+              image={design.image}
+              src={design.thumbnailUrl || design.imageUrl}
+              alt={design.prompt}
+              sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
+              className="h-36 w-full"
+              imgClassName="object-contain"
+            />
+          ) : (
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              {design.status === 'GENERATING'
+                ? 'Design preview coming soon'
+                : 'Preview not available'}
+            </div>
+          )}
+        </div>
+        <div className="space-y-2 px-3 py-2">
+          <p className="line-clamp-3 text-xs text-gray-700 dark:text-gray-300">{design.prompt}</p>
+          <p className="text-[11px] text-gray-500 dark:text-gray-400">
+            {new Date(design.createdAt).toLocaleDateString()}
+            {design.approvalStatus && ' · Approved'}
+            {design.order?.colors.length ? ` · ${design.order.colors.join(', ')}` : ''}
+          </p>
+          {design.collectionIds.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {design.collectionIds.map((id) => (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => handleCollectionChange(design, id, false)}
+                  title="Remove from collection"
+                  className="rounded-full bg-gray-100 px-2 py-0.5 text-[11px] text-gray-700 dark:bg-gray-800 dark:text-gray-300"
+                >
+                  {collectionsById.get(id)?.name ?? 'Collection'} ✕
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-2">
+            {design.orderId && (
+              <Link to={`/design?orderId=${design.orderId}`}>
+                <Button variant="primary" size="sm">
+                  Open
+                </Button>
+              </Link>
+            )}
+            {otherCollections.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => {
+                  if (e.target.value) handleCollectionChange(design, e.target.value, true);
+                }}
+                aria-label="Add to collection"
+                className="rounded border border-gray-300 bg-white px-2 py-1 text-xs text-gray-700 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-300"
+              >
+                <option value="">Add to…</option>
+                {otherCollections.map((collection) => (
+                  <option key={collection.id} value={collection.id}>
+                    {collection.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {!design.approvalStatus &&
+              (confirmDeleteId === design.id ? (
+                <span className="flex items-center gap-2 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(design)}
+                    className="font-semibold text-red-600 dark:text-red-400"
+                  >
+                    Delete for good
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setConfirmDeleteId(null)}
+                    className="text-gray-500 dark:text-gray-400"
+                  >
+                    Cancel
+                  </button>
+                </span>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setConfirmDeleteId(design.id)}
+                  className="text-xs text-gray-500 hover:text-red-600 dark:text-gray-400"
+                >
+                  Delete
+                </button>
+              ))}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <input
+          value={filters.query}
+          onChange={(e) => setFilters((current) => ({ ...current, query: e.target.value }))}
+          placeholder="Search your prompts"
+          aria-label="Search your designs"
+          className="focus:border-primary-500 focus:ring-primary-500 min-w-0 flex-1 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:ring-2 dark:border-gray-600 dark:bg-gray-900 dark:text-white"
+        />
+        <select
+          value={filters.status}
+          onChange={(e) =>
+            setFilters((current) => ({
+              ...current,
+              status: e.target.value as DesignLibraryFilterState['status'],
+            }))
+          }
+          aria-label="Status"
+          className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-700 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-300"
+        >
+          {STATUS_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {knownColors.length > 1 && (
+          <select
+            value={filters.color}
+            onChange={(e) => setFilters((current) => ({ ...current, color: e.target.value }))}
+            aria-label="Shirt colour"
+            className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-700 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-300"
+          >
+            <option value="">Any colour</option>
+            {knownColors.map((color) => (
+              <option key={color} value={color}>
+                {color}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant={collectionId ? 'secondary' : 'primary'}
+          size="sm"
+          onClick={() => setCollectionId(null)}
+        >
+          All designs
+        </Button>
+        {collections.map((collection) => (
+          <Button
+            key={collection.id}
+            variant={collectionId === collection.id ? 'primary' : 'secondary'}
+            size="sm"
+            onClick={() => setCollectionId(collection.id)}
+          >
+            {collection.name} ({collection.designCount})
+          </Button>
+        ))}
+        <span className="flex items-center gap-1">
+          <input
+            value={newCollectionName}
+            onChange={(e) => setNewCollectionName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleCreateCollection();
+              }
+            }}
+            maxLength={60}
+            placeholder="New collection"
+            aria-label="New collection name"
+            className="w-36 rounded-lg border border-gray-300 bg-white px-2 py-1 text-xs text-gray-900 dark:border-gray-600 dark:bg-gray-900 dark:text-white"
+          />
+          <button
+            type="button"
+            onClick={handleCreateCollection}
+            disabled={!newCollectionName.trim()}
+            className="text-primary-600 dark:text-primary-300 text-xs font-semibold disabled:opacity-50"
+          >
+            Add
+          </button>
+        </span>
+        {activeCollection && (
+          <button
+            type="button"
+            onClick={() => handleDeleteCollection(activeCollection)}
+            className="text-xs text-gray-500 hover:text-red-600 dark:text-gray-400"
+          >
+            Delete “{activeCollection.name}”
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800 dark:border-red-800 dark:bg-red-900/20 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="border-primary-600 h-12 w-12 animate-spin rounded-full border-b-2"></div>
+        </div>
+      ) : designs.length === 0 ? (
+        <div className="py-12 text-center">
+          <div className="mb-4 text-5xl">🛍️</div>
+          <h3 className="mb-2 text-xl font-semibold text-gray-900 dark:text-white">
+            {hasFilters ? 'No designs match' : 'No designs yet'}
+          </h3>
+          {hasFilters ? (
+            <p className="text-gray-600 dark:text-gray-400">Try a different search or filter.</p>
+          ) : (
+            <>
+              <p className="mb-6 text-gray-600 dark:text-gray-400">
+                Start a new preview to create your first one-of-one GPTee.
+              </p>
+              <Link to="/#quickstart">
+                <Button variant="primary">Start a new design</Button>
+              </Link>
+            </>
+          )}
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {designs.map(renderDesignCard)}
+          </div>
+          {nextCursor && (
+            <div className="flex justify-center">
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={handleLoadMore}
+                isDisabled={isLoadingMore}
+              >
+                {isLoadingMore ? 'Loading…' : 'Load more'}
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
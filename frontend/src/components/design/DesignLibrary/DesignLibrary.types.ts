@@ -0,0 +1,26 @@
+/**
+ * @module components/design/DesignLibrary/types
+ * @description Type definitions for the DesignLibrary component
+ * @since 2026-10-18
+ */
+
+import type { DesignStatus } from '../../../types/design';
+
+/**
+ * Props for the DesignLibrary component
+ * @interface DesignLibraryProps
+ */
+export interface DesignLibraryProps {
+  /** Returns the session token for `/api/designs/mine` and the collection endpoints */
+  getToken: () => Promise<string | null>;
+}
+
+/**
+ * Filters above the design grid; `approved` maps to `approved=true`, the rest to `status`
+ * @interface DesignLibraryFilterState
+ */
+export interface DesignLibraryFilterState {
+  query: string;
+  status: '' | 'approved' | Exclude<DesignStatus, 'APPROVED'>;
+  color: string;
+}
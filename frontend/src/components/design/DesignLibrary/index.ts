@@ -0,0 +1,7 @@
+/**
+ * @module components/design/DesignLibrary
+ * @description DesignLibrary component export
+ * @since 2026-10-18
+ */
+export { default as DesignLibrary } from './DesignLibrary';
+export type { DesignLibraryProps } from './DesignLibrary.types';
@@ -0,0 +1,154 @@
+/**
+ * @module components/design/DesignLineageTree
+ * @description Version tree for an order's designs with "branch from here" actions
+ * @since 2026-10-18
+ */
+
+import { Button } from '@components/ui/Button';
+import { DESIGN_LINEAGE_LABELS } from '@utils/designLineage';
+import type { DesignLineageTreeProps, DesignLineageVersionProps } from './DesignLineageTree.types';
+
+/**
+ * @function LineageVersion
+ * @description One version and, below it, the versions derived from it
+ *
+ * @param {DesignLineageVersionProps} props - Component props
+ * @param {DesignLineageTreeNode} props.node - Version to render
+ * @param {string} props.currentDesignId - Version the tree was opened from
+ * @param {boolean} props.canBranch - Whether branching is allowed
+ * @param {(node: DesignLineageNode) => void} props.onBranch - Branch callback
+ *
+ * @returns {JSX.Element} List item with nested children
+ */
+function LineageVersion({
+  node,
+  currentDesignId,
+  canBranch,
+  onBranch,
+}: DesignLineageVersionProps): JSX.Element {
+  const isCurrent = node.id === currentDesignId;
+
+  return (
+    <li className="relative">
+      <div
+        className={`flex items-start gap-3 rounded-lg p-2 ${
+          isCurrent ? 'bg-primary-50 dark:bg-primary-900/20' : ''
+        }`}
+      >
+        {node.imageUrl ? (
+          <img
+            src={node.thumbnailUrl || node.imageUrl}
+            alt={node.prompt}
+            className="h-12 w-12 flex-shrink-0 rounded bg-gray-100 object-contain dark:bg-gray-900"
+          />
+        ) : (
+          <div
+            className="h-12 w-12 flex-shrink-0 rounded bg-gray-100 dark:bg-gray-900"
+            aria-hidden="true"
+          />
+        )}
+        <div className="min-w-0 flex-1">
+          <p className="font-sans text-xs text-gray-500 dark:text-gray-400">
+            {DESIGN_LINEAGE_LABELS[node.relation]} · {new Date(node.createdAt).toLocaleString()}
+            {isCurrent && (
+              <span className="text-primary-600 dark:text-primary-300 font-semibold">
+                {' '}
+                · This version
+              </span>
+            )}
+          </p>
+          <p className="line-clamp-2 font-sans text-sm text-gray-900 dark:text-white">
+            {node.prompt}
+          </p>
+          {node.status === 'FAILED' && (
+            <p className="font-sans text-xs text-red-700 dark:text-red-400">
+              Couldn’t be generated
+            </p>
+          )}
+        </div>
+        {canBranch && node.isOwn && node.status !== 'GENERATING' && (
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => onBranch(node)}
+            className="flex-shrink-0"
+          >
+            Branch from here
+          </Button>
+        )}
+      </div>
+      {node.children.length > 0 && (
+        <ol className="ml-6 space-y-1 border-l border-gray-200 pl-3 dark:border-gray-700">
+          {node.children.map((child) => (
+            <LineageVersion
+              key={child.id}
+              node={child}
+              currentDesignId={currentDesignId}
+              canBranch={canBranch}
+              onBranch={onBranch}
+            />
+          ))}
+        </ol>
+      )}
+    </li>
+  );
+}
+
+/**
+ * @component
+ * @description Timeline of every version on an order, nested under the version it came from, so
+ * the customer can see which prompt tweak led where. Versions copied from another order are shown
+ * as a "started from" note above the tree.
+ *
+ * @param {DesignLineageTreeProps} props - Component props
+ * @param {DesignLineage} props.lineage - Lineage response for the design the tree was opened from
+ * @param {boolean} props.canBranch - Whether new versions can be generated on the order
+ * @param {(node: DesignLineageNode) => void} props.onBranch - Called when the customer branches
+ *
+ * @returns {JSX.Element} Rendered tree
+ *
+ * @example
+ * <DesignLineageTree
+ *   lineage={lineage}
+ *   canBranch={canGenerate && !hasReachedLimit}
+ *   onBranch={(node) => startBranch(node)}
+ * />
+ */
+export default function DesignLineageTree({
+  lineage,
+  canBranch,
+  onBranch,
+}: DesignLineageTreeProps): JSX.Element {
+  const earlierOrders = lineage.ancestors.filter((node) => node.orderId !== lineage.orderId);
+
+  return (
+    <div className="space-y-3">
+      {earlierOrders.length > 0 && (
+        <div className="rounded-lg bg-gray-50 p-3 dark:bg-gray-900/40">
+          <p className="mb-1 font-sans text-xs font-semibold text-gray-700 dark:text-gray-300">
+            Started from
+          </p>
+          {earlierOrders.map((node) => (
+            <p
+              key={node.id}
+              className="line-clamp-1 font-sans text-xs text-gray-600 dark:text-gray-400"
+            >
+              {node.isOwn ? 'Your earlier order' : 'A gallery design'}: “{node.prompt}”
+            </p>
+          ))}
+        </div>
+      )}
+      <ol className="space-y-1">
+        {lineage.tree.map((node) => (
+          <LineageVersion
+            key={node.id}
+            node={node}
+            currentDesignId={lineage.designId}
+            canBranch={canBranch}
+            onBranch={onBranch}
+          />
+        ))}
+      </ol>
+    </div>
+  );
+}
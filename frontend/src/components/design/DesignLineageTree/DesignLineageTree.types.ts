@@ -0,0 +1,39 @@
+/**
+ * @module components/design/DesignLineageTree/types
+ * @description Type definitions for the DesignLineageTree component
+ * @since 2026-10-18
+ */
+
+import type {
+  DesignLineage,
+  DesignLineageNode,
+  DesignLineageTreeNode,
+} from '../../../types/design';
+
+/**
+ * Props for the DesignLineageTree component
+ * @interface DesignLineageTreeProps
+ */
+export interface DesignLineageTreeProps {
+  /** Response of `GET /api/designs/:id/lineage` */
+  lineage: DesignLineage;
+  /** Whether new versions can be generated on the order (tier limit and order status) */
+  canBranch: boolean;
+  /** Called with the version the customer wants to branch from */
+  onBranch: (node: DesignLineageNode) => void;
+}
+
+/**
+ * Props for one version row in the tree
+ * @interface DesignLineageVersionProps
+ */
+export interface DesignLineageVersionProps {
+  /** Version to render, with its children */
+  node: DesignLineageTreeNode;
+  /** Version the tree was opened from; highlighted */
+  currentDesignId: string;
+  /** Whether branching is allowed */
+  canBranch: boolean;
+  /** Called with the version the customer wants to branch from */
+  onBranch: (node: DesignLineageNode) => void;
+}
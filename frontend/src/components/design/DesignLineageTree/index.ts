@@ -0,0 +1,7 @@
+/**
+ * @module components/design/DesignLineageTree
+ * @description DesignLineageTree component export
+ * @since 2026-10-18
+ */
+export { default as DesignLineageTree } from './DesignLineageTree';
+export type { DesignLineageTreeProps } from './DesignLineageTree.types';
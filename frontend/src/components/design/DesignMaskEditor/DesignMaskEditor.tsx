@@ -0,0 +1,247 @@
+/**
+ * @module components/design/DesignMaskEditor
+ * @description Canvas editor for painting the area of a design to change (inpainting mask)
+ * @since 2026-10-18
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import { Button } from '@components/ui/Button';
+import { Modal } from '@components/ui/Modal';
+import type { DesignMaskEditorProps } from './DesignMaskEditor.types';
+
+const MIN_BRUSH_SIZE = 16;
+const MAX_BRUSH_SIZE = 160;
+const DEFAULT_BRUSH_SIZE = 64;
+const MAX_INSTRUCTION_LENGTH = 500;
+// Strokes are painted opaque so the exported mask is fully transparent under them; the canvas
+// element itself is shown semi-transparent
+const PAINT_COLOR = 'rgb(236, 72, 153)';
+
+/**
+ * @function buildMaskDataUrl
+ * @description Converts the painted overlay into the provider mask format: an opaque PNG with
+ * fully transparent pixels wherever the customer painted.
+ *
+ * @param {HTMLCanvasElement} paintCanvas - Canvas holding the painted strokes
+ * @returns {string} PNG data URL
+ */
+function buildMaskDataUrl(paintCanvas: HTMLCanvasElement): string {
+  const mask = document.createElement('canvas');
+  mask.width = paintCanvas.width;
+  mask.height = paintCanvas.height;
+  const ctx = mask.getContext('2d');
+  if (!ctx) return '';
+
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, mask.width, mask.height);
+  ctx.globalCompositeOperation = 'destination-out';
+  ctx.drawImage(paintCanvas, 0, 0);
+  return mask.toDataURL('image/png');
+}
+
+/**
+ * @component
+ * @description Modal that overlays a paint canvas on a finished design. The customer brushes over
+ * the part to change, describes the change, and the editor hands back an instruction plus a mask
+ * sized to the image's natural dimensions. The design image itself is never drawn to a canvas, so
+ * cross-origin storage URLs don't taint the export.
+ *
+ * @param {DesignMaskEditorProps} props - Component props
+ * @param {Design} props.design - Finished design being edited
+ * @param {boolean} props.isOpen - Controls modal visibility
+ * @param {boolean} [props.isSubmitting] - Whether the edit request is in flight
+ * @param {() => void} props.onClose - Callback to close the editor
+ * @param {(edit: DesignMaskEdit) => void} props.onSubmit - Receives instruction and mask
+ *
+ * @returns {JSX.Element} Rendered modal
+ *
+ * @example
+ * <DesignMaskEditor
+ *   design={editingDesign}
+ *   isOpen={!!editingDesign}
+ *   onClose={() => setEditingDesign(null)}
+ *   onSubmit={({ instruction, mask }) => submitEdit(editingDesign.id, instruction, mask)}
+ * />
+ */
+export default function DesignMaskEditor({
+  design,
+  isOpen,
+  isSubmitting = false,
+  onClose,
+  onSubmit,
+}: DesignMaskEditorProps): JSX.Element {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isPaintingRef = useRef(false);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [brushSize, setBrushSize] = useState(DEFAULT_BRUSH_SIZE);
+  const [instruction, setInstruction] = useState('');
+  const [hasPainted, setHasPainted] = useState(false);
+
+  const imageSrc = design.imageUrl;
+
+  useEffect(() => {
+    setNaturalSize(null);
+    setInstruction('');
+    setHasPainted(false);
+  }, [design.id]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !naturalSize) return;
+    canvas.width = naturalSize.width;
+    canvas.height = naturalSize.height;
+  }, [naturalSize]);
+
+  const toCanvasPoint = (event: ReactPointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((event.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const paintTo = (point: { x: number; y: number }) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const from = lastPointRef.current ?? point;
+    ctx.strokeStyle = PAINT_COLOR;
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+
+    lastPointRef.current = point;
+    setHasPainted(true);
+  };
+
+  const handlePointerDown = (event: ReactPointerEvent<HTMLCanvasElement>) => {
+    if (isSubmitting) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    isPaintingRef.current = true;
+    lastPointRef.current = null;
+    paintTo(toCanvasPoint(event));
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<HTMLCanvasElement>) => {
+    if (!isPaintingRef.current) return;
+    paintTo(toCanvasPoint(event));
+  };
+
+  const handlePointerUp = () => {
+    isPaintingRef.current = false;
+    lastPointRef.current = null;
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasPainted(false);
+  };
+
+  const handleSubmit = () => {
+    const canvas = canvasRef.current;
+    const trimmed = instruction.trim();
+    if (!canvas || !hasPainted || !trimmed) return;
+    onSubmit({ instruction: trimmed, mask: buildMaskDataUrl(canvas) });
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={isSubmitting ? undefined : onClose}
+      title="Edit part of this design"
+      size="lg"
+      footer={
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" size="sm" onClick={onClose} isDisabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            size="sm"
+            onClick={handleSubmit}
+            isDisabled={isSubmitting || !hasPainted || !instruction.trim()}
+          >
+            {isSubmitting ? 'Starting edit...' : 'Apply edit'}
+          </Button>
+        </div>
+      }
+    >
+      <p className="mb-3 font-sans text-sm text-gray-600 dark:text-gray-400">
+        Paint over the area you want to change, then describe the change. Everything you don't paint
+        stays as it is. The edit is saved as a new draft.
+      </p>
+
+      <div className="relative mx-auto mb-4 w-full max-w-md bg-gray-100 dark:bg-gray-900">
+        <img
+          src={imageSrc}
+          alt={design.prompt}
+          className="block h-auto w-full select-none"
+          draggable={false}
+          onLoad={(event) =>
+            setNaturalSize({
+              width: event.currentTarget.naturalWidth,
+              height: event.currentTarget.naturalHeight,
+            })
+          }
+        />
+        {naturalSize && (
+          <canvas
+            ref={canvasRef}
+            className="absolute inset-0 h-full w-full cursor-crosshair touch-none opacity-60"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerLeave={handlePointerUp}
+            aria-label="Paint the area to change"
+          />
+        )}
+      </div>
+
+      <div className="mb-4 flex items-center gap-3">
+        <label
+          htmlFor="mask-brush-size"
+          className="font-sans text-sm font-medium text-gray-700 dark:text-gray-300"
+        >
+          Brush
+        </label>
+        <input
+          id="mask-brush-size"
+          type="range"
+          min={MIN_BRUSH_SIZE}
+          max={MAX_BRUSH_SIZE}
+          value={brushSize}
+          onChange={(event) => setBrushSize(Number(event.target.value))}
+          className="flex-1"
+        />
+        <Button variant="secondary" size="sm" onClick={handleClear} isDisabled={!hasPainted}>
+          Clear
+        </Button>
+      </div>
+
+      <label
+        htmlFor="mask-instruction"
+        className="mb-2 block font-sans text-sm font-medium text-gray-700 dark:text-gray-300"
+      >
+        What should change?
+      </label>
+      <textarea
+        id="mask-instruction"
+        rows={3}
+        maxLength={MAX_INSTRUCTION_LENGTH}
+        value={instruction}
+        onChange={(event) => setInstruction(event.target.value)}
+        placeholder="e.g., replace the sun with a crescent moon"
+        disabled={isSubmitting}
+        className="focus:ring-primary-500 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 font-sans text-gray-900 focus:border-transparent focus:ring-2 disabled:opacity-50 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+      />
+    </Modal>
+  );
+}
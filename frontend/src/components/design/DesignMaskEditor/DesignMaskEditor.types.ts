@@ -0,0 +1,35 @@
+/**
+ * @module components/design/DesignMaskEditor/types
+ * @description Type definitions for the DesignMaskEditor component
+ * @since 2026-10-18
+ */
+
+import type { Design } from '../../../types/design';
+
+/**
+ * Payload produced by the editor for `POST /api/designs/:id/edit`
+ * @interface DesignMaskEdit
+ */
+export interface DesignMaskEdit {
+  /** What to change inside the painted area */
+  instruction: string;
+  /** PNG data URL at the image's natural size, transparent where the customer painted */
+  mask: string;
+}
+
+/**
+ * Props for the DesignMaskEditor component
+ * @interface DesignMaskEditorProps
+ */
+export interface DesignMaskEditorProps {
+  /** Finished design being edited */
+  design: Design;
+  /** Controls whether the editor is visible */
+  isOpen: boolean;
+  /** Whether the edit request is in flight */
+  isSubmitting?: boolean;
+  /** Callback to close the editor */
+  onClose: () => void;
+  /** Called with the instruction and mask when the customer applies the edit */
+  onSubmit: (edit: DesignMaskEdit) => void;
+}
@@ -0,0 +1,7 @@
+/**
+ * @module components/design/DesignMaskEditor
+ * @description DesignMaskEditor component export
+ * @since 2026-10-18
+ */
+export { default as DesignMaskEditor } from './DesignMaskEditor';
+export type { DesignMaskEdit, DesignMaskEditorProps } from './DesignMaskEditor.types';
@@ -0,0 +1,231 @@
+/**
+ * @module components/design/DesignRefinementThread
+ * @description Chat-style refinement thread: short change requests, the merged prompt to confirm, and the versions they produced
+ * @since 2026-10-18
+ */
+
+import { useEffect, useState } from 'react';
+import { Button } from '@components/ui/Button';
+import type { Design, DesignRefinement } from '../../../types/design';
+import type { DesignRefinementThreadProps } from './DesignRefinementThread.types';
+
+/**
+ * Matches the server-side instruction limit
+ */
+const MAX_INSTRUCTION_LENGTH = 300;
+
+/**
+ * @function DesignThumb
+ * @description Small preview of a design referenced in the thread
+ *
+ * @param {Object} props - Component props
+ * @param {Design} props.design - Design to show
+ *
+ * @returns {JSX.Element} Thumbnail, or a placeholder while it generates
+ */
+function DesignThumb({ design }: { design: Design }): JSX.Element {
+  if (!design.imageUrl) {
+    return (
+      <div
+        className="h-12 w-12 flex-shrink-0 animate-pulse rounded bg-gray-100 dark:bg-gray-900"
+        aria-label="Generating"
+      />
+    );
+  }
+
+  return (
+    <img
+      src={design.thumbnailUrl || design.imageUrl}
+      alt={design.prompt}
+      className="h-12 w-12 flex-shrink-0 rounded bg-gray-100 object-contain dark:bg-gray-900"
+    />
+  );
+}
+
+/**
+ * @component
+ * @description Lets the customer iterate on a design conversationally. Each instruction ("make the
+ * dragon blue") becomes a proposed full prompt the customer can edit, generate or discard; confirmed
+ * entries show the versions they generated. Only the latest proposal can be confirmed.
+ *
+ * @param {DesignRefinementThreadProps} props - Component props
+ * @param {DesignRefinement[]} props.thread - Thread entries, oldest first
+ * @param {Design[]} props.designs - Order designs
+ * @param {Design | null} props.sourceDesign - Design the next instruction applies to
+ * @param {boolean} props.canRefine - Whether new versions can be generated
+ * @param {boolean} props.isProposing - Whether an instruction is being merged
+ * @param {string | null} props.busyRefinementId - Refinement being confirmed or discarded
+ * @param {(instruction: string) => Promise<boolean>} props.onPropose - Send an instruction
+ * @param {(refinement: DesignRefinement, prompt: string) => void} props.onConfirm - Generate a proposal
+ * @param {(refinement: DesignRefinement) => void} props.onDiscard - Drop a proposal
+ *
+ * @returns {JSX.Element} Thread and instruction input
+ *
+ * @example
+ * <DesignRefinementThread
+ *   thread={refinements}
+ *   designs={designs}
+ *   sourceDesign={refineSource}
+ *   canRefine={canGenerate && !hasReachedLimit}
+ *   isProposing={isProposingRefinement}
+ *   busyRefinementId={busyRefinementId}
+ *   onPropose={handleProposeRefinement}
+ *   onConfirm={handleConfirmRefinement}
+ *   onDiscard={handleDiscardRefinement}
+ * />
+ */
+export default function DesignRefinementThread({
+  thread,
+  designs,
+  sourceDesign,
+  canRefine,
+  isProposing,
+  busyRefinementId,
+  onPropose,
+  onConfirm,
+  onDiscard,
+}: DesignRefinementThreadProps): JSX.Element {
+  const [instruction, setInstruction] = useState('');
+  const [draftPrompt, setDraftPrompt] = useState('');
+  const proposal = thread.find((entry) => entry.status === 'PROPOSED') ?? null;
+
+  useEffect(() => {
+    setDraftPrompt(proposal?.mergedPrompt ?? '');
+  }, [proposal?.id, proposal?.mergedPrompt]);
+
+  const designsById = new Map(designs.map((design) => [design.id, design]));
+
+  const handleSubmit = async () => {
+    const text = instruction.trim();
+    if (!text) return;
+    if (await onPropose(text)) {
+      setInstruction('');
+    }
+  };
+
+  const renderReply = (entry: DesignRefinement) => {
+    if (entry.status === 'PROPOSED') {
+      const isBusy = busyRefinementId === entry.id;
+      return (
+        <div className="space-y-2">
+          <p className="font-sans text-xs text-gray-500 dark:text-gray-400">
+            Here&apos;s the updated prompt. Tweak it if you like, then create the next version.
+          </p>
+          <textarea
+            value={draftPrompt}
+            onChange={(e) => setDraftPrompt(e.target.value)}
+            rows={4}
+            className="focus:border-primary-500 focus:ring-primary-500 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 font-sans text-sm text-gray-900 focus:ring-2 dark:border-gray-600 dark:bg-gray-900 dark:text-white"
+          />
+          <div className="flex gap-2">
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={() => onConfirm(entry, draftPrompt.trim())}
+              isDisabled={!canRefine || isBusy || !draftPrompt.trim()}
+            >
+              {isBusy ? 'Working…' : 'Create this version'}
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => onDiscard(entry)}
+              isDisabled={isBusy}
+            >
+              Discard
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (entry.status === 'DISCARDED') {
+      return (
+        <p className="font-sans text-sm text-gray-400 line-through dark:text-gray-500">
+          {entry.mergedPrompt}
+        </p>
+      );
+    }
+
+    const results = designs.filter((design) => entry.batchId && design.batchId === entry.batchId);
+    return (
+      <div className="space-y-2">
+        <p className="font-sans text-sm text-gray-900 dark:text-white">
+          {entry.finalPrompt || entry.mergedPrompt}
+        </p>
+        {results.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {results.map((design) => (
+              <DesignThumb key={design.id} design={design} />
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {thread.length > 0 && (
+        <ol className="space-y-3">
+          {thread.map((entry) => {
+            const source = entry.sourceDesignId ? designsById.get(entry.sourceDesignId) : undefined;
+            return (
+              <li key={entry.id} className="space-y-2">
+                <div className="bg-primary-50 dark:bg-primary-900/20 ml-8 flex items-start gap-2 rounded-lg p-3">
+                  {source && <DesignThumb design={source} />}
+                  <p className="font-sans text-sm text-gray-900 dark:text-white">
+                    {entry.instruction}
+                  </p>
+                </div>
+                <div className="mr-8 rounded-lg bg-gray-50 p-3 dark:bg-gray-900/40">
+                  {renderReply(entry)}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {sourceDesign ? (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <DesignThumb design={sourceDesign} />
+            <p className="line-clamp-2 font-sans text-xs text-gray-500 dark:text-gray-400">
+              Refining: {sourceDesign.prompt}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleSubmit();
+                }
+              }}
+              maxLength={MAX_INSTRUCTION_LENGTH}
+              disabled={!canRefine || isProposing}
+              placeholder="e.g. make the dragon blue"
+              aria-label="What should change?"
+              className="focus:border-primary-500 focus:ring-primary-500 min-w-0 flex-1 rounded-lg border border-gray-300 bg-white px-3 py-2 font-sans text-sm text-gray-900 focus:ring-2 disabled:opacity-50 dark:border-gray-600 dark:bg-gray-900 dark:text-white"
+            />
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={handleSubmit}
+              isDisabled={!canRefine || isProposing || !instruction.trim()}
+            >
+              {isProposing ? 'Thinking…' : 'Send'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="font-sans text-xs text-gray-500 dark:text-gray-400">
+          Once a draft is ready, describe a change here and we&apos;ll update its prompt for you.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * @module components/design/DesignRefinementThread/types
+ * @description Type definitions for the DesignRefinementThread component
+ * @since 2026-10-18
+ */
+
+import type { Design, DesignRefinement } from '../../../types/design';
+
+/**
+ * Props for the DesignRefinementThread component
+ * @interface DesignRefinementThreadProps
+ */
+export interface DesignRefinementThreadProps {
+  /** Response of `GET /api/designs/refinements`, oldest first */
+  thread: DesignRefinement[];
+  /** Order designs, used to show each refinement's source and results */
+  designs: Design[];
+  /** Design the next instruction applies to; null when nothing can be refined yet */
+  sourceDesign: Design | null;
+  /** Whether new versions can be generated on the order (tier limit and order status) */
+  canRefine: boolean;
+  /** Whether an instruction is being merged */
+  isProposing: boolean;
+  /** Refinement being confirmed or discarded, if any */
+  busyRefinementId: string | null;
+  /** Sends an instruction; resolves true when it was accepted so the input can be cleared */
+  onPropose: (instruction: string) => Promise<boolean>;
+  /** Generates a proposal with the (possibly edited) prompt */
+  onConfirm: (refinement: DesignRefinement, prompt: string) => void;
+  /** Drops a proposal */
+  onDiscard: (refinement: DesignRefinement) => void;
+}
@@ -0,0 +1,7 @@
+/**
+ * @module components/design/DesignRefinementThread
+ * @description DesignRefinementThread component export
+ * @since 2026-10-18
+ */
+export { default as DesignRefinementThread } from './DesignRefinementThread';
+export type { DesignRefinementThreadProps } from './DesignRefinementThread.types';
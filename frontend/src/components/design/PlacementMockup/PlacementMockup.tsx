@@ -0,0 +1,68 @@
+/**
+ * @module components/design/PlacementMockup
+ * @description Shirt mockup with a design drawn at its print placement
+ * @since 2026-10-18
+ */
+
+import { useState } from 'react';
+import {
+  fitPrintBox,
+  getMockupBoxStyle,
+  getMockupImage,
+  getPresetBox,
+} from '@utils/printPlacement';
+import type { PlacementMockupProps } from './PlacementMockup.types';
+
+/**
+ * @component
+ * @description Square shirt mockup for a colour with the design placed where it will print. The
+ * design's aspect ratio is read from the image once it loads, so tall art and text bands sit the
+ * same way the server fits them.
+ *
+ * @param {PlacementMockupProps} props - Component props
+ * @param {string} props.imageUrl - Image that prints
+ * @param {string} props.color - Shirt colour name
+ * @param {string} [props.colorHex] - Fallback colour when there is no mockup
+ * @param {PrintPlacementBox | null} [props.box] - Stored print box (default: full front)
+ * @param {string} [props.alt] - Alt text for the design
+ * @param {string} [props.className] - Extra wrapper classes
+ *
+ * @returns {JSX.Element} Mockup
+ *
+ * @example
+ * <PlacementMockup imageUrl={getPrintPreviewUrl(design)} color="Black" box={readItemPlacement(item)} />
+ */
+export default function PlacementMockup({
+  imageUrl,
+  color,
+  colorHex,
+  box,
+  alt = '',
+  className = '',
+}: PlacementMockupProps): JSX.Element {
+  const [aspect, setAspect] = useState(1);
+  const mockup = getMockupImage(color);
+  const fitted = fitPrintBox(box ?? getPresetBox('full-front'), aspect);
+
+  return (
+    <div
+      className={`relative aspect-square w-full overflow-hidden ${className}`}
+      style={
+        mockup
+          ? { backgroundImage: `url(${mockup})`, backgroundSize: 'cover' }
+          : { backgroundColor: colorHex }
+      }
+    >
+      <img
+        src={imageUrl}
+        alt={alt}
+        className="absolute object-contain"
+        style={getMockupBoxStyle(fitted)}
+        onLoad={(event) => {
+          const { naturalWidth, naturalHeight } = event.currentTarget;
+          if (naturalWidth && naturalHeight) setAspect(naturalHeight / naturalWidth);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+/**
+ * @module components/design/PlacementMockup/types
+ * @description Type definitions for the PlacementMockup component
+ * @since 2026-10-18
+ */
+
+import type { PrintPlacementBox } from '../../../types/order';
+
+/**
+ * Props for the PlacementMockup component
+ * @interface PlacementMockupProps
+ */
+export interface PlacementMockupProps {
+  /** Image that prints (see `getPrintPreviewUrl`) */
+  imageUrl: string;
+  /** Shirt colour name, used to pick the mockup */
+  color: string;
+  /** Shirt colour code, shown when there is no mockup for the colour */
+  colorHex?: string;
+  /** Stored print box; null or undefined shows Printful's default (full front) */
+  box?: PrintPlacementBox | null;
+  /** Alt text for the design */
+  alt?: string;
+  /** Optional extra classes for the wrapper */
+  className?: string;
+}
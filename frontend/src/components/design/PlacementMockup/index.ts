@@ -0,0 +1,7 @@
+/**
+ * @module components/design/PlacementMockup
+ * @description PlacementMockup component export
+ * @since 2026-10-18
+ */
+export { default as PlacementMockup } from './PlacementMockup';
+export type { PlacementMockupProps } from './PlacementMockup.types';
@@ -0,0 +1,77 @@
+/**
+ * @module components/design/PlacementTabs
+ * @description Tabs for switching the studio between an order's print locations
+ * @since 2026-10-18
+ */
+
+import { getPlacementLabel } from '@utils/printPlacement';
+import type { PlacementTabsProps } from './PlacementTabs.types';
+
+/**
+ * @component
+ * @description One tab per print location (front, back, sleeve, inside label). New designs are
+ * generated for the active tab and only its designs are listed; a check mark shows which
+ * placements already have an approved design.
+ *
+ * @param {PlacementTabsProps} props - Component props
+ * @param {DesignPlacement[]} props.placements - Print locations, front first
+ * @param {DesignPlacement} props.active - Tab being shown
+ * @param {DesignPlacement[]} props.approved - Placements with an approved design
+ * @param {Partial<Record<DesignPlacement, number>>} props.counts - Designs per placement
+ * @param {(placement: DesignPlacement) => void} props.onChange - Switch tabs
+ *
+ * @returns {JSX.Element} Tab list
+ *
+ * @example
+ * <PlacementTabs
+ *   placements={orderPlacements}
+ *   active={activePlacement}
+ *   approved={approvedPlacements}
+ *   counts={placementCounts}
+ *   onChange={setActivePlacement}
+ * />
+ */
+export default function PlacementTabs({
+  placements,
+  active,
+  approved,
+  counts,
+  onChange,
+}: PlacementTabsProps): JSX.Element {
+  return (
+    <div
+      role="tablist"
+      aria-label="Print locations"
+      className="flex flex-wrap gap-2 border-b border-gray-200 dark:border-gray-700"
+    >
+      {placements.map((placement) => {
+        const isActive = placement === active;
+        const isApproved = approved.includes(placement);
+        return (
+          <button
+            key={placement}
+            type="button"
+            role="tab"
+            aria-selected={isActive}
+            onClick={() => onChange(placement)}
+            className={`-mb-px border-b-2 px-3 py-2 font-sans text-sm ${
+              isActive
+                ? 'border-primary-500 text-primary-600 dark:text-primary-300 font-semibold'
+                : 'border-transparent text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white'
+            }`}
+          >
+            {getPlacementLabel(placement)}
+            <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">
+              ({counts[placement] ?? 0})
+            </span>
+            {isApproved && (
+              <span className="ml-1 text-green-600 dark:text-green-400" aria-label="approved">
+                ✓
+              </span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+/**
+ * @module components/design/PlacementTabs/types
+ * @description Type definitions for the PlacementTabs component
+ * @since 2026-10-18
+ */
+
+import type { DesignPlacement } from '../../../types/design';
+
+/**
+ * Props for the PlacementTabs component
+ * @interface PlacementTabsProps
+ */
+export interface PlacementTabsProps {
+  /** Print locations the order uses, front first */
+  placements: DesignPlacement[];
+  /** Tab being shown */
+  active: DesignPlacement;
+  /** Placements that already have an approved design */
+  approved: DesignPlacement[];
+  /** Number of designs per placement */
+  counts: Partial<Record<DesignPlacement, number>>;
+  /** Switch to another placement */
+  onChange: (placement: DesignPlacement) => void;
+}
@@ -0,0 +1,7 @@
+/**
+ * @module components/design/PlacementTabs
+ * @description PlacementTabs component export
+ * @since 2026-10-18
+ */
+export { default as PlacementTabs } from './PlacementTabs';
+export type { PlacementTabsProps } from './PlacementTabs.types';
@@ -0,0 +1,94 @@
+/**
+ * @module components/design/PrintCheckWarnings
+ * @description Print-readiness score and warnings shown next to the Approve button
+ * @since 2026-10-18
+ */
+
+import type { PrintCheckSeverity } from '../../../types/design';
+import type { PrintCheckWarningsProps } from './PrintCheckWarnings.types';
+
+const SEVERITY_STYLES: Record<PrintCheckSeverity, { label: string; className: string }> = {
+  critical: {
+    label: 'Fix before printing',
+    className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+  },
+  warning: {
+    label: 'Heads up',
+    className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300',
+  },
+  info: {
+    label: 'Note',
+    className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  },
+};
+
+/**
+ * @component
+ * @description Shows how a design will print on the selected shirt colour: a 0-100 score and
+ * each problem the print check found, most severe first. Renders nothing when the check failed
+ * so approval is never blocked by it.
+ *
+ * @param {PrintCheckWarningsProps} props - Component props
+ * @param {PrintCheckState} [props.check] - Check state for the design
+ * @param {string} [props.className] - Extra wrapper classes
+ *
+ * @returns {JSX.Element | null} Score and warnings
+ *
+ * @example
+ * <PrintCheckWarnings check={printChecks[design.id]} className="mb-3" />
+ */
+export default function PrintCheckWarnings({
+  check,
+  className = '',
+}: PrintCheckWarningsProps): JSX.Element | null {
+  if (!check) return null;
+
+  if (check.loading) {
+    return (
+      <p className={`font-sans text-xs text-gray-500 dark:text-gray-400 ${className}`}>
+        Checking how this prints on {check.color}…
+      </p>
+    );
+  }
+
+  const { result } = check;
+  if (!result) return null;
+
+  if (!result.warnings.length) {
+    return (
+      <p className={`font-sans text-xs text-green-700 dark:text-green-400 ${className}`}>
+        Print check: looks great on {result.color} ({result.score}/100)
+      </p>
+    );
+  }
+
+  return (
+    <div
+      className={`rounded-lg border p-3 ${
+        result.ready
+          ? 'border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-900/20'
+          : 'border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20'
+      } ${className}`}
+    >
+      <p className="mb-2 font-sans text-xs font-semibold text-gray-900 dark:text-white">
+        Print check on {result.color}: {result.score}/100
+      </p>
+      <ul className="space-y-2">
+        {result.warnings.map((warning) => (
+          <li key={warning.code} className="flex items-start gap-2">
+            <span
+              className={`flex-shrink-0 rounded px-1.5 py-0.5 font-sans text-[10px] font-semibold ${
+                SEVERITY_STYLES[warning.severity].className
+              }`}
+            >
+              {SEVERITY_STYLES[warning.severity].label}
+            </span>
+            <span className="font-sans text-xs text-gray-700 dark:text-gray-300">
+              {warning.message}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+/**
+ * @module components/design/PrintCheckWarnings/types
+ * @description Type definitions for the PrintCheckWarnings component
+ * @since 2026-10-18
+ */
+
+import type { PrintCheckState } from '../../../types/design';
+
+/**
+ * Props for the PrintCheckWarnings component
+ * @interface PrintCheckWarningsProps
+ */
+export interface PrintCheckWarningsProps {
+  /** Check for the design from `usePrintChecks`; nothing renders while undefined */
+  check?: PrintCheckState;
+  /** Optional extra classes for the wrapper */
+  className?: string;
+}
@@ -0,0 +1,7 @@
+/**
+ * @module components/design/PrintCheckWarnings
+ * @description PrintCheckWarnings component export
+ * @since 2026-10-18
+ */
+export { default as PrintCheckWarnings } from './PrintCheckWarnings';
+export type { PrintCheckWarningsProps } from './PrintCheckWarnings.types';
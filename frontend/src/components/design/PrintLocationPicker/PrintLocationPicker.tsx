@@ -0,0 +1,73 @@
+/**
+ * @module components/design/PrintLocationPicker
+ * @description Toggles for the extra places a tee prints on
+ * @since 2026-10-18
+ */
+
+import { EXTRA_PLACEMENTS } from '@utils/printPlacement';
+import type { PrintLocationPickerProps } from './PrintLocationPicker.types';
+
+/**
+ * @component
+ * @description The front always prints; each toggle adds the back, left sleeve or inside label at
+ * its listed price per tee. Every added location gets its own tab in the studio and needs its own
+ * approved design before the order prints.
+ *
+ * @param {PrintLocationPickerProps} props - Component props
+ * @param {ExtraPrintPlacement[]} props.selected - Extra placements on the item
+ * @param {Partial<Record<ExtraPrintPlacement, number>>} [props.prices] - Price per placement
+ * @param {boolean} [props.isSaving] - Whether the change request is in flight
+ * @param {(placements: ExtraPrintPlacement[]) => void} props.onChange - Save the new list
+ *
+ * @returns {JSX.Element} Print location toggles
+ *
+ * @example
+ * <PrintLocationPicker
+ *   selected={extraPlacements}
+ *   prices={product.placementPricing}
+ *   isSaving={isSavingLocations}
+ *   onChange={handleSaveLocations}
+ * />
+ */
+export default function PrintLocationPicker({
+  selected,
+  prices,
+  isSaving = false,
+  onChange,
+}: PrintLocationPickerProps): JSX.Element {
+  const toggle = (key: (typeof EXTRA_PLACEMENTS)[number]['key']) => {
+    onChange(selected.includes(key) ? selected.filter((item) => item !== key) : [...selected, key]);
+  };
+
+  return (
+    <div>
+      <p className="mb-2 text-xs font-semibold text-gray-700 dark:text-gray-300">Print locations</p>
+      <div className="flex flex-wrap gap-2 text-xs">
+        <span className="border-primary-600 bg-primary-50 dark:bg-primary-900/20 text-primary-700 dark:text-primary-200 rounded-full border px-3 py-2">
+          Front (included)
+        </span>
+        {EXTRA_PLACEMENTS.map(({ key, label }) => {
+          const isSelected = selected.includes(key);
+          const price = prices?.[key];
+          return (
+            <button
+              key={key}
+              type="button"
+              onClick={() => toggle(key)}
+              disabled={isSaving}
+              aria-pressed={isSelected}
+              className={`cursor-pointer rounded-full border px-3 py-2 transition-colors disabled:cursor-wait disabled:opacity-60 ${
+                isSelected
+                  ? 'border-primary-600 bg-primary-50 dark:bg-primary-900/20 text-primary-700 dark:text-primary-200'
+                  : 'border-gray-300 text-gray-700 dark:border-gray-600 dark:text-gray-200'
+              }`}
+            >
+              {label}
+              {price !== undefined && ` +$${price.toFixed(2)}`}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+/**
+ * @module components/design/PrintLocationPicker/types
+ * @description Type definitions for the PrintLocationPicker component
+ * @since 2026-10-18
+ */
+
+import type { ExtraPrintPlacement } from '../../../types/design';
+
+/**
+ * Props for the PrintLocationPicker component
+ * @interface PrintLocationPickerProps
+ */
+export interface PrintLocationPickerProps {
+  /** Extra placements currently on the item */
+  selected: ExtraPrintPlacement[];
+  /** Price in dollars per extra placement, from the product's `placementPricing` */
+  prices?: Partial<Record<ExtraPrintPlacement, number>>;
+  /** Whether the change request is in flight */
+  isSaving?: boolean;
+  /** Save the new list of extra placements */
+  onChange: (placements: ExtraPrintPlacement[]) => void;
+}
@@ -0,0 +1,7 @@
+/**
+ * @module components/design/PrintLocationPicker
+ * @description PrintLocationPicker component export
+ * @since 2026-10-18
+ */
+export { default as PrintLocationPicker } from './PrintLocationPicker';
+export type { PrintLocationPickerProps } from './PrintLocationPicker.types';
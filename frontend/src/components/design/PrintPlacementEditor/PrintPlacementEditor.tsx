@@ -0,0 +1,288 @@
+/**
+ * @module components/design/PrintPlacementEditor
+ * @description Drag-and-resize editor for where a design prints on the shirt
+ * @since 2026-10-18
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { KeyboardEvent, PointerEvent } from 'react';
+import { Button } from '@components/ui/Button';
+import { Modal } from '@components/ui/Modal';
+import { getPrintPreviewUrl } from '@utils/designPrint';
+import {
+  MIN_PRINT_WIDTH_IN,
+  MOCKUP_PRINT_AREA,
+  PLACEMENT_PRESETS,
+  PRINT_AREA_IN,
+  clampPlacementBox,
+  describePlacement,
+  fitPrintBox,
+  getMockupBoxStyle,
+  getMockupImage,
+  getPresetBox,
+  readItemPlacement,
+} from '@utils/printPlacement';
+import type { PrintPlacementBox, PrintPlacementPreset } from '../../../types/order';
+import type { PlacementDragState, PrintPlacementEditorProps } from './PrintPlacementEditor.types';
+
+// Arrow-key nudge, in inches
+const NUDGE_IN = 0.25;
+
+/**
+ * @function chipClass
+ * @description Classes for a toggle chip
+ *
+ * @param {boolean} active - Whether the chip is selected
+ * @returns {string} Tailwind classes
+ */
+function chipClass(active: boolean): string {
+  return `rounded-full border px-3 py-1 font-sans text-xs ${
+    active
+      ? 'border-primary-500 text-primary-600 dark:text-primary-300'
+      : 'border-gray-300 text-gray-600 dark:border-gray-600 dark:text-gray-400'
+  }`;
+}
+
+/**
+ * @component
+ * @description Modal for placing a design on the shirt mockup. Drag the art to move it, drag the
+ * corner handle (or use the slider) to resize it, or start from a preset. The dashed outline is
+ * the printable area; the box is kept inside it and sent in inches, which is what Printful prints.
+ * "Default" clears the custom placement.
+ *
+ * @param {PrintPlacementEditorProps} props - Component props
+ * @param {Design} props.design - Design being placed
+ * @param {string} props.color - Shirt colour name
+ * @param {string} [props.colorHex] - Fallback colour when there is no mockup
+ * @param {OrderItem} props.item - Order item with the saved placement
+ * @param {boolean} props.isOpen - Whether the editor is visible
+ * @param {boolean} [props.isSaving] - Whether the save request is in flight
+ * @param {() => void} props.onClose - Close without saving
+ * @param {(selection: PrintPlacementSelection) => void} props.onSave - Save the placement
+ *
+ * @returns {JSX.Element} Placement editor modal
+ *
+ * @example
+ * <PrintPlacementEditor
+ *   design={placementDesign}
+ *   color={selectedColor}
+ *   item={order.items[0]}
+ *   isOpen={Boolean(placementDesign)}
+ *   isSaving={isSavingPlacement}
+ *   onClose={() => setPlacementDesign(null)}
+ *   onSave={handleSavePlacement}
+ * />
+ */
+export default function PrintPlacementEditor({
+  design,
+  color,
+  colorHex,
+  item,
+  isOpen,
+  isSaving = false,
+  onClose,
+  onSave,
+}: PrintPlacementEditorProps): JSX.Element {
+  const [preset, setPreset] = useState<PrintPlacementPreset | null>(null);
+  const [box, setBox] = useState<PrintPlacementBox | null>(null);
+  const [aspect, setAspect] = useState(1);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<PlacementDragState | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setPreset(item.placementPreset ?? null);
+    setBox(readItemPlacement(item));
+  }, [isOpen, item]);
+
+  const imageUrl = getPrintPreviewUrl(design);
+  const mockup = getMockupImage(color);
+  const fitted = fitPrintBox(box ?? getPresetBox('full-front'), aspect);
+  const maxWidth = Math.min(PRINT_AREA_IN.width - fitted.left, PRINT_AREA_IN.height / aspect);
+
+  const inchesPerPixel = () => {
+    const rect = surfaceRef.current?.getBoundingClientRect();
+    return rect?.width ? PRINT_AREA_IN.width / (rect.width * MOCKUP_PRINT_AREA.width) : 0;
+  };
+
+  const moveTo = (next: PrintPlacementBox) => {
+    setBox(clampPlacementBox(next));
+  };
+
+  const startDrag = (mode: PlacementDragState['mode']) => (event: PointerEvent<HTMLElement>) => {
+    if (isSaving) return;
+    event.preventDefault();
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { mode, x: event.clientX, y: event.clientY, start: fitted };
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const scale = inchesPerPixel();
+    const dx = (event.clientX - drag.x) * scale;
+    const dy = (event.clientY - drag.y) * scale;
+
+    if (drag.mode === 'move') {
+      moveTo({ ...drag.start, left: drag.start.left + dx, top: drag.start.top + dy });
+      return;
+    }
+
+    const widthLimit = Math.min(
+      PRINT_AREA_IN.width - drag.start.left,
+      (PRINT_AREA_IN.height - drag.start.top) / aspect
+    );
+    moveTo({ ...drag.start, width: Math.min(drag.start.width + dx, widthLimit) });
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const offsets: Record<string, [number, number]> = {
+      ArrowLeft: [-NUDGE_IN, 0],
+      ArrowRight: [NUDGE_IN, 0],
+      ArrowUp: [0, -NUDGE_IN],
+      ArrowDown: [0, NUDGE_IN],
+    };
+    const offset = offsets[event.key];
+    if (!offset || isSaving) return;
+    event.preventDefault();
+    moveTo({ ...fitted, left: fitted.left + offset[0], top: fitted.top + offset[1] });
+  };
+
+  const handleSave = () => {
+    onSave({ preset, box: box ? clampPlacementBox(fitted) : null });
+  };
+
+  const label = describePlacement(box ? clampPlacementBox(fitted) : null, preset);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={isSaving ? undefined : onClose}
+      title="Adjust placement"
+      size="lg"
+      footer={
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" size="sm" onClick={onClose} isDisabled={isSaving}>
+            Cancel
+          </Button>
+          <Button variant="primary" size="sm" onClick={handleSave} isDisabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save placement'}
+          </Button>
+        </div>
+      }
+    >
+      <p className="mb-3 font-sans text-sm text-gray-600 dark:text-gray-400">
+        Drag your design to move it and pull the corner to resize it. The dashed outline is the
+        printable area.
+      </p>
+
+      <div
+        ref={surfaceRef}
+        className="relative mx-auto mb-4 aspect-square w-full max-w-sm touch-none overflow-hidden rounded-lg select-none"
+        style={
+          mockup
+            ? { backgroundImage: `url(${mockup})`, backgroundSize: 'cover' }
+            : { backgroundColor: colorHex }
+        }
+      >
+        <div
+          className="pointer-events-none absolute border border-dashed border-gray-400"
+          style={{
+            left: `${MOCKUP_PRINT_AREA.left * 100}%`,
+            top: `${MOCKUP_PRINT_AREA.top * 100}%`,
+            width: `${MOCKUP_PRINT_AREA.width * 100}%`,
+            height: `${MOCKUP_PRINT_AREA.height * 100}%`,
+          }}
+        />
+        <div
+          role="slider"
+          tabIndex={0}
+          aria-label="Design position; use arrow keys to move"
+          aria-valuetext={label}
+          className="ring-primary-500 absolute cursor-move ring-1 focus:ring-2 focus:outline-none"
+          style={getMockupBoxStyle(fitted)}
+          onPointerDown={startDrag('move')}
+          onPointerMove={handlePointerMove}
+          onPointerUp={endDrag}
+          onPointerCancel={endDrag}
+          onKeyDown={handleKeyDown}
+        >
+          <img
+            src={imageUrl}
+            alt={design.prompt}
+            draggable={false}
+            className="h-full w-full object-contain"
+            onLoad={(event) => {
+              const { naturalWidth, naturalHeight } = event.currentTarget;
+              if (naturalWidth && naturalHeight) setAspect(naturalHeight / naturalWidth);
+            }}
+          />
+          <span
+            aria-hidden="true"
+            className="bg-primary-500 absolute -right-1.5 -bottom-1.5 h-3 w-3 cursor-nwse-resize rounded-full border border-white"
+            onPointerDown={startDrag('resize')}
+          />
+        </div>
+      </div>
+
+      <p className="mb-4 text-center font-sans text-sm text-gray-700 dark:text-gray-300">{label}</p>
+
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {PLACEMENT_PRESETS.map((item) => (
+            <button
+              key={item.key}
+              type="button"
+              onClick={() => {
+                setPreset(item.key);
+                setBox(getPresetBox(item.key));
+              }}
+              aria-pressed={Boolean(box) && preset === item.key}
+              disabled={isSaving}
+              className={chipClass(Boolean(box) && preset === item.key)}
+            >
+              {item.label}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => {
+              setPreset(null);
+              setBox(null);
+            }}
+            aria-pressed={!box}
+            disabled={isSaving}
+            className={chipClass(!box)}
+          >
+            Default
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <label
+            htmlFor="placement-width"
+            className="block font-sans text-sm font-medium text-gray-700 dark:text-gray-300"
+          >
+            Size
+          </label>
+          <input
+            id="placement-width"
+            type="range"
+            min={MIN_PRINT_WIDTH_IN}
+            max={Math.max(MIN_PRINT_WIDTH_IN, maxWidth)}
+            step={0.25}
+            value={fitted.width}
+            onChange={(event) => moveTo({ ...fitted, width: Number(event.target.value) })}
+            disabled={isSaving}
+            className="flex-1"
+          />
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * @module components/design/PrintPlacementEditor/types
+ * @description Type definitions for the PrintPlacementEditor component
+ * @since 2026-10-18
+ */
+
+import type { Design } from '../../../types/design';
+import type { OrderItem, PrintPlacementBox, PrintPlacementPreset } from '../../../types/order';
+
+/**
+ * What the customer chose; both null means Printful's default placement
+ * @interface PrintPlacementSelection
+ */
+export interface PrintPlacementSelection {
+  preset: PrintPlacementPreset | null;
+  box: PrintPlacementBox | null;
+}
+
+/**
+ * Props for the PrintPlacementEditor component
+ * @interface PrintPlacementEditorProps
+ */
+export interface PrintPlacementEditorProps {
+  /** Design being placed */
+  design: Design;
+  /** Shirt colour name, used to pick the mockup */
+  color: string;
+  /** Shirt colour code, shown when there is no mockup for the colour */
+  colorHex?: string;
+  /** Order item whose saved placement the editor starts from */
+  item: OrderItem;
+  /** Controls whether the editor is visible */
+  isOpen: boolean;
+  /** Whether the save request is in flight */
+  isSaving?: boolean;
+  /** Callback to close the editor */
+  onClose: () => void;
+  /** Called with the chosen placement when the customer saves */
+  onSave: (selection: PrintPlacementSelection) => void;
+}
+
+/**
+ * Pointer drag in progress: what is being dragged, where it started and the box at that moment
+ * @interface PlacementDragState
+ */
+export interface PlacementDragState {
+  mode: 'move' | 'resize';
+  x: number;
+  y: number;
+  start: PrintPlacementBox & { height: number };
+}
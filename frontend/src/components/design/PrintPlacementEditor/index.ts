@@ -0,0 +1,10 @@
+/**
+ * @module components/design/PrintPlacementEditor
+ * @description PrintPlacementEditor component export
+ * @since 2026-10-18
+ */
+export { default as PrintPlacementEditor } from './PrintPlacementEditor';
+export type {
+  PrintPlacementEditorProps,
+  PrintPlacementSelection,
+} from './PrintPlacementEditor.types';
@@ -0,0 +1,307 @@
+/**
+ * @module components/design/PromptLibraryPicker
+ * @description Searchable list of the customer's past prompts with favourites and tags
+ * @since 2026-10-18
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { apiGet, apiPatch } from '@utils/api';
+import { trackEvent } from '@utils/analytics';
+import type { PromptEntry, PromptEntryOutcome } from '../../../types/design';
+import type { PromptLibraryPickerProps } from './PromptLibraryPicker.types';
+
+/**
+ * Entries loaded per search
+ */
+const PAGE_SIZE = 12;
+
+/**
+ * Wait after the last keystroke before searching
+ */
+const SEARCH_DEBOUNCE_MS = 300;
+
+const OUTCOME_LABELS: Record<PromptEntryOutcome, string> = {
+  generating: 'Generating',
+  approved: 'Printed',
+  completed: 'Ready',
+  rejected: 'Not available',
+  failed: 'Failed',
+};
+
+/**
+ * @component
+ * @description Collapsible "Your prompts" panel. Lists the signed-in customer's prompt history from
+ * `GET /api/prompts` (newest first, with thumbnails of what each produced), filtered by text,
+ * favourites or a tag. Customers can star prompts, edit their tags and pick one to reuse.
+ *
+ * @param {PromptLibraryPickerProps} props - Component props
+ * @param {() => Promise<string | null>} props.getToken - Session token getter
+ * @param {(entry: PromptEntry) => void} props.onSelect - Reuse a prompt
+ * @param {'design' | 'quickstart'} props.surface - Where the picker is shown
+ * @param {boolean} [props.isDisabled] - Disables picking
+ *
+ * @returns {JSX.Element} Toggle button and, when open, the library
+ *
+ * @example
+ * <PromptLibraryPicker
+ *   getToken={getAuthToken}
+ *   surface="design"
+ *   onSelect={(entry) => setPrompt(entry.prompt)}
+ * />
+ */
+export default function PromptLibraryPicker({
+  getToken,
+  onSelect,
+  surface,
+  isDisabled = false,
+}: PromptLibraryPickerProps): JSX.Element {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [tag, setTag] = useState<string | null>(null);
+  const [entries, setEntries] = useState<PromptEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingTagsId, setEditingTagsId] = useState<string | null>(null);
+  const [tagDraft, setTagDraft] = useState('');
+
+  // Parents pass a new token getter every render; searching shouldn't re-run because of it
+  const getTokenRef = useRef(getToken);
+  getTokenRef.current = getToken;
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({ pageSize: String(PAGE_SIZE) });
+        if (query.trim()) params.set('q', query.trim());
+        if (favoritesOnly) params.set('favorites', 'true');
+        if (tag) params.set('tag', tag);
+        const token = await getTokenRef.current();
+        const response = await apiGet(`/api/prompts?${params.toString()}`, token);
+        if (!cancelled) setEntries(response.data || []);
+      } catch (err: unknown) {
+        console.warn('Prompt library failed to load', err);
+        if (!cancelled) setError('Could not load your prompts. Please try again.');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, query, favoritesOnly, tag]);
+
+  const updateEntry = async (entry: PromptEntry, changes: Partial<PromptEntry>) => {
+    const previous = entries;
+    setEntries((current) =>
+      current.map((item) => (item.id === entry.id ? { ...item, ...changes } : item))
+    );
+    try {
+      const token = await getTokenRef.current();
+      const response = await apiPatch(`/api/prompts/${entry.id}`, changes, token);
+      setEntries((current) =>
+        current.map((item) => (item.id === entry.id ? { ...item, ...response.data } : item))
+      );
+      return true;
+    } catch (err: unknown) {
+      console.warn('Prompt update failed', err);
+      setEntries(previous);
+      setError(err instanceof Error ? err.message : 'Could not save that change.');
+      return false;
+    }
+  };
+
+  const handleToggle = () => {
+    if (!isOpen) {
+      trackEvent('prompt_library.open', { surface });
+    }
+    setIsOpen((open) => !open);
+  };
+
+  const handleFavorite = (entry: PromptEntry) => {
+    trackEvent('prompt_library.favorite', { surface, favorite: !entry.favorite });
+    updateEntry(entry, { favorite: !entry.favorite });
+  };
+
+  const handleSaveTags = async (entry: PromptEntry) => {
+    const tags = tagDraft
+      .split(',')
+      .map((item) => item.trim().toLowerCase())
+      .filter(Boolean);
+    if (await updateEntry(entry, { tags })) {
+      setEditingTagsId(null);
+    }
+  };
+
+  const handleSelect = (entry: PromptEntry) => {
+    trackEvent('prompt_library.select', {
+      surface,
+      outcome: entry.outcome,
+      favorite: entry.favorite,
+      prompt_length: entry.prompt.length,
+    });
+    onSelect(entry);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <button
+        type="button"
+        onClick={handleToggle}
+        aria-expanded={isOpen}
+        className="text-primary-600 dark:text-primary-300 font-sans text-xs font-semibold"
+      >
+        {isOpen ? 'Hide your prompts' : 'Reuse one of your prompts'}
+      </button>
+
+      {isOpen && (
+        <div className="space-y-3 rounded-lg border border-gray-200 p-3 dark:border-gray-700">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search your prompts"
+              aria-label="Search your prompts"
+              className="focus:border-primary-500 focus:ring-primary-500 min-w-0 flex-1 rounded-lg border border-gray-300 bg-white px-3 py-1.5 font-sans text-sm text-gray-900 focus:ring-2 dark:border-gray-600 dark:bg-gray-900 dark:text-white"
+            />
+            <button
+              type="button"
+              onClick={() => setFavoritesOnly((value) => !value)}
+              aria-pressed={favoritesOnly}
+              className={`rounded-full border px-3 py-1 font-sans text-xs ${
+                favoritesOnly
+                  ? 'border-primary-400 bg-primary-50 text-primary-700 dark:bg-primary-900/20 dark:text-primary-300'
+                  : 'border-gray-300 text-gray-600 dark:border-gray-600 dark:text-gray-300'
+              }`}
+            >
+              ★ Favourites
+            </button>
+            {tag && (
+              <button
+                type="button"
+                onClick={() => setTag(null)}
+                className="border-primary-400 text-primary-700 dark:text-primary-300 rounded-full border px-3 py-1 font-sans text-xs"
+              >
+                #{tag} ✕
+              </button>
+            )}
+          </div>
+
+          {error && <p className="font-sans text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+          {isLoading && !entries.length ? (
+            <p className="font-sans text-xs text-gray-500 dark:text-gray-400">Loading…</p>
+          ) : !entries.length ? (
+            <p className="font-sans text-xs text-gray-500 dark:text-gray-400">
+              {query || favoritesOnly || tag
+                ? 'No prompts match.'
+                : 'Prompts you generate will show up here.'}
+            </p>
+          ) : (
+            <ul className="max-h-80 space-y-2 overflow-y-auto">
+              {entries.map((entry) => (
+                <li
+                  key={entry.id}
+                  className="flex items-start gap-3 rounded-lg bg-gray-50 p-2 dark:bg-gray-900/40"
+                >
+                  <div className="flex flex-shrink-0 gap-1">
+                    {entry.thumbnails.slice(0, 2).map((url) => (
+                      <img
+                        key={url}
+                        src={url}
+                        alt=""
+                        className="h-10 w-10 rounded bg-gray-100 object-contain dark:bg-gray-900"
+                      />
+                    ))}
+                  </div>
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <p className="line-clamp-2 font-sans text-sm text-gray-900 dark:text-white">
+                      {entry.prompt}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-1 font-sans text-[11px] text-gray-500 dark:text-gray-400">
+                      <span>{OUTCOME_LABELS[entry.outcome]}</span>
+                      {entry.style && <span>· {entry.style}</span>}
+                      {entry.tags.map((item) => (
+                        <button
+                          key={item}
+                          type="button"
+                          onClick={() => setTag(item)}
+                          className="text-primary-600 dark:text-primary-300"
+                        >
+                          #{item}
+                        </button>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditingTagsId(entry.id);
+                          setTagDraft(entry.tags.join(', '));
+                        }}
+                        className="underline"
+                      >
+                        {entry.tags.length ? 'Edit tags' : 'Add tags'}
+                      </button>
+                    </div>
+                    {editingTagsId === entry.id && (
+                      <div className="flex gap-2">
+                        <input
+                          value={tagDraft}
+                          onChange={(e) => setTagDraft(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              e.preventDefault();
+                              handleSaveTags(entry);
+                            }
+                          }}
+                          placeholder="gift, halloween"
+                          aria-label="Tags, separated by commas"
+                          className="min-w-0 flex-1 rounded border border-gray-300 bg-white px-2 py-1 font-sans text-xs text-gray-900 dark:border-gray-600 dark:bg-gray-900 dark:text-white"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => handleSaveTags(entry)}
+                          className="text-primary-600 dark:text-primary-300 font-sans text-xs font-semibold"
+                        >
+                          Save
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex flex-shrink-0 flex-col items-end gap-1">
+                    <button
+                      type="button"
+                      onClick={() => handleFavorite(entry)}
+                      aria-pressed={entry.favorite}
+                      aria-label={entry.favorite ? 'Remove from favourites' : 'Add to favourites'}
+                      className={`text-base leading-none ${
+                        entry.favorite ? 'text-amber-500' : 'text-gray-300 dark:text-gray-600'
+                      }`}
+                    >
+                      ★
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleSelect(entry)}
+                      disabled={isDisabled}
+                      className="text-primary-600 dark:text-primary-300 font-sans text-xs font-semibold disabled:opacity-50"
+                    >
+                      Use
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+/**
+ * @module components/design/PromptLibraryPicker/types
+ * @description Type definitions for the PromptLibraryPicker component
+ * @since 2026-10-18
+ */
+
+import type { PromptEntry } from '../../../types/design';
+
+/**
+ * Props for the PromptLibraryPicker component
+ * @interface PromptLibraryPickerProps
+ */
+export interface PromptLibraryPickerProps {
+  /** Returns the session token for `/api/prompts` */
+  getToken: () => Promise<string | null>;
+  /** Called with the chosen entry; the caller fills its prompt (and style) in */
+  onSelect: (entry: PromptEntry) => void;
+  /** Where the picker is shown, for analytics */
+  surface: 'design' | 'quickstart';
+  /** Disables picking while the prompt can't be changed */
+  isDisabled?: boolean;
+}
@@ -0,0 +1,7 @@
+/**
+ * @module components/design/PromptLibraryPicker
+ * @description PromptLibraryPicker component export
+ * @since 2026-10-18
+ */
+export { default as PromptLibraryPicker } from './PromptLibraryPicker';
+export type { PromptLibraryPickerProps } from './PromptLibraryPicker.types';
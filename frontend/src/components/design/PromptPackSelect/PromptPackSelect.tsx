@@ -0,0 +1,73 @@
+/**
+ * @module components/design/PromptPackSelect
+ * @description Picks the prompt pack "Surprise Me" draws from
+ * @since 2026-10-18
+ */
+
+import { useEffect } from 'react';
+import { cn } from '@utils/cn';
+import { trackEvent } from '@utils/analytics';
+import { usePromptPacks } from '@hooks/usePromptPacks';
+import type { PromptPackSelectProps } from './PromptPackSelect.types';
+
+/**
+ * @component
+ * @description "Ideas from" select listing the prompt packs available now, plus "Any pack" for a
+ * weighted draw over all of them. Renders nothing while fewer than two packs are available, and
+ * resets to "Any pack" when the selected pack goes out of season.
+ *
+ * @param {PromptPackSelectProps} props - Component props
+ * @param {string} props.value - Selected pack key ('' for any)
+ * @param {(pack: string) => void} props.onChange - Selection change
+ * @param {'design' | 'quickstart'} props.surface - Where the selector is shown
+ * @param {boolean} [props.isDisabled] - Disables the select
+ * @param {string} [props.className] - Wrapper classes
+ *
+ * @returns {JSX.Element | null} Labelled select, or null with a single pack
+ *
+ * @example
+ * <PromptPackSelect value={pack} onChange={setPack} surface="design" />
+ */
+export default function PromptPackSelect({
+  value,
+  onChange,
+  surface,
+  isDisabled = false,
+  className,
+}: PromptPackSelectProps): JSX.Element | null {
+  const packs = usePromptPacks();
+
+  useEffect(() => {
+    if (value && packs.length && !packs.some((pack) => pack.key === value)) {
+      onChange('');
+    }
+  }, [packs, value, onChange]);
+
+  if (packs.length < 2) {
+    return null;
+  }
+
+  const handleChange = (pack: string) => {
+    trackEvent('prompt_pack.select', { surface, pack: pack || 'any' });
+    onChange(pack);
+  };
+
+  return (
+    <label className={cn('flex items-center gap-2 font-sans text-xs', className)}>
+      <span className="text-gray-600 dark:text-gray-400">Ideas from</span>
+      <select
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={isDisabled}
+        className="min-w-0 flex-1 rounded-lg border border-gray-300 bg-white px-2 py-1 text-xs text-gray-900 disabled:opacity-50 dark:border-gray-600 dark:bg-gray-900 dark:text-white"
+      >
+        <option value="">Any pack</option>
+        {packs.map((pack) => (
+          <option key={pack.key} value={pack.key} title={pack.description || undefined}>
+            {pack.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
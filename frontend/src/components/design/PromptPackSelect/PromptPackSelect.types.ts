@@ -0,0 +1,19 @@
+/**
+ * @module components/design/PromptPackSelect/types
+ * @description Type definitions for the PromptPackSelect component
+ * @since 2026-10-18
+ */
+
+/**
+ * Props for the PromptPackSelect component
+ * @interface PromptPackSelectProps
+ */
+export interface PromptPackSelectProps {
+  /** Selected pack key; empty string for any pack */
+  value: string;
+  onChange: (pack: string) => void;
+  /** Where the selector is shown, for analytics */
+  surface: 'design' | 'quickstart';
+  isDisabled?: boolean;
+  className?: string;
+}
@@ -0,0 +1,7 @@
+/**
+ * @module components/design/PromptPackSelect
+ * @description PromptPackSelect component export
+ * @since 2026-10-18
+ */
+export { default as PromptPackSelect } from './PromptPackSelect';
+export type { PromptPackSelectProps } from './PromptPackSelect.types';
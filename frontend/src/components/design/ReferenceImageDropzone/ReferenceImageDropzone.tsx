@@ -0,0 +1,190 @@
+/**
+ * @module components/design/ReferenceImageDropzone
+ * @description Drop zone for the reference photo a draft is generated from
+ * @since 2026-10-18
+ */
+
+import { useRef, useState } from 'react';
+import type { DragEvent } from 'react';
+import { cn } from '@utils/cn';
+import type { ReferenceImageDropzoneProps } from './ReferenceImageDropzone.types';
+
+// Mirrors the API limits so obvious mistakes are caught before the upload
+const ACCEPTED_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const MAX_FILE_BYTES = 6 * 1024 * 1024;
+
+/**
+ * @function readAsDataUrl
+ * @description Reads a file into a base64 data URL
+ *
+ * @param {File} file - Selected photo
+ * @returns {Promise<string>} Data URL
+ */
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * @component
+ * @description Lets the customer drop or pick a photo to guide the next draft. The consent
+ * statement has to be accepted before a photo can be added; the file is checked for type and size
+ * here and handed to the page as a data URL, which uploads it. Once uploaded the photo is shown
+ * with a button to stop using it.
+ *
+ * @param {ReferenceImageDropzoneProps} props - Component props
+ * @param {ReferenceImage | null} props.value - Uploaded photo, if any
+ * @param {(image: string) => void} props.onUpload - Receives the photo as a data URL
+ * @param {() => void} props.onClear - Stops generating from the photo
+ * @param {boolean} [props.isUploading] - Whether the upload request is in flight
+ * @param {boolean} [props.isDisabled] - Disables adding a photo
+ * @param {string | null} [props.error] - Upload error from the API
+ * @param {string} [props.className] - Wrapper classes
+ *
+ * @returns {JSX.Element} Rendered drop zone
+ *
+ * @example
+ * <ReferenceImageDropzone
+ *   value={referenceImage}
+ *   onUpload={handleUploadReference}
+ *   onClear={() => setReferenceImage(null)}
+ * />
+ */
+export default function ReferenceImageDropzone({
+  value,
+  onUpload,
+  onClear,
+  isUploading = false,
+  isDisabled = false,
+  error,
+  className,
+}: ReferenceImageDropzoneProps): JSX.Element {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [rightsConfirmed, setRightsConfirmed] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const canAdd = rightsConfirmed && !isDisabled && !isUploading;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || !canAdd) return;
+
+    if (!ACCEPTED_TYPES.includes(file.type)) {
+      setFileError('Use a PNG, JPEG or WebP photo.');
+      return;
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      setFileError('That photo is over 6MB. Try a smaller one.');
+      return;
+    }
+
+    setFileError(null);
+    try {
+      onUpload(await readAsDataUrl(file));
+    } catch {
+      setFileError('That photo could not be read. Try another one.');
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFile(e.dataTransfer.files[0]);
+  };
+
+  const message = fileError || error;
+
+  return (
+    <div className={cn('font-sans', className)}>
+      <p className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+        Start from a photo <span className="font-normal text-gray-500">(optional)</span>
+      </p>
+
+      {value ? (
+        <div className="flex items-center gap-3 rounded-lg border border-gray-200 p-2 dark:border-gray-700">
+          <img
+            src={value.imageUrl}
+            alt="Reference photo"
+            className="h-16 w-16 flex-shrink-0 rounded object-cover"
+          />
+          <p className="flex-1 text-xs text-gray-600 dark:text-gray-400">
+            Your next drafts will be based on this photo.
+          </p>
+          <button
+            type="button"
+            onClick={onClear}
+            className="text-xs text-gray-500 hover:text-red-600 dark:text-gray-400"
+          >
+            Remove
+          </button>
+        </div>
+      ) : (
+        <>
+          <label className="mb-2 flex items-start gap-2 text-xs text-gray-600 dark:text-gray-400">
+            <input
+              type="checkbox"
+              checked={rightsConfirmed}
+              onChange={(e) => setRightsConfirmed(e.target.checked)}
+              disabled={isDisabled}
+              className="mt-0.5"
+            />
+            <span>
+              I took this photo or have permission to use it, and anyone recognizable in it has
+              agreed to appear on a printed product. Photos are checked for inappropriate content
+              and stored without location or camera details.
+            </span>
+          </label>
+          <div
+            role="button"
+            tabIndex={canAdd ? 0 : -1}
+            aria-disabled={!canAdd}
+            onClick={() => canAdd && inputRef.current?.click()}
+            onKeyDown={(e) => {
+              if (canAdd && (e.key === 'Enter' || e.key === ' ')) {
+                e.preventDefault();
+                inputRef.current?.click();
+              }
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              if (canAdd) setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={cn(
+              'rounded-lg border-2 border-dashed p-4 text-center text-xs transition-all',
+              canAdd
+                ? 'hover:border-primary-300 cursor-pointer text-gray-600 dark:text-gray-400'
+                : 'cursor-not-allowed text-gray-400 opacity-60 dark:text-gray-500',
+              isDragging
+                ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                : 'border-gray-300 dark:border-gray-600'
+            )}
+          >
+            {isUploading
+              ? 'Uploading and checking your photo...'
+              : rightsConfirmed
+                ? 'Drop a photo here or click to choose (PNG, JPEG or WebP, up to 6MB)'
+                : 'Confirm you can use the photo to add one'}
+          </div>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={ACCEPTED_TYPES.join(',')}
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </>
+      )}
+
+      {message && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{message}</p>}
+    </div>
+  );
+}
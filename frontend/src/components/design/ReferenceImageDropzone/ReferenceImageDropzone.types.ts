@@ -0,0 +1,26 @@
+/**
+ * @module components/design/ReferenceImageDropzone/types
+ * @description Type definitions for the ReferenceImageDropzone component
+ * @since 2026-10-18
+ */
+
+import type { ReferenceImage } from '../../../types/design';
+
+/**
+ * Props for the ReferenceImageDropzone component
+ * @interface ReferenceImageDropzoneProps
+ */
+export interface ReferenceImageDropzoneProps {
+  /** Uploaded photo the next draft is generated from, if any */
+  value: ReferenceImage | null;
+  /** Called with the photo as a data URL once the customer has confirmed their rights to it */
+  onUpload: (image: string) => void;
+  /** Stops generating from the photo */
+  onClear: () => void;
+  /** Whether the upload request is in flight */
+  isUploading?: boolean;
+  isDisabled?: boolean;
+  /** Upload error from the API */
+  error?: string | null;
+  className?: string;
+}
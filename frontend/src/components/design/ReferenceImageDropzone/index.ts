@@ -0,0 +1,7 @@
+/**
+ * @module components/design/ReferenceImageDropzone
+ * @description ReferenceImageDropzone component export
+ * @since 2026-10-18
+ */
+export { default as ReferenceImageDropzone } from './ReferenceImageDropzone';
+export type { ReferenceImageDropzoneProps } from './ReferenceImageDropzone.types';
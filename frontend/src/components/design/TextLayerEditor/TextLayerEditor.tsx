@@ -0,0 +1,385 @@
+/**
+ * @module components/design/TextLayerEditor
+ * @description Editor for the text blocks composited over a design (slogans, names, dates)
+ * @since 2026-10-18
+ */
+
+import { useEffect, useState } from 'react';
+import { Button } from '@components/ui/Button';
+import { Modal } from '@components/ui/Modal';
+import {
+  DEFAULT_TEXT_LAYER,
+  MAX_TEXT_LAYERS,
+  MAX_TEXT_LENGTH,
+  getArcPath,
+  layoutTextLayers,
+} from '@utils/textLayers';
+import { TRANSPARENCY_GRID_STYLE, isBackgroundRemoved } from '@utils/designPrint';
+import type { TextLayer, TextLayerPosition } from '../../../types/design';
+import type { TextLayerEditorProps } from './TextLayerEditor.types';
+
+// Preview canvas width; layer sizes are percentages of it, like the server renderer
+const PREVIEW_WIDTH = 1000;
+
+const POSITION_OPTIONS: { value: TextLayerPosition; label: string }[] = [
+  { value: 'above', label: 'Above' },
+  { value: 'overlay', label: 'On the art' },
+  { value: 'below', label: 'Below' },
+];
+
+const LABEL_CLASS = 'mb-1 block font-sans text-sm font-medium text-gray-700 dark:text-gray-300';
+const INPUT_CLASS =
+  'focus:ring-primary-500 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 font-sans text-gray-900 focus:border-transparent focus:ring-2 disabled:opacity-50 dark:border-gray-600 dark:bg-gray-700 dark:text-white';
+
+/**
+ * @function chipClass
+ * @description Classes for a toggle chip
+ *
+ * @param {boolean} active - Whether the chip is selected
+ * @returns {string} Tailwind classes
+ */
+function chipClass(active: boolean): string {
+  return `rounded-full border px-3 py-1 font-sans text-xs ${
+    active
+      ? 'border-primary-500 text-primary-600 dark:text-primary-300'
+      : 'border-gray-300 text-gray-600 dark:border-gray-600 dark:text-gray-400'
+  }`;
+}
+
+/**
+ * @component
+ * @description Modal for adding text to a finished design. Shows a live preview of the blocks
+ * over the art (laid out the same way the server renders them) and edits one block at a time:
+ * text, font, colour, size, straight or arced, and whether it sits above, below or on the art.
+ * Saving sends every block; the art itself is never regenerated.
+ *
+ * @param {TextLayerEditorProps} props - Component props
+ * @param {Design} props.design - Finished design
+ * @param {TextFont[]} props.fonts - Bundled fonts
+ * @param {boolean} props.isOpen - Whether the editor is visible
+ * @param {boolean} [props.isSaving] - Whether the save request is in flight
+ * @param {() => void} props.onClose - Close without saving
+ * @param {(layers: TextLayer[]) => void} props.onSave - Save all blocks
+ *
+ * @returns {JSX.Element} Text editor modal
+ *
+ * @example
+ * <TextLayerEditor
+ *   design={textDesign}
+ *   fonts={textFonts}
+ *   isOpen={Boolean(textDesign)}
+ *   isSaving={isSavingText}
+ *   onClose={() => setTextDesign(null)}
+ *   onSave={handleSaveTextLayers}
+ * />
+ */
+export default function TextLayerEditor({
+  design,
+  fonts,
+  isOpen,
+  isSaving = false,
+  onClose,
+  onSave,
+}: TextLayerEditorProps): JSX.Element {
+  const [layers, setLayers] = useState<TextLayer[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [artAspect, setArtAspect] = useState(1);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const saved = design.textLayers ?? [];
+    setLayers(saved.length ? saved : [{ ...DEFAULT_TEXT_LAYER }]);
+    setActiveIndex(0);
+  }, [isOpen, design.id, design.textLayers]);
+
+  const artUrl =
+    isBackgroundRemoved(design) && design.transparentImageUrl
+      ? design.transparentImageUrl
+      : design.imageUrl;
+  const artHeight = PREVIEW_WIDTH * artAspect;
+  const layout = layoutTextLayers(layers, PREVIEW_WIDTH, artHeight);
+  const active = layers[activeIndex];
+
+  const updateActive = (changes: Partial<TextLayer>) => {
+    setLayers((prev) =>
+      prev.map((layer, index) => (index === activeIndex ? { ...layer, ...changes } : layer))
+    );
+  };
+
+  const handleAdd = () => {
+    const font = active?.font ?? DEFAULT_TEXT_LAYER.font;
+    setLayers((prev) => [...prev, { ...DEFAULT_TEXT_LAYER, font }]);
+    setActiveIndex(layers.length);
+  };
+
+  const handleRemove = () => {
+    setLayers((prev) => prev.filter((_, index) => index !== activeIndex));
+    setActiveIndex((index) => Math.max(0, index - 1));
+  };
+
+  const handleSave = () => {
+    onSave(
+      layers.map((layer) => ({ ...layer, text: layer.text.trim() })).filter((layer) => layer.text)
+    );
+  };
+
+  const fontFor = (key: string) => fonts.find((font) => font.key === key);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={isSaving ? undefined : onClose}
+      title="Add text"
+      size="lg"
+      footer={
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" size="sm" onClick={onClose} isDisabled={isSaving}>
+            Cancel
+          </Button>
+          <Button variant="primary" size="sm" onClick={handleSave} isDisabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save text'}
+          </Button>
+        </div>
+      }
+    >
+      <p className="mb-3 font-sans text-sm text-gray-600 dark:text-gray-400">
+        Add a slogan, name or date. Text is set in real fonts on top of your art, so it prints crisp
+        and you can change it any time before you approve.
+      </p>
+
+      <div className="mx-auto mb-4 w-full max-w-sm" style={TRANSPARENCY_GRID_STYLE}>
+        <img
+          src={artUrl}
+          alt=""
+          className="hidden"
+          onLoad={(event) => {
+            const { naturalWidth, naturalHeight } = event.currentTarget;
+            if (naturalWidth && naturalHeight) setArtAspect(naturalHeight / naturalWidth);
+          }}
+        />
+        <svg
+          viewBox={`0 0 ${PREVIEW_WIDTH} ${layout.height}`}
+          className="block h-auto w-full"
+          role="img"
+          aria-label="Text preview"
+        >
+          <image
+            href={artUrl}
+            x={0}
+            y={layout.artTop}
+            width={PREVIEW_WIDTH}
+            height={artHeight}
+            preserveAspectRatio="none"
+          />
+          {layout.placed.map((block) => {
+            const font = fontFor(block.layer.font);
+            const textProps = {
+              fontFamily: font ? `'${font.family}', sans-serif` : 'sans-serif',
+              fontWeight: font?.weight ?? 700,
+              fontSize: block.fontPx,
+              fill: block.layer.color,
+              textAnchor: 'middle' as const,
+            };
+
+            if (!block.radius) {
+              return (
+                <text
+                  key={block.index}
+                  x={PREVIEW_WIDTH / 2}
+                  y={block.top + block.baseline}
+                  {...textProps}
+                >
+                  {block.layer.text}
+                </text>
+              );
+            }
+
+            const pathId = `text-arc-${design.id}-${block.index}`;
+            return (
+              <g key={block.index}>
+                <path id={pathId} d={getArcPath(block, PREVIEW_WIDTH / 2)} fill="none" />
+                <text {...textProps}>
+                  <textPath href={`#${pathId}`} startOffset="50%">
+                    {block.layer.text}
+                  </textPath>
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <div className="mb-4 flex flex-wrap items-center gap-2">
+        {layers.map((layer, index) => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => setActiveIndex(index)}
+            aria-pressed={index === activeIndex}
+            className={chipClass(index === activeIndex)}
+          >
+            {layer.text.trim() || `Text ${index + 1}`}
+          </button>
+        ))}
+        {layers.length < MAX_TEXT_LAYERS && (
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={isSaving}
+            className={chipClass(false)}
+          >
+            + Add text
+          </button>
+        )}
+      </div>
+
+      {active ? (
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="text-layer-text" className={LABEL_CLASS}>
+              Text
+            </label>
+            <input
+              id="text-layer-text"
+              value={active.text}
+              maxLength={MAX_TEXT_LENGTH}
+              onChange={(event) => updateActive({ text: event.target.value })}
+              placeholder="e.g., Best Dad Since 1994"
+              disabled={isSaving}
+              className={INPUT_CLASS}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label htmlFor="text-layer-font" className={LABEL_CLASS}>
+                Font
+              </label>
+              <select
+                id="text-layer-font"
+                value={active.font}
+                onChange={(event) => updateActive({ font: event.target.value })}
+                disabled={isSaving || !fonts.length}
+                className={INPUT_CLASS}
+                style={{ fontFamily: fontFor(active.font)?.family }}
+              >
+                {fonts.map((font) => (
+                  <option key={font.key} value={font.key} style={{ fontFamily: font.family }}>
+                    {font.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="text-layer-color" className={LABEL_CLASS}>
+                Colour
+              </label>
+              <input
+                id="text-layer-color"
+                type="color"
+                value={active.color}
+                onChange={(event) => updateActive({ color: event.target.value })}
+                disabled={isSaving}
+                className="h-10 w-full cursor-pointer rounded-lg border border-gray-300 bg-white dark:border-gray-600 dark:bg-gray-700"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <label htmlFor="text-layer-size" className={LABEL_CLASS}>
+              Size
+            </label>
+            <input
+              id="text-layer-size"
+              type="range"
+              min={3}
+              max={30}
+              value={active.size}
+              onChange={(event) => updateActive({ size: Number(event.target.value) })}
+              disabled={isSaving}
+              className="flex-1"
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={LABEL_CLASS}>Position</span>
+            {POSITION_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => updateActive({ position: option.value })}
+                aria-pressed={active.position === option.value}
+                disabled={isSaving}
+                className={chipClass(active.position === option.value)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {active.position === 'overlay' && (
+            <div className="flex items-center gap-3">
+              <label htmlFor="text-layer-y" className={LABEL_CLASS}>
+                Height on art
+              </label>
+              <input
+                id="text-layer-y"
+                type="range"
+                min={0}
+                max={100}
+                value={active.y}
+                onChange={(event) => updateActive({ y: Number(event.target.value) })}
+                disabled={isSaving}
+                className="flex-1"
+              />
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={LABEL_CLASS}>Shape</span>
+            {(['straight', 'arc'] as const).map((shape) => (
+              <button
+                key={shape}
+                type="button"
+                onClick={() => updateActive({ shape })}
+                aria-pressed={active.shape === shape}
+                disabled={isSaving}
+                className={chipClass(active.shape === shape)}
+              >
+                {shape === 'straight' ? 'Straight' : 'Curved'}
+              </button>
+            ))}
+          </div>
+
+          {active.shape === 'arc' && (
+            <div className="flex items-center gap-3">
+              <label htmlFor="text-layer-arc" className={LABEL_CLASS}>
+                Curve
+              </label>
+              <input
+                id="text-layer-arc"
+                type="range"
+                min={-180}
+                max={180}
+                step={5}
+                value={active.arc}
+                onChange={(event) => updateActive({ arc: Number(event.target.value) })}
+                disabled={isSaving}
+                className="flex-1"
+              />
+            </div>
+          )}
+
+          <Button variant="danger" size="sm" onClick={handleRemove} isDisabled={isSaving}>
+            Remove this text
+          </Button>
+        </div>
+      ) : (
+        <p className="font-sans text-sm text-gray-500 dark:text-gray-400">
+          No text on this design. Add some, or save to keep it art-only.
+        </p>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,26 @@
+/**
+ * @module components/design/TextLayerEditor/types
+ * @description Type definitions for the TextLayerEditor component
+ * @since 2026-10-18
+ */
+
+import type { Design, TextFont, TextLayer } from '../../../types/design';
+
+/**
+ * Props for the TextLayerEditor component
+ * @interface TextLayerEditorProps
+ */
+export interface TextLayerEditorProps {
+  /** Finished design the text goes on */
+  design: Design;
+  /** Fonts from `GET /api/designs/text-fonts` */
+  fonts: TextFont[];
+  /** Controls whether the editor is visible */
+  isOpen: boolean;
+  /** Whether the save request is in flight */
+  isSaving?: boolean;
+  /** Callback to close the editor */
+  onClose: () => void;
+  /** Called with every layer (empty to remove all text) when the customer saves */
+  onSave: (layers: TextLayer[]) => void;
+}
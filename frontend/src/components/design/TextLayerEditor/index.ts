@@ -0,0 +1,7 @@
+/**
+ * @module components/design/TextLayerEditor
+ * @description TextLayerEditor component export
+ * @since 2026-10-18
+ */
+export { default as TextLayerEditor } from './TextLayerEditor';
+export type { TextLayerEditorProps } from './TextLayerEditor.types';
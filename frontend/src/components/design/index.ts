@@ -0,0 +1,32 @@
+/**
+ * @module components/design
+ * @description Barrel export for design studio components
+ * @since 2026-10-18
+ */
+
+export { DesignMaskEditor } from './DesignMaskEditor';
+export type { DesignMaskEdit, DesignMaskEditorProps } from './DesignMaskEditor';
+export { DesignLineageTree } from './DesignLineageTree';
+export type { DesignLineageTreeProps } from './DesignLineageTree';
+export { PrintCheckWarnings } from './PrintCheckWarnings';
+export type { PrintCheckWarningsProps } from './PrintCheckWarnings';
+export { DesignRefinementThread } from './DesignRefinementThread';
+export type { DesignRefinementThreadProps } from './DesignRefinementThread';
+export { TextLayerEditor } from './TextLayerEditor';
+export type { TextLayerEditorProps } from './TextLayerEditor';
+export { PlacementMockup } from './PlacementMockup';
+export type { PlacementMockupProps } from './PlacementMockup';
+export { PrintPlacementEditor } from './PrintPlacementEditor';
+export type { PrintPlacementEditorProps, PrintPlacementSelection } from './PrintPlacementEditor';
+export { PlacementTabs } from './PlacementTabs';
+export type { PlacementTabsProps } from './PlacementTabs';
+export { PrintLocationPicker } from './PrintLocationPicker';
+export type { PrintLocationPickerProps } from './PrintLocationPicker';
+export { PromptLibraryPicker } from './PromptLibraryPicker';
+export type { PromptLibraryPickerProps } from './PromptLibraryPicker';
+export { DesignLibrary } from './DesignLibrary';
+export type { DesignLibraryProps } from './DesignLibrary';
+export { PromptPackSelect } from './PromptPackSelect';
+export type { PromptPackSelectProps } from './PromptPackSelect';
+export { ReferenceImageDropzone } from './ReferenceImageDropzone';
+export type { ReferenceImageDropzoneProps } from './ReferenceImageDropzone';
@@ -22,6 +22,7 @@ import { apiGet } from '@utils/api';
 import { hoverLift, staggerContainer, staggerItem } from '@utils/motion';
 import type { GalleryDesign } from '../../../types/gallery';
 import { ImagePlaceholder } from '@components/ui/ImagePlaceholder';
+import { ResponsiveImage } from '@components/ui/ResponsiveImage';
 
 const LIMIT = 6;
 
@@ -108,12 +109,13 @@ export default function ExamplesGallery(): JSX.Element {
               className="group relative overflow-hidden rounded-lg focus-visible:outline-accent focus-visible:outline-2"
             >
               <div className="aspect-[4/5] overflow-hidden rounded-lg border border-muted/20 bg-surface dark:border-muted-dark/20 dark:bg-surface-dark">
-                <img
+                <ResponsiveImage
+                  image={design.image}
                   src={preview}
                   alt={design.prompt}
-                  loading="lazy"
-                  decoding="async"
-                  className="h-full w-full object-cover transition-transform duration-300 group-hover:scale-105"
+                  sizes="(min-width: 768px) 33vw, 50vw"
+                  className="h-full w-full"
+                  imgClassName="object-cover group-hover:scale-105"
                 />
               </div>
               <figcaption className="absolute right-2 bottom-2 left-2 line-clamp-2 rounded-md bg-ink/80 px-3 py-2 font-sans text-xs text-surface opacity-0 transition-opacity group-hover:opacity-100 dark:bg-ink-dark/80 dark:text-surface-dark">
@@ -171,10 +173,14 @@ export default function ExamplesGallery(): JSX.Element {
               </button>
             </div>
             <div className="flex items-center justify-center bg-surface-2 dark:bg-surface-dark">
-              <img
+              <ResponsiveImage
+                image={selected.image}
                 src={selected.thumbnailUrl || selected.imageUrl}
                 alt={selected.prompt}
-                className="max-h-[70vh] w-full object-contain"
+                sizes="(min-width: 768px) 768px, 100vw"
+                loading="eager"
+                className="max-h-[70vh] w-full"
+                imgClassName="max-h-[70vh] object-contain"
               />
             </div>
             <div className="flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:justify-between">
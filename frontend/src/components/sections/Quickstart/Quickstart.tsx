@@ -24,13 +24,18 @@
  */
 
 import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@clerk/clerk-react';
 import { Button } from '@components/ui/Button';
 import { apiGet } from '@utils/api';
 import { useCreationCorridor } from '@components/CreationCorridor';
+import { PromptLibraryPicker, PromptPackSelect } from '@components/design';
+import { useStylePresets } from '@hooks/useStylePresets';
 import { trackEvent } from '@utils/analytics';
 import { Product } from '../../../types/product';
 import type { QuickstartPrefillEventDetail } from '../../../types/domEvents';
+import type { PromptEntry } from '../../../types/design';
 import { QUICKSTART_PROMPT_KEY } from '@utils/quickstart';
+import { fetchRandomPrompt } from '@utils/promptPacks';
 import { AnimatePresence, motion } from 'framer-motion';
 import { Link } from 'react-router-dom';
 
@@ -81,12 +86,17 @@ export default function Quickstart(): JSX.Element {
   const [prompt, setPrompt] = useState<string>(localStorage.getItem(QUICKSTART_PROMPT_KEY) || '');
   const [size, setSize] = useState<string>('');
   const [color, setColor] = useState<string>('');
+  const [style, setStyle] = useState<string>(QUICKSTART_STYLE);
   const [ideaIndex, setIdeaIndex] = useState<number>(0);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [isStarting, setIsStarting] = useState<boolean>(false);
+  const [promptPack, setPromptPack] = useState<string>('');
+  const [isLoadingSurprise, setIsLoadingSurprise] = useState<boolean>(false);
   const textareaId = 'quickstart-prompt';
 
   const { start: startCorridor } = useCreationCorridor();
+  const { getToken, isSignedIn } = useAuth();
+  const stylePresets = useStylePresets();
 
   useEffect(() => {
     const loadProducts = async () => {
@@ -125,6 +135,12 @@ export default function Quickstart(): JSX.Element {
     );
   }, [product]);
 
+  useEffect(() => {
+    if (stylePresets.length && !stylePresets.some((preset) => preset.key === style)) {
+      setStyle(stylePresets[0].key);
+    }
+  }, [stylePresets, style]);
+
   useEffect(() => {
     const handler = (event: Event) => {
       const customEvent = event as CustomEvent<QuickstartPrefillEventDetail>;
@@ -157,6 +173,38 @@ export default function Quickstart(): JSX.Element {
     }
   };
 
+  const handleSurprise = async () => {
+    try {
+      setIsLoadingSurprise(true);
+      setSubmitError(null);
+      const surprise = await fetchRandomPrompt(promptPack);
+      const nextStyle =
+        surprise.suggestedStyle &&
+        stylePresets.some((preset) => preset.key === surprise.suggestedStyle)
+          ? surprise.suggestedStyle
+          : style;
+      setPrompt(surprise.prompt);
+      setStyle(nextStyle);
+      trackEvent('quickstart.prompt.randomized', {
+        prompt_length: surprise.prompt.length,
+        style: nextStyle,
+        pack: surprise.pack.key,
+      });
+    } catch (err: unknown) {
+      console.error('Error getting random prompt:', err);
+      setSubmitError('Unable to get a surprise idea right now.');
+    } finally {
+      setIsLoadingSurprise(false);
+    }
+  };
+
+  const handleLibrarySelect = (entry: PromptEntry) => {
+    setPrompt(entry.prompt);
+    if (entry.style && stylePresets.some((preset) => preset.key === entry.style)) {
+      setStyle(entry.style);
+    }
+  };
+
   const handleSubmit = async () => {
     const promptText = prompt.trim();
     if (!promptText) {
@@ -173,7 +221,7 @@ export default function Quickstart(): JSX.Element {
       setIsStarting(true);
       await startCorridor({
         prompt: promptText,
-        style: QUICKSTART_STYLE,
+        style,
         productId: product.id,
         color: color || defaultColor,
         size: size || defaultSize,
@@ -213,13 +261,67 @@ export default function Quickstart(): JSX.Element {
             className="w-full resize-none rounded-lg border border-muted/30 bg-surface px-3 py-2 font-sans text-sm text-ink placeholder:text-muted/60 focus:border-accent focus:outline-none focus:ring-2 focus:ring-accent/20 dark:border-muted-dark/30 dark:bg-surface-dark dark:text-ink-dark dark:placeholder:text-muted-dark/60 dark:focus:border-accent-dark dark:focus:ring-accent-dark/20"
             rows={3}
           />
+          {isSignedIn && (
+            <PromptLibraryPicker
+              getToken={getToken}
+              surface="quickstart"
+              onSelect={handleLibrarySelect}
+            />
+          )}
         </div>
 
+        {stylePresets.length > 1 && (
+          <div className="space-y-2">
+            <p className="font-sans text-xs font-semibold text-ink dark:text-ink-dark">Style</p>
+            <div className="flex flex-wrap gap-2" role="group" aria-label="Style">
+              {stylePresets.map((preset) => (
+                <button
+                  key={preset.key}
+                  type="button"
+                  onClick={() => setStyle(preset.key)}
+                  aria-pressed={style === preset.key}
+                  title={preset.description || undefined}
+                  className={`inline-flex items-center gap-2 rounded-full border px-3 py-1 font-sans text-xs transition-colors ${
+                    style === preset.key
+                      ? 'border-accent bg-accent-soft text-ink dark:border-accent-dark dark:bg-accent-dark/10 dark:text-ink-dark'
+                      : 'border-muted/30 text-muted hover:border-accent/50 dark:border-muted-dark/30 dark:text-muted-dark'
+                  }`}
+                >
+                  {preset.previewImageUrl && (
+                    <img
+                      src={preset.previewImageUrl}
+                      alt=""
+                      className="h-5 w-5 rounded-full object-cover"
+                    />
+                  )}
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="space-y-2 rounded-lg border border-muted/20 bg-surface-2 p-3 dark:border-muted-dark/20 dark:bg-surface-dark">
           <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
             <div className="space-y-1">
               <p className="font-sans text-xs font-semibold text-ink dark:text-ink-dark">Ideas to try</p>
             </div>
+            <div className="flex items-center gap-2">
+              <PromptPackSelect
+                value={promptPack}
+                onChange={setPromptPack}
+                surface="quickstart"
+                isDisabled={isLoadingSurprise}
+              />
+              <button
+                type="button"
+                onClick={handleSurprise}
+                disabled={isLoadingSurprise}
+                className="flex-shrink-0 font-sans text-xs font-semibold text-accent hover:underline disabled:opacity-50 dark:text-accent-dark"
+              >
+                {isLoadingSurprise ? 'Loading…' : 'Surprise me'}
+              </button>
+            </div>
           </div>
           <div className="relative h-[64px] overflow-hidden sm:h-[68px]">
             <AnimatePresence mode="wait" initial={false}>
@@ -20,12 +20,15 @@ export interface ImagePlaceholderProps {
   className?: string;
   /** Alt text for accessibility (describes intended image) */
   alt?: string;
+  /** Tiny image data URL; shown blurred in place of the icon while the real image loads */
+  blurDataUrl?: string | null;
 }
 
 /**
  * @component ImagePlaceholder
  * @description Renders a styled placeholder for images that are pending.
- * Shows aspect ratio, maintains layout, and optionally displays a label.
+ * Shows aspect ratio, maintains layout, and optionally displays a label. With `blurDataUrl` it
+ * renders the blurred low-quality preview instead, for blur-up loading.
  *
  * @param {ImagePlaceholderProps} props - Component props
  * @returns {JSX.Element} Placeholder div with aspect ratio preserved
@@ -33,12 +36,14 @@ export interface ImagePlaceholderProps {
  * @example
  * <ImagePlaceholder aspectRatio="16/9" label="Hero lifestyle shot" />
  * <ImagePlaceholder aspectRatio="4/5" label="Lookbook image" />
+ * <ImagePlaceholder aspectRatio="1/1" blurDataUrl={design.image.placeholder} />
  */
 export function ImagePlaceholder({
   aspectRatio = '16/9',
   label,
   className,
   alt,
+  blurDataUrl,
 }: ImagePlaceholderProps): JSX.Element {
   const aspectClasses: Record<string, string> = {
     '16/9': 'aspect-video',
@@ -48,6 +53,22 @@ export function ImagePlaceholder({
     '9/16': 'aspect-[9/16]',
   };
 
+  if (blurDataUrl) {
+    return (
+      <div
+        className={cn('relative overflow-hidden', aspectClasses[aspectRatio], className)}
+        role="img"
+        aria-label={alt || label || 'Image placeholder'}
+      >
+        <img
+          src={blurDataUrl}
+          alt=""
+          className="absolute inset-0 h-full w-full scale-110 object-cover blur-lg"
+        />
+      </div>
+    );
+  }
+
   return (
     <div
       className={cn(
@@ -0,0 +1,73 @@
+/**
+ * @module components/ui/ResponsiveImage
+ * @description Design image with AVIF/WebP sources and a blur-up placeholder
+ * @since 2026-10-18
+ */
+
+import { useEffect, useState } from 'react';
+import { cn } from '@utils/cn';
+import { ImagePlaceholder } from '../ImagePlaceholder';
+import type { ResponsiveImageProps } from './ResponsiveImage.types';
+
+/**
+ * @component ResponsiveImage
+ * @description Renders a `<picture>` so browsers pick the smallest AVIF or WebP that fits `sizes`,
+ * falling back to the original. The blurred placeholder fills the box until the image loads, then
+ * the image fades in over it.
+ *
+ * @param {ResponsiveImageProps} props - Component props
+ * @returns {JSX.Element} Wrapper with placeholder and picture
+ *
+ * @example
+ * <ResponsiveImage
+ *   image={design.image}
+ *   src={design.thumbnailUrl || design.imageUrl}
+ *   alt={design.prompt}
+ *   sizes="(min-width: 768px) 33vw, 50vw"
+ *   className="aspect-[4/5]"
+ *   imgClassName="object-cover"
+ * />
+ */
+export function ResponsiveImage({
+  image,
+  src,
+  alt,
+  sizes = '100vw',
+  className,
+  imgClassName,
+  loading = 'lazy',
+}: ResponsiveImageProps): JSX.Element {
+  const fallbackSrc = image?.src || src;
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    setIsLoaded(false);
+  }, [fallbackSrc]);
+
+  return (
+    <div className={cn('relative overflow-hidden', className)}>
+      {image?.placeholder && !isLoaded && (
+        <ImagePlaceholder blurDataUrl={image.placeholder} className="absolute inset-0" />
+      )}
+      <picture>
+        {image?.sources.map((source) => (
+          <source key={source.type} type={source.type} srcSet={source.srcSet} sizes={sizes} />
+        ))}
+        <img
+          src={fallbackSrc}
+          alt={alt}
+          loading={loading}
+          decoding="async"
+          onLoad={() => setIsLoaded(true)}
+          className={cn(
+            'relative h-full w-full transition duration-300',
+            image?.placeholder && !isLoaded ? 'opacity-0' : 'opacity-100',
+            imgClassName
+          )}
+        />
+      </picture>
+    </div>
+  );
+}
+
+export default ResponsiveImage;
@@ -0,0 +1,26 @@
+/**
+ * @module components/ui/ResponsiveImage
+ * @description Type definitions for the ResponsiveImage component
+ * @since 2026-10-18
+ */
+
+import type { ResponsiveImage as ResponsiveImageData } from '../../../types/design';
+
+/**
+ * @interface ResponsiveImageProps
+ * @description Props for the ResponsiveImage component
+ */
+export interface ResponsiveImageProps {
+  /** Sources and placeholder from the API; without it only `src` is shown */
+  image?: ResponsiveImageData | null;
+  /** Fallback URL when the design has no responsive image */
+  src: string;
+  alt: string;
+  /** Rendered width hints for the browser, e.g. "(min-width: 768px) 33vw, 50vw" */
+  sizes?: string;
+  /** Classes for the wrapper; give it a size or aspect ratio */
+  className?: string;
+  /** Classes for the `<img>`, e.g. object-fit */
+  imgClassName?: string;
+  loading?: 'lazy' | 'eager';
+}
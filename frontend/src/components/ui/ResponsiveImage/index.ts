@@ -0,0 +1,7 @@
+/**
+ * @module components/ui/ResponsiveImage
+ * @description ResponsiveImage component export
+ * @since 2026-10-18
+ */
+export { ResponsiveImage, default } from './ResponsiveImage';
+export type { ResponsiveImageProps } from './ResponsiveImage.types';
@@ -38,3 +38,6 @@ export type { ToastProps } from './Toast';
 
 export { ImagePlaceholder } from './ImagePlaceholder';
 export type { ImagePlaceholderProps } from './ImagePlaceholder';
+
+export { ResponsiveImage } from './ResponsiveImage';
+export type { ResponsiveImageProps } from './ResponsiveImage';
@@ -0,0 +1,96 @@
+/**
+ * @module hooks/useDesignMockups
+ * @description Fetches server-rendered product mockups for a list of designs on the selected shirt
+ * colour, fetching again when the colour, the keep/remove background choice, the text or the
+ * placement box changes.
+ * @since 2026-10-18
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { apiGet } from '@utils/api';
+import type { DesignMockupState, UseDesignMockupsOptions } from '../types/design';
+
+/**
+ * @hook useDesignMockups
+ * @description Calls `GET /api/designs/:id/mockups?color=` one design at a time (a mockup that is
+ * not cached yet is rendered server-side). Failed requests are logged and left empty so callers
+ * fall back to the plain design image.
+ *
+ * @param {UseDesignMockupsOptions} options - Designs, shirt colour, placement and credentials
+ * @returns {Record<string, DesignMockupState>} Mockup state keyed by design id
+ *
+ * @example
+ * const mockups = useDesignMockups({
+ *   designs: order.designs.filter((d) => d.status === 'COMPLETED'),
+ *   color: order.items[0]?.color ?? null,
+ *   getToken,
+ * });
+ * const mockupUrl = mockups[design.id]?.mockup?.imageUrl;
+ */
+export function useDesignMockups(
+  options: UseDesignMockupsOptions
+): Record<string, DesignMockupState> {
+  const { designs, color, placementKey = '', enabled = true } = options;
+  const [mockups, setMockups] = useState<Record<string, DesignMockupState>>({});
+  const mockupsRef = useRef(mockups);
+  mockupsRef.current = mockups;
+  const getTokenRef = useRef(options.getToken);
+  getTokenRef.current = options.getToken;
+
+  // The mockup shows what prints where it prints, so all of it is part of each signature
+  const signatures = designs.map(
+    (design) =>
+      `${design.id}:${color}:${Boolean(design.keepBackground)}:${design.textImageUrl ?? ''}:${placementKey}`
+  );
+  const signatureKey = signatures.join(',');
+
+  useEffect(() => {
+    if (!enabled || !color) return;
+
+    // Mockups still loading were cut off by the previous run and are requested again
+    const pending = designs
+      .map((design, index) => ({ id: design.id, signature: signatures[index] }))
+      .filter(({ id, signature }) => {
+        const state = mockupsRef.current[id];
+        return !state || state.loading || state.signature !== signature;
+      });
+    if (!pending.length) return;
+
+    let cancelled = false;
+
+    setMockups((prev) => {
+      const next = { ...prev };
+      pending.forEach(({ id, signature }) => {
+        next[id] = { signature, loading: true, mockup: null };
+      });
+      return next;
+    });
+
+    const run = async () => {
+      for (const { id, signature } of pending) {
+        if (cancelled) return;
+        let mockup = null;
+        try {
+          const token = await getTokenRef.current();
+          const response = await apiGet(
+            `/api/designs/${id}/mockups?color=${encodeURIComponent(color)}`,
+            token
+          );
+          mockup = response.data?.mockups?.[0] ?? null;
+        } catch (err) {
+          console.warn(`Mockup failed for design ${id}:`, err);
+        }
+        if (cancelled) return;
+        setMockups((prev) => ({ ...prev, [id]: { signature, loading: false, mockup } }));
+      }
+    };
+
+    run();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [signatureKey, enabled]);
+
+  return mockups;
+}
@@ -0,0 +1,126 @@
+/**
+ * @module hooks/useDesignStream
+ * @description Subscribes to the design progress SSE stream for an order and reconnects with
+ * backoff. Reports whether the stream is live so callers can fall back to polling.
+ * @since 2026-10-18
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { ApiError, apiEventStream } from '@utils/api';
+import type {
+  DesignStreamEvent,
+  DesignStreamSnapshot,
+  UseDesignStreamOptions,
+} from '../types/designStream';
+
+const RECONNECT_BASE_MS = 2000;
+const RECONNECT_MAX_MS = 30000;
+
+/**
+ * @function isStreamRefused
+ * @description Whether the server turned the stream down for good (e.g. 401, 403, 404), as
+ * opposed to a timeout or rate limit that is worth retrying
+ *
+ * @param {unknown} error - Error from apiEventStream
+ * @returns {boolean} True for client errors other than 408 and 429
+ */
+function isStreamRefused(error: unknown): error is ApiError {
+  return (
+    error instanceof ApiError &&
+    error.status >= 400 &&
+    error.status < 500 &&
+    error.status !== 408 &&
+    error.status !== 429
+  );
+}
+
+/**
+ * @hook useDesignStream
+ * @description Opens `GET /api/designs/stream?orderId=` while enabled. Callbacks are read through a
+ * ref so changing handlers does not reconnect the stream. A 4xx refusal is passed to `onError`
+ * and the stream stays closed until the order, token or `enabled` changes.
+ *
+ * @param {UseDesignStreamOptions} options - Order, credentials and event callbacks
+ * @returns {{ connected: boolean }} Whether the stream is currently open
+ *
+ * @example
+ * const { connected } = useDesignStream({
+ *   orderId,
+ *   getToken,
+ *   onSnapshot: (snapshot) => setDesigns(snapshot.designs),
+ *   onEvent: (event) => console.log(event.type),
+ * });
+ */
+export function useDesignStream(options: UseDesignStreamOptions): { connected: boolean } {
+  const { orderId, guestToken, enabled = true } = options;
+  const [connected, setConnected] = useState(false);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    if (!enabled || !orderId) {
+      setConnected(false);
+      return;
+    }
+
+    let cancelled = false;
+    let close: (() => void) | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+
+    const scheduleReconnect = () => {
+      setConnected(false);
+      if (cancelled) return;
+      const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempt, RECONNECT_MAX_MS);
+      attempt += 1;
+      retryTimer = setTimeout(connect, delay);
+    };
+
+    const connect = async () => {
+      if (cancelled) return;
+      const token = guestToken ? null : await optionsRef.current.getToken?.();
+      if (cancelled) return;
+
+      const query = new URLSearchParams({ orderId });
+      if (guestToken) query.set('guestToken', guestToken);
+
+      close = apiEventStream(
+        `/api/designs/stream?${query.toString()}`,
+        {
+          onEvent: (event, data) => {
+            if (event === 'snapshot') {
+              attempt = 0;
+              setConnected(true);
+              optionsRef.current.onSnapshot?.(data as DesignStreamSnapshot);
+              return;
+            }
+            optionsRef.current.onEvent?.(data as DesignStreamEvent);
+          },
+          onError: (error) => {
+            if (isStreamRefused(error)) {
+              console.error('Design stream refused:', error);
+              setConnected(false);
+              optionsRef.current.onError?.(error);
+              return;
+            }
+            console.warn('Design stream interrupted:', error);
+            scheduleReconnect();
+          },
+          onClose: scheduleReconnect,
+        },
+        token
+      );
+    };
+
+    connect();
+
+    return () => {
+      cancelled = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      close?.();
+      setConnected(false);
+    };
+  }, [orderId, guestToken, enabled]);
+
+  return { connected };
+}
@@ -0,0 +1,93 @@
+/**
+ * @module hooks/usePrintChecks
+ * @description Fetches print-readiness checks for a list of designs against the selected shirt
+ * colour, re-checking when the colour, the keep/remove background choice or the text changes.
+ * @since 2026-10-18
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { apiGet } from '@utils/api';
+import type { PrintCheckState, UsePrintChecksOptions } from '../types/design';
+
+/**
+ * @hook usePrintChecks
+ * @description Calls `GET /api/designs/:id/print-check?color=` one design at a time (each check
+ * downloads and analyses the image server-side). Failed checks are logged and left empty so they
+ * never block approval.
+ *
+ * @param {UsePrintChecksOptions} options - Designs, shirt colour and credentials
+ * @returns {Record<string, PrintCheckState>} Check state keyed by design id
+ *
+ * @example
+ * const printChecks = usePrintChecks({
+ *   designs: designs.filter((d) => d.status === 'COMPLETED' && !d.approvalStatus),
+ *   color: selectedColor,
+ *   getToken,
+ * });
+ * const check = printChecks[design.id]?.result;
+ */
+export function usePrintChecks(options: UsePrintChecksOptions): Record<string, PrintCheckState> {
+  const { designs, color, enabled = true } = options;
+  const [checks, setChecks] = useState<Record<string, PrintCheckState>>({});
+  const checksRef = useRef(checks);
+  checksRef.current = checks;
+  const getTokenRef = useRef(options.getToken);
+  getTokenRef.current = options.getToken;
+
+  // What is printed changes with the background choice and text, so both are part of each signature
+  const signatures = designs.map(
+    (design) =>
+      `${design.id}:${color}:${Boolean(design.keepBackground)}:${design.textImageUrl ?? ''}`
+  );
+  const signatureKey = signatures.join(',');
+
+  useEffect(() => {
+    if (!enabled || !color) return;
+
+    // Checks still loading were cut off by the previous run and are requested again
+    const pending = designs
+      .map((design, index) => ({ id: design.id, signature: signatures[index] }))
+      .filter(({ id, signature }) => {
+        const state = checksRef.current[id];
+        return !state || state.loading || state.signature !== signature;
+      });
+    if (!pending.length) return;
+
+    let cancelled = false;
+
+    setChecks((prev) => {
+      const next = { ...prev };
+      pending.forEach(({ id, signature }) => {
+        next[id] = { color, signature, loading: true, result: null };
+      });
+      return next;
+    });
+
+    const run = async () => {
+      for (const { id, signature } of pending) {
+        if (cancelled) return;
+        let result = null;
+        try {
+          const token = await getTokenRef.current();
+          const response = await apiGet(
+            `/api/designs/${id}/print-check?color=${encodeURIComponent(color)}`,
+            token
+          );
+          result = response.data ?? null;
+        } catch (err) {
+          console.warn(`Print check failed for design ${id}:`, err);
+        }
+        if (cancelled) return;
+        setChecks((prev) => ({ ...prev, [id]: { color, signature, loading: false, result } }));
+      }
+    };
+
+    run();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [signatureKey, enabled]);
+
+  return checks;
+}
@@ -0,0 +1,56 @@
+/**
+ * @module hooks/usePromptPacks
+ * @description Loads the "Surprise Me" prompt packs customers can pick, shared by the design page
+ * and Quickstart.
+ * @since 2026-10-18
+ */
+
+import { useEffect, useState } from 'react';
+import { apiGet } from '@utils/api';
+import type { PromptPack } from '../types/design';
+
+// One request per page load; packs change rarely and every caller wants the same list
+let packsRequest: Promise<PromptPack[]> | null = null;
+
+function loadPromptPacks(): Promise<PromptPack[]> {
+  if (!packsRequest) {
+    packsRequest = apiGet('/api/designs/prompt-packs')
+      .then((response) => (response.data || []) as PromptPack[])
+      .catch((err: unknown) => {
+        packsRequest = null;
+        throw err;
+      });
+  }
+  return packsRequest;
+}
+
+/**
+ * @hook usePromptPacks
+ * @description Returns the active, in-season prompt packs from `GET /api/designs/prompt-packs` in
+ * display order. Failures are logged and leave the list empty, so "Surprise Me" draws from any
+ * pack.
+ *
+ * @returns {PromptPack[]} Packs (empty while loading)
+ *
+ * @example
+ * const packs = usePromptPacks();
+ */
+export function usePromptPacks(): PromptPack[] {
+  const [packs, setPacks] = useState<PromptPack[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPromptPacks()
+      .then((data) => {
+        if (!cancelled) setPacks(data);
+      })
+      .catch((err: unknown) => {
+        console.warn('Prompt packs failed to load', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return packs;
+}
@@ -0,0 +1,57 @@
+/**
+ * @module hooks/useStylePresets
+ * @description Loads the style presets customers can pick, shared by the design page, Quickstart
+ * and the Creation Corridor.
+ * @since 2026-10-18
+ */
+
+import { useEffect, useState } from 'react';
+import { apiGet } from '@utils/api';
+import type { StylePreset } from '../types/design';
+
+// One request per page load; presets change rarely and every caller wants the same list
+let stylesRequest: Promise<StylePreset[]> | null = null;
+
+function loadStylePresets(): Promise<StylePreset[]> {
+  if (!stylesRequest) {
+    stylesRequest = apiGet('/api/designs/styles')
+      .then((response) => (response.data || []) as StylePreset[])
+      .catch((err: unknown) => {
+        stylesRequest = null;
+        throw err;
+      });
+  }
+  return stylesRequest;
+}
+
+/**
+ * @hook useStylePresets
+ * @description Returns the active, in-season style presets from `GET /api/designs/styles` in
+ * display order. Failures are logged and leave the list empty, so generation falls back to the
+ * caller's default style.
+ *
+ * @returns {StylePreset[]} Presets (empty while loading)
+ *
+ * @example
+ * const styles = useStylePresets();
+ * const style = styles.find((s) => s.key === selectedStyle) ?? styles[0];
+ */
+export function useStylePresets(): StylePreset[] {
+  const [styles, setStyles] = useState<StylePreset[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadStylePresets()
+      .then((data) => {
+        if (!cancelled) setStyles(data);
+      })
+      .catch((err: unknown) => {
+        console.warn('Style presets failed to load', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return styles;
+}
@@ -0,0 +1,55 @@
+/**
+ * @module hooks/useTextFonts
+ * @description Loads the bundled fonts customers can use in text layers.
+ * @since 2026-10-18
+ */
+
+import { useEffect, useState } from 'react';
+import { apiGet } from '@utils/api';
+import type { TextFont } from '../types/design';
+
+// The font list is static config on the server; one request per page load is enough
+let fontsRequest: Promise<TextFont[]> | null = null;
+
+function loadTextFonts(): Promise<TextFont[]> {
+  if (!fontsRequest) {
+    fontsRequest = apiGet('/api/designs/text-fonts')
+      .then((response) => (response.data || []) as TextFont[])
+      .catch((err: unknown) => {
+        fontsRequest = null;
+        throw err;
+      });
+  }
+  return fontsRequest;
+}
+
+/**
+ * @hook useTextFonts
+ * @description Returns the fonts from `GET /api/designs/text-fonts`. Failures are logged and
+ * leave the list empty, so the text editor falls back to the server's default font.
+ *
+ * @returns {TextFont[]} Fonts (empty while loading)
+ *
+ * @example
+ * const fonts = useTextFonts();
+ * const font = fonts.find((f) => f.key === layer.font);
+ */
+export function useTextFonts(): TextFont[] {
+  const [fonts, setFonts] = useState<TextFont[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadTextFonts()
+      .then((data) => {
+        if (!cancelled) setFonts(data);
+      })
+      .catch((err: unknown) => {
+        console.warn('Text fonts failed to load', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return fonts;
+}
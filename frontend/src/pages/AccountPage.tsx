@@ -8,6 +8,7 @@ import { useEffect, useMemo, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth, useUser } from '@clerk/clerk-react';
 import { Button } from '@components/ui/Button';
+import { DesignLibrary } from '@components/design';
 import ProtectedRoute from '../components/ProtectedRoute';
 import { apiGet, apiPost } from '../utils/api';
 import { trackEvent } from '@utils/analytics';
@@ -33,7 +34,6 @@ const getStatusBadge = (status: string) => (
   </span>
 );
 
-const previewStatuses = ['PENDING_PAYMENT', 'DESIGN_PENDING'];
 const pastOrderStatuses = [
   'PAID',
   'DESIGN_APPROVED',
@@ -164,70 +164,11 @@ function AccountContent(): JSX.Element {
     }
   };
 
-  const designsList = useMemo(
-    () => orders.filter((o) => previewStatuses.includes(o.status)),
-    [orders]
-  );
   const pastList = useMemo(
     () => orders.filter((o) => pastOrderStatuses.includes(o.status)),
     [orders]
   );
 
-  const renderDesignCard = (order: Order) => (
-    <div
-      key={order.id}
-      className="hover:border-primary-400/80 rounded-xl border border-gray-200 bg-gray-50 p-4 transition hover:shadow dark:border-gray-700 dark:bg-gray-900/60"
-    >
-      <div className="mb-3 flex flex-wrap items-start justify-between gap-4">
-        <div>
-          <p className="font-semibold text-gray-900 dark:text-white">Design preview</p>
-          <p className="text-sm text-gray-500 dark:text-gray-400">
-            {new Date(order.createdAt).toLocaleDateString()}
-          </p>
-        </div>
-        <div className="flex items-center gap-2">{getStatusBadge(order.status)}</div>
-      </div>
-
-      {order.designs?.length > 0 && (
-        <div className="mt-2">
-          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
-            {order.designs.map((design) => (
-              <div
-                key={design.id}
-                className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm dark:border-gray-700 dark:bg-gray-900"
-              >
-                <div className="flex h-40 items-center justify-center bg-gray-100 dark:bg-gray-800">
-                  {design.imageUrl ? (
-                    <img
-                      src={design.imageUrl}
-                      alt={design.prompt}
-                      className="max-h-36 object-contain"
-                    />
-                  ) : (
-                    <div className="text-xs text-gray-500 dark:text-gray-400">
-                      Design preview coming soon
-                    </div>
-                  )}
-                </div>
-                <p className="line-clamp-3 px-3 py-2 text-xs text-gray-700 dark:text-gray-300">
-                  {design.prompt}
-                </p>
-              </div>
-            ))}
-          </div>
-        </div>
-      )}
-
-      <div className="mt-4 flex flex-wrap gap-3">
-        <Link to={`/design?orderId=${order.id}`}>
-          <Button variant="primary" size="sm">
-            Open design
-          </Button>
-        </Link>
-      </div>
-    </div>
-  );
-
   const renderPastCard = (order: Order) => {
     return (
       <div
@@ -353,13 +294,13 @@ function AccountContent(): JSX.Element {
       </div>
 
       <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-lg dark:border-gray-700 dark:bg-gray-800">
-        {loading && (
+        {activeTab === 'past' && loading && (
           <div className="flex items-center justify-center py-12">
             <div className="border-primary-600 h-12 w-12 animate-spin rounded-full border-b-2"></div>
           </div>
         )}
 
-        {error && (
+        {activeTab === 'past' && error && (
           <div className="mb-6 rounded-lg border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-900/20">
             <p className="text-red-800 dark:text-red-400">{error}</p>
             <button
@@ -371,26 +312,7 @@ function AccountContent(): JSX.Element {
           </div>
         )}
 
-        {!loading && !error && activeTab === 'designs' && (
-          <>
-            {designsList.length === 0 ? (
-              <div className="py-12 text-center">
-                <div className="mb-4 text-5xl">🛍️</div>
-                <h3 className="mb-2 text-xl font-semibold text-gray-900 dark:text-white">
-                  No designs yet
-                </h3>
-                <p className="mb-6 text-gray-600 dark:text-gray-400">
-                  Start a new preview to create your first one-of-one GPTee.
-                </p>
-                <Link to="/#quickstart">
-                  <Button variant="primary">Start a new design</Button>
-                </Link>
-              </div>
-            ) : (
-              <div className="space-y-4">{designsList.map(renderDesignCard)}</div>
-            )}
-          </>
-        )}
+        {activeTab === 'designs' && <DesignLibrary getToken={getToken} />}
 
         {!loading && !error && activeTab === 'past' && (
           <>
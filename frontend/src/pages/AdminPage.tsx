@@ -6,9 +6,15 @@
 
 import { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { apiPost, apiGet } from '../utils/api';
+import { apiPost, apiGet, apiPatch } from '../utils/api';
 import { Button } from '@components/ui/Button';
-import type { SyncResult, VariantResult } from '../types/admin';
+import type {
+  AdminStylePreset,
+  ModerationQueueEvent,
+  PrintFileRegenerationResult,
+  SyncResult,
+  VariantResult,
+} from '../types/admin';
 
 interface EmailTemplate {
   name: string;
@@ -44,6 +50,18 @@ export default function AdminPage(): JSX.Element {
   const [emailPreview, setEmailPreview] = useState<EmailPreview | null>(null);
   const [emailLoading, setEmailLoading] = useState(false);
   const [emailError, setEmailError] = useState<string | null>(null);
+  const [printFileIds, setPrintFileIds] = useState('');
+  const [printFileLoading, setPrintFileLoading] = useState(false);
+  const [printFileError, setPrintFileError] = useState<string | null>(null);
+  const [printFileResults, setPrintFileResults] = useState<PrintFileRegenerationResult[]>([]);
+  const [moderationEvents, setModerationEvents] = useState<ModerationQueueEvent[]>([]);
+  const [moderationLoading, setModerationLoading] = useState(false);
+  const [moderationError, setModerationError] = useState<string | null>(null);
+  const [reviewingDesignId, setReviewingDesignId] = useState<string | null>(null);
+  const [stylePresets, setStylePresets] = useState<AdminStylePreset[]>([]);
+  const [styleLoading, setStyleLoading] = useState(false);
+  const [styleError, setStyleError] = useState<string | null>(null);
+  const [newStyle, setNewStyle] = useState({ key: '', label: '', promptSuffix: '' });
 
   if (!import.meta.env.DEV) {
     return (
@@ -73,6 +91,103 @@ export default function AdminPage(): JSX.Element {
     }
   };
 
+  const handleRegeneratePrintFiles = async () => {
+    setPrintFileLoading(true);
+    setPrintFileError(null);
+    try {
+      const designIds = printFileIds
+        .split(/[\s,]+/)
+        .map((id) => id.trim())
+        .filter(Boolean);
+      const response = await apiPost(
+        '/api/admin/print-files/regenerate',
+        designIds.length ? { designIds } : {}
+      );
+      const data: PrintFileRegenerationResult[] = response.data || [];
+      setPrintFileResults(data);
+      if (!data.length) {
+        setPrintFileError('No approved designs are missing a print file.');
+      }
+    } catch (err: any) {
+      setPrintFileError(err?.message || 'Failed to regenerate print files');
+      setPrintFileResults([]);
+    } finally {
+      setPrintFileLoading(false);
+    }
+  };
+
+  const handleLoadModeration = async () => {
+    setModerationLoading(true);
+    setModerationError(null);
+    try {
+      const response = await apiGet('/api/admin/moderation');
+      const data: ModerationQueueEvent[] = response.data || [];
+      setModerationEvents(data);
+      if (!data.length) {
+        setModerationError('Nothing is waiting for review.');
+      }
+    } catch (err: any) {
+      setModerationError(err?.message || 'Failed to load moderation queue');
+      setModerationEvents([]);
+    } finally {
+      setModerationLoading(false);
+    }
+  };
+
+  const handleReviewModeration = async (designId: string, decision: 'CLEARED' | 'REJECTED') => {
+    setReviewingDesignId(designId);
+    setModerationError(null);
+    try {
+      await apiPost(`/api/admin/moderation/designs/${designId}/review`, { decision });
+      setModerationEvents((events) => events.filter((event) => event.designId !== designId));
+    } catch (err: any) {
+      setModerationError(err?.message || 'Failed to record review');
+    } finally {
+      setReviewingDesignId(null);
+    }
+  };
+
+  const handleLoadStyles = async () => {
+    setStyleLoading(true);
+    setStyleError(null);
+    try {
+      const response = await apiGet('/api/admin/styles');
+      setStylePresets(response.data || []);
+    } catch (err: any) {
+      setStyleError(err?.message || 'Failed to load style presets');
+    } finally {
+      setStyleLoading(false);
+    }
+  };
+
+  const handleCreateStyle = async () => {
+    setStyleError(null);
+    try {
+      const response = await apiPost('/api/admin/styles', {
+        ...newStyle,
+        sortOrder: (stylePresets[stylePresets.length - 1]?.sortOrder ?? 0) + 10,
+      });
+      setStylePresets((presets) => [...presets, response.data]);
+      setNewStyle({ key: '', label: '', promptSuffix: '' });
+    } catch (err: any) {
+      setStyleError(err?.message || 'Failed to create style preset');
+    }
+  };
+
+  const handleToggleStyle = async (preset: AdminStylePreset) => {
+    setStyleError(null);
+    try {
+      const response = await apiPatch(`/api/admin/styles/${preset.id}`, {
+        active: !preset.active,
+      });
+      setStylePresets((presets) =>
+        presets.map((item) => (item.id === preset.id ? response.data : item))
+      );
+    } catch (err: any) {
+      setStyleError(err?.message || 'Failed to update style preset');
+    }
+  };
+
   return (
     <div className="container-max space-y-8 py-12">
       <div className="flex flex-wrap items-center justify-between gap-3">
@@ -221,6 +336,233 @@ export default function AdminPage(): JSX.Element {
             </div>
           )}
         </div>
+        <div className="space-y-3 rounded-lg border border-gray-200 bg-white p-5 dark:border-gray-700 dark:bg-gray-800">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Print Files</h2>
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            Rebuild 300 DPI print files sent to Printful. Leave empty to process approved designs
+            that don't have one yet.
+          </p>
+          <textarea
+            value={printFileIds}
+            onChange={(e) => setPrintFileIds(e.target.value)}
+            rows={3}
+            className="w-full rounded border border-gray-300 bg-white px-3 py-2 font-mono text-xs dark:border-gray-700 dark:bg-gray-900"
+            placeholder="Design IDs, one per line (optional)"
+          />
+          <Button
+            variant="primary"
+            onClick={handleRegeneratePrintFiles}
+            isDisabled={printFileLoading}
+          >
+            {printFileLoading ? 'Regenerating…' : 'Regenerate print files'}
+          </Button>
+          {printFileError && (
+            <p className="text-sm text-red-600 dark:text-red-400">{printFileError}</p>
+          )}
+          {printFileResults.length > 0 && (
+            <div className="max-h-80 overflow-auto rounded border border-gray-200 dark:border-gray-700">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-left dark:bg-gray-900/40">
+                  <tr>
+                    <th className="px-3 py-2">Design</th>
+                    <th className="px-3 py-2">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {printFileResults.map((row) => (
+                    <tr
+                      key={row.designId}
+                      className="border-t border-gray-200 dark:border-gray-700"
+                    >
+                      <td className="px-3 py-2 font-mono text-xs">{row.designId}</td>
+                      <td className="px-3 py-2">
+                        {row.error ? (
+                          <span className="text-red-600 dark:text-red-400">{row.error}</span>
+                        ) : (
+                          <a
+                            href={row.printFileUrl}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-primary-600 dark:text-primary-300"
+                          >
+                            {row.placement} · {row.width}×{row.height}px
+                          </a>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-3 rounded-lg border border-gray-200 bg-white p-6 dark:border-gray-700 dark:bg-gray-800">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Moderation Queue</h2>
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          Designs whose generated image was flagged, or couldn't be checked while moderation fails
+          closed. Held designs can't be approved or appear in the gallery until they are cleared.
+        </p>
+        <Button variant="primary" onClick={handleLoadModeration} isDisabled={moderationLoading}>
+          {moderationLoading ? 'Loading…' : 'Load pending reviews'}
+        </Button>
+        {moderationError && (
+          <p className="text-sm text-red-600 dark:text-red-400">{moderationError}</p>
+        )}
+        {moderationEvents.length > 0 && (
+          <div className="overflow-auto rounded border border-gray-200 dark:border-gray-700">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-left dark:bg-gray-900/40">
+                <tr>
+                  <th className="px-3 py-2">Design</th>
+                  <th className="px-3 py-2">Check</th>
+                  <th className="px-3 py-2">Top scores</th>
+                  <th className="px-3 py-2">Review</th>
+                </tr>
+              </thead>
+              <tbody>
+                {moderationEvents.map((event) => {
+                  const topScores = Object.entries(event.categoryScores || {})
+                    .sort(([, a], [, b]) => b - a)
+                    .slice(0, 3);
+                  const designId = event.designId;
+                  return (
+                    <tr key={event.id} className="border-t border-gray-200 dark:border-gray-700">
+                      <td className="px-3 py-2">
+                        <div className="flex items-center gap-3">
+                          {event.design?.thumbnailUrl || event.design?.imageUrl ? (
+                            <img
+                              src={event.design.thumbnailUrl || event.design.imageUrl || ''}
+                              alt=""
+                              className="h-12 w-12 rounded object-cover"
+                            />
+                          ) : null}
+                          <div>
+                            <p className="font-mono text-xs">{designId}</p>
+                            <p className="max-w-xs truncate text-xs text-gray-600 dark:text-gray-400">
+                              {event.design?.prompt}
+                            </p>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-3 py-2">
+                        {event.source} · {event.outcome}
+                        {event.error && (
+                          <p className="text-xs text-red-600 dark:text-red-400">{event.error}</p>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-xs">
+                        {topScores.length
+                          ? topScores
+                              .map(([category, score]) => `${category} ${score.toFixed(2)}`)
+                              .join(', ')
+                          : '—'}
+                      </td>
+                      <td className="px-3 py-2">
+                        {designId && (
+                          <div className="flex gap-2">
+                            <Button
+                              variant="success"
+                              size="sm"
+                              onClick={() => handleReviewModeration(designId, 'CLEARED')}
+                              isDisabled={reviewingDesignId === designId}
+                            >
+                              Clear
+                            </Button>
+                            <Button
+                              variant="danger"
+                              size="sm"
+                              onClick={() => handleReviewModeration(designId, 'REJECTED')}
+                              isDisabled={reviewingDesignId === designId}
+                            >
+                              Reject
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3 rounded-lg border border-gray-200 bg-white p-6 dark:border-gray-700 dark:bg-gray-800">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Style Presets</h2>
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          Styles customers pick when generating. Deactivate a style to retire it; descriptions,
+          previews, ordering and seasonal windows can be set through PATCH /api/admin/styles/:id.
+        </p>
+        <Button variant="primary" onClick={handleLoadStyles} isDisabled={styleLoading}>
+          {styleLoading ? 'Loading…' : 'Load styles'}
+        </Button>
+        {styleError && <p className="text-sm text-red-600 dark:text-red-400">{styleError}</p>}
+        {stylePresets.length > 0 && (
+          <>
+            <div className="overflow-auto rounded border border-gray-200 dark:border-gray-700">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-left dark:bg-gray-900/40">
+                  <tr>
+                    <th className="px-3 py-2">Key</th>
+                    <th className="px-3 py-2">Label</th>
+                    <th className="px-3 py-2">Prompt suffix</th>
+                    <th className="px-3 py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stylePresets.map((preset) => (
+                    <tr key={preset.id} className="border-t border-gray-200 dark:border-gray-700">
+                      <td className="px-3 py-2 font-mono text-xs">{preset.key}</td>
+                      <td className="px-3 py-2">{preset.label}</td>
+                      <td className="px-3 py-2 text-xs text-gray-600 dark:text-gray-400">
+                        {preset.promptSuffix}
+                      </td>
+                      <td className="px-3 py-2">
+                        <Button
+                          variant={preset.active ? 'secondary' : 'success'}
+                          size="sm"
+                          onClick={() => handleToggleStyle(preset)}
+                        >
+                          {preset.active ? 'Deactivate' : 'Activate'}
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="grid grid-cols-1 gap-2 md:grid-cols-4">
+              <input
+                value={newStyle.key}
+                onChange={(e) => setNewStyle({ ...newStyle, key: e.target.value })}
+                className="rounded border border-gray-300 bg-white px-3 py-2 font-mono text-xs dark:border-gray-700 dark:bg-gray-900"
+                placeholder="key (e.g. halloween)"
+              />
+              <input
+                value={newStyle.label}
+                onChange={(e) => setNewStyle({ ...newStyle, label: e.target.value })}
+                className="rounded border border-gray-300 bg-white px-3 py-2 text-sm dark:border-gray-700 dark:bg-gray-900"
+                placeholder="Label"
+              />
+              <input
+                value={newStyle.promptSuffix}
+                onChange={(e) => setNewStyle({ ...newStyle, promptSuffix: e.target.value })}
+                className="rounded border border-gray-300 bg-white px-3 py-2 text-sm dark:border-gray-700 dark:bg-gray-900"
+                placeholder="in a spooky, hand-drawn Halloween style"
+              />
+              <Button
+                variant="primary"
+                onClick={handleCreateStyle}
+                isDisabled={!newStyle.key || !newStyle.label || !newStyle.promptSuffix}
+              >
+                Add style
+              </Button>
+            </div>
+          </>
+        )}
       </div>
 
       {result && (
@@ -7,27 +7,66 @@
 import { useEffect, useRef, useState } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@clerk/clerk-react';
-import { apiGet, apiPost, apiPatch } from '../utils/api';
+import { apiGet, apiPost, apiPatch, apiPut } from '../utils/api';
 import { Button } from '@components/ui/Button';
+import {
+  DesignLineageTree,
+  DesignMaskEditor,
+  DesignRefinementThread,
+  PlacementMockup,
+  PlacementTabs,
+  PrintCheckWarnings,
+  PrintLocationPicker,
+  PrintPlacementEditor,
+  PromptLibraryPicker,
+  PromptPackSelect,
+  ReferenceImageDropzone,
+  TextLayerEditor,
+} from '@components/design';
+import type { DesignMaskEdit, PrintPlacementSelection } from '@components/design';
 import ProtectedRoute from '../components/ProtectedRoute';
 import { trackEvent } from '@utils/analytics';
 import { QUICKSTART_PROMPT_KEY } from '@utils/quickstart';
+import { getDesignStageLabel } from '@utils/designProgress';
+import { groupDesignsByBatch, isKeptDesign } from '@utils/designBatches';
+import { DESIGN_LINEAGE_LABELS, getDesignRelation } from '@utils/designLineage';
+import { getModerationHoldMessage } from '@utils/designModeration';
+import { getGenerationErrorMessage } from '@utils/generationQuota';
+import { fetchRandomPrompt } from '@utils/promptPacks';
+import {
+  TRANSPARENCY_GRID_STYLE,
+  getPrintPreviewUrl,
+  isBackgroundRemoved,
+} from '@utils/designPrint';
+import {
+  getOrderPlacements,
+  getPlacementLabel,
+  isRepositionable,
+  readItemPlacement,
+} from '@utils/printPlacement';
+import { useDesignStream } from '@hooks/useDesignStream';
+import { useDesignMockups } from '@hooks/useDesignMockups';
+import { usePrintChecks } from '@hooks/usePrintChecks';
+import { useStylePresets } from '@hooks/useStylePresets';
+import { useTextFonts } from '@hooks/useTextFonts';
 import type { Order } from '../types/order';
-import type { Design } from '../types/design';
+import type {
+  Design,
+  DesignBatchSummary,
+  DesignLineage,
+  DesignLineageNode,
+  DesignPlacement,
+  DesignRefinement,
+  ExtraPrintPlacement,
+  PromptEntry,
+  ReferenceImage,
+  TextLayer,
+} from '../types/design';
 import type { Product } from '../types/product';
-import previewBlack from '../assets/previewBlack.png';
-import previewWhite from '../assets/previewWhite.png';
-import previewGray from '../assets/previewGray.png';
-import previewNavy from '../assets/previewNavy.png';
-
-const STYLE_OPTIONS = [
-  { value: 'modern', label: 'Modern', description: 'Clean, minimalist with bold colors' },
-  { value: 'vintage', label: 'Vintage', description: 'Retro style with muted colors' },
-  { value: 'artistic', label: 'Artistic', description: 'Creative with expressive strokes' },
-  { value: 'playful', label: 'Playful', description: 'Fun with bright colors' },
-  { value: 'professional', label: 'Professional', description: 'Sophisticated and elegant' },
-  { value: 'trendy', label: 'Trendy', description: 'Contemporary design trends' },
-];
+import type { DesignStreamEvent, DesignStreamEventType } from '../types/designStream';
+
+const VARIATION_OPTIONS = [1, 2, 3, 4];
+const DEFAULT_VARIATIONS = 2;
 
 const PRESET_PROMPTS = [
   'Minimal line art wave, bold outline, no background',
@@ -71,11 +110,16 @@ function DesignContent(): JSX.Element {
   const [designs, setDesigns] = useState<Design[]>([]);
   const [prompt, setPrompt] = useState('');
   const [selectedStyle, setSelectedStyle] = useState('modern');
+  const stylePresets = useStylePresets();
   const [selectedColor, setSelectedColor] = useState<string | null>(null);
   const [selectedSize, setSelectedSize] = useState<string | null>(null);
   const [product, setProduct] = useState<Product | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isLoadingSurprise, setIsLoadingSurprise] = useState(false);
+  const [promptPack, setPromptPack] = useState('');
+  const [referenceImage, setReferenceImage] = useState<ReferenceImage | null>(null);
+  const [isUploadingReference, setIsUploadingReference] = useState(false);
+  const [referenceError, setReferenceError] = useState<string | null>(null);
   const [isApproving, setIsApproving] = useState<string | null>(null);
   const [variantMessage, setVariantMessage] = useState<string | null>(null);
   const [isCheckingOut, setIsCheckingOut] = useState(false);
@@ -83,17 +127,41 @@ function DesignContent(): JSX.Element {
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [expandedPrompts, setExpandedPrompts] = useState<Record<string, boolean>>({});
+  const [designStages, setDesignStages] = useState<Record<string, DesignStreamEventType>>({});
+  const [variationCount, setVariationCount] = useState(DEFAULT_VARIATIONS);
+  const [keepingDesignId, setKeepingDesignId] = useState<string | null>(null);
+  const [reopenedBatches, setReopenedBatches] = useState<Record<string, boolean>>({});
+  const [editingDesign, setEditingDesign] = useState<Design | null>(null);
+  const [isSubmittingEdit, setIsSubmittingEdit] = useState(false);
+  const [lineage, setLineage] = useState<DesignLineage | null>(null);
+  const [loadingLineageId, setLoadingLineageId] = useState<string | null>(null);
+  const [branchFrom, setBranchFrom] = useState<DesignLineageNode | null>(null);
+  const [updatingBackgroundId, setUpdatingBackgroundId] = useState<string | null>(null);
+  const [refinementThread, setRefinementThread] = useState<DesignRefinement[]>([]);
+  const [refineSourceId, setRefineSourceId] = useState<string | null>(null);
+  const [isProposingRefinement, setIsProposingRefinement] = useState(false);
+  const [busyRefinementId, setBusyRefinementId] = useState<string | null>(null);
+  const [textDesign, setTextDesign] = useState<Design | null>(null);
+  const [isSavingText, setIsSavingText] = useState(false);
+  const [placementDesign, setPlacementDesign] = useState<Design | null>(null);
+  const [isSavingPlacement, setIsSavingPlacement] = useState(false);
+  const [activePlacement, setActivePlacement] = useState<DesignPlacement>('front');
+  const [isSavingLocations, setIsSavingLocations] = useState(false);
+  const textFonts = useTextFonts();
   const hasTrackedOrderView = useRef(false);
   const hasLoadedQuickstartPrompt = useRef(false);
   const hasGeneratingDesign = designs.some((d) => d.status === 'GENERATING');
-
-  const previewMocks: Record<string, string> = {
-    black: previewBlack,
-    white: previewWhite,
-    gray: previewGray,
-    grey: previewGray,
-    navy: previewNavy,
-  };
+  // Each print location has its own designs; the studio shows one location at a time
+  const orderPlacements: DesignPlacement[] = getOrderPlacements(order?.items ?? []);
+  const currentPlacement = orderPlacements.includes(activePlacement) ? activePlacement : 'front';
+  const isOnPlacement = (d: Design, placement: DesignPlacement) =>
+    (d.placement ?? 'front') === placement;
+  const placementDesigns = designs.filter((d) => isOnPlacement(d, currentPlacement));
+  const frontDesigns = designs.filter((d) => isOnPlacement(d, 'front'));
+  const previewDesign =
+    frontDesigns.find((d) => d.status === 'COMPLETED' && d.imageUrl && isKeptDesign(d)) ||
+    frontDesigns.find((d) => d.status === 'COMPLETED' && d.imageUrl);
+  const designGroups = groupDesignsByBatch(placementDesigns);
 
   useEffect(() => {
     if (!orderId) {
@@ -119,6 +187,13 @@ function DesignContent(): JSX.Element {
     }
   }, [order]);
 
+  useEffect(() => {
+    // The default style may have been retired; the API rejects styles it no longer offers
+    if (stylePresets.length && !stylePresets.some((style) => style.key === selectedStyle)) {
+      setSelectedStyle(stylePresets[0].key);
+    }
+  }, [stylePresets, selectedStyle]);
+
   useEffect(() => {
     // Only hydrate from Quickstart once to avoid re-inserting after the user clears the field.
     if (hasLoadedQuickstartPrompt.current) return;
@@ -133,10 +208,92 @@ function DesignContent(): JSX.Element {
     hasLoadedQuickstartPrompt.current = true;
   }, [prompt]);
 
-  // Auto-refresh while any design is still uploading/generating so the image swaps to the
-  // permanent Supabase URL without a manual page refresh.
+  const handleStreamEvent = (event: DesignStreamEvent) => {
+    if (event.type === 'order.status_changed' && event.status) {
+      setOrder((prev) => (prev ? { ...prev, status: event.status as Order['status'] } : prev));
+      return;
+    }
+    if (!event.designId) return;
+    const designId = event.designId;
+
+    setDesignStages((prev) => ({ ...prev, [designId]: event.type }));
+
+    // `design.uploaded` carries the design when a late upload swapped in the stored image
+    if (
+      (event.type === 'design.completed' || event.type === 'design.uploaded') &&
+      event.data?.design
+    ) {
+      const completed = event.data.design;
+      setDesigns((prev) => prev.map((d) => (d.id === designId ? { ...d, ...completed } : d)));
+    } else if (event.type === 'design.failed') {
+      setDesigns((prev) =>
+        prev.map((d) =>
+          d.id === designId
+            ? {
+                ...d,
+                status: 'FAILED',
+                failureReason: event.data?.reason || null,
+                storageStatus: event.data?.storageStatus ?? d.storageStatus,
+              }
+            : d
+        )
+      );
+      // Failed generations release their slot server-side; refresh the counters
+      getAuthToken()
+        .then((token) => (token ? apiGet(`/api/orders/${orderId}`, token) : null))
+        .then((orderResponse) => orderResponse && setOrder(orderResponse.data as Order))
+        .catch((err) => console.error('Error refreshing order:', err));
+    }
+  };
+
+  // Live pipeline progress; polling below only runs while the stream is down.
+  const { connected: isStreamConnected } = useDesignStream({
+    orderId,
+    enabled: isAuthLoaded && !!isAuthed && !!order,
+    getToken: getAuthToken,
+    onSnapshot: (snapshot) => {
+      setDesigns(snapshot.designs);
+      setOrder((prev) =>
+        prev
+          ? {
+              ...prev,
+              status: snapshot.orderStatus,
+              designsGenerated: snapshot.designsGenerated,
+              maxDesigns: snapshot.maxDesigns,
+            }
+          : prev
+      );
+    },
+    onEvent: handleStreamEvent,
+  });
+
+  const printChecks = usePrintChecks({
+    designs: designs.filter(
+      (d) =>
+        d.status === 'COMPLETED' &&
+        !d.approvalStatus &&
+        !getModerationHoldMessage(d.moderationStatus)
+    ),
+    color: selectedColor,
+    getToken: getAuthToken,
+    enabled: isAuthLoaded && !!isAuthed,
+  });
+
+  // Shared links point at the mockup on the selected colour rather than the bare artwork
+  const mockups = useDesignMockups({
+    designs: designs.filter(
+      (d) => d.status === 'COMPLETED' && !getModerationHoldMessage(d.moderationStatus)
+    ),
+    color: selectedColor,
+    placementKey: order?.items?.[0] ? JSON.stringify(readItemPlacement(order.items[0])) : '',
+    getToken: getAuthToken,
+    enabled: isAuthLoaded && !!isAuthed,
+  });
+
+  // Fallback: auto-refresh while any design is still generating/uploading and the stream is
+  // unavailable, so the queued draft resolves to COMPLETED or FAILED without a manual refresh.
   useEffect(() => {
-    if (!hasGeneratingDesign || !orderId) {
+    if (!hasGeneratingDesign || !orderId || isStreamConnected) {
       return;
     }
 
@@ -147,7 +304,12 @@ function DesignContent(): JSX.Element {
         if (!token || cancelled) {
           return;
         }
-        await fetchDesigns(token);
+        const latest: Design[] = await fetchDesigns(token);
+        if (!cancelled && !latest.some((d) => d.status === 'GENERATING')) {
+          // Failed generations release their slot server-side; refresh the counters
+          const orderResponse = await apiGet(`/api/orders/${orderId}`, token);
+          setOrder(orderResponse.data as Order);
+        }
       } catch (err) {
         console.error('Error refreshing designs:', err);
       }
@@ -161,7 +323,7 @@ function DesignContent(): JSX.Element {
       cancelled = true;
       clearInterval(intervalId);
     };
-  }, [hasGeneratingDesign, orderId, getToken, isSignedIn]);
+  }, [hasGeneratingDesign, orderId, getToken, isSignedIn, isStreamConnected]);
 
   useEffect(() => {
     if (!product) return;
@@ -211,6 +373,14 @@ function DesignContent(): JSX.Element {
         design_count: loadedDesigns.length,
       });
 
+      // The refinement thread is secondary; the studio still works without it
+      try {
+        const threadResponse = await apiGet(`/api/designs/refinements?orderId=${orderId}`, token);
+        setRefinementThread(threadResponse.data || []);
+      } catch (threadErr) {
+        console.warn('Failed to load refinement thread:', threadErr);
+      }
+
       if (!firstItem?.product) {
         const productsResponse = await apiGet('/api/products');
         const match = (productsResponse.data || []).find(
@@ -242,13 +412,19 @@ function DesignContent(): JSX.Element {
   const handleSurpriseMe = async () => {
     try {
       setIsLoadingSurprise(true);
-      const response = await apiGet('/api/designs/random-prompt');
-      const promptText = response.data.prompt;
-      setPrompt(promptText);
+      const surprise = await fetchRandomPrompt(promptPack);
+      const style =
+        surprise.suggestedStyle &&
+        stylePresets.some((preset) => preset.key === surprise.suggestedStyle)
+          ? surprise.suggestedStyle
+          : selectedStyle;
+      setPrompt(surprise.prompt);
+      setSelectedStyle(style);
       trackEvent('design.prompt.randomized', {
         order_id: orderId,
-        prompt_length: promptText?.length ?? 0,
-        style: selectedStyle,
+        prompt_length: surprise.prompt.length,
+        style,
+        pack: surprise.pack.key,
       });
     } catch (err: any) {
       console.error('Error getting random prompt:', err);
@@ -258,6 +434,48 @@ function DesignContent(): JSX.Element {
     }
   };
 
+  const handleUploadReference = async (image: string) => {
+    if (!orderId) return;
+
+    try {
+      setIsUploadingReference(true);
+      setReferenceError(null);
+      const token = await getAuthToken();
+      if (!token) {
+        setReferenceError('Authentication required. Please sign in again.');
+        return;
+      }
+
+      const response = await apiPost(
+        '/api/designs/reference-images',
+        { orderId, image, rightsConfirmed: true },
+        token
+      );
+      const uploaded = response.data as ReferenceImage;
+      setReferenceImage(uploaded);
+      trackEvent('design.reference_image.upload', {
+        order_id: orderId,
+        reference_image_id: uploaded.id,
+        width: uploaded.width,
+        height: uploaded.height,
+      });
+    } catch (err: any) {
+      console.error('Error uploading reference image:', err);
+      setReferenceError(err.message || 'Unable to upload photo');
+    } finally {
+      setIsUploadingReference(false);
+    }
+  };
+
+  const handleClearReference = () => {
+    trackEvent('design.reference_image.remove', {
+      order_id: orderId,
+      reference_image_id: referenceImage?.id,
+    });
+    setReferenceImage(null);
+    setReferenceError(null);
+  };
+
   const handleGenerateDesign = async () => {
     if (!prompt.trim()) {
       setError('Please describe your idea or use Surprise Me');
@@ -292,6 +510,10 @@ function DesignContent(): JSX.Element {
         style: selectedStyle,
         remaining_designs: typeof remaining === 'number' ? remaining : null,
         tier: order?.designTier,
+        batch_size: variationCount,
+        parent_design_id: branchFrom?.id ?? null,
+        placement: currentPlacement,
+        has_reference_image: !!referenceImage,
       });
 
       trackEvent('design.started', {
@@ -306,17 +528,29 @@ function DesignContent(): JSX.Element {
           orderId,
           prompt: promptText,
           style: selectedStyle,
+          variations: variationCount,
+          parentDesignId: branchFrom?.id,
+          placement: currentPlacement,
+          referenceImageId: referenceImage?.id,
         },
         token
       );
 
-      // Add new design to the list
-      setDesigns((prev) => [response.data, ...prev]);
+      // Add the new batch's variations to the list
+      const batch: DesignBatchSummary = {
+        id: response.data.batchId,
+        size: response.data.batchSize,
+        selectedDesignId: null,
+      };
+      const queued = (response.data.designs as Design[]).map((d) => ({ ...d, batch }));
+      setDesigns((prev) => [...queued, ...prev]);
 
       // Clear prompt after successful generation
       setPrompt('');
+      setBranchFrom(null);
+      setLineage(null);
 
-      // Update order's design count
+      // A batch uses one design slot regardless of how many variations it has
       if (order) {
         setOrder({
           ...order,
@@ -326,17 +560,407 @@ function DesignContent(): JSX.Element {
 
       trackEvent('design.generate.success', {
         order_id: orderId,
-        design_id: response?.data?.id,
+        design_id: queued[0]?.id,
         style: selectedStyle,
+        batch_id: batch.id,
+        batch_size: batch.size,
       });
     } catch (err: any) {
       console.error('Error generating design:', err);
-      setError(err.message || 'Unable to create draft');
+      setError(getGenerationErrorMessage(err, 'Unable to create draft'));
     } finally {
       setIsGenerating(false);
     }
   };
 
+  const handleKeepVariation = async (design: Design) => {
+    if (!design.batchId) return;
+    const batchId = design.batchId;
+
+    try {
+      setKeepingDesignId(design.id);
+      setError(null);
+
+      const token = await getAuthToken();
+      if (!token) {
+        setError('Authentication required. Please sign in again.');
+        return;
+      }
+
+      const response = await apiPost(`/api/designs/${design.id}/select`, {}, token);
+      const batch = response.data as DesignBatchSummary;
+      setDesigns((prev) => prev.map((d) => (d.batchId === batchId ? { ...d, batch } : d)));
+      setReopenedBatches((prev) => ({ ...prev, [batchId]: false }));
+
+      trackEvent('design.batch.selected', {
+        order_id: orderId,
+        design_id: design.id,
+        batch_id: batchId,
+        batch_size: batch.size,
+        batch_index: design.batchIndex ?? null,
+      });
+    } catch (err: any) {
+      console.error('Error keeping variation:', err);
+      setError(err.message || 'Unable to keep this variation');
+    } finally {
+      setKeepingDesignId(null);
+    }
+  };
+
+  const handleToggleLineage = async (design: Design) => {
+    if (lineage?.designId === design.id) {
+      setLineage(null);
+      return;
+    }
+
+    try {
+      setLoadingLineageId(design.id);
+      setError(null);
+
+      const token = await getAuthToken();
+      if (!token) {
+        setError('Authentication required. Please sign in again.');
+        return;
+      }
+
+      const response = await apiGet(`/api/designs/${design.id}/lineage`, token);
+      const loaded = response.data as DesignLineage;
+      setLineage(loaded);
+
+      trackEvent('design.lineage.opened', {
+        order_id: orderId,
+        design_id: design.id,
+        ancestor_count: loaded.ancestors.length,
+      });
+    } catch (err: any) {
+      console.error('Error loading version history:', err);
+      setError(err.message || 'Unable to load version history');
+    } finally {
+      setLoadingLineageId(null);
+    }
+  };
+
+  const handleBranchFrom = (node: DesignLineageNode) => {
+    setBranchFrom(node);
+    setPrompt(node.prompt);
+    if (node.style) {
+      setSelectedStyle(node.style);
+    }
+    setLineage(null);
+    document.getElementById('prompt')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+    trackEvent('design.branch.start', {
+      order_id: orderId,
+      design_id: node.id,
+      relation: node.relation,
+    });
+  };
+
+  const handleSetBackground = async (design: Design, keepBackground: boolean) => {
+    try {
+      setUpdatingBackgroundId(design.id);
+      setError(null);
+
+      const token = await getAuthToken();
+      if (!token) {
+        setError('Authentication required. Please sign in again.');
+        return;
+      }
+
+      const response = await apiPatch(
+        `/api/designs/${design.id}/background`,
+        { keepBackground },
+        token
+      );
+      const updated = response.data as Design;
+      setDesigns((prev) => prev.map((d) => (d.id === updated.id ? { ...d, ...updated } : d)));
+
+      trackEvent('design.background.toggle', {
+        order_id: orderId,
+        design_id: design.id,
+        keep_background: keepBackground,
+      });
+    } catch (err: any) {
+      console.error('Error updating background choice:', err);
+      setError(err.message || 'Unable to update the background');
+    } finally {
+      setUpdatingBackgroundId(null);
+    }
+  };
+
+  const handleSaveTextLayers = async (layers: TextLayer[]) => {
+    if (!textDesign) return;
+    const designId = textDesign.id;
+
+    try {
+      setIsSavingText(true);
+      setError(null);
+
+      const token = await getAuthToken();
+      if (!token) {
+        setError('Authentication required. Please sign in again.');
+        return;
+      }
+
+      const response = await apiPut(`/api/designs/${designId}/text-layers`, { layers }, token);
+      const updated = response.data as Design;
+      setDesigns((prev) => prev.map((d) => (d.id === updated.id ? { ...d, ...updated } : d)));
+      setTextDesign(null);
+
+      trackEvent('design.text.save', {
+        order_id: orderId,
+        design_id: designId,
+        layer_count: layers.length,
+      });
+    } catch (err: any) {
+      console.error('Error saving text layers:', err);
+      setError(err.message || 'Unable to save the text');
+    } finally {
+      setIsSavingText(false);
+    }
+  };
+
+  const handleSavePlacement = async (selection: PrintPlacementSelection) => {
+    const item = order?.items?.[0];
+    if (!item) return;
+
+    try {
+      setIsSavingPlacement(true);
+      setError(null);
+
+      const token = await getAuthToken();
+      if (!token) {
+        setError('Authentication required. Please sign in again.');
+        return;
+      }
+
+      const response = await apiPut(
+        `/api/orders/${orderId}/items/${item.id}/placement`,
+        selection,
+        token
+      );
+      const updatedItem = response.data as Order['items'][number];
+      setOrder((prev) =>
+        prev
+          ? {
+              ...prev,
+              items: prev.items.map((i) =>
+                i.id === updatedItem.id ? { ...i, ...updatedItem } : i
+              ),
+            }
+          : prev
+      );
+      setPlacementDesign(null);
+
+      trackEvent('design.placement.save', {
+        order_id: orderId,
+        preset: selection.preset,
+        is_default: !selection.box,
+        width_in: selection.box?.width ?? null,
+      });
+    } catch (err: any) {
+      console.error('Error saving placement:', err);
+      setError(err.message || 'Unable to save the placement');
+    } finally {
+      setIsSavingPlacement(false);
+    }
+  };
+
+  const handleSubmitEdit = async ({ instruction, mask }: DesignMaskEdit) => {
+    if (!editingDesign) return;
+    const parentId = editingDesign.id;
+
+    try {
+      setIsSubmittingEdit(true);
+      setError(null);
+
+      const token = await getAuthToken();
+      if (!token) {
+        setError('Authentication required. Please sign in again.');
+        return;
+      }
+
+      trackEvent('design.edit.submit', {
+        order_id: orderId,
+        design_id: parentId,
+        prompt_length: instruction.length,
+      });
+
+      const response = await apiPost(`/api/designs/${parentId}/edit`, { instruction, mask }, token);
+
+      setDesigns((prev) => [response.data as Design, ...prev]);
+      if (order) {
+        setOrder({ ...order, designsGenerated: order.designsGenerated + 1 });
+      }
+      setEditingDesign(null);
+    } catch (err: any) {
+      console.error('Error editing design:', err);
+      setError(getGenerationErrorMessage(err, 'Unable to start this edit'));
+    } finally {
+      setIsSubmittingEdit(false);
+    }
+  };
+
+  const handleProposeRefinement = async (
+    source: Design | null,
+    instruction: string
+  ): Promise<boolean> => {
+    if (!source) return false;
+
+    try {
+      setIsProposingRefinement(true);
+      setError(null);
+
+      const token = await getAuthToken();
+      if (!token) {
+        setError('Authentication required. Please sign in again.');
+        return false;
+      }
+
+      trackEvent('design.refine.propose', {
+        order_id: orderId,
+        design_id: source.id,
+        prompt_length: instruction.length,
+      });
+
+      const response = await apiPost(`/api/designs/${source.id}/refine`, { instruction }, token);
+
+      // The server discards any earlier unconfirmed proposal on the order
+      setRefinementThread((prev) => [
+        ...prev.map((entry) =>
+          entry.status === 'PROPOSED' ? { ...entry, status: 'DISCARDED' as const } : entry
+        ),
+        response.data as DesignRefinement,
+      ]);
+      return true;
+    } catch (err: any) {
+      console.error('Error proposing refinement:', err);
+      setError(err.message || 'Unable to update the prompt');
+      return false;
+    } finally {
+      setIsProposingRefinement(false);
+    }
+  };
+
+  const handleConfirmRefinement = async (refinement: DesignRefinement, promptText: string) => {
+    try {
+      setBusyRefinementId(refinement.id);
+      setError(null);
+
+      const token = await getAuthToken();
+      if (!token) {
+        setError('Authentication required. Please sign in again.');
+        return;
+      }
+
+      const response = await apiPost(
+        `/api/designs/refinements/${refinement.id}/confirm`,
+        { prompt: promptText, variations: variationCount },
+        token
+      );
+
+      const batch: DesignBatchSummary = {
+        id: response.data.batchId,
+        size: response.data.batchSize,
+        selectedDesignId: null,
+      };
+      const queued = (response.data.designs as Design[]).map((d) => ({ ...d, batch }));
+      setDesigns((prev) => [...queued, ...prev]);
+      setRefinementThread((prev) =>
+        prev.map((entry) =>
+          entry.id === refinement.id ? { ...entry, ...response.data.refinement } : entry
+        )
+      );
+      setRefineSourceId(null);
+
+      if (order) {
+        setOrder({ ...order, designsGenerated: order.designsGenerated + 1 });
+      }
+
+      trackEvent('design.refine.confirm', {
+        order_id: orderId,
+        design_id: refinement.sourceDesignId,
+        batch_id: batch.id,
+        batch_size: batch.size,
+        prompt_edited: promptText !== refinement.mergedPrompt,
+      });
+    } catch (err: any) {
+      console.error('Error confirming refinement:', err);
+      setError(getGenerationErrorMessage(err, 'Unable to create this version'));
+    } finally {
+      setBusyRefinementId(null);
+    }
+  };
+
+  const handleDiscardRefinement = async (refinement: DesignRefinement) => {
+    try {
+      setBusyRefinementId(refinement.id);
+      setError(null);
+
+      const token = await getAuthToken();
+      if (!token) {
+        setError('Authentication required. Please sign in again.');
+        return;
+      }
+
+      await apiPost(`/api/designs/refinements/${refinement.id}/discard`, {}, token);
+      setRefinementThread((prev) =>
+        prev.map((entry) =>
+          entry.id === refinement.id ? { ...entry, status: 'DISCARDED' } : entry
+        )
+      );
+    } catch (err: any) {
+      console.error('Error discarding refinement:', err);
+      setError(err.message || 'Unable to discard this suggestion');
+    } finally {
+      setBusyRefinementId(null);
+    }
+  };
+
+  const handleSaveLocations = async (placements: ExtraPrintPlacement[]) => {
+    const item = order?.items?.[0];
+    if (!item) return;
+
+    try {
+      setIsSavingLocations(true);
+      setError(null);
+
+      const token = await getAuthToken();
+      if (!token) {
+        setError('Authentication required. Please sign in again.');
+        return;
+      }
+
+      const response = await apiPut(
+        `/api/orders/${orderId}/items/${item.id}/placements`,
+        { placements },
+        token
+      );
+      const updatedItem = response.data as Order['items'][number];
+      setOrder((prev) =>
+        prev
+          ? {
+              ...prev,
+              items: prev.items.map((i) =>
+                i.id === updatedItem.id ? { ...i, ...updatedItem } : i
+              ),
+            }
+          : prev
+      );
+
+      trackEvent('design.placements.save', {
+        order_id: orderId,
+        placements,
+        placement_count: placements.length,
+      });
+    } catch (err: any) {
+      console.error('Error saving print locations:', err);
+      setError(err.message || 'Unable to save the print locations');
+    } finally {
+      setIsSavingLocations(false);
+    }
+  };
+
   const handleApproveDesign = async (designId: string) => {
     try {
       setIsApproving(designId);
@@ -348,10 +972,12 @@ function DesignContent(): JSX.Element {
         setIsApproving(null);
         return;
       }
-      await apiPost(`/api/designs/${designId}/approve`, {}, token);
+      const response = await apiPost(`/api/designs/${designId}/approve`, {}, token);
+      const missingPlacements: DesignPlacement[] = response.data?.missingPlacements ?? [];
       trackEvent('design.approval.submit', {
         order_id: order?.id ?? orderId,
         design_id: designId,
+        print_score: printChecks[designId]?.result?.score ?? null,
       });
 
       trackEvent('design.approved', {
@@ -364,7 +990,16 @@ function DesignContent(): JSX.Element {
         prev.map((d) => (d.id === designId ? { ...d, approvalStatus: true } : d))
       );
 
-      // Update order status
+      // The order moves on once every print location has an approved design
+      if (missingPlacements.length) {
+        alert(
+          `Approved! Approve a design for the ${missingPlacements
+            .map((placement) => getPlacementLabel(placement).toLowerCase())
+            .join(', ')} to send your order for printing.`
+        );
+        return;
+      }
+
       if (order) {
         setOrder({ ...order, status: 'DESIGN_APPROVED' });
       }
@@ -424,7 +1059,7 @@ function DesignContent(): JSX.Element {
   const handleShareDesign = async (design: Design) => {
     const landingUrl =
       'https://gptees.app/?utm_source=customer_share&utm_medium=design&utm_campaign=ugc';
-    const shareTarget = design.imageUrl || landingUrl;
+    const shareTarget = mockups[design.id]?.mockup?.imageUrl || design.imageUrl || landingUrl;
     const shareText = `I just designed this custom tee on GPTees. What do you think? Start yours here: ${landingUrl}`;
 
     try {
@@ -492,6 +1127,26 @@ function DesignContent(): JSX.Element {
     });
   };
 
+  const handleRegenerateExpired = (design: Design) => {
+    setPrompt(design.prompt);
+    if (design.style && stylePresets.some((style) => style.key === design.style)) {
+      setSelectedStyle(design.style);
+    }
+    document.getElementById('prompt')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+    trackEvent('design.expired.regenerate', {
+      order_id: orderId,
+      design_id: design.id,
+    });
+  };
+
+  const handleLibrarySelect = (entry: PromptEntry) => {
+    setPrompt(entry.prompt);
+    if (entry.style && stylePresets.some((style) => style.key === entry.style)) {
+      setSelectedStyle(entry.style);
+    }
+  };
+
   if (!orderId) {
     return (
       <div className="container-max py-12">
@@ -537,6 +1192,23 @@ function DesignContent(): JSX.Element {
   const remainingDesigns =
     order.maxDesigns === 9999 ? 'unlimited' : order.maxDesigns - order.designsGenerated;
   const isPreviewOrder = order.status === 'PENDING_PAYMENT' || order.status === 'DESIGN_PENDING';
+  const placementItem = order.items?.[0];
+  const placementBox = placementItem ? readItemPlacement(placementItem) : null;
+  const canAdjustPlacement =
+    Boolean(placementItem) &&
+    isRepositionable(product?.category) &&
+    (isPreviewOrder || order.status === 'PAID');
+  const canChangeLocations =
+    Boolean(placementItem) && isRepositionable(product?.category) && isPreviewOrder;
+  const approvedPlacements = orderPlacements.filter((placement) =>
+    designs.some((d) => d.approvalStatus && isOnPlacement(d, placement))
+  );
+  const placementCounts = Object.fromEntries(
+    orderPlacements.map((placement) => [
+      placement,
+      designs.filter((d) => isOnPlacement(d, placement)).length,
+    ])
+  );
   const isPaidOrFulfillment =
     order.status === 'PAID' ||
     order.status === 'DESIGN_APPROVED' ||
@@ -548,6 +1220,12 @@ function DesignContent(): JSX.Element {
     order.status === 'DESIGN_PENDING' ||
     order.status === 'PENDING_PAYMENT';
   const hasReachedLimit = order.maxDesigns !== 9999 && order.designsGenerated >= order.maxDesigns;
+  const isRefinable = (design: Design) =>
+    design.status === 'COMPLETED' && design.moderationStatus !== 'REJECTED';
+  const refineSource =
+    designs.find((design) => design.id === refineSourceId && isRefinable(design)) ??
+    designs.find(isRefinable) ??
+    null;
   const generationBlockedMessage =
     order.status === 'SUBMITTED' || order.status === 'SHIPPED' || order.status === 'DELIVERED'
       ? 'Fulfillment has started for this order. Create a new preview to keep designing.'
@@ -665,50 +1343,53 @@ function DesignContent(): JSX.Element {
                   ))}
                 </div>
               </div>
+              {canChangeLocations && (
+                <PrintLocationPicker
+                  selected={placementItem?.placements?.map((row) => row.placement) ?? []}
+                  prices={product.placementPricing}
+                  isSaving={isSavingLocations}
+                  onChange={handleSaveLocations}
+                />
+              )}
               <p className="text-[11px] text-gray-500 dark:text-gray-400">
                 We capture this fit at checkout; once paid, it’s locked for printing.
               </p>
             </div>
 
-            {designs.length > 0 && (
+            {previewDesign && (
               <div className="space-y-2">
                 <p className="mb-2 text-xs font-semibold text-gray-700 dark:text-gray-300">
                   See it on all colors
                 </p>
                 <div className="grid grid-cols-2 gap-3">
-                  {product.colors.slice(0, 4).map((c) => {
-                    const mockKey = c.name.toLowerCase();
-                    const mockSrc = previewMocks[mockKey];
-                    return (
-                      <div
-                        key={c.name}
-                        className="overflow-hidden rounded-lg border border-gray-200 bg-gray-50 dark:border-gray-700 dark:bg-gray-900"
-                      >
-                        <div
-                          className="relative flex h-36 items-center justify-center"
-                          style={
-                            mockSrc
-                              ? {
-                                  backgroundImage: `url(${mockSrc})`,
-                                  backgroundSize: 'cover',
-                                  backgroundPosition: 'center',
-                                }
-                              : { backgroundColor: c.hex }
-                          }
-                        >
-                          <img
-                            src={designs[0].thumbnailUrl || designs[0].imageUrl}
-                            alt={designs[0].prompt}
-                            className="absolute inset-0 m-auto max-h-24 max-w-[70%] object-contain"
-                          />
-                        </div>
-                        <p className="py-1 text-center text-[11px] text-gray-800 dark:text-gray-100">
-                          {c.name}
-                        </p>
-                      </div>
-                    );
-                  })}
+                  {product.colors.slice(0, 4).map((c) => (
+                    <div
+                      key={c.name}
+                      className="overflow-hidden rounded-lg border border-gray-200 bg-gray-50 dark:border-gray-700 dark:bg-gray-900"
+                    >
+                      <PlacementMockup
+                        imageUrl={getPrintPreviewUrl(previewDesign)}
+                        color={c.name}
+                        colorHex={c.hex}
+                        box={placementBox}
+                        alt={previewDesign.prompt}
+                      />
+                      <p className="py-1 text-center text-[11px] text-gray-800 dark:text-gray-100">
+                        {c.name}
+                      </p>
+                    </div>
+                  ))}
                 </div>
+                {canAdjustPlacement && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => setPlacementDesign(previewDesign)}
+                    className="w-full"
+                  >
+                    Adjust placement
+                  </Button>
+                )}
               </div>
             )}
           </div>
@@ -737,10 +1418,27 @@ function DesignContent(): JSX.Element {
         </div>
       )}
 
+      {orderPlacements.length > 1 && (
+        <div className="mb-6">
+          <PlacementTabs
+            placements={orderPlacements}
+            active={currentPlacement}
+            approved={approvedPlacements}
+            counts={placementCounts}
+            onChange={setActivePlacement}
+          />
+        </div>
+      )}
+
       <div className="grid grid-cols-1 gap-8 lg:grid-cols-2">
         {/* Design Generator Form */}
         <div className="rounded-lg bg-white p-6 shadow dark:bg-gray-800">
           <h2 className="mb-4 text-xl font-bold text-gray-900 dark:text-white">Try a new idea</h2>
+          {orderPlacements.length > 1 && (
+            <p className="-mt-2 mb-4 font-sans text-sm text-gray-600 dark:text-gray-400">
+              New designs are for the {getPlacementLabel(currentPlacement).toLowerCase()}.
+            </p>
+          )}
 
           {!canGenerate && (
             <div className="mb-4 rounded-lg border border-yellow-200 bg-yellow-50 p-4 dark:border-yellow-800 dark:bg-yellow-900/20">
@@ -777,6 +1475,20 @@ function DesignContent(): JSX.Element {
             >
               Describe your idea
             </label>
+            {branchFrom && (
+              <div className="bg-primary-50 dark:bg-primary-900/20 mb-2 flex items-center justify-between gap-3 rounded-lg px-3 py-2">
+                <p className="line-clamp-1 font-sans text-xs text-gray-700 dark:text-gray-300">
+                  Branching from “{branchFrom.prompt}”
+                </p>
+                <button
+                  type="button"
+                  onClick={() => setBranchFrom(null)}
+                  className="text-primary-600 dark:text-primary-300 flex-shrink-0 font-sans text-xs font-semibold"
+                >
+                  Start fresh
+                </button>
+              </div>
+            )}
             <textarea
               id="prompt"
               rows={4}
@@ -786,8 +1498,29 @@ function DesignContent(): JSX.Element {
               disabled={!canGenerate || hasReachedLimit}
               className="focus:ring-primary-500 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 font-sans text-gray-900 focus:border-transparent focus:ring-2 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
             />
+            {isAuthed && (
+              <div className="mt-2">
+                <PromptLibraryPicker
+                  getToken={getAuthToken}
+                  surface="design"
+                  onSelect={handleLibrarySelect}
+                  isDisabled={!canGenerate || hasReachedLimit}
+                />
+              </div>
+            )}
           </div>
 
+          {/* Reference Photo */}
+          <ReferenceImageDropzone
+            value={referenceImage}
+            onUpload={handleUploadReference}
+            onClear={handleClearReference}
+            isUploading={isUploadingReference}
+            isDisabled={!canGenerate || hasReachedLimit}
+            error={referenceError}
+            className="mb-6"
+          />
+
           {/* Preset Prompts */}
           <div className="mb-6 hidden!">
             <p className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">Quick start</p>
@@ -818,31 +1551,72 @@ function DesignContent(): JSX.Element {
           </div>
 
           {/* Style Selector */}
-          <div className="mb-6 hidden!">
-            <label className="mb-3 block text-sm font-medium text-gray-700 dark:text-gray-300">
-              Choose Style
-            </label>
-            <div className="grid grid-cols-2 gap-3">
-              {STYLE_OPTIONS.map((style) => (
+          {stylePresets.length > 0 && (
+            <div className="mb-6">
+              <label className="mb-3 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Choose Style
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                {stylePresets.map((style) => (
+                  <button
+                    key={style.key}
+                    onClick={() => setSelectedStyle(style.key)}
+                    disabled={!canGenerate || hasReachedLimit}
+                    className={`flex items-start gap-3 rounded-lg border-2 p-3 text-left transition-all disabled:cursor-not-allowed disabled:opacity-50 ${
+                      selectedStyle === style.key
+                        ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                        : 'hover:border-primary-300 border-gray-200 dark:border-gray-700'
+                    }`}
+                  >
+                    {style.previewImageUrl && (
+                      <img
+                        src={style.previewImageUrl}
+                        alt=""
+                        className="h-10 w-10 flex-shrink-0 rounded object-cover"
+                      />
+                    )}
+                    <div>
+                      <div className="text-sm font-semibold text-gray-900 dark:text-white">
+                        {style.label}
+                      </div>
+                      {style.description && (
+                        <div className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                          {style.description}
+                        </div>
+                      )}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Variation Count */}
+          <div className="mb-4">
+            <p className="mb-2 font-sans text-sm font-medium text-gray-700 dark:text-gray-300">
+              Variations to compare
+            </p>
+            <div className="flex gap-2" role="group" aria-label="Variations to compare">
+              {VARIATION_OPTIONS.map((count) => (
                 <button
-                  key={style.value}
-                  onClick={() => setSelectedStyle(style.value)}
+                  key={count}
+                  type="button"
+                  onClick={() => setVariationCount(count)}
                   disabled={!canGenerate || hasReachedLimit}
-                  className={`rounded-lg border-2 p-3 text-left transition-all disabled:cursor-not-allowed disabled:opacity-50 ${
-                    selectedStyle === style.value
-                      ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
-                      : 'hover:border-primary-300 border-gray-200 dark:border-gray-700'
+                  aria-pressed={variationCount === count}
+                  className={`flex-1 rounded-lg border-2 py-2 font-sans text-sm font-semibold transition-all disabled:cursor-not-allowed disabled:opacity-50 ${
+                    variationCount === count
+                      ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20 text-gray-900 dark:text-white'
+                      : 'hover:border-primary-300 border-gray-200 text-gray-600 dark:border-gray-700 dark:text-gray-400'
                   }`}
                 >
-                  <div className="text-sm font-semibold text-gray-900 dark:text-white">
-                    {style.label}
-                  </div>
-                  <div className="mt-1 text-xs text-gray-600 dark:text-gray-400">
-                    {style.description}
-                  </div>
+                  {count}
                 </button>
               ))}
             </div>
+            <p className="mt-1 font-sans text-xs text-gray-500 dark:text-gray-400">
+              All variations count as one draft. Pick your favorite when they're ready.
+            </p>
           </div>
 
           {/* Generate Button */}
@@ -863,6 +1637,13 @@ function DesignContent(): JSX.Element {
           </Button>
 
           {/* Surprise Me Button */}
+          <PromptPackSelect
+            value={promptPack}
+            onChange={setPromptPack}
+            surface="design"
+            isDisabled={!canGenerate || hasReachedLimit || isLoadingSurprise}
+            className="mb-2"
+          />
           <Button
             variant="secondary"
             onClick={handleSurpriseMe}
@@ -875,12 +1656,34 @@ function DesignContent(): JSX.Element {
           <p className="mt-3 text-center font-sans text-xs text-gray-500 dark:text-gray-400">
             Takes 10-30 seconds
           </p>
+
+          {/* Conversational refinement */}
+          <div className="mt-6 border-t border-gray-200 pt-6 dark:border-gray-700">
+            <h3 className="mb-1 font-display text-lg font-bold text-gray-900 dark:text-white">
+              Refine a design
+            </h3>
+            <p className="mb-4 font-sans text-sm text-gray-600 dark:text-gray-400">
+              Describe one change and we&apos;ll rewrite the prompt for you to check before the next
+              version is created.
+            </p>
+            <DesignRefinementThread
+              thread={refinementThread}
+              designs={designs}
+              sourceDesign={refineSource}
+              canRefine={canGenerate && !hasReachedLimit}
+              isProposing={isProposingRefinement}
+              busyRefinementId={busyRefinementId}
+              onPropose={(instruction) => handleProposeRefinement(refineSource, instruction)}
+              onConfirm={handleConfirmRefinement}
+              onDiscard={handleDiscardRefinement}
+            />
+          </div>
         </div>
 
         {/* Generated Designs Display */}
         <div className="rounded-lg bg-white p-6 shadow dark:bg-gray-800">
           <h2 className="mb-4 font-display text-xl font-bold text-gray-900 dark:text-white">
-            Your Designs ({designs.length})
+            Your Designs ({placementDesigns.length})
           </h2>
           <p className="mb-3 font-sans text-sm text-gray-600 dark:text-gray-400">
             Review your options and select one to print.
@@ -891,7 +1694,7 @@ function DesignContent(): JSX.Element {
             </div>
           )}
 
-          {designs.length === 0 && (
+          {placementDesigns.length === 0 && (
             <div className="py-12 text-center">
               <div className="mb-4 text-6xl">🎨</div>
               <p className="font-sans text-gray-600 dark:text-gray-400">
@@ -901,121 +1704,400 @@ function DesignContent(): JSX.Element {
           )}
 
           <div className="max-h-[600px] space-y-4 overflow-y-auto">
-            {designs.map((design) => (
-              <div
-                key={design.id}
-                className="overflow-hidden rounded-lg border border-gray-200 dark:border-gray-700"
-              >
-                {/* Design Image */}
-                <div className="relative bg-gray-100 dark:bg-gray-900">
-                  <img
-                    src={design.thumbnailUrl || design.imageUrl}
-                    alt={design.prompt}
-                    className="h-64 w-full object-contain"
-                  />
-                  {design.status === 'GENERATING' && (
-                    <div className="bg-opacity-50 absolute inset-0 flex items-center justify-center bg-black">
-                      <div className="text-center text-white">
-                        <div className="mx-auto mb-2 h-8 w-8 animate-spin rounded-full border-b-2 border-white"></div>
-                        <p className="font-sans text-sm">Finalizing...</p>
-                      </div>
+            {designGroups.map((group) => {
+              const isPicking =
+                group.designs.length > 1 &&
+                (!group.selectedDesignId || reopenedBatches[group.key]);
+
+              if (isPicking) {
+                return (
+                  <div
+                    key={group.key}
+                    className="rounded-lg border border-gray-200 p-4 dark:border-gray-700"
+                  >
+                    <p className="font-sans text-sm font-semibold text-gray-900 dark:text-white">
+                      Pick your favorite
+                    </p>
+                    <p className="mb-3 line-clamp-2 font-sans text-xs text-gray-600 dark:text-gray-400">
+                      {group.designs.length} variations of “{group.designs[0].prompt}”
+                    </p>
+                    <div className="grid grid-cols-2 gap-3">
+                      {group.designs.map((variation) => (
+                        <div
+                          key={variation.id}
+                          className={`overflow-hidden rounded-lg border-2 ${
+                            group.selectedDesignId === variation.id
+                              ? 'border-primary-500'
+                              : 'border-gray-200 dark:border-gray-700'
+                          }`}
+                        >
+                          <div className="relative bg-gray-100 dark:bg-gray-900">
+                            {variation.imageUrl ? (
+                              <img
+                                src={variation.thumbnailUrl || variation.imageUrl}
+                                alt={variation.prompt}
+                                className="h-40 w-full object-contain"
+                              />
+                            ) : (
+                              <div className="h-40 w-full" aria-hidden="true" />
+                            )}
+                            {variation.status === 'GENERATING' && (
+                              <div className="bg-opacity-50 absolute inset-0 flex items-center justify-center bg-black">
+                                <div className="text-center text-white">
+                                  <div className="mx-auto mb-2 h-6 w-6 animate-spin rounded-full border-b-2 border-white"></div>
+                                  <p className="font-sans text-xs">
+                                    {variation.imageUrl
+                                      ? 'Finalizing...'
+                                      : getDesignStageLabel(designStages[variation.id])}
+                                  </p>
+                                </div>
+                              </div>
+                            )}
+                            {variation.status === 'FAILED' && (
+                              <div className="absolute inset-0 flex items-center justify-center p-3">
+                                <p className="text-center font-sans text-xs text-red-700 dark:text-red-400">
+                                  {variation.failureReason || 'This variation couldn’t be generated.'}
+                                </p>
+                              </div>
+                            )}
+                          </div>
+                          <div className="p-2">
+                            <Button
+                              variant={group.selectedDesignId === variation.id ? 'primary' : 'secondary'}
+                              size="sm"
+                              onClick={() => handleKeepVariation(variation)}
+                              isDisabled={
+                                variation.status !== 'COMPLETED' || keepingDesignId !== null
+                              }
+                              className="w-full"
+                            >
+                              {keepingDesignId === variation.id
+                                ? 'Keeping...'
+                                : group.selectedDesignId === variation.id
+                                  ? 'Kept'
+                                  : 'Keep this one'}
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
                     </div>
-                  )}
-                  {design.approvalStatus && (
-                    <div className="absolute top-2 right-2 rounded-full bg-green-500 px-3 py-1 text-xs font-semibold text-white">
-                      Approved
+                    {group.designs.every((d) => d.status === 'FAILED') && (
+                      <p className="mt-3 font-sans text-xs text-gray-600 dark:text-gray-400">
+                        None of these variations could be generated. It didn’t count against your
+                        drafts.
+                      </p>
+                    )}
+                  </div>
+                );
+              }
+
+              const design =
+                group.designs.find((d) => d.id === group.selectedDesignId) || group.designs[0];
+
+              return (
+                <div key={group.key} className="space-y-2">
+                  <div className="overflow-hidden rounded-lg border border-gray-200 dark:border-gray-700">
+                      {/* Design Image */}
+                      <div
+                        className="relative bg-gray-100 dark:bg-gray-900"
+                        style={isBackgroundRemoved(design) ? TRANSPARENCY_GRID_STYLE : undefined}
+                      >
+                        {design.imageUrl ? (
+                          <img
+                            src={getPrintPreviewUrl(design)}
+                            alt={design.prompt}
+                            className="h-64 w-full object-contain"
+                          />
+                        ) : (
+                          <div className="h-64 w-full" aria-hidden="true" />
+                        )}
+                        {design.status === 'GENERATING' && (
+                          <div className="bg-opacity-50 absolute inset-0 flex items-center justify-center bg-black">
+                            <div className="text-center text-white">
+                              <div className="mx-auto mb-2 h-8 w-8 animate-spin rounded-full border-b-2 border-white"></div>
+                              <p className="font-sans text-sm">
+                                {design.imageUrl
+                                  ? 'Finalizing...'
+                                  : getDesignStageLabel(designStages[design.id])}
+                              </p>
+                            </div>
+                          </div>
+                        )}
+                        {design.status === 'FAILED' && (
+                          <div className="absolute inset-0 flex items-center justify-center p-6">
+                            <div className="text-center">
+                              <p className="font-sans text-sm font-semibold text-red-700 dark:text-red-400">
+                                {design.storageStatus === 'EXPIRED'
+                                  ? 'This draft expired before it was saved'
+                                  : 'This draft couldn’t be generated'}
+                              </p>
+                              <p className="mt-1 font-sans text-xs text-gray-600 dark:text-gray-400">
+                                {design.failureReason || 'Please try again with a new prompt.'} It
+                                didn’t count against your drafts.
+                              </p>
+                              {design.storageStatus === 'EXPIRED' && (
+                                <Button
+                                  variant="secondary"
+                                  size="sm"
+                                  onClick={() => handleRegenerateExpired(design)}
+                                  className="mt-3"
+                                >
+                                  Regenerate
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                        )}
+                        {design.approvalStatus && (
+                          <div className="absolute top-2 right-2 rounded-full bg-green-500 px-3 py-1 text-xs font-semibold text-white">
+                            Approved
+                          </div>
+                        )}
+                      </div>
+
+                      {/* Design Info */}
+                      <div className="p-4">
+                        <div className="mb-2 space-y-1">
+                          <p
+                            className={`font-sans text-sm text-gray-600 dark:text-gray-400 ${expandedPrompts[design.id] ? '' : 'line-clamp-3'}`}
+                          >
+                            <strong>Description:</strong> {design.prompt}
+                          </p>
+                          {design.prompt.length > 140 && (
+                            <button
+                              type="button"
+                              onClick={() => togglePrompt(design.id)}
+                              className="text-primary-600 dark:text-primary-300 font-sans text-xs font-semibold"
+                            >
+                              {expandedPrompts[design.id] ? 'Show less' : 'See full description'}
+                            </button>
+                          )}
+                        </div>
+                        <p className="mb-2 font-sans text-xs text-gray-500 dark:text-gray-500">
+                          {design.parentDesignId &&
+                            `${DESIGN_LINEAGE_LABELS[getDesignRelation(design, designs)]} · `}
+                          <button
+                            type="button"
+                            onClick={() => handleToggleLineage(design)}
+                            disabled={loadingLineageId !== null}
+                            className="text-primary-600 dark:text-primary-300 font-semibold"
+                          >
+                            {loadingLineageId === design.id
+                              ? 'Loading history...'
+                              : lineage?.designId === design.id
+                                ? 'Hide version history'
+                                : 'Version history'}
+                          </button>
+                        </p>
+                        {design.style && (
+                          <p className="mb-2 font-sans text-xs text-gray-500 dark:text-gray-500">
+                            <strong>Style:</strong> {design.style}
+                          </p>
+                        )}
+                        {design.transparentImageUrl &&
+                          design.status === 'COMPLETED' &&
+                          !design.approvalStatus && (
+                            <div className="mb-2 flex items-center gap-2">
+                              <span className="font-sans text-xs text-gray-500 dark:text-gray-500">
+                                <strong>Background:</strong>
+                              </span>
+                              {[
+                                { keep: false, label: 'Remove' },
+                                { keep: true, label: 'Keep' },
+                              ].map((option) => (
+                                <button
+                                  key={option.label}
+                                  type="button"
+                                  onClick={() => handleSetBackground(design, option.keep)}
+                                  disabled={
+                                    updatingBackgroundId !== null ||
+                                    Boolean(design.keepBackground) === option.keep
+                                  }
+                                  aria-pressed={Boolean(design.keepBackground) === option.keep}
+                                  className={`rounded-full border px-3 py-1 font-sans text-xs ${
+                                    Boolean(design.keepBackground) === option.keep
+                                      ? 'border-primary-500 text-primary-600 dark:text-primary-300'
+                                      : 'border-gray-300 text-gray-600 dark:border-gray-600 dark:text-gray-400'
+                                  }`}
+                                >
+                                  {option.label}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        <p className="mb-3 font-sans text-xs text-gray-500 dark:text-gray-500">
+                          {new Date(design.createdAt).toLocaleString()}
+                        </p>
+
+                        {!design.approvalStatus && design.status === 'COMPLETED' && (
+                          <PrintCheckWarnings check={printChecks[design.id]} className="mb-3" />
+                        )}
+
+                        {!design.approvalStatus &&
+                          getModerationHoldMessage(design.moderationStatus) && (
+                            <p className="mb-3 rounded-lg bg-yellow-50 p-3 font-sans text-xs text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300">
+                              {getModerationHoldMessage(design.moderationStatus)}
+                            </p>
+                          )}
+
+                        <div className="sticky bottom-0 mt-3 flex flex-col gap-2 border-t border-gray-200 bg-white py-3 sm:static sm:flex-row sm:border-0 sm:py-0 dark:border-gray-700 dark:bg-gray-800">
+                          {!design.approvalStatus &&
+                            design.status === 'COMPLETED' &&
+                            !getModerationHoldMessage(design.moderationStatus) &&
+                            (isPaidOrFulfillment ? (
+                              <Button
+                                variant="primary"
+                                size="sm"
+                                onClick={() => handleApproveDesign(design.id)}
+                                disabled={isApproving === design.id}
+                                className="w-full sm:w-auto"
+                              >
+                                {isApproving === design.id ? (
+                                  <span className="flex items-center justify-center gap-2">
+                                    <div className="h-3 w-3 animate-spin rounded-full border-b-2 border-white"></div>
+                                    Approving...
+                                  </span>
+                                ) : (
+                                  'Approve & submit'
+                                )}
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="primary"
+                                size="sm"
+                                onClick={handleCheckoutRedirect}
+                                className="w-full sm:w-auto"
+                                disabled={isCheckingOut}
+                              >
+                                Print this tee
+                              </Button>
+                            ))}
+
+                          {canGenerate && !hasReachedLimit && !design.approvalStatus && (
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              onClick={() => setEditingDesign(design)}
+                              isDisabled={design.status !== 'COMPLETED'}
+                              className="w-full sm:w-auto"
+                            >
+                              Edit an area
+                            </Button>
+                          )}
+
+                          {canGenerate && !hasReachedLimit && !design.approvalStatus && (
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              onClick={() => setRefineSourceId(design.id)}
+                              isDisabled={!isRefinable(design)}
+                              className="w-full sm:w-auto"
+                            >
+                              Refine
+                            </Button>
+                          )}
+
+                          {!design.approvalStatus && design.status === 'COMPLETED' && (
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              onClick={() => setTextDesign(design)}
+                              className="w-full sm:w-auto"
+                            >
+                              {design.textLayers?.length ? 'Edit text' : 'Add text'}
+                            </Button>
+                          )}
+
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            onClick={() => handleShareDesign(design)}
+                            isDisabled={design.status !== 'COMPLETED'}
+                            className="w-full sm:w-auto"
+                          >
+                            Share link
+                          </Button>
+                        </div>
+
+                        {design.approvalStatus && (
+                          <div className="mt-3 rounded-lg bg-green-50 p-3 text-center dark:bg-green-900/20">
+                            <p className="font-sans text-sm font-semibold text-green-800 dark:text-green-400">
+                              Approved! Order submitted for printing.
+                            </p>
+                          </div>
+                        )}
+
+                        <p className="mt-2 font-sans text-xs text-gray-500 dark:text-gray-500">
+                          We'll copy a link if sharing isn't available on your device.
+                        </p>
+                      </div>
+                  </div>
+                  {lineage?.designId === design.id && (
+                    <div className="rounded-lg border border-gray-200 p-3 dark:border-gray-700">
+                      <DesignLineageTree
+                        lineage={lineage}
+                        canBranch={canGenerate && !hasReachedLimit}
+                        onBranch={handleBranchFrom}
+                      />
                     </div>
                   )}
-                </div>
-
-                {/* Design Info */}
-                <div className="p-4">
-                  <div className="mb-2 space-y-1">
-                    <p
-                      className={`font-sans text-sm text-gray-600 dark:text-gray-400 ${expandedPrompts[design.id] ? '' : 'line-clamp-3'}`}
-                    >
-                      <strong>Description:</strong> {design.prompt}
-                    </p>
-                    {design.prompt.length > 140 && (
+                  {group.designs.length > 1 && (
+                    <p className="font-sans text-xs text-gray-500 dark:text-gray-400">
+                      Kept from {group.designs.length} variations ·{' '}
                       <button
                         type="button"
-                        onClick={() => togglePrompt(design.id)}
-                        className="text-primary-600 dark:text-primary-300 font-sans text-xs font-semibold"
+                        onClick={() =>
+                          setReopenedBatches((prev) => ({ ...prev, [group.key]: true }))
+                        }
+                        className="text-primary-600 dark:text-primary-300 font-semibold"
                       >
-                        {expandedPrompts[design.id] ? 'Show less' : 'See full description'}
+                        Change pick
                       </button>
-                    )}
-                  </div>
-                  {design.style && (
-                    <p className="mb-2 font-sans text-xs text-gray-500 dark:text-gray-500">
-                      <strong>Style:</strong> {design.style}
                     </p>
                   )}
-                  <p className="mb-3 font-sans text-xs text-gray-500 dark:text-gray-500">
-                    {new Date(design.createdAt).toLocaleString()}
-                  </p>
-
-                  <div className="sticky bottom-0 mt-3 flex flex-col gap-2 border-t border-gray-200 bg-white py-3 sm:static sm:flex-row sm:border-0 sm:py-0 dark:border-gray-700 dark:bg-gray-800">
-                    {!design.approvalStatus &&
-                      design.status === 'COMPLETED' &&
-                      (isPaidOrFulfillment ? (
-                        <Button
-                          variant="primary"
-                          size="sm"
-                          onClick={() => handleApproveDesign(design.id)}
-                          disabled={isApproving === design.id}
-                          className="w-full sm:w-auto"
-                        >
-                          {isApproving === design.id ? (
-                            <span className="flex items-center justify-center gap-2">
-                              <div className="h-3 w-3 animate-spin rounded-full border-b-2 border-white"></div>
-                              Approving...
-                            </span>
-                          ) : (
-                            'Approve & submit'
-                          )}
-                        </Button>
-                      ) : (
-                        <Button
-                          variant="primary"
-                          size="sm"
-                          onClick={handleCheckoutRedirect}
-                          className="w-full sm:w-auto"
-                          disabled={isCheckingOut}
-                        >
-                          Print this tee
-                        </Button>
-                      ))}
-
-                    <Button
-                      variant="secondary"
-                      size="sm"
-                      onClick={() => handleShareDesign(design)}
-                      isDisabled={design.status !== 'COMPLETED'}
-                      className="w-full sm:w-auto"
-                    >
-                      Share link
-                    </Button>
-                  </div>
-
-                  {design.approvalStatus && (
-                    <div className="mt-3 rounded-lg bg-green-50 p-3 text-center dark:bg-green-900/20">
-                      <p className="font-sans text-sm font-semibold text-green-800 dark:text-green-400">
-                        Approved! Order submitted for printing.
-                      </p>
-                    </div>
-                  )}
-
-                  <p className="mt-2 font-sans text-xs text-gray-500 dark:text-gray-500">
-                    We'll copy a link if sharing isn't available on your device.
-                  </p>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       </div>
 
+      {editingDesign && (
+        <DesignMaskEditor
+          design={editingDesign}
+          isOpen={!!editingDesign}
+          isSubmitting={isSubmittingEdit}
+          onClose={() => setEditingDesign(null)}
+          onSubmit={handleSubmitEdit}
+        />
+      )}
+
+      {textDesign && (
+        <TextLayerEditor
+          design={textDesign}
+          fonts={textFonts}
+          isOpen={!!textDesign}
+          isSaving={isSavingText}
+          onClose={() => setTextDesign(null)}
+          onSave={handleSaveTextLayers}
+        />
+      )}
+
+      {placementDesign && placementItem && (
+        <PrintPlacementEditor
+          design={placementDesign}
+          color={selectedColor || placementItem.color}
+          colorHex={
+            product?.colors.find((c) => c.name === (selectedColor || placementItem.color))?.hex
+          }
+          item={placementItem}
+          isOpen={!!placementDesign}
+          isSaving={isSavingPlacement}
+          onClose={() => setPlacementDesign(null)}
+          onSave={handleSavePlacement}
+        />
+      )}
+
       {/* Back Button */}
       <div className="mt-8 text-center">
         <Button variant="secondary" onClick={() => navigate('/account')}>
@@ -9,7 +9,19 @@ import { Link, useParams } from 'react-router-dom';
 import { useAuth } from '@clerk/clerk-react';
 import { apiGet, apiPost } from '../utils/api';
 import { Button } from '@components/ui/Button';
+import { PlacementMockup, PrintCheckWarnings } from '@components/design';
+import { useDesignMockups } from '@hooks/useDesignMockups';
+import { usePrintChecks } from '@hooks/usePrintChecks';
 import { trackEvent } from '@utils/analytics';
+import { getModerationHoldMessage } from '@utils/designModeration';
+import { getPrintPreviewUrl } from '@utils/designPrint';
+import {
+  describePlacement,
+  getOrderPlacements,
+  getPlacementLabel,
+  isRepositionable,
+  readItemPlacement,
+} from '@utils/printPlacement';
 import type { Order, DesignPreview } from '../types/order';
 
 /**
@@ -35,6 +47,31 @@ function OrderDetailContent(): JSX.Element {
   const [isApproving, setIsApproving] = useState<string | null>(null);
   const [shareFeedback, setShareFeedback] = useState<string | null>(null);
 
+  const printChecks = usePrintChecks({
+    designs: (order?.designs ?? []).filter(
+      (d) =>
+        d.status === 'COMPLETED' &&
+        !d.approvalStatus &&
+        !getModerationHoldMessage(d.moderationStatus)
+    ),
+    color: order?.items?.[0]?.color ?? null,
+    getToken,
+    enabled: isLoaded && !!isSignedIn && !order?.designs.some((d) => d.approvalStatus),
+  });
+
+  const mockupItem = order?.items?.[0];
+  const mockups = useDesignMockups({
+    designs: (order?.designs ?? []).filter(
+      (d) =>
+        (d.status === 'COMPLETED' || d.approvalStatus) &&
+        !getModerationHoldMessage(d.moderationStatus)
+    ),
+    color: mockupItem?.color ?? null,
+    placementKey: mockupItem ? JSON.stringify(readItemPlacement(mockupItem)) : '',
+    getToken,
+    enabled: isLoaded && !!isSignedIn,
+  });
+
   const formatStatus = (status?: string | null) =>
     status ? status.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase()) : 'Unknown';
 
@@ -94,16 +131,18 @@ function OrderDetailContent(): JSX.Element {
         setIsApproving(null);
         return;
       }
-      await apiPost(`/api/designs/${designId}/approve`, {}, token);
+      const response = await apiPost(`/api/designs/${designId}/approve`, {}, token);
+      const hasMissingPlacements = Boolean(response.data?.missingPlacements?.length);
       setOrder({
         ...order,
-        status: 'DESIGN_APPROVED',
+        status: hasMissingPlacements ? order.status : 'DESIGN_APPROVED',
         designs: order.designs.map((d) => (d.id === designId ? { ...d, approvalStatus: true } : d)),
       });
       trackEvent('design.approval.submit', {
         order_id: order.id,
         design_id: designId,
         surface: 'order_detail',
+        print_score: printChecks[designId]?.result?.score ?? null,
       });
     } catch (err: any) {
       console.error('Error approving design:', err);
@@ -122,7 +161,7 @@ function OrderDetailContent(): JSX.Element {
   const handleShareDesign = async (design: DesignPreview) => {
     const landingUrl =
       'https://gptees.app/?utm_source=customer_share&utm_medium=design&utm_campaign=ugc';
-    const shareTarget = design.imageUrl || landingUrl;
+    const shareTarget = mockups[design.id]?.mockup?.imageUrl || design.imageUrl || landingUrl;
     const shareText = `I just designed this custom tee on GPTees. What do you think? Start yours here: ${landingUrl}`;
 
     try {
@@ -207,6 +246,9 @@ function OrderDetailContent(): JSX.Element {
   }
 
   const approvedDesignId = order.designs.find((d) => d.approvalStatus)?.id;
+  const placedDesign =
+    order.designs.find((d) => d.approvalStatus) ??
+    order.designs.find((d) => d.status === 'COMPLETED');
 
   return (
     <div className="container-max space-y-6 py-8">
@@ -254,21 +296,57 @@ function OrderDetailContent(): JSX.Element {
             <h2 className="mb-3 text-lg font-semibold text-gray-900 dark:text-white">Items</h2>
 
             <div className="space-y-3">
-              {order.items.map((item) => (
-                <div key={item.id} className="flex justify-between">
-                  <div className="text-gray-800 dark:text-gray-200">
-                    <p className="font-semibold">{item.product?.name || 'Product'}</p>
+              {order.items.map((item) => {
+                const product = item.product && 'category' in item.product ? item.product : null;
+                const showPlacement = Boolean(placedDesign) && isRepositionable(product?.category);
+                const placedMockup = placedDesign ? mockups[placedDesign.id]?.mockup : null;
+
+                return (
+                  <div key={item.id} className="flex justify-between gap-4">
+                    {showPlacement && placedMockup?.color === item.color && (
+                      <img
+                        src={placedMockup.imageUrl}
+                        alt={placedDesign?.prompt}
+                        className="w-24 shrink-0 rounded-lg"
+                      />
+                    )}
+                    {showPlacement && placedDesign && placedMockup?.color !== item.color && (
+                      <PlacementMockup
+                        imageUrl={getPrintPreviewUrl(placedDesign)}
+                        color={item.color}
+                        colorHex={product?.colors.find((c) => c.name === item.color)?.hex}
+                        box={readItemPlacement(item)}
+                        alt={placedDesign.prompt}
+                        className="w-24 shrink-0 rounded-lg"
+                      />
+                    )}
+
+                    <div className="flex-1 text-gray-800 dark:text-gray-200">
+                      <p className="font-semibold">{item.product?.name || 'Product'}</p>
+
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {item.size} | {item.color} | Qty {item.quantity}
+                      </p>
 
-                    <p className="text-sm text-gray-600 dark:text-gray-400">
-                      {item.size} | {item.color} | Qty {item.quantity}
-                    </p>
-                  </div>
+                      {showPlacement && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {describePlacement(readItemPlacement(item), item.placementPreset)}
+                        </p>
+                      )}
+
+                      {Boolean(item.placements?.length) && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          Prints on: {getOrderPlacements([item]).map(getPlacementLabel).join(', ')}
+                        </p>
+                      )}
+                    </div>
 
-                  <div className="font-semibold text-gray-900 dark:text-white">
-                    ${(Number(item.unitPrice) * item.quantity).toFixed(2)}
+                    <div className="font-semibold text-gray-900 dark:text-white">
+                      ${(Number(item.unitPrice) * item.quantity).toFixed(2)}
+                    </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </div>
 
@@ -295,7 +373,7 @@ function OrderDetailContent(): JSX.Element {
                 >
                   <div className="bg-gray-100 dark:bg-gray-900">
                     <img
-                      src={design.imageUrl}
+                      src={mockups[design.id]?.mockup?.imageUrl || design.imageUrl}
                       alt={design.prompt}
                       className="h-48 w-full object-contain"
                     />
@@ -313,7 +391,19 @@ function OrderDetailContent(): JSX.Element {
                     <div className="mt-3 flex flex-col gap-2">
                       {!design.approvalStatus &&
                         design.status === 'COMPLETED' &&
-                        !approvedDesignId && (
+                        !approvedDesignId && <PrintCheckWarnings check={printChecks[design.id]} />}
+
+                      {!design.approvalStatus &&
+                        getModerationHoldMessage(design.moderationStatus) && (
+                          <p className="rounded-lg bg-yellow-50 p-3 font-sans text-xs text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300">
+                            {getModerationHoldMessage(design.moderationStatus)}
+                          </p>
+                        )}
+
+                      {!design.approvalStatus &&
+                        design.status === 'COMPLETED' &&
+                        !approvedDesignId &&
+                        !getModerationHoldMessage(design.moderationStatus) && (
                           <Button
                             variant="primary"
                             size="sm"
@@ -55,3 +55,111 @@ export interface VariantResult {
   color: string;
   size: string;
 }
+
+/**
+ * @interface PrintFileRegenerationResult
+ * @description Outcome of regenerating one design's high-resolution print file
+ *
+ * @property {string} designId - Design the print file belongs to
+ * @property {string} [printFileUrl] - URL of the new print file (optional; missing on failure)
+ * @property {string} [placement] - Placement the file was sized for, e.g. 'front' (optional)
+ * @property {number} [width] - Print file width in pixels (optional)
+ * @property {number} [height] - Print file height in pixels (optional)
+ * @property {string} [error] - Why regeneration failed (optional)
+ */
+export interface PrintFileRegenerationResult {
+  designId: string;
+  printFileUrl?: string;
+  placement?: string;
+  width?: number;
+  height?: number;
+  error?: string;
+}
+
+/**
+ * @interface ModerationQueueDesign
+ * @description Design summary attached to a moderation queue entry
+ *
+ * @property {string} id - Design unique identifier
+ * @property {string | null} orderId - Order the design belongs to (null for drafts)
+ * @property {string} prompt - Prompt the design was generated from
+ * @property {string | null} imageUrl - Generated image URL
+ * @property {string | null} thumbnailUrl - Thumbnail URL
+ * @property {string} status - Generation status
+ * @property {boolean} approvalStatus - Whether the customer approved the design
+ * @property {string | null} moderationStatus - Current hold state on the design
+ */
+export interface ModerationQueueDesign {
+  id: string;
+  orderId: string | null;
+  prompt: string;
+  imageUrl: string | null;
+  thumbnailUrl: string | null;
+  status: string;
+  approvalStatus: boolean;
+  moderationStatus: string | null;
+}
+
+/**
+ * @interface ModerationQueueEvent
+ * @description Logged moderation check that needs, or received, an admin review
+ *
+ * @property {string} id - Event unique identifier
+ * @property {string | null} designId - Design the check ran for
+ * @property {'PROMPT' | 'IMAGE'} source - What was checked
+ * @property {'PASSED' | 'FLAGGED' | 'ERROR'} outcome - Check result
+ * @property {boolean} blocked - Whether the check stopped the request
+ * @property {'open' | 'closed'} failMode - Fail mode active when the check ran
+ * @property {string} input - Prompt text or image URL
+ * @property {Record<string, number> | null} categoryScores - Per-category scores from the moderation model
+ * @property {string[]} categories - Flagged categories
+ * @property {string | null} error - Moderation API error (ERROR outcomes only)
+ * @property {string | null} reviewStatus - PENDING_REVIEW, CLEARED or REJECTED
+ * @property {string} createdAt - ISO timestamp of the check
+ * @property {ModerationQueueDesign | null} design - Design summary (null once deleted)
+ */
+export interface ModerationQueueEvent {
+  id: string;
+  designId: string | null;
+  source: 'PROMPT' | 'IMAGE';
+  outcome: 'PASSED' | 'FLAGGED' | 'ERROR';
+  blocked: boolean;
+  failMode: 'open' | 'closed';
+  input: string;
+  categoryScores: Record<string, number> | null;
+  categories: string[];
+  error: string | null;
+  reviewStatus: string | null;
+  createdAt: string;
+  design: ModerationQueueDesign | null;
+}
+
+/**
+ * @interface AdminStylePreset
+ * @description Style preset as managed from the admin API, including prompt text and schedule
+ *
+ * @property {string} id - Preset unique identifier
+ * @property {string} key - Value stored on designs and sent as `style`
+ * @property {string} label - Display name
+ * @property {string | null} description - Customer-facing description
+ * @property {string} promptSuffix - Text appended to the generation prompt
+ * @property {string | null} negativeGuidance - What the image should avoid
+ * @property {string | null} previewImageUrl - Preview thumbnail URL
+ * @property {number} sortOrder - Display order (ascending)
+ * @property {boolean} active - Whether customers can pick it
+ * @property {string | null} availableFrom - ISO start of a seasonal window
+ * @property {string | null} availableUntil - ISO end of a seasonal window
+ */
+export interface AdminStylePreset {
+  id: string;
+  key: string;
+  label: string;
+  description: string | null;
+  promptSuffix: string;
+  negativeGuidance: string | null;
+  previewImageUrl: string | null;
+  sortOrder: number;
+  active: boolean;
+  availableFrom: string | null;
+  availableUntil: string | null;
+}
@@ -1,5 +1,10 @@
 export const ANALYTICS_EVENT_CATALOG = {
+  'account.collection.add_design': {},
+  'account.collection.create': {},
+  'account.collection.remove_design': {},
+  'account.design.delete': {},
   'account.design.reorder_new_preview': {},
+  'account.designs.loaded': {},
   'account.order_detail.error': {},
   'account.order_detail.loaded': {},
   'account.orders.error': {},
@@ -26,16 +31,29 @@ export const ANALYTICS_EVENT_CATALOG = {
   'design.approval.error': {},
   'design.approval.submit': {},
   'design.approved': {},
+  'design.background.toggle': {},
+  'design.batch.selected': {},
+  'design.branch.start': {},
   'design.checkout.preview': {},
+  'design.edit.submit': {},
+  'design.expired.regenerate': {},
   'design.gallery.loaded': {},
   'design.generate.submit': {},
   'design.generate.success': {},
+  'design.lineage.opened': {},
   'design.page.loaded': {},
+  'design.placement.save': {},
+  'design.placements.save': {},
   'design.prompt.preset_select': {},
   'design.prompt.randomized': {},
+  'design.reference_image.remove': {},
+  'design.reference_image.upload': {},
+  'design.refine.confirm': {},
+  'design.refine.propose': {},
   'design.share.error': {},
   'design.share.success': {},
   'design.started': {},
+  'design.text.save': {},
   'design.variant.selected': {},
   'gift.page.view': {},
   'gift.purchase.error': {},
@@ -48,11 +66,16 @@ export const ANALYTICS_EVENT_CATALOG = {
   'promo.happyholidays.banner.copy': {},
   'promo.happyholidays.banner.dismiss': {},
   'promo.happyholidays.banner.view': {},
+  'prompt_library.favorite': {},
+  'prompt_library.open': {},
+  'prompt_library.select': {},
+  'prompt_pack.select': {},
   'quickstart.preview.checkout_click': {},
   'quickstart.preview.generated': {},
   'quickstart.preview.reset': {},
   'quickstart.preview_guest_created': {},
   'quickstart.preview_order_created': {},
+  'quickstart.prompt.randomized': {},
   'quickstart.prompt_idea_select': {},
   'shop.product.add_to_cart': {},
   'shop.product.buy_now': {},
@@ -12,6 +12,46 @@ import type { OrderStatus } from './order';
  */
 export type DesignStatus = 'GENERATING' | 'COMPLETED' | 'FAILED' | 'APPROVED';
 
+/**
+ * @typedef ModerationReviewStatus
+ * @description Review state of a design held by moderation: PENDING_REVIEW keeps it from being
+ * approved or shown in the gallery until an admin clears (CLEARED) or rejects (REJECTED) it
+ */
+export type ModerationReviewStatus = 'PENDING_REVIEW' | 'CLEARED' | 'REJECTED';
+
+/**
+ * @typedef {'PENDING' | 'STORED' | 'EXPIRED'} DesignStorageStatus
+ * @description Whether a design's image has been copied from the provider's temporary URL to our
+ * storage. PENDING designs can't be approved yet; EXPIRED ones failed and need regenerating
+ */
+export type DesignStorageStatus = 'PENDING' | 'STORED' | 'EXPIRED';
+
+/**
+ * @typedef {'back' | 'sleeve_left' | 'label_inside'} ExtraPrintPlacement
+ * @description Print locations an apparel item can add on top of its front print
+ */
+export type ExtraPrintPlacement = 'back' | 'sleeve_left' | 'label_inside';
+
+/**
+ * @typedef {'front' | ExtraPrintPlacement} DesignPlacement
+ * @description Print location a design is made for; `front` is the item's main print
+ */
+export type DesignPlacement = 'front' | ExtraPrintPlacement;
+
+/**
+ * @interface DesignBatchSummary
+ * @description Generation batch a design belongs to; one generate request produces 1-4 variations
+ *
+ * @property {string} id - Batch identifier
+ * @property {number} size - Number of variations requested
+ * @property {string | null} selectedDesignId - Variation the customer kept, if any
+ */
+export interface DesignBatchSummary {
+  id: string;
+  size: number;
+  selectedDesignId: string | null;
+}
+
 /**
  * @interface Design
  * @description Represents an AI-generated t-shirt design with metadata, status tracking, and associated order information
@@ -24,7 +64,19 @@ export type DesignStatus = 'GENERATING' | 'COMPLETED' | 'FAILED' | 'APPROVED';
  * @property {string} [aiModel] - Name/identifier of the AI model used to generate the design (optional)
  * @property {string} imageUrl - Full-resolution URL of the generated design image
  * @property {string | null} [thumbnailUrl] - Optimized thumbnail URL for preview display (optional)
+ * @property {string | null} [transparentImageUrl] - Print file with the solid background removed (optional; null when none could be made)
+ * @property {boolean} [keepBackground] - Whether the customer chose to print the background (optional)
+ * @property {TextLayer[]} [textLayers] - Text composited over the art (optional; empty when none)
+ * @property {string | null} [textImageUrl] - Display image with the text layers drawn in (optional; null without text)
+ * @property {ModerationReviewStatus | null} [moderationStatus] - Moderation review state; null when nothing needed review (optional)
  * @property {DesignStatus} status - Current status of the design generation process
+ * @property {string | null} [failureReason] - Why generation failed when status is FAILED (optional)
+ * @property {DesignStorageStatus} [storageStatus] - Durable storage state of the image (optional)
+ * @property {string | null} [batchId] - Generation batch the design belongs to (optional; null for older designs)
+ * @property {number | null} [batchIndex] - Position within the batch (optional)
+ * @property {DesignBatchSummary | null} [batch] - Batch summary including the kept variation (optional)
+ * @property {string | null} [parentDesignId] - Design this one was branched, edited or cloned from (optional)
+ * @property {string | null} [referenceImageId] - Reference photo the design was generated from (optional)
  * @property {string | null} style - Selected art style/theme applied to the design (e.g., 'retro', 'minimalist')
  * @property {boolean} approvalStatus - Whether the design has been approved by the user for production
  * @property {string} [generatedAt] - ISO timestamp when the design generation completed (optional)
@@ -46,8 +98,21 @@ export interface Design {
   aiModel?: string;
   imageUrl: string;
   thumbnailUrl?: string | null;
+  transparentImageUrl?: string | null;
+  keepBackground?: boolean;
+  textLayers?: TextLayer[];
+  textImageUrl?: string | null;
+  moderationStatus?: ModerationReviewStatus | null;
   status: DesignStatus;
+  failureReason?: string | null;
+  storageStatus?: DesignStorageStatus;
+  batchId?: string | null;
+  batchIndex?: number | null;
+  batch?: DesignBatchSummary | null;
+  parentDesignId?: string | null;
+  referenceImageId?: string | null;
   style: string | null;
+  placement?: DesignPlacement;
   approvalStatus: boolean;
   generatedAt?: string;
   approvedAt?: string | null;
@@ -60,3 +125,481 @@ export interface Design {
   };
   remainingDesigns?: number | 'unlimited';
 }
+
+/**
+ * @interface DesignBatchGroup
+ * @description Designs from one generation batch, grouped for side-by-side display. Designs created
+ * before batches existed form a group of one.
+ *
+ * @property {string} key - Batch ID, or the design ID for unbatched designs
+ * @property {Design[]} designs - Variations in batch order
+ * @property {string | null} selectedDesignId - Variation the customer kept, if any
+ */
+export interface DesignBatchGroup {
+  key: string;
+  designs: Design[];
+  selectedDesignId: string | null;
+}
+
+/**
+ * @typedef {'original' | 'regeneration' | 'edit' | 'clone'} DesignLineageRelation
+ * @description How a design relates to its parent: a fresh prompt, a new prompt branched from the
+ * parent, a mask edit of the parent, or a copy from another order
+ */
+export type DesignLineageRelation = 'original' | 'regeneration' | 'edit' | 'clone';
+
+/**
+ * @interface DesignLineageNode
+ * @description One version in a design's history
+ *
+ * @property {string} id - Design identifier
+ * @property {string | null} parentDesignId - Version this one came from
+ * @property {string | null} orderId - Order the version belongs to (null when owned by someone else)
+ * @property {string} prompt - Prompt used for the version
+ * @property {string | null} style - Art style
+ * @property {DesignStatus} status - Generation status
+ * @property {string} imageUrl - Full-resolution image URL (empty while generating)
+ * @property {string | null} thumbnailUrl - Thumbnail URL
+ * @property {string | null} batchId - Generation batch, if any
+ * @property {DesignLineageRelation} relation - How the version relates to its parent
+ * @property {boolean} isOwn - False for designs owned by someone else, e.g. a gallery source
+ * @property {string} createdAt - ISO timestamp
+ */
+export interface DesignLineageNode {
+  id: string;
+  parentDesignId: string | null;
+  orderId: string | null;
+  prompt: string;
+  style: string | null;
+  status: DesignStatus;
+  imageUrl: string;
+  thumbnailUrl: string | null;
+  batchId: string | null;
+  relation: DesignLineageRelation;
+  isOwn: boolean;
+  createdAt: string;
+}
+
+/**
+ * @interface DesignLineageTreeNode
+ * @description Version with the versions derived from it
+ *
+ * @property {DesignLineageTreeNode[]} children - Versions branched, edited or cloned from this one
+ */
+export interface DesignLineageTreeNode extends DesignLineageNode {
+  children: DesignLineageTreeNode[];
+}
+
+/**
+ * @interface DesignLineage
+ * @description Response of `GET /api/designs/:id/lineage`
+ *
+ * @property {string} designId - Design the history was requested for
+ * @property {string | null} orderId - Its order
+ * @property {DesignLineageNode[]} ancestors - Oldest known ancestor first, ending at the parent
+ * @property {DesignLineageTreeNode[]} tree - The order's version tree, oldest first
+ */
+export interface DesignLineage {
+  designId: string;
+  orderId: string | null;
+  ancestors: DesignLineageNode[];
+  tree: DesignLineageTreeNode[];
+}
+
+/**
+ * @typedef PrintCheckSeverity
+ * @description How much a print-check warning matters; `critical` means the print will likely disappoint
+ */
+export type PrintCheckSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * @interface PrintCheckWarning
+ * @description One problem found by the print-readiness check
+ *
+ * @property {string} code - Check that failed (low_contrast, dark_on_black, fine_detail, hard_edges, low_resolution, text_contrast)
+ * @property {PrintCheckSeverity} severity - How much it matters
+ * @property {string} message - Customer-facing explanation with a suggested fix
+ * @property {number} penalty - Points taken off the score
+ */
+export interface PrintCheckWarning {
+  code:
+    | 'low_contrast'
+    | 'dark_on_black'
+    | 'fine_detail'
+    | 'hard_edges'
+    | 'low_resolution'
+    | 'text_contrast';
+  severity: PrintCheckSeverity;
+  message: string;
+  penalty: number;
+}
+
+/**
+ * @interface PrintCheckResult
+ * @description Response of `GET /api/designs/:id/print-check`
+ *
+ * @property {number} score - 0-100, higher prints better
+ * @property {boolean} ready - False when any warning is critical
+ * @property {PrintCheckWarning[]} warnings - Most severe first
+ * @property {string} color - Shirt colour checked against
+ * @property {string} placement - Print placement checked
+ * @property {number} effectiveDpi - Source pixels per printed inch
+ */
+export interface PrintCheckResult {
+  score: number;
+  ready: boolean;
+  warnings: PrintCheckWarning[];
+  color: string;
+  placement: string;
+  effectiveDpi: number;
+}
+
+/**
+ * @interface PrintCheckState
+ * @description Print check for one design as tracked by `usePrintChecks`
+ *
+ * @property {string} color - Shirt colour the check was requested for
+ * @property {string} signature - Design, colour and background choice the check belongs to
+ * @property {boolean} loading - Whether the request is in flight
+ * @property {PrintCheckResult | null} result - Check result, null while loading or if it failed
+ */
+export interface PrintCheckState {
+  color: string;
+  signature: string;
+  loading: boolean;
+  result: PrintCheckResult | null;
+}
+
+/**
+ * @interface UsePrintChecksOptions
+ * @description Options for the `usePrintChecks` hook
+ *
+ * @property {Pick<Design, 'id' | 'keepBackground'>[]} designs - Designs to check (finished, not yet approved)
+ * @property {string | null} color - Shirt colour to check against; nothing is fetched until set
+ * @property {() => Promise<string | null>} getToken - Clerk token getter
+ * @property {boolean} [enabled] - Set false to pause fetching
+ */
+export interface UsePrintChecksOptions {
+  designs: Pick<Design, 'id' | 'keepBackground' | 'textImageUrl'>[];
+  color: string | null;
+  getToken: () => Promise<string | null>;
+  enabled?: boolean;
+}
+
+/**
+ * @interface DesignMockup
+ * @description Product mockup of a design on one shirt colour, from `GET /api/designs/:id/mockups`
+ *
+ * @property {string} color - Shirt colour name
+ * @property {string} hex - Shirt colour, `#rrggbb`
+ * @property {string} imageUrl - Rendered mockup (JPEG)
+ */
+export interface DesignMockup {
+  color: string;
+  hex: string;
+  imageUrl: string;
+}
+
+/**
+ * @interface DesignMockupState
+ * @description Mockup for one design as tracked by `useDesignMockups`
+ *
+ * @property {string} signature - Design, colour, background choice and placement the mockup belongs to
+ * @property {boolean} loading - Whether the request is in flight
+ * @property {DesignMockup | null} mockup - Mockup, null while loading or if it failed
+ */
+export interface DesignMockupState {
+  signature: string;
+  loading: boolean;
+  mockup: DesignMockup | null;
+}
+
+/**
+ * @interface UseDesignMockupsOptions
+ * @description Options for the `useDesignMockups` hook
+ *
+ * @property {Pick<Design, 'id' | 'keepBackground' | 'textImageUrl'>[]} designs - Finished designs to fetch mockups for
+ * @property {string | null} color - Shirt colour; nothing is fetched until set
+ * @property {string} [placementKey] - Changes whenever the order item's placement box changes
+ * @property {() => Promise<string | null>} getToken - Clerk token getter
+ * @property {boolean} [enabled] - Set false to pause fetching
+ */
+export interface UseDesignMockupsOptions {
+  designs: Pick<Design, 'id' | 'keepBackground' | 'textImageUrl'>[];
+  color: string | null;
+  placementKey?: string;
+  getToken: () => Promise<string | null>;
+  enabled?: boolean;
+}
+
+/**
+ * @interface StylePreset
+ * @description Generation style offered to customers, from `GET /api/designs/styles`
+ *
+ * @property {string} key - Value sent as `style` when generating
+ * @property {string} label - Display name
+ * @property {string | null} description - Short description shown under the label
+ * @property {string | null} previewImageUrl - Example thumbnail
+ * @property {number} sortOrder - Display order (the API already sorts by it)
+ */
+export interface StylePreset {
+  key: string;
+  label: string;
+  description: string | null;
+  previewImageUrl: string | null;
+  sortOrder: number;
+}
+
+/**
+ * @interface PromptPack
+ * @description "Surprise Me" prompt pack, from `GET /api/designs/prompt-packs`
+ *
+ * @property {string} key - Value sent as `pack` to `GET /api/designs/random-prompt`
+ * @property {string} name - Display name
+ * @property {string | null} description - Short description
+ * @property {string | null} suggestedStyle - Style preset key the pack's prompts suit
+ * @property {number} sortOrder - Display order (the API already sorts by it)
+ */
+export interface PromptPack {
+  key: string;
+  name: string;
+  description: string | null;
+  suggestedStyle: string | null;
+  sortOrder: number;
+}
+
+/**
+ * @interface RandomPrompt
+ * @description "Surprise Me" prompt from `GET /api/designs/random-prompt`
+ *
+ * @property {string} prompt - Prompt text
+ * @property {{key: string, name: string}} pack - Pack it was drawn from
+ * @property {string | null} suggestedStyle - Style preset key to switch to, if available
+ */
+export interface RandomPrompt {
+  prompt: string;
+  pack: { key: string; name: string };
+  suggestedStyle: string | null;
+}
+
+/**
+ * @typedef {'PROPOSED' | 'CONFIRMED' | 'DISCARDED'} DesignRefinementStatus
+ * @description Where a refinement is in the thread: waiting for confirmation, generated, or dropped
+ */
+export type DesignRefinementStatus = 'PROPOSED' | 'CONFIRMED' | 'DISCARDED';
+
+/**
+ * @interface DesignRefinement
+ * @description One entry of an order's refinement thread (`GET /api/designs/refinements`)
+ *
+ * @property {string} id - Refinement ID
+ * @property {string} orderId - Order the thread belongs to
+ * @property {string | null} sourceDesignId - Design the instruction was applied to
+ * @property {string} instruction - Customer's change request
+ * @property {string} mergedPrompt - Full prompt proposed with the change applied
+ * @property {string} mergeModel - Model that merged it (`fallback` when unavailable)
+ * @property {string | null} finalPrompt - Prompt actually generated (the customer may edit it)
+ * @property {DesignRefinementStatus} status - Thread status
+ * @property {string | null} batchId - Batch generated on confirm
+ * @property {string} createdAt - ISO timestamp
+ */
+export interface DesignRefinement {
+  id: string;
+  orderId: string;
+  sourceDesignId: string | null;
+  instruction: string;
+  mergedPrompt: string;
+  mergeModel: string;
+  finalPrompt: string | null;
+  status: DesignRefinementStatus;
+  batchId: string | null;
+  createdAt: string;
+}
+
+/**
+ * @typedef {'straight' | 'arc'} TextLayerShape
+ * @description Straight baseline, or text bent along a circular arc
+ */
+export type TextLayerShape = 'straight' | 'arc';
+
+/**
+ * @typedef {'above' | 'below' | 'overlay'} TextLayerPosition
+ * @description Where a text block sits relative to the art
+ */
+export type TextLayerPosition = 'above' | 'below' | 'overlay';
+
+/**
+ * @interface TextLayer
+ * @description One block of text composited over a design by `PUT /api/designs/:id/text-layers`
+ *
+ * @property {string} text - Text to render (single line, max 60 characters)
+ * @property {string} font - Font key from `GET /api/designs/text-fonts`
+ * @property {string} color - Fill colour, `#rrggbb`
+ * @property {number} size - Font size as a percentage of the art width (3-30)
+ * @property {TextLayerShape} shape - Straight or arced
+ * @property {number} arc - Arc sweep in degrees; positive arches up, negative curves like a smile
+ * @property {TextLayerPosition} position - Band above or below the art, or over it
+ * @property {number} y - Vertical centre of overlay text as a percentage of the art height
+ */
+export interface TextLayer {
+  text: string;
+  font: string;
+  color: string;
+  size: number;
+  shape: TextLayerShape;
+  arc: number;
+  position: TextLayerPosition;
+  y: number;
+}
+
+/**
+ * @interface TextFont
+ * @description Bundled font for text layers, from `GET /api/designs/text-fonts`
+ *
+ * @property {string} key - Value stored in a layer's `font`
+ * @property {string} label - Display name
+ * @property {string} family - CSS font family (loaded from Google Fonts)
+ * @property {number} weight - Font weight used when rendering
+ */
+export interface TextFont {
+  key: string;
+  label: string;
+  family: string;
+  weight: number;
+}
+
+/**
+ * @typedef GenerationQuotaCode
+ * @description Limit that refused a generation request (429 `code`): per guest preview, per
+ * network, per signed-in user, site-wide daily, or the spend pause
+ */
+export type GenerationQuotaCode =
+  | 'guest_quota'
+  | 'ip_quota'
+  | 'user_quota'
+  | 'global_quota'
+  | 'spend_cap';
+
+/**
+ * @typedef PromptEntryOutcome
+ * @description What a library prompt produced: still generating, approved for print, finished,
+ * rejected in moderation review, or nothing finished
+ */
+export type PromptEntryOutcome = 'generating' | 'approved' | 'completed' | 'rejected' | 'failed';
+
+/**
+ * @interface PromptEntry
+ * @description Prompt from the customer's library (`GET /api/prompts`)
+ *
+ * @property {string} id - Entry ID
+ * @property {string | null} orderId - Order it was submitted on
+ * @property {string} prompt - Prompt text
+ * @property {string | null} style - Style preset key it was generated with
+ * @property {'generate' | 'edit' | 'refinement'} source - Request that submitted it
+ * @property {boolean} favorite - Starred by the customer
+ * @property {string[]} tags - Customer tags
+ * @property {PromptEntryOutcome} outcome - What it produced
+ * @property {string[]} thumbnails - Finished design thumbnails
+ * @property {string} createdAt - Submission timestamp
+ */
+export interface PromptEntry {
+  id: string;
+  orderId: string | null;
+  prompt: string;
+  style: string | null;
+  source: 'generate' | 'edit' | 'refinement';
+  favorite: boolean;
+  tags: string[];
+  outcome: PromptEntryOutcome;
+  thumbnails: string[];
+  createdAt: string;
+}
+
+/**
+ * @interface ResponsiveImage
+ * @description Design image ready for a `<picture>` element, as returned by the gallery and the
+ * account library
+ *
+ * @property {string} src - Original image, the fallback for browsers without the sources
+ * @property {string | null} placeholder - Tiny blurred WebP data URL to show while loading
+ * @property {Array<{type: string, srcSet: string}>} sources - AVIF then WebP `srcSet`s (empty for
+ * designs without derivatives)
+ */
+export interface ResponsiveImage {
+  src: string;
+  placeholder: string | null;
+  sources: Array<{ type: string; srcSet: string }>;
+}
+
+/**
+ * @interface DesignLibraryItem
+ * @description Design in the account library (`GET /api/designs/mine`)
+ *
+ * @property {string} id - Design ID
+ * @property {string | null} orderId - Order the design belongs to
+ * @property {string} prompt - Prompt it was generated from
+ * @property {string | null} style - Style preset key
+ * @property {DesignStatus} status - Generation status
+ * @property {boolean} approvalStatus - Approved for print
+ * @property {ModerationReviewStatus | null} moderationStatus - Moderation review state
+ * @property {string} imageUrl - Full image
+ * @property {string | null} thumbnailUrl - Smaller display image
+ * @property {ResponsiveImage | null} image - Responsive sources and placeholder (null without an image)
+ * @property {DesignPlacement} placement - Print location it was made for
+ * @property {string} createdAt - ISO timestamp
+ * @property {Object | null} order - Order summary with the product colours on it
+ * @property {string[]} collectionIds - Collections the design is in
+ */
+export interface DesignLibraryItem {
+  id: string;
+  orderId: string | null;
+  prompt: string;
+  style: string | null;
+  status: DesignStatus;
+  approvalStatus: boolean;
+  moderationStatus: ModerationReviewStatus | null;
+  imageUrl: string;
+  thumbnailUrl: string | null;
+  image: ResponsiveImage | null;
+  placement: DesignPlacement;
+  createdAt: string;
+  order: { id: string; orderNumber: string; status: string; colors: string[] } | null;
+  collectionIds: string[];
+}
+
+/**
+ * @interface DesignCollection
+ * @description Customer collection of designs (`GET /api/designs/collections`)
+ *
+ * @property {string} id - Collection ID
+ * @property {string} name - Display name
+ * @property {number} designCount - Designs in it
+ * @property {string | null} coverUrl - Image of the most recently added design
+ * @property {string} createdAt - ISO timestamp
+ */
+export interface DesignCollection {
+  id: string;
+  name: string;
+  designCount: number;
+  coverUrl: string | null;
+  createdAt: string;
+}
+
+/**
+ * @interface ReferenceImage
+ * @description Photo uploaded to generate from (`POST /api/designs/reference-images`), stored
+ * without EXIF metadata
+ *
+ * @property {string} id - Reference image ID, sent as `referenceImageId` when generating
+ * @property {string} imageUrl - Stored PNG
+ * @property {number} width - Stored width in pixels
+ * @property {number} height - Stored height in pixels
+ * @property {string} createdAt - ISO timestamp
+ */
+export interface ReferenceImage {
+  id: string;
+  imageUrl: string;
+  width: number;
+  height: number;
+  createdAt: string;
+}
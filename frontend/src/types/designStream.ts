@@ -0,0 +1,89 @@
+/**
+ * @module types/designStream
+ * @description Event shapes delivered by the design progress SSE stream (GET /api/designs/stream).
+ * @since 2026-10-18
+ */
+
+import type { Design, DesignStorageStatus } from './design';
+import type { OrderStatus } from './order';
+
+/**
+ * @typedef DesignStreamEventType
+ * @description Pipeline and order events pushed by the backend, in typical arrival order.
+ */
+export type DesignStreamEventType =
+  | 'design.queued'
+  | 'design.moderation_passed'
+  | 'design.image_generated'
+  | 'design.uploaded'
+  | 'design.completed'
+  | 'design.failed'
+  | 'design.retry_scheduled'
+  | 'order.status_changed';
+
+/**
+ * @interface DesignStreamEvent
+ * @description One pipeline or order event.
+ *
+ * @property {DesignStreamEventType} type - Event type
+ * @property {string} orderId - Order the event belongs to
+ * @property {string} [designId] - Design the event refers to (design.* events)
+ * @property {string} [status] - Design or order status after the event
+ * @property {Object} [data] - Event details (e.g. `design` on completion or a late upload, `reason` on failure)
+ * @property {string} at - ISO timestamp
+ */
+export interface DesignStreamEvent {
+  type: DesignStreamEventType;
+  orderId: string;
+  designId?: string;
+  status?: string;
+  data?: {
+    design?: Design;
+    reason?: string;
+    storageStatus?: DesignStorageStatus;
+    aiModel?: string;
+    attempt?: number;
+    maxAttempts?: number;
+    retryInMs?: number;
+  };
+  at: string;
+}
+
+/**
+ * @interface DesignStreamSnapshot
+ * @description First message on every connection; the full current state for resyncing.
+ */
+export interface DesignStreamSnapshot {
+  orderId: string;
+  orderStatus: OrderStatus;
+  designsGenerated: number;
+  maxDesigns: number;
+  designs: Design[];
+  at: string;
+}
+
+/**
+ * @interface ApiEventStreamHandlers
+ * @description Callbacks for a server-sent event stream opened with `apiEventStream`.
+ */
+export interface ApiEventStreamHandlers {
+  onEvent: (event: string, data: unknown) => void;
+  onError?: (error: unknown) => void;
+  onClose?: () => void;
+}
+
+/**
+ * @interface UseDesignStreamOptions
+ * @description Options for the `useDesignStream` hook. Provide `getToken` for signed-in users or
+ * `guestToken` for guest preview holders.
+ */
+export interface UseDesignStreamOptions {
+  orderId: string | null;
+  enabled?: boolean;
+  getToken?: () => Promise<string | null>;
+  guestToken?: string | null;
+  onSnapshot?: (snapshot: DesignStreamSnapshot) => void;
+  onEvent?: (event: DesignStreamEvent) => void;
+  /** Called with the ApiError when the server refuses the stream (4xx); it is not reopened */
+  onError?: (error: unknown) => void;
+}
@@ -4,6 +4,8 @@
  * @since 2025-11-21
  */
 
+import type { ResponsiveImage } from './design';
+
 /**
  * @interface GalleryDesign
  * @description Represents a publicly displayable design in the community gallery feed
@@ -13,6 +15,7 @@
  * @property {string | null} [revisedPrompt] - AI-revised or enhanced version of the original prompt (optional)
  * @property {string} imageUrl - Full-resolution URL of the design image for gallery display
  * @property {string | null} [thumbnailUrl] - Optimized thumbnail URL for grid/list views (optional)
+ * @property {ResponsiveImage} [image] - WebP/AVIF sources and blur placeholder for the grid
  * @property {string} createdAt - ISO timestamp when the design was created and added to the gallery
  */
 export interface GalleryDesign {
@@ -21,5 +24,6 @@ export interface GalleryDesign {
   revisedPrompt?: string | null;
   imageUrl: string;
   thumbnailUrl?: string | null;
+  image?: ResponsiveImage;
   createdAt: string;
 }
@@ -5,7 +5,7 @@
  */
 
 import type { Product } from './product';
-import type { Design } from './design';
+import type { Design, ExtraPrintPlacement, ModerationReviewStatus } from './design';
 
 /**
  * @typedef {'PENDING_PAYMENT' | 'PAID' | 'DESIGN_PENDING' | 'DESIGN_APPROVED' | 'SUBMITTED' | 'SHIPPED' | 'DELIVERED' | 'CANCELLED' | 'REFUNDED'} OrderStatus
@@ -57,6 +57,11 @@ export interface OrderItemProduct {
  * @property {string | null} [printfulVariantId] - Printful's variant identifier for fulfillment (optional)
  * @property {Product | OrderItemProduct} [product] - Associated product details (optional)
  * @property {Design | null} [design] - Associated custom design details, null if no design (optional)
+ * @property {PrintPlacementPreset | null} [placementPreset] - Preset the print box started from (optional)
+ * @property {number | null} [printLeftIn] - Print box offset from the left of the print area, in inches; null for Printful's default placement (optional)
+ * @property {number | null} [printTopIn] - Print box offset from the top of the print area, in inches (optional)
+ * @property {number | null} [printWidthIn] - Print box width in inches; height follows the design (optional)
+ * @property {OrderItemPlacement[]} [placements] - Extra print locations on top of the front (optional)
  */
 export interface OrderItem {
   id: string;
@@ -70,6 +75,48 @@ export interface OrderItem {
   printfulVariantId?: string | null;
   product?: Product | OrderItemProduct;
   design?: Design | null;
+  placementPreset?: PrintPlacementPreset | null;
+  printLeftIn?: number | null;
+  printTopIn?: number | null;
+  printWidthIn?: number | null;
+  placements?: OrderItemPlacement[];
+}
+
+/**
+ * @interface OrderItemPlacement
+ * @description Extra print location on an order item, charged per unit on top of the tier price
+ *
+ * @property {string} [id] - Row identifier (optional)
+ * @property {ExtraPrintPlacement} placement - Where it prints
+ * @property {number | string} price - Price per unit in dollars (may be a string from the API)
+ * @property {string | null} [designId] - Design approved for this placement, once there is one (optional)
+ */
+export interface OrderItemPlacement {
+  id?: string;
+  placement: ExtraPrintPlacement;
+  price: number | string;
+  designId?: string | null;
+}
+
+/**
+ * @typedef {'full-front' | 'centered-small' | 'left-chest'} PrintPlacementPreset
+ * @description Named starting points in the placement editor
+ */
+export type PrintPlacementPreset = 'full-front' | 'centered-small' | 'left-chest';
+
+/**
+ * @interface PrintPlacementBox
+ * @description Where the design prints, in inches from the top-left of the print area. Height
+ * follows the design's aspect ratio.
+ *
+ * @property {number} left - Offset from the left edge
+ * @property {number} top - Offset from the top edge
+ * @property {number} width - Printed width
+ */
+export interface PrintPlacementBox {
+  left: number;
+  top: number;
+  width: number;
 }
 
 /**
@@ -121,13 +168,23 @@ export interface AppliedPromoCode {
  * @property {string} prompt - User prompt that generated this design
  * @property {boolean} [approvalStatus] - Whether the design has been approved by the user (optional)
  * @property {string} [status] - Current generation/approval status of the design (optional)
+ * @property {ModerationReviewStatus | null} [moderationStatus] - Moderation review state (optional)
+ * @property {string | null} [thumbnailUrl] - Smaller display image (optional)
+ * @property {string | null} [transparentImageUrl] - Background-removed version (optional)
+ * @property {boolean} [keepBackground] - Whether the background prints (optional)
+ * @property {string | null} [textImageUrl] - Version with text layers (optional)
  */
 export interface DesignPreview {
   id: string;
   imageUrl: string;
+  thumbnailUrl?: string | null;
+  transparentImageUrl?: string | null;
+  keepBackground?: boolean;
+  textImageUrl?: string | null;
   prompt: string;
   approvalStatus?: boolean;
   status?: string;
+  moderationStatus?: ModerationReviewStatus | null;
 }
 
 /**
@@ -4,6 +4,8 @@
  * @since 2025-11-21
  */
 
+import type { ExtraPrintPlacement } from './design';
+
 /**
  * @interface ColorOption
  * @description Represents a color variant option available for a product
@@ -38,6 +40,7 @@ export interface ColorOption {
  * @property {number} tierPricing[].price - Price for this tier in cents
  * @property {number} tierPricing[].maxDesigns - Maximum design generations allowed for this tier
  * @property {string} tierPricing[].description - Description of what this tier includes
+ * @property {Record<ExtraPrintPlacement, number>} [placementPricing] - Price in dollars of each extra print location (optional)
  */
 export interface Product {
   id: string;
@@ -62,4 +65,5 @@ export interface Product {
       description: string;
     }
   >;
+  placementPricing?: Record<ExtraPrintPlacement, number>;
 }
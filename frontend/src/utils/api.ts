@@ -6,6 +6,8 @@
  * @since 2025-11-21
  */
 
+import type { ApiEventStreamHandlers } from '../types/designStream';
+
 /**
  * @constant {string} API_URL
  * @description Base URL for API requests, sourced from environment or defaulting to localhost
@@ -13,6 +15,26 @@
  */
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000';
 
+/**
+ * @class ApiError
+ * @extends Error
+ * @description Error thrown for non-2xx responses. Carries the HTTP status and, when the API sends
+ * them, a machine-readable `code` and `retryAfterSeconds` (e.g. generation quota refusals).
+ */
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+  retryAfterSeconds?: number;
+
+  constructor(message: string, status: number, code?: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
 /**
  * @function apiRequest
  * @description Core API request function that handles fetch, JSON parsing, and error handling.
@@ -23,7 +45,7 @@ const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000';
  * @param {string | null} [token] - Optional JWT token for Authorization header
  * @returns {Promise<any>} Parsed JSON response data
  *
- * @throws {Error} When response is not ok (status >= 400), with message from API or generic fallback
+ * @throws {ApiError} When response is not ok (status >= 400), with message from API or generic fallback
  *
  * @example
  * const data = await apiRequest('/api/orders', { method: 'GET' }, authToken);
@@ -60,7 +82,12 @@ export async function apiRequest(
     const data = await response.json();
 
     if (!response.ok) {
-      throw new Error(data.message || 'API request failed');
+      throw new ApiError(
+        data.message || 'API request failed',
+        response.status,
+        typeof data.code === 'string' ? data.code : undefined,
+        typeof data.retryAfterSeconds === 'number' ? data.retryAfterSeconds : undefined
+      );
     }
 
     return data;
@@ -180,3 +207,97 @@ export function apiDelete(endpoint: string, token?: string | null): Promise<any>
     token
   );
 }
+
+/**
+ * @function apiEventStream
+ * @description Opens a server-sent events stream with fetch so the Bearer token can travel in the
+ * Authorization header (EventSource cannot set headers). Parses `event:`/`data:` frames and hands
+ * each JSON payload to `onEvent`. Keep-alive comments are ignored. A non-2xx response reaches
+ * `onError` as an ApiError carrying its status; frames that are not JSON and errors thrown by
+ * `onEvent` are logged and skipped.
+ *
+ * @param {string} endpoint - API endpoint path including query string
+ * @param {ApiEventStreamHandlers} handlers - Event, error and close callbacks
+ * @param {string | null} [token] - Optional JWT token for authentication
+ * @returns {() => void} Function that closes the stream
+ *
+ * @example
+ * const close = apiEventStream(`/api/designs/stream?orderId=${orderId}`, {
+ *   onEvent: (event, data) => console.log(event, data),
+ * }, token);
+ */
+export function apiEventStream(
+  endpoint: string,
+  handlers: ApiEventStreamHandlers,
+  token?: string | null
+): () => void {
+  const controller = new AbortController();
+  const headers: Record<string, string> = { Accept: 'text/event-stream' };
+
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  const dispatch = (frame: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    frame.split('\n').forEach((line) => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+    });
+    if (!dataLines.length) return;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(dataLines.join('\n'));
+    } catch (error) {
+      console.error('Failed to parse stream event:', error);
+      return;
+    }
+
+    try {
+      handlers.onEvent(event, data);
+    } catch (error) {
+      console.error(`Stream event handler failed for ${event}:`, error);
+    }
+  };
+
+  (async () => {
+    const response = await fetch(`${API_URL}${endpoint}`, {
+      headers,
+      signal: controller.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => ({}));
+      throw new ApiError(
+        data.message || 'Unable to open event stream',
+        response.status,
+        typeof data.code === 'string' ? data.code : undefined
+      );
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        dispatch(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    handlers.onClose?.();
+  })().catch((error: unknown) => {
+    if (controller.signal.aborted) return;
+    handlers.onError?.(error);
+  });
+
+  return () => controller.abort();
+}
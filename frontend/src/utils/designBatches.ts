@@ -0,0 +1,50 @@
+/**
+ * @module utils/designBatches
+ * @description Groups an order's designs into generation batches for the pick-your-favorite view.
+ * @since 2026-10-18
+ */
+
+import type { Design, DesignBatchGroup } from '../types/design';
+
+/**
+ * @function groupDesignsByBatch
+ * @description Groups designs by batch, keeping the incoming order of batches (newest first from
+ * the API) and ordering variations within a batch by their index.
+ *
+ * @param {Design[]} designs - Designs for an order
+ * @returns {DesignBatchGroup[]} One group per batch
+ */
+export function groupDesignsByBatch(designs: Design[]): DesignBatchGroup[] {
+  const groups: DesignBatchGroup[] = [];
+  const byBatch = new Map<string, DesignBatchGroup>();
+
+  for (const design of designs) {
+    const key = design.batchId || design.id;
+    let group = byBatch.get(key);
+    if (!group) {
+      group = { key, designs: [], selectedDesignId: design.batch?.selectedDesignId ?? null };
+      byBatch.set(key, group);
+      groups.push(group);
+    }
+    group.designs.push(design);
+  }
+
+  for (const group of groups) {
+    group.designs.sort((a, b) => (a.batchIndex ?? 0) - (b.batchIndex ?? 0));
+  }
+
+  return groups;
+}
+
+/**
+ * @function isKeptDesign
+ * @description Whether a design should represent its batch: single designs always do, variations
+ * only once the customer has kept them.
+ *
+ * @param {Design} design - Design to check
+ * @returns {boolean} True for single designs and kept variations
+ */
+export function isKeptDesign(design: Design): boolean {
+  if (!design.batch || design.batch.size <= 1) return true;
+  return design.batch.selectedDesignId === design.id;
+}
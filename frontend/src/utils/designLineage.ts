@@ -0,0 +1,34 @@
+/**
+ * @module utils/designLineage
+ * @description Customer-facing copy for how a design relates to the version it came from.
+ * @since 2026-10-18
+ */
+
+import type { Design, DesignLineageRelation } from '../types/design';
+
+/**
+ * @constant {Record<DesignLineageRelation, string>} DESIGN_LINEAGE_LABELS
+ * @description Short label per relation, shown on design cards and in the version tree.
+ */
+export const DESIGN_LINEAGE_LABELS: Record<DesignLineageRelation, string> = {
+  original: 'First draft',
+  regeneration: 'Branched from an earlier version',
+  edit: 'Edited from an earlier draft',
+  clone: 'Copied from an earlier design',
+};
+
+/**
+ * @function getDesignRelation
+ * @description Derives a design's relation to its parent from the order's design list, matching
+ * the server's lineage rules: a parent outside the order is a clone, a batched child is a
+ * regeneration, anything else is an edit.
+ *
+ * @param {Design} design - Design to describe
+ * @param {Design[]} orderDesigns - All designs on the same order
+ * @returns {DesignLineageRelation} Relation to the parent
+ */
+export function getDesignRelation(design: Design, orderDesigns: Design[]): DesignLineageRelation {
+  if (!design.parentDesignId) return 'original';
+  if (!orderDesigns.some((d) => d.id === design.parentDesignId)) return 'clone';
+  return design.batchId ? 'regeneration' : 'edit';
+}
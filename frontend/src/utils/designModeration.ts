@@ -0,0 +1,28 @@
+/**
+ * @module utils/designModeration
+ * @description Customer-facing copy for designs held by content moderation.
+ * @since 2026-10-18
+ */
+
+import type { ModerationReviewStatus } from '../types/design';
+
+/**
+ * @constant MODERATION_HOLD_MESSAGES
+ * @description Notice shown instead of the approve action while a design is held or rejected.
+ */
+export const MODERATION_HOLD_MESSAGES: Partial<Record<ModerationReviewStatus, string>> = {
+  PENDING_REVIEW:
+    'Our team is taking a quick look at this design. You can approve it once it has been cleared.',
+  REJECTED: 'This design didn’t pass our content review and can’t be printed. Try another prompt.',
+};
+
+/**
+ * @function getModerationHoldMessage
+ * @description Notice for a design that cannot be approved because of moderation.
+ *
+ * @param {ModerationReviewStatus | null} [status] - Design moderation status
+ * @returns {string | null} Notice, or null when the design can be approved
+ */
+export function getModerationHoldMessage(status?: ModerationReviewStatus | null): string | null {
+  return (status && MODERATION_HOLD_MESSAGES[status]) || null;
+}
@@ -0,0 +1,57 @@
+/**
+ * @module utils/designPrint
+ * @description Helpers for showing which image of a design will be printed.
+ * @since 2026-10-18
+ */
+
+import type { CSSProperties } from 'react';
+import type { Design } from '../types/design';
+
+/**
+ * @constant {CSSProperties} TRANSPARENCY_GRID_STYLE
+ * @description Checkerboard backdrop that makes removed backgrounds visible.
+ */
+export const TRANSPARENCY_GRID_STYLE: CSSProperties = {
+  backgroundImage: 'repeating-conic-gradient(#e5e7eb 0% 25%, #ffffff 0% 50%)',
+  backgroundSize: '16px 16px',
+};
+
+/**
+ * @typedef {Pick<Design, 'imageUrl' | 'thumbnailUrl' | 'transparentImageUrl' | 'keepBackground' | 'textImageUrl'>} PrintPreviewDesign
+ * @description Image fields needed to pick a print preview; order summaries carry only these
+ */
+export type PrintPreviewDesign = Pick<
+  Design,
+  'imageUrl' | 'thumbnailUrl' | 'transparentImageUrl' | 'keepBackground' | 'textImageUrl'
+>;
+
+/**
+ * @function isBackgroundRemoved
+ * @description Whether the design prints from its transparent version: one exists and the
+ * customer hasn't chosen to keep the background.
+ *
+ * @param {PrintPreviewDesign} design - Design to check
+ * @returns {boolean} True when the background is dropped for printing
+ */
+export function isBackgroundRemoved(design: PrintPreviewDesign): boolean {
+  return Boolean(design.transparentImageUrl) && !design.keepBackground;
+}
+
+/**
+ * @function getPrintPreviewUrl
+ * @description Image to show when previewing the print: the version with text layers when the
+ * design has text, the transparent version when the background is dropped, otherwise the
+ * thumbnail or full image.
+ *
+ * @param {PrintPreviewDesign} design - Design to preview
+ * @returns {string} Image URL
+ */
+export function getPrintPreviewUrl(design: PrintPreviewDesign): string {
+  if (design.textImageUrl) {
+    return design.textImageUrl;
+  }
+  if (isBackgroundRemoved(design) && design.transparentImageUrl) {
+    return design.transparentImageUrl;
+  }
+  return design.thumbnailUrl || design.imageUrl;
+}
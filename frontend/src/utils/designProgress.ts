@@ -0,0 +1,30 @@
+/**
+ * @module utils/designProgress
+ * @description Customer-facing labels for design pipeline events from the progress stream.
+ * @since 2026-10-18
+ */
+
+import type { DesignStreamEventType } from '../types/designStream';
+
+/**
+ * @constant {Record<string, string>} DESIGN_STAGE_LABELS
+ * @description Short status copy for a GENERATING design, keyed by the latest pipeline event.
+ */
+export const DESIGN_STAGE_LABELS: Partial<Record<DesignStreamEventType, string>> = {
+  'design.queued': 'Queued…',
+  'design.moderation_passed': 'Generating artwork…',
+  'design.image_generated': 'Saving your draft…',
+  'design.uploaded': 'Finalizing…',
+  'design.retry_scheduled': 'Taking another pass…',
+};
+
+/**
+ * @function getDesignStageLabel
+ * @description Returns the label for the latest pipeline event, or a generic fallback.
+ *
+ * @param {DesignStreamEventType} [stage] - Latest event type seen for the design
+ * @returns {string} Status copy
+ */
+export function getDesignStageLabel(stage?: DesignStreamEventType): string {
+  return (stage && DESIGN_STAGE_LABELS[stage]) || 'Generating...';
+}
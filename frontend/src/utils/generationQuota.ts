@@ -0,0 +1,71 @@
+/**
+ * @module utils/generationQuota
+ * @description Customer-facing copy for generation requests refused by a quota (HTTP 429).
+ * @since 2026-10-18
+ */
+
+import { ApiError } from './api';
+import type { GenerationQuotaCode } from '../types/design';
+
+/**
+ * @constant GENERATION_QUOTA_MESSAGES
+ * @description Message per refusal code, before the "try again" hint.
+ */
+export const GENERATION_QUOTA_MESSAGES: Record<GenerationQuotaCode, string> = {
+  guest_quota:
+    'You’ve made a lot of designs in a short time. Sign in to keep creating, or take a short break.',
+  ip_quota: 'Lots of designs are being made from your network right now.',
+  user_quota: 'You’ve hit the hourly design limit — nice work!',
+  global_quota: 'Our studio is extra busy today.',
+  spend_cap: 'Design generation is taking a short pause.',
+};
+
+/**
+ * @function formatRetryAfter
+ * @description Rounds a Retry-After value to a friendly "try again" hint.
+ *
+ * @param {number} [seconds] - Seconds until the limit frees up
+ * @returns {string} Hint such as "Try again in about 5 minutes."
+ */
+export function formatRetryAfter(seconds?: number): string {
+  if (!seconds) return 'Please try again a little later.';
+  if (seconds < 60) return 'Try again in a minute.';
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `Try again in about ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+  const hours = Math.ceil(minutes / 60);
+  return `Try again in about ${hours} hour${hours === 1 ? '' : 's'}.`;
+}
+
+/**
+ * @function isGenerationQuotaError
+ * @description Whether an API error is a generation quota refusal.
+ *
+ * @param {unknown} error - Caught error
+ * @returns {boolean} True for 429s carrying a known quota code
+ */
+export function isGenerationQuotaError(error: unknown): error is ApiError {
+  return (
+    error instanceof ApiError &&
+    error.status === 429 &&
+    !!error.code &&
+    error.code in GENERATION_QUOTA_MESSAGES
+  );
+}
+
+/**
+ * @function getGenerationErrorMessage
+ * @description Message to show when queueing a design fails: friendly quota copy with a retry
+ * hint for 429s, otherwise the API message or the fallback.
+ *
+ * @param {unknown} error - Caught error
+ * @param {string} fallback - Message when the error has none
+ * @returns {string} Message for the studio or Creation Corridor
+ */
+export function getGenerationErrorMessage(error: unknown, fallback: string): string {
+  if (isGenerationQuotaError(error)) {
+    const message = GENERATION_QUOTA_MESSAGES[error.code as GenerationQuotaCode];
+    return `${message} ${formatRetryAfter(error.retryAfterSeconds)}`;
+  }
+  if (error instanceof Error && error.message) return error.message;
+  return fallback;
+}
@@ -0,0 +1,260 @@
+/**
+ * @module utils/printPlacement
+ * @description Print area, presets and fitting for the placement editor. Mirrors the server
+ * (`config/print-areas.ts`, `services/print-placement.service.ts`) so the mockup shows what
+ * Printful will print.
+ * @since 2026-10-18
+ */
+
+import previewBlack from '@assets/previewBlack.png';
+import previewWhite from '@assets/previewWhite.png';
+import previewGray from '@assets/previewGray.png';
+import previewNavy from '@assets/previewNavy.png';
+import type { DesignPlacement, ExtraPrintPlacement } from '../types/design';
+import type { OrderItem, PrintPlacementBox, PrintPlacementPreset } from '../types/order';
+
+// Shirt mockups by lower-cased colour name
+const MOCKUPS: Record<string, string> = {
+  black: previewBlack,
+  white: previewWhite,
+  gray: previewGray,
+  grey: previewGray,
+  navy: previewNavy,
+};
+
+/**
+ * @constant PRINT_AREA_IN
+ * @description DTG front print area on tees and hoodies, in inches
+ */
+export const PRINT_AREA_IN = { width: 12, height: 16 };
+
+/**
+ * @constant {number} MIN_PRINT_WIDTH_IN
+ * @description Narrowest art box the server accepts, in inches
+ */
+export const MIN_PRINT_WIDTH_IN = 2;
+
+/**
+ * @constant PLACEMENT_PRESETS
+ * @description Editor presets in inches; `left` is omitted for centred presets. Left chest is the
+ * wearer's left, so it sits on the right as you look at the shirt.
+ */
+export const PLACEMENT_PRESETS: {
+  key: PrintPlacementPreset;
+  label: string;
+  width: number;
+  top: number;
+  left?: number;
+}[] = [
+  { key: 'full-front', label: 'Full front', width: 12, top: 0 },
+  { key: 'centered-small', label: 'Centered small', width: 6, top: 1.5 },
+  { key: 'left-chest', label: 'Left chest', width: 4, top: 1, left: 7 },
+];
+
+/**
+ * @constant EXTRA_PLACEMENTS
+ * @description Print locations apparel can add on top of the front, in display order (matches
+ * the server's `EXTRA_PRINT_PLACEMENTS`)
+ */
+export const EXTRA_PLACEMENTS: { key: ExtraPrintPlacement; label: string }[] = [
+  { key: 'back', label: 'Back' },
+  { key: 'sleeve_left', label: 'Left sleeve' },
+  { key: 'label_inside', label: 'Inside label' },
+];
+
+/**
+ * @constant MOCKUP_PRINT_AREA
+ * @description Where the print area sits on the 800×800 `assets/preview*.png` mockups, as
+ * fractions of the mockup width (the mockups are square)
+ */
+export const MOCKUP_PRINT_AREA = {
+  left: 0.325,
+  top: 0.2,
+  width: 0.35,
+  height: (0.35 * PRINT_AREA_IN.height) / PRINT_AREA_IN.width,
+};
+
+/**
+ * @function getMockupImage
+ * @description Shirt mockup for a colour, if there is one
+ *
+ * @param {string} color - Colour name (e.g. "Black")
+ * @returns {string | undefined} Mockup image URL
+ */
+export function getMockupImage(color: string): string | undefined {
+  return MOCKUPS[color.toLowerCase()];
+}
+
+/**
+ * @function roundInches
+ * @description Rounds to 1/100 in, like the server
+ *
+ * @param {number} value - Inches
+ * @returns {number} Rounded inches
+ */
+export function roundInches(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * @function isRepositionable
+ * @description Whether a product category prints on the front area the editor supports
+ *
+ * @param {string | undefined} category - Product category (e.g. T_SHIRT, HOODIE, MUG)
+ * @returns {boolean} True for tees and hoodies
+ */
+export function isRepositionable(category: string | undefined): boolean {
+  return category === 'T_SHIRT' || category === 'HOODIE';
+}
+
+/**
+ * @function getPresetBox
+ * @description Box for a preset, centred when it has no `left`
+ *
+ * @param {PrintPlacementPreset} key - Preset
+ * @returns {PrintPlacementBox} Box in inches
+ */
+export function getPresetBox(key: PrintPlacementPreset): PrintPlacementBox {
+  const preset = PLACEMENT_PRESETS.find((item) => item.key === key) ?? PLACEMENT_PRESETS[0];
+  return {
+    left: preset.left ?? roundInches((PRINT_AREA_IN.width - preset.width) / 2),
+    top: preset.top,
+    width: preset.width,
+  };
+}
+
+/**
+ * @function readItemPlacement
+ * @description Stored box for an order item, or null when it prints at Printful's default
+ *
+ * @param {OrderItem} item - Order item
+ * @returns {PrintPlacementBox | null} Box in inches
+ */
+export function readItemPlacement(item: OrderItem): PrintPlacementBox | null {
+  if (item.printLeftIn == null || item.printTopIn == null || item.printWidthIn == null) {
+    return null;
+  }
+  return { left: item.printLeftIn, top: item.printTopIn, width: item.printWidthIn };
+}
+
+/**
+ * @function fitPrintBox
+ * @description Full box for a design: height follows its aspect ratio, art taller than the area
+ * shrinks around its centre and art running off the bottom moves up, as on the server
+ *
+ * @param {PrintPlacementBox} box - Stored box
+ * @param {number} aspect - Design height divided by width
+ * @returns {PrintPlacementBox & {height: number}} Box with height, in inches
+ */
+export function fitPrintBox(
+  box: PrintPlacementBox,
+  aspect: number
+): PrintPlacementBox & { height: number } {
+  let { left, width } = box;
+  let height = width * aspect;
+
+  if (height > PRINT_AREA_IN.height) {
+    height = PRINT_AREA_IN.height;
+    const fitted = height / aspect;
+    left += (width - fitted) / 2;
+    width = fitted;
+  }
+
+  const top = Math.min(box.top, PRINT_AREA_IN.height - height);
+  return { left: Math.max(0, left), top: Math.max(0, top), width, height };
+}
+
+/**
+ * @function clampPlacementBox
+ * @description Keeps a box being dragged or resized inside the limits the server accepts
+ *
+ * @param {PrintPlacementBox} box - Proposed box
+ * @returns {PrintPlacementBox} Box within the print area, rounded to 1/100 in
+ */
+export function clampPlacementBox(box: PrintPlacementBox): PrintPlacementBox {
+  const width = Math.min(Math.max(box.width, MIN_PRINT_WIDTH_IN), PRINT_AREA_IN.width);
+  return {
+    width: roundInches(width),
+    left: roundInches(Math.min(Math.max(box.left, 0), PRINT_AREA_IN.width - width)),
+    top: roundInches(Math.min(Math.max(box.top, 0), PRINT_AREA_IN.height - MIN_PRINT_WIDTH_IN)),
+  };
+}
+
+/**
+ * @function describePlacement
+ * @description Label for a box, e.g. "Left chest, 4 in wide"
+ *
+ * @param {PrintPlacementBox | null} box - Stored box, or null for the default
+ * @param {PrintPlacementPreset | null | undefined} preset - Preset it started from
+ * @returns {string} Label
+ */
+export function describePlacement(
+  box: PrintPlacementBox | null,
+  preset: PrintPlacementPreset | null | undefined
+): string {
+  const key = box ? preset : 'full-front';
+  const presetBox = key ? getPresetBox(key) : null;
+  const target = box ?? getPresetBox('full-front');
+  const isPreset =
+    presetBox &&
+    presetBox.left === target.left &&
+    presetBox.top === target.top &&
+    presetBox.width === target.width;
+  const name = isPreset
+    ? PLACEMENT_PRESETS.find((item) => item.key === key)?.label
+    : 'Custom placement';
+  return `${name}, ${roundInches(target.width)} in wide`;
+}
+
+/**
+ * @function getMockupBoxStyle
+ * @description Absolute position, in percent of the square mockup, for a fitted box
+ *
+ * @param {PrintPlacementBox & {height: number}} box - Fitted box in inches
+ * @returns {{left: string, top: string, width: string, height: string}} CSS position values
+ */
+export function getMockupBoxStyle(box: PrintPlacementBox & { height: number }): {
+  left: string;
+  top: string;
+  width: string;
+  height: string;
+} {
+  const percent = (value: number) => `${value * 100}%`;
+  return {
+    left: percent(
+      MOCKUP_PRINT_AREA.left + (box.left / PRINT_AREA_IN.width) * MOCKUP_PRINT_AREA.width
+    ),
+    top: percent(
+      MOCKUP_PRINT_AREA.top + (box.top / PRINT_AREA_IN.height) * MOCKUP_PRINT_AREA.height
+    ),
+    width: percent((box.width / PRINT_AREA_IN.width) * MOCKUP_PRINT_AREA.width),
+    height: percent((box.height / PRINT_AREA_IN.height) * MOCKUP_PRINT_AREA.height),
+  };
+}
+
+/**
+ * @function getPlacementLabel
+ * @description Display name for a print location
+ *
+ * @param {DesignPlacement | undefined} placement - Design placement (missing means front)
+ * @returns {string} Label, e.g. "Left sleeve"
+ */
+export function getPlacementLabel(placement: DesignPlacement | undefined): string {
+  return EXTRA_PLACEMENTS.find((item) => item.key === placement)?.label ?? 'Front';
+}
+
+/**
+ * @function getOrderPlacements
+ * @description Every print location an order uses: the front, then each extra placement any item
+ * adds, in display order
+ *
+ * @param {OrderItem[]} items - Order items
+ * @returns {DesignPlacement[]} Placements, front first
+ */
+export function getOrderPlacements(items: OrderItem[]): DesignPlacement[] {
+  const used = new Set(items.flatMap((item) => item.placements?.map((row) => row.placement) ?? []));
+  return [
+    'front',
+    ...EXTRA_PLACEMENTS.filter((item) => used.has(item.key)).map((item) => item.key),
+  ];
+}
@@ -0,0 +1,54 @@
+/**
+ * @module utils/promptPacks
+ * @description "Surprise Me" prompt requests with the visitor ID the API uses to avoid repeats.
+ * @since 2026-10-18
+ */
+
+import { apiGet } from './api';
+import type { RandomPrompt } from '../types/design';
+
+/**
+ * @constant {string} VISITOR_ID_KEY
+ * @description LocalStorage key for the anonymous visitor ID sent with "Surprise Me" requests.
+ */
+export const VISITOR_ID_KEY = 'gptees_visitor_id';
+
+/**
+ * @function getVisitorId
+ * @description Returns this browser's visitor ID, creating it on first use. Returns null when
+ * storage is unavailable, and the API falls back to the IP.
+ *
+ * @returns {string | null} Visitor ID
+ */
+export function getVisitorId(): string | null {
+  try {
+    let visitorId = localStorage.getItem(VISITOR_ID_KEY);
+    if (!visitorId) {
+      visitorId = crypto.randomUUID();
+      localStorage.setItem(VISITOR_ID_KEY, visitorId);
+    }
+    return visitorId;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @function fetchRandomPrompt
+ * @description Draws a "Surprise Me" prompt, from one pack or any available pack.
+ *
+ * @param {string | null} [pack] - Pack key; empty or null for any pack
+ * @returns {Promise<RandomPrompt>} Prompt, its pack and suggested style
+ *
+ * @example
+ * const { prompt, suggestedStyle } = await fetchRandomPrompt('spooky-season');
+ */
+export async function fetchRandomPrompt(pack?: string | null): Promise<RandomPrompt> {
+  const params = new URLSearchParams();
+  if (pack) params.set('pack', pack);
+  const visitorId = getVisitorId();
+  if (visitorId) params.set('visitor', visitorId);
+
+  const response = await apiGet(`/api/designs/random-prompt?${params.toString()}`);
+  return response.data as RandomPrompt;
+}
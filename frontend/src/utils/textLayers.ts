@@ -0,0 +1,168 @@
+/**
+ * @module utils/textLayers
+ * @description Defaults and layout for text layers. The layout mirrors the server renderer
+ * (`services/text-layer.service.ts`) so the editor preview matches the saved image.
+ * @since 2026-10-18
+ */
+
+import type { TextLayer } from '../types/design';
+
+/**
+ * @constant {number} MAX_TEXT_LAYERS
+ * @description Most text blocks the server accepts on one design
+ */
+export const MAX_TEXT_LAYERS = 4;
+
+/**
+ * @constant {number} MAX_TEXT_LENGTH
+ * @description Longest text the server accepts in one block
+ */
+export const MAX_TEXT_LENGTH = 60;
+
+/**
+ * @constant {TextLayer} DEFAULT_TEXT_LAYER
+ * @description Starting point for a new block: straight black text under the art
+ */
+export const DEFAULT_TEXT_LAYER: TextLayer = {
+  text: '',
+  font: 'space-grotesk',
+  color: '#000000',
+  size: 8,
+  shape: 'straight',
+  arc: 60,
+  position: 'below',
+  y: 50,
+};
+
+const LINE_HEIGHT = 1.3;
+const BAND_GAP = 0.02;
+
+/**
+ * @interface PlacedTextLayer
+ * @description Text block positioned on the preview canvas (art-width units)
+ */
+export interface PlacedTextLayer {
+  layer: TextLayer;
+  index: number;
+  fontPx: number;
+  top: number;
+  height: number;
+  /** Baseline offset from `top` that vertically centres capitals */
+  baseline: number;
+  sagitta: number;
+  /** Arc radius; 0 for straight text */
+  radius: number;
+}
+
+/**
+ * @function glyphAdvance
+ * @description Approximate character width in ems, as used by the server for arced text
+ *
+ * @param {string} char - Character
+ * @returns {number} Width in ems
+ */
+function glyphAdvance(char: string): number {
+  if (char === ' ') return 0.3;
+  if ("il.,:;'!|1".includes(char)) return 0.3;
+  if ('MWmw@'.includes(char)) return 0.85;
+  if (char >= 'A' && char <= 'Z') return 0.66;
+  return 0.55;
+}
+
+/**
+ * @function layoutTextLayers
+ * @description Stacks `above` blocks over the art and `below` blocks under it, and centres
+ * `overlay` blocks on their `y`.
+ *
+ * @param {TextLayer[]} layers - Text layers (blank ones are skipped)
+ * @param {number} artWidth - Art width in canvas units
+ * @param {number} artHeight - Art height in canvas units
+ * @returns {{placed: PlacedTextLayer[], artTop: number, height: number}} Blocks, the art's
+ * offset and the canvas height
+ */
+export function layoutTextLayers(
+  layers: TextLayer[],
+  artWidth: number,
+  artHeight: number
+): { placed: PlacedTextLayer[]; artTop: number; height: number } {
+  const gap = BAND_GAP * artWidth;
+  const measured = layers
+    .map((layer, index) => {
+      const fontPx = (layer.size / 100) * artWidth;
+      const baseline = fontPx * (LINE_HEIGHT / 2 + 0.35);
+      const sweep = (Math.abs(layer.arc) * Math.PI) / 180;
+      if (layer.shape === 'straight' || sweep === 0) {
+        return {
+          layer,
+          index,
+          fontPx,
+          baseline,
+          height: fontPx * LINE_HEIGHT,
+          sagitta: 0,
+          radius: 0,
+        };
+      }
+      const textWidth = [...layer.text].reduce((sum, char) => sum + glyphAdvance(char), 0) * fontPx;
+      const radius = textWidth / sweep;
+      const sagitta = radius * (1 - Math.cos(sweep / 2));
+      return {
+        layer,
+        index,
+        fontPx,
+        baseline,
+        height: fontPx * LINE_HEIGHT + sagitta,
+        sagitta,
+        radius,
+      };
+    })
+    .filter((block) => block.layer.text.trim());
+
+  const above = measured.filter((block) => block.layer.position === 'above');
+  const artTop = above.length ? above.reduce((sum, block) => sum + block.height, 0) + gap : 0;
+
+  const placed: PlacedTextLayer[] = [];
+  let cursor = 0;
+  for (const block of above) {
+    placed.push({ ...block, top: cursor });
+    cursor += block.height;
+  }
+
+  cursor = artTop + artHeight + gap;
+  let height = artTop + artHeight;
+  for (const block of measured.filter((item) => item.layer.position === 'below')) {
+    placed.push({ ...block, top: cursor });
+    cursor += block.height;
+    height = cursor;
+  }
+
+  for (const block of measured.filter((item) => item.layer.position === 'overlay')) {
+    const centre = artTop + (block.layer.y / 100) * artHeight;
+    placed.push({ ...block, top: centre - block.height / 2 });
+  }
+
+  return { placed, artTop, height };
+}
+
+/**
+ * @function getArcPath
+ * @description SVG path along which an arced block's text runs, left to right
+ *
+ * @param {PlacedTextLayer} block - Arced block
+ * @param {number} centreX - Horizontal centre of the canvas
+ * @returns {string} Path data
+ */
+export function getArcPath(block: PlacedTextLayer, centreX: number): string {
+  const { radius } = block;
+  const half = (Math.abs(block.layer.arc) * Math.PI) / 360;
+  const dx = radius * Math.sin(half);
+
+  if (block.layer.arc > 0) {
+    const centreY = block.top + block.baseline + radius;
+    const y = centreY - radius * Math.cos(half);
+    return `M ${centreX - dx} ${y} A ${radius} ${radius} 0 0 1 ${centreX + dx} ${y}`;
+  }
+
+  const centreY = block.top + block.sagitta + block.baseline - radius;
+  const y = centreY + radius * Math.cos(half);
+  return `M ${centreX - dx} ${y} A ${radius} ${radius} 0 0 0 ${centreX + dx} ${y}`;
+}